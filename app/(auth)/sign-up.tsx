@@ -16,12 +16,14 @@ import { ArrowLeft, Eye, EyeOff, Mail, Lock, User, Loader, Check } from 'lucide-
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUserRole } from '@/contexts/UserContext';
 import { supabase } from '@/lib/supabase';
 export default function SignUpScreen() {
   const colorScheme = useColorScheme() ?? 'light';
   const colors = getColors(colorScheme);
   const styles = useMemo(() => createStyles(colors), [colors]);
   const { signUp } = useAuth();
+  const { refreshRole } = useUserRole();
 
   const [formData, setFormData] = useState({
     fullName: '',
@@ -100,6 +102,7 @@ export default function SignUpScreen() {
           .from('profiles')
           .upsert({
             id,
+            user_id: id,
             email,
             full_name: formData.fullName.trim(),
             role: 'leads',
@@ -123,22 +126,8 @@ export default function SignUpScreen() {
         if (leadsError) {
           console.error('Leads insert error:', leadsError);
         }
-        // Fetch latest profile and update userRole in context
-        try {
-          const { data: profile, error: profileFetchError } = await supabase
-            .from('profiles')
-            .select('role')
-            .eq('id', id)
-            .single();
-          if (!profileFetchError && profile?.role) {
-            // Dynamically import useUserRole to avoid hook call order issues
-            const { useUserRole } = await import('@/contexts/UserContext');
-            const { setUserRole } = useUserRole();
-            setUserRole(profile.role);
-          }
-        } catch (e) {
-          console.error('Failed to update userRole after sign up:', e);
-        }
+        // Pick up the role the new profile was created with
+        await refreshRole();
         Alert.alert(
           'Account Created! 🎉',
           'Welcome to VinayFit! Your account has been created successfully.',
@@ -8,27 +8,59 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useEffect } from 'react';
 import { router, usePathname } from 'expo-router';
 import React from 'react';
-import { requestNotificationPermissions, addNotificationResponseReceivedListener, cleanupExpiredNotifications } from '@/utils/notificationService';
-import { View, Text } from 'react-native';
+import { addNotificationResponseReceivedListener, cleanupExpiredNotifications } from '@/utils/notificationService';
+import { getNotificationRoute, registerPushToken } from '@/lib/notifications';
+import { subscribeToScheduleChanges, syncWorkoutReminders } from '@/lib/workoutReminders';
+import { getCurrentUserProfile } from '@/lib/database';
+import { startGoalEvaluation } from '@/lib/goalEngine';
+import { View, Text, AppState } from 'react-native';
 
 function NotificationListener() {
   const { user } = useAuth();
   useEffect(() => {
     let subscription: { remove: () => void } | undefined;
+    let appStateSubscription: { remove: () => void } | undefined;
+    let unsubscribeSchedule: (() => void) | undefined;
+    let stopGoalEvaluation: (() => void) | undefined;
+    let cancelled = false;
     if (user) {
+      // Goals linked to logged data complete themselves as that data comes in
+      stopGoalEvaluation = startGoalEvaluation();
       (async () => {
-        await requestNotificationPermissions();
+        await registerPushToken();
         await cleanupExpiredNotifications();
+        await syncWorkoutReminders();
+
+        // Reschedule reminders as soon as a trainer moves or cancels a workout
+        const profile = await getCurrentUserProfile();
+        if (profile && !cancelled) {
+          unsubscribeSchedule = subscribeToScheduleChanges(profile.id, syncWorkoutReminders);
+        }
+
         subscription = addNotificationResponseReceivedListener(response => {
           const data = response.notification.request.content.data;
-          if (user && data && data.goalId) {
+          if (!user || !data) return;
+          if (data.goalId) {
             router.push(`/goal-countdown?goalId=${data.goalId}`);
+            return;
           }
+          const route = getNotificationRoute(String(data.type), data);
+          if (route) router.push(route as any);
         });
       })();
+      // Pick up schedule changes made while the app was in the background
+      appStateSubscription = AppState.addEventListener('change', state => {
+        if (state === 'active') {
+          syncWorkoutReminders();
+        }
+      });
     }
     return () => {
+      cancelled = true;
       if (subscription) subscription.remove();
+      if (appStateSubscription) appStateSubscription.remove();
+      if (unsubscribeSchedule) unsubscribeSchedule();
+      if (stopGoalEvaluation) stopGoalEvaluation();
     };
   }, [user]);
   return null;
@@ -5,63 +5,39 @@ import {
   StyleSheet,
   ScrollView,
   TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
 } from 'react-native';
-import { MessageSquare, Bell, Trophy, Calendar, TrendingUp, Heart, Clock, CircleCheck as CheckCircle } from 'lucide-react-native';
+import { MessageSquare, Bell, Calendar, Dumbbell, Trophy, Users } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useConversations } from '@/hooks/useConversations';
+import { useNotifications } from '@/hooks/useNotifications';
+import { formatConversationTime, getParticipantDisplayName } from '@/lib/messagingQueries';
+import { getNotificationRoute } from '@/lib/notifications';
 
-const messages = [
-  {
-    id: 1,
-    type: 'motivation',
-    title: "You're doing great!",
-    message: "You've completed 3 workouts this week. Keep up the momentum!",
-    time: '2 hours ago',
-    read: false,
-    icon: Trophy,
-    color: '#F59E0B',
-  },
-  {
-    id: 2,
-    type: 'reminder',
-    title: 'Time for your workout',
-    message: "Don't forget about your scheduled Full Body Strength session at 6 PM.",
-    time: '4 hours ago',
-    read: false,
-    icon: Clock,
-    color: '#6366F1',
-  },
-  {
-    id: 3,
-    type: 'achievement',
-    title: 'New Achievement Unlocked!',
-    message: "Congratulations! You've earned the 'First Workout' badge.",
-    time: '1 day ago',
-    read: true,
-    icon: Trophy,
-    color: '#10B981',
-  },
-  {
-    id: 4,
-    type: 'health',
-    title: 'Weekly Health Summary',
-    message: 'Your activity has increased by 15% compared to last week.',
-    time: '2 days ago',
-    read: true,
-    icon: TrendingUp,
-    color: '#EF4444',
-  },
-  {
-    id: 5,
-    type: 'social',
-    title: 'Friend Activity',
-    message: 'Sarah completed a 45-minute yoga session. Send her some encouragement!',
-    time: '3 days ago',
-    read: true,
-    icon: Heart,
-    color: '#EC4899',
-  },
-];
+interface InboxItem {
+  id: string;
+  kind: 'conversation' | 'notification';
+  title: string;
+  message: string;
+  time: string;
+  timestamp: string;
+  read: boolean;
+  icon: any;
+  participantId?: string;
+  route?: string | null;
+}
+
+const NOTIFICATION_ICONS: Record<string, any> = {
+  assignment: Users,
+  plan: Dumbbell,
+  session: Calendar,
+  workout: Dumbbell,
+  reminder: Calendar,
+  goal: Trophy,
+};
 
 export default function InboxView() {
   const colorScheme = useColorScheme();
@@ -71,27 +47,78 @@ export default function InboxView() {
   const styles = createStyles(colors);
 
   const [selectedFilter, setSelectedFilter] = useState('all');
-  
-  const unreadCount = messages.filter(m => !m.read).length;
+  const { conversations, totalUnread, loading, refresh } = useConversations();
+  const {
+    notifications,
+    loading: notificationsLoading,
+    refresh: refreshNotifications,
+    markRead,
+  } = useNotifications();
+
+  // Message notifications are already represented by their conversation
+  const updates: InboxItem[] = notifications
+    .filter(notification => notification.type !== 'message')
+    .map(notification => ({
+      id: notification.id,
+      kind: 'notification',
+      title: notification.title,
+      message: notification.message,
+      time: formatConversationTime(notification.created_at),
+      timestamp: notification.created_at,
+      read: notification.read,
+      icon: NOTIFICATION_ICONS[notification.type] || Bell,
+      route: getNotificationRoute(notification.type, notification.data),
+    }));
+
+  const messages: InboxItem[] = [
+    ...conversations.map(conversation => ({
+      id: conversation.id,
+      kind: 'conversation' as const,
+      title: getParticipantDisplayName(conversation.other_participant),
+      message: conversation.last_message?.content || 'No messages yet',
+      time: formatConversationTime(conversation.last_message?.created_at || conversation.last_message_at),
+      timestamp: conversation.last_message?.created_at || conversation.last_message_at || '',
+      read: conversation.unread_count === 0,
+      icon: MessageSquare,
+      participantId: conversation.other_participant?.id,
+    })),
+    ...updates,
+  ].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  const unreadUpdates = updates.filter(update => !update.read).length;
+  const unreadCount = totalUnread + unreadUpdates;
   
   const filters = [
     { id: 'all', label: 'All', count: messages.length },
     { id: 'unread', label: 'Unread', count: unreadCount },
-    { id: 'motivation', label: 'Motivation', count: messages.filter(m => m.type === 'motivation').length },
-    { id: 'reminders', label: 'Reminders', count: messages.filter(m => m.type === 'reminder').length },
+    { id: 'notifications', label: 'Notifications', count: unreadUpdates },
   ];
 
   const filteredMessages = messages.filter(message => {
     if (selectedFilter === 'all') return true;
     if (selectedFilter === 'unread') return !message.read;
-    if (selectedFilter === 'motivation') return message.type === 'motivation';
-    if (selectedFilter === 'reminders') return message.type === 'reminder';
+    if (selectedFilter === 'notifications') return message.kind === 'notification';
     return true;
   });
 
-  const markAsRead = (messageId: number) => {
-    // In a real app, this would update the message state
-    console.log('Mark message as read:', messageId);
+  const openMessage = (message: InboxItem) => {
+    if (message.kind === 'notification') {
+      if (!message.read) markRead(message.id);
+      if (message.route) router.push(message.route as any);
+      return;
+    }
+
+    if (message.participantId) {
+      notifications
+        .filter(n => n.type === 'message' && !n.read && n.data?.sender_id === message.participantId)
+        .forEach(n => markRead(n.id));
+      router.push(`/chat/${message.participantId}`);
+    }
+  };
+
+  const refreshInbox = () => {
+    refresh();
+    refreshNotifications();
   };
 
   return (
@@ -145,14 +172,24 @@ export default function InboxView() {
       </ScrollView>
 
       {/* Messages */}
-      <ScrollView style={styles.messagesList} showsVerticalScrollIndicator={false}>
-        {filteredMessages.length === 0 ? (
+      <ScrollView
+        style={styles.messagesList}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={refreshInbox} />}
+      >
+        {loading || notificationsLoading ? (
+          <View style={styles.emptyState}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : filteredMessages.length === 0 ? (
           <View style={styles.emptyState}>
             <MessageSquare size={48} color={colors.textTertiary} />
             <Text style={styles.emptyTitle}>No messages</Text>
             <Text style={styles.emptyText}>
               {selectedFilter === 'unread' 
                 ? "You're all caught up! No unread messages."
+                : selectedFilter === 'notifications'
+                ? "No notifications yet. Updates from your coach will appear here."
                 : "Your inbox is empty. Messages will appear here."}
             </Text>
           </View>
@@ -163,10 +200,10 @@ export default function InboxView() {
               <TouchableOpacity
                 key={message.id}
                 style={[styles.messageCard, !message.read && styles.unreadMessage]}
-                onPress={() => markAsRead(message.id)}
+                onPress={() => openMessage(message)}
               >
-                <View style={[styles.messageIcon, { backgroundColor: `${message.color}15` }]}>
-                  <IconComponent size={20} color={message.color} />
+                <View style={[styles.messageIcon, { backgroundColor: `${colors.primary}15` }]}>
+                  <IconComponent size={20} color={colors.primary} />
                 </View>
                 
                 <View style={styles.messageContent}>
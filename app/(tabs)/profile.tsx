@@ -54,7 +54,7 @@ export default function ProfileView() {
   const { user, signOut, loading } = useAuth();
   const colorScheme = useColorScheme() ?? 'light';
   const colors = getColors(colorScheme);
-  const { userRole, userName, setUserRole } = useUserRole();
+  const { userRole, userName } = useUserRole();
   
   // State hooks
   const [trainingMinutes] = useState(184);
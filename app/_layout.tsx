@@ -1,5 +1,5 @@
 import { useEffect } from 'react';
-import { Stack } from 'expo-router';
+import { Stack, router } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { useFonts } from 'expo-font';
@@ -14,10 +14,29 @@ import { AuthProvider } from '@/contexts/AuthContext';
 import { UserProvider } from '@/contexts/UserContext';
 
 import { UserStatsProvider } from '@/contexts/UserStatsContext';
+import { UnitsProvider } from '@/contexts/UnitsContext';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { startSyncEngine } from '@/lib/syncEngine';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouteAccess } from '@/hooks/usePermissions';
 
 SplashScreen.preventAutoHideAsync();
 
+// Staff screens outside the admin/ and trainers/ groups have no layout of their
+// own to guard them, so leave them as soon as the role rules them out
+function RouteAccessRedirect() {
+  const access = useRouteAccess();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (access === 'denied') {
+      router.replace(user ? '/(tabs)' : '/(auth)/login');
+    }
+  }, [access, user]);
+
+  return null;
+}
+
 export default function RootLayout() {
   useFrameworkReady();
   // const colorScheme = useColorScheme();
@@ -32,6 +51,9 @@ const colorScheme = useColorScheme() ?? 'light';
     'Inter-Bold': Inter_700Bold,
   });
 
+  // Replay workouts recorded without signal whenever the app comes back online
+  useEffect(() => startSyncEngine(), []);
+
   useEffect(() => {
     if (fontsLoaded || fontError) {
       SplashScreen.hideAsync();
@@ -45,6 +67,7 @@ const colorScheme = useColorScheme() ?? 'light';
   return (
     <AuthProvider>
       <UserProvider>
+        <UnitsProvider>
            <UserStatsProvider>
 
         <Stack
@@ -62,9 +85,10 @@ const colorScheme = useColorScheme() ?? 'light';
           <Stack.Screen name="create-plan" />
           <Stack.Screen name="+not-found" />
         </Stack>
+        <RouteAccessRedirect />
         <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} backgroundColor={colors.background} />
            </UserStatsProvider>
-      
+        </UnitsProvider>
       </UserProvider>
 
     </AuthProvider>
@@ -13,27 +13,20 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { ChevronDown } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router, useLocalSearchParams } from 'expo-router';
-import { Metric, MetricType } from '@/types/metrics';
+import { Metric } from '@/types/metrics';
 import { getMetric, addMetricEntry } from '@/utils/metricsStorage';
-
-const units = {
-  weight: ['kg', 'lbs'],
-  chest: ['in', 'cm'],
-  shoulders: ['in', 'cm'],
-  waist: ['in', 'cm'],
-  thigh: ['in', 'cm'],
-  hip: ['in', 'cm'],
-  bodyFat: ['%'],
-  bicep: ['in', 'cm'],
-  waterIntake: ['L', 'ml', 'cups'],
-  steps: ['steps'],
-};
+import { resolveMetricType } from '@/lib/metricRegistry';
+import { convertMetricInput, getMetricUnit, getMetricUnitOptions, validateMetricInput } from '@/lib/units';
+import { useUnits } from '@/contexts/UnitsContext';
+import { offerTargetRecalculation } from '@/utils/targetRecalculation';
 
 export default function AddMetricScreen() {
   const colorScheme = useColorScheme() ?? 'light';
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
-  const { metricType } = useLocalSearchParams();
+  const { metricType: metricParam } = useLocalSearchParams();
+  const metricType = resolveMetricType(metricParam);
+  const { unitSystem } = useUnits();
 
   const [metric, setMetric] = useState<Metric | null>(null);
   const [value, setValue] = useState('');
@@ -54,11 +47,12 @@ export default function AddMetricScreen() {
   }, []);
 
   const loadMetric = async () => {
+    if (!metricType) return;
     try {
-      const loadedMetric = await getMetric(metricType as MetricType);
+      const loadedMetric = await getMetric(metricType);
       if (loadedMetric) {
         setMetric(loadedMetric);
-        setSelectedUnit(loadedMetric.unit);
+        setSelectedUnit(getMetricUnit(metricType, unitSystem));
       }
     } catch (error) {
       console.error('Error loading metric:', error);
@@ -66,20 +60,25 @@ export default function AddMetricScreen() {
   };
 
   const handleSave = async () => {
-    if (!value.trim() || !metric) {
+    if (!value.trim() || !metric || !metricType) {
       Alert.alert('Error', 'Please enter a value');
       return;
     }
 
     const numericValue = parseFloat(value);
-    if (isNaN(numericValue)) {
-      Alert.alert('Error', 'Please enter a valid number');
+    const invalid = isNaN(numericValue) ? 'Please enter a valid number' : validateMetricInput(metricType, numericValue, selectedUnit);
+    if (invalid) {
+      Alert.alert('Error', invalid);
       return;
     }
 
     setLoading(true);
     try {
-      await addMetricEntry(metricType as MetricType, numericValue, date, time);
+      const canonicalValue = convertMetricInput(metricType, numericValue, selectedUnit);
+      await addMetricEntry(metricType, canonicalValue, date, time);
+      if (metricType === 'weight') {
+        await offerTargetRecalculation(canonicalValue);
+      }
       router.back();
     } catch (error) {
       console.error('Error saving metric:', error);
@@ -114,7 +113,8 @@ export default function AddMetricScreen() {
     );
   }
 
-  const availableUnits = units[metricType as keyof typeof units] || [metric.unit];
+  // Whatever unit is picked, the entry is saved in the metric's canonical unit
+  const availableUnits = getMetricUnitOptions(metric.id, unitSystem);
 
   return (
     <SafeAreaView style={styles.container}>
@@ -0,0 +1,10 @@
+import { Stack } from 'expo-router';
+import { RouteGuard } from '@/components/RouteGuard';
+
+export default function AdminLayout() {
+  return (
+    <RouteGuard>
+      <Stack screenOptions={{ headerShown: false }} />
+    </RouteGuard>
+  );
+}
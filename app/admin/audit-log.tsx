@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft } from 'lucide-react-native';
+import { useColorScheme, getColors } from '../../hooks/useColorScheme';
+import { router } from 'expo-router';
+import AuditLogView from '../../components/admin/AuditLogView';
+
+export default function AuditLogScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Audit Log</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <AuditLogView />
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+  },
+});
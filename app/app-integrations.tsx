@@ -1,91 +1,67 @@
-import React, { useState } from 'react';
+import React from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ArrowLeft, ChevronRight, Check } from 'lucide-react-native';
+import { ArrowLeft, ChevronRight, Check, CircleAlert as AlertCircle } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useHealthIntegrations, IntegrationListItem } from '@/hooks/useHealthIntegrations';
 import { router } from 'expo-router';
 
-interface HealthApp {
-  id: string;
-  name: string;
-  icon: string;
-  connected: boolean;
-  color: string;
-}
+// Platforms without a provider yet; listed so clients know what's coming
+const PLANNED_APPS = [
+  { id: 'health-connect', name: 'Health Connect', icon: '💙' },
+  { id: 'google-fit', name: 'Google Fit', icon: '❤️' },
+  { id: 'fitbit', name: 'Fitbit', icon: '⚡' },
+  { id: 'myfitnesspal', name: 'MyFitnessPal', icon: '🏃' },
+  { id: 'cronometer', name: 'Cronometer', icon: '🎯' },
+  { id: 'garmin', name: 'Garmin', icon: '⚫' },
+  { id: 'oura', name: 'Oura', icon: '⚫' },
+];
 
 export default function AppIntegrationsScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { items, loading } = useHealthIntegrations();
 
-  const [healthApps, setHealthApps] = useState<HealthApp[]>([
-    {
-      id: 'health-connect',
-      name: 'Health Connect',
-      icon: '💙',
-      connected: false,
-      color: '#4285F4',
-    },
-    {
-      id: 'google-fit',
-      name: 'Google Fit',
-      icon: '❤️',
-      connected: true,
-      color: '#4285F4',
-    },
-    {
-      id: 'fitbit',
-      name: 'Fitbit',
-      icon: '⚡',
-      connected: false,
-      color: '#00B0B9',
-    },
-    {
-      id: 'myfitnesspal',
-      name: 'MyFitnessPal',
-      icon: '🏃',
-      connected: false,
-      color: '#0066CC',
-    },
-    {
-      id: 'cronometer',
-      name: 'Cronometer',
-      icon: '🎯',
-      connected: false,
-      color: '#FF6B35',
-    },
-    {
-      id: 'garmin',
-      name: 'Garmin',
-      icon: '⚫',
-      connected: false,
-      color: '#007CC3',
-    },
-    {
-      id: 'oura',
-      name: 'Oura',
-      icon: '⚫',
-      connected: false,
-      color: '#1A1A1A',
-    },
-  ]);
+  const handleAppPress = (item: IntegrationListItem) => {
+    router.push(`/connect-app/${item.provider.id}`);
+  };
 
-  const handleAppPress = (app: HealthApp) => {
-    if (app.connected) {
-      router.push('/data-source');
-    } else {
-      router.push(`/connect-app/${app.id}`);
+  const renderStatus = (item: IntegrationListItem) => {
+    if (item.integration?.status === 'error') {
+      return (
+        <>
+          <AlertCircle size={14} color={colors.error} />
+          <Text style={[styles.statusText, { color: colors.error }]}>
+            Sync failed
+          </Text>
+        </>
+      );
+    }
+
+    if (item.connected) {
+      return (
+        <>
+          <Check size={14} color={colors.success} />
+          <Text style={[styles.statusText, { color: colors.success }]}>
+            Connected
+          </Text>
+        </>
+      );
     }
-  };
 
-  const handleDataSourcePress = () => {
-    router.push('/data-source');
+    return (
+      <Text style={[styles.statusText, { color: colors.textTertiary }]}>
+        Connect Now
+      </Text>
+    );
   };
 
   return (
@@ -137,39 +113,50 @@ export default function AppIntegrationsScreen() {
           </Text>
 
           {/* Health Apps List */}
-          <View style={styles.appsList}>
-            {healthApps.map((app) => (
-              <TouchableOpacity
-                key={app.id}
-                style={styles.appItem}
-                onPress={() => handleAppPress(app)}
-              >
-                <View style={styles.appLeft}>
-                  <View style={styles.appIconContainer}>
-                    <Text style={styles.appIcon}>{app.icon}</Text>
+          {loading ? (
+            <ActivityIndicator color={colors.primary} />
+          ) : (
+            <View style={styles.appsList}>
+              {items.map((item) => (
+                <TouchableOpacity
+                  key={item.provider.id}
+                  style={styles.appItem}
+                  onPress={() => handleAppPress(item)}
+                >
+                  <View style={styles.appLeft}>
+                    <View style={styles.appIconContainer}>
+                      <Text style={styles.appIcon}>{item.provider.icon}</Text>
+                    </View>
+                    <View style={styles.appInfo}>
+                      <Text style={styles.appName}>{item.provider.name}</Text>
+                      <View style={styles.statusContainer}>
+                        {renderStatus(item)}
+                      </View>
+                    </View>
                   </View>
-                  <View style={styles.appInfo}>
-                    <Text style={styles.appName}>{app.name}</Text>
-                    <View style={styles.statusContainer}>
-                      {app.connected ? (
-                        <>
-                          <Check size={14} color={colors.success} />
-                          <Text style={[styles.statusText, { color: colors.success }]}>
-                            Connected
-                          </Text>
-                        </>
-                      ) : (
-                        <Text style={[styles.statusText, { color: colors.textTertiary }]}>
-                          Connect Now
+                  <ChevronRight size={20} color={colors.textTertiary} />
+                </TouchableOpacity>
+              ))}
+
+              {PLANNED_APPS.map((app) => (
+                <View key={app.id} style={[styles.appItem, styles.appItemDisabled]}>
+                  <View style={styles.appLeft}>
+                    <View style={styles.appIconContainer}>
+                      <Text style={styles.appIcon}>{app.icon}</Text>
+                    </View>
+                    <View style={styles.appInfo}>
+                      <Text style={styles.appName}>{app.name}</Text>
+                      <View style={styles.statusContainer}>
+                        <Text style={[styles.statusText, { color: colors.textTertiary, marginLeft: 0 }]}>
+                          Coming soon
                         </Text>
-                      )}
+                      </View>
                     </View>
                   </View>
                 </View>
-                <ChevronRight size={20} color={colors.textTertiary} />
-              </TouchableOpacity>
-            ))}
-          </View>
+              ))}
+            </View>
+          )}
         </View>
 
         <View style={{ height: 100 }} />
@@ -268,6 +255,9 @@ const createStyles = (colors: any) => StyleSheet.create({
     shadowRadius: 2,
     elevation: 1,
   },
+  appItemDisabled: {
+    opacity: 0.5,
+  },
   appLeft: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import {
+  ActivityIndicator,
   View,
   Text,
   StyleSheet,
@@ -19,162 +20,26 @@ import {
   MoreVertical,
   CheckCheck,
   Check,
-  Clock
+  Clock,
+  CircleAlert as AlertCircle
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useChat, ThreadMessage } from '@/hooks/useChat';
+import { getParticipantDisplayName } from '@/lib/messagingQueries';
 import { useLocalSearchParams, router } from 'expo-router';
 
 const { width } = Dimensions.get('window');
 
-interface Message {
-  id: string;
-  content: string;
-  sender: 'trainer' | 'client';
-  timestamp: string;
-  status: 'sending' | 'sent' | 'delivered' | 'read';
-}
-
-interface Client {
-  id: string;
-  name: string;
-  avatar: string;
-  status: 'online' | 'offline' | 'away';
-  lastSeen?: string;
-}
-
-// Mock data for demonstration
-const mockClients: { [key: string]: Client } = {
-  '1': {
-    id: '1',
-    name: 'Sarah Johnson',
-    avatar: '👩‍💼',
-    status: 'online',
-  },
-  '2': {
-    id: '2',
-    name: 'Mike Chen',
-    avatar: '👨‍💻',
-    status: 'offline',
-    lastSeen: '2 hours ago',
-  },
-  '3': {
-    id: '3',
-    name: 'Emma Wilson',
-    avatar: '👩‍🎨',
-    status: 'away',
-    lastSeen: '30 minutes ago',
-  },
-  '4': {
-    id: '4',
-    name: 'Alex Rodriguez',
-    avatar: '👨‍🎯',
-    status: 'online',
-  },
-};
-
-const mockMessages: { [key: string]: Message[] } = {
-  '1': [
-    {
-      id: '1',
-      content: 'Hi! I wanted to ask about tomorrow\'s session.',
-      sender: 'client',
-      timestamp: '2024-01-15T09:30:00Z',
-      status: 'read',
-    },
-    {
-      id: '2',
-      content: 'Of course! What would you like to know?',
-      sender: 'trainer',
-      timestamp: '2024-01-15T09:32:00Z',
-      status: 'read',
-    },
-    {
-      id: '3',
-      content: 'Can we focus more on upper body exercises? I feel like my arms need more work.',
-      sender: 'client',
-      timestamp: '2024-01-15T09:35:00Z',
-      status: 'read',
-    },
-    {
-      id: '4',
-      content: 'Absolutely! I\'ll prepare a specialized upper body routine for you. We\'ll focus on progressive overload for your arms and shoulders.',
-      sender: 'trainer',
-      timestamp: '2024-01-15T09:37:00Z',
-      status: 'read',
-    },
-    {
-      id: '5',
-      content: 'Perfect! Thanks for being so accommodating. See you tomorrow at 10 AM!',
-      sender: 'client',
-      timestamp: '2024-01-15T09:40:00Z',
-      status: 'read',
-    },
-  ],
-  '2': [
-    {
-      id: '1',
-      content: 'Hey! Quick question about the nutrition plan.',
-      sender: 'client',
-      timestamp: '2024-01-15T14:20:00Z',
-      status: 'read',
-    },
-    {
-      id: '2',
-      content: 'Sure, what\'s up?',
-      sender: 'trainer',
-      timestamp: '2024-01-15T14:22:00Z',
-      status: 'delivered',
-    },
-  ],
-  '3': [
-    {
-      id: '1',
-      content: 'I missed today\'s session due to a work emergency. Can we reschedule?',
-      sender: 'client',
-      timestamp: '2024-01-15T16:45:00Z',
-      status: 'sent',
-    },
-  ],
-  '4': [
-    {
-      id: '1',
-      content: 'Great workout today! Feeling stronger already 💪',
-      sender: 'client',
-      timestamp: '2024-01-15T18:30:00Z',
-      status: 'read',
-    },
-    {
-      id: '2',
-      content: 'That\'s awesome to hear! Your form has really improved. Keep up the great work!',
-      sender: 'trainer',
-      timestamp: '2024-01-15T18:32:00Z',
-      status: 'read',
-    },
-  ],
-};
-
 export default function ChatScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
   const { id } = useLocalSearchParams<{ id: string }>();
-  
-  const [messages, setMessages] = useState<Message[]>([]);
+
+  const { participant, messages, isTyping, loading, error, sendMessage, notifyTyping } = useChat(id);
   const [newMessage, setNewMessage] = useState('');
-  const [client, setClient] = useState<Client | null>(null);
-  const [isTyping, setIsTyping] = useState(false);
   const scrollViewRef = useRef<ScrollView>(null);
 
-  useEffect(() => {
-    if (id) {
-      const clientData = mockClients[id];
-      const clientMessages = mockMessages[id] || [];
-      
-      setClient(clientData || null);
-      setMessages(clientMessages);
-    }
-  }, [id]);
-
   useEffect(() => {
     // Auto-scroll to bottom when new messages arrive
     setTimeout(() => {
@@ -219,83 +84,52 @@ export default function ChatScreen() {
         return <CheckCheck size={12} color={colors.textTertiary} />;
       case 'read':
         return <CheckCheck size={12} color={colors.primary} />;
+      case 'failed':
+        return <AlertCircle size={12} color={colors.error} />;
       default:
         return null;
     }
   };
 
-  const sendMessage = () => {
-    if (newMessage.trim()) {
-      const message: Message = {
-        id: Date.now().toString(),
-        content: newMessage.trim(),
-        sender: 'trainer',
-        timestamp: new Date().toISOString(),
-        status: 'sending',
-      };
+  const handleChangeText = (text: string) => {
+    setNewMessage(text);
+    if (text.trim()) {
+      notifyTyping();
+    }
+  };
 
-      setMessages(prev => [...prev, message]);
+  const handleSend = () => {
+    if (newMessage.trim()) {
+      sendMessage(newMessage);
       setNewMessage('');
-
-      // Simulate message status updates
-      setTimeout(() => {
-        setMessages(prev => 
-          prev.map(msg => 
-            msg.id === message.id ? { ...msg, status: 'sent' } : msg
-          )
-        );
-      }, 500);
-
-      setTimeout(() => {
-        setMessages(prev => 
-          prev.map(msg => 
-            msg.id === message.id ? { ...msg, status: 'delivered' } : msg
-          )
-        );
-      }, 1000);
-
-      // Simulate client typing and response (for demo)
-      if (Math.random() > 0.7) {
-        setTimeout(() => {
-          setIsTyping(true);
-        }, 2000);
-
-        setTimeout(() => {
-          setIsTyping(false);
-          const responses = [
-            'Thanks for the quick response!',
-            'Got it, see you then!',
-            'Perfect, that works for me.',
-            'Sounds good! 👍',
-          ];
-          const response: Message = {
-            id: (Date.now() + 1).toString(),
-            content: responses[Math.floor(Math.random() * responses.length)],
-            sender: 'client',
-            timestamp: new Date().toISOString(),
-            status: 'sent',
-          };
-          setMessages(prev => [...prev, response]);
-        }, 3500);
-      }
     }
   };
 
   const handleCall = () => {
     // Implement call functionality
-    console.log('Initiating call with', client?.name);
+    console.log('Initiating call with', getParticipantDisplayName(participant));
   };
 
   const handleVideoCall = () => {
     // Implement video call functionality
-    console.log('Initiating video call with', client?.name);
+    console.log('Initiating video call with', getParticipantDisplayName(participant));
   };
 
-  if (!client) {
+  if (loading) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>Client not found</Text>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !participant) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error || 'Conversation not found'}</Text>
           <TouchableOpacity 
             style={styles.backButton} 
             onPress={() => router.back()}
@@ -307,7 +141,9 @@ export default function ChatScreen() {
     );
   }
 
-  const shouldShowDateSeparator = (currentMessage: Message, previousMessage?: Message) => {
+  const participantName = getParticipantDisplayName(participant);
+
+  const shouldShowDateSeparator = (currentMessage: ThreadMessage, previousMessage?: ThreadMessage) => {
     if (!previousMessage) return true;
     
     const currentDate = new Date(currentMessage.timestamp).toDateString();
@@ -327,21 +163,14 @@ export default function ChatScreen() {
         <View style={styles.headerCenter}>
           <View style={styles.clientInfo}>
             <View style={styles.avatarContainer}>
-              <Text style={styles.avatar}>{client.avatar}</Text>
-              <View style={[
-                styles.statusDot,
-                { backgroundColor: 
-                  client.status === 'online' ? colors.success : 
-                  client.status === 'away' ? colors.warning : colors.textTertiary 
-                }
-              ]} />
+              <View style={styles.avatarCircle}>
+                <Text style={styles.avatarInitial}>{participantName.charAt(0).toUpperCase()}</Text>
+              </View>
             </View>
             <View style={styles.clientDetails}>
-              <Text style={styles.clientName}>{client.name}</Text>
+              <Text style={styles.clientName}>{participantName}</Text>
               <Text style={styles.clientStatus}>
-                {client.status === 'online' ? 'Online' : 
-                 client.status === 'away' ? 'Away' : 
-                 `Last seen ${client.lastSeen}`}
+                {isTyping ? 'Typing...' : participant.role.charAt(0).toUpperCase() + participant.role.slice(1)}
               </Text>
             </View>
           </View>
@@ -373,6 +202,14 @@ export default function ChatScreen() {
           showsVerticalScrollIndicator={false}
           onContentSizeChange={() => scrollViewRef.current?.scrollToEnd({ animated: true })}
         >
+          {messages.length === 0 && (
+            <View style={styles.dateSeparator}>
+              <Text style={styles.dateSeparatorText}>
+                Say hello to {participantName}
+              </Text>
+            </View>
+          )}
+
           {messages.map((message, index) => {
             const previousMessage = index > 0 ? messages[index - 1] : undefined;
             const showDateSeparator = shouldShowDateSeparator(message, previousMessage);
@@ -389,15 +226,15 @@ export default function ChatScreen() {
                 
                 <View style={[
                   styles.messageContainer,
-                  message.sender === 'trainer' ? styles.sentMessage : styles.receivedMessage
+                  message.isOwn ? styles.sentMessage : styles.receivedMessage
                 ]}>
                   <View style={[
                     styles.messageBubble,
-                    message.sender === 'trainer' ? styles.sentBubble : styles.receivedBubble
+                    message.isOwn ? styles.sentBubble : styles.receivedBubble
                   ]}>
                     <Text style={[
                       styles.messageText,
-                      message.sender === 'trainer' ? styles.sentText : styles.receivedText
+                      message.isOwn ? styles.sentText : styles.receivedText
                     ]}>
                       {message.content}
                     </Text>
@@ -405,12 +242,12 @@ export default function ChatScreen() {
                   
                   <View style={[
                     styles.messageFooter,
-                    message.sender === 'trainer' ? styles.sentFooter : styles.receivedFooter
+                    message.isOwn ? styles.sentFooter : styles.receivedFooter
                   ]}>
                     <Text style={styles.messageTime}>
-                      {formatTime(message.timestamp)}
+                      {message.status === 'failed' ? 'Not delivered' : formatTime(message.timestamp)}
                     </Text>
-                    {message.sender === 'trainer' && (
+                    {message.isOwn && (
                       <View style={styles.messageStatus}>
                         {getStatusIcon(message.status)}
                       </View>
@@ -442,7 +279,7 @@ export default function ChatScreen() {
               placeholder="Type a message..."
               placeholderTextColor={colors.textTertiary}
               value={newMessage}
-              onChangeText={setNewMessage}
+              onChangeText={handleChangeText}
               multiline
               maxLength={1000}
             />
@@ -451,7 +288,7 @@ export default function ChatScreen() {
                 styles.sendButton,
                 newMessage.trim() ? styles.sendButtonActive : styles.sendButtonInactive
               ]}
-              onPress={sendMessage}
+              onPress={handleSend}
               disabled={!newMessage.trim()}
             >
               <Send 
@@ -512,22 +349,18 @@ const createStyles = (colors: any) => StyleSheet.create({
     position: 'relative',
     marginRight: 12,
   },
-  avatar: {
-    fontSize: 24,
+  avatarCircle: {
     width: 40,
     height: 40,
-    textAlign: 'center',
-    lineHeight: 40,
-  },
-  statusDot: {
-    position: 'absolute',
-    bottom: 2,
-    right: 2,
-    width: 12,
-    height: 12,
-    borderRadius: 6,
-    borderWidth: 2,
-    borderColor: colors.surface,
+    borderRadius: 20,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarInitial: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
   },
   clientDetails: {
     flex: 1,
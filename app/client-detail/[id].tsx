@@ -44,6 +44,10 @@ import {
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router, useLocalSearchParams } from 'expo-router';
 import { supabase } from '@/lib/supabase';
+import { canViewClient } from '@/lib/permissions';
+import { getMetrics } from '@/utils/metricsStorage';
+import { formatQuantity } from '@/lib/units';
+import { useUnits } from '@/contexts/UnitsContext';
 
 const { width } = Dimensions.get('window');
 
@@ -52,6 +56,7 @@ export default function ClientDetailScreen() {
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
   const { id } = useLocalSearchParams();
+  const { unitSystem } = useUnits();
 
   const [client, setClient] = useState<any>(null);
   const [loading, setLoading] = useState(true);
@@ -79,6 +84,12 @@ export default function ClientDetailScreen() {
         setRefreshing(false);
         return;
       }
+      if (!(await canViewClient(id))) {
+        setError('This client is not assigned to you.');
+        setLoading(false);
+        setRefreshing(false);
+        return;
+      }
       console.log('Fetching client profile for ID:', id);
       
       // First, try to fetch the profile without role filter to see if it exists
@@ -178,12 +189,11 @@ export default function ClientDetailScreen() {
       // Fetch achievements (mocked for now)
       const achievements = [];
 
-      // Progress data (weight over time)
-      const { data: progressData } = await supabase
-        .from('daily_stats')
-        .select('date, weight_kg')
-        .eq('user_id', id)
-        .order('date', { ascending: true });
+      // Body metrics the client logged (or a trainer recorded) in client_measurements
+      const metrics = await getMetrics(id);
+      const weightEntries = metrics.weight?.entries || [];
+      const firstWeight = weightEntries[0]?.value;
+      const latestWeight = metrics.weight?.currentValue;
 
       setClient({
         id: profile.id,
@@ -202,15 +212,15 @@ export default function ClientDetailScreen() {
         compliance: stats?.compliance || 0,
         goals: goals?.map((g: any) => g.title) || [],
         stats: {
-          currentWeight: stats?.weight_kg || 0,
+          currentWeight: latestWeight ?? stats?.weight_kg ?? 0,
           targetWeight: 0, // You can fetch from goals if you store it
-          weightLoss: 0, // Calculate from progressData
-          bodyFat: stats?.body_fat || 0,
+          weightChange: latestWeight != null && firstWeight != null ? Number((latestWeight - firstWeight).toFixed(1)) : 0,
+          bodyFat: metrics.body_fat?.currentValue ?? 0,
           muscle: stats?.muscle || 0,
         },
         recentWorkouts: recentWorkouts || [],
         upcomingSessions: upcomingSessions || [],
-        progressData: (progressData || []).map((d: any) => ({ date: d.date, weight: d.weight_kg })),
+        progressData: weightEntries.slice(-6).map(entry => ({ date: entry.date, weight: entry.value })),
         achievements,
       });
       setEditForm({
@@ -409,9 +419,11 @@ export default function ClientDetailScreen() {
           <View style={[styles.statIcon, { backgroundColor: `${colors.primary}15` }]}>
             <Scale size={20} color={colors.primary} />
           </View>
-          <Text style={styles.statValue}>{client.stats.currentWeight}kg</Text>
+          <Text style={styles.statValue}>{formatQuantity(client.stats.currentWeight, 'mass', unitSystem)}</Text>
           <Text style={styles.statLabel}>Current Weight</Text>
-          <Text style={[styles.statChange, { color: colors.success }]}>-{Math.abs(client.stats.weightLoss)}kg</Text>
+          <Text style={[styles.statChange, { color: colors.textSecondary }]}>
+            {client.stats.weightChange > 0 ? '+' : ''}{formatQuantity(client.stats.weightChange, 'mass', unitSystem)} since first entry
+          </Text>
         </View>
         <View style={styles.statCard}>
           <View style={[styles.statIcon, { backgroundColor: `${colors.success}15` }]}>
@@ -440,7 +452,14 @@ export default function ClientDetailScreen() {
       </View>
       {/* Progress Chart */}
       <View style={styles.progressCard}>
-        <Text style={styles.progressTitle}>Weight Progress</Text>
+        <View style={styles.progressHeader}>
+          <Text style={styles.progressTitle}>Weight Progress</Text>
+          <TouchableOpacity
+            onPress={() => router.push(`/client-metrics?clientId=${client.id}&clientName=${encodeURIComponent(client.name)}`)}
+          >
+            <Text style={styles.progressLink}>All metrics</Text>
+          </TouchableOpacity>
+        </View>
         <View style={styles.progressChart}>
           {Array.isArray(client.progressData) && client.progressData.length > 0 ? (
             client.progressData.map((point: any, index: number) => (
@@ -450,7 +469,7 @@ export default function ClientDetailScreen() {
                   {point.date ? new Date(point.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : 'N/A'}
                 </Text>
                 <Text style={styles.progressWeight}>
-                  {point.weight != null ? `${point.weight}kg` : '0kg'}
+                  {formatQuantity(point.weight ?? 0, 'mass', unitSystem)}
                 </Text>
               </View>
             ))
@@ -1093,11 +1112,21 @@ const createStyles = (colors: any) => StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
+  progressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
   progressTitle: {
     fontFamily: 'Inter-SemiBold',
     fontSize: 16,
     color: colors.text,
-    marginBottom: 16,
+  },
+  progressLink: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.primary,
   },
   progressChart: {
     flexDirection: 'row',
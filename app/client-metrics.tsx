@@ -10,27 +10,37 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ArrowLeft, ChevronRight, Plus, ChevronDown } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { MetricData, MetricType } from '@/types/metrics';
 import { getMetrics } from '@/utils/metricsStorage';
+import { toDisplayMetric } from '@/lib/units';
+import { useUnits } from '@/contexts/UnitsContext';
 
 export default function ClientMetricsScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { clientId, clientName } = useLocalSearchParams();
+  // Set when a trainer opens a client's metrics; logging is left to the client
+  const viewedClientId = typeof clientId === 'string' ? clientId : undefined;
 
+  const { unitSystem } = useUnits();
   const [metrics, setMetrics] = useState<MetricData>({});
   const [showAddModal, setShowAddModal] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadMetrics();
-  }, []);
+  }, [unitSystem]);
 
   const loadMetrics = async () => {
     try {
-      const loadedMetrics = await getMetrics();
-      setMetrics(loadedMetrics);
+      const loadedMetrics = await getMetrics(viewedClientId);
+      const displayed: MetricData = {};
+      Object.entries(loadedMetrics).forEach(([key, metric]) => {
+        displayed[key] = toDisplayMetric(metric, unitSystem);
+      });
+      setMetrics(displayed);
     } catch (error) {
       console.error('Error loading metrics:', error);
     } finally {
@@ -39,7 +49,11 @@ export default function ClientMetricsScreen() {
   };
 
   const handleMetricPress = (metricType: MetricType) => {
-    router.push(`/metric-tracking/${metricType}`);
+    router.push(
+      viewedClientId
+        ? `/metric-tracking/${metricType}?clientId=${viewedClientId}`
+        : `/metric-tracking/${metricType}`
+    );
   };
 
   const handleLogAllMetrics = () => {
@@ -100,10 +114,16 @@ export default function ClientMetricsScreen() {
         <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
           <ArrowLeft size={24} color={colors.text} />
         </TouchableOpacity>
-        <Text style={styles.title}>Metrics</Text>
-        <TouchableOpacity onPress={() => setShowAddModal(true)} style={styles.addButton}>
-          <Plus size={24} color={colors.primary} />
-        </TouchableOpacity>
+        <Text style={styles.title}>
+          {viewedClientId && typeof clientName === 'string' ? `${clientName}'s Metrics` : 'Metrics'}
+        </Text>
+        {viewedClientId ? (
+          <View style={{ width: 24 }} />
+        ) : (
+          <TouchableOpacity onPress={() => setShowAddModal(true)} style={styles.addButton}>
+            <Plus size={24} color={colors.primary} />
+          </TouchableOpacity>
+        )}
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
@@ -122,9 +142,11 @@ export default function ClientMetricsScreen() {
         </View>
 
         {/* Log All Metrics Button */}
-        <TouchableOpacity style={styles.logAllButton} onPress={handleLogAllMetrics}>
-          <Text style={styles.logAllText}>Log all metrics</Text>
-        </TouchableOpacity>
+        {!viewedClientId && (
+          <TouchableOpacity style={styles.logAllButton} onPress={handleLogAllMetrics}>
+            <Text style={styles.logAllText}>Log all metrics</Text>
+          </TouchableOpacity>
+        )}
 
         <View style={{ height: 100 }} />
       </ScrollView>
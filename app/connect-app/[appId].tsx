@@ -5,104 +5,181 @@ import {
   StyleSheet,
   TouchableOpacity,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ArrowLeft } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useHealthIntegrations } from '@/hooks/useHealthIntegrations';
+import { ImportSummary } from '@/types/integrations';
 import { router, useLocalSearchParams } from 'expo-router';
 
+const describeImport = (summary: ImportSummary) => {
+  const parts = [
+    summary.metrics > 0 && `${summary.metrics} measurements`,
+    summary.stepHours > 0 && `${summary.stepHours} hours of steps`,
+    summary.activityDays > 0 && `${summary.activityDays} days of activity`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `Imported ${parts.join(', ')}.` : 'No new data to import.';
+};
+
 export default function ConnectAppScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
   const { appId } = useLocalSearchParams();
+  const { items, loading, busyProvider, connect, disconnect, sync } = useHealthIntegrations();
+
+  const item = items.find(entry => entry.provider.id === appId);
+  const busy = !!item && busyProvider === item.provider.id;
 
-  const getAppInfo = (id: string) => {
-    const apps = {
-      'health-connect': {
-        name: 'Health Connect',
-        icon: '❤️',
-        description: 'Everfit will automatically sync data for selected metrics with Apple Health upon launch of the app. You can also manually sync below.',
-      },
-      'google-fit': {
-        name: 'Google Fit',
-        icon: '❤️',
-        description: 'Connect with Google Fit to sync your fitness data automatically.',
-      },
-      'fitbit': {
-        name: 'Fitbit',
-        icon: '⚡',
-        description: 'Connect with Fitbit to sync your activity and health data.',
-      },
-      'myfitnesspal': {
-        name: 'MyFitnessPal',
-        icon: '🏃',
-        description: 'Connect with MyFitnessPal to sync your nutrition data.',
-      },
-      'cronometer': {
-        name: 'Cronometer',
-        icon: '🎯',
-        description: 'Connect with Cronometer to sync your nutrition tracking.',
-      },
-      'garmin': {
-        name: 'Garmin',
-        icon: '⚫',
-        description: 'Connect with Garmin to sync your fitness and activity data.',
-      },
-      'oura': {
-        name: 'Oura',
-        icon: '⚫',
-        description: 'Connect with Oura to sync your sleep and recovery data.',
-      },
-    };
-    return apps[id as keyof typeof apps] || apps['health-connect'];
+  const handleSync = async () => {
+    if (!item) return;
+    const summary = await sync(item.provider.id);
+    if (summary) {
+      Alert.alert('Sync Complete', describeImport(summary));
+    } else {
+      Alert.alert('Sync Failed', `Could not sync data from ${item.provider.name}. Please try again.`);
+    }
   };
 
-  const appInfo = getAppInfo(appId as string);
+  const handleConnect = async () => {
+    if (!item) return;
+    const integration = await connect(item.provider.id);
+    if (!integration) {
+      Alert.alert('Connection Failed', `Could not connect to ${item.provider.name}.`);
+      return;
+    }
 
-  const handleConnect = () => {
-    // Simulate connection process
+    // Interactive providers wait for the user to start an import
+    if (item.provider.interactive) {
+      Alert.alert('Connection Successful', `Successfully connected to ${item.provider.name}!`);
+      return;
+    }
+    await handleSync();
+  };
+
+  const handleDisconnect = () => {
+    if (!item) return;
     Alert.alert(
-      'Connection Successful',
-      `Successfully connected to ${appInfo.name}!`,
+      'Disconnect',
+      `Stop syncing data from ${item.provider.name}? Data that was already imported is kept.`,
       [
+        { text: 'Cancel', style: 'cancel' },
         {
-          text: 'OK',
-          onPress: () => router.back(),
+          text: 'Disconnect',
+          style: 'destructive',
+          onPress: async () => {
+            const disconnected = await disconnect(item.provider.id);
+            if (!disconnected) {
+              Alert.alert('Error', 'Failed to disconnect. Please try again.');
+            }
+          },
         },
       ]
     );
   };
 
-  return (
-    <SafeAreaView style={styles.container}>
-      {/* Header */}
-      <View style={styles.header}>
-        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-          <ArrowLeft size={24} color={colors.text} />
-        </TouchableOpacity>
-        <Text style={styles.title}>App Integration</Text>
-        <View style={{ width: 24 }} />
-      </View>
+  const renderBody = () => {
+    if (loading) {
+      return <ActivityIndicator color={colors.primary} />;
+    }
 
-      <View style={styles.content}>
+    if (!item) {
+      return (
+        <View style={styles.infoContainer}>
+          <Text style={styles.appName}>Not Available Yet</Text>
+          <Text style={styles.appDescription}>This integration isn't supported yet.</Text>
+        </View>
+      );
+    }
+
+    const { provider, integration, connected } = item;
+    const lastSynced = integration?.last_synced_at
+      ? new Date(integration.last_synced_at).toLocaleString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+        })
+      : null;
+
+    return (
+      <>
         {/* App Icon */}
         <View style={styles.iconContainer}>
           <View style={styles.appIconCircle}>
-            <Text style={styles.appIcon}>{appInfo.icon}</Text>
+            <Text style={styles.appIcon}>{provider.icon}</Text>
           </View>
         </View>
 
         {/* App Info */}
         <View style={styles.infoContainer}>
-          <Text style={styles.appName}>Connect to {appInfo.name}</Text>
-          <Text style={styles.appDescription}>{appInfo.description}</Text>
+          <Text style={styles.appName}>
+            {connected ? provider.name : `Connect to ${provider.name}`}
+          </Text>
+          <Text style={styles.appDescription}>{provider.description}</Text>
+          {connected && (
+            <Text style={styles.syncStatus}>
+              {integration?.status === 'error'
+                ? `Last sync failed: ${integration.last_error || 'unknown error'}`
+                : lastSynced
+                  ? `Last synced ${lastSynced}`
+                  : 'Not synced yet'}
+            </Text>
+          )}
         </View>
 
-        {/* Connect Button */}
-        <TouchableOpacity style={styles.connectButton} onPress={handleConnect}>
-          <Text style={styles.connectButtonText}>Connect</Text>
+        {/* Actions */}
+        {connected ? (
+          <>
+            <TouchableOpacity
+              style={[styles.connectButton, busy && styles.buttonDisabled]}
+              onPress={handleSync}
+              disabled={busy}
+            >
+              {busy ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.connectButtonText}>
+                  {provider.interactive ? 'Import File' : 'Sync Now'}
+                </Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.disconnectButton} onPress={handleDisconnect} disabled={busy}>
+              <Text style={styles.disconnectButtonText}>Disconnect</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <TouchableOpacity
+            style={[styles.connectButton, busy && styles.buttonDisabled]}
+            onPress={handleConnect}
+            disabled={busy}
+          >
+            {busy ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.connectButtonText}>Connect</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color={colors.text} />
         </TouchableOpacity>
+        <Text style={styles.title}>App Integration</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <View style={styles.content}>
+        {renderBody()}
       </View>
     </SafeAreaView>
   );
@@ -189,4 +266,23 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 18,
     color: '#FFFFFF',
   },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  syncStatus: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textTertiary,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  disconnectButton: {
+    marginTop: 20,
+    padding: 8,
+  },
+  disconnectButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.error,
+  },
 });
\ No newline at end of file
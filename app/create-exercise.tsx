@@ -27,6 +27,9 @@ import {
   Hash
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useUnits } from '@/contexts/UnitsContext';
+import { formatQuantity, getPreferredUnit } from '@/lib/units';
+import QuantityInput from '@/components/ui/QuantityInput';
 import { router, useLocalSearchParams } from 'expo-router';
 import { Exercise, WorkoutSet } from '@/types/workout';
 import { generateId } from '@/utils/workoutUtils';
@@ -96,6 +99,7 @@ export default function CreateExerciseScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
   const { edit, duplicate } = useLocalSearchParams();
 
   // Basic exercise info
@@ -355,7 +359,7 @@ export default function CreateExerciseScreen() {
           <Text style={styles.setTemplateDetails}>
             {set.reps ? `${set.reps} reps` : ''}
             {set.duration ? `${set.duration}s` : ''}
-            {set.weight ? ` @ ${set.weight}kg` : ''}
+            {set.weight ? ` @ ${formatQuantity(set.weight, 'mass', unitSystem)}` : ''}
             {set.restTime ? ` • Rest: ${set.restTime}s` : ''}
           </Text>
         </View>
@@ -859,13 +863,14 @@ export default function CreateExerciseScreen() {
                 )}
 
                 <View style={styles.configField}>
-                  <Text style={styles.configLabel}>Weight (kg)</Text>
+                  <Text style={styles.configLabel}>Weight ({getPreferredUnit('mass', unitSystem)})</Text>
                   <View style={styles.configInputContainer}>
                     <Target size={16} color={colors.textSecondary} />
-                    <TextInput
+                    <QuantityInput
+                      quantity="mass"
                       style={styles.configInput}
-                      value={tempSet.weight?.toString() || ''}
-                      onChangeText={(text) => setTempSet(prev => prev ? { ...prev, weight: parseFloat(text) || 0 } : null)}
+                      value={tempSet.weight}
+                      onChangeValue={(weight) => setTempSet(prev => prev ? { ...prev, weight } : null)}
                       placeholder="0"
                       placeholderTextColor={colors.textTertiary}
                       keyboardType="numeric"
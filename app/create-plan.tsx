@@ -24,46 +24,57 @@ import {
   Trash2,
   Users,
   Dumbbell,
-  RefreshCw
+  RefreshCw,
+  TrendingUp,
+  CalendarX
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useUnits } from '@/contexts/UnitsContext';
+import { getPreferredUnit } from '@/lib/units';
+import QuantityInput from '@/components/ui/QuantityInput';
 import { router, useLocalSearchParams } from 'expo-router';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import {
   getTrainerClients,
   getWorkoutTemplatesForPlans,
-  createWorkoutPlan,
-  updateWorkoutPlan,
   getWorkoutPlan,
-  createPlanSessions,
-  deletePlanSessions,
-  createSampleClientAssignment,
+  getPlanSessions,
+  saveWorkoutPlan,
   ClientProfile,
   WorkoutTemplateForPlan,
+  WorkoutPlanInput,
 } from '@/lib/planDatabase';
-import { WorkoutPlan } from '@/types/workout';
+import {
+  CustomPlanWorkout,
+  DayOfWeek,
+  PlanBlackout,
+  PlanPeriodization,
+  PlanScheduleData,
+  PlanSession,
+  ProgressionRule,
+  ScheduleType,
+  WeeklySchedule,
+} from '@/types/workout';
+import {
+  DAYS_OF_WEEK,
+  DEFAULT_ROTATION_WEEKS,
+  ScheduleInput,
+  countWorkoutDays,
+  emptyWeek,
+  generateSchedule,
+  groupScheduleByWeek,
+  parseScheduleData,
+  toDateString,
+} from '@/lib/scheduleEngine';
+import PlanCalendarPreview from '@/components/plans/PlanCalendarPreview';
+import { PROGRESSION_RULES, DEFAULT_PROGRESSION_CONFIG } from '@/lib/progressionEngine';
 import { supabase } from '@/lib/supabase';
 
-type ScheduleType = 'weekly' | 'monthly' | 'custom';
-type DayOfWeek = 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
-
-type WeeklySchedule = Record<DayOfWeek, string | null>;
-
-interface MonthlySchedule {
-  [weekNumber: number]: Record<DayOfWeek, string | null>;
-}
-
-interface CustomWorkout {
-  id: string;
-  date: string;
-  templateId: string | null;
-  label: string;
-}
-
 export default function CreatePlanScreen() {
   const colorScheme = useColorScheme() ?? 'light';
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
   const { edit } = useLocalSearchParams();
 
   // Form state
@@ -79,22 +90,30 @@ export default function CreatePlanScreen() {
   });
 
   // Schedule data
-  const [weeklySchedule, setWeeklySchedule] = useState<WeeklySchedule>({
-    Monday: null,
-    Tuesday: null,
-    Wednesday: null,
-    Thursday: null,
-    Friday: null,
-    Saturday: null,
-    Sunday: null,
-  });
-  const [monthlySchedule, setMonthlySchedule] = useState<MonthlySchedule>({
-    1: { ...weeklySchedule },
-    2: { ...weeklySchedule },
-    3: { ...weeklySchedule },
-    4: { ...weeklySchedule },
-  });
-  const [customWorkouts, setCustomWorkouts] = useState<CustomWorkout[]>([]);
+  const [weeklySchedule, setWeeklySchedule] = useState<WeeklySchedule>(emptyWeek);
+  const [rotationWeeks, setRotationWeeks] = useState<WeeklySchedule[]>(() =>
+    Array.from({ length: DEFAULT_ROTATION_WEEKS }, emptyWeek)
+  );
+  const [customWorkouts, setCustomWorkouts] = useState<CustomPlanWorkout[]>([]);
+
+  // Periodization
+  const [mesocycleWeeks, setMesocycleWeeks] = useState('');
+  const [deloadWeeks, setDeloadWeeks] = useState('1');
+  const [blackouts, setBlackouts] = useState<PlanBlackout[]>([]);
+  const [blackoutStart, setBlackoutStart] = useState<string | null>(null);
+  const [showBlackoutPicker, setShowBlackoutPicker] = useState(false);
+
+  // Sessions of the plan being edited; completed ones survive regeneration
+  const [existingSessions, setExistingSessions] = useState<PlanSession[]>([]);
+  const [showPreview, setShowPreview] = useState(false);
+
+  // Progression
+  const [progressionRule, setProgressionRule] = useState<ProgressionRule>('none');
+  const [weightIncrement, setWeightIncrement] = useState(DEFAULT_PROGRESSION_CONFIG.weight_increment_kg);
+  const [repRangeMin, setRepRangeMin] = useState(String(DEFAULT_PROGRESSION_CONFIG.rep_range_min));
+  const [repRangeMax, setRepRangeMax] = useState(String(DEFAULT_PROGRESSION_CONFIG.rep_range_max));
+  const [targetRpe, setTargetRpe] = useState(String(DEFAULT_PROGRESSION_CONFIG.target_rpe));
+  const [deloadPercent, setDeloadPercent] = useState(String(DEFAULT_PROGRESSION_CONFIG.deload_percent));
 
   // Data state
   const [clients, setClients] = useState<ClientProfile[]>([]);
@@ -110,6 +129,7 @@ export default function CreatePlanScreen() {
   const [showStartDatePicker, setShowStartDatePicker] = useState(false);
   const [showEndDatePicker, setShowEndDatePicker] = useState(false);
   const [showCustomDatePicker, setShowCustomDatePicker] = useState(false);
+  const [showProgressionPicker, setShowProgressionPicker] = useState(false);
 
   // Template picker state
   const [templatePickerContext, setTemplatePickerContext] = useState<{
@@ -161,24 +181,7 @@ export default function CreatePlanScreen() {
         console.log('⚠️ No clients found, showing alert');
         Alert.alert(
           'No Clients Found',
-          'You don\'t have any assigned clients yet. Would you like to create a sample client assignment for testing?',
-          [
-            { text: 'Cancel', style: 'cancel' },
-            { 
-              text: 'Create Sample', 
-              onPress: async () => {
-                const success = await createSampleClientAssignment();
-                if (success) {
-                  // Reload clients
-                  const updatedClients = await getTrainerClients();
-                  setClients(updatedClients);
-                  Alert.alert('Success', 'Sample client assignment created!');
-                } else {
-                  Alert.alert('Error', 'Failed to create sample assignment. Please check if there are any clients in the system.');
-                }
-              }
-            }
-          ]
+          'You don\'t have any assigned clients yet. An admin or HR can assign clients to you from Client Assignments.'
         );
       }
 
@@ -202,6 +205,13 @@ export default function CreatePlanScreen() {
         setPlanName(plan.name);
         setPlanDescription(plan.description || '');
         setScheduleType(plan.schedule_type);
+        setProgressionRule(plan.progression_rule || 'none');
+        const progressionConfig = { ...DEFAULT_PROGRESSION_CONFIG, ...plan.progression_config };
+        setWeightIncrement(progressionConfig.weight_increment_kg);
+        setRepRangeMin(String(progressionConfig.rep_range_min));
+        setRepRangeMax(String(progressionConfig.rep_range_max));
+        setTargetRpe(String(progressionConfig.target_rpe));
+        setDeloadPercent(String(progressionConfig.deload_percent));
         setStartDate(new Date(plan.start_date));
         setEndDate(new Date(plan.end_date));
 
@@ -211,20 +221,19 @@ export default function CreatePlanScreen() {
           setSelectedClient(client);
         }
 
-        // Load schedule data based on type
-        if (plan.schedule_data) {
-          switch (plan.schedule_type) {
-            case 'weekly':
-              setWeeklySchedule(plan.schedule_data);
-              break;
-            case 'monthly':
-              setMonthlySchedule(plan.schedule_data);
-              break;
-            case 'custom':
-              setCustomWorkouts(plan.schedule_data);
-              break;
-          }
+        const schedule = parseScheduleData(plan.schedule_data);
+        setWeeklySchedule(schedule.weeks[0]);
+        if (plan.schedule_type === 'monthly') {
+          setRotationWeeks(schedule.weeks);
+        }
+        setCustomWorkouts(schedule.custom);
+        setBlackouts(schedule.blackouts);
+        if (schedule.periodization) {
+          setMesocycleWeeks(String(schedule.periodization.mesocycle_weeks));
+          setDeloadWeeks(String(schedule.periodization.deload_weeks));
         }
+
+        setExistingSessions(await getPlanSessions(planId));
       }
     } catch (error) {
       console.error('Error loading existing plan:', error);
@@ -253,7 +262,43 @@ export default function CreatePlanScreen() {
     }
   };
 
-  const handleSavePlan = async () => {
+  const getPeriodization = (): PlanPeriodization | null => {
+    const length = parseInt(mesocycleWeeks, 10);
+    if (!length || length < 2) return null;
+    const deload = Math.min(Math.max(parseInt(deloadWeeks, 10) || 0, 0), length - 1);
+    return { mesocycle_weeks: length, deload_weeks: deload };
+  };
+
+  const getScheduleData = (): PlanScheduleData => ({
+    version: 2,
+    weeks: scheduleType === 'monthly' ? rotationWeeks : [weeklySchedule],
+    custom: scheduleType === 'custom' ? customWorkouts : [],
+    periodization: getPeriodization(),
+    blackouts,
+  });
+
+  const getScheduleInput = (): ScheduleInput => ({
+    schedule_type: scheduleType,
+    schedule_data: getScheduleData(),
+    start_date: toDateString(startDate),
+    end_date: toDateString(endDate),
+  });
+
+  // Settings hidden for the chosen rule are still saved, in case the rule changes later
+  const validateProgressionConfig = (): string | null => {
+    if (progressionRule === 'none') return null;
+    const min = parseInt(repRangeMin, 10);
+    const max = parseInt(repRangeMax, 10);
+    const rpe = parseFloat(targetRpe);
+    const deload = parseFloat(deloadPercent);
+
+    if (!(min >= 1) || !(max >= min)) return 'Please enter a rep range with max reps at least min reps';
+    if (!(rpe >= 1 && rpe <= 10)) return 'Target RPE must be between 1 and 10';
+    if (!(deload >= 0 && deload < 100)) return 'Deload must be between 0 and 99%';
+    return null;
+  };
+
+  const handleSavePlan = () => {
     // Validation
     if (!planName.trim()) {
       Alert.alert('Error', 'Please enter a plan name');
@@ -274,12 +319,10 @@ export default function CreatePlanScreen() {
     let hasWorkouts = false;
     switch (scheduleType) {
       case 'weekly':
-        hasWorkouts = Object.values(weeklySchedule).some(templateId => templateId !== null);
+        hasWorkouts = countWorkoutDays(weeklySchedule) > 0;
         break;
       case 'monthly':
-        hasWorkouts = Object.values(monthlySchedule).some(week =>
-          Object.values(week).some(templateId => templateId !== null)
-        );
+        hasWorkouts = rotationWeeks.some(week => countWorkoutDays(week) > 0);
         break;
       case 'custom':
         hasWorkouts = customWorkouts.length > 0;
@@ -291,188 +334,65 @@ export default function CreatePlanScreen() {
       return;
     }
 
+    const progressionError = validateProgressionConfig();
+    if (progressionError) {
+      Alert.alert('Error', progressionError);
+      return;
+    }
+
+    // Review the generated calendar before anything is written
+    setShowPreview(true);
+  };
+
+  const savePlan = async () => {
+    if (!selectedClient) return;
+
     try {
       setSaving(true);
 
-      const planData = {
+      const scheduleInput = getScheduleInput();
+      const planData: WorkoutPlanInput = {
         client_id: selectedClient.id,
         trainer_id: trainerProfileId,
         name: planName.trim(),
-        description: planDescription.trim() || undefined,
-        start_date: startDate.toISOString().split('T')[0],
-        end_date: endDate.toISOString().split('T')[0],
+        description: planDescription.trim() || null,
+        start_date: scheduleInput.start_date,
+        end_date: scheduleInput.end_date,
         schedule_type: scheduleType,
-        schedule_data: getScheduleData(),
+        schedule_data: scheduleInput.schedule_data,
+        progression_rule: progressionRule,
+        progression_config: {
+          weight_increment_kg: weightIncrement || DEFAULT_PROGRESSION_CONFIG.weight_increment_kg,
+          rep_range_min: parseInt(repRangeMin, 10),
+          rep_range_max: parseInt(repRangeMax, 10),
+          target_rpe: parseFloat(targetRpe),
+          deload_percent: parseFloat(deloadPercent),
+        },
         status: 'active',
       };
 
-      let savedPlan: WorkoutPlan | null = null;
-
-      if (isEditing && typeof edit === 'string') {
-        savedPlan = await updateWorkoutPlan(edit, planData);
-      } else {
-        savedPlan = await createWorkoutPlan(planData);
-      }
-
-      if (savedPlan) {
-        // Generate plan sessions
-        await generatePlanSessions(savedPlan);
-
-        Alert.alert(
-          'Success',
-          `Plan ${isEditing ? 'updated' : 'created'} successfully!`,
-          [{ text: 'OK', onPress: () => router.back() }]
-        );
-      } else {
-        Alert.alert('Error', 'Failed to save plan');
-      }
+      // The plan and its sessions are saved together, so an edit either
+      // replaces the upcoming schedule or leaves the old one untouched
+      await saveWorkoutPlan(
+        planData,
+        generateSchedule(scheduleInput, existingSessions).sessions,
+        isEditing && typeof edit === 'string' ? edit : undefined
+      );
+
+      setShowPreview(false);
+      Alert.alert(
+        'Success',
+        `Plan ${isEditing ? 'updated' : 'created'} successfully!`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
     } catch (error) {
       console.error('Error saving plan:', error);
-      Alert.alert('Error', 'Failed to save plan');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save plan');
     } finally {
       setSaving(false);
     }
   };
 
-  const getScheduleData = () => {
-    switch (scheduleType) {
-      case 'weekly':
-        return weeklySchedule;
-      case 'monthly':
-        return monthlySchedule;
-      case 'custom':
-        return customWorkouts;
-      default:
-        return {};
-    }
-  };
-
-  const generatePlanSessions = async (plan: WorkoutPlan) => {
-    try {
-      // Delete existing sessions if updating
-      if (isEditing) {
-        await deletePlanSessions(plan.id);
-      }
-
-      const sessions: any[] = [];
-      const start = new Date(plan.start_date);
-      const end = new Date(plan.end_date);
-
-      switch (plan.schedule_type) {
-        case 'weekly':
-          generateWeeklySessions(sessions, start, end, plan.schedule_data, plan.id);
-          break;
-        case 'monthly':
-          generateMonthlySessions(sessions, start, end, plan.schedule_data, plan.id);
-          break;
-        case 'custom':
-          generateCustomSessions(sessions, plan.schedule_data, plan.id);
-          break;
-      }
-
-      if (sessions.length > 0) {
-        // 1) Save sessions to plan_sessions (used for plan editing & reporting)
-        await createPlanSessions(sessions);
-
-        // 2) ALSO mirror the same rows into the training_sessions table so that
-        //    the client dashboard (which queries training_sessions) can see them.
-        //    We build the minimal fields required by training_sessions.
-        try {
-          const trainingSessionRows = sessions.map(s => ({
-            client_id: plan.client_id,
-            trainer_id: plan.trainer_id,
-            template_id: s.template_id ?? null,
-            plan_id: plan.id,
-            scheduled_date: s.scheduled_date,
-            scheduled_time: null,
-            duration: 0,
-            session_type: 'workout',
-            status: s.status, // scheduled
-            session_data: {},
-            completion_data: {},
-          }));
-
-          if (trainingSessionRows.length > 0) {
-            const { error } = await supabase
-              .from('training_sessions')
-              .insert(trainingSessionRows);
-            if (error) {
-              console.error('Error mirroring sessions into training_sessions:', error);
-            }
-          }
-        } catch (mirrorErr) {
-          console.error('Unexpected error while mirroring training sessions:', mirrorErr);
-        }
-      }
-    } catch (error) {
-      console.error('Error generating plan sessions:', error);
-    }
-  };
-
-  const generateWeeklySessions = (sessions: any[], start: Date, end: Date, schedule: WeeklySchedule, planId: string) => {
-    const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const current = new Date(start);
-
-    while (current <= end) {
-      const dayName = dayNames[current.getDay()] as DayOfWeek;
-      const templateId = schedule[dayName];
-
-      if (templateId) {
-        sessions.push({
-          plan_id: planId,
-          template_id: templateId,
-          scheduled_date: current.toISOString().split('T')[0],
-          day_of_week: dayName,
-          status: 'scheduled',
-        });
-      }
-
-      current.setDate(current.getDate() + 1);
-    }
-  };
-
-  const generateMonthlySessions = (sessions: any[], start: Date, end: Date, schedule: MonthlySchedule, planId: string) => {
-    const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const current = new Date(start);
-
-    while (current <= end) {
-      const weekOfMonth = Math.ceil(current.getDate() / 7);
-      const weekSchedule = schedule[weekOfMonth];
-
-      if (weekSchedule) {
-        const dayName = dayNames[current.getDay()] as DayOfWeek;
-        const templateId = weekSchedule[dayName];
-
-        if (templateId) {
-          sessions.push({
-            plan_id: planId,
-            template_id: templateId,
-            scheduled_date: current.toISOString().split('T')[0],
-            day_of_week: dayName,
-            week_number: weekOfMonth,
-            status: 'scheduled',
-          });
-        }
-      }
-
-      current.setDate(current.getDate() + 1);
-    }
-  };
-
-  const generateCustomSessions = (sessions: any[], customWorkouts: CustomWorkout[], planId: string) => {
-    customWorkouts.forEach(workout => {
-      if (workout.templateId) {
-        sessions.push({
-          plan_id: planId,
-          template_id: workout.templateId,
-          scheduled_date: workout.date,
-          status: 'scheduled',
-          notes: workout.label,
-        });
-      }
-    });
-  };
-
   const handleTemplateSelect = (templateId: string | null) => {
     if (!templatePickerContext) return;
 
@@ -486,10 +406,9 @@ export default function CreatePlanScreen() {
         break;
       case 'monthly':
         if (day && week) {
-          setMonthlySchedule(prev => ({
-            ...prev,
-            [week]: { ...prev[week], [day]: templateId }
-          }));
+          setRotationWeeks(prev =>
+            prev.map((layout, index) => (index === week - 1 ? { ...layout, [day]: templateId } : layout))
+          );
         }
         break;
       case 'custom':
@@ -519,7 +438,7 @@ export default function CreatePlanScreen() {
   const handleCustomDateSelect = (event: any, selectedDate?: Date) => {
     setShowCustomDatePicker(false);
     if (selectedDate) {
-      const newWorkout: CustomWorkout = {
+      const newWorkout: CustomPlanWorkout = {
         id: Date.now().toString(),
         date: selectedDate.toISOString().split('T')[0],
         templateId: null,
@@ -534,13 +453,41 @@ export default function CreatePlanScreen() {
   };
 
   const copyWeekToAll = (sourceWeek: number) => {
-    const sourceSchedule = monthlySchedule[sourceWeek];
-    setMonthlySchedule(prev => ({
-      1: { ...sourceSchedule },
-      2: { ...sourceSchedule },
-      3: { ...sourceSchedule },
-      4: { ...sourceSchedule },
-    }));
+    setRotationWeeks(prev => prev.map(() => ({ ...prev[sourceWeek - 1] })));
+  };
+
+  const addRotationWeek = () => {
+    setRotationWeeks(prev => [...prev, emptyWeek()]);
+  };
+
+  const removeRotationWeek = (week: number) => {
+    setRotationWeeks(prev => prev.filter((_, index) => index !== week - 1));
+  };
+
+  // Blackouts are picked as a first and last day; the second pick closes the range
+  const handleBlackoutDateSelect = (event: any, selectedDate?: Date) => {
+    setShowBlackoutPicker(false);
+    if (!selectedDate) {
+      setBlackoutStart(null);
+      return;
+    }
+
+    const date = toDateString(selectedDate);
+    if (!blackoutStart) {
+      setBlackoutStart(date);
+      setShowBlackoutPicker(true);
+      return;
+    }
+
+    const [start, end] = [blackoutStart, date].sort();
+    setBlackouts(prev =>
+      [...prev, { start_date: start, end_date: end, label: null }].sort((a, b) => a.start_date.localeCompare(b.start_date))
+    );
+    setBlackoutStart(null);
+  };
+
+  const removeBlackout = (index: number) => {
+    setBlackouts(prev => prev.filter((_, i) => i !== index));
   };
 
   const getTemplateName = (templateId: string | null): string => {
@@ -550,12 +497,10 @@ export default function CreatePlanScreen() {
   };
 
   const renderWeeklySchedule = () => {
-    const days: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-
     return (
       <View style={styles.scheduleContainer}>
         <Text style={styles.scheduleTitle}>Weekly Schedule</Text>
-        {days.map(day => (
+        {DAYS_OF_WEEK.map(day => (
           <View key={day} style={styles.dayRow}>
             <Text style={styles.dayLabel}>{day}</Text>
             <TouchableOpacity
@@ -574,39 +519,57 @@ export default function CreatePlanScreen() {
   };
 
   const renderMonthlySchedule = () => {
-    const days: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-
     return (
       <View style={styles.scheduleContainer}>
-        <Text style={styles.scheduleTitle}>Monthly Schedule</Text>
-        {[1, 2, 3, 4].map(week => (
-          <View key={week} style={styles.weekContainer}>
-            <View style={styles.weekHeader}>
-              <Text style={styles.weekTitle}>Week {week}</Text>
-              <TouchableOpacity
-                style={styles.copyButton}
-                onPress={() => copyWeekToAll(week)}
-              >
-                <Copy size={16} color={colors.primary} />
-                <Text style={styles.copyButtonText}>Copy to All</Text>
-              </TouchableOpacity>
-            </View>
-            {days.map(day => (
-              <View key={`${week}-${day}`} style={styles.dayRow}>
-                <Text style={styles.dayLabel}>{day}</Text>
-                <TouchableOpacity
-                  style={styles.templateButton}
-                  onPress={() => openTemplatePicker({ type: 'monthly', day, week })}
-                >
-                  <Text style={styles.templateButtonText}>
-                    {getTemplateName(monthlySchedule[week][day])}
-                  </Text>
-                  <ChevronDown size={16} color={colors.textSecondary} />
-                </TouchableOpacity>
+        <Text style={styles.scheduleTitle}>Week Rotation</Text>
+        <Text style={styles.fieldHint}>
+          Weeks are used in turn and the rotation starts over after the last one, so exercises can change from week to week.
+        </Text>
+        {rotationWeeks.map((layout, index) => {
+          const week = index + 1;
+          return (
+            <View key={week} style={styles.weekContainer}>
+              <View style={styles.weekHeader}>
+                <Text style={styles.weekTitle}>Week {week}</Text>
+                <View style={styles.weekActions}>
+                  <TouchableOpacity
+                    style={styles.copyButton}
+                    onPress={() => copyWeekToAll(week)}
+                  >
+                    <Copy size={16} color={colors.primary} />
+                    <Text style={styles.copyButtonText}>Copy to All</Text>
+                  </TouchableOpacity>
+                  {rotationWeeks.length > 1 && (
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => removeRotationWeek(week)}
+                    >
+                      <Trash2 size={16} color={colors.error} />
+                    </TouchableOpacity>
+                  )}
+                </View>
               </View>
-            ))}
-          </View>
-        ))}
+              {DAYS_OF_WEEK.map(day => (
+                <View key={`${week}-${day}`} style={styles.dayRow}>
+                  <Text style={styles.dayLabel}>{day}</Text>
+                  <TouchableOpacity
+                    style={styles.templateButton}
+                    onPress={() => openTemplatePicker({ type: 'monthly', day, week })}
+                  >
+                    <Text style={styles.templateButtonText}>
+                      {getTemplateName(layout[day])}
+                    </Text>
+                    <ChevronDown size={16} color={colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          );
+        })}
+        <TouchableOpacity style={styles.addButton} onPress={addRotationWeek}>
+          <Plus size={16} color={colors.primary} />
+          <Text style={styles.addButtonText}>Add Week</Text>
+        </TouchableOpacity>
       </View>
     );
   };
@@ -778,6 +741,92 @@ export default function CreatePlanScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Progression */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Progression</Text>
+          <TouchableOpacity
+            style={styles.picker}
+            onPress={() => setShowProgressionPicker(true)}
+          >
+            <TrendingUp size={20} color={colors.textSecondary} />
+            <Text style={styles.pickerText}>
+              {PROGRESSION_RULES.find(rule => rule.value === progressionRule)?.label}
+            </Text>
+            <ChevronDown size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
+
+          {progressionRule !== 'none' && (
+            <View style={[styles.formField, { marginTop: 12 }]}>
+              <Text style={styles.fieldLabel}>Weight Increment ({getPreferredUnit('mass', unitSystem)})</Text>
+              <QuantityInput
+                quantity="mass"
+                decimals={2}
+                style={styles.textInput}
+                value={weightIncrement}
+                onChangeValue={setWeightIncrement}
+                keyboardType="decimal-pad"
+                placeholderTextColor={colors.textTertiary}
+              />
+            </View>
+          )}
+
+          {(progressionRule === 'double_progression' || progressionRule === 'rpe') && (
+            <View style={[styles.dateRow, styles.formField]}>
+              <View style={styles.dateField}>
+                <Text style={styles.fieldLabel}>Min reps</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={repRangeMin}
+                  onChangeText={setRepRangeMin}
+                  placeholder={String(DEFAULT_PROGRESSION_CONFIG.rep_range_min)}
+                  placeholderTextColor={colors.textTertiary}
+                  keyboardType="number-pad"
+                />
+              </View>
+              <View style={styles.dateField}>
+                <Text style={styles.fieldLabel}>Max reps</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={repRangeMax}
+                  onChangeText={setRepRangeMax}
+                  placeholder={String(DEFAULT_PROGRESSION_CONFIG.rep_range_max)}
+                  placeholderTextColor={colors.textTertiary}
+                  keyboardType="number-pad"
+                />
+              </View>
+            </View>
+          )}
+
+          {progressionRule === 'rpe' && (
+            <View style={styles.formField}>
+              <Text style={styles.fieldLabel}>Target RPE</Text>
+              <TextInput
+                style={styles.textInput}
+                value={targetRpe}
+                onChangeText={setTargetRpe}
+                placeholder={String(DEFAULT_PROGRESSION_CONFIG.target_rpe)}
+                placeholderTextColor={colors.textTertiary}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          )}
+
+          {progressionRule === 'linear' && (
+            <View style={styles.formField}>
+              <Text style={styles.fieldLabel}>Deload (%)</Text>
+              <Text style={styles.fieldHint}>Taken off the weight after two missed sessions at the same load.</Text>
+              <TextInput
+                style={styles.textInput}
+                value={deloadPercent}
+                onChangeText={setDeloadPercent}
+                placeholder={String(DEFAULT_PROGRESSION_CONFIG.deload_percent)}
+                placeholderTextColor={colors.textTertiary}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          )}
+        </View>
+
         {/* Date Range */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Date Range *</Text>
@@ -816,6 +865,71 @@ export default function CreatePlanScreen() {
           {scheduleType === 'custom' && renderCustomSchedule()}
         </View>
 
+        {/* Periodization */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Periodization</Text>
+          <Text style={styles.fieldHint}>
+            Split the plan into mesocycles. The last weeks of each one are deloads. Leave the length empty to train without blocks.
+          </Text>
+          <View style={styles.dateRow}>
+            <View style={styles.dateField}>
+              <Text style={styles.fieldLabel}>Mesocycle (weeks)</Text>
+              <TextInput
+                style={styles.textInput}
+                value={mesocycleWeeks}
+                onChangeText={setMesocycleWeeks}
+                placeholder="e.g. 4"
+                placeholderTextColor={colors.textTertiary}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={styles.dateField}>
+              <Text style={styles.fieldLabel}>Deload weeks</Text>
+              <TextInput
+                style={styles.textInput}
+                value={deloadWeeks}
+                onChangeText={setDeloadWeeks}
+                placeholder="1"
+                placeholderTextColor={colors.textTertiary}
+                keyboardType="number-pad"
+                editable={!!mesocycleWeeks}
+              />
+            </View>
+          </View>
+        </View>
+
+        {/* Blackout Dates */}
+        <View style={styles.section}>
+          <View style={styles.customHeader}>
+            <Text style={styles.sectionTitle}>Blackout Dates</Text>
+            <TouchableOpacity style={styles.addButton} onPress={() => setShowBlackoutPicker(true)}>
+              <Plus size={16} color={colors.primary} />
+              <Text style={styles.addButtonText}>Add Dates</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.fieldHint}>
+            Holidays and other days without training. Workouts that fall on them are left out.
+          </Text>
+          {blackouts.map((blackout, index) => (
+            <View key={`${blackout.start_date}-${index}`} style={styles.customWorkoutRow}>
+              <View style={styles.customWorkoutInfo}>
+                <CalendarX size={16} color={colors.textSecondary} />
+                <Text style={styles.customWorkoutDate}>
+                  {blackout.start_date === blackout.end_date
+                    ? blackout.start_date
+                    : `${blackout.start_date} – ${blackout.end_date}`}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => removeBlackout(index)}
+              >
+                <Trash2 size={16} color={colors.error} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+
         <View style={{ height: 100 }} />
       </ScrollView>
 
@@ -878,7 +992,7 @@ export default function CreatePlanScreen() {
           <View style={styles.scheduleTypeList}>
             {[
               { value: 'weekly', label: 'Weekly Repeat', description: 'Same pattern every week' },
-              { value: 'monthly', label: 'Monthly Plan', description: 'Different patterns for each week' },
+              { value: 'monthly', label: 'Monthly Plan', description: 'Rotate through different weekly patterns' },
               { value: 'custom', label: 'Custom Schedule', description: 'Specific dates with custom workouts' },
             ].map((type) => (
               <TouchableOpacity
@@ -905,6 +1019,47 @@ export default function CreatePlanScreen() {
         </SafeAreaView>
       </Modal>
 
+      {/* Progression Rule Picker Modal */}
+      <Modal
+        visible={showProgressionPicker}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowProgressionPicker(false)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Progression</Text>
+            <TouchableOpacity onPress={() => setShowProgressionPicker(false)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+          
+          <View style={styles.scheduleTypeList}>
+            {PROGRESSION_RULES.map((rule) => (
+              <TouchableOpacity
+                key={rule.value}
+                style={[
+                  styles.scheduleTypeOption,
+                  progressionRule === rule.value && styles.selectedScheduleTypeOption
+                ]}
+                onPress={() => {
+                  setProgressionRule(rule.value);
+                  setShowProgressionPicker(false);
+                }}
+              >
+                <View style={styles.scheduleTypeInfo}>
+                  <Text style={styles.scheduleTypeLabel}>{rule.label}</Text>
+                  <Text style={styles.scheduleTypeDescription}>{rule.description}</Text>
+                </View>
+                {progressionRule === rule.value && (
+                  <Text style={styles.selectedIndicator}>✓</Text>
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </SafeAreaView>
+      </Modal>
+
       {/* Template Picker Modal */}
       <Modal
         visible={showTemplatePicker}
@@ -953,6 +1108,44 @@ export default function CreatePlanScreen() {
         </SafeAreaView>
       </Modal>
 
+      {/* Schedule Preview Modal */}
+      <Modal
+        visible={showPreview}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowPreview(false)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowPreview(false)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Review Schedule</Text>
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+              onPress={savePlan}
+              disabled={saving}
+            >
+              <Save size={16} color="#FFFFFF" />
+              <Text style={styles.saveButtonText}>
+                {saving ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {showPreview && (
+            <ScrollView style={styles.previewList} showsVerticalScrollIndicator={false}>
+              <PlanCalendarPreview
+                weeks={groupScheduleByWeek(getScheduleInput(), generateSchedule(getScheduleInput(), existingSessions))}
+                getTemplateName={getTemplateName}
+                keptCount={existingSessions.filter(session => session.status !== 'scheduled').length}
+              />
+              <View style={{ height: 40 }} />
+            </ScrollView>
+          )}
+        </SafeAreaView>
+      </Modal>
+
       {/* Date Pickers */}
       {showStartDatePicker && (
         <DateTimePicker
@@ -982,6 +1175,16 @@ export default function CreatePlanScreen() {
         />
       )}
 
+      {showBlackoutPicker && (
+        <DateTimePicker
+          key={blackoutStart ?? 'blackout-start'}
+          value={blackoutStart ? new Date(blackoutStart) : startDate}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleBlackoutDateSelect}
+        />
+      )}
+
       {showCustomDatePicker && (
         <DateTimePicker
           value={customWorkoutDate}
@@ -1369,6 +1572,21 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 14,
     color: colors.textSecondary,
   },
+  fieldHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  weekActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  previewList: {
+    flex: 1,
+    padding: 20,
+  },
   templateList: {
     flex: 1,
     paddingHorizontal: 20,
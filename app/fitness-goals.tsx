@@ -13,6 +13,8 @@ import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router } from 'expo-router';
 import { useGoals } from '@/hooks/useGoals';
 import { updateGoal } from '@/lib/todayQueries';
+import { formatGoalValue, getGoalDisplayUnit } from '@/lib/goalSources';
+import { useUnits } from '@/contexts/UnitsContext';
 
 // Map backend fields to camelCase for UI
 function mapGoal(goal: any) {
@@ -25,6 +27,9 @@ function mapGoal(goal: any) {
     targetValue: goal.target_value,
     currentValue: goal.current_value,
     unit: goal.unit,
+    progress: goal.progress_percentage,
+    sourceType: goal.source_type,
+    sourceMetric: goal.source_metric,
     emoji: goal.emoji,
     status: goal.status,
     createdAt: goal.created_at,
@@ -35,6 +40,7 @@ export default function FitnessGoalsScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
 
   const { goals: rawGoals, loading, error, refresh } = useGoals();
   const [filter, setFilter] = useState<'all' | 'active' | 'completed'>('all');
@@ -64,6 +70,8 @@ export default function FitnessGoalsScreen() {
   };
 
   const getProgressPercentage = (goal: any) => {
+    // Linked goals are kept up to date by the goal engine
+    if (goal.sourceType && goal.sourceType !== 'manual') return goal.progress ?? 0;
     if (goal.targetValue == null || goal.currentValue == null) return 0;
     if (goal.category === 'weight') {
       // For weight loss, assume startWeight is the highest of current/target
@@ -77,6 +85,14 @@ export default function FitnessGoalsScreen() {
     return Math.min(Math.max((goal.currentValue / goal.targetValue) * 100, 0), 100);
   };
 
+  const toSourceFields = (goal: any) => ({ source_type: goal.sourceType, source_metric: goal.sourceMetric });
+
+  const formatValue = (goal: any, value: number) =>
+    goal.sourceType && goal.sourceType !== 'manual' ? formatGoalValue(toSourceFields(goal), value, unitSystem) : value;
+
+  const getUnit = (goal: any) =>
+    goal.sourceType && goal.sourceType !== 'manual' ? getGoalDisplayUnit(toSourceFields(goal), unitSystem) : goal.unit;
+
   const handleGoalPress = (goalId: string) => {
     router.push(`/goal-countdown?goalId=${goalId}`);
   };
@@ -135,7 +151,7 @@ export default function FitnessGoalsScreen() {
             <View style={styles.metaItem}>
               <TrendingUp size={16} color={colors.textSecondary} />
               <Text style={styles.metaText}>
-                {goal.currentValue}/{goal.targetValue} {goal.unit}
+                {formatValue(goal, goal.currentValue)}/{formatValue(goal, goal.targetValue)} {getUnit(goal)}
               </Text>
             </View>
           )}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -26,13 +26,17 @@ import {
   Edit3,
   Trash2,
   Target,
-  Settings,
   ChevronDown,
   Save,
-  MoreHorizontal
+  MoreHorizontal,
+  Search,
+  ChefHat,
+  Copy,
+  Bookmark
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
 import * as ImagePicker from 'expo-image-picker';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import {
@@ -43,12 +47,41 @@ import {
   createFoodEntry,
   updateFoodEntry,
   deleteFoodEntry,
-  addFoodPhoto,
+  attachFoodPhotos,
+  logPhotoMeal,
+  copyFoodEntries,
+  copyFoodDay,
   MealType,
   FoodEntry,
   NutritionGoals,
   DayNutritionSummary,
 } from '@/lib/foodJournal';
+import {
+  Food,
+  FoodPortion,
+  getCustomFoods,
+  getReferencedPortion,
+  hasFoodReference,
+  portionNutrients,
+  formatServing,
+} from '@/lib/foods';
+import { getRecipeFoods } from '@/lib/recipes';
+import {
+  SavedMeal,
+  getSavedMeals,
+  groupSavedMeals,
+  saveMealFromEntries,
+  logSavedMeal,
+  deleteSavedMeal,
+  savedMealCalories,
+} from '@/lib/savedMeals';
+import { NutritionPlan, getActiveNutritionPlan, getDayAdherence, getWindowAdherence } from '@/lib/nutritionPlans';
+import FoodPicker from '@/components/nutrition/FoodPicker';
+import PlannedVsLogged from '@/components/nutrition/PlannedVsLogged';
+import DailyNutritionDashboard from '@/components/nutrition/DailyNutritionDashboard';
+import { DayWaterIntake, getWaterIntake, logWater, deleteWaterLog } from '@/lib/hydration';
+import { toLocalDateString } from '@/lib/stepIngestion';
+import { LimitTotals, getCrossedLimits, describeLimitWarning } from '@/lib/nutrientLimits';
 
 const { width } = Dimensions.get('window');
 
@@ -61,15 +94,23 @@ export default function FoodJournalScreen() {
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showAddMeal, setShowAddMeal] = useState(false);
-  const [showNutritionGoals, setShowNutritionGoals] = useState(false);
   const [showMealTypeSelector, setShowMealTypeSelector] = useState(false);
+  const [showFoodPicker, setShowFoodPicker] = useState(false);
+  const [showSavedMeals, setShowSavedMeals] = useState(false);
   const [editingEntry, setEditingEntry] = useState<FoodEntry | null>(null);
+  // Logging a meal with just photos, for the nutritionist to estimate
+  const [photoOnly, setPhotoOnly] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
 
   // Data state
   const [mealTypes, setMealTypes] = useState<MealType[]>([]);
   const [nutritionGoals, setNutritionGoals] = useState<NutritionGoals | null>(null);
   const [daysSummary, setDaysSummary] = useState<DayNutritionSummary[]>([]);
+  const [customFoods, setCustomFoods] = useState<Food[]>([]);
+  const [recipeFoods, setRecipeFoods] = useState<Food[]>([]);
+  const [savedMeals, setSavedMeals] = useState<SavedMeal[]>([]);
+  const [nutritionPlan, setNutritionPlan] = useState<NutritionPlan | null>(null);
+  const [water, setWater] = useState<DayWaterIntake>({ total_ml: 0, logs: [] });
   const [loading, setLoading] = useState(true);
 
   // Form state
@@ -86,6 +127,13 @@ export default function FoodJournalScreen() {
     notes: '',
   });
   const [selectedPhotos, setSelectedPhotos] = useState<string[]>([]);
+  // Food the entry is logged from; its nutrition replaces the manual fields
+  const [selectedPortion, setSelectedPortion] = useState<FoodPortion | null>(null);
+  // Entries waiting for a date to be copied to (a meal or a whole day)
+  const [entriesToCopy, setEntriesToCopy] = useState<{ entries: FoodEntry[] } | { fromDate: string } | null>(null);
+  // Entries being saved as a meal, and the name it's saved under
+  const [entriesToSave, setEntriesToSave] = useState<FoodEntry[] | null>(null);
+  const [savedMealName, setSavedMealName] = useState('');
 
   // Load initial data
   useEffect(() => {
@@ -95,18 +143,33 @@ export default function FoodJournalScreen() {
   // Load data when date changes
   useEffect(() => {
     loadFoodEntries();
+    loadWater();
   }, [selectedDate]);
 
+  // Recipes, the meal plan and targets may have changed since the screen was
+  // last shown
+  useFocusEffect(
+    useCallback(() => {
+      getRecipeFoods().then(setRecipeFoods);
+      getActiveNutritionPlan().then(setNutritionPlan);
+      getNutritionGoals().then(goals => goals && setNutritionGoals(goals));
+    }, [])
+  );
+
   const loadInitialData = async () => {
     setLoading(true);
     try {
-      const [mealTypesData, goalsData] = await Promise.all([
+      const [mealTypesData, goalsData, customFoodsData, savedMealsData] = await Promise.all([
         getMealTypes(),
         getNutritionGoals(),
+        getCustomFoods(),
+        getSavedMeals(),
       ]);
 
       setMealTypes(mealTypesData);
       setNutritionGoals(goalsData);
+      setCustomFoods(customFoodsData);
+      setSavedMeals(savedMealsData);
       
       if (!goalsData) {
         // Create default nutrition goals
@@ -144,12 +207,36 @@ export default function FoodJournalScreen() {
     }
   };
 
+  const loadWater = async () => {
+    setWater(await getWaterIntake(toLocalDateString(selectedDate)));
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
-    await Promise.all([loadInitialData(), loadFoodEntries()]);
+    await Promise.all([loadInitialData(), loadFoodEntries(), loadWater()]);
     setRefreshing(false);
   };
 
+  const handleAddWater = async (ml: number) => {
+    if (!(await logWater(ml, toLocalDateString(selectedDate)))) {
+      Alert.alert('Error', 'Failed to log water');
+      return;
+    }
+    await loadWater();
+  };
+
+  // Takes back the last container logged, e.g. one tapped by mistake
+  const handleUndoWater = async () => {
+    const lastLog = water.logs[water.logs.length - 1];
+    if (!lastLog) return;
+
+    if (!(await deleteWaterLog(lastLog))) {
+      Alert.alert('Error', 'Failed to remove water');
+      return;
+    }
+    await loadWater();
+  };
+
   const handleDateChange = (event: any, date?: Date) => {
     setShowDatePicker(false);
     if (date) {
@@ -157,8 +244,9 @@ export default function FoodJournalScreen() {
     }
   };
 
-  const openAddMealModal = () => {
+  const openAddMealModal = (withPhotoOnly = false) => {
     setEditingEntry(null);
+    setPhotoOnly(withPhotoOnly);
     setFormData({
       title: '',
       description: '',
@@ -172,11 +260,14 @@ export default function FoodJournalScreen() {
       notes: '',
     });
     setSelectedPhotos([]);
+    setSelectedPortion(null);
     setShowAddMeal(true);
   };
 
   const openEditMealModal = (entry: FoodEntry) => {
     setEditingEntry(entry);
+    // Nutrition of a photo meal waiting for review is left to the nutritionist
+    setPhotoOnly(entry.review_status === 'pending');
     setFormData({
       title: entry.title,
       description: entry.description || '',
@@ -190,10 +281,74 @@ export default function FoodJournalScreen() {
       notes: entry.notes || '',
     });
     setSelectedPhotos(entry.photos?.map(p => p.photo_url) || []);
+    setSelectedPortion(getReferencedPortion(entry, [...recipeFoods, ...customFoods]));
     setShowAddMeal(true);
   };
 
+  const handleSelectFood = (portion: FoodPortion) => {
+    const nutrients = portionNutrients(portion);
+    setSelectedPortion(portion);
+    setFormData(prev => ({
+      ...prev,
+      title: prev.title.trim() ? prev.title : portion.food.name,
+      calories: nutrients.calories.toString(),
+      protein_g: nutrients.protein_g.toString(),
+      carbs_g: nutrients.carbs_g.toString(),
+      fat_g: nutrients.fat_g.toString(),
+    }));
+    setShowFoodPicker(false);
+  };
+
+  const handleSavePhotoMeal = async () => {
+    if (!formData.meal_type_id) {
+      Alert.alert('Error', 'Please select a meal type');
+      return;
+    }
+
+    if (selectedPhotos.length === 0) {
+      Alert.alert('Error', 'Please add a photo of your meal');
+      return;
+    }
+
+    const logged = await logPhotoMeal({
+      title: formData.title,
+      meal_type_id: formData.meal_type_id,
+      date: formData.date,
+      time: formData.time,
+      notes: formData.notes.trim() || undefined,
+    }, selectedPhotos);
+
+    if (!logged) {
+      Alert.alert('Error', 'Failed to log photo meal');
+      return;
+    }
+
+    setShowAddMeal(false);
+    await loadFoodEntries();
+  };
+
+  // Warns when a saved entry takes its day over a limit the user watches,
+  // e.g. sodium for a client with hypertension
+  const warnOnCrossedLimits = (savedEntry: FoodEntry) => {
+    const dayEntries = daysSummary.find(day => day.date === savedEntry.date)?.entries || [];
+    const otherEntries = dayEntries.filter(entry => entry.id !== editingEntry?.id && entry.id !== savedEntry.id);
+    const totalsOf = (entries: FoodEntry[]): LimitTotals => ({
+      sodium_mg: entries.reduce((total, entry) => total + (entry.sodium_mg || 0), 0),
+      sugar_g: entries.reduce((total, entry) => total + (entry.sugar_g || 0), 0),
+    });
+
+    const crossed = getCrossedLimits(nutritionGoals, totalsOf(otherEntries), totalsOf([...otherEntries, savedEntry]));
+    if (crossed.length > 0) {
+      Alert.alert('Over your daily limit', crossed.map(describeLimitWarning).join('\n'));
+    }
+  };
+
   const handleSaveMeal = async () => {
+    if (photoOnly && !editingEntry) {
+      await handleSavePhotoMeal();
+      return;
+    }
+
     if (!formData.title.trim()) {
       Alert.alert('Error', 'Please enter a meal title');
       return;
@@ -211,31 +366,38 @@ export default function FoodJournalScreen() {
         meal_type_id: formData.meal_type_id,
         date: formData.date,
         time: formData.time,
-        calories: parseInt(formData.calories) || 0,
-        protein_g: parseFloat(formData.protein_g) || 0,
-        carbs_g: parseFloat(formData.carbs_g) || 0,
-        fat_g: parseFloat(formData.fat_g) || 0,
+        ...(photoOnly ? {} : {
+          calories: parseInt(formData.calories) || 0,
+          protein_g: parseFloat(formData.protein_g) || 0,
+          carbs_g: parseFloat(formData.carbs_g) || 0,
+          fat_g: parseFloat(formData.fat_g) || 0,
+        }),
         notes: formData.notes.trim() || undefined,
+        // The manual form has no fields for these, so an entry unlinked from
+        // its food drops the values the food filled in
+        ...(!selectedPortion && editingEntry && hasFoodReference(editingEntry)
+          ? { fiber_g: 0, sugar_g: 0, sodium_mg: 0, micronutrients: null }
+          : {}),
       };
 
       let savedEntry;
       if (editingEntry) {
-        savedEntry = await updateFoodEntry(editingEntry.id, entryData);
+        savedEntry = await updateFoodEntry(editingEntry.id, entryData, selectedPortion);
       } else {
-        savedEntry = await createFoodEntry(entryData);
+        savedEntry = await createFoodEntry(entryData, selectedPortion || undefined);
       }
 
       if (savedEntry) {
-        // Add photos if any
-        for (const photoUrl of selectedPhotos) {
-          await addFoodPhoto(savedEntry.id, {
-            photo_url: photoUrl,
-            is_primary: selectedPhotos.indexOf(photoUrl) === 0,
-          });
+        // Upload the photos picked in this session; the rest are saved already
+        const savedUrls = editingEntry?.photos?.map(photo => photo.photo_url) || [];
+        const newPhotos = selectedPhotos.filter(url => !savedUrls.includes(url));
+        if (newPhotos.length > 0 && !(await attachFoodPhotos(savedEntry, newPhotos))) {
+          Alert.alert('Error', 'The meal was saved but some photos failed to upload');
         }
 
         setShowAddMeal(false);
         await loadFoodEntries();
+        warnOnCrossedLimits(savedEntry);
       } else {
         Alert.alert('Error', 'Failed to save meal entry');
       }
@@ -267,6 +429,100 @@ export default function FoodJournalScreen() {
     );
   };
 
+  // Everything logged under the same meal type on the same day as `entry`
+  const getMealEntries = (entry: FoodEntry) =>
+    daysSummary
+      .find(day => day.date === entry.date)
+      ?.entries.filter(other => other.meal_type_id === entry.meal_type_id) || [entry];
+
+  const handleCopyDateChange = async (event: any, date?: Date) => {
+    const request = entriesToCopy;
+    setEntriesToCopy(null);
+    if (!date || !request) return;
+
+    const toDate = date.toISOString().split('T')[0];
+    const copied = 'fromDate' in request
+      ? await copyFoodDay(request.fromDate, toDate)
+      : await copyFoodEntries(request.entries, toDate);
+
+    if (!copied) {
+      Alert.alert('Error', 'Failed to copy meals');
+      return;
+    }
+    if (copied.length === 0) {
+      Alert.alert('Nothing to copy', 'No meals are logged on that day');
+      return;
+    }
+    setSelectedDate(date);
+  };
+
+  const openSaveMealModal = (entry: FoodEntry) => {
+    const entries = getMealEntries(entry);
+    const mealType = getMealTypeById(entry.meal_type_id);
+    setEntriesToSave(entries);
+    setSavedMealName(entries.length === 1 ? entry.title : `My ${mealType?.name.toLowerCase() || 'meal'}`);
+  };
+
+  const handleSaveAsMeal = async () => {
+    if (!entriesToSave) return;
+    if (!savedMealName.trim()) {
+      Alert.alert('Error', 'Please enter a name for the meal');
+      return;
+    }
+
+    const saved = await saveMealFromEntries(savedMealName, entriesToSave[0].meal_type_id, entriesToSave);
+    if (!saved) {
+      Alert.alert('Error', 'Failed to save meal');
+      return;
+    }
+
+    setEntriesToSave(null);
+    setSavedMeals(await getSavedMeals());
+  };
+
+  const handleLogSavedMeal = async (meal: SavedMeal) => {
+    const mealTypeId = meal.meal_type_id || mealTypes[0]?.id;
+    if (!mealTypeId) {
+      Alert.alert('Error', 'Please select a meal type');
+      return;
+    }
+
+    const logged = await logSavedMeal(meal, {
+      date: selectedDate.toISOString().split('T')[0],
+      time: new Date().toTimeString().slice(0, 5),
+      meal_type_id: mealTypeId,
+    });
+    if (!logged) {
+      Alert.alert('Error', 'Failed to log saved meal');
+      return;
+    }
+
+    setShowSavedMeals(false);
+    await loadFoodEntries();
+  };
+
+  const handleDeleteSavedMeal = (meal: SavedMeal) => {
+    Alert.alert(
+      'Delete Saved Meal',
+      `Delete "${meal.name}"? Meals already logged from it are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await deleteSavedMeal(meal.id);
+            if (success) {
+              setSavedMeals(prev => prev.filter(existing => existing.id !== meal.id));
+            } else {
+              Alert.alert('Error', 'Failed to delete saved meal');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleAddPhoto = async () => {
     try {
       const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -339,6 +595,22 @@ export default function FoodJournalScreen() {
     return daysSummary.find(day => day.date === today);
   };
 
+  // Entries are loaded for the week up to the selected day, which is what
+  // the weekly score needs
+  const renderPlannedVsLogged = () => {
+    if (!nutritionPlan) return null;
+
+    const date = selectedDate.toISOString().split('T')[0];
+    const entries = daysSummary.flatMap(day => day.entries);
+    return (
+      <PlannedVsLogged
+        plan={nutritionPlan}
+        day={getDayAdherence(nutritionPlan, date, entries)}
+        weeklyScore={getWindowAdherence(nutritionPlan, entries, date).weeklyScore}
+      />
+    );
+  };
+
   const formatDate = (date: Date) => {
     const today = new Date();
     const yesterday = new Date(today);
@@ -357,98 +629,20 @@ export default function FoodJournalScreen() {
     }
   };
 
-  const renderNutritionOverview = () => {
-    const todaysSummary = getTodaysSummary();
-    if (!nutritionGoals || !todaysSummary) return null;
-
-    const calorieProgress = (todaysSummary.total_calories / nutritionGoals.daily_calories) * 100;
-    const proteinProgress = (todaysSummary.total_protein / nutritionGoals.daily_protein_g) * 100;
-    const carbsProgress = (todaysSummary.total_carbs / nutritionGoals.daily_carbs_g) * 100;
-    const fatProgress = (todaysSummary.total_fat / nutritionGoals.daily_fat_g) * 100;
+  const renderDashboard = () => {
+    if (!nutritionGoals) return null;
 
     return (
-      <View style={styles.nutritionOverview}>
-        <View style={styles.nutritionHeader}>
-          <Text style={styles.nutritionTitle}>Today's Nutrition</Text>
-          <TouchableOpacity onPress={() => setShowNutritionGoals(true)}>
-            <Settings size={20} color={colors.textSecondary} />
-          </TouchableOpacity>
-        </View>
-
-        <View style={styles.nutritionGrid}>
-          <View style={styles.nutritionItem}>
-            <Text style={styles.nutritionLabel}>Calories</Text>
-            <Text style={styles.nutritionValue}>
-              {Math.round(todaysSummary.total_calories)}/{nutritionGoals.daily_calories}
-            </Text>
-            <View style={styles.progressBar}>
-              <View 
-                style={[
-                  styles.progressFill, 
-                  { 
-                    width: `${Math.min(calorieProgress, 100)}%`,
-                    backgroundColor: colors.primary 
-                  }
-                ]} 
-              />
-            </View>
-          </View>
-
-          <View style={styles.nutritionItem}>
-            <Text style={styles.nutritionLabel}>Protein</Text>
-            <Text style={styles.nutritionValue}>
-              {Math.round(todaysSummary.total_protein)}g/{nutritionGoals.daily_protein_g}g
-            </Text>
-            <View style={styles.progressBar}>
-              <View 
-                style={[
-                  styles.progressFill, 
-                  { 
-                    width: `${Math.min(proteinProgress, 100)}%`,
-                    backgroundColor: colors.success 
-                  }
-                ]} 
-              />
-            </View>
-          </View>
-
-          <View style={styles.nutritionItem}>
-            <Text style={styles.nutritionLabel}>Carbs</Text>
-            <Text style={styles.nutritionValue}>
-              {Math.round(todaysSummary.total_carbs)}g/{nutritionGoals.daily_carbs_g}g
-            </Text>
-            <View style={styles.progressBar}>
-              <View 
-                style={[
-                  styles.progressFill, 
-                  { 
-                    width: `${Math.min(carbsProgress, 100)}%`,
-                    backgroundColor: colors.warning 
-                  }
-                ]} 
-              />
-            </View>
-          </View>
-
-          <View style={styles.nutritionItem}>
-            <Text style={styles.nutritionLabel}>Fat</Text>
-            <Text style={styles.nutritionValue}>
-              {Math.round(todaysSummary.total_fat)}g/{nutritionGoals.daily_fat_g}g
-            </Text>
-            <View style={styles.progressBar}>
-              <View 
-                style={[
-                  styles.progressFill, 
-                  { 
-                    width: `${Math.min(fatProgress, 100)}%`,
-                    backgroundColor: colors.error 
-                  }
-                ]} 
-              />
-            </View>
-          </View>
-        </View>
-      </View>
+      <DailyNutritionDashboard
+        title={formatDate(selectedDate)}
+        summary={getTodaysSummary()}
+        goals={nutritionGoals}
+        water={water}
+        onAddWater={handleAddWater}
+        onUndoWater={handleUndoWater}
+        onOpenMacros={() => router.push('/set-macros-goal')}
+        onOpenTargets={() => router.push('/nutrition/targets')}
+      />
     );
   };
 
@@ -461,9 +655,20 @@ export default function FoodJournalScreen() {
             {formatDate(new Date(daySummary.date))}
           </Text>
           <Text style={styles.dayStats}>
-            {daySummary.entries.length} meals • {Math.round(daySummary.total_calories)} cal
+            {daySummary.entries.length} meals • {daySummary.estimated_entries > 0 ? '~' : ''}
+            {Math.round(daySummary.total_calories)} cal
+            {daySummary.pending_entries > 0 ? ` • ${daySummary.pending_entries} pending review` : ''}
           </Text>
         </View>
+        {daySummary.entries.length > 0 && (
+          <TouchableOpacity
+            style={styles.dayAction}
+            onPress={() => setEntriesToCopy({ fromDate: daySummary.date })}
+          >
+            <Copy size={16} color={colors.textSecondary} />
+            <Text style={styles.dayActionText}>Copy day</Text>
+          </TouchableOpacity>
+        )}
       </View>
       
       {daySummary.entries.length === 0 ? (
@@ -506,6 +711,8 @@ export default function FoodJournalScreen() {
                 [
                   { text: 'Cancel', style: 'cancel' },
                   { text: 'Edit', onPress: () => openEditMealModal(entry) },
+                  { text: 'Copy to another day', onPress: () => setEntriesToCopy({ entries: getMealEntries(entry) }) },
+                  { text: 'Save as meal', onPress: () => openSaveMealModal(entry) },
                   { text: 'Delete', style: 'destructive', onPress: () => handleDeleteMeal(entry) },
                 ]
               );
@@ -517,6 +724,14 @@ export default function FoodJournalScreen() {
 
         <View style={styles.mealContent}>
           <Text style={styles.mealTitle}>{entry.title}</Text>
+          {entry.quantity && entry.serving_label && entry.serving_grams ? (
+            <Text style={styles.mealServing}>
+              {formatServing({
+                serving: { label: entry.serving_label, grams: entry.serving_grams },
+                quantity: entry.quantity,
+              })}
+            </Text>
+          ) : null}
           {entry.description && (
             <Text style={styles.mealDescription}>{entry.description}</Text>
           )}
@@ -537,7 +752,22 @@ export default function FoodJournalScreen() {
             </ScrollView>
           )}
 
+          {entry.review_status === 'pending' ? (
+            <View style={styles.nutritionInfo}>
+              <View style={[styles.nutritionBadge, styles.pendingBadge]}>
+                <Clock size={12} color={colors.warning} />
+                <Text style={[styles.nutritionBadgeText, { color: colors.warning }]}>
+                  Waiting for your nutritionist's estimate
+                </Text>
+              </View>
+            </View>
+          ) : (
           <View style={styles.nutritionInfo}>
+            {entry.review_status === 'approved' && (
+              <View style={[styles.nutritionBadge, styles.estimatedBadge]}>
+                <Text style={[styles.nutritionBadgeText, { color: colors.primary }]}>Estimated</Text>
+              </View>
+            )}
             <View style={styles.nutritionBadge}>
               <Text style={styles.nutritionBadgeText}>{entry.calories} cal</Text>
             </View>
@@ -557,6 +787,14 @@ export default function FoodJournalScreen() {
               </View>
             )}
           </View>
+          )}
+
+          {entry.review_comment && (
+            <View style={styles.reviewComment}>
+              <Text style={styles.reviewCommentLabel}>Nutritionist feedback</Text>
+              <Text style={styles.reviewCommentText}>{entry.review_comment}</Text>
+            </View>
+          )}
 
           {entry.notes && (
             <Text style={styles.mealNotes}>{entry.notes}</Text>
@@ -584,9 +822,17 @@ export default function FoodJournalScreen() {
           <ArrowLeft size={24} color={colors.text} />
         </TouchableOpacity>
         <Text style={styles.title}>Food Journal</Text>
-        <TouchableOpacity onPress={openAddMealModal} style={styles.addButton}>
-          <Plus size={24} color={colors.primary} />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={() => router.push('/nutrition/recipes')} style={styles.addButton}>
+            <ChefHat size={24} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => openAddMealModal(true)} style={styles.addButton}>
+            <Camera size={24} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => openAddMealModal()} style={styles.addButton}>
+            <Plus size={24} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Date Selector */}
@@ -601,11 +847,11 @@ export default function FoodJournalScreen() {
           </Text>
           <ChevronDown size={16} color={colors.textSecondary} />
         </TouchableOpacity>
+        <TouchableOpacity style={styles.savedMealsButton} onPress={() => setShowSavedMeals(true)}>
+          <Bookmark size={20} color={colors.primary} />
+        </TouchableOpacity>
       </View>
 
-      {/* Nutrition Overview */}
-      {renderNutritionOverview()}
-
       {/* Timeline */}
       <ScrollView 
         style={styles.timeline} 
@@ -614,6 +860,8 @@ export default function FoodJournalScreen() {
           <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
         }
       >
+        {renderDashboard()}
+        {renderPlannedVsLogged()}
         {daysSummary.map(renderDayEntry)}
         <View style={{ height: 100 }} />
       </ScrollView>
@@ -628,6 +876,16 @@ export default function FoodJournalScreen() {
         />
       )}
 
+      {/* Copy Target Date Picker */}
+      {entriesToCopy && (
+        <DateTimePicker
+          value={selectedDate}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleCopyDateChange}
+        />
+      )}
+
       {/* Add/Edit Meal Modal */}
       <Modal
         visible={showAddMeal}
@@ -641,7 +899,7 @@ export default function FoodJournalScreen() {
               <X size={24} color={colors.text} />
             </TouchableOpacity>
             <Text style={styles.modalTitle}>
-              {editingEntry ? 'Edit Meal' : 'Add Meal'}
+              {editingEntry ? 'Edit Meal' : photoOnly ? 'Log Photo Meal' : 'Add Meal'}
             </Text>
             <TouchableOpacity onPress={handleSaveMeal}>
               <Save size={24} color={colors.primary} />
@@ -654,12 +912,12 @@ export default function FoodJournalScreen() {
               <Text style={styles.formSectionTitle}>Basic Information</Text>
               
               <View style={styles.formField}>
-                <Text style={styles.fieldLabel}>Meal Title *</Text>
+                <Text style={styles.fieldLabel}>{photoOnly && !editingEntry ? 'Meal Title' : 'Meal Title *'}</Text>
                 <TextInput
                   style={styles.textInput}
                   value={formData.title}
                   onChangeText={(text) => setFormData(prev => ({ ...prev, title: text }))}
-                  placeholder="What did you eat?"
+                  placeholder={photoOnly && !editingEntry ? 'Photo meal' : 'What did you eat?'}
                   placeholderTextColor={colors.textTertiary}
                 />
               </View>
@@ -750,31 +1008,64 @@ export default function FoodJournalScreen() {
             </View>
 
             {/* Nutrition */}
+            {photoOnly ? (
+              <View style={styles.formSection}>
+                <Text style={styles.formSectionTitle}>Nutrition Information</Text>
+                <Text style={styles.fieldHint}>
+                  Your nutritionist will estimate the nutrition from your photo. Until then the meal
+                  is marked as pending in your daily totals.
+                </Text>
+              </View>
+            ) : (
             <View style={styles.formSection}>
               <Text style={styles.formSectionTitle}>Nutrition Information</Text>
+
+              {selectedPortion ? (
+                <View style={styles.selectedFood}>
+                  <TouchableOpacity style={styles.selectedFoodInfo} onPress={() => setShowFoodPicker(true)}>
+                    <Text style={styles.selectedFoodName} numberOfLines={1}>{selectedPortion.food.name}</Text>
+                    <Text style={styles.selectedFoodServing}>{formatServing(selectedPortion)}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => setSelectedPortion(null)}>
+                    <X size={20} color={colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <TouchableOpacity style={styles.findFoodButton} onPress={() => setShowFoodPicker(true)}>
+                  <Search size={20} color={colors.primary} />
+                  <Text style={styles.findFoodText}>Search food database</Text>
+                </TouchableOpacity>
+              )}
+              {selectedPortion && (
+                <Text style={styles.fieldHint}>
+                  Calculated from the food. Remove it to enter values yourself.
+                </Text>
+              )}
               
               <View style={styles.formRow}>
                 <View style={styles.formFieldHalf}>
                   <Text style={styles.fieldLabel}>Calories</Text>
                   <TextInput
-                    style={styles.textInput}
+                    style={[styles.textInput, selectedPortion && styles.readOnlyInput]}
                     value={formData.calories}
                     onChangeText={(text) => setFormData(prev => ({ ...prev, calories: text }))}
                     placeholder="0"
                     placeholderTextColor={colors.textTertiary}
                     keyboardType="numeric"
+                    editable={!selectedPortion}
                   />
                 </View>
 
                 <View style={styles.formFieldHalf}>
                   <Text style={styles.fieldLabel}>Protein (g)</Text>
                   <TextInput
-                    style={styles.textInput}
+                    style={[styles.textInput, selectedPortion && styles.readOnlyInput]}
                     value={formData.protein_g}
                     onChangeText={(text) => setFormData(prev => ({ ...prev, protein_g: text }))}
                     placeholder="0"
                     placeholderTextColor={colors.textTertiary}
                     keyboardType="numeric"
+                    editable={!selectedPortion}
                   />
                 </View>
               </View>
@@ -783,28 +1074,31 @@ export default function FoodJournalScreen() {
                 <View style={styles.formFieldHalf}>
                   <Text style={styles.fieldLabel}>Carbs (g)</Text>
                   <TextInput
-                    style={styles.textInput}
+                    style={[styles.textInput, selectedPortion && styles.readOnlyInput]}
                     value={formData.carbs_g}
                     onChangeText={(text) => setFormData(prev => ({ ...prev, carbs_g: text }))}
                     placeholder="0"
                     placeholderTextColor={colors.textTertiary}
                     keyboardType="numeric"
+                    editable={!selectedPortion}
                   />
                 </View>
 
                 <View style={styles.formFieldHalf}>
                   <Text style={styles.fieldLabel}>Fat (g)</Text>
                   <TextInput
-                    style={styles.textInput}
+                    style={[styles.textInput, selectedPortion && styles.readOnlyInput]}
                     value={formData.fat_g}
                     onChangeText={(text) => setFormData(prev => ({ ...prev, fat_g: text }))}
                     placeholder="0"
                     placeholderTextColor={colors.textTertiary}
                     keyboardType="numeric"
+                    editable={!selectedPortion}
                   />
                 </View>
               </View>
             </View>
+            )}
 
             {/* Notes */}
             <View style={styles.formSection}>
@@ -864,6 +1158,110 @@ export default function FoodJournalScreen() {
           </View>
         </SafeAreaView>
       </Modal>
+
+      {/* Saved Meals Modal */}
+      <Modal
+        visible={showSavedMeals}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowSavedMeals(false)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowSavedMeals(false)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Saved Meals</Text>
+            <View style={{ width: 24 }} />
+          </View>
+
+          <ScrollView style={styles.modalContent} showsVerticalScrollIndicator={false}>
+            {savedMeals.length === 0 ? (
+              <Text style={styles.emptyDayText}>
+                Save a meal from its options menu to log it again with one tap.
+              </Text>
+            ) : (
+              groupSavedMeals(savedMeals, mealTypes).map(group => (
+                <View key={group.meal_type?.id || 'other'} style={styles.formSection}>
+                  <Text style={styles.formSectionTitle}>
+                    {group.meal_type ? `${group.meal_type.emoji} ${group.meal_type.name}` : 'Other'}
+                  </Text>
+                  {group.meals.map(meal => (
+                    <View key={meal.id} style={styles.savedMealRow}>
+                      <TouchableOpacity style={styles.savedMealInfo} onPress={() => handleLogSavedMeal(meal)}>
+                        <Text style={styles.savedMealName}>{meal.name}</Text>
+                        <Text style={styles.savedMealDetail} numberOfLines={1}>
+                          {Math.round(savedMealCalories(meal))} cal • {meal.items.map(item => item.title).join(', ')}
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity onPress={() => handleDeleteSavedMeal(meal)}>
+                        <Trash2 size={18} color={colors.error} />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              ))
+            )}
+            {savedMeals.length > 0 && (
+              <Text style={styles.fieldHint}>
+                Tap a meal to log it on {formatDate(selectedDate).toLowerCase()}.
+              </Text>
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Save As Meal Modal */}
+      <Modal
+        visible={!!entriesToSave}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setEntriesToSave(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setEntriesToSave(null)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Save as Meal</Text>
+            <TouchableOpacity onPress={handleSaveAsMeal}>
+              <Save size={24} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent} showsVerticalScrollIndicator={false}>
+            <View style={styles.formField}>
+              <Text style={styles.fieldLabel}>Name *</Text>
+              <TextInput
+                style={styles.textInput}
+                value={savedMealName}
+                onChangeText={setSavedMealName}
+                placeholder="e.g. Weekday breakfast"
+                placeholderTextColor={colors.textTertiary}
+              />
+            </View>
+            <Text style={styles.formSectionTitle}>Foods</Text>
+            {entriesToSave?.map(entry => (
+              <View key={entry.id} style={styles.savedMealRow}>
+                <View style={styles.savedMealInfo}>
+                  <Text style={styles.savedMealName}>{entry.title}</Text>
+                  <Text style={styles.savedMealDetail}>{entry.calories} cal</Text>
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+
+      <FoodPicker
+        visible={showFoodPicker}
+        customFoods={customFoods}
+        recipes={recipeFoods}
+        initialPortion={selectedPortion}
+        onClose={() => setShowFoodPicker(false)}
+        onSelect={handleSelectFood}
+        onCustomFoodCreated={(food) => setCustomFoods(prev => [...prev, food].sort((a, b) => a.name.localeCompare(b.name)))}
+      />
     </SafeAreaView>
   );
 }
@@ -903,11 +1301,25 @@ const createStyles = (colors: any) => StyleSheet.create({
   addButton: {
     padding: 4,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
   dateSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
     paddingHorizontal: 20,
     paddingVertical: 16,
+    gap: 12,
+  },
+  savedMealsButton: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 12,
   },
   dateButton: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     backgroundColor: colors.surface,
@@ -922,60 +1334,6 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.text,
     flex: 1,
   },
-  nutritionOverview: {
-    backgroundColor: colors.surface,
-    marginHorizontal: 20,
-    marginBottom: 16,
-    borderRadius: 16,
-    padding: 20,
-    shadowColor: colors.shadow,
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 1,
-    shadowRadius: 8,
-    elevation: 4,
-  },
-  nutritionHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 16,
-  },
-  nutritionTitle: {
-    fontFamily: 'Inter-SemiBold',
-    fontSize: 18,
-    color: colors.text,
-  },
-  nutritionGrid: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 16,
-  },
-  nutritionItem: {
-    flex: 1,
-    minWidth: '45%',
-  },
-  nutritionLabel: {
-    fontFamily: 'Inter-Medium',
-    fontSize: 12,
-    color: colors.textSecondary,
-    marginBottom: 4,
-  },
-  nutritionValue: {
-    fontFamily: 'Inter-SemiBold',
-    fontSize: 14,
-    color: colors.text,
-    marginBottom: 8,
-  },
-  progressBar: {
-    height: 4,
-    backgroundColor: colors.borderLight,
-    borderRadius: 2,
-    overflow: 'hidden',
-  },
-  progressFill: {
-    height: '100%',
-    borderRadius: 2,
-  },
   timeline: {
     flex: 1,
     paddingHorizontal: 20,
@@ -998,6 +1356,17 @@ const createStyles = (colors: any) => StyleSheet.create({
   dayInfo: {
     flex: 1,
   },
+  dayAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    padding: 4,
+  },
+  dayActionText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
   dayLabel: {
     fontFamily: 'Inter-SemiBold',
     fontSize: 16,
@@ -1075,6 +1444,11 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 16,
     color: colors.text,
   },
+  mealServing: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
   mealDescription: {
     fontFamily: 'Inter-Regular',
     fontSize: 14,
@@ -1106,6 +1480,32 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 11,
     color: colors.textSecondary,
   },
+  pendingBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: colors.warning + '15',
+  },
+  estimatedBadge: {
+    backgroundColor: colors.primary + '15',
+  },
+  reviewComment: {
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 8,
+  },
+  reviewCommentLabel: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 11,
+    color: colors.textSecondary,
+    marginBottom: 2,
+  },
+  reviewCommentText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.text,
+  },
   mealNotes: {
     fontFamily: 'Inter-Regular',
     fontSize: 12,
@@ -1174,6 +1574,57 @@ const createStyles = (colors: any) => StyleSheet.create({
     minHeight: 80,
     textAlignVertical: 'top',
   },
+  readOnlyInput: {
+    color: colors.textSecondary,
+  },
+  findFoodButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingVertical: 14,
+    marginBottom: 16,
+    gap: 8,
+  },
+  findFoodText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.primary,
+  },
+  selectedFood: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.primary + '20',
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: 8,
+    padding: 12,
+    gap: 12,
+  },
+  selectedFoodInfo: {
+    flex: 1,
+  },
+  selectedFoodName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+  },
+  selectedFoodServing: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  fieldHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 8,
+    marginBottom: 16,
+  },
   picker: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1239,6 +1690,29 @@ const createStyles = (colors: any) => StyleSheet.create({
   mealTypeList: {
     padding: 20,
   },
+  savedMealRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    gap: 12,
+  },
+  savedMealInfo: {
+    flex: 1,
+  },
+  savedMealName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+  },
+  savedMealDetail: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
   mealTypeOption: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -17,6 +17,9 @@ import { cancelGoalNotifications, getAllScheduledNotifications } from '@/utils/n
 import { Platform } from 'react-native';
 import { useGoal } from '@/hooks/useGoal';
 import { updateGoal } from '@/lib/todayQueries';
+import { formatGoalValue, getGoalDisplayUnit, getGoalSource } from '@/lib/goalSources';
+import { useUnits } from '@/contexts/UnitsContext';
+import { MetricChart } from '@/components/metrics/MetricChart';
 
 const { width } = Dimensions.get('window');
 
@@ -27,55 +30,13 @@ interface TimeRemaining {
   seconds: number;
 }
 
-interface FitnessGoal {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  targetDate: string;
-  targetValue?: number;
-  currentValue?: number;
-  unit?: string;
-  emoji: string;
-  reminders: {
-    onFinish: boolean;
-    oneDayBefore: boolean;
-    oneWeekBefore: boolean;
-  };
-  pinToToday: boolean;
-  shareWithCoach: boolean;
-  createdAt: string;
-  completed?: boolean;
-}
-
-// Sample goal data - replace with actual data from storage
-const sampleGoal: FitnessGoal = {
-  id: '1',
-  title: 'Lose 10kg for Summer',
-  description: 'Get ready for beach season by losing 10kg through consistent workouts and healthy eating.',
-  category: 'weight',
-  targetDate: '2025-08-15T00:00:00.000Z',
-  targetValue: 70,
-  currentValue: 75,
-  unit: 'kg',
-  emoji: '🏖️',
-  reminders: {
-    onFinish: true,
-    oneDayBefore: true,
-    oneWeekBefore: false,
-  },
-  pinToToday: true,
-  shareWithCoach: true,
-  createdAt: '2025-01-01T00:00:00.000Z',
-  completed: false,
-};
-
 export default function GoalCountdownScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
   const { goalId } = useLocalSearchParams();
-  const { goal, loading, error, refresh } = useGoal(goalId as string);
+  const { goal, evaluation, loading, error, refresh } = useGoal(goalId as string);
+  const { unitSystem } = useUnits();
 
   const [timeRemaining, setTimeRemaining] = useState<TimeRemaining>({
     days: 0,
@@ -90,7 +51,8 @@ export default function GoalCountdownScreen() {
     const updateCountdown = () => {
       if (!goal) return;
       const now = new Date().getTime();
-      const targetTime = new Date(goal.targetDate).getTime();
+      if (!goal.target_date) return;
+      const targetTime = new Date(goal.target_date).getTime();
       const difference = targetTime - now;
 
       if (difference > 0) {
@@ -109,7 +71,7 @@ export default function GoalCountdownScreen() {
     const interval = setInterval(updateCountdown, 1000);
 
     return () => clearInterval(interval);
-  }, [goal?.targetDate]);
+  }, [goal?.target_date]);
 
   useEffect(() => {
     if (!goal) return;
@@ -136,22 +98,17 @@ export default function GoalCountdownScreen() {
   };
 
   const getProgressPercentage = () => {
-    if (!goal || !goal.targetValue || !goal.currentValue) return 0;
-    
-    if (goal.category === 'weight') {
-      // For weight loss, calculate how much has been lost
-      const totalToLose = Math.abs(goal.targetValue - parseFloat(goal.createdAt.split('T')[0].split('-')[2])); // Simplified
-      const currentLoss = Math.abs(goal.currentValue - goal.targetValue);
-      return Math.min((currentLoss / totalToLose) * 100, 100);
-    }
-    
-    return Math.min((goal.currentValue / goal.targetValue) * 100, 100);
+    if (!goal) return 0;
+    if (goal.status === 'completed') return 100;
+    return evaluation?.progress ?? goal.progress_percentage ?? 0;
   };
 
+  const formatValue = (value: number) => (goal ? formatGoalValue(goal, value, unitSystem) : '');
+
   const getDaysUntilTarget = () => {
-    if (!goal) return 0;
+    if (!goal?.target_date) return 0;
     const now = new Date();
-    const target = new Date(goal.targetDate);
+    const target = new Date(goal.target_date);
     const diffTime = target.getTime() - now.getTime();
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   };
@@ -276,7 +233,7 @@ export default function GoalCountdownScreen() {
     const daysLeft = getDaysUntilTarget();
     const progress = getProgressPercentage();
     
-    if (goal.completed) {
+    if (goal.status === 'completed') {
       return "🎉 Congratulations! You've achieved your goal!";
     }
     
@@ -349,7 +306,7 @@ export default function GoalCountdownScreen() {
             <Text style={styles.goalEmoji}>{goal.emoji}</Text>
             <Text style={styles.goalTitle}>{goal.title}</Text>
             <Text style={styles.goalDescription}>{goal.description}</Text>
-            <Text style={styles.targetDate}>Target: {formatDate(goal.targetDate)}</Text>
+            {goal.target_date && <Text style={styles.targetDate}>Target: {formatDate(goal.target_date)}</Text>}
             
             {/* Notification Status */}
             {Platform.OS !== 'web' && (
@@ -404,24 +361,24 @@ export default function GoalCountdownScreen() {
         </View>
 
         {/* Progress Section */}
-        {goal.targetValue && goal.currentValue && (
+        {goal.target_value != null && goal.current_value != null && (
           <View style={styles.progressContainer}>
             <Text style={styles.progressTitle}>Progress Tracking</Text>
             
             <View style={styles.progressStats}>
               <View style={styles.progressStat}>
-                <Text style={styles.progressStatNumber}>{goal.currentValue}</Text>
+                <Text style={styles.progressStatNumber}>{formatValue(goal.current_value)}</Text>
                 <Text style={styles.progressStatLabel}>Current</Text>
               </View>
               <View style={styles.progressStat}>
-                <Text style={styles.progressStatNumber}>{goal.targetValue}</Text>
+                <Text style={styles.progressStatNumber}>{formatValue(goal.target_value)}</Text>
                 <Text style={styles.progressStatLabel}>Target</Text>
               </View>
               <View style={styles.progressStat}>
                 <Text style={styles.progressStatNumber}>
-                  {Math.abs(goal.targetValue - goal.currentValue).toFixed(1)}
+                  {formatValue(Math.abs(goal.target_value - goal.current_value))}
                 </Text>
-                <Text style={styles.progressStatLabel}>To Go</Text>
+                <Text style={styles.progressStatLabel}>To Go ({getGoalDisplayUnit(goal, unitSystem)})</Text>
               </View>
             </View>
 
@@ -441,6 +398,54 @@ export default function GoalCountdownScreen() {
           </View>
         )}
 
+        {/* Trajectory from the goal's linked data */}
+        {evaluation && evaluation.series.length > 0 && (
+          <View style={styles.progressContainer}>
+            <Text style={styles.progressTitle}>Trajectory</Text>
+            <Text style={styles.trajectorySource}>
+              Tracking {getGoalSource(goal.source_type)?.name.toLowerCase()}
+            </Text>
+
+            <MetricChart
+              data={evaluation.series}
+              metricType={goal.source_type === 'metric' && goal.source_metric ? goal.source_metric : undefined}
+              unit={goal.source_type === 'metric' ? undefined : getGoalDisplayUnit(goal, unitSystem)}
+              colors={colors}
+              chartWidth={width - 88}
+              chartHeight={140}
+              showTrend={false}
+              fillArea={true}
+            />
+
+            <View style={styles.trajectoryRow}>
+              <Text style={styles.trajectoryLabel}>Projected completion</Text>
+              <Text style={styles.trajectoryValue}>
+                {goal.status === 'completed'
+                  ? 'Achieved'
+                  : evaluation.projectedCompletion
+                    ? formatDate(`${evaluation.projectedCompletion}T00:00:00`)
+                    : 'Not enough progress yet'}
+              </Text>
+            </View>
+            {evaluation.ratePerDay !== null && goal.status !== 'completed' && (
+              <View style={styles.trajectoryRow}>
+                <Text style={styles.trajectoryLabel}>Current pace</Text>
+                <Text style={styles.trajectoryValue}>
+                  {evaluation.ratePerDay >= 0 ? '+' : '-'}
+                  {formatValue(Math.abs(evaluation.ratePerDay * 7))} {getGoalDisplayUnit(goal, unitSystem)}/week
+                </Text>
+              </View>
+            )}
+            {evaluation.onTrack !== null && goal.status !== 'completed' && (
+              <View style={[styles.trackBadge, { backgroundColor: evaluation.onTrack ? colors.success : colors.warning }]}>
+                <Text style={styles.trackBadgeText}>
+                  {evaluation.onTrack ? 'On track for your target date' : 'Behind your target date'}
+                </Text>
+              </View>
+            )}
+          </View>
+        )}
+
         {/* Motivational Message */}
         <View style={styles.motivationContainer}>
           <Text style={styles.motivationMessage}>{getMotivationalMessage()}</Text>
@@ -463,7 +468,9 @@ export default function GoalCountdownScreen() {
           <View style={styles.statCard}>
             <Target size={24} color={colors.warning} />
             <Text style={styles.statNumber}>
-              {Math.ceil((new Date(goal.targetDate).getTime() - new Date(goal.createdAt).getTime()) / (1000 * 60 * 60 * 24))}
+              {goal.target_date
+                ? Math.ceil((new Date(goal.target_date).getTime() - new Date(goal.created_at).getTime()) / (1000 * 60 * 60 * 24))
+                : '-'}
             </Text>
             <Text style={styles.statLabel}>Total Days</Text>
           </View>
@@ -471,7 +478,7 @@ export default function GoalCountdownScreen() {
 
         {/* Action Buttons */}
         <View style={styles.actionContainer}>
-          {!goal.completed && (
+          {goal.status !== 'completed' && (
             <TouchableOpacity style={styles.completeButton} onPress={handleMarkComplete}>
               <CheckCircle size={20} color="#FFFFFF" />
               <Text style={styles.completeButtonText}>Mark as Complete</Text>
@@ -703,6 +710,41 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.success,
     minWidth: 40,
   },
+  trajectorySource: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  trajectoryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  trajectoryLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  trajectoryValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+  },
+  trackBadge: {
+    alignSelf: 'flex-start',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginTop: 16,
+  },
+  trackBadgeText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: '#FFFFFF',
+  },
   motivationContainer: {
     backgroundColor: colors.surface,
     margin: 20,
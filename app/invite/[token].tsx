@@ -12,6 +12,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import { useLocalSearchParams, router } from 'expo-router';
 import { UserRole, useUserRole } from '../../contexts/UserContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { redeemInvitation, validateInvitationToken } from '../../lib/invitationQueries';
 import { User, Dumbbell, Apple, Shield, Users, CircleCheck as CheckCircle, Clock } from 'lucide-react-native';
 
 const roleIcons = {
@@ -42,8 +44,9 @@ export default function InviteAcceptScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
-  const { token } = useLocalSearchParams();
-  const { setUserRole, setUserName } = useUserRole();
+  const { token } = useLocalSearchParams<{ token: string }>();
+  const { refreshRole } = useUserRole();
+  const { signUp, signIn } = useAuth();
 
   const [inviteData, setInviteData] = useState<{
     role: UserRole;
@@ -64,22 +67,27 @@ export default function InviteAcceptScreen() {
   const [isAccepting, setIsAccepting] = useState(false);
 
   useEffect(() => {
-    // Simulate API call to validate invite token
     const validateInvite = async () => {
       try {
-        // In a real app, this would be an API call
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Mock validation - in real app, decode token and check database
-        const mockInviteData = {
-          role: 'trainer' as UserRole,
-          trial: 14,
-          email: 'john.doe@example.com',
+        const invitation = await validateInvitationToken(token);
+
+        if (!invitation || invitation.status === 'accepted' || invitation.status === 'cancelled') {
+          setInviteData({
+            role: 'client',
+            trial: 0,
+            isValid: false,
+            isExpired: false,
+          });
+          return;
+        }
+
+        setInviteData({
+          role: invitation.role,
+          trial: invitation.trial_days,
+          email: invitation.email,
           isValid: true,
-          isExpired: false,
-        };
-        
-        setInviteData(mockInviteData);
+          isExpired: invitation.status === 'expired',
+        });
       } catch (error) {
         setInviteData({
           role: 'client' as UserRole,
@@ -100,7 +108,7 @@ export default function InviteAcceptScreen() {
   }, [token]);
 
   const handleAcceptInvite = async () => {
-    if (!inviteData?.isValid) return;
+    if (!inviteData?.isValid || !inviteData.email) return;
 
     if (!formData.firstName.trim() || !formData.lastName.trim()) {
       Alert.alert('Error', 'Please enter your first and last name');
@@ -120,16 +128,36 @@ export default function InviteAcceptScreen() {
     setIsAccepting(true);
 
     try {
-      // In a real app, this would create the user account
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const fullName = `${formData.firstName} ${formData.lastName}`;
-      setUserRole(inviteData.role);
-      setUserName(fullName);
+      const fullName = `${formData.firstName.trim()} ${formData.lastName.trim()}`;
+
+      const { data, error } = await signUp(inviteData.email, formData.password, { full_name: fullName });
+      let hasSession = !!data?.session;
+
+      // Returning invitees (or projects without email confirmation) sign in with the same password
+      if (!hasSession && (!error || error.message?.includes('User already registered'))) {
+        const { data: signInData } = await signIn(inviteData.email, formData.password);
+        hasSession = !!signInData?.session;
+      } else if (error) {
+        throw error;
+      }
+
+      if (!hasSession) {
+        Alert.alert(
+          'Confirm Your Email',
+          `We sent a confirmation email to ${inviteData.email}. Confirm it, then open this invitation link again to finish joining.`
+        );
+        return;
+      }
+
+      // The server assigns the invited role; read it back rather than trusting the link
+      await redeemInvitation(token, fullName);
+      await refreshRole();
       
       Alert.alert(
         'Welcome to VinayFit!',
-        `Your account has been created successfully. You have ${inviteData.trial} days of trial access.`,
+        inviteData.trial > 0
+          ? `Your account has been created successfully. You have ${inviteData.trial} days of trial access.`
+          : 'Your account has been created successfully.',
         [
           {
             text: 'Get Started',
@@ -137,8 +165,8 @@ export default function InviteAcceptScreen() {
           }
         ]
       );
-    } catch (error) {
-      Alert.alert('Error', 'Failed to create account. Please try again.');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to create account. Please try again.');
     } finally {
       setIsAccepting(false);
     }
@@ -13,6 +13,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { ArrowLeft, Clock, Calendar, ChevronDown, Footprints, Flame, Heart, MapPin, CreditCard as Edit3 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router, useLocalSearchParams } from 'expo-router';
+import { useUnits } from '@/contexts/UnitsContext';
+import { getPreferredUnit, getUnitOptions, toCanonical } from '@/lib/units';
 
 const activityIcons = {
   'run': Footprints,
@@ -47,7 +49,8 @@ export default function LogActivityScreen() {
   const [duration, setDuration] = useState('');
   const [calories, setCalories] = useState('');
   const [distance, setDistance] = useState('');
-  const [distanceUnit, setDistanceUnit] = useState('km');
+  const { unitSystem } = useUnits();
+  const [distanceUnit, setDistanceUnit] = useState(getPreferredUnit('distance', unitSystem));
   const [heartRate, setHeartRate] = useState('');
   const [notes, setNotes] = useState('');
   const [showUnitPicker, setShowUnitPicker] = useState(false);
@@ -86,7 +89,8 @@ export default function LogActivityScreen() {
       endTime,
       duration,
       calories: calories ? `${calories} kcal` : null,
-      distance: distance ? `${distance} ${distanceUnit}` : null,
+      // Saved in meters whichever unit it was entered in
+      distance_m: distance ? toCanonical(parseFloat(distance) || 0, 'distance', distanceUnit) : null,
       heartRate: heartRate ? `${heartRate} bpm` : null,
       notes,
       date: new Date().toISOString(),
@@ -98,7 +102,7 @@ export default function LogActivityScreen() {
     router.push('/(tabs)');
   };
 
-  const distanceUnits = ['km', 'mi', 'm', 'ft'];
+  const distanceUnits = getUnitOptions('distance');
 
   return (
     <SafeAreaView style={styles.container}>
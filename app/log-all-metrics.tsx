@@ -14,6 +14,10 @@ import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router } from 'expo-router';
 import { MetricData, MetricType } from '@/types/metrics';
 import { getMetrics, addMetricEntry } from '@/utils/metricsStorage';
+import { offerTargetRecalculation } from '@/utils/targetRecalculation';
+import { METRIC_DEFINITIONS } from '@/lib/metricRegistry';
+import { convertMetricInput, getMetricUnit, validateMetricInput } from '@/lib/units';
+import { useUnits } from '@/contexts/UnitsContext';
 
 interface MetricInput {
   metricType: MetricType;
@@ -25,6 +29,7 @@ export default function LogAllMetricsScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
 
   const [metrics, setMetrics] = useState<MetricData>({});
   const [metricInputs, setMetricInputs] = useState<MetricInput[]>([]);
@@ -40,9 +45,9 @@ export default function LogAllMetricsScreen() {
       const loadedMetrics = await getMetrics();
       setMetrics(loadedMetrics);
       
-      // Initialize metric inputs
-      const inputs: MetricInput[] = Object.keys(loadedMetrics).map(metricType => ({
-        metricType: metricType as MetricType,
+      // Initialize metric inputs in registry order
+      const inputs: MetricInput[] = METRIC_DEFINITIONS.map(definition => ({
+        metricType: definition.id,
         value: '',
         enabled: false,
       }));
@@ -70,11 +75,14 @@ export default function LogAllMetricsScreen() {
       return;
     }
 
-    // Validate all values are numeric
+    // Validate all values against each metric's range
     for (const input of enabledInputs) {
       const numericValue = parseFloat(input.value);
-      if (isNaN(numericValue)) {
-        Alert.alert('Error', `Please enter a valid number for ${metrics[input.metricType]?.name}`);
+      const invalid = isNaN(numericValue)
+        ? `Please enter a valid number for ${metrics[input.metricType]?.name}`
+        : validateMetricInput(input.metricType, numericValue, getMetricUnit(input.metricType, unitSystem));
+      if (invalid) {
+        Alert.alert('Error', invalid);
         return;
       }
     }
@@ -89,9 +97,19 @@ export default function LogAllMetricsScreen() {
       });
 
       // Save all enabled metrics
+      let loggedWeight: number | null = null;
       for (const input of enabledInputs) {
-        const numericValue = parseFloat(input.value);
+        const numericValue = convertMetricInput(
+          input.metricType,
+          parseFloat(input.value),
+          getMetricUnit(input.metricType, unitSystem)
+        );
         await addMetricEntry(input.metricType, numericValue, currentDate, currentTime);
+        if (input.metricType === 'weight') loggedWeight = numericValue;
+      }
+
+      if (loggedWeight !== null) {
+        await offerTargetRecalculation(loggedWeight);
       }
 
       Alert.alert(
@@ -145,7 +163,7 @@ export default function LogAllMetricsScreen() {
             keyboardType="numeric"
             editable={input.enabled}
           />
-          <Text style={styles.unitLabel}>{metric.unit}</Text>
+          <Text style={styles.unitLabel}>{getMetricUnit(input.metricType, unitSystem)}</Text>
         </View>
       </View>
     );
@@ -6,7 +6,8 @@ import {
   ScrollView,
   TouchableOpacity,
   TextInput,
-  Image,
+  ActivityIndicator,
+  RefreshControl,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { 
@@ -19,19 +20,14 @@ import {
   MoreHorizontal
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useConversations } from '@/hooks/useConversations';
+import {
+  ConversationSummary,
+  formatConversationTime,
+  getParticipantDisplayName,
+} from '@/lib/messagingQueries';
 import { router } from 'expo-router';
 
-interface Message {
-  id: string;
-  clientId: string;
-  clientName: string;
-  clientAvatar: string;
-  lastMessage: string;
-  timestamp: string;
-  unreadCount: number;
-  isOnline: boolean;
-}
-
 export default function MessagesScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
@@ -39,132 +35,93 @@ export default function MessagesScreen() {
 
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTab, setSelectedTab] = useState('all');
+  const { conversations, totalUnread, loading, refresh } = useConversations();
 
-  const messages: Message[] = [
-    {
-      id: '1',
-      clientId: 'client-1',
-      clientName: 'Sarah Johnson',
-      clientAvatar: '👩‍💼',
-      lastMessage: 'Thanks for the workout plan! When should I start?',
-      timestamp: '2 min ago',
-      unreadCount: 2,
-      isOnline: true,
-    },
-    {
-      id: '2',
-      clientId: 'client-2',
-      clientName: 'Mike Chen',
-      clientAvatar: '👨‍💻',
-      lastMessage: 'Great session today! Feeling stronger already.',
-      timestamp: '1 hour ago',
-      unreadCount: 0,
-      isOnline: true,
-    },
-    {
-      id: '3',
-      clientId: 'client-3',
-      clientName: 'Emma Wilson',
-      clientAvatar: '👩‍🎨',
-      lastMessage: 'Can we reschedule tomorrow\'s session?',
-      timestamp: '3 hours ago',
-      unreadCount: 1,
-      isOnline: false,
-    },
-    {
-      id: '4',
-      clientId: 'client-4',
-      clientName: 'Alex Rodriguez',
-      clientAvatar: '👨‍🎯',
-      lastMessage: 'The new nutrition plan is working great!',
-      timestamp: 'Yesterday',
-      unreadCount: 0,
-      isOnline: false,
-    },
-    {
-      id: '5',
-      clientId: 'client-5',
-      clientName: 'Lisa Park',
-      clientAvatar: '👩‍🔬',
-      lastMessage: 'Question about the deadlift form...',
-      timestamp: '2 days ago',
-      unreadCount: 3,
-      isOnline: true,
-    },
-  ];
+  const filteredConversations = conversations.filter(conversation => {
+    if (selectedTab === 'unread' && conversation.unread_count === 0) return false;
 
-  const filteredMessages = messages.filter(message =>
-    message.clientName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    message.lastMessage.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+    const query = searchQuery.toLowerCase();
+    return (
+      getParticipantDisplayName(conversation.other_participant).toLowerCase().includes(query) ||
+      (conversation.last_message?.content || '').toLowerCase().includes(query)
+    );
+  });
 
-  const handleMessagePress = (message: Message) => {
-    router.push(`/chat/${message.clientId}`);
+  const handleConversationPress = (conversation: ConversationSummary) => {
+    if (conversation.other_participant) {
+      router.push(`/chat/${conversation.other_participant.id}`);
+    }
   };
 
-  const handleCallClient = (message: Message) => {
-    console.log('Call client:', message.clientName);
+  const handleCallClient = (conversation: ConversationSummary) => {
+    console.log('Call client:', getParticipantDisplayName(conversation.other_participant));
   };
 
-  const handleVideoCall = (message: Message) => {
-    console.log('Video call client:', message.clientName);
+  const handleVideoCall = (conversation: ConversationSummary) => {
+    console.log('Video call client:', getParticipantDisplayName(conversation.other_participant));
   };
 
-  const renderMessageItem = (message: Message) => (
-    <TouchableOpacity
-      key={message.id}
-      style={styles.messageItem}
-      onPress={() => handleMessagePress(message)}
-    >
-      <View style={styles.messageLeft}>
-        <View style={styles.avatarContainer}>
-          <Text style={styles.avatar}>{message.clientAvatar}</Text>
-          {message.isOnline && <View style={styles.onlineIndicator} />}
-        </View>
-        
-        <View style={styles.messageInfo}>
-          <View style={styles.messageHeader}>
-            <Text style={styles.clientName}>{message.clientName}</Text>
-            <Text style={styles.timestamp}>{message.timestamp}</Text>
+  const renderMessageItem = (conversation: ConversationSummary) => {
+    const name = getParticipantDisplayName(conversation.other_participant);
+    const lastMessage = conversation.last_message;
+
+    return (
+      <TouchableOpacity
+        key={conversation.id}
+        style={styles.messageItem}
+        onPress={() => handleConversationPress(conversation)}
+      >
+        <View style={styles.messageLeft}>
+          <View style={styles.avatarContainer}>
+            <View style={styles.avatarCircle}>
+              <Text style={styles.avatarInitial}>{name.charAt(0).toUpperCase()}</Text>
+            </View>
           </View>
-          <Text 
-            style={[
-              styles.lastMessage,
-              message.unreadCount > 0 && styles.unreadMessage
-            ]} 
-            numberOfLines={1}
-          >
-            {message.lastMessage}
-          </Text>
-        </View>
-      </View>
-      
-      <View style={styles.messageRight}>
-        {message.unreadCount > 0 && (
-          <View style={styles.unreadBadge}>
-            <Text style={styles.unreadCount}>{message.unreadCount}</Text>
+          
+          <View style={styles.messageInfo}>
+            <View style={styles.messageHeader}>
+              <Text style={styles.clientName}>{name}</Text>
+              <Text style={styles.timestamp}>
+                {formatConversationTime(lastMessage?.created_at || conversation.last_message_at)}
+              </Text>
+            </View>
+            <Text 
+              style={[
+                styles.lastMessage,
+                conversation.unread_count > 0 && styles.unreadMessage
+              ]} 
+              numberOfLines={1}
+            >
+              {lastMessage?.content || 'No messages yet'}
+            </Text>
           </View>
-        )}
+        </View>
         
-        <View style={styles.messageActions}>
-          <TouchableOpacity 
-            style={styles.actionButton}
-            onPress={() => handleCallClient(message)}
-          >
-            <Phone size={16} color={colors.textSecondary} />
-          </TouchableOpacity>
-          <TouchableOpacity 
-            style={styles.actionButton}
-            onPress={() => handleVideoCall(message)}
-          >
-            <Video size={16} color={colors.textSecondary} />
-          </TouchableOpacity>
+        <View style={styles.messageRight}>
+          {conversation.unread_count > 0 && (
+            <View style={styles.unreadBadge}>
+              <Text style={styles.unreadCount}>{conversation.unread_count}</Text>
+            </View>
+          )}
+          
+          <View style={styles.messageActions}>
+            <TouchableOpacity 
+              style={styles.actionButton}
+              onPress={() => handleCallClient(conversation)}
+            >
+              <Phone size={16} color={colors.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity 
+              style={styles.actionButton}
+              onPress={() => handleVideoCall(conversation)}
+            >
+              <Video size={16} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
         </View>
-      </View>
-    </TouchableOpacity>
-  );
-
-  const totalUnread = messages.reduce((sum, message) => sum + message.unreadCount, 0);
+      </TouchableOpacity>
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -205,7 +162,7 @@ export default function MessagesScreen() {
           onPress={() => setSelectedTab('all')}
         >
           <Text style={[styles.tabText, selectedTab === 'all' && styles.activeTabText]}>
-            All ({messages.length})
+            All ({conversations.length})
           </Text>
         </TouchableOpacity>
         <TouchableOpacity
@@ -216,19 +173,19 @@ export default function MessagesScreen() {
             Unread ({totalUnread})
           </Text>
         </TouchableOpacity>
-        <TouchableOpacity
-          style={[styles.tab, selectedTab === 'online' && styles.activeTab]}
-          onPress={() => setSelectedTab('online')}
-        >
-          <Text style={[styles.tabText, selectedTab === 'online' && styles.activeTabText]}>
-            Online ({messages.filter(m => m.isOnline).length})
-          </Text>
-        </TouchableOpacity>
       </View>
 
       {/* Messages List */}
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        {filteredMessages.length === 0 ? (
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={refresh} />}
+      >
+        {loading ? (
+          <View style={styles.emptyState}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : filteredConversations.length === 0 ? (
           <View style={styles.emptyState}>
             <MessageSquare size={48} color={colors.textTertiary} />
             <Text style={styles.emptyTitle}>No messages found</Text>
@@ -237,7 +194,7 @@ export default function MessagesScreen() {
             </Text>
           </View>
         ) : (
-          filteredMessages.map(renderMessageItem)
+          filteredConversations.map(renderMessageItem)
         )}
 
         <View style={{ height: 100 }} />
@@ -367,23 +324,18 @@ const createStyles = (colors: any) => StyleSheet.create({
     position: 'relative',
     marginRight: 16,
   },
-  avatar: {
-    fontSize: 24,
+  avatarCircle: {
     width: 48,
     height: 48,
-    textAlign: 'center',
-    lineHeight: 48,
-  },
-  onlineIndicator: {
-    position: 'absolute',
-    bottom: 2,
-    right: 2,
-    width: 12,
-    height: 12,
-    backgroundColor: colors.success,
-    borderRadius: 6,
-    borderWidth: 2,
-    borderColor: colors.surface,
+    borderRadius: 24,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarInitial: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: '#FFFFFF',
   },
   messageInfo: {
     flex: 1,
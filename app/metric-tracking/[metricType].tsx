@@ -18,6 +18,16 @@ import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router, useLocalSearchParams } from 'expo-router';
 import { Metric, MetricEntry, TimeRange } from '@/types/metrics';
 import { getMetric } from '@/utils/metricsStorage';
+import {
+  AGGREGATION_LABELS,
+  aggregateMetricEntries,
+  aggregateMetricEntriesByDay,
+  formatMetricValue,
+  getMetricDefinition,
+  resolveMetricType,
+} from '@/lib/metricRegistry';
+import { toDisplayMetric } from '@/lib/units';
+import { useUnits } from '@/contexts/UnitsContext';
 
 const { width, height } = Dimensions.get('window');
 
@@ -32,7 +42,7 @@ interface ChartPoint {
 interface GroupedEntry {
   period: string;
   entries: MetricEntry[];
-  averageValue: number;
+  periodValue: number; // entries combined with the metric's aggregation rule
   latestValue: number;
   startDate: string;
   endDate: string;
@@ -299,7 +309,13 @@ const ChartLine: React.FC<{ points: ChartPoint[]; colors: any }> = ({ points, co
 export default function MetricTrackingScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme ?? 'light');
-  const { metricType } = useLocalSearchParams();
+  const { metricType: metricParam, clientId } = useLocalSearchParams();
+  const metricType = resolveMetricType(metricParam);
+  const definition = metricType ? getMetricDefinition(metricType) : undefined;
+  const aggregationLabel = AGGREGATION_LABELS[definition?.aggregation ?? 'last'];
+  const { unitSystem } = useUnits();
+  // Set when a trainer is viewing a client's metric; entries are read-only then
+  const viewedClientId = typeof clientId === 'string' ? clientId : undefined;
 
   const [metric, setMetric] = useState<Metric | null>(null);
   const [selectedRange, setSelectedRange] = useState<TimeRange>('1M');
@@ -850,7 +866,7 @@ export default function MetricTrackingScreen() {
 
   useEffect(() => {
     loadMetric();
-  }, [metricType]);
+  }, [metricType, unitSystem]);
 
   useEffect(() => {
     if (metric) {
@@ -859,10 +875,14 @@ export default function MetricTrackingScreen() {
   }, [metric, selectedRange, currentRangeIndex]);
 
   const loadMetric = async () => {
+    if (!metricType) {
+      setLoading(false);
+      return;
+    }
     try {
       setLoading(true);
-      const loadedMetric = await getMetric(metricType as any);
-      setMetric(loadedMetric);
+      const loadedMetric = await getMetric(metricType, viewedClientId);
+      setMetric(loadedMetric ? toDisplayMetric(loadedMetric, unitSystem) : null);
     } catch (error) {
       console.error('Error loading metric:', error);
     } finally {
@@ -922,12 +942,14 @@ export default function MetricTrackingScreen() {
   };
 
   const updateChartData = (entries: MetricEntry[]) => {
-    if (entries.length === 0) {
+    if (entries.length === 0 || !metricType) {
       setChartData([]);
       return;
     }
 
-    const values = entries.map(e => e.value);
+    // One point per day; e.g. steps logged twice in a day are summed
+    const daily = aggregateMetricEntriesByDay(metricType, entries);
+    const values = daily.map(e => e.value);
     const maxValue = Math.max(...values);
     const minValue = Math.min(...values);
     const range = maxValue - minValue || 1;
@@ -938,8 +960,8 @@ const chartPadding = 40;
 const availableWidth = chartWidth - chartPadding;
 const availableHeight = chartHeight - 40;
 
-    const points: ChartPoint[] = entries.map((entry, index) => {
-      const x = chartPadding + (index / Math.max(entries.length - 1, 1)) * availableWidth;
+    const points: ChartPoint[] = daily.map((entry, index) => {
+      const x = chartPadding + (index / Math.max(daily.length - 1, 1)) * availableWidth;
       const normalizedValue = (entry.value - minValue) / range;
       const y = 20 + (1 - normalizedValue) * availableHeight;
       
@@ -1082,14 +1104,13 @@ const availableHeight = chartHeight - 40;
     return Object.entries(grouped)
       .map(([period, entries]) => {
         const sortedEntries = entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-        const values = entries.map(e => e.value);
-        const averageValue = values.reduce((sum, val) => sum + val, 0) / values.length;
+        const periodValue = metricType ? aggregateMetricEntries(metricType, sortedEntries) : 0;
         const latestValue = sortedEntries[sortedEntries.length - 1].value;
         
         return {
           period: formatPeriodLabel(period, selectedPeriod),
           entries: sortedEntries,
-          averageValue,
+          periodValue,
           latestValue,
           startDate: sortedEntries[0].date,
           endDate: sortedEntries[sortedEntries.length - 1].date,
@@ -1119,7 +1140,7 @@ const availableHeight = chartHeight - 40;
   const getCurrentValue = (): string => {
     if (!filteredEntries.length) return '0';
     const latest = filteredEntries[filteredEntries.length - 1];
-    return latest.value.toString();
+    return `${latest.value} ${metric?.unit ?? ''}`.trim();
   };
 
   const getCurrentDate = (): string => {
@@ -1141,9 +1162,9 @@ const availableHeight = chartHeight - 40;
     const change = latest.value - previous.value;
     
     if (change > 0) {
-      return `+${change.toFixed(1)} from last entry`;
+      return `+${formatMetricValue(metricType!, change)} from last entry`;
     } else if (change < 0) {
-      return `${change.toFixed(1)} from last entry`;
+      return `${formatMetricValue(metricType!, change)} from last entry`;
     } else {
       return 'No change from last entry';
     }
@@ -1205,7 +1226,7 @@ const availableHeight = chartHeight - 40;
         onPress={() => {
           setShowAddModal(false);
           // Navigate to add entry screen
-          router.push(`/metrics/add?metricType=${metricType}&mode=single`);
+          router.push(`/add-metric/${metricType}`);
         }}
       >
         <View style={styles.addOptionIcon}>
@@ -1222,7 +1243,7 @@ const availableHeight = chartHeight - 40;
         onPress={() => {
           setShowAddModal(false);
           // Navigate to bulk add screen
-          router.push(`/metrics/add?metricType=${metricType}&mode=bulk`);
+          router.push('/log-all-metrics');
         }}
       >
         <View style={styles.addOptionIcon}>
@@ -1502,7 +1523,7 @@ const availableHeight = chartHeight - 40;
               <View style={styles.historyItemContent}>
                 <Text style={styles.historyPeriod}>{group.period}</Text>
                 <Text style={styles.historySubtext}>
-                  {group.entries.length} entries • Avg: {group.averageValue.toFixed(1)}
+                  {group.entries.length} entries • {aggregationLabel}: {formatMetricValue(metricType!, group.periodValue)}
                 </Text>
               </View>
               <View style={styles.historyValue}>
@@ -1546,7 +1567,7 @@ const availableHeight = chartHeight - 40;
                     Total entries: {group.entries.length}
                   </Text>
                   <Text style={styles.summaryText}>
-                    Average value: {group.averageValue.toFixed(2)}
+                    {aggregationLabel} value: {formatMetricValue(metricType!, group.periodValue)}
                   </Text>
                   <Text style={styles.summaryText}>
                     Latest value: {group.latestValue}
@@ -1561,12 +1582,14 @@ const availableHeight = chartHeight - 40;
       </ScrollView>
 
       {/* Floating Action Button */}
-      <TouchableOpacity
-        style={styles.floatingButton}
-        onPress={() => setShowAddModal(true)}
-      >
-        <Plus size={24} color={colors.surface} />
-      </TouchableOpacity>
+      {!viewedClientId && (
+        <TouchableOpacity
+          style={styles.floatingButton}
+          onPress={() => setShowAddModal(true)}
+        >
+          <Plus size={24} color={colors.surface} />
+        </TouchableOpacity>
+      )}
 
       {/* Add Options Bottom Sheet */}
       <BottomSheet
@@ -8,7 +8,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { getWorkoutPlans, WorkoutPlan } from '@/lib/planDatabase';
 
 // Enhanced types for better date handling
-interface PlanWithStatus extends WorkoutPlan {
+interface PlanWithStatus extends Omit<WorkoutPlan, 'status'> {
   status: 'upcoming' | 'active' | 'completed';
   daysRemaining?: number;
   daysUntilStart?: number;
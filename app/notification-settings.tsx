@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -6,64 +6,95 @@ import {
   ScrollView,
   TouchableOpacity,
   Switch,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ArrowLeft, Bell, MessageSquare, Calendar, Trophy } from 'lucide-react-native';
+import { ArrowLeft, Bell, MessageSquare, Calendar, Trophy, Users, Moon, ChevronLeft, ChevronRight } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router } from 'expo-router';
+import {
+  NOTIFICATION_GROUPS,
+  getNotificationPreferences,
+  setNotificationPreference,
+} from '@/lib/notifications';
+import { QuietHours, getQuietHours, saveQuietHours, syncWorkoutReminders } from '@/lib/workoutReminders';
+import { NotificationChannel, NotificationPreferences } from '@/types/notifications';
 
-interface NotificationSetting {
-  id: string;
-  title: string;
-  description: string;
-  icon: any;
-  enabled: boolean;
-}
+const GROUP_ICONS: Record<string, any> = {
+  workouts: Calendar,
+  messages: MessageSquare,
+  coaching: Users,
+  achievements: Trophy,
+  general: Bell,
+};
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' };
+
+const formatHour = (time: string) => time.slice(0, 5);
+
+const shiftHour = (time: string, delta: number) => {
+  const hour = (parseInt(time, 10) + delta + 24) % 24;
+  return `${String(hour).padStart(2, '0')}:00`;
+};
+
+const CHANNELS: { id: NotificationChannel; label: string }[] = [
+  { id: 'in_app', label: 'In-app' },
+  { id: 'push', label: 'Push' },
+];
 
 export default function NotificationSettingsScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
 
-  const [notifications, setNotifications] = useState<NotificationSetting[]>([
-    {
-      id: 'workout-reminders',
-      title: 'Workout Reminders',
-      description: 'Get notified about upcoming workouts',
-      icon: Calendar,
-      enabled: true,
-    },
-    {
-      id: 'messages',
-      title: 'Messages',
-      description: 'Notifications for new messages from trainers',
-      icon: MessageSquare,
-      enabled: true,
-    },
-    {
-      id: 'achievements',
-      title: 'Achievements',
-      description: 'Celebrate your fitness milestones',
-      icon: Trophy,
-      enabled: true,
-    },
-    {
-      id: 'general',
-      title: 'General Notifications',
-      description: 'App updates and general information',
-      icon: Bell,
-      enabled: false,
-    },
-  ]);
-
-  const toggleNotification = (id: string) => {
-    setNotifications(prev =>
-      prev.map(notification =>
-        notification.id === id
-          ? { ...notification, enabled: !notification.enabled }
-          : notification
-      )
-    );
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [quietHours, setQuietHours] = useState<QuietHours>({ start: null, end: null });
+
+  useEffect(() => {
+    getNotificationPreferences().then(setPreferences);
+    getQuietHours().then(setQuietHours);
+  }, []);
+
+  const quietHoursEnabled = !!quietHours.start && !!quietHours.end;
+
+  const updateQuietHours = async (next: QuietHours) => {
+    const previous = quietHours;
+    setQuietHours(next);
+    if (await saveQuietHours(next)) {
+      syncWorkoutReminders();
+    } else {
+      setQuietHours(previous);
+    }
+  };
+
+  const shiftQuietHours = (edge: 'start' | 'end', delta: number) => {
+    if (!quietHours.start || !quietHours.end) return;
+    updateQuietHours({ ...quietHours, [edge]: shiftHour(quietHours[edge]!, delta) });
+  };
+
+  // A group is on for a channel while any of its types still is
+  const isEnabled = (groupId: string, channel: NotificationChannel) => {
+    const group = NOTIFICATION_GROUPS.find(g => g.id === groupId);
+    return !!preferences && !!group && group.types.some(type => preferences[type][channel]);
+  };
+
+  const toggleChannel = async (groupId: string, channel: NotificationChannel) => {
+    const group = NOTIFICATION_GROUPS.find(g => g.id === groupId);
+    if (!group || !preferences) return;
+
+    const enabled = !isEnabled(groupId, channel);
+    const previous = preferences;
+    const next = { ...preferences };
+    group.types.forEach(type => {
+      next[type] = { ...next[type], [channel]: enabled };
+    });
+    setPreferences(next);
+
+    if (!(await setNotificationPreference(group.types, channel, enabled))) {
+      setPreferences(previous);
+    } else if (group.id === 'workouts') {
+      syncWorkoutReminders();
+    }
   };
 
   return (
@@ -84,31 +115,85 @@ export default function NotificationSettingsScreen() {
           </Text>
         </View>
 
-        <View style={styles.notificationsList}>
-          {notifications.map((notification) => {
-            const IconComponent = notification.icon;
-            return (
-              <View key={notification.id} style={styles.notificationItem}>
-                <View style={styles.notificationLeft}>
-                  <View style={[styles.iconContainer, { backgroundColor: `${colors.primary}15` }]}>
-                    <IconComponent size={20} color={colors.primary} />
+        {!preferences ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : (
+          <View style={styles.notificationsList}>
+            {NOTIFICATION_GROUPS.map((group) => {
+              const IconComponent = GROUP_ICONS[group.id] || Bell;
+              return (
+                <View key={group.id} style={styles.notificationItem}>
+                  <View style={styles.notificationLeft}>
+                    <View style={[styles.iconContainer, { backgroundColor: `${colors.primary}15` }]}>
+                      <IconComponent size={20} color={colors.primary} />
+                    </View>
+                    <View style={styles.notificationInfo}>
+                      <Text style={styles.notificationTitle}>{group.title}</Text>
+                      <Text style={styles.notificationDescription}>
+                        {group.description}
+                      </Text>
+                    </View>
                   </View>
-                  <View style={styles.notificationInfo}>
-                    <Text style={styles.notificationTitle}>{notification.title}</Text>
-                    <Text style={styles.notificationDescription}>
-                      {notification.description}
-                    </Text>
+                  <View style={styles.channelRow}>
+                    {CHANNELS.map((channel) => {
+                      const enabled = isEnabled(group.id, channel.id);
+                      return (
+                        <View key={channel.id} style={styles.channel}>
+                          <Text style={styles.channelLabel}>{channel.label}</Text>
+                          <Switch
+                            value={enabled}
+                            onValueChange={() => toggleChannel(group.id, channel.id)}
+                            trackColor={{ false: colors.borderLight, true: colors.primary }}
+                            thumbColor={enabled ? '#FFFFFF' : colors.textTertiary}
+                          />
+                        </View>
+                      );
+                    })}
                   </View>
                 </View>
-                <Switch
-                  value={notification.enabled}
-                  onValueChange={() => toggleNotification(notification.id)}
-                  trackColor={{ false: colors.borderLight, true: colors.primary }}
-                  thumbColor={notification.enabled ? '#FFFFFF' : colors.textTertiary}
-                />
+              );
+            })}
+          </View>
+        )}
+
+        <View style={styles.notificationsList}>
+          <View style={styles.notificationItem}>
+            <View style={styles.notificationLeft}>
+              <View style={[styles.iconContainer, { backgroundColor: `${colors.primary}15` }]}>
+                <Moon size={20} color={colors.primary} />
               </View>
-            );
-          })}
+              <View style={styles.notificationInfo}>
+                <Text style={styles.notificationTitle}>Quiet Hours</Text>
+                <Text style={styles.notificationDescription}>
+                  Workout reminders are held back until quiet hours end
+                </Text>
+              </View>
+              <Switch
+                value={quietHoursEnabled}
+                onValueChange={(enabled) =>
+                  updateQuietHours(enabled ? DEFAULT_QUIET_HOURS : { start: null, end: null })
+                }
+                trackColor={{ false: colors.borderLight, true: colors.primary }}
+                thumbColor={quietHoursEnabled ? '#FFFFFF' : colors.textTertiary}
+              />
+            </View>
+            {quietHoursEnabled && (
+              <View style={styles.channelRow}>
+                {(['start', 'end'] as const).map((edge) => (
+                  <View key={edge} style={styles.channel}>
+                    <Text style={styles.channelLabel}>{edge === 'start' ? 'From' : 'Until'}</Text>
+                    <TouchableOpacity onPress={() => shiftQuietHours(edge, -1)} style={styles.timeButton}>
+                      <ChevronLeft size={18} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                    <Text style={styles.timeText}>{formatHour(quietHours[edge]!)}</Text>
+                    <TouchableOpacity onPress={() => shiftQuietHours(edge, 1)} style={styles.timeButton}>
+                      <ChevronRight size={18} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
         </View>
 
         <View style={{ height: 100 }} />
@@ -156,9 +241,6 @@ const createStyles = (colors: any) => StyleSheet.create({
     paddingHorizontal: 20,
   },
   notificationItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
     backgroundColor: colors.surface,
     borderRadius: 12,
     padding: 16,
@@ -197,4 +279,30 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.textSecondary,
     lineHeight: 20,
   },
+  channelRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  channel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 16,
+  },
+  channelLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginRight: 8,
+  },
+  timeButton: {
+    padding: 4,
+  },
+  timeText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+    minWidth: 48,
+    textAlign: 'center',
+  },
 });
\ No newline at end of file
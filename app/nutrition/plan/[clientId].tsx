@@ -0,0 +1,9 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import NutritionPlanEditor from '@/components/nutrition/NutritionPlanEditor';
+
+export default function NutritionPlanScreen() {
+  const { clientId, name } = useLocalSearchParams<{ clientId: string; name?: string }>();
+
+  return <NutritionPlanEditor clientId={clientId} clientName={name ? decodeURIComponent(name) : 'Client'} />;
+}
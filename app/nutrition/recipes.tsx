@@ -0,0 +1,370 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Plus, MoreHorizontal, ChefHat } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { usePermissions } from '@/hooks/usePermissions';
+import { getCurrentUserProfile } from '@/lib/database';
+import { Food, formatServing, getCustomFoods } from '@/lib/foods';
+import { Recipe, getRecipes, deleteRecipe, recipeNutrition } from '@/lib/recipes';
+import RecipeEditor from '@/components/nutrition/RecipeEditor';
+
+// The user's recipes and the ones their coaches published. Recipes are
+// logged from the food journal like any other food.
+export default function RecipesScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+  const { can } = usePermissions();
+  const { recipeId } = useLocalSearchParams<{ recipeId?: string }>();
+
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [customFoods, setCustomFoods] = useState<Food[]>([]);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(recipeId || null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
+
+  useEffect(() => {
+    loadData().finally(() => setLoading(false));
+  }, []);
+
+  const loadData = async () => {
+    const [profile, recipesData, customFoodsData] = await Promise.all([
+      getCurrentUserProfile(),
+      getRecipes(),
+      getCustomFoods(),
+    ]);
+    setProfileId(profile?.id || null);
+    setRecipes(recipesData);
+    setCustomFoods(customFoodsData);
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadData();
+    setRefreshing(false);
+  };
+
+  const ownRecipes = recipes.filter(recipe => recipe.created_by === profileId);
+  const sharedRecipes = recipes.filter(recipe => recipe.created_by !== profileId);
+
+  const openEditor = (recipe: Recipe | null) => {
+    setEditingRecipe(recipe);
+    setShowEditor(true);
+  };
+
+  const handleSaved = (saved: Recipe) => {
+    setRecipes(prev => {
+      const others = prev.filter(recipe => recipe.id !== saved.id);
+      return [...others, saved].sort((a, b) => a.name.localeCompare(b.name));
+    });
+    setShowEditor(false);
+  };
+
+  const handleDelete = (recipe: Recipe) => {
+    Alert.alert(
+      'Delete Recipe',
+      `Delete "${recipe.name}"? Meals already logged from it are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await deleteRecipe(recipe.id);
+            if (success) {
+              setRecipes(prev => prev.filter(existing => existing.id !== recipe.id));
+            } else {
+              Alert.alert('Error', 'Failed to delete recipe');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderRecipe = (recipe: Recipe, isOwn: boolean) => {
+    const { perServing } = recipeNutrition(recipe.ingredients, recipe.servings);
+    const expanded = expandedId === recipe.id;
+
+    return (
+      <TouchableOpacity
+        key={recipe.id}
+        style={styles.recipeCard}
+        onPress={() => setExpandedId(expanded ? null : recipe.id)}
+        activeOpacity={0.8}
+      >
+        <View style={styles.recipeHeader}>
+          <View style={styles.recipeInfo}>
+            <Text style={styles.recipeName}>{recipe.name}</Text>
+            <Text style={styles.recipeMeta}>
+              {recipe.servings} {recipe.servings === 1 ? 'serving' : 'servings'}
+              {!isOwn && recipe.author?.full_name ? ` • by ${recipe.author.full_name}` : ''}
+            </Text>
+          </View>
+          {isOwn && recipe.is_published && (
+            <View style={styles.publishedBadge}>
+              <Text style={styles.publishedBadgeText}>Published</Text>
+            </View>
+          )}
+          {isOwn && (
+            <TouchableOpacity
+              onPress={() =>
+                Alert.alert(recipe.name, 'Choose an action', [
+                  { text: 'Cancel', style: 'cancel' },
+                  { text: 'Edit', onPress: () => openEditor(recipe) },
+                  { text: 'Delete', style: 'destructive', onPress: () => handleDelete(recipe) },
+                ])
+              }
+            >
+              <MoreHorizontal size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.nutritionInfo}>
+          <View style={styles.nutritionBadge}>
+            <Text style={styles.nutritionBadgeText}>{perServing.calories} cal</Text>
+          </View>
+          <View style={styles.nutritionBadge}>
+            <Text style={styles.nutritionBadgeText}>{perServing.protein_g}g protein</Text>
+          </View>
+          <View style={styles.nutritionBadge}>
+            <Text style={styles.nutritionBadgeText}>{perServing.carbs_g}g carbs</Text>
+          </View>
+          <View style={styles.nutritionBadge}>
+            <Text style={styles.nutritionBadgeText}>{perServing.fat_g}g fat</Text>
+          </View>
+        </View>
+
+        {expanded && (
+          <View style={styles.recipeDetails}>
+            {recipe.description && <Text style={styles.recipeDescription}>{recipe.description}</Text>}
+            <Text style={styles.detailTitle}>Ingredients</Text>
+            {recipe.ingredients.map(ingredient => (
+              <Text key={ingredient.id} style={styles.ingredientText}>
+                • {ingredient.name}, {formatServing({
+                  serving: { label: ingredient.serving_label, grams: ingredient.serving_grams },
+                  quantity: ingredient.quantity,
+                })}
+              </Text>
+            ))}
+            {recipe.instructions && (
+              <>
+                <Text style={styles.detailTitle}>Instructions</Text>
+                <Text style={styles.recipeDescription}>{recipe.instructions}</Text>
+              </>
+            )}
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Recipes</Text>
+        <TouchableOpacity onPress={() => openEditor(null)} style={styles.headerButton}>
+          <Plus size={24} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {loading ? (
+          <Text style={styles.emptyText}>Loading recipes...</Text>
+        ) : recipes.length === 0 ? (
+          <View style={styles.emptyState}>
+            <ChefHat size={48} color={colors.textTertiary} />
+            <Text style={styles.emptyTitle}>No recipes yet</Text>
+            <Text style={styles.emptyText}>
+              Add a recipe once and log a serving of it from the food journal whenever you eat it.
+            </Text>
+          </View>
+        ) : (
+          <>
+            {ownRecipes.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>My Recipes</Text>
+                {ownRecipes.map(recipe => renderRecipe(recipe, true))}
+              </View>
+            )}
+            {sharedRecipes.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>From Your Coaches</Text>
+                {sharedRecipes.map(recipe => renderRecipe(recipe, false))}
+              </View>
+            )}
+          </>
+        )}
+        <View style={{ height: 50 }} />
+      </ScrollView>
+
+      <RecipeEditor
+        visible={showEditor}
+        recipe={editingRecipe}
+        customFoods={customFoods}
+        canPublish={can('nutrition.manage')}
+        onClose={() => setShowEditor(false)}
+        onSaved={handleSaved}
+        onCustomFoodCreated={food => setCustomFoods(prev => [...prev, food])}
+      />
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    padding: 4,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+    marginBottom: 12,
+  },
+  recipeCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  recipeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  recipeInfo: {
+    flex: 1,
+  },
+  recipeName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  recipeMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  publishedBadge: {
+    backgroundColor: colors.success + '20',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  publishedBadgeText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.success,
+  },
+  nutritionInfo: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  nutritionBadge: {
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  nutritionBadgeText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  recipeDetails: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  recipeDescription: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  detailTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  ingredientText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 22,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    gap: 12,
+  },
+  emptyTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,332 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft } from 'lucide-react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useUnits } from '@/contexts/UnitsContext';
+import { fromCanonical, getPreferredUnit, toCanonical } from '@/lib/units';
+import {
+  NutritionGoals,
+  getNutritionGoals,
+  getClientNutritionGoals,
+  upsertNutritionGoals,
+  upsertClientNutritionGoals,
+} from '@/lib/foodJournal';
+import { MICRONUTRIENTS, Micronutrients } from '@/lib/foods';
+import { LIMIT_NUTRIENTS } from '@/lib/nutrientLimits';
+import { LimitNutrient } from '@/types/nutrition';
+
+// Water, fiber, limits and micronutrient targets. Opened with a clientId by
+// the client's nutritionist, e.g. to lower the sodium limit for hypertension.
+export default function NutritionTargetsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+  const { clientId, name } = useLocalSearchParams<{ clientId?: string; name?: string }>();
+  const { unitSystem } = useUnits();
+  const volumeUnit = getPreferredUnit('volume', unitSystem);
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [water, setWater] = useState('');
+  const [fiber, setFiber] = useState('');
+  const [limits, setLimits] = useState<Record<LimitNutrient, string>>({ sodium_mg: '', sugar_g: '' });
+  const [limitWarnings, setLimitWarnings] = useState<LimitNutrient[]>(['sodium_mg']);
+  const [micronutrientTargets, setMicronutrientTargets] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadGoals();
+  }, [clientId]);
+
+  const loadGoals = async () => {
+    setLoading(true);
+    const goals = clientId ? await getClientNutritionGoals(clientId) : await getNutritionGoals();
+    if (goals) {
+      setWater(String(Number(fromCanonical(goals.daily_water_ml / 1000, 'volume', volumeUnit).toFixed(volumeUnit === 'L' ? 2 : 0))));
+      setFiber(goals.daily_fiber_g ? String(goals.daily_fiber_g) : '');
+      setLimits({
+        sodium_mg: goals.daily_sodium_mg ? String(goals.daily_sodium_mg) : '',
+        sugar_g: goals.daily_sugar_g ? String(goals.daily_sugar_g) : '',
+      });
+      setLimitWarnings(goals.limit_warnings || []);
+      setMicronutrientTargets(
+        Object.entries(goals.micronutrient_targets || {}).reduce(
+          (targets, [key, value]) => ({ ...targets, [key]: String(value) }),
+          {} as Record<string, string>
+        )
+      );
+    }
+    setLoading(false);
+  };
+
+  const toggleWarning = (key: LimitNutrient, enabled: boolean) => {
+    setLimitWarnings(prev => (enabled ? [...prev, key] : prev.filter(warning => warning !== key)));
+  };
+
+  const handleSave = async () => {
+    const waterMl = Math.round(toCanonical(parseFloat(water), 'volume', volumeUnit) * 1000);
+    if (!(waterMl > 0)) {
+      Alert.alert('Error', 'Please enter a daily water target');
+      return;
+    }
+
+    const targets = MICRONUTRIENTS.reduce((entered, { key }) => {
+      const value = parseFloat(micronutrientTargets[key]);
+      if (value > 0) entered[key] = value;
+      return entered;
+    }, {} as Micronutrients);
+
+    const goals: Partial<NutritionGoals> = {
+      daily_water_ml: waterMl,
+      daily_fiber_g: parseFloat(fiber) || 0,
+      daily_sodium_mg: parseFloat(limits.sodium_mg) || 0,
+      daily_sugar_g: parseFloat(limits.sugar_g) || 0,
+      limit_warnings: limitWarnings,
+      micronutrient_targets: targets,
+    };
+
+    setSaving(true);
+    const saved = clientId ? await upsertClientNutritionGoals(clientId, goals) : await upsertNutritionGoals(goals);
+    setSaving(false);
+
+    if (!saved) {
+      Alert.alert('Error', 'Failed to save targets.');
+      return;
+    }
+    router.back();
+  };
+
+  const renderInput = (label: string, value: string, onChange: (value: string) => void, unit: string, placeholder = '0') => (
+    <View style={styles.inputRow}>
+      <Text style={styles.inputLabel}>{label}</Text>
+      <View style={styles.inputContainer}>
+        <TextInput
+          style={styles.input}
+          value={value}
+          onChangeText={text => onChange(text.replace(/[^0-9.]/g, ''))}
+          placeholder={placeholder}
+          placeholderTextColor={colors.textTertiary}
+          keyboardType="decimal-pad"
+        />
+        <Text style={styles.unitText}>{unit}</Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.title}>
+          {clientId ? `${name ? decodeURIComponent(name) : 'Client'}'s Targets` : 'Daily Targets'}
+        </Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading targets...</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Targets</Text>
+            {renderInput('💧 Water', water, setWater, volumeUnit)}
+            {renderInput('Fiber', fiber, setFiber, 'g')}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Limits</Text>
+            <Text style={styles.sectionDescription}>
+              {clientId ? 'They get' : 'You get'} a warning when a day goes over a limit that has warnings on.
+            </Text>
+            {LIMIT_NUTRIENTS.map(nutrient => (
+              <View key={nutrient.key}>
+                {renderInput(
+                  nutrient.label,
+                  limits[nutrient.key],
+                  value => setLimits(prev => ({ ...prev, [nutrient.key]: value })),
+                  nutrient.unit
+                )}
+                <View style={styles.switchRow}>
+                  <Text style={styles.switchLabel}>Warn when over</Text>
+                  <Switch
+                    value={limitWarnings.includes(nutrient.key)}
+                    onValueChange={enabled => toggleWarning(nutrient.key, enabled)}
+                    trackColor={{ false: colors.border, true: colors.primary }}
+                    thumbColor={colors.surface}
+                  />
+                </View>
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Micronutrients</Text>
+            <Text style={styles.sectionDescription}>
+              Left empty, a target is the label daily value shown.
+            </Text>
+            {MICRONUTRIENTS.map(nutrient => (
+              <React.Fragment key={nutrient.key}>
+                {renderInput(
+                  nutrient.label,
+                  micronutrientTargets[nutrient.key] || '',
+                  value => setMicronutrientTargets(prev => ({ ...prev, [nutrient.key]: value })),
+                  nutrient.unit,
+                  String(nutrient.dailyValue)
+                )}
+              </React.Fragment>
+            ))}
+          </View>
+
+          <View style={{ height: 120 }} />
+        </ScrollView>
+      )}
+
+      {/* Save Button */}
+      <View style={styles.buttonContainer}>
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving || loading}>
+          <Text style={styles.saveButtonText}>{saving ? 'Saving...' : 'Save Targets'}</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingTop: 24,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginBottom: 8,
+  },
+  inputRow: {
+    marginTop: 12,
+  },
+  inputLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  input: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 20,
+    color: colors.text,
+    paddingVertical: 8,
+  },
+  unitText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 16,
+    color: colors.textTertiary,
+    marginLeft: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  switchLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.text,
+  },
+  buttonContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: colors.background,
+    paddingHorizontal: 20,
+    paddingVertical: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 20,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  saveButton: {
+    backgroundColor: colors.textSecondary,
+    borderRadius: 25,
+    paddingVertical: 16,
+    alignItems: 'center',
+    shadowColor: colors.shadow,
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  saveButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: '#FFFFFF',
+  },
+});
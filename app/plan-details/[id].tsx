@@ -11,13 +11,30 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ArrowLeft, Calendar, Clock, User, CreditCard as Edit3, Trash2, Copy, Play, Pause, CircleCheck as CheckCircle, X, Save, MoreHorizontal, Target, Activity } from 'lucide-react-native';
+import { ArrowLeft, Calendar, Clock, User, CreditCard as Edit3, Trash2, Copy, Play, Pause, CircleCheck as CheckCircle, X, Save, MoreHorizontal, Target, Activity, RefreshCw } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router, useLocalSearchParams } from 'expo-router';
-import { Client, DayOfWeek } from '@/types/workout';
-import { WorkoutPlan, getWorkoutPlan, getTrainerClients, getWorkoutTemplatesForPlans } from '@/lib/planDatabase';
-
-const daysOfWeek: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+import { Client, DayOfWeek, PlanSession } from '@/types/workout';
+import {
+  WorkoutPlan,
+  getWorkoutPlan,
+  getPlanSessions,
+  getTrainerClients,
+  getWorkoutTemplatesForPlans,
+  regeneratePlanSessions,
+} from '@/lib/planDatabase';
+import {
+  DAYS_OF_WEEK,
+  ScheduleInput,
+  countWorkoutDays,
+  generateSchedule,
+  getWeekLayout,
+  groupScheduleByWeek,
+  parseScheduleData,
+  toDateString,
+  weekOfPlan,
+} from '@/lib/scheduleEngine';
+import PlanCalendarPreview from '@/components/plans/PlanCalendarPreview';
 
 export default function PlanDetailsScreen() {
   const colorScheme = useColorScheme();
@@ -31,6 +48,9 @@ export default function PlanDetailsScreen() {
   const [loading, setLoading] = useState(true);
   const [showNotesModal, setShowNotesModal] = useState(false);
   const [notes, setNotes] = useState('');
+  const [sessions, setSessions] = useState<PlanSession[]>([]);
+  const [showPreview, setShowPreview] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
 
   useEffect(() => {
     loadPlanDetails();
@@ -41,6 +61,7 @@ export default function PlanDetailsScreen() {
       const planData = await getWorkoutPlan(id as string);
       if (planData) {
         setPlan(planData);
+        setSessions(await getPlanSessions(planData.id));
 
         const clients = await getTrainerClients();
         const clientData = clients.find(c => c.id === planData.client_id) || null;
@@ -110,9 +131,33 @@ export default function PlanDetailsScreen() {
     }
   };
 
+  const scheduleInput: ScheduleInput | null = plan
+    ? {
+        schedule_type: plan.schedule_type,
+        schedule_data: parseScheduleData(plan.schedule_data),
+        start_date: plan.start_date,
+        end_date: plan.end_date,
+      }
+    : null;
+
+  // The layout in use this week, or the first week's before the plan starts
+  const getCurrentWeekLayout = () => {
+    if (!scheduleInput) return null;
+    const today = toDateString(new Date());
+    return getWeekLayout(scheduleInput, Math.max(weekOfPlan(scheduleInput.start_date, today), 1));
+  };
+
   const getWorkoutsPerWeek = (): number => {
-    if (!plan || !plan.schedule_data) return 0;
-    return Object.values(plan.schedule_data).filter(Boolean).length;
+    if (!scheduleInput) return 0;
+    const { weeks, custom } = scheduleInput.schedule_data;
+    if (scheduleInput.schedule_type === 'custom') {
+      const planWeeks = weekOfPlan(scheduleInput.start_date, scheduleInput.end_date);
+      return Math.round(custom.filter(workout => workout.templateId).length / planWeeks);
+    }
+    if (scheduleInput.schedule_type === 'weekly') {
+      return countWorkoutDays(weeks[0]);
+    }
+    return Math.round(weeks.reduce((sum, week) => sum + countWorkoutDays(week), 0) / weeks.length);
   };
 
   const getScheduleType = (): string => {
@@ -125,8 +170,7 @@ export default function PlanDetailsScreen() {
     
     // Otherwise, determine from schedule data
     if (plan.schedule_data) {
-      const workoutDays = Object.values(plan.schedule_data).filter(Boolean).length;
-      return `${workoutDays}x per week`;
+      return `${getWorkoutsPerWeek()}x per week`;
     }
     
     return 'Custom schedule';
@@ -136,6 +180,10 @@ export default function PlanDetailsScreen() {
     router.push(`/create-plan?edit=${plan?.id}`);
   };
 
+  const handleRearrangeWeek = () => {
+    router.push(`/rearrange-workouts?planId=${plan?.id}`);
+  };
+
   const handleDuplicatePlan = () => {
     router.push(`/create-plan?duplicate=${plan?.id}`);
   };
@@ -160,12 +208,31 @@ export default function PlanDetailsScreen() {
   };
 
   const handleStartWorkout = (day: DayOfWeek) => {
-    const templateId = plan?.schedule_data?.[day];
+    const templateId = getCurrentWeekLayout()?.[day];
     if (templateId) {
       router.push(`/start-workout/${templateId}`);
     }
   };
 
+  // Rebuilds upcoming sessions from the saved schedule, e.g. after blackout
+  // dates changed; completed and skipped sessions stay as they are
+  const handleRegenerate = async () => {
+    if (!plan || !scheduleInput) return;
+
+    try {
+      setRegenerating(true);
+      await regeneratePlanSessions(plan, generateSchedule(scheduleInput, sessions).sessions);
+      setSessions(await getPlanSessions(plan.id));
+      setShowPreview(false);
+      Alert.alert('Success', 'Plan sessions regenerated');
+    } catch (error) {
+      console.error('Error regenerating plan sessions:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to regenerate sessions');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
   const handleSaveNotes = () => {
     // TODO: Implement save notes functionality
     Alert.alert('Success', 'Notes saved successfully');
@@ -214,6 +281,7 @@ export default function PlanDetailsScreen() {
             [
               { text: 'Cancel', style: 'cancel' },
               { text: 'Edit Plan', onPress: handleEditPlan },
+              { text: 'Rearrange This Week', onPress: handleRearrangeWeek },
               { text: 'Duplicate Plan', onPress: handleDuplicatePlan },
               { text: 'Delete Plan', style: 'destructive', onPress: handleDeletePlan },
             ]
@@ -261,37 +329,53 @@ export default function PlanDetailsScreen() {
         </View>
 
         {/* Weekly Schedule */}
-        <View style={styles.scheduleCard}>
-          <Text style={styles.scheduleTitle}>Weekly Schedule</Text>
+        {plan.schedule_type !== 'custom' && (
+          <View style={styles.scheduleCard}>
+            <Text style={styles.scheduleTitle}>
+              {plan.schedule_type === 'monthly' ? 'This Week' : 'Weekly Schedule'}
+            </Text>
           
-          {daysOfWeek.map((day) => {
-            const templateId = plan.schedule_data?.[day];
-            const hasWorkout = templateId !== null && templateId !== undefined;
+            {DAYS_OF_WEEK.map((day) => {
+              const templateId = getCurrentWeekLayout()?.[day] ?? null;
+              const hasWorkout = templateId !== null;
             
-            return (
-              <View key={day} style={styles.dayRow}>
-                <View style={styles.dayInfo}>
-                  <Text style={styles.dayName}>{day}</Text>
-                  <Text style={[
-                    styles.workoutName,
-                    !hasWorkout && styles.restDay
-                  ]}>
-                    {getTemplateName(templateId)}
-                  </Text>
-                </View>
+              return (
+                <View key={day} style={styles.dayRow}>
+                  <View style={styles.dayInfo}>
+                    <Text style={styles.dayName}>{day}</Text>
+                    <Text style={[
+                      styles.workoutName,
+                      !hasWorkout && styles.restDay
+                    ]}>
+                      {getTemplateName(templateId)}
+                    </Text>
+                  </View>
                 
-                {hasWorkout && (
-                  <TouchableOpacity
-                    style={styles.startButton}
-                    onPress={() => handleStartWorkout(day)}
-                  >
-                    <Play size={16} color={colors.primary} />
-                    <Text style={styles.startButtonText}>Start</Text>
-                  </TouchableOpacity>
-                )}
-              </View>
-            );
-          })}
+                  {hasWorkout && (
+                    <TouchableOpacity
+                      style={styles.startButton}
+                      onPress={() => handleStartWorkout(day)}
+                    >
+                      <Play size={16} color={colors.primary} />
+                      <Text style={styles.startButtonText}>Start</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Generated Calendar */}
+        <View style={styles.scheduleCard}>
+          <Text style={styles.scheduleTitle}>Calendar</Text>
+          <Text style={styles.calendarText}>
+            Preview every session the schedule generates, including deload weeks and blackout dates, and regenerate upcoming sessions from it.
+          </Text>
+          <TouchableOpacity style={styles.previewButton} onPress={() => setShowPreview(true)}>
+            <Calendar size={16} color={colors.primary} />
+            <Text style={styles.startButtonText}>Preview Calendar</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Progress Overview */}
@@ -335,6 +419,44 @@ export default function PlanDetailsScreen() {
         <View style={{ height: 100 }} />
       </ScrollView>
 
+      {/* Calendar Preview Modal */}
+      <Modal
+        visible={showPreview}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowPreview(false)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowPreview(false)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Calendar Preview</Text>
+            <TouchableOpacity onPress={handleRegenerate} disabled={regenerating}>
+              {regenerating ? (
+                <ActivityIndicator color={colors.primary} />
+              ) : (
+                <RefreshCw size={24} color={colors.primary} />
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {showPreview && scheduleInput && (
+            <ScrollView style={styles.modalContent} showsVerticalScrollIndicator={false}>
+              <Text style={styles.calendarText}>
+                Tap the refresh button to replace upcoming sessions with this calendar.
+              </Text>
+              <PlanCalendarPreview
+                weeks={groupScheduleByWeek(scheduleInput, generateSchedule(scheduleInput, sessions))}
+                getTemplateName={getTemplateName}
+                keptCount={sessions.filter(session => session.status !== 'scheduled').length}
+              />
+              <View style={{ height: 40 }} />
+            </ScrollView>
+          )}
+        </SafeAreaView>
+      </Modal>
+
       {/* Notes Modal */}
       <Modal
         visible={showNotesModal}
@@ -562,6 +684,21 @@ const createStyles = (colors: any) => StyleSheet.create({
     paddingHorizontal: 12,
     paddingVertical: 6,
   },
+  previewButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  calendarText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
   startButtonText: {
     fontFamily: 'Inter-SemiBold',
     fontSize: 12,
@@ -394,7 +394,7 @@ export default function ProgressPhotoScreen() {
           tags: newPhoto.tags,
           pose: newPhoto.pose,
           notes: newPhoto.notes,
-          mood: newPhoto.mood
+          mood: newPhoto.mood ?? undefined
         });
       } else {
         // Add new photo
@@ -409,7 +409,7 @@ export default function ProgressPhotoScreen() {
           tags: newPhoto.tags,
           pose: newPhoto.pose,
           notes: newPhoto.notes,
-          mood: newPhoto.mood
+          mood: newPhoto.mood ?? undefined
         });
       }
       
@@ -11,25 +11,34 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ArrowLeft, Menu } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
-import { router } from 'expo-router';
-import { WorkoutPlan, WorkoutTemplate, DayOfWeek } from '@/types/workout';
-import { getClientPlans, savePlan } from '@/utils/storage';
+import { router, useLocalSearchParams } from 'expo-router';
+import { WorkoutPlan, DayOfWeek } from '@/types/workout';
 import { getWeekDates } from '@/utils/workoutUtils';
-import { getWorkoutTemplateById } from '@/lib/planDatabase';
+import {
+  PlanSessionWithTemplate,
+  getActiveClientPlan,
+  getPlanSessionsInRange,
+  getWorkoutPlan,
+  movePlanSessions,
+} from '@/lib/planDatabase';
+import { syncWorkoutReminders } from '@/lib/workoutReminders';
 
 interface WeeklyWorkout {
   date: string;
   dayName: string;
   dayNumber: number;
   dayShort: string;
-  template: WorkoutTemplate | null;
-  templateId: string | null;
+  dayOfWeek: DayOfWeek;
+  session: PlanSessionWithTemplate | null;
+  template: PlanSessionWithTemplate['template'];
 }
 
 export default function RearrangeWorkoutsScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  // Trainers open this for a client's plan; clients rearrange their active plan
+  const { planId } = useLocalSearchParams<{ planId?: string }>();
 
   const [weeklyWorkouts, setWeeklyWorkouts] = useState<WeeklyWorkout[]>([]);
   const [currentPlan, setCurrentPlan] = useState<WorkoutPlan | null>(null);
@@ -41,50 +50,35 @@ export default function RearrangeWorkoutsScreen() {
 
   useEffect(() => {
     loadWeeklySchedule();
-  }, []);
+  }, [planId]);
 
   const loadWeeklySchedule = async () => {
     try {
-      const clientId = 'client-1'; // TODO: Get from user context
-      const plans = await getClientPlans(clientId);
-      
-      // Find active plan for this week
-      const today = new Date();
-      const todayString = today.toISOString().split('T')[0];
-      const activePlan = plans.find(plan => 
-        plan.startDate <= todayString && plan.endDate >= todayString
-      );
+      const activePlan = planId ? await getWorkoutPlan(planId) : await getActiveClientPlan();
 
       if (activePlan) {
         setCurrentPlan(activePlan);
         
         // Generate this week's schedule
-        const weekDates = getWeekDates(today);
-        const weeklySchedule: WeeklyWorkout[] = [];
-        
+        const weekDates = getWeekDates(new Date());
         const dayNames: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
         const shortDayNames = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'];
+
+        const sessions = await getPlanSessionsInRange(activePlan.id, weekDates.Monday, weekDates.Sunday);
         
-        for (let i = 0; i < 7; i++) {
-          const dayName = dayNames[i];
+        const weeklySchedule: WeeklyWorkout[] = dayNames.map((dayName, i) => {
           const date = weekDates[dayName];
-          const dayNumber = new Date(date).getDate();
-          const templateId = activePlan.schedule[dayName];
-          
-          let template = null;
-          if (templateId) {
-            template = await getWorkoutTemplateById(templateId);
-          }
-          
-          weeklySchedule.push({
+          const session = sessions.find(s => s.scheduled_date === date && s.status === 'scheduled') || null;
+          return {
             date,
             dayName: shortDayNames[i],
-            dayNumber,
+            dayNumber: new Date(date).getDate(),
             dayShort: dayName.substring(0, 3).toUpperCase(),
-            template,
-            templateId
-          });
-        }
+            dayOfWeek: dayName,
+            session,
+            template: session?.template || null,
+          };
+        });
         
         setWeeklyWorkouts(weeklySchedule);
       }
@@ -117,17 +111,17 @@ export default function RearrangeWorkoutsScreen() {
       const selectedWorkout = newWorkouts[selectedItem];
       const targetWorkout = newWorkouts[index];
       
-      // Swap the template IDs and templates
+      // Swap the sessions, each day keeps its date
       newWorkouts[selectedItem] = {
         ...selectedWorkout,
+        session: targetWorkout.session,
         template: targetWorkout.template,
-        templateId: targetWorkout.templateId,
       };
       
       newWorkouts[index] = {
         ...targetWorkout,
+        session: selectedWorkout.session,
         template: selectedWorkout.template,
-        templateId: selectedWorkout.templateId,
       };
       
       setWeeklyWorkouts(newWorkouts);
@@ -143,22 +137,17 @@ export default function RearrangeWorkoutsScreen() {
     if (!currentPlan) return;
 
     try {
-      const updatedSchedule: { [key: string]: string | null } = {};
-      const dayNames: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-      
-      weeklyWorkouts.forEach((workout, index) => {
-        const dayName = dayNames[index];
-        updatedSchedule[dayName] = workout.templateId;
-      });
-
-      const updatedPlan: WorkoutPlan = {
-        ...currentPlan,
-        schedule: updatedSchedule,
-        updatedAt: new Date().toISOString(),
-      };
+      const moves = weeklyWorkouts
+        .filter(workout => workout.session && workout.session.scheduled_date !== workout.date)
+        .map(workout => ({
+          id: workout.session!.id,
+          scheduled_date: workout.date,
+          day_of_week: workout.dayOfWeek,
+        }));
 
-      await savePlan(updatedPlan);
-      setCurrentPlan(updatedPlan);
+      await movePlanSessions(moves);
+      // Reschedules this device's reminders when the client rearranges their own plan
+      syncWorkoutReminders();
       
       Alert.alert('Success', 'Schedule updated successfully!', [
         { text: 'OK', onPress: () => router.back() }
@@ -30,6 +30,11 @@ import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router } from 'expo-router';
 import { scheduleGoalNotifications } from '@/utils/notificationService';
 import { createGoal } from '@/lib/todayQueries';
+import { GOAL_SOURCES, convertGoalInput, getGoalDisplayUnit, getGoalUnit } from '@/lib/goalSources';
+import { METRIC_DEFINITIONS } from '@/lib/metricRegistry';
+import { useUnits } from '@/contexts/UnitsContext';
+import { GoalSourceType } from '@/types/goals';
+import { MetricType } from '@/types/metrics';
 
 interface FitnessGoal {
   id: string;
@@ -62,6 +67,9 @@ const goalCategories = [
   { id: 'custom', name: 'Custom Goal', emoji: '🎯', unit: '' },
 ];
 
+// Level metrics only; summed ones like steps have their own source
+const goalMetrics = METRIC_DEFINITIONS.filter(definition => definition.aggregation === 'last');
+
 const emojiOptions = [
   '🎯', '🏆', '💪', '🔥', '⚡', '🌟', '🚀', '💎', '👑', '🎉',
   '🏃‍♂️', '🏋️‍♂️', '🧘‍♀️', '🏊‍♂️', '🚴‍♂️', '⚖️', '📈', '📊', '⏰', '🎪'
@@ -157,6 +165,7 @@ export default function SetFitnessGoalScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
 
   const [goalTitle, setGoalTitle] = useState('');
   const [goalDescription, setGoalDescription] = useState('');
@@ -164,6 +173,8 @@ export default function SetFitnessGoalScreen() {
   const [targetDate, setTargetDate] = useState(new Date());
   const [targetValue, setTargetValue] = useState('');
   const [currentValue, setCurrentValue] = useState('');
+  const [sourceType, setSourceType] = useState<GoalSourceType>('manual');
+  const [sourceMetric, setSourceMetric] = useState<MetricType>('weight');
   const [selectedEmoji, setSelectedEmoji] = useState('🎯');
   const [reminders, setReminders] = useState({
     onFinish: true,
@@ -199,6 +210,10 @@ export default function SetFitnessGoalScreen() {
     });
   };
 
+  const isLinked = sourceType !== 'manual';
+  const sourceFields = { source_type: sourceType, source_metric: sourceType === 'metric' ? sourceMetric : null };
+  const valueUnit = isLinked ? getGoalDisplayUnit(sourceFields, unitSystem) : selectedCategory.unit;
+
   const handleSaveGoal = async () => {
     if (!goalTitle.trim()) {
       Alert.alert('Error', 'Please enter a goal title');
@@ -210,17 +225,35 @@ export default function SetFitnessGoalScreen() {
       return;
     }
 
+    const target = parseFloat(targetValue);
+    if (isLinked && !isFinite(target)) {
+      Alert.alert('Error', 'Please enter a target value');
+      return;
+    }
+
     setIsSchedulingNotifications(true);
 
     try {
-      // Save goal to Supabase
+      // Linked goals store values in canonical units and get their current value from the engine
+      const current = parseFloat(currentValue);
       const newGoal = await createGoal({
         title: goalTitle.trim(),
         description: goalDescription.trim(),
         emoji: selectedEmoji,
         target_date: targetDate.toISOString(),
         category: selectedCategory.id,
-        // Optionally add progress_percentage, targetValue, currentValue, etc.
+        ...(isLinked
+          ? {
+              source_type: sourceType,
+              source_metric: sourceType === 'metric' ? sourceMetric : null,
+              target_value: convertGoalInput(sourceFields, target, unitSystem),
+              unit: getGoalUnit(sourceFields),
+            }
+          : {
+              target_value: isFinite(target) ? target : null,
+              current_value: isFinite(current) ? current : null,
+              unit: selectedCategory.unit || undefined,
+            }),
       });
 
       if (!newGoal) {
@@ -443,8 +476,46 @@ export default function SetFitnessGoalScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Progress Source */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Track Progress With</Text>
+          <View style={styles.chipRow}>
+            {[{ id: 'manual' as GoalSourceType, name: 'Manual updates' }, ...Object.values(GOAL_SOURCES).map(source => source!)].map(source => (
+              <TouchableOpacity
+                key={source.id}
+                style={[styles.chip, sourceType === source.id && styles.selectedChip]}
+                onPress={() => setSourceType(source.id)}
+              >
+                <Text style={[styles.chipText, sourceType === source.id && styles.selectedChipText]}>
+                  {source.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {sourceType === 'metric' && (
+            <View style={[styles.chipRow, { marginTop: 12 }]}>
+              {goalMetrics.map(metric => (
+                <TouchableOpacity
+                  key={metric.id}
+                  style={[styles.chip, sourceMetric === metric.id && styles.selectedChip]}
+                  onPress={() => setSourceMetric(metric.id)}
+                >
+                  <Text style={[styles.chipText, sourceMetric === metric.id && styles.selectedChipText]}>
+                    {metric.icon} {metric.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          {isLinked && (
+            <Text style={styles.sourceHint}>
+              {GOAL_SOURCES[sourceType]?.description}. Progress updates automatically as you log.
+            </Text>
+          )}
+        </View>
+
         {/* Target Value (if applicable) */}
-        {selectedCategory.unit && (
+        {!!valueUnit && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Target Value</Text>
             <View style={styles.valueInputContainer}>
@@ -456,13 +527,13 @@ export default function SetFitnessGoalScreen() {
                 placeholderTextColor={colors.textTertiary}
                 keyboardType="numeric"
               />
-              <Text style={styles.unitText}>{selectedCategory.unit}</Text>
+              <Text style={styles.unitText}>{valueUnit}</Text>
             </View>
           </View>
         )}
 
         {/* Current Value (if applicable) */}
-        {selectedCategory.unit && (
+        {!isLinked && !!selectedCategory.unit && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Current Value</Text>
             <View style={styles.valueInputContainer}>
@@ -748,6 +819,37 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 16,
     color: colors.text,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  selectedChip: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  sourceHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 12,
+  },
   valueInputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -10,12 +10,27 @@ import {
   Platform,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ArrowLeft } from 'lucide-react-native';
+import { ArrowLeft, Calendar, RefreshCw } from 'lucide-react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router } from 'expo-router';
-// Make sure saveMacroGoal is exported from '@/lib/database'
-import { saveMacroGoal } from '@/lib/database';
-// If 'saveMacroGoal' does not exist, replace with the correct export or create it in '@/lib/database'
+import { useUnits } from '@/contexts/UnitsContext';
+import { fromCanonical, getPreferredUnit, toCanonical } from '@/lib/units';
+import { getCurrentUserProfile } from '@/lib/database';
+import { NutritionGoals, getNutritionGoals, upsertNutritionGoals } from '@/lib/foodJournal';
+import {
+  ACTIVITY_LEVELS,
+  GOAL_RATES,
+  GOAL_TYPES,
+  MACRO_STRATEGIES,
+  RECALCULATION_THRESHOLD_KG,
+  TargetInputs,
+  ageOn,
+  calculateTargets,
+  getLatestWeight,
+  saveCalculatedTargets,
+} from '@/lib/nutritionTargets';
+import { ActivityLevel, MacroStrategy, Sex, WeightGoalType } from '@/types/nutrition';
 
 interface MacroGoal {
   protein: number;
@@ -24,10 +39,37 @@ interface MacroGoal {
   calories: number;
 }
 
+type Mode = 'calculate' | 'manual';
+
+const toDateString = (date: Date) =>
+  [date.getFullYear(), String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0')].join('-');
+
 export default function SetMacrosGoalScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
+  const weightUnit = getPreferredUnit('mass', unitSystem);
+  const heightUnit = getPreferredUnit('length', unitSystem);
+  // Grams per kg of body weight, restated per unit of the user's weight unit
+  const perBodyWeight = (gramsPerKg: number) => Number(toCanonical(gramsPerKg, 'mass', weightUnit).toFixed(2));
+  const displayWeight = (kg: number) => Number(fromCanonical(kg, 'mass', weightUnit).toFixed(1));
+
+  const [mode, setMode] = useState<Mode>('calculate');
+  const [goals, setGoals] = useState<NutritionGoals | null>(null);
+  const [latestWeightKg, setLatestWeightKg] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Calculator inputs. Height and weight are typed in the user's units.
+  const [sex, setSex] = useState<Sex | null>(null);
+  const [dateOfBirth, setDateOfBirth] = useState<string | null>(null);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [height, setHeight] = useState('');
+  const [weight, setWeight] = useState('');
+  const [activityLevel, setActivityLevel] = useState<ActivityLevel>('moderate');
+  const [goalType, setGoalType] = useState<WeightGoalType>('maintain');
+  const [goalRate, setGoalRate] = useState(0.5);
+  const [macroStrategy, setMacroStrategy] = useState<MacroStrategy>('balanced');
 
   const [selectedUnit, setSelectedUnit] = useState<'percentage' | 'grams'>('grams');
   const [macroGoals, setMacroGoals] = useState<MacroGoal>({
@@ -44,6 +86,67 @@ export default function SetMacrosGoalScreen() {
     calories: '',
   });
 
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    const [profile, goalsData] = await Promise.all([getCurrentUserProfile(), getNutritionGoals()]);
+    setGoals(goalsData);
+    if (profile) {
+      const weightKg = await getLatestWeight(profile);
+      setLatestWeightKg(weightKg);
+      setSex(profile.sex || null);
+      setDateOfBirth(profile.date_of_birth || null);
+      if (profile.height_cm) setHeight(String(Number(fromCanonical(profile.height_cm, 'length', heightUnit).toFixed(1))));
+      if (weightKg) setWeight(String(displayWeight(weightKg)));
+      if (profile.activity_level) setActivityLevel(profile.activity_level);
+    }
+    if (goalsData) {
+      if (goalsData.goal_type) setGoalType(goalsData.goal_type);
+      if (goalsData.goal_rate_kg_per_week) setGoalRate(Number(goalsData.goal_rate_kg_per_week));
+      if (goalsData.macro_strategy) setMacroStrategy(goalsData.macro_strategy);
+      setMode(goalsData.target_source === 'manual' ? 'manual' : 'calculate');
+      const current = {
+        protein: Number(goalsData.daily_protein_g) || 0,
+        carbs: Number(goalsData.daily_carbs_g) || 0,
+        fat: Number(goalsData.daily_fat_g) || 0,
+        calories: Number(goalsData.daily_calories) || 0,
+      };
+      setMacroGoals(current);
+      setInputValues({
+        protein: String(current.protein),
+        carbs: String(current.carbs),
+        fat: String(current.fat),
+        calories: String(current.calories),
+      });
+    }
+  };
+
+  const parsedHeight = parseFloat(height);
+  const parsedWeight = parseFloat(weight);
+  const calculatorInputs: TargetInputs | null =
+    sex && dateOfBirth && parsedHeight > 0 && parsedWeight > 0
+      ? {
+          sex,
+          age: ageOn(dateOfBirth),
+          height_cm: toCanonical(parsedHeight, 'length', heightUnit),
+          weight_kg: toCanonical(parsedWeight, 'mass', weightUnit),
+          activity_level: activityLevel,
+          goal_type: goalType,
+          goal_rate_kg_per_week: goalRate,
+          macro_strategy: macroStrategy,
+        }
+      : null;
+  const calculated = calculatorInputs ? calculateTargets(calculatorInputs) : null;
+
+  // Calculated targets that a later weigh-in has made stale
+  const weightChanged =
+    goals?.target_source === 'calculated' &&
+    goals.calculated_weight_kg != null &&
+    latestWeightKg !== null &&
+    Math.abs(latestWeightKg - Number(goals.calculated_weight_kg)) >= RECALCULATION_THRESHOLD_KG;
+
   const handleInputChange = (field: keyof MacroGoal, value: string) => {
     // Only allow numbers and decimal points
     const numericValue = value.replace(/[^0-9.]/g, '');
@@ -67,7 +170,37 @@ export default function SetMacrosGoalScreen() {
     return Math.round(calculatedCalories);
   };
 
+  const handleDateChange = (event: any, date?: Date) => {
+    setShowDatePicker(false);
+    if (date) setDateOfBirth(toDateString(date));
+  };
+
+  const handleSaveCalculated = async () => {
+    if (!calculatorInputs || !dateOfBirth) {
+      Alert.alert('Error', 'Please fill in your sex, date of birth, height and weight');
+      return;
+    }
+
+    setSaving(true);
+    const saved = await saveCalculatedTargets(calculatorInputs, dateOfBirth);
+    setSaving(false);
+    if (!saved) {
+      Alert.alert('Error', 'Failed to save macro goals.');
+      return;
+    }
+    Alert.alert(
+      'Success',
+      'Your macro goals have been set successfully!',
+      [{ text: 'OK', onPress: () => router.back() }]
+    );
+  };
+
   const handleSetGoal = async () => {
+    if (mode === 'calculate') {
+      await handleSaveCalculated();
+      return;
+    }
+
     if (macroGoals.protein === 0 && macroGoals.carbs === 0 && macroGoals.fat === 0 && macroGoals.calories === 0) {
       Alert.alert('Error', 'Please set at least one macro goal');
       return;
@@ -75,28 +208,37 @@ export default function SetMacrosGoalScreen() {
 
     // If calories is 0 but macros are set, calculate calories
     let finalCalories = macroGoals.calories;
-    if (finalCalories === 0 && (macroGoals.protein > 0 || macroGoals.carbs > 0 || macroGoals.fat > 0)) {
+    if (finalCalories === 0 && selectedUnit === 'grams' && (macroGoals.protein > 0 || macroGoals.carbs > 0 || macroGoals.fat > 0)) {
       finalCalories = calculateCaloriesFromMacros();
     }
+    if (selectedUnit === 'percentage' && finalCalories === 0) {
+      Alert.alert('Error', 'Please set total calories to split by percentage');
+      return;
+    }
+
+    // Targets are stored in grams; percentages are shares of the calories
+    const toGrams = (value: number, kcalPerGram: number) =>
+      selectedUnit === 'percentage' ? Math.round((finalCalories * value) / 100 / kcalPerGram) : value;
 
-    const goalData = {
-      protein: macroGoals.protein,
-      carbs: macroGoals.carbs,
-      fat: macroGoals.fat,
-      calories: finalCalories,
-      unit: selectedUnit,
-    };
-
-    try {
-      await saveMacroGoal(goalData);
-      Alert.alert(
-        'Success',
-        'Your macro goals have been set successfully!',
-        [{ text: 'OK', onPress: () => router.back() }]
-      );
-    } catch (e) {
+    setSaving(true);
+    const saved = await upsertNutritionGoals({
+      daily_calories: Math.round(finalCalories),
+      daily_protein_g: toGrams(macroGoals.protein, 4),
+      daily_carbs_g: toGrams(macroGoals.carbs, 4),
+      daily_fat_g: toGrams(macroGoals.fat, 9),
+      target_source: 'manual',
+    });
+    setSaving(false);
+
+    if (!saved) {
       Alert.alert('Error', 'Failed to save macro goals.');
+      return;
     }
+    Alert.alert(
+      'Success',
+      'Your macro goals have been set successfully!',
+      [{ text: 'OK', onPress: () => router.back() }]
+    );
   };
 
   const renderMacroInput = (
@@ -128,6 +270,127 @@ export default function SetMacrosGoalScreen() {
     </View>
   );
 
+  const renderChips = <T extends string | number>(
+    options: { id: T; label: string }[],
+    selected: T | null,
+    onSelect: (id: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={String(option.id)}
+          style={[styles.chip, selected === option.id && styles.activeChip]}
+          onPress={() => onSelect(option.id)}
+        >
+          <Text style={[styles.chipText, selected === option.id && styles.activeChipText]}>{option.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderCalculator = () => (
+    <View style={styles.calculator}>
+      {weightChanged && latestWeightKg !== null && (
+        <View style={styles.recalculateBanner}>
+          <RefreshCw size={18} color={colors.primary} />
+          <Text style={styles.recalculateText}>
+            Your targets were calculated at {displayWeight(Number(goals?.calculated_weight_kg))} {weightUnit}. You now
+            weigh {displayWeight(latestWeightKg)} {weightUnit}; save to update them.
+          </Text>
+        </View>
+      )}
+
+      <Text style={styles.sectionTitle}>About You</Text>
+      <Text style={styles.fieldLabel}>Sex</Text>
+      {renderChips<Sex>([{ id: 'female', label: 'Female' }, { id: 'male', label: 'Male' }], sex, setSex)}
+
+      <Text style={styles.fieldLabel}>Date of birth</Text>
+      <TouchableOpacity style={styles.fieldInput} onPress={() => setShowDatePicker(true)}>
+        <Calendar size={18} color={colors.textSecondary} />
+        <Text style={[styles.fieldInputText, !dateOfBirth && { color: colors.textTertiary }]}>
+          {dateOfBirth
+            ? `${new Date(`${dateOfBirth}T00:00:00`).toLocaleDateString()} (${ageOn(dateOfBirth)} years)`
+            : 'Select date'}
+        </Text>
+      </TouchableOpacity>
+
+      <View style={styles.fieldRow}>
+        <View style={styles.fieldHalf}>
+          <Text style={styles.fieldLabel}>Height ({heightUnit})</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={height}
+            onChangeText={setHeight}
+            placeholder="0"
+            placeholderTextColor={colors.textTertiary}
+            keyboardType="decimal-pad"
+          />
+        </View>
+        <View style={styles.fieldHalf}>
+          <Text style={styles.fieldLabel}>Weight ({weightUnit})</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={weight}
+            onChangeText={setWeight}
+            placeholder="0"
+            placeholderTextColor={colors.textTertiary}
+            keyboardType="decimal-pad"
+          />
+        </View>
+      </View>
+
+      <Text style={styles.sectionTitle}>Activity Level</Text>
+      {ACTIVITY_LEVELS.map(level => (
+        <TouchableOpacity
+          key={level.id}
+          style={[styles.optionCard, activityLevel === level.id && styles.activeOptionCard]}
+          onPress={() => setActivityLevel(level.id)}
+        >
+          <Text style={styles.optionTitle}>{level.label}</Text>
+          <Text style={styles.optionDescription}>{level.description}</Text>
+        </TouchableOpacity>
+      ))}
+
+      <Text style={styles.sectionTitle}>Goal</Text>
+      {renderChips(GOAL_TYPES, goalType, setGoalType)}
+      {goalType !== 'maintain' && (
+        <>
+          <Text style={styles.fieldLabel}>Rate per week</Text>
+          {renderChips(
+            GOAL_RATES.map(rate => ({ id: rate, label: `${displayWeight(rate)} ${weightUnit}` })),
+            goalRate,
+            setGoalRate
+          )}
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>Macro Split</Text>
+      {MACRO_STRATEGIES.map(strategy => (
+        <TouchableOpacity
+          key={strategy.id}
+          style={[styles.optionCard, macroStrategy === strategy.id && styles.activeOptionCard]}
+          onPress={() => setMacroStrategy(strategy.id)}
+        >
+          <Text style={styles.optionTitle}>{strategy.label}</Text>
+          <Text style={styles.optionDescription}>{strategy.description}</Text>
+        </TouchableOpacity>
+      ))}
+
+      {calculated && (
+        <View style={styles.calculatedInfo}>
+          <Text style={styles.calculatedTitle}>Your daily targets:</Text>
+          <Text style={styles.calculatedCalories}>{calculated.daily_calories} calories</Text>
+          <Text style={styles.calculatedNote}>
+            Protein: {calculated.daily_protein_g}g • Carbs: {calculated.daily_carbs_g}g • Fat: {calculated.daily_fat_g}g
+          </Text>
+          <Text style={styles.calculatedNote}>
+            BMR {calculated.bmr} cal × activity = {calculated.tdee} cal to maintain
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
@@ -139,7 +402,29 @@ export default function SetMacrosGoalScreen() {
         <View style={{ width: 24 }} />
       </View>
 
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {/* Mode Selection */}
+        <View style={styles.unitSelection}>
+          <View style={[styles.unitToggle, styles.modeToggle]}>
+            {([
+              { id: 'calculate', label: 'Calculate' },
+              { id: 'manual', label: 'Enter Manually' },
+            ] as { id: Mode; label: string }[]).map(option => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.unitButton, styles.modeButton, mode === option.id && styles.activeUnitButton]}
+                onPress={() => setMode(option.id)}
+              >
+                <Text style={[styles.unitButtonText, mode === option.id && styles.activeUnitButtonText]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {mode === 'calculate' ? renderCalculator() : (
+          <>
         {/* Unit Selection */}
         <View style={styles.unitSelection}>
           <Text style={styles.sectionTitle}>Select Type</Text>
@@ -229,7 +514,7 @@ export default function SetMacrosGoalScreen() {
         <View style={styles.tipsContainer}>
           <Text style={styles.tipsTitle}>💡 Tips</Text>
           <Text style={styles.tipText}>
-            • Protein: 0.8-1.2g per kg of body weight for general health
+            • Protein: {perBodyWeight(0.8)}-{perBodyWeight(1.2)}g per {weightUnit} of body weight for general health
           </Text>
           <Text style={styles.tipText}>
             • Carbs: 45-65% of total daily calories for active individuals
@@ -238,14 +523,26 @@ export default function SetMacrosGoalScreen() {
             • Fat: 20-35% of total daily calories for optimal health
           </Text>
         </View>
+          </>
+        )}
 
         <View style={{ height: 120 }} />
       </ScrollView>
 
+      {showDatePicker && (
+        <DateTimePicker
+          value={dateOfBirth ? new Date(`${dateOfBirth}T00:00:00`) : new Date(1990, 0, 1)}
+          mode="date"
+          maximumDate={new Date()}
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleDateChange}
+        />
+      )}
+
       {/* Set Goal Button */}
       <View style={styles.buttonContainer}>
-        <TouchableOpacity style={styles.setGoalButton} onPress={handleSetGoal}>
-          <Text style={styles.setGoalButtonText}>Set Goal</Text>
+        <TouchableOpacity style={styles.setGoalButton} onPress={handleSetGoal} disabled={saving}>
+          <Text style={styles.setGoalButtonText}>{saving ? 'Saving...' : 'Set Goal'}</Text>
         </TouchableOpacity>
       </View>
     </SafeAreaView>
@@ -312,6 +609,112 @@ const createStyles = (colors: any) => StyleSheet.create({
   activeUnitButtonText: {
     color: '#FFFFFF',
   },
+  modeToggle: {
+    alignSelf: 'stretch',
+  },
+  modeButton: {
+    flex: 1,
+  },
+  calculator: {
+    paddingHorizontal: 20,
+  },
+  recalculateBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.primary + '15',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    gap: 10,
+  },
+  recalculateText: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.text,
+    lineHeight: 18,
+  },
+  fieldLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  fieldHalf: {
+    flex: 1,
+  },
+  fieldInput: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.text,
+  },
+  fieldInputText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.text,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  activeChip: {
+    backgroundColor: colors.textSecondary,
+    borderColor: colors.textSecondary,
+  },
+  chipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  activeChipText: {
+    color: '#FFFFFF',
+  },
+  optionCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 14,
+    marginBottom: 8,
+  },
+  activeOptionCard: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary + '10',
+  },
+  optionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+  },
+  optionDescription: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
   macroInputs: {
     paddingHorizontal: 20,
   },
@@ -5,25 +5,44 @@ import {
   StyleSheet,
   ScrollView,
   TouchableOpacity,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ArrowLeft, User, Lock, Bell,Target, Smartphone, CircleHelp as HelpCircle, Play, Info, LogOut, ChevronRight } from 'lucide-react-native';
+import { ArrowLeft, User, Lock, Bell,Target, Smartphone, CircleHelp as HelpCircle, Play, Info, LogOut, ChevronRight, Ruler } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router } from 'expo-router';
 import { useUserRole } from '@/contexts/UserContext';
+import { useUnits } from '@/contexts/UnitsContext';
+import { UNIT_SYSTEM_LABELS } from '@/lib/units';
+import { UnitSystem } from '@/types/units';
 
 export default function SettingsScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
   // const { userName, setUserRole } = useUserRole();
-  const { userRole, userName, setUserRole } = useUserRole();
+  const { userRole, userName, clearUserRole } = useUserRole();
+  const { unitSystem, setUnitSystem } = useUnits();
 
   const handleLogout = () => {
-    setUserRole(null);
+    clearUserRole();
     router.replace('/(auth)/login');
   };
 
+  const chooseUnitSystem = () => {
+    Alert.alert('Units', 'Values are always saved in metric and converted for display.', [
+      ...(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map(system => ({
+        text: UNIT_SYSTEM_LABELS[system],
+        onPress: async () => {
+          if (system !== unitSystem && !(await setUnitSystem(system))) {
+            Alert.alert('Error', 'Failed to update units. Please try again.');
+          }
+        },
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
   const settingsItems = [
     {
       id: 'profile',
@@ -44,6 +63,13 @@ export default function SettingsScreen() {
       icon: Bell,
       onPress: () => router.push('/notification-settings'),
     },
+    {
+      id: 'units',
+      title: 'Units',
+      icon: Ruler,
+      value: unitSystem === 'imperial' ? 'Imperial' : 'Metric',
+      onPress: chooseUnitSystem,
+    },
 
        ...(userRole === 'client' ? [{
           id: 'walkthrough',
@@ -108,6 +134,7 @@ export default function SettingsScreen() {
                 )}
                 <Text style={styles.settingTitle}>{item.title}</Text>
               </View>
+              {'value' in item && <Text style={styles.settingValue}>{item.value}</Text>}
               <ChevronRight size={20} color={colors.textTertiary} />
             </TouchableOpacity>
           );
@@ -189,6 +216,12 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 16,
     color: colors.text,
   },
+  settingValue: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginRight: 8,
+  },
   logoutButton: {
     alignItems: 'center',
     paddingVertical: 24,
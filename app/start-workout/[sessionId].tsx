@@ -25,19 +25,25 @@ import {
   RotateCcw
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useUnits } from '@/contexts/UnitsContext';
+import { getPreferredUnit } from '@/lib/units';
+import QuantityInput from '@/components/ui/QuantityInput';
 import { router, useLocalSearchParams } from 'expo-router';
 import { getWorkoutTemplate } from '@/lib/workoutTemplates'; // Import from new lib
 import {
-  getTrainingSession,
-  updateTrainingSessionData,
-  completeTrainingSession
-} from '@/lib/trainingSessionQueries'; // Import from new lib
-import { TrainingSession, WorkoutSet, ActiveExercise, ActiveSet, WorkoutTemplate } from '@/types/workout'; // Import ActiveExercise, ActiveSet, WorkoutTemplate
+  loadTrainingSession,
+  recordTrainingSessionProgress,
+  recordTrainingSessionCompletion
+} from '@/lib/syncEngine';
+import SyncStatusIndicator from '@/components/ui/SyncStatusIndicator';
+import { TrainingSession, WorkoutSession, WorkoutSet, ActiveExercise, ActiveSet, WorkoutTemplate } from '@/types/workout'; // Import ActiveExercise, ActiveSet, WorkoutTemplate
 
 export default function StartWorkoutScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
+  const weightUnit = getPreferredUnit('mass', unitSystem);
   const { sessionId } = useLocalSearchParams();
 
   const [trainingSession, setTrainingSession] = useState<TrainingSession | null>(null);
@@ -70,7 +76,7 @@ export default function StartWorkoutScreen() {
     if (isWorkoutStarted && !isPaused) {
       workoutTimerRef.current = setInterval(() => {
         setWorkoutTime(prev => prev + 1);
-      }, 1000);
+      }, 1000) as unknown as NodeJS.Timeout;
     } else {
       if (workoutTimerRef.current) {
         clearInterval(workoutTimerRef.current);
@@ -94,7 +100,7 @@ export default function StartWorkoutScreen() {
           }
           return prev - 1;
         });
-      }, 1000);
+      }, 1000) as unknown as NodeJS.Timeout;
     } else {
       if (restTimerRef.current) {
         clearInterval(restTimerRef.current);
@@ -111,8 +117,8 @@ export default function StartWorkoutScreen() {
     try {
       setLoading(true);
 
-      // Load training session
-      const session = await getTrainingSession(sessionId as string);
+      // Load training session, falling back to the copy cached on this device
+      const session = await loadTrainingSession(sessionId as string);
       if (!session) {
         Alert.alert('Error', 'Training session not found', [
           { text: 'OK', onPress: () => router.back() }
@@ -240,7 +246,7 @@ export default function StartWorkoutScreen() {
       lastSaved: new Date().toISOString(),
     };
 
-    await updateTrainingSessionData(trainingSession.id, sessionData);
+    await recordTrainingSessionProgress(trainingSession, sessionData);
   };
 
   const generateId = (): string => {
@@ -312,25 +318,42 @@ export default function StartWorkoutScreen() {
     if (!trainingSession) return;
 
     try {
+      const finishedAt = new Date();
       const completionData = {
         exercises_completed: exercises,
         trainer_notes: workoutNotes.trim() || undefined,
         session_rating: sessionRating || undefined,
-        duration: Math.round(workoutTime / 60),
-        completed_at: new Date().toISOString(),
+        duration_minutes: Math.round(workoutTime / 60),
+        completed_at: finishedAt.toISOString(),
       };
 
-      const success = await completeTrainingSession(trainingSession.id, completionData);
+      // Per-exercise record for workout_sessions/workout_logs
+      const workoutSession: WorkoutSession = {
+        id: generateId(),
+        client_id: trainingSession.client_id,
+        template_id: trainingSession.template_id,
+        plan_id: trainingSession.plan_id,
+        date: finishedAt.toISOString().split('T')[0],
+        start_time: new Date(finishedAt.getTime() - workoutTime * 1000).toISOString(),
+        end_time: finishedAt.toISOString(),
+        exercises: exercises.map(e => ({
+          exercise_id: e.exerciseId,
+          notes: e.notes,
+          sets: e.sets,
+        })),
+        notes: workoutNotes.trim() || undefined,
+        completed: true,
+        synced: false,
+      };
 
-      if (success) {
-        Alert.alert(
-          'Workout Complete!',
-          'Great job! Your workout has been saved.',
-          [{ text: 'OK', onPress: () => router.replace('/(tabs)') }]
-        );
-      } else {
-        Alert.alert('Error', 'Failed to save workout session');
-      }
+      // Saved on the device first; the sync engine uploads it once there's a connection
+      await recordTrainingSessionCompletion(trainingSession, completionData, workoutSession);
+
+      Alert.alert(
+        'Workout Complete!',
+        'Great job! Your workout has been saved.',
+        [{ text: 'OK', onPress: () => router.replace('/(tabs)') }]
+      );
     } catch (error) {
       console.error('Error finishing workout:', error);
       Alert.alert('Error', 'Failed to save workout session');
@@ -398,13 +421,14 @@ export default function StartWorkoutScreen() {
           </View>
 
           <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>Weight</Text>
-            <TextInput
+            <Text style={styles.inputLabel}>Weight ({weightUnit})</Text>
+            <QuantityInput
+              quantity="mass"
               style={[styles.setInput, isCompleted && styles.completedInput]}
-              value={set.weight?.toString() || ''}
-              onChangeText={(text) => {
+              value={set.weight}
+              onChangeValue={(weight) => {
                 const updatedExercises = [...exercises];
-                updatedExercises[currentExerciseIndex].sets[setIndex].weight = parseFloat(text) || 0;
+                updatedExercises[currentExerciseIndex].sets[setIndex].weight = weight;
                 setExercises(updatedExercises);
               }}
               keyboardType="numeric"
@@ -491,6 +515,7 @@ export default function StartWorkoutScreen() {
             {template?.name || trainingSession.type || 'Training Session'}
           </Text>
           <Text style={styles.workoutTime}>{formatTime(workoutTime)}</Text>
+          <SyncStatusIndicator />
         </View>
 
         <View style={styles.headerActions}>
@@ -537,7 +562,7 @@ export default function StartWorkoutScreen() {
             <View style={styles.setsHeader}>
               <Text style={styles.setHeaderText}>Set</Text>
               <Text style={styles.setHeaderText}>Reps</Text>
-              <Text style={styles.setHeaderText}>Weight</Text>
+              <Text style={styles.setHeaderText}>Weight ({weightUnit})</Text>
               <Text style={styles.setHeaderText}>Rest</Text>
               <Text style={styles.setHeaderText}>✓</Text>
             </View>
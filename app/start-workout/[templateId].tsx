@@ -22,9 +22,13 @@ import {
   Plus,
   Minus,
   Timer,
-  RotateCcw
+  RotateCcw,
+  TrendingUp
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useUnits } from '@/contexts/UnitsContext';
+import { getPreferredUnit } from '@/lib/units';
+import QuantityInput from '@/components/ui/QuantityInput';
 import { router, useLocalSearchParams } from 'expo-router';
 import { WorkoutTemplate, WorkoutSession, WorkoutSet, WorkoutPlan, TrainingSession, ActiveSet, ActiveExercise } from '@/types/workout';
 import { generateId } from '@/utils/workoutUtils';
@@ -33,13 +37,17 @@ import { saveSession } from '@/utils/storage';
 import { getWorkoutPlan } from '@/lib/planDatabase';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
-import { createWorkoutSession } from '@/lib/workoutSessionQueries';
+import { createWorkoutSession, saveWorkoutLogs } from '@/lib/workoutSessionQueries';
+import { getProgressionSuggestions } from '@/lib/progressionEngine';
+import { getCurrentUserProfile } from '@/lib/database';
 import YouTubePlayer from '@/components/ui/YouTubePlayer';
 
 export default function StartWorkoutScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors((colorScheme as 'light' | 'dark' | null));
   const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
+  const weightUnit = getPreferredUnit('mass', unitSystem);
   const { templateId, planId } = useLocalSearchParams();
   const { user } = useAuth();
 
@@ -139,17 +147,20 @@ export default function StartWorkoutScreen() {
      
       if (loadedTemplate) {
         setTemplate({ ...loadedTemplate, exercises });
-        initializeExercises({ ...loadedTemplate, exercises });
+        const activeExercises = initializeExercises({ ...loadedTemplate, exercises });
         initializeWorkoutSession(loadedTemplate);
        
+        let loadedPlan: WorkoutPlan | null = null;
         if (planId) {
-          const loadedPlan = await getWorkoutPlan(planId as string);
+          loadedPlan = await getWorkoutPlan(planId as string);
           if (loadedPlan) {
             setPlan(loadedPlan);
           } else {
             console.warn('Could not load workout plan details for planId:', planId);
           }
         }
+
+        applyProgressionSuggestions(activeExercises, loadedPlan);
       } else {
         Alert.alert('Error', 'Could not load workout template.');
         router.back();
@@ -161,11 +172,11 @@ export default function StartWorkoutScreen() {
     }
   };
 
-  const initializeExercises = (template: WorkoutTemplate) => {
+  const initializeExercises = (template: WorkoutTemplate): ActiveExercise[] => {
     if (!Array.isArray(template.exercises) || !template.exercises.length) {
       console.warn('No exercises array or empty for template:', template);
       setExercises([]);
-      return;
+      return [];
     }
     
     const activeExercises: ActiveExercise[] = template.exercises.map(templateExercise => {
@@ -218,6 +229,39 @@ export default function StartWorkoutScreen() {
     
     console.log('Initialized active exercises:', activeExercises);
     setExercises(activeExercises);
+    return activeExercises;
+  };
+
+  // Replace template loads with what the client should lift next, based on
+  // their recent history and the plan's progression rule
+  const applyProgressionSuggestions = async (activeExercises: ActiveExercise[], workoutPlan: WorkoutPlan | null) => {
+    try {
+      const profile = await getCurrentUserProfile();
+      if (!profile || activeExercises.length === 0) return;
+
+      const suggestions = await getProgressionSuggestions(
+        profile.id,
+        activeExercises.map(exercise => ({ exercise_id: exercise.exerciseId, sets_config: exercise.sets })),
+        workoutPlan
+      );
+
+      setExercises(prev => prev.map(exercise => {
+        const suggestion = suggestions[exercise.exerciseId];
+        if (!suggestion?.changed) return exercise;
+
+        return {
+          ...exercise,
+          progressionNote: suggestion.reason,
+          sets: exercise.sets.map((set, index) => {
+            const suggested = suggestion.sets[index];
+            if (set.completed || !suggested) return set;
+            return { ...set, reps: suggested.reps, weight: suggested.weight, rpe: suggested.rpe };
+          }),
+        };
+      }));
+    } catch (error) {
+      console.error('Error applying progression suggestions:', error);
+    }
   };
 
   const initializeWorkoutSession = (template: WorkoutTemplate) => {
@@ -328,11 +372,14 @@ export default function StartWorkoutScreen() {
         throw new Error('Failed to create workout session in the database.');
       }
 
+      const logsSaved = await saveWorkoutLogs(newDbSession.id, completedWorkoutSession.exercises || []);
+
       // Update the local session with the database ID
       const completedLocalSession: WorkoutSession = {
         ...completedWorkoutSession,
         id: newDbSession.id,
-        synced: true,
+        // Let the sync engine retry the per-set logs if they didn't land
+        synced: logsSaved,
       } as WorkoutSession;
 
       await saveSession(completedLocalSession);
@@ -448,13 +495,14 @@ export default function StartWorkoutScreen() {
           </View>
 
           <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>Weight</Text>
-            <TextInput
+            <Text style={styles.inputLabel}>Weight ({weightUnit})</Text>
+            <QuantityInput
+              quantity="mass"
               style={[styles.setInput, isCompleted && styles.completedInput]}
-              value={set.weight?.toString() || ''}
-              onChangeText={(value) => {
+              value={set.weight}
+              onChangeValue={(weight) => {
                 const updatedExercises = [...exercises];
-                updatedExercises[currentExerciseIndex].sets[setIndex].weight = parseFloat(value) || 0;
+                updatedExercises[currentExerciseIndex].sets[setIndex].weight = weight;
                 setExercises(updatedExercises);
               }}
               keyboardType="numeric"
@@ -480,6 +528,26 @@ export default function StartWorkoutScreen() {
               placeholderTextColor={colors.textTertiary}
             />
           </View>
+
+          {plan?.progression_rule === 'rpe' && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>RPE</Text>
+              <TextInput
+                style={[styles.setInput, isCompleted && styles.completedInput]}
+                value={set.rpe?.toString() || ''}
+                onChangeText={(value) => {
+                  const updatedExercises = [...exercises];
+                  const rpe = parseFloat(value);
+                  updatedExercises[currentExerciseIndex].sets[setIndex].rpe = rpe ? Math.min(Math.max(rpe, 1), 10) : undefined;
+                  setExercises(updatedExercises);
+                }}
+                keyboardType="numeric"
+                editable={!isCompleted}
+                placeholder="8"
+                placeholderTextColor={colors.textTertiary}
+              />
+            </View>
+          )}
         </View>
 
         {isCompleted ? (
@@ -586,12 +654,18 @@ export default function StartWorkoutScreen() {
             <YouTubePlayer video_url={template.exercises[currentExerciseIndex].exercise.video_url} />
           ) : null}
           <Text style={styles.exerciseName}>{currentExercise.exerciseName}</Text>
+          {currentExercise.progressionNote && (
+            <View style={styles.progressionNote}>
+              <TrendingUp size={16} color={colors.primary} />
+              <Text style={styles.progressionNoteText}>{currentExercise.progressionNote}</Text>
+            </View>
+          )}
           
           <View style={styles.setsContainer}>
             <View style={styles.setsHeader}>
               <Text style={styles.setHeaderText}>Set</Text>
               <Text style={styles.setHeaderText}>Reps</Text>
-              <Text style={styles.setHeaderText}>Weight</Text>
+              <Text style={styles.setHeaderText}>Weight ({weightUnit})</Text>
               <Text style={styles.setHeaderText}>Rest</Text>
               <Text style={styles.setHeaderText}>✓</Text>
             </View>
@@ -867,6 +941,23 @@ const createStyles = (colors: any) => StyleSheet.create({
     marginBottom: 20,
     textAlign: 'center',
   },
+  progressionNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  progressionNoteText: {
+    flex: 1,
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
   setsContainer: {
     marginBottom: 20,
   },
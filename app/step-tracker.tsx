@@ -7,146 +7,19 @@ import {
   TouchableOpacity,
   Dimensions,
   Animated,
+  RefreshControl,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ArrowLeft, Footprints, Target, TrendingUp, Calendar, Award, Flame, Clock, MoveHorizontal as MoreHorizontal, ChevronLeft, ChevronRight, Sun, Moon } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useStepData } from '@/hooks/useStepData';
+import { DEFAULT_STEP_GOAL, toLocalDateString } from '@/lib/stepIngestion';
+import { StepData, WeekData, MonthData } from '@/types/steps';
 
 const { width, height } = Dimensions.get('window');
 
-interface StepData {
-  date: string;
-  steps: number;
-  goal: number;
-  calories: number;
-  distance: number; // in km
-  activeMinutes: number;
-  hourlyData: number[]; // 24 hours
-}
-
-interface WeekData {
-  weekStart: string;
-  totalSteps: number;
-  averageSteps: number;
-  daysActive: number;
-  totalCalories: number;
-  totalDistance: number;
-  dailyData: StepData[];
-}
-
-interface MonthData {
-  month: string;
-  year: number;
-  totalSteps: number;
-  averageSteps: number;
-  daysActive: number;
-  totalCalories: number;
-  totalDistance: number;
-  weeklyData: WeekData[];
-}
-
-// Sample data generation
-const generateHourlyData = (totalSteps: number): number[] => {
-  const hourlyData = new Array(24).fill(0);
-  const peakHours = [7, 8, 12, 13, 17, 18, 19]; // Morning, lunch, evening
-  
-  let remainingSteps = totalSteps;
-  
-  // Distribute steps with higher concentration during peak hours
-  peakHours.forEach(hour => {
-    const steps = Math.floor(remainingSteps * (0.1 + Math.random() * 0.15));
-    hourlyData[hour] = steps;
-    remainingSteps -= steps;
-  });
-  
-  // Distribute remaining steps randomly
-  for (let i = 0; i < 24; i++) {
-    if (!peakHours.includes(i) && remainingSteps > 0) {
-      const steps = Math.floor(Math.random() * (remainingSteps * 0.1));
-      hourlyData[i] = steps;
-      remainingSteps -= steps;
-    }
-  }
-  
-  return hourlyData;
-};
-
-const generateSampleData = (): { daily: StepData[], weekly: WeekData[], monthly: MonthData[] } => {
-  const today = new Date();
-  const daily: StepData[] = [];
-  const weekly: WeekData[] = [];
-  const monthly: MonthData[] = [];
-  
-  // Generate daily data for the last 30 days
-  for (let i = 29; i >= 0; i--) {
-    const date = new Date(today);
-    date.setDate(today.getDate() - i);
-    
-    const steps = i === 0 ? 0 : Math.floor(2000 + Math.random() * 8000); // Today has 0 steps
-    const goal = 10000;
-    const calories = Math.floor(steps * 0.04);
-    const distance = parseFloat((steps * 0.0008).toFixed(2));
-    const activeMinutes = Math.floor(steps / 100);
-    const hourlyData = generateHourlyData(steps);
-    
-    daily.push({
-      date: date.toISOString().split('T')[0],
-      steps,
-      goal,
-      calories,
-      distance,
-      activeMinutes,
-      hourlyData
-    });
-  }
-  
-  // Generate weekly data
-  for (let i = 3; i >= 0; i--) {
-    const weekStart = new Date(today);
-    weekStart.setDate(today.getDate() - (i * 7) - today.getDay());
-    
-    const weekDays = daily.slice(i * 7, (i + 1) * 7);
-    const totalSteps = weekDays.reduce((sum, day) => sum + day.steps, 0);
-    const averageSteps = Math.floor(totalSteps / 7);
-    const daysActive = weekDays.filter(day => day.steps > 1000).length;
-    const totalCalories = weekDays.reduce((sum, day) => sum + day.calories, 0);
-    const totalDistance = weekDays.reduce((sum, day) => sum + day.distance, 0);
-    
-    weekly.push({
-      weekStart: weekStart.toISOString().split('T')[0],
-      totalSteps,
-      averageSteps,
-      daysActive,
-      totalCalories,
-      totalDistance: parseFloat(totalDistance.toFixed(2)),
-      dailyData: weekDays
-    });
-  }
-  
-  // Generate monthly data
-  const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-  const totalSteps = daily.reduce((sum, day) => sum + day.steps, 0);
-  const averageSteps = Math.floor(totalSteps / 30);
-  const daysActive = daily.filter(day => day.steps > 1000).length;
-  const totalCalories = daily.reduce((sum, day) => sum + day.calories, 0);
-  const totalDistance = daily.reduce((sum, day) => sum + day.distance, 0);
-  
-  monthly.push({
-    month: monthStart.toLocaleDateString('en-US', { month: 'long' }),
-    year: monthStart.getFullYear(),
-    totalSteps,
-    averageSteps,
-    daysActive,
-    totalCalories,
-    totalDistance: parseFloat(totalDistance.toFixed(2)),
-    weeklyData: weekly
-  });
-  
-  return { daily, weekly, monthly };
-};
-
 export default function StepTrackerScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
@@ -154,20 +27,34 @@ export default function StepTrackerScreen() {
 
   const [activeTab, setActiveTab] = useState<'day' | 'week' | 'month'>('day');
   const [selectedDate, setSelectedDate] = useState(new Date());
-  const [data] = useState(generateSampleData());
+  const { today, week: currentWeekData, month: currentMonthData, sourceAvailable, loading, refresh } = useStepData();
+  const [refreshing, setRefreshing] = useState(false);
   const [animatedValue] = useState(new Animated.Value(0));
 
-  const todayData = data.daily[data.daily.length - 1];
-  const currentWeekData = data.weekly[data.weekly.length - 1];
-  const currentMonthData = data.monthly[0];
+  const todayData: StepData = today || {
+    date: toLocalDateString(new Date()),
+    steps: 0,
+    goal: DEFAULT_STEP_GOAL,
+    calories: 0,
+    distance: 0,
+    activeMinutes: 0,
+    hourlyData: new Array(24).fill(0),
+  };
 
   useEffect(() => {
+    if (loading) return;
     Animated.timing(animatedValue, {
       toValue: 1,
       duration: 1000,
       useNativeDriver: false,
     }).start();
-  }, []);
+  }, [loading]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
 
   const getProgressPercentage = (steps: number, goal: number) => {
     return Math.min((steps / goal) * 100, 100);
@@ -470,7 +357,20 @@ export default function StepTrackerScreen() {
         ))}
       </View>
 
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {!sourceAvailable && (
+          <View style={styles.sourceNotice}>
+            <Footprints size={18} color={colors.textSecondary} />
+            <Text style={styles.sourceNoticeText}>
+              Step counting isn't available on this device. Steps synced from other devices still show here.
+            </Text>
+          </View>
+        )}
+
         {/* Main Progress Circle (Day view only) */}
         {activeTab === 'day' && renderCircularProgress(todayData.steps, todayData.goal)}
 
@@ -557,6 +457,22 @@ const createStyles = (colors: any) => StyleSheet.create({
   moreButton: {
     padding: 4,
   },
+  sourceNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginHorizontal: 20,
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: colors.surfaceSecondary,
+  },
+  sourceNoticeText: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
   tabContainer: {
     flexDirection: 'row',
     backgroundColor: colors.surfaceSecondary,
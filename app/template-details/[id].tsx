@@ -21,6 +21,8 @@ import {
   MoreHorizontal
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useUnits } from '@/contexts/UnitsContext';
+import { formatQuantity } from '@/lib/units';
 import { router, useLocalSearchParams } from 'expo-router';
 import { WorkoutTemplate } from '@/types/workout';
 import { formatDuration } from '@/utils/workoutUtils';
@@ -30,6 +32,7 @@ export default function TemplateDetailsScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme as 'light' | 'dark' | null);
   const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
   const { id } = useLocalSearchParams();
 
   const [template, setTemplate] = useState<WorkoutTemplate | null>(null);
@@ -327,7 +330,7 @@ export default function TemplateDetailsScreen() {
                     <Text style={styles.setNumber}>Set {setIndex + 1}</Text>
                     <Text style={styles.setDetails}>
                       {set.reps !== undefined && set.reps !== null ? `${set.reps} reps` : ''}
-                      {set.weight !== undefined && set.weight !== null ? ` @ ${set.weight}kg` : ''}
+                      {set.weight !== undefined && set.weight !== null ? ` @ ${formatQuantity(set.weight, 'mass', unitSystem)}` : ''}
                       {set.duration !== undefined && set.duration !== null ? ` ${set.duration}s` : ''}
                       {set.rest_time !== undefined && set.rest_time !== null ? ` • Rest: ${set.rest_time}s` : ''}
                     </Text>
@@ -10,6 +10,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { ArrowLeft, Play, Clock, Dumbbell, Calendar, CircleCheck as CheckCircle, CircleAlert as AlertCircle } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
+import { useUnits } from '@/contexts/UnitsContext';
+import { formatQuantity } from '@/lib/units';
 import { router, useLocalSearchParams } from 'expo-router';
 import { WorkoutTemplate, WorkoutSession } from '@/types/workout';
 import { getSessions } from '@/utils/storage';
@@ -19,6 +21,7 @@ export default function TrainingDayScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
   const { date, templateId } = useLocalSearchParams();
 
   const [template, setTemplate] = useState<WorkoutTemplate | null>(null);
@@ -236,7 +239,7 @@ export default function TrainingDayScreen() {
                 </Text>
                 {exercise.sets.length > 0 && (
                   <Text style={styles.setsDetail}>
-                    {exercise.sets[0].reps} reps × {exercise.sets[0].weight || 0} kg
+                    {exercise.sets[0].reps} reps × {formatQuantity(exercise.sets[0].weight || 0, 'mass', unitSystem)}
                   </Text>
                 )}
               </View>
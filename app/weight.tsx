@@ -12,6 +12,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { ArrowLeft, Plus, ChevronLeft, ChevronRight } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router } from 'expo-router';
+import { useUnits } from '@/contexts/UnitsContext';
+import { convertMetricForDisplay, formatQuantity } from '@/lib/units';
 
 const { width } = Dimensions.get('window');
 
@@ -42,6 +44,7 @@ export default function WeightScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
 
   const [selectedPeriod, setSelectedPeriod] = useState('1M');
   const [currentWeight] = useState(78);
@@ -217,9 +220,11 @@ export default function WeightScreen() {
               { opacity: fadeAnim }
             ]}
           >
-            <Text style={styles.yAxisLabel}>100</Text>
-            <Text style={styles.yAxisLabel}>80</Text>
-            <Text style={styles.yAxisLabel}>60</Text>
+            {[100, 80, 60].map(kg => (
+              <Text key={kg} style={styles.yAxisLabel}>
+                {Math.round(convertMetricForDisplay('weight', kg, unitSystem))}
+              </Text>
+            ))}
           </Animated.View>
 
           {/* Chart area */}
@@ -299,7 +304,7 @@ export default function WeightScreen() {
                 <Text style={styles.tooltipDate}>
                   {selectedDataPoint.date === '2024-06-05' ? 'Jun 5' : selectedDataPoint.displayDate}
                 </Text>
-                <Text style={styles.tooltipWeight}>{selectedDataPoint.weight} kg</Text>
+                <Text style={styles.tooltipWeight}>{formatQuantity(selectedDataPoint.weight, 'mass', unitSystem)}</Text>
               </Animated.View>
             )}
           </View>
@@ -360,7 +365,7 @@ export default function WeightScreen() {
         {/* Current Weight */}
         <View style={styles.currentWeightSection}>
           <Text style={styles.currentLabel}>CURRENT</Text>
-          <Text style={styles.currentWeight}>{currentWeight} kg</Text>
+          <Text style={styles.currentWeight}>{formatQuantity(currentWeight, 'mass', unitSystem)}</Text>
           
           <View style={styles.dateNavigation}>
             <TouchableOpacity>
@@ -380,7 +385,7 @@ export default function WeightScreen() {
         <View style={styles.weeklySection}>
           <View style={styles.weeklyHeader}>
             <Text style={styles.weeklyTitle}>Weight</Text>
-            <TouchableOpacity style={styles.addWeightButton}>
+            <TouchableOpacity style={styles.addWeightButton} onPress={() => router.push('/add-metric/weight')}>
               <Plus size={20} color={colors.primary} />
             </TouchableOpacity>
             <Text style={styles.weeklyFilter}>By Week</Text>
@@ -390,7 +395,7 @@ export default function WeightScreen() {
             <TouchableOpacity key={index} style={styles.weeklyItem}>
               <Text style={styles.weeklyPeriod}>{week.period}</Text>
               <View style={styles.weeklyRight}>
-                <Text style={styles.weeklyWeight}>{week.weight} kg</Text>
+                <Text style={styles.weeklyWeight}>{formatQuantity(week.weight, 'mass', unitSystem)}</Text>
                 <ChevronRight size={16} color={colors.textTertiary} />
               </View>
             </TouchableOpacity>
@@ -18,6 +18,8 @@ import {
   Search
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useUnits } from '@/contexts/UnitsContext';
+import { formatQuantity, fromCanonical, getPreferredUnit } from '@/lib/units';
 import { router } from 'expo-router';
 import { WorkoutSession, WorkoutTemplate } from '@/types/workout';
 import { getSessions } from '@/utils/storage';
@@ -34,6 +36,7 @@ export default function WorkoutHistoryScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
 
   const [sessions, setSessions] = useState<SessionWithTemplate[]>([]);
   const [filteredSessions, setFilteredSessions] = useState<SessionWithTemplate[]>([]);
@@ -185,7 +188,7 @@ export default function WorkoutHistoryScreen() {
         <View style={styles.statItem}>
           <TrendingUp size={16} color={colors.textSecondary} />
           <Text style={styles.statText}>
-            {calculateSessionVolume(session).toLocaleString()} kg
+            {formatQuantity(calculateSessionVolume(session), 'mass', unitSystem, 0)}
           </Text>
         </View>
       </View>
@@ -229,8 +232,8 @@ export default function WorkoutHistoryScreen() {
         </View>
         
         <View style={styles.statCard}>
-          <Text style={styles.statNumber}>{stats.totalVolume.toLocaleString()}</Text>
-          <Text style={styles.statLabel}>Total Volume (kg)</Text>
+          <Text style={styles.statNumber}>{Math.round(fromCanonical(stats.totalVolume, 'mass', getPreferredUnit('mass', unitSystem))).toLocaleString()}</Text>
+          <Text style={styles.statLabel}>Total Volume ({getPreferredUnit('mass', unitSystem)})</Text>
         </View>
         
         <View style={styles.statCard}>
@@ -0,0 +1,23 @@
+import React, { ReactNode } from 'react';
+import { Redirect } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouteAccess } from '@/hooks/usePermissions';
+
+interface RouteGuardProps {
+  children: ReactNode;
+}
+
+// Renders a layout's screens only for roles allowed by ROUTE_CAPABILITIES.
+// Hiding a button is not enough: deep links and notifications open routes directly.
+export function RouteGuard({ children }: RouteGuardProps) {
+  const access = useRouteAccess();
+  const { user } = useAuth();
+
+  if (access === 'pending') return null;
+  if (access === 'denied') {
+    return <Redirect href={user ? '/(tabs)' : '/(auth)/login'} />;
+  }
+  return <>{children}</>;
+}
+
+export default RouteGuard;
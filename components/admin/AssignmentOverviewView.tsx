@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -10,69 +10,35 @@ import { Users, Dumbbell, Apple, TrendingUp, UserCheck, CircleAlert as AlertCirc
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import { router } from 'expo-router';
+import { AssignmentOverview, getAssignmentOverview } from '../../lib/assignmentQueries';
 
-interface AssignmentStats {
-  totalClients: number;
-  fullyAssigned: number;
-  trainerAssigned: number;
-  nutritionistAssigned: number;
-  unassigned: number;
-  activeTrainers: number;
-  activeNutritionists: number;
-}
-
-interface RecentAssignment {
-  id: string;
-  clientName: string;
-  professionalName: string;
-  type: 'trainer' | 'nutritionist';
-  assignedDate: string;
-  assignedBy: string;
-}
-
-const mockStats: AssignmentStats = {
-  totalClients: 156,
-  fullyAssigned: 89,
-  trainerAssigned: 124,
-  nutritionistAssigned: 98,
-  unassigned: 32,
-  activeTrainers: 12,
-  activeNutritionists: 8,
+const emptyStats: AssignmentOverview = {
+  totalClients: 0,
+  fullyAssigned: 0,
+  trainerAssigned: 0,
+  nutritionistAssigned: 0,
+  unassigned: 0,
+  activeTrainers: 0,
+  activeNutritionists: 0,
+  coachesAtCapacity: 0,
+  recent: [],
 };
 
-const mockRecentAssignments: RecentAssignment[] = [
-  {
-    id: '1',
-    clientName: 'Sarah Johnson',
-    professionalName: 'Mike Chen',
-    type: 'trainer',
-    assignedDate: '2024-06-10',
-    assignedBy: 'Admin User'
-  },
-  {
-    id: '2',
-    clientName: 'David Wilson',
-    professionalName: 'Emma Davis',
-    type: 'nutritionist',
-    assignedDate: '2024-06-09',
-    assignedBy: 'HR Manager'
-  },
-  {
-    id: '3',
-    clientName: 'Lisa Park',
-    professionalName: 'Alex Rodriguez',
-    type: 'trainer',
-    assignedDate: '2024-06-08',
-    assignedBy: 'Admin User'
-  }
-];
+// Share of clients, guarding against an empty roster
+const percentOf = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 100) : 0);
 
 export default function AssignmentOverviewView() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
 
-  const assignmentRate = Math.round((mockStats.fullyAssigned / mockStats.totalClients) * 100);
+  const [stats, setStats] = useState<AssignmentOverview>(emptyStats);
+
+  useEffect(() => {
+    getAssignmentOverview().then(setStats);
+  }, []);
+
+  const assignmentRate = percentOf(stats.fullyAssigned, stats.totalClients);
 
   const handleNavigateToAssignments = () => {
     router.push('/admin/client-assignments');
@@ -113,7 +79,7 @@ export default function AssignmentOverviewView() {
             </View>
           </View>
           <Text style={styles.rateDescription}>
-            {mockStats.fullyAssigned} out of {mockStats.totalClients} clients have both trainer and nutritionist assigned
+            {stats.fullyAssigned} out of {stats.totalClients} clients have both trainer and nutritionist assigned
           </Text>
         </View>
 
@@ -123,7 +89,7 @@ export default function AssignmentOverviewView() {
             <View style={[styles.statIcon, { backgroundColor: `${colors.primary}15` }]}>
               <Users size={20} color={colors.primary} />
             </View>
-            <Text style={styles.statNumber}>{mockStats.totalClients}</Text>
+            <Text style={styles.statNumber}>{stats.totalClients}</Text>
             <Text style={styles.statLabel}>Total Clients</Text>
           </View>
           
@@ -131,7 +97,7 @@ export default function AssignmentOverviewView() {
             <View style={[styles.statIcon, { backgroundColor: `${colors.success}15` }]}>
               <UserCheck size={20} color={colors.success} />
             </View>
-            <Text style={styles.statNumber}>{mockStats.fullyAssigned}</Text>
+            <Text style={styles.statNumber}>{stats.fullyAssigned}</Text>
             <Text style={styles.statLabel}>Fully Assigned</Text>
           </View>
           
@@ -139,7 +105,7 @@ export default function AssignmentOverviewView() {
             <View style={[styles.statIcon, { backgroundColor: `${colors.warning}15` }]}>
               <AlertCircle size={20} color={colors.warning} />
             </View>
-            <Text style={styles.statNumber}>{mockStats.unassigned}</Text>
+            <Text style={styles.statNumber}>{stats.unassigned}</Text>
             <Text style={styles.statLabel}>Unassigned</Text>
           </View>
         </View>
@@ -154,9 +120,9 @@ export default function AssignmentOverviewView() {
               <Text style={styles.breakdownLabel}>Trainer Assignments</Text>
             </View>
             <View style={styles.breakdownStats}>
-              <Text style={styles.breakdownNumber}>{mockStats.trainerAssigned}</Text>
+              <Text style={styles.breakdownNumber}>{stats.trainerAssigned}</Text>
               <Text style={styles.breakdownPercentage}>
-                {Math.round((mockStats.trainerAssigned / mockStats.totalClients) * 100)}%
+                {percentOf(stats.trainerAssigned, stats.totalClients)}%
               </Text>
             </View>
           </View>
@@ -167,9 +133,9 @@ export default function AssignmentOverviewView() {
               <Text style={styles.breakdownLabel}>Nutritionist Assignments</Text>
             </View>
             <View style={styles.breakdownStats}>
-              <Text style={styles.breakdownNumber}>{mockStats.nutritionistAssigned}</Text>
+              <Text style={styles.breakdownNumber}>{stats.nutritionistAssigned}</Text>
               <Text style={styles.breakdownPercentage}>
-                {Math.round((mockStats.nutritionistAssigned / mockStats.totalClients) * 100)}%
+                {percentOf(stats.nutritionistAssigned, stats.totalClients)}%
               </Text>
             </View>
           </View>
@@ -185,7 +151,7 @@ export default function AssignmentOverviewView() {
                 <Dumbbell size={16} color={colors.primary} />
                 <Text style={styles.availabilityTitle}>Trainers</Text>
               </View>
-              <Text style={styles.availabilityNumber}>{mockStats.activeTrainers}</Text>
+              <Text style={styles.availabilityNumber}>{stats.activeTrainers}</Text>
               <Text style={styles.availabilityLabel}>Active</Text>
             </View>
             
@@ -194,10 +160,16 @@ export default function AssignmentOverviewView() {
                 <Apple size={16} color={colors.success} />
                 <Text style={styles.availabilityTitle}>Nutritionists</Text>
               </View>
-              <Text style={styles.availabilityNumber}>{mockStats.activeNutritionists}</Text>
+              <Text style={styles.availabilityNumber}>{stats.activeNutritionists}</Text>
               <Text style={styles.availabilityLabel}>Active</Text>
             </View>
           </View>
+
+          {stats.coachesAtCapacity > 0 && (
+            <Text style={styles.capacityWarning}>
+              {stats.coachesAtCapacity} {stats.coachesAtCapacity === 1 ? 'coach is' : 'coaches are'} at capacity
+            </Text>
+          )}
         </View>
 
         {/* Recent Assignments */}
@@ -209,26 +181,31 @@ export default function AssignmentOverviewView() {
             </TouchableOpacity>
           </View>
           
-          {mockRecentAssignments.map((assignment) => {
-            const IconComponent = getAssignmentTypeIcon(assignment.type);
-            const iconColor = getAssignmentTypeColor(assignment.type);
-            
+          {stats.recent.length === 0 && (
+            <Text style={styles.assignmentMeta}>No assignments yet</Text>
+          )}
+          {stats.recent.map((entry) => {
+            const IconComponent = getAssignmentTypeIcon(entry.coach_role);
+            const iconColor = getAssignmentTypeColor(entry.coach_role);
+
             return (
-              <View key={assignment.id} style={styles.assignmentItem}>
+              <View key={entry.id} style={styles.assignmentItem}>
                 <View style={[styles.assignmentIcon, { backgroundColor: `${iconColor}15` }]}>
                   <IconComponent size={16} color={iconColor} />
                 </View>
-                
+
                 <View style={styles.assignmentInfo}>
                   <Text style={styles.assignmentText}>
-                    <Text style={styles.assignmentClient}>{assignment.clientName}</Text>
+                    <Text style={styles.assignmentClient}>{entry.client?.full_name || entry.client?.email}</Text>
                     {' assigned to '}
-                    <Text style={styles.assignmentProfessional}>{assignment.professionalName}</Text>
+                    <Text style={styles.assignmentProfessional}>{entry.coach?.full_name || entry.coach?.email}</Text>
                     {' as '}
-                    <Text style={styles.assignmentType}>{assignment.type}</Text>
+                    <Text style={styles.assignmentType}>{entry.coach_role}</Text>
                   </Text>
                   <Text style={styles.assignmentMeta}>
-                    {new Date(assignment.assignedDate).toLocaleDateString()} • by {assignment.assignedBy}
+                    {new Date(entry.started_at).toLocaleDateString()}
+                    {entry.started_by_profile ? ` • by ${entry.started_by_profile.full_name || entry.started_by_profile.email}` : ''}
+                    {entry.ended_at ? ` • ended ${new Date(entry.ended_at).toLocaleDateString()}` : ''}
                   </Text>
                 </View>
               </View>
@@ -491,4 +468,10 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.textSecondary,
     marginTop: 4,
   },
-});
\ No newline at end of file
+  capacityWarning: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.warning,
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,268 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { ChevronLeft, ChevronRight } from 'lucide-react-native';
+import { useColorScheme, getColors } from '../../hooks/useColorScheme';
+import {
+  AdminAuditAction,
+  AdminAuditEntry,
+  DEFAULT_AUDIT_PAGE_SIZE,
+  getAuditLog,
+} from '../../lib/adminQueries';
+
+const actionLabels: Record<AdminAuditAction, string> = {
+  role_changed: 'Role changed',
+  user_deactivated: 'Deactivated',
+  user_reactivated: 'Reactivated',
+  profile_updated: 'Profile updated',
+  password_reset_sent: 'Password reset sent',
+};
+
+const actionFilters: { value: AdminAuditAction | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'role_changed', label: 'Roles' },
+  { value: 'user_deactivated', label: 'Deactivations' },
+  { value: 'user_reactivated', label: 'Reactivations' },
+  { value: 'password_reset_sent', label: 'Password resets' },
+  { value: 'profile_updated', label: 'Profile edits' },
+];
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+// Read-only: nobody can edit or remove entries, so there are no actions here
+export default function AuditLogView() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [action, setAction] = useState<AdminAuditAction | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const pageCount = Math.max(1, Math.ceil(total / DEFAULT_AUDIT_PAGE_SIZE));
+
+  const loadEntries = useCallback(async () => {
+    const result = await getAuditLog({
+      action: action === 'all' ? undefined : action,
+      page,
+    });
+    setEntries(result.entries);
+    setTotal(result.total);
+  }, [action, page]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadEntries().finally(() => setLoading(false));
+  }, [loadEntries]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadEntries();
+    setRefreshing(false);
+  };
+
+  const selectAction = (value: AdminAuditAction | 'all') => {
+    setAction(value);
+    setPage(0);
+  };
+
+  const describePerson = (person: AdminAuditEntry['actor'], id: string | null) =>
+    person?.full_name || person?.email || (id ? 'Deleted user' : 'System');
+
+  const renderChanges = (entry: AdminAuditEntry) => {
+    const fields = Object.keys({ ...(entry.before || {}), ...(entry.after || {}) });
+    if (fields.length === 0) return null;
+
+    return fields.map(field => (
+      <Text key={field} style={styles.changeText}>
+        {field.replace(/_/g, ' ')}: {formatValue(entry.before?.[field])} → {formatValue(entry.after?.[field])}
+      </Text>
+    ));
+  };
+
+  const renderEntry = (entry: AdminAuditEntry) => (
+    <View key={entry.id} style={styles.entryCard}>
+      <View style={styles.entryHeader}>
+        <Text style={styles.entryAction}>{actionLabels[entry.action] || entry.action}</Text>
+        <Text style={styles.entryTime}>{new Date(entry.created_at).toLocaleString()}</Text>
+      </View>
+      <Text style={styles.entryPeople}>
+        {describePerson(entry.actor, entry.actor_id)} → {describePerson(entry.target, entry.target_id)}
+      </Text>
+      {renderChanges(entry)}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterBar}
+        contentContainerStyle={styles.filterBarContent}
+      >
+        {actionFilters.map(filter => (
+          <TouchableOpacity
+            key={filter.value}
+            style={[styles.filterChip, action === filter.value && styles.selectedFilterChip]}
+            onPress={() => selectAction(filter.value)}
+          >
+            <Text style={[styles.filterChipText, action === filter.value && styles.selectedFilterChipText]}>
+              {filter.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <ScrollView
+        style={styles.list}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {loading ? (
+          <ActivityIndicator style={{ marginTop: 40 }} color={colors.primary} />
+        ) : entries.length === 0 ? (
+          <Text style={styles.emptyText}>No audit entries yet</Text>
+        ) : (
+          entries.map(renderEntry)
+        )}
+
+        {total > DEFAULT_AUDIT_PAGE_SIZE && (
+          <View style={styles.pagination}>
+            <TouchableOpacity
+              style={[styles.pageButton, page === 0 && styles.disabledPageButton]}
+              disabled={page === 0}
+              onPress={() => setPage(prev => prev - 1)}
+            >
+              <ChevronLeft size={18} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.pageText}>Page {page + 1} of {pageCount}</Text>
+            <TouchableOpacity
+              style={[styles.pageButton, page + 1 >= pageCount && styles.disabledPageButton]}
+              disabled={page + 1 >= pageCount}
+              onPress={() => setPage(prev => prev + 1)}
+            >
+              <ChevronRight size={18} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+        )}
+        <View style={{ height: 100 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  filterBar: {
+    flexGrow: 0,
+  },
+  filterBarContent: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  filterChip: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  selectedFilterChip: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  filterChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  selectedFilterChipText: {
+    color: '#FFFFFF',
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  entryCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  entryAction: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+  },
+  entryTime: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textTertiary,
+  },
+  entryPeople: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  changeText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: 4,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  pagination: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+    marginTop: 8,
+  },
+  pageButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  disabledPageButton: {
+    opacity: 0.4,
+  },
+  pageText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
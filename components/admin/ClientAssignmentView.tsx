@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -8,448 +8,208 @@ import {
   TextInput,
   Modal,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
-import { 
-  Users, 
-  Plus, 
-  Search, 
-  Filter, 
-  UserPlus, 
-  Dumbbell, 
+import {
+  Users,
+  Search,
+  UserPlus,
+  Dumbbell,
   Apple,
   X,
   Check,
-  ChevronDown,
-  Calendar,
-  MessageSquare
+  History,
+  ArrowRightLeft,
 } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
-import { supabase } from '@/lib/supabase';
-
-interface Client {
-  id: string;
-  name: string;
-  email: string;
-  avatar: string;
-  joinDate: string;
-  status: 'active' | 'inactive' | 'trial';
-  trainer?: Professional;
-  nutritionist?: Professional;
-  goals: string[];
-}
+import {
+  AssignmentHistoryEntry,
+  CoachRole,
+  CoachWorkload,
+  RosterClient,
+  assignCoach,
+  endCoachAssignment,
+  getAssignmentHistory,
+  getAssignmentRoster,
+  getCoaches,
+  getRemainingCapacity,
+  reassignCoachClients,
+  setCoachCapacity,
+} from '../../lib/assignmentQueries';
 
-interface Professional {
-  id: string;
-  name: string;
-  email: string;
-  avatar: string;
-  specialization?: string;
-  rating: number;
-  clientCount: number;
-}
+type ViewMode = 'clients' | 'coaches';
 
-interface Assignment {
-  clientId: string;
-  professionalId: string;
-  type: 'trainer' | 'nutritionist';
-  assignedDate: string;
-  assignedBy: string;
-}
+const roleLabel = (role: CoachRole) => (role === 'trainer' ? 'Trainer' : 'Nutritionist');
 
-const mockTrainers: Professional[] = [
-  {
-    id: 't1',
-    name: 'Mike Chen',
-    email: 'mike@example.com',
-    avatar: '👨‍💻',
-    specialization: 'Strength Training',
-    rating: 4.8,
-    clientCount: 12
-  },
-  {
-    id: 't2',
-    name: 'Alex Rodriguez',
-    email: 'alex@example.com',
-    avatar: '👨‍🏫',
-    specialization: 'HIIT & Cardio',
-    rating: 4.7,
-    clientCount: 15
-  },
-  {
-    id: 't3',
-    name: 'Jessica Kim',
-    email: 'jessica@example.com',
-    avatar: '👩‍🏫',
-    specialization: 'Yoga & Flexibility',
-    rating: 4.9,
-    clientCount: 8
-  }
-];
-
-const mockNutritionists: Professional[] = [
-  {
-    id: 'n1',
-    name: 'Emma Davis',
-    email: 'emma@example.com',
-    avatar: '👩‍🎨',
-    specialization: 'Sports Nutrition',
-    rating: 4.9,
-    clientCount: 8
-  },
-  {
-    id: 'n2',
-    name: 'Dr. Robert Smith',
-    email: 'robert@example.com',
-    avatar: '👨‍⚕️',
-    specialization: 'Clinical Nutrition',
-    rating: 4.8,
-    clientCount: 10
-  },
-  {
-    id: 'n3',
-    name: 'Maria Garcia',
-    email: 'maria@example.com',
-    avatar: '👩‍⚕️',
-    specialization: 'Weight Management',
-    rating: 4.7,
-    clientCount: 12
-  }
-];
+const personName = (person?: { full_name?: string; email: string } | null) =>
+  person ? person.full_name || person.email : 'Unknown';
 
 export default function ClientAssignmentView() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
 
-  const [clients, setClients] = useState<Client[]>([]);
+  const [mode, setMode] = useState<ViewMode>('clients');
+  const [clients, setClients] = useState<RosterClient[]>([]);
+  const [trainers, setTrainers] = useState<CoachWorkload[]>([]);
+  const [nutritionists, setNutritionists] = useState<CoachWorkload[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedFilter, setSelectedFilter] = useState('all');
+
+  // Assign or replace a coach
   const [showAssignModal, setShowAssignModal] = useState(false);
-  const [selectedClient, setSelectedClient] = useState<Client | null>(null);
-  const [assignmentType, setAssignmentType] = useState<'trainer' | 'nutritionist'>('trainer');
-  const [selectedProfessional, setSelectedProfessional] = useState<Professional | null>(null);
-  const [professionals, setProfessionals] = useState<Professional[]>([]);
+  const [selectedClient, setSelectedClient] = useState<RosterClient | null>(null);
+  const [assignmentType, setAssignmentType] = useState<CoachRole>('trainer');
+  const [selectedProfessional, setSelectedProfessional] = useState<CoachWorkload | null>(null);
+  const [reason, setReason] = useState('');
 
-  // Fetch real users and their assignments
-  const fetchClients = async () => {
-    try {
-      // 1. Fetch all clients from profiles table
-      const { data: clientsData, error: clientsError } = await supabase
-        .from('profiles')
-        .select(`id, full_name, email, created_at, role`)
-        .eq('role', 'client');
-      
-      if (clientsError) {
-        console.error('Error fetching clients:', clientsError);
-        setClients([]);
-        return;
-      }
-
-      // 2. Fetch all active assignments
-      const { data: assignmentsData, error: assignmentsError } = await supabase
-        .from('client_assignments')
-        .select(`
-          client_id,
-          trainer_id,
-          nutritionist_id,
-          status,
-          trainer:profiles!client_assignments_trainer_id_fkey(id, full_name, email, specialization),
-          nutritionist:profiles!client_assignments_nutritionist_id_fkey(id, full_name, email, specialization)
-        `)
-        .eq('status', 'active');
-
-      if (assignmentsError) {
-        console.error('Error fetching assignments:', assignmentsError);
-      }
-
-      // 3. Create a map of client assignments
-      const assignmentsMap: Record<string, any> = {};
-      if (assignmentsData) {
-        assignmentsData.forEach(assignment => {
-          assignmentsMap[assignment.client_id] = assignment;
-        });
-      }
-
-      // 4. Map clients with their assignments
-      const mappedClients = (clientsData || []).map((c: any) => {
-        const assignment = assignmentsMap[c.id];
-        return {
-          id: c.id,
-          name: c.full_name || '',
-          email: c.email,
-          avatar: '👤',
-          joinDate: c.created_at,
-          status: 'active' as const, // Default status
-          trainer: assignment?.trainer ? {
-            id: assignment.trainer.id,
-            name: assignment.trainer.full_name,
-            email: assignment.trainer.email,
-            avatar: '💪',
-            specialization: assignment.trainer.specialization || '',
-            rating: 0,
-            clientCount: 0,
-          } : undefined,
-          nutritionist: assignment?.nutritionist ? {
-            id: assignment.nutritionist.id,
-            name: assignment.nutritionist.full_name,
-            email: assignment.nutritionist.email,
-            avatar: '🥗',
-            specialization: assignment.nutritionist.specialization || '',
-            rating: 0,
-            clientCount: 0,
-          } : undefined,
-          goals: [],
-        };
-      });
-      
-      setClients(mappedClients);
-    } catch (error) {
-      console.error('Error in fetchClients:', error);
-      setClients([]);
-    }
-  };
+  // Remove a coach
+  const [removal, setRemoval] = useState<{ client: RosterClient; role: CoachRole } | null>(null);
 
-  // Fetch real professionals for assignment modal
-  useEffect(() => {
-      const fetchProfessionals = async () => {
-    if (assignmentType === 'trainer') {
-      try {
-        // First, get all trainers from profiles
-        const { data: trainersData, error: trainersError } = await supabase
-          .from('profiles')
-          .select('id, full_name, email, specialization')
-          .eq('role', 'trainer');
-        
-        if (trainersError) throw trainersError;
-
-        // Then, get client counts for each trainer from client_assignments
-        const { data: assignmentsData, error: assignmentsError } = await supabase
-          .from('client_assignments')
-          .select('trainer_id')
-          .eq('status', 'active')
-          .not('trainer_id', 'is', null);
-
-        if (assignmentsError) {
-          console.error('Error fetching assignments for client count:', assignmentsError);
-        }
+  // Assignment history for one client
+  const [historyClient, setHistoryClient] = useState<RosterClient | null>(null);
+  const [history, setHistory] = useState<AssignmentHistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
 
-        // Count clients per trainer
-        const clientCounts: Record<string, number> = {};
-        if (assignmentsData) {
-          assignmentsData.forEach(assignment => {
-            if (assignment.trainer_id) {
-              clientCounts[assignment.trainer_id] = (clientCounts[assignment.trainer_id] || 0) + 1;
-            }
-          });
-        }
+  // Bulk reassignment when a coach leaves
+  const [departingCoach, setDepartingCoach] = useState<CoachWorkload | null>(null);
+  const [replacementCoach, setReplacementCoach] = useState<CoachWorkload | null>(null);
 
-        setProfessionals(
-          (trainersData || []).map((trainer: any) => ({
-            id: trainer.id,
-            name: trainer.full_name,
-            email: trainer.email,
-            avatar: '💪',
-            specialization: trainer.specialization || '',
-            rating: 0, // Default rating
-            clientCount: clientCounts[trainer.id] || 0,
-          }))
-        );
-      } catch (error) {
-        console.error('Error fetching trainers:', error);
-        setProfessionals([]);
-      }
-    } else {
-      try {
-        // Nutritionists from profiles table
-        const { data, error } = await supabase
-          .from('profiles')
-          .select('id, full_name, email, specialization')
-          .eq('role', 'nutritionist')
-          .order('full_name');
-        if (error) {
-          console.error('Error fetching nutritionists:', error);
-          setProfessionals([]);
-          return;
-        }
-        setProfessionals(
-          (data || []).map((n: any) => ({
-            id: n.id,
-            name: n.full_name,
-            email: n.email,
-            avatar: '🥗',
-            specialization: n.specialization || '',
-            rating: 0,
-            clientCount: 0,
-          }))
-        );
-      } catch (error) {
-        console.error('Error fetching nutritionists:', error);
-        setProfessionals([]);
-      }
-    }
-  };
-    fetchProfessionals();
-  }, [assignmentType]);
+  // Capacity editing
+  const [capacityCoach, setCapacityCoach] = useState<CoachWorkload | null>(null);
+  const [capacityInput, setCapacityInput] = useState('');
 
-  useEffect(() => {
-    fetchClients();
+  const loadData = useCallback(async () => {
+    const [rosterData, trainerData, nutritionistData] = await Promise.all([
+      getAssignmentRoster(),
+      getCoaches('trainer'),
+      getCoaches('nutritionist'),
+    ]);
+    setClients(rosterData);
+    setTrainers(trainerData);
+    setNutritionists(nutritionistData);
   }, []);
 
+  useEffect(() => {
+    loadData().finally(() => setLoading(false));
+  }, [loadData]);
+
+  const coachesFor = (role: CoachRole) => (role === 'trainer' ? trainers : nutritionists);
+
   const filteredClients = clients.filter(client => {
-    const matchesSearch = client.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         client.email.toLowerCase().includes(searchQuery.toLowerCase());
+    const trainer = client.assignment?.trainer;
+    const nutritionist = client.assignment?.nutritionist;
+    const name = (client.full_name || '').toLowerCase();
+    const query = searchQuery.toLowerCase();
+    const matchesSearch = name.includes(query) || client.email.toLowerCase().includes(query);
     let matchesFilter = false;
     if (selectedFilter === 'all') {
       matchesFilter = true;
     } else if (selectedFilter === 'assigned') {
-      matchesFilter = !!client.trainer || !!client.nutritionist;
+      matchesFilter = !!trainer || !!nutritionist;
     } else if (selectedFilter === 'unassigned') {
-      matchesFilter = !client.trainer && !client.nutritionist;
+      matchesFilter = !trainer && !nutritionist;
     } else if (selectedFilter === 'trainer-only') {
-      matchesFilter = !!client.trainer && !client.nutritionist;
+      matchesFilter = !!trainer && !nutritionist;
     } else if (selectedFilter === 'nutritionist-only') {
-      matchesFilter = !!client.nutritionist && !client.trainer;
+      matchesFilter = !!nutritionist && !trainer;
     } else if (selectedFilter === 'fully-assigned') {
-      matchesFilter = !!client.trainer && !!client.nutritionist;
+      matchesFilter = !!trainer && !!nutritionist;
     }
     return matchesSearch && matchesFilter;
   });
 
-  const handleAssignProfessional = (client: Client, type: 'trainer' | 'nutritionist') => {
+  const handleAssignProfessional = (client: RosterClient, type: CoachRole) => {
     setSelectedClient(client);
     setAssignmentType(type);
     setSelectedProfessional(null);
+    setReason('');
     setShowAssignModal(true);
   };
 
   const handleConfirmAssignment = async () => {
     if (!selectedClient || !selectedProfessional) return;
 
-    // Debug logging
-    console.log('Assigning professional:', {
-      assignmentType,
-      selectedProfessional,
-      selectedClient
-    });
-
+    setSaving(true);
     try {
-      // Check if assignment already exists
-      const { data: existingAssignment, error: checkError } = await supabase
-        .from('client_assignments')
-        .select('id')
-        .eq('client_id', selectedClient.id)
-        .eq('status', 'active')
-        .single();
-
-      if (checkError && checkError.code !== 'PGRST116') {
-        console.error('Error checking existing assignment:', checkError);
-        Alert.alert('Error', 'Failed to check existing assignment.');
-        return;
-      }
-
-      let result;
-      if (existingAssignment) {
-        // Update existing assignment
-        const updateData = assignmentType === 'trainer' 
-          ? { trainer_id: selectedProfessional.id }
-          : { nutritionist_id: selectedProfessional.id };
-        
-        result = await supabase
-          .from('client_assignments')
-          .update(updateData)
-          .eq('id', existingAssignment.id);
-      } else {
-        // Create new assignment
-        const newAssignment: any = {
-          client_id: selectedClient.id,
-          status: 'active',
-          assigned_date: new Date().toISOString().split('T')[0]
-        };
-        
-        if (assignmentType === 'trainer') {
-          newAssignment.trainer_id = selectedProfessional.id;
-        } else {
-          newAssignment.nutritionist_id = selectedProfessional.id;
-        }
-        
-        result = await supabase
-          .from('client_assignments')
-          .insert(newAssignment);
-      }
-
-      // Debug logging
-      console.log('Supabase assignment result:', result);
-
-      if (result.error) {
-        console.error('Assignment error:', result.error);
-        Alert.alert('Error', 'Failed to assign professional.');
-        return;
-      }
-
-      // Refetch clients using robust two-step mapping
-      await fetchClients();
+      await assignCoach(selectedClient.id, selectedProfessional.id, assignmentType, reason);
+      await loadData();
 
       Alert.alert(
         'Assignment Successful',
-        `${selectedProfessional.name} has been assigned as ${assignmentType} to ${selectedClient.name}`
+        `${personName(selectedProfessional)} has been assigned as ${assignmentType} to ${personName(selectedClient)}`
       );
 
       setShowAssignModal(false);
       setSelectedClient(null);
       setSelectedProfessional(null);
     } catch (error) {
-      console.error('Error in assignment:', error);
-      Alert.alert('Error', 'Failed to assign professional.');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to assign professional.');
+    } finally {
+      setSaving(false);
     }
   };
 
-  const handleRemoveAssignment = (client: Client, type: 'trainer' | 'nutritionist') => {
+  const handleRemoveAssignment = (client: RosterClient, role: CoachRole) => {
+    setReason('');
+    setRemoval({ client, role });
+  };
+
+  const handleConfirmRemoval = async () => {
+    if (!removal) return;
+
+    setSaving(true);
+    try {
+      await endCoachAssignment(removal.client.id, removal.role, reason);
+      await loadData();
+      setRemoval(null);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to remove assignment.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openHistory = async (client: RosterClient) => {
+    setHistoryClient(client);
+    setHistory([]);
+    setHistoryLoading(true);
+    setHistory(await getAssignmentHistory({ clientId: client.id }));
+    setHistoryLoading(false);
+  };
+
+  const openReassign = (coach: CoachWorkload) => {
+    setDepartingCoach(coach);
+    setReplacementCoach(null);
+    setReason('');
+  };
+
+  const handleConfirmReassign = () => {
+    if (!departingCoach) return;
+
+    const target = replacementCoach ? personName(replacementCoach) : 'no one';
     Alert.alert(
-      'Remove Assignment',
-      `Are you sure you want to remove the ${type} assignment for ${client.name}?`,
+      'Reassign Clients',
+      `Move all ${departingCoach.active_clients} clients of ${personName(departingCoach)} to ${target}?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Remove',
+          text: 'Reassign',
           style: 'destructive',
           onPress: async () => {
+            setSaving(true);
             try {
-              // Find the assignment record
-              const { data: assignment, error: findError } = await supabase
-                .from('client_assignments')
-                .select('id')
-                .eq('client_id', client.id)
-                .eq('status', 'active')
-                .single();
-
-              if (findError) {
-                console.error('Error finding assignment:', findError);
-                Alert.alert('Error', 'Failed to find assignment.');
-                return;
-              }
-
-              // Update the assignment to remove the trainer/nutritionist
-              const updateData = type === 'trainer' 
-                ? { trainer_id: null }
-                : { nutritionist_id: null };
-
-              const { error } = await supabase
-                .from('client_assignments')
-                .update(updateData)
-                .eq('id', assignment.id);
-
-              if (error) {
-                console.error('Error removing assignment:', error);
-                Alert.alert('Error', 'Failed to remove assignment.');
-                return;
-              }
-
-              // Refetch clients to update UI
-              await fetchClients();
+              const moved = await reassignCoachClients(departingCoach.id, replacementCoach?.id || null, reason);
+              await loadData();
+              setDepartingCoach(null);
+              Alert.alert('Clients Reassigned', `${moved} client${moved === 1 ? '' : 's'} updated.`);
             } catch (error) {
-              console.error('Error in remove assignment:', error);
-              Alert.alert('Error', 'Failed to remove assignment.');
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to reassign clients.');
+            } finally {
+              setSaving(false);
             }
           }
         }
@@ -457,155 +217,265 @@ export default function ClientAssignmentView() {
     );
   };
 
-  const getProfessionals = () => professionals;
+  const openCapacity = (coach: CoachWorkload) => {
+    setCapacityCoach(coach);
+    setCapacityInput(coach.max_clients === null ? '' : String(coach.max_clients));
+  };
+
+  const handleSaveCapacity = async () => {
+    if (!capacityCoach) return;
+
+    const trimmed = capacityInput.trim();
+    const maxClients = trimmed === '' ? null : parseInt(trimmed, 10);
+    if (maxClients !== null && (isNaN(maxClients) || maxClients < 0)) {
+      Alert.alert('Error', 'Enter a number of clients, or leave it empty for no limit');
+      return;
+    }
+
+    setSaving(true);
+    const saved = await setCoachCapacity(capacityCoach.id, maxClients);
+    setSaving(false);
+
+    if (!saved) {
+      Alert.alert('Error', 'Failed to update capacity.');
+      return;
+    }
+    await loadData();
+    setCapacityCoach(null);
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active': return colors.success;
-      case 'trial': return colors.warning;
       case 'inactive': return colors.error;
       default: return colors.textSecondary;
     }
   };
 
-  const renderClientCard = (client: Client) => (
-    <View key={client.id} style={styles.clientCard}>
-      <View style={styles.clientHeader}>
-        <View style={styles.clientInfo}>
-          <View style={styles.clientAvatar}>
-            <Text style={styles.clientAvatarText}>{client.avatar}</Text>
+  const formatLoad = (coach: CoachWorkload) =>
+    coach.max_clients === null
+      ? `${coach.active_clients} clients · no limit`
+      : `${coach.active_clients}/${coach.max_clients} clients`;
+
+  const renderAssignmentRow = (client: RosterClient, role: CoachRole) => {
+    const coach = role === 'trainer' ? client.assignment?.trainer : client.assignment?.nutritionist;
+    const Icon = role === 'trainer' ? Dumbbell : Apple;
+    const iconColor = role === 'trainer' ? colors.primary : colors.success;
+
+    return (
+      <View style={styles.assignmentRow}>
+        <View style={styles.assignmentInfo}>
+          <Icon size={16} color={iconColor} />
+          <Text style={styles.assignmentType}>{roleLabel(role)}</Text>
+        </View>
+
+        {coach ? (
+          <View style={styles.assignedProfessional}>
+            <TouchableOpacity
+              style={styles.professionalInfo}
+              onPress={() => handleAssignProfessional(client, role)}
+            >
+              <Text style={styles.professionalName}>{personName(coach)}</Text>
+              <Text style={styles.professionalSpec}>Tap to change</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => handleRemoveAssignment(client, role)}
+            >
+              <X size={16} color={colors.error} />
+            </TouchableOpacity>
           </View>
-          
-          <View style={styles.clientDetails}>
-            <Text style={styles.clientName}>{client.name}</Text>
-            <Text style={styles.clientEmail}>{client.email}</Text>
-            <View style={styles.clientMeta}>
-              <View style={[styles.statusBadge, { backgroundColor: getStatusColor(client.status) }]}>
-                <Text style={styles.statusText}>
-                  {client.status.charAt(0).toUpperCase() + client.status.slice(1)}
+        ) : (
+          <TouchableOpacity
+            style={styles.assignButton}
+            onPress={() => handleAssignProfessional(client, role)}
+          >
+            <UserPlus size={16} color={iconColor} />
+            <Text style={styles.assignButtonText}>Assign</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderClientCard = (client: RosterClient) => {
+    const status = client.account_status || 'active';
+
+    return (
+      <View key={client.id} style={styles.clientCard}>
+        <View style={styles.clientHeader}>
+          <View style={styles.clientInfo}>
+            <View style={styles.clientAvatar}>
+              <Text style={styles.clientAvatarText}>{personName(client).charAt(0).toUpperCase()}</Text>
+            </View>
+
+            <View style={styles.clientDetails}>
+              <Text style={styles.clientName}>{personName(client)}</Text>
+              <Text style={styles.clientEmail}>{client.email}</Text>
+              <View style={styles.clientMeta}>
+                <View style={[styles.statusBadge, { backgroundColor: getStatusColor(status) }]}>
+                  <Text style={styles.statusText}>
+                    {status.charAt(0).toUpperCase() + status.slice(1)}
+                  </Text>
+                </View>
+                <Text style={styles.joinDate}>
+                  Joined: {new Date(client.created_at).toLocaleDateString()}
                 </Text>
               </View>
-              <Text style={styles.joinDate}>
-                Joined: {new Date(client.joinDate).toLocaleDateString()}
-              </Text>
             </View>
+
+            <TouchableOpacity style={styles.iconButton} onPress={() => openHistory(client)}>
+              <History size={18} color={colors.textSecondary} />
+            </TouchableOpacity>
           </View>
         </View>
-      </View>
 
-      <View style={styles.goalsSection}>
-        <Text style={styles.goalsLabel}>Goals:</Text>
-        <View style={styles.goalTags}>
-          {client.goals.map((goal, index) => (
-            <View key={index} style={styles.goalTag}>
-              <Text style={styles.goalTagText}>{goal}</Text>
-            </View>
-          ))}
+        <View style={styles.assignmentsSection}>
+          <Text style={styles.assignmentsLabel}>Assignments</Text>
+          {renderAssignmentRow(client, 'trainer')}
+          {renderAssignmentRow(client, 'nutritionist')}
         </View>
       </View>
+    );
+  };
+
+  const renderCoachCard = (coach: CoachWorkload) => {
+    const remaining = getRemainingCapacity(coach);
 
-      <View style={styles.assignmentsSection}>
-        <Text style={styles.assignmentsLabel}>Assignments</Text>
-        
-        {/* Trainer Assignment */}
-        <View style={styles.assignmentRow}>
-          <View style={styles.assignmentInfo}>
-            <Dumbbell size={16} color={colors.primary} />
-            <Text style={styles.assignmentType}>Trainer</Text>
+    return (
+      <View key={coach.id} style={styles.clientCard}>
+        <View style={styles.clientInfo}>
+          <View style={styles.clientAvatar}>
+            {coach.role === 'trainer'
+              ? <Dumbbell size={20} color={colors.primary} />
+              : <Apple size={20} color={colors.success} />}
           </View>
-          
-          {client.trainer ? (
-            <View style={styles.assignedProfessional}>
-              <View style={styles.professionalInfo}>
-                <Text style={styles.professionalName}>{client.trainer.name}</Text>
-                <Text style={styles.professionalSpec}>{client.trainer.specialization}</Text>
+          <View style={styles.clientDetails}>
+            <Text style={styles.clientName}>{personName(coach)}</Text>
+            <Text style={styles.clientEmail}>{coach.email}</Text>
+            <View style={styles.clientMeta}>
+              <View style={[
+                styles.statusBadge,
+                { backgroundColor: remaining === 0 ? colors.error : colors.success }
+              ]}>
+                <Text style={styles.statusText}>{remaining === 0 ? 'Full' : 'Available'}</Text>
               </View>
-              <TouchableOpacity 
-                style={styles.removeButton}
-                onPress={() => handleRemoveAssignment(client, 'trainer')}
-              >
-                <X size={16} color={colors.error} />
-              </TouchableOpacity>
+              <Text style={styles.joinDate}>{formatLoad(coach)}</Text>
             </View>
-          ) : (
-            <TouchableOpacity 
-              style={styles.assignButton}
-              onPress={() => handleAssignProfessional(client, 'trainer')}
-            >
-              <UserPlus size={16} color={colors.primary} />
-              <Text style={styles.assignButtonText}>Assign</Text>
-            </TouchableOpacity>
-          )}
+            {coach.account_status === 'inactive' && (
+              <Text style={[styles.joinDate, { color: colors.error }]}>Account deactivated</Text>
+            )}
+          </View>
         </View>
 
-        {/* Nutritionist Assignment */}
-        <View style={styles.assignmentRow}>
-          <View style={styles.assignmentInfo}>
-            <Apple size={16} color={colors.success} />
-            <Text style={styles.assignmentType}>Nutritionist</Text>
+        <View style={styles.coachActions}>
+          <TouchableOpacity style={styles.assignButton} onPress={() => openCapacity(coach)}>
+            <Users size={16} color={colors.primary} />
+            <Text style={styles.assignButtonText}>Capacity</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.assignButton, coach.active_clients === 0 && styles.disabledButton]}
+            disabled={coach.active_clients === 0}
+            onPress={() => openReassign(coach)}
+          >
+            <ArrowRightLeft size={16} color={colors.warning} />
+            <Text style={styles.assignButtonText}>Reassign all</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderProfessionalOption = (
+    professional: CoachWorkload,
+    selected: CoachWorkload | null,
+    onSelect: (coach: CoachWorkload) => void
+  ) => {
+    const remaining = getRemainingCapacity(professional);
+    const full = remaining === 0 || professional.account_status === 'inactive';
+
+    return (
+      <TouchableOpacity
+        key={professional.id}
+        style={[
+          styles.professionalOption,
+          selected?.id === professional.id && styles.selectedProfessionalOption,
+          full && styles.disabledButton,
+        ]}
+        disabled={full}
+        onPress={() => onSelect(professional)}
+      >
+        <View style={styles.professionalOptionInfo}>
+          <View style={styles.professionalAvatar}>
+            <Text style={styles.professionalAvatarText}>{personName(professional).charAt(0).toUpperCase()}</Text>
           </View>
-          
-          {client.nutritionist ? (
-            <View style={styles.assignedProfessional}>
-              <View style={styles.professionalInfo}>
-                <Text style={styles.professionalName}>{client.nutritionist.name}</Text>
-                <Text style={styles.professionalSpec}>{client.nutritionist.specialization}</Text>
-              </View>
-              <TouchableOpacity 
-                style={styles.removeButton}
-                onPress={() => handleRemoveAssignment(client, 'nutritionist')}
-              >
-                <X size={16} color={colors.error} />
-              </TouchableOpacity>
+
+          <View style={styles.professionalDetails}>
+            <Text style={styles.professionalOptionName}>{personName(professional)}</Text>
+            <Text style={styles.professionalOptionEmail}>{professional.email}</Text>
+
+            <View style={styles.professionalStats}>
+              <Text style={styles.professionalStat}>👥 {formatLoad(professional)}</Text>
+              {remaining !== null && (
+                <Text style={styles.professionalStat}>
+                  {remaining === 0 ? 'At capacity' : `${remaining} open`}
+                </Text>
+              )}
             </View>
-          ) : (
-            <TouchableOpacity 
-              style={styles.assignButton}
-              onPress={() => handleAssignProfessional(client, 'nutritionist')}
-            >
-              <UserPlus size={16} color={colors.success} />
-              <Text style={styles.assignButtonText}>Assign</Text>
-            </TouchableOpacity>
-          )}
+          </View>
         </View>
-      </View>
+
+        {selected?.id === professional.id && (
+          <View style={styles.selectedIndicator}>
+            <Check size={20} color="#FFFFFF" />
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderReasonInput = (placeholder: string) => (
+    <View style={styles.reasonField}>
+      <Text style={styles.sectionTitle}>Reason (optional)</Text>
+      <TextInput
+        style={styles.reasonInput}
+        value={reason}
+        onChangeText={setReason}
+        placeholder={placeholder}
+        placeholderTextColor={colors.textTertiary}
+        multiline
+      />
     </View>
   );
 
-  const renderProfessionalOption = (professional: Professional) => (
-    <TouchableOpacity
-      key={professional.id}
-      style={[
-        styles.professionalOption,
-        selectedProfessional?.id === professional.id && styles.selectedProfessionalOption
-      ]}
-      onPress={() => setSelectedProfessional(professional)}
-    >
-      <View style={styles.professionalOptionInfo}>
-        <View style={styles.professionalAvatar}>
-          <Text style={styles.professionalAvatarText}>{professional.avatar}</Text>
-        </View>
-        
-        <View style={styles.professionalDetails}>
-          <Text style={styles.professionalOptionName}>{professional.name}</Text>
-          <Text style={styles.professionalOptionEmail}>{professional.email}</Text>
-          <Text style={styles.professionalOptionSpec}>{professional.specialization}</Text>
-          
-          <View style={styles.professionalStats}>
-            <Text style={styles.professionalStat}>⭐ {professional.rating}</Text>
-            <Text style={styles.professionalStat}>👥 {professional.clientCount} clients</Text>
-          </View>
-        </View>
+  const renderHistoryEntry = (entry: AssignmentHistoryEntry) => (
+    <View key={entry.id} style={styles.historyEntry}>
+      <View style={styles.assignmentInfo}>
+        {entry.coach_role === 'trainer'
+          ? <Dumbbell size={16} color={colors.primary} />
+          : <Apple size={16} color={colors.success} />}
+        <Text style={styles.professionalName}>{personName(entry.coach)}</Text>
       </View>
-      
-      {selectedProfessional?.id === professional.id && (
-        <View style={styles.selectedIndicator}>
-          <Check size={20} color="#FFFFFF" />
-        </View>
+      <Text style={styles.historyDates}>
+        {new Date(entry.started_at).toLocaleDateString()} – {entry.ended_at ? new Date(entry.ended_at).toLocaleDateString() : 'present'}
+      </Text>
+      {!!entry.start_reason && (
+        <Text style={styles.historyReason}>
+          Assigned{entry.started_by_profile ? ` by ${personName(entry.started_by_profile)}` : ''}: {entry.start_reason}
+        </Text>
+      )}
+      {!!entry.end_reason && (
+        <Text style={styles.historyReason}>
+          Ended{entry.ended_by_profile ? ` by ${personName(entry.ended_by_profile)}` : ''}: {entry.end_reason}
+        </Text>
       )}
-    </TouchableOpacity>
+    </View>
   );
 
+  const departingOptions = departingCoach
+    ? coachesFor(departingCoach.role).filter(coach => coach.id !== departingCoach.id)
+    : [];
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
@@ -616,88 +486,115 @@ export default function ClientAssignmentView() {
         </View>
       </View>
 
-      {/* Search and Filters */}
-      <View style={styles.searchContainer}>
-        <View style={styles.searchInputContainer}>
-          <Search size={20} color={colors.textTertiary} />
-          <TextInput
-            style={styles.searchInput}
-            placeholder="Search clients..."
-            placeholderTextColor={colors.textTertiary}
-            value={searchQuery}
-            onChangeText={setSearchQuery}
-          />
-        </View>
-      </View>
-
-      {/* Filter Tabs */}
-      <ScrollView 
-        horizontal 
-        showsHorizontalScrollIndicator={false}
-        style={styles.filterContainer}
-        contentContainerStyle={styles.filterContent}
-      >
-        {[
-          { id: 'all', label: 'All Clients' },
-          { id: 'assigned', label: 'Assigned' },
-          { id: 'unassigned', label: 'Unassigned' },
-          { id: 'trainer-only', label: 'Trainer Only' },
-          { id: 'nutritionist-only', label: 'Nutritionist Only' },
-        ].map((filter) => (
+      {/* Mode */}
+      <View style={styles.modeToggle}>
+        {(['clients', 'coaches'] as ViewMode[]).map(option => (
           <TouchableOpacity
-            key={filter.id}
-            style={[
-              styles.filterChip,
-              selectedFilter === filter.id && styles.activeFilterChip
-            ]}
-            onPress={() => setSelectedFilter(filter.id)}
+            key={option}
+            style={[styles.modeOption, mode === option && styles.activeModeOption]}
+            onPress={() => setMode(option)}
           >
-            <Text style={[
-              styles.filterText,
-              selectedFilter === filter.id && styles.activeFilterText
-            ]}>
-              {filter.label}
+            <Text style={[styles.filterText, mode === option && styles.activeFilterText]}>
+              {option === 'clients' ? 'Clients' : 'Coaches'}
             </Text>
           </TouchableOpacity>
         ))}
-      </ScrollView>
-
-      {/* Assignment Stats */}
-      <View style={styles.statsContainer}>
-        <View style={styles.statCard}>
-          <Text style={styles.statNumber}>
-            {clients.filter(c => c.trainer && c.nutritionist).length}
-          </Text>
-          <Text style={styles.statLabel}>Fully Assigned</Text>
-        </View>
-        <View style={styles.statCard}>
-          <Text style={styles.statNumber}>
-            {clients.filter(c => c.trainer).length}
-          </Text>
-          <Text style={styles.statLabel}>Have Trainer</Text>
-        </View>
-        <View style={styles.statCard}>
-          <Text style={styles.statNumber}>
-            {clients.filter(c => c.nutritionist).length}
-          </Text>
-          <Text style={styles.statLabel}>Have Nutritionist</Text>
-        </View>
-        <View style={styles.statCard}>
-          <Text style={styles.statNumber}>
-            {clients.filter(c => !c.trainer && !c.nutritionist).length}
-          </Text>
-          <Text style={styles.statLabel}>Unassigned</Text>
-        </View>
       </View>
 
-      {/* Client List */}
+      {mode === 'clients' && (
+        <>
+          {/* Search and Filters */}
+          <View style={styles.searchContainer}>
+            <View style={styles.searchInputContainer}>
+              <Search size={20} color={colors.textTertiary} />
+              <TextInput
+                style={styles.searchInput}
+                placeholder="Search clients..."
+                placeholderTextColor={colors.textTertiary}
+                value={searchQuery}
+                onChangeText={setSearchQuery}
+              />
+            </View>
+          </View>
+
+          {/* Filter Tabs */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.filterContainer}
+            contentContainerStyle={styles.filterContent}
+          >
+            {[
+              { id: 'all', label: 'All Clients' },
+              { id: 'assigned', label: 'Assigned' },
+              { id: 'unassigned', label: 'Unassigned' },
+              { id: 'trainer-only', label: 'Trainer Only' },
+              { id: 'nutritionist-only', label: 'Nutritionist Only' },
+            ].map((filter) => (
+              <TouchableOpacity
+                key={filter.id}
+                style={[
+                  styles.filterChip,
+                  selectedFilter === filter.id && styles.activeFilterChip
+                ]}
+                onPress={() => setSelectedFilter(filter.id)}
+              >
+                <Text style={[
+                  styles.filterText,
+                  selectedFilter === filter.id && styles.activeFilterText
+                ]}>
+                  {filter.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          {/* Assignment Stats */}
+          <View style={styles.statsContainer}>
+            <View style={styles.statCard}>
+              <Text style={styles.statNumber}>
+                {clients.filter(c => c.assignment?.trainer && c.assignment?.nutritionist).length}
+              </Text>
+              <Text style={styles.statLabel}>Fully Assigned</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statNumber}>
+                {clients.filter(c => c.assignment?.trainer).length}
+              </Text>
+              <Text style={styles.statLabel}>Have Trainer</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statNumber}>
+                {clients.filter(c => c.assignment?.nutritionist).length}
+              </Text>
+              <Text style={styles.statLabel}>Have Nutritionist</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statNumber}>
+                {clients.filter(c => !c.assignment?.trainer && !c.assignment?.nutritionist).length}
+              </Text>
+              <Text style={styles.statLabel}>Unassigned</Text>
+            </View>
+          </View>
+        </>
+      )}
+
       <ScrollView style={styles.clientList} showsVerticalScrollIndicator={false}>
-        {filteredClients.length === 0 ? (
+        {loading ? (
+          <ActivityIndicator style={{ marginTop: 40 }} color={colors.primary} />
+        ) : mode === 'coaches' ? (
+          <>
+            <Text style={styles.sectionTitle}>Trainers</Text>
+            {trainers.map(renderCoachCard)}
+            <Text style={styles.sectionTitle}>Nutritionists</Text>
+            {nutritionists.map(renderCoachCard)}
+          </>
+        ) : filteredClients.length === 0 ? (
           <View style={styles.emptyState}>
             <Users size={48} color={colors.textTertiary} />
             <Text style={styles.emptyTitle}>No clients found</Text>
             <Text style={styles.emptyText}>
-              {searchQuery 
+              {searchQuery
                 ? "Try adjusting your search terms"
                 : "No clients match the selected filter"}
             </Text>
@@ -705,7 +602,7 @@ export default function ClientAssignmentView() {
         ) : (
           filteredClients.map(renderClientCard)
         )}
-        
+
         <View style={{ height: 100 }} />
       </ScrollView>
 
@@ -722,15 +619,15 @@ export default function ClientAssignmentView() {
               <X size={24} color={colors.text} />
             </TouchableOpacity>
             <Text style={styles.modalTitle}>
-              Assign {assignmentType === 'trainer' ? 'Trainer' : 'Nutritionist'}
+              Assign {roleLabel(assignmentType)}
             </Text>
-            <TouchableOpacity 
+            <TouchableOpacity
               onPress={handleConfirmAssignment}
-              disabled={!selectedProfessional}
+              disabled={!selectedProfessional || saving}
             >
               <Text style={[
                 styles.confirmButtonText,
-                !selectedProfessional && styles.confirmButtonDisabled
+                (!selectedProfessional || saving) && styles.confirmButtonDisabled
               ]}>
                 Assign
               </Text>
@@ -739,20 +636,184 @@ export default function ClientAssignmentView() {
 
           {selectedClient && (
             <View style={styles.modalClientInfo}>
-              <Text style={styles.modalClientName}>Client: {selectedClient.full_name}</Text>
+              <Text style={styles.modalClientName}>Client: {personName(selectedClient)}</Text>
               <Text style={styles.modalClientEmail}>{selectedClient.email}</Text>
             </View>
           )}
 
           <ScrollView style={styles.modalContent}>
+            {renderReasonInput('e.g. Client asked for a strength specialist')}
+
             <Text style={styles.sectionTitle}>
               Available {assignmentType === 'trainer' ? 'Trainers' : 'Nutritionists'}
             </Text>
-            
-            {getProfessionals().map(renderProfessionalOption)}
+
+            {coachesFor(assignmentType).map(coach =>
+              renderProfessionalOption(coach, selectedProfessional, setSelectedProfessional)
+            )}
           </ScrollView>
         </SafeAreaView>
       </Modal>
+
+      {/* Remove Assignment Modal */}
+      <Modal
+        visible={!!removal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setRemoval(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setRemoval(null)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Remove {removal ? roleLabel(removal.role) : ''}</Text>
+            <TouchableOpacity onPress={handleConfirmRemoval} disabled={saving}>
+              <Text style={[styles.confirmButtonText, { color: colors.error }, saving && styles.confirmButtonDisabled]}>
+                Remove
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {removal && (
+            <View style={styles.modalClientInfo}>
+              <Text style={styles.modalClientName}>Client: {personName(removal.client)}</Text>
+              <Text style={styles.modalClientEmail}>
+                {roleLabel(removal.role)}: {personName(
+                  removal.role === 'trainer' ? removal.client.assignment?.trainer : removal.client.assignment?.nutritionist
+                )}
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.modalContent}>
+            {renderReasonInput('e.g. Client paused their membership')}
+          </View>
+        </SafeAreaView>
+      </Modal>
+
+      {/* History Modal */}
+      <Modal
+        visible={!!historyClient}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setHistoryClient(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setHistoryClient(null)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Assignment History</Text>
+            <View style={{ width: 24 }} />
+          </View>
+
+          {historyClient && (
+            <View style={styles.modalClientInfo}>
+              <Text style={styles.modalClientName}>{personName(historyClient)}</Text>
+              <Text style={styles.modalClientEmail}>{historyClient.email}</Text>
+            </View>
+          )}
+
+          <ScrollView style={styles.modalContent}>
+            {historyLoading ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : history.length === 0 ? (
+              <Text style={styles.emptyText}>No coaches assigned yet</Text>
+            ) : (
+              history.map(renderHistoryEntry)
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Bulk Reassign Modal */}
+      <Modal
+        visible={!!departingCoach}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setDepartingCoach(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setDepartingCoach(null)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Reassign Clients</Text>
+            <TouchableOpacity onPress={handleConfirmReassign} disabled={saving}>
+              <Text style={[styles.confirmButtonText, saving && styles.confirmButtonDisabled]}>
+                Reassign
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {departingCoach && (
+            <View style={styles.modalClientInfo}>
+              <Text style={styles.modalClientName}>From: {personName(departingCoach)}</Text>
+              <Text style={styles.modalClientEmail}>{departingCoach.active_clients} active clients</Text>
+            </View>
+          )}
+
+          <ScrollView style={styles.modalContent}>
+            {renderReasonInput('e.g. Coach is leaving the team')}
+
+            <Text style={styles.sectionTitle}>Move clients to</Text>
+            <TouchableOpacity
+              style={[styles.professionalOption, !replacementCoach && styles.selectedProfessionalOption]}
+              onPress={() => setReplacementCoach(null)}
+            >
+              <Text style={styles.professionalOptionName}>Leave unassigned</Text>
+              {!replacementCoach && (
+                <View style={styles.selectedIndicator}>
+                  <Check size={20} color="#FFFFFF" />
+                </View>
+              )}
+            </TouchableOpacity>
+            {departingOptions.map(coach =>
+              renderProfessionalOption(coach, replacementCoach, setReplacementCoach)
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Capacity Modal */}
+      <Modal
+        visible={!!capacityCoach}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setCapacityCoach(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setCapacityCoach(null)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Client Capacity</Text>
+            <TouchableOpacity onPress={handleSaveCapacity} disabled={saving}>
+              <Text style={[styles.confirmButtonText, saving && styles.confirmButtonDisabled]}>Save</Text>
+            </TouchableOpacity>
+          </View>
+
+          {capacityCoach && (
+            <View style={styles.modalClientInfo}>
+              <Text style={styles.modalClientName}>{personName(capacityCoach)}</Text>
+              <Text style={styles.modalClientEmail}>Currently {formatLoad(capacityCoach)}</Text>
+            </View>
+          )}
+
+          <View style={styles.modalContent}>
+            <Text style={styles.sectionTitle}>Maximum active clients</Text>
+            <TextInput
+              style={styles.reasonInput}
+              value={capacityInput}
+              onChangeText={setCapacityInput}
+              placeholder="No limit"
+              placeholderTextColor={colors.textTertiary}
+              keyboardType="number-pad"
+            />
+          </View>
+        </SafeAreaView>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -929,31 +990,6 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 12,
     color: colors.textSecondary,
   },
-  goalsSection: {
-    marginBottom: 16,
-  },
-  goalsLabel: {
-    fontFamily: 'Inter-SemiBold',
-    fontSize: 14,
-    color: colors.text,
-    marginBottom: 8,
-  },
-  goalTags: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 8,
-  },
-  goalTag: {
-    backgroundColor: colors.primary + '20',
-    borderRadius: 12,
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-  },
-  goalTagText: {
-    fontFamily: 'Inter-Medium',
-    fontSize: 12,
-    color: colors.primary,
-  },
   assignmentsSection: {
     borderTopWidth: 1,
     borderTopColor: colors.border,
@@ -1164,4 +1200,73 @@ const createStyles = (colors: any) => StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
-});
\ No newline at end of file
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  coachActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    marginHorizontal: 20,
+    marginTop: 16,
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    padding: 4,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  modeOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  activeModeOption: {
+    backgroundColor: colors.primary,
+  },
+  reasonField: {
+    marginBottom: 8,
+  },
+  reasonInput: {
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontFamily: 'Inter-Regular',
+    fontSize: 15,
+    color: colors.text,
+    minHeight: 44,
+  },
+  historyEntry: {
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  historyDates: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  historyReason: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: 2,
+  },
+});
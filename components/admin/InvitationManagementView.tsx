@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -6,67 +6,39 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
+  ActivityIndicator,
+  RefreshControl,
 } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
 import { Mail, Clock, CircleCheck as CheckCircle, Circle as XCircle, RefreshCw, Copy, Calendar, User } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import { UserRole } from '../../contexts/UserContext';
-
-interface Invitation {
-  id: string;
-  email: string;
-  role: UserRole;
-  status: 'pending' | 'accepted' | 'expired' | 'cancelled';
-  sentDate: string;
-  expiryDate: string;
-  trialDays: number;
-  inviteLink: string;
-  sentBy: string;
-}
-
-const mockInvitations: Invitation[] = [
-  {
-    id: '1',
-    email: 'john.doe@example.com',
-    role: 'trainer',
-    status: 'pending',
-    sentDate: '2024-06-10',
-    expiryDate: '2024-06-17',
-    trialDays: 14,
-    inviteLink: 'https://vinayfit.app/invite?token=abc123',
-    sentBy: 'Admin User',
-  },
-  {
-    id: '2',
-    email: 'jane.smith@example.com',
-    role: 'client',
-    status: 'accepted',
-    sentDate: '2024-06-08',
-    expiryDate: '2024-06-15',
-    trialDays: 7,
-    inviteLink: 'https://vinayfit.app/invite?token=def456',
-    sentBy: 'Admin User',
-  },
-  {
-    id: '3',
-    email: 'bob.wilson@example.com',
-    role: 'nutritionist',
-    status: 'expired',
-    sentDate: '2024-06-01',
-    expiryDate: '2024-06-08',
-    trialDays: 14,
-    inviteLink: 'https://vinayfit.app/invite?token=ghi789',
-    sentBy: 'Admin User',
-  },
-];
+import {
+  Invitation,
+  IssuedInvitation,
+  cancelInvitation,
+  getInvitations,
+  resendInvitation,
+} from '../../lib/invitationQueries';
 
 export default function InvitationManagementView() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
 
-  const [invitations, setInvitations] = useState<Invitation[]>(mockInvitations);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
+  const [loading, setLoading] = useState(true);
+
+  const loadInvitations = async () => {
+    setInvitations(await getInvitations());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadInvitations();
+  }, []);
 
   const statusOptions = [
     { value: 'all', label: 'All' },
@@ -111,13 +83,35 @@ export default function InvitationManagementView() {
     }
   };
 
-  const handleCopyLink = (link: string) => {
-    // In a real app, copy to clipboard
-    Alert.alert('Copied!', 'Invitation link copied to clipboard');
-    console.log('Copied to clipboard:', link);
+  const shareIssuedLink = async (issued: IssuedInvitation, email: string) => {
+    await Clipboard.setStringAsync(issued.invite_link);
+    Alert.alert('Link Copied', `A new invitation link for ${email} has been copied to your clipboard.`);
   };
 
-  const handleResendInvitation = (invitationId: string) => {
+  // Only a hash of each token is stored, so copying a link always issues a fresh one
+  const handleCopyLink = (invitation: Invitation) => {
+    Alert.alert(
+      'Copy Invitation Link',
+      'Invitation links are only shown when issued. Generate a new link? The previous link will stop working.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Generate',
+          onPress: async () => {
+            const issued = await resendInvitation(invitation.id);
+            if (!issued) {
+              Alert.alert('Error', 'Failed to generate a new invitation link');
+              return;
+            }
+            await shareIssuedLink(issued, invitation.email);
+            loadInvitations();
+          }
+        }
+      ]
+    );
+  };
+
+  const handleResendInvitation = (invitation: Invitation) => {
     Alert.alert(
       'Resend Invitation',
       'Are you sure you want to resend this invitation?',
@@ -125,20 +119,14 @@ export default function InvitationManagementView() {
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Resend',
-          onPress: () => {
-            setInvitations(prev => 
-              prev.map(inv => 
-                inv.id === invitationId 
-                  ? { 
-                      ...inv, 
-                      status: 'pending',
-                      sentDate: new Date().toISOString().split('T')[0],
-                      expiryDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
-                    }
-                  : inv
-              )
-            );
-            Alert.alert('Success', 'Invitation has been resent');
+          onPress: async () => {
+            const issued = await resendInvitation(invitation.id);
+            if (!issued) {
+              Alert.alert('Error', 'Failed to resend invitation');
+              return;
+            }
+            await shareIssuedLink(issued, invitation.email);
+            loadInvitations();
           }
         }
       ]
@@ -154,14 +142,13 @@ export default function InvitationManagementView() {
         {
           text: 'Yes',
           style: 'destructive',
-          onPress: () => {
-            setInvitations(prev => 
-              prev.map(inv => 
-                inv.id === invitationId 
-                  ? { ...inv, status: 'cancelled' }
-                  : inv
-              )
-            );
+          onPress: async () => {
+            const success = await cancelInvitation(invitationId);
+            if (!success) {
+              Alert.alert('Error', 'Failed to cancel invitation');
+              return;
+            }
+            loadInvitations();
           }
         }
       ]
@@ -170,8 +157,8 @@ export default function InvitationManagementView() {
 
   const renderInvitationCard = (invitation: Invitation) => {
     const StatusIcon = getStatusIcon(invitation.status);
-    const isExpired = new Date(invitation.expiryDate) < new Date();
-    const daysUntilExpiry = Math.ceil((new Date(invitation.expiryDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
+    const isExpired = new Date(invitation.expires_at) < new Date();
+    const daysUntilExpiry = Math.ceil((new Date(invitation.expires_at).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
 
     return (
       <View key={invitation.id} style={styles.invitationCard}>
@@ -199,16 +186,21 @@ export default function InvitationManagementView() {
           <View style={styles.detailRow}>
             <Calendar size={14} color={colors.textSecondary} />
             <Text style={styles.detailText}>
-              Sent: {new Date(invitation.sentDate).toLocaleDateString()}
+              Sent: {new Date(invitation.sent_at).toLocaleDateString()}
+              {invitation.inviter ? ` by ${invitation.inviter.full_name || invitation.inviter.email}` : ''}
             </Text>
           </View>
           
           <View style={styles.detailRow}>
             <Clock size={14} color={colors.textSecondary} />
             <Text style={styles.detailText}>
-              {invitation.status === 'pending' && !isExpired
+              {invitation.status === 'accepted' && invitation.accepted_at
+                ? `Accepted: ${new Date(invitation.accepted_at).toLocaleDateString()}`
+                : invitation.status === 'cancelled' && invitation.cancelled_at
+                ? `Cancelled: ${new Date(invitation.cancelled_at).toLocaleDateString()}`
+                : invitation.status === 'pending' && !isExpired
                 ? `Expires in ${daysUntilExpiry} day${daysUntilExpiry !== 1 ? 's' : ''}`
-                : `Expired: ${new Date(invitation.expiryDate).toLocaleDateString()}`
+                : `Expired: ${new Date(invitation.expires_at).toLocaleDateString()}`
               }
             </Text>
           </View>
@@ -216,23 +208,25 @@ export default function InvitationManagementView() {
           <View style={styles.detailRow}>
             <User size={14} color={colors.textSecondary} />
             <Text style={styles.detailText}>
-              Trial: {invitation.trialDays} days
+              Trial: {invitation.trial_days} days
             </Text>
           </View>
         </View>
 
         <View style={styles.invitationActions}>
-          <TouchableOpacity 
-            style={styles.actionButton}
-            onPress={() => handleCopyLink(invitation.inviteLink)}
-          >
-            <Copy size={16} color={colors.primary} />
-          </TouchableOpacity>
-          
           {invitation.status === 'pending' && (
             <TouchableOpacity 
               style={styles.actionButton}
-              onPress={() => handleResendInvitation(invitation.id)}
+              onPress={() => handleCopyLink(invitation)}
+            >
+              <Copy size={16} color={colors.primary} />
+            </TouchableOpacity>
+          )}
+          
+          {(invitation.status === 'pending' || invitation.status === 'expired') && (
+            <TouchableOpacity 
+              style={styles.actionButton}
+              onPress={() => handleResendInvitation(invitation)}
             >
               <RefreshCw size={16} color={colors.success} />
             </TouchableOpacity>
@@ -305,8 +299,16 @@ export default function InvitationManagementView() {
       </View>
 
       {/* Invitations List */}
-      <ScrollView style={styles.invitationsList} showsVerticalScrollIndicator={false}>
-        {filteredInvitations.length === 0 ? (
+      <ScrollView
+        style={styles.invitationsList}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={false} onRefresh={loadInvitations} />}
+      >
+        {loading ? (
+          <View style={styles.emptyState}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : filteredInvitations.length === 0 ? (
           <View style={styles.emptyState}>
             <Mail size={48} color={colors.textTertiary} />
             <Text style={styles.emptyTitle}>No invitations found</Text>
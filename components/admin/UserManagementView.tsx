@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -8,116 +8,98 @@ import {
   TextInput,
   Modal,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
-import { 
-  Users, 
-  Plus, 
-  Search, 
-  Filter, 
-  Mail, 
-  Calendar, 
-  Shield, 
-  UserCheck, 
-  UserX, 
-  Clock,
-  ChevronDown,
+import * as Clipboard from 'expo-clipboard';
+import {
+  Plus,
+  Search,
+  Filter,
+  Mail,
+  Shield,
+  UserCheck,
+  UserX,
+  KeyRound,
+  ChevronLeft,
+  ChevronRight,
   X
 } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
+import { usePermissions } from '../../hooks/usePermissions';
 import { UserRole } from '../../contexts/UserContext';
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  role: UserRole;
-  status: 'active' | 'inactive' | 'trial' | 'pending';
-  joinDate: string;
-  trialEndDate?: string;
-  lastActive: string;
-  avatar: string;
-}
+import { AccountStatus } from '../../types/permissions';
+import { Profile } from '../../lib/database';
+import { createInvitation, InvitationRole } from '../../lib/invitationQueries';
+import {
+  DEFAULT_USER_PAGE_SIZE,
+  UserAssignment,
+  getProfileStatusCounts,
+  getUserAssignments,
+  searchProfiles,
+  sendPasswordReset,
+  setUserRole,
+  setUserStatus,
+} from '../../lib/adminQueries';
 
 interface InviteData {
   email: string;
-  role: UserRole;
+  role: InvitationRole;
   trialDays: number;
   customMessage: string;
 }
 
-const mockUsers: User[] = [
-  {
-    id: '1',
-    name: 'Sarah Johnson',
-    email: 'sarah@example.com',
-    role: 'trainer',
-    status: 'active',
-    joinDate: '2024-01-15',
-    lastActive: '2 hours ago',
-    avatar: '👩‍💼',
-  },
-  {
-    id: '2',
-    name: 'Mike Chen',
-    email: 'mike@example.com',
-    role: 'client',
-    status: 'trial',
-    joinDate: '2024-06-01',
-    trialEndDate: '2024-06-15',
-    lastActive: '1 day ago',
-    avatar: '👨‍💻',
-  },
-  {
-    id: '3',
-    name: 'Emma Wilson',
-    email: 'emma@example.com',
-    role: 'nutritionist',
-    status: 'active',
-    joinDate: '2024-03-20',
-    lastActive: '30 min ago',
-    avatar: '👩‍🎨',
-  },
-  {
-    id: '4',
-    name: 'David Lee',
-    email: 'david@example.com',
-    role: 'hr',
-    status: 'pending',
-    joinDate: '2024-06-10',
-    lastActive: 'Never',
-    avatar: '👨‍💼',
-  },
-];
-
 const roleOptions: { value: UserRole; label: string; color: string }[] = [
   { value: 'client', label: 'Client', color: '#3B82F6' },
   { value: 'trainer', label: 'Trainer', color: '#10B981' },
   { value: 'nutritionist', label: 'Nutritionist', color: '#F59E0B' },
   { value: 'admin', label: 'Admin', color: '#EF4444' },
   { value: 'hr', label: 'HR', color: '#8B5CF6' },
+  { value: 'leads', label: 'Lead', color: '#6B7280' },
 ];
 
-const statusOptions = [
+// Leads sign themselves up; invitations are for everyone else
+const inviteRoleOptions = roleOptions.filter(
+  (option): option is { value: InvitationRole; label: string; color: string } => option.value !== 'leads'
+);
+
+const statusOptions: { value: AccountStatus | 'all'; label: string }[] = [
   { value: 'all', label: 'All Users' },
   { value: 'active', label: 'Active' },
-  { value: 'trial', label: 'Trial' },
-  { value: 'pending', label: 'Pending' },
   { value: 'inactive', label: 'Inactive' },
 ];
 
+const SEARCH_DEBOUNCE_MS = 300;
+
+const isOnTrial = (user: Profile) => !!user.trial_ends_at && new Date(user.trial_ends_at) > new Date();
+
 export default function UserManagementView() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
+  const { can } = usePermissions();
+  // Inviting to a staff role grants it, so it takes the same capability
+  const invitableRoles = inviteRoleOptions.filter(
+    option => can('roles.assign') || (option.value !== 'admin' && option.value !== 'hr')
+  );
 
-  const [users, setUsers] = useState<User[]>(mockUsers);
+  const [users, setUsers] = useState<Profile[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [counts, setCounts] = useState({ total: 0, active: 0, inactive: 0 });
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedStatus, setSelectedStatus] = useState('all');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [selectedStatus, setSelectedStatus] = useState<AccountStatus | 'all'>('all');
   const [selectedRole, setSelectedRole] = useState<UserRole | 'all'>('all');
   const [showInviteModal, setShowInviteModal] = useState(false);
   const [showFilterModal, setShowFilterModal] = useState(false);
-  
+  const [selectedUser, setSelectedUser] = useState<Profile | null>(null);
+  const [assignments, setAssignments] = useState<UserAssignment[]>([]);
+  const [assignmentsLoading, setAssignmentsLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
   const [inviteData, setInviteData] = useState<InviteData>({
     email: '',
     role: 'client',
@@ -125,20 +107,43 @@ export default function UserManagementView() {
     customMessage: '',
   });
 
-  const filteredUsers = users.filter(user => {
-    const matchesSearch = user.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         user.email.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesStatus = selectedStatus === 'all' || user.status === selectedStatus;
-    const matchesRole = selectedRole === 'all' || user.role === selectedRole;
-    
-    return matchesSearch && matchesStatus && matchesRole;
-  });
+  const pageCount = Math.max(1, Math.ceil(total / DEFAULT_USER_PAGE_SIZE));
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // A new search or filter starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [debouncedQuery, selectedStatus, selectedRole]);
+
+  const loadUsers = useCallback(async () => {
+    setLoading(true);
+    const [result, statusCounts] = await Promise.all([
+      searchProfiles({
+        query: debouncedQuery,
+        role: selectedRole,
+        status: selectedStatus,
+        page,
+      }),
+      getProfileStatusCounts(),
+    ]);
+    setUsers(result.users);
+    setTotal(result.total);
+    setCounts(statusCounts);
+    setLoading(false);
+  }, [debouncedQuery, selectedRole, selectedStatus, page]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active': return colors.success;
       case 'trial': return colors.warning;
-      case 'pending': return colors.info;
       case 'inactive': return colors.error;
       default: return colors.textSecondary;
     }
@@ -149,26 +154,52 @@ export default function UserManagementView() {
     return roleOption?.color || colors.textSecondary;
   };
 
-  const handleSendInvite = () => {
+  const getRoleLabel = (role: UserRole) =>
+    roleOptions.find(option => option.value === role)?.label || role;
+
+  const getDisplayStatus = (user: Profile) => {
+    if (user.account_status === 'inactive') return 'inactive';
+    return isOnTrial(user) ? 'trial' : 'active';
+  };
+
+  const replaceUser = (updated: Profile) => {
+    setUsers(prev => prev.map(user => (user.id === updated.id ? updated : user)));
+    setSelectedUser(prev => (prev?.id === updated.id ? updated : prev));
+  };
+
+  const openUser = async (user: Profile) => {
+    setSelectedUser(user);
+    setAssignments([]);
+    setAssignmentsLoading(true);
+    setAssignments(await getUserAssignments(user.id));
+    setAssignmentsLoading(false);
+  };
+
+  const handleSendInvite = async () => {
     if (!inviteData.email.trim()) {
       Alert.alert('Error', 'Please enter an email address');
       return;
     }
 
-    // Generate invitation link
-    const inviteLink = `https://vinayfit.app/invite?token=${generateInviteToken()}&role=${inviteData.role}&trial=${inviteData.trialDays}`;
-    
-    // In a real app, this would send an email
+    const issued = await createInvitation({
+      email: inviteData.email,
+      role: inviteData.role,
+      trialDays: inviteData.trialDays,
+      customMessage: inviteData.customMessage,
+    });
+
+    if (!issued) {
+      Alert.alert('Error', 'Failed to create invitation. Please try again.');
+      return;
+    }
+
     Alert.alert(
-      'Invitation Sent!',
-      `Invitation link has been sent to ${inviteData.email}\n\nLink: ${inviteLink}`,
+      'Invitation Created!',
+      `Share this link with ${inviteData.email}. It can be used once and expires on ${new Date(issued.expires_at).toLocaleDateString()}.\n\nLink: ${issued.invite_link}`,
       [
         {
           text: 'Copy Link',
-          onPress: () => {
-            // In a real app, copy to clipboard
-            console.log('Copied to clipboard:', inviteLink);
-          }
+          onPress: () => Clipboard.setStringAsync(issued.invite_link),
         },
         { text: 'OK' }
       ]
@@ -184,100 +215,183 @@ export default function UserManagementView() {
     setShowInviteModal(false);
   };
 
-  const generateInviteToken = () => {
-    return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-  };
-
-  const handleUserAction = (userId: string, action: 'activate' | 'deactivate' | 'delete') => {
+  const handleStatusChange = (user: Profile, status: AccountStatus) => {
+    const action = status === 'inactive' ? 'deactivate' : 'reactivate';
     Alert.alert(
       'Confirm Action',
-      `Are you sure you want to ${action} this user?`,
+      `Are you sure you want to ${action} ${user.full_name || user.email}?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Confirm',
-          style: action === 'delete' ? 'destructive' : 'default',
-          onPress: () => {
-            setUsers(prev => {
-              if (action === 'delete') {
-                return prev.filter(user => user.id !== userId);
-              } else {
-                return prev.map(user => 
-                  user.id === userId 
-                    ? { ...user, status: action === 'activate' ? 'active' : 'inactive' }
-                    : user
-                );
-              }
-            });
+          style: status === 'inactive' ? 'destructive' : 'default',
+          onPress: async () => {
+            setSaving(true);
+            const updated = await setUserStatus(user.id, status);
+            setSaving(false);
+            if (!updated) {
+              Alert.alert('Error', `Failed to ${action} this user. Please try again.`);
+              return;
+            }
+            replaceUser(updated);
+            setCounts(await getProfileStatusCounts());
           }
         }
       ]
     );
   };
 
-  const renderUserCard = (user: User) => (
-    <View key={user.id} style={styles.userCard}>
-      <View style={styles.userInfo}>
-        <View style={styles.userAvatar}>
-          <Text style={styles.userAvatarText}>{user.avatar}</Text>
-        </View>
-        
-        <View style={styles.userDetails}>
-          <Text style={styles.userName}>{user.name}</Text>
-          <Text style={styles.userEmail}>{user.email}</Text>
-          
-          <View style={styles.userMeta}>
-            <View style={[styles.roleBadge, { backgroundColor: `${getRoleColor(user.role)}20` }]}>
-              <Text style={[styles.roleText, { color: getRoleColor(user.role) }]}>
-                {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
-              </Text>
+  const handleRoleChange = (user: Profile, role: UserRole) => {
+    if (role === user.role) return;
+    Alert.alert(
+      'Change Role',
+      `Change ${user.full_name || user.email} from ${getRoleLabel(user.role)} to ${getRoleLabel(role)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Change',
+          onPress: async () => {
+            setSaving(true);
+            const updated = await setUserRole(user.id, role);
+            setSaving(false);
+            if (!updated) {
+              Alert.alert('Error', 'Failed to change this role. You cannot change your own role.');
+              return;
+            }
+            replaceUser(updated);
+          }
+        }
+      ]
+    );
+  };
+
+  const handlePasswordReset = (user: Profile) => {
+    Alert.alert(
+      'Reset Password',
+      `Send a password reset email to ${user.email}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Send',
+          onPress: async () => {
+            setSaving(true);
+            const sent = await sendPasswordReset(user);
+            setSaving(false);
+            Alert.alert(
+              sent ? 'Email Sent' : 'Error',
+              sent ? `A reset link was sent to ${user.email}.` : 'Failed to send the reset email. Please try again.'
+            );
+          }
+        }
+      ]
+    );
+  };
+
+  const renderUserCard = (user: Profile) => {
+    const status = getDisplayStatus(user);
+    const name = user.full_name || user.email;
+
+    return (
+      <TouchableOpacity key={user.id} style={styles.userCard} onPress={() => openUser(user)}>
+        <View style={styles.userInfo}>
+          <View style={styles.userAvatar}>
+            <Text style={styles.userAvatarText}>{name.charAt(0).toUpperCase()}</Text>
+          </View>
+
+          <View style={styles.userDetails}>
+            <Text style={styles.userName}>{name}</Text>
+            <Text style={styles.userEmail}>{user.email}</Text>
+
+            <View style={styles.userMeta}>
+              <View style={[styles.roleBadge, { backgroundColor: `${getRoleColor(user.role)}20` }]}>
+                <Text style={[styles.roleText, { color: getRoleColor(user.role) }]}>
+                  {getRoleLabel(user.role)}
+                </Text>
+              </View>
+
+              <View style={[styles.statusBadge, { backgroundColor: getStatusColor(status) }]}>
+                <Text style={styles.statusText}>
+                  {status.charAt(0).toUpperCase() + status.slice(1)}
+                </Text>
+              </View>
             </View>
-            
-            <View style={[styles.statusBadge, { backgroundColor: getStatusColor(user.status) }]}>
-              <Text style={styles.statusText}>
-                {user.status.charAt(0).toUpperCase() + user.status.slice(1)}
+
+            <Text style={styles.lastActive}>Joined {new Date(user.created_at).toLocaleDateString()}</Text>
+
+            {status === 'trial' && user.trial_ends_at && (
+              <Text style={styles.trialInfo}>
+                Trial ends: {new Date(user.trial_ends_at).toLocaleDateString()}
               </Text>
-            </View>
+            )}
           </View>
-          
-          <Text style={styles.lastActive}>Last active: {user.lastActive}</Text>
-          
-          {user.status === 'trial' && user.trialEndDate && (
-            <Text style={styles.trialInfo}>
-              Trial ends: {new Date(user.trialEndDate).toLocaleDateString()}
-            </Text>
-          )}
+        </View>
+
+        <View style={styles.userActions}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleStatusChange(user, user.account_status === 'inactive' ? 'active' : 'inactive')}
+          >
+            {user.account_status === 'inactive' ? (
+              <UserCheck size={16} color={colors.success} />
+            ) : (
+              <UserX size={16} color={colors.error} />
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handlePasswordReset(user)}
+          >
+            <KeyRound size={16} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderAssignment = (assignment: UserAssignment) => {
+    const isClient = assignment.client_id === selectedUser?.id;
+    const people = isClient
+      ? [
+          assignment.trainer && `Trainer: ${assignment.trainer.full_name || assignment.trainer.email}`,
+          assignment.nutritionist && `Nutritionist: ${assignment.nutritionist.full_name || assignment.nutritionist.email}`,
+        ]
+      : [`Client: ${assignment.client?.full_name || assignment.client?.email || 'Unknown'}`];
+
+    return (
+      <View key={assignment.id} style={styles.assignmentRow}>
+        <View style={{ flex: 1 }}>
+          {people.filter(Boolean).map(line => (
+            <Text key={line as string} style={styles.assignmentText}>{line}</Text>
+          ))}
+          <Text style={styles.assignmentMeta}>
+            Since {new Date(assignment.assigned_date).toLocaleDateString()}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(assignment.status) }]}>
+          <Text style={styles.statusText}>
+            {assignment.status.charAt(0).toUpperCase() + assignment.status.slice(1)}
+          </Text>
         </View>
       </View>
-      
-      <View style={styles.userActions}>
-        <TouchableOpacity 
-          style={styles.actionButton}
-          onPress={() => handleUserAction(user.id, user.status === 'active' ? 'deactivate' : 'activate')}
-        >
-          {user.status === 'active' ? (
-            <UserX size={16} color={colors.error} />
-          ) : (
-            <UserCheck size={16} color={colors.success} />
-          )}
-        </TouchableOpacity>
-        
-        <TouchableOpacity 
-          style={styles.actionButton}
-          onPress={() => handleUserAction(user.id, 'delete')}
-        >
-          <X size={16} color={colors.error} />
-        </TouchableOpacity>
-      </View>
-    </View>
-  );
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
         {/* <Text style={styles.title}>User Management</Text> */}
-        <TouchableOpacity 
+        {can('audit.read') && (
+          <TouchableOpacity
+            style={styles.auditButton}
+            onPress={() => router.push('/admin/audit-log')}
+          >
+            <Shield size={18} color={colors.textSecondary} />
+            <Text style={styles.auditButtonText}>Audit Log</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
           style={styles.inviteButton}
           onPress={() => setShowInviteModal(true)}
         >
@@ -296,10 +410,11 @@ export default function UserManagementView() {
             placeholderTextColor={colors.textTertiary}
             value={searchQuery}
             onChangeText={setSearchQuery}
+            autoCapitalize="none"
           />
         </View>
-        
-        <TouchableOpacity 
+
+        <TouchableOpacity
           style={styles.filterButton}
           onPress={() => setShowFilterModal(true)}
         >
@@ -310,29 +425,150 @@ export default function UserManagementView() {
       {/* User Stats */}
       <View style={styles.statsContainer}>
         <View style={styles.statCard}>
-          <Text style={styles.statNumber}>{users.length}</Text>
+          <Text style={styles.statNumber}>{counts.total}</Text>
           <Text style={styles.statLabel}>Total Users</Text>
         </View>
         <View style={styles.statCard}>
-          <Text style={styles.statNumber}>{users.filter(u => u.status === 'active').length}</Text>
+          <Text style={styles.statNumber}>{counts.active}</Text>
           <Text style={styles.statLabel}>Active</Text>
         </View>
         <View style={styles.statCard}>
-          <Text style={styles.statNumber}>{users.filter(u => u.status === 'trial').length}</Text>
-          <Text style={styles.statLabel}>Trial</Text>
+          <Text style={styles.statNumber}>{counts.inactive}</Text>
+          <Text style={styles.statLabel}>Inactive</Text>
         </View>
         <View style={styles.statCard}>
-          <Text style={styles.statNumber}>{users.filter(u => u.status === 'pending').length}</Text>
-          <Text style={styles.statLabel}>Pending</Text>
+          <Text style={styles.statNumber}>{total}</Text>
+          <Text style={styles.statLabel}>Matching</Text>
         </View>
       </View>
 
       {/* User List */}
       <ScrollView style={styles.userList} showsVerticalScrollIndicator={false}>
-        {filteredUsers.map(renderUserCard)}
+        {loading ? (
+          <ActivityIndicator style={{ marginTop: 40 }} color={colors.primary} />
+        ) : users.length === 0 ? (
+          <Text style={styles.emptyText}>No users match these filters</Text>
+        ) : (
+          users.map(renderUserCard)
+        )}
+
+        {total > DEFAULT_USER_PAGE_SIZE && (
+          <View style={styles.pagination}>
+            <TouchableOpacity
+              style={[styles.pageButton, page === 0 && styles.disabledPageButton]}
+              disabled={page === 0}
+              onPress={() => setPage(prev => prev - 1)}
+            >
+              <ChevronLeft size={18} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.pageText}>Page {page + 1} of {pageCount}</Text>
+            <TouchableOpacity
+              style={[styles.pageButton, page + 1 >= pageCount && styles.disabledPageButton]}
+              disabled={page + 1 >= pageCount}
+              onPress={() => setPage(prev => prev + 1)}
+            >
+              <ChevronRight size={18} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+        )}
         <View style={{ height: 100 }} />
       </ScrollView>
 
+      {/* User Detail Modal */}
+      <Modal
+        visible={!!selectedUser}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setSelectedUser(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setSelectedUser(null)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>{selectedUser?.full_name || selectedUser?.email}</Text>
+            {saving ? <ActivityIndicator color={colors.primary} /> : <View style={{ width: 24 }} />}
+          </View>
+
+          {selectedUser && (
+            <ScrollView style={styles.modalContent}>
+              <View style={styles.formField}>
+                <Text style={styles.fieldLabel}>Email</Text>
+                <Text style={styles.detailValue}>{selectedUser.email}</Text>
+              </View>
+
+              <View style={styles.formField}>
+                <Text style={styles.fieldLabel}>Role</Text>
+                <View style={styles.roleSelector}>
+                  {roleOptions.map((role) => (
+                    <TouchableOpacity
+                      key={role.value}
+                      style={[
+                        styles.roleOption,
+                        selectedUser.role === role.value && styles.selectedRoleOption
+                      ]}
+                      disabled={!can('roles.assign') || saving}
+                      onPress={() => handleRoleChange(selectedUser, role.value)}
+                    >
+                      <Text style={[
+                        styles.roleOptionText,
+                        selectedUser.role === role.value && styles.selectedRoleOptionText
+                      ]}>
+                        {role.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.formField}>
+                <Text style={styles.fieldLabel}>Account</Text>
+                <View style={styles.detailActions}>
+                  <TouchableOpacity
+                    style={styles.detailActionButton}
+                    disabled={saving}
+                    onPress={() => handleStatusChange(selectedUser, selectedUser.account_status === 'inactive' ? 'active' : 'inactive')}
+                  >
+                    {selectedUser.account_status === 'inactive' ? (
+                      <UserCheck size={16} color={colors.success} />
+                    ) : (
+                      <UserX size={16} color={colors.error} />
+                    )}
+                    <Text style={styles.detailActionText}>
+                      {selectedUser.account_status === 'inactive' ? 'Reactivate' : 'Deactivate'}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.detailActionButton}
+                    disabled={saving}
+                    onPress={() => handlePasswordReset(selectedUser)}
+                  >
+                    <KeyRound size={16} color={colors.textSecondary} />
+                    <Text style={styles.detailActionText}>Reset password</Text>
+                  </TouchableOpacity>
+                </View>
+                {selectedUser.account_status === 'inactive' && selectedUser.deactivated_at && (
+                  <Text style={styles.assignmentMeta}>
+                    Deactivated {new Date(selectedUser.deactivated_at).toLocaleDateString()}
+                  </Text>
+                )}
+              </View>
+
+              <View style={styles.formField}>
+                <Text style={styles.fieldLabel}>Assignments</Text>
+                {assignmentsLoading ? (
+                  <ActivityIndicator color={colors.primary} />
+                ) : assignments.length === 0 ? (
+                  <Text style={styles.assignmentMeta}>No assignments</Text>
+                ) : (
+                  assignments.map(renderAssignment)
+                )}
+              </View>
+            </ScrollView>
+          )}
+        </SafeAreaView>
+      </Modal>
+
       {/* Invite User Modal */}
       <Modal
         visible={showInviteModal}
@@ -366,7 +602,7 @@ export default function UserManagementView() {
             <View style={styles.formField}>
               <Text style={styles.fieldLabel}>Role</Text>
               <View style={styles.roleSelector}>
-                {roleOptions.map((role) => (
+                {invitableRoles.map((role) => (
                   <TouchableOpacity
                     key={role.value}
                     style={[
@@ -513,6 +749,7 @@ const createStyles = (colors: any) => StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'flex-end',
     alignItems: 'center',
+    gap: 12,
     paddingHorizontal: 20,
     paddingVertical: 16,
     borderBottomWidth: 1,
@@ -537,6 +774,21 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: '#FFFFFF',
     marginLeft: 8,
   },
+  auditButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  auditButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginLeft: 6,
+  },
   searchContainer: {
     flexDirection: 'row',
     paddingHorizontal: 20,
@@ -690,6 +942,81 @@ const createStyles = (colors: any) => StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  pagination: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+    marginTop: 8,
+  },
+  pageButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  disabledPageButton: {
+    opacity: 0.4,
+  },
+  pageText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  detailValue: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.text,
+  },
+  detailActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  detailActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  detailActionText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+  },
+  assignmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  assignmentText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+  },
+  assignmentMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: 4,
+  },
   modalContainer: {
     flex: 1,
     backgroundColor: colors.background,
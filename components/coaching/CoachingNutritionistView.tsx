@@ -20,8 +20,10 @@ import {
   Filter
 } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import NutritionistClientListView from '../nutrition/NutritionistClientListView';
+import MealReviewQueue from '../nutrition/MealReviewQueue';
 
 export default function CoachingNutritionistView() {
   const colorScheme = useColorScheme();
@@ -41,6 +43,9 @@ export default function CoachingNutritionistView() {
       <View style={styles.header}>
         <Text style={styles.title}>Nutrition Coaching</Text>
         <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.headerButton} onPress={() => router.push('/nutrition/recipes')}>
+            <ChefHat size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
           <TouchableOpacity style={styles.headerButton}>
             <Search size={20} color={colors.textSecondary} />
           </TouchableOpacity>
@@ -59,6 +64,14 @@ export default function CoachingNutritionistView() {
             Clients
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, selectedTab === 'reviews' && styles.activeTab]}
+          onPress={() => setSelectedTab('reviews')}
+        >
+          <Text style={[styles.tabText, selectedTab === 'reviews' && styles.activeTabText]}>
+            Meal Reviews
+          </Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={[styles.tab, selectedTab === 'consultations' && styles.activeTab]}
           onPress={() => setSelectedTab('consultations')}
@@ -71,6 +84,8 @@ export default function CoachingNutritionistView() {
 
       {selectedTab === 'clients' ? (
         <NutritionistClientListView />
+      ) : selectedTab === 'reviews' ? (
+        <MealReviewQueue />
       ) : (
         <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
           {/* Today's Consultations Overview */}
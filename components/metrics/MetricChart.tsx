@@ -7,6 +7,10 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react-native';
+import { formatMetricValue, getMetricDefinition } from '@/lib/metricRegistry';
+import { convertMetricForDisplay, getMetricUnit } from '@/lib/units';
+import { useUnits } from '@/contexts/UnitsContext';
+import { MetricType } from '@/types/metrics';
 
 const { width } = Dimensions.get('window');
 
@@ -17,7 +21,10 @@ export interface MetricDataPoint {
 
 interface MetricChartProps {
   data: MetricDataPoint[];
-  unit: string;
+  // Registry metric; supplies the unit, precision and line colour unless overridden.
+  // Data for a registry metric is in its canonical unit and shown in the user's units.
+  metricType?: MetricType;
+  unit?: string;
   colors: any;
   chartWidth?: number;
   chartHeight?: number;
@@ -113,8 +120,9 @@ const ChartFillArea: React.FC<{ points: ChartPoint[]; colors: any; chartHeight:
 };
 
 export const MetricChart: React.FC<MetricChartProps> = ({
-  data,
-  unit,
+  data: canonicalData,
+  metricType,
+  unit: unitOverride,
   colors,
   chartWidth = width - 120,
   chartHeight = 120,
@@ -122,11 +130,21 @@ export const MetricChart: React.FC<MetricChartProps> = ({
   showXAxis = true,
   showTrend = true,
   onPointPress,
-  lineColor,
-  pointColor,
+  lineColor: lineColorOverride,
+  pointColor: pointColorOverride,
   fillArea = false,
   animated = false,
 }) => {
+  const { unitSystem } = useUnits();
+  const definition = metricType ? getMetricDefinition(metricType) : undefined;
+  const unit = unitOverride ?? (metricType ? getMetricUnit(metricType, unitSystem) : '');
+  const data = metricType && canonicalData
+    ? canonicalData.map(point => ({ ...point, value: convertMetricForDisplay(metricType, point.value, unitSystem) }))
+    : canonicalData;
+  const lineColor = lineColorOverride ?? definition?.color;
+  const pointColor = pointColorOverride ?? definition?.color;
+  const format = (value: number) => metricType ? formatMetricValue(metricType, value) : value.toFixed(1);
+
   if (!data || data.length === 0) {
     return (
       <View style={[styles.emptyChart, { height: chartHeight }]}>
@@ -168,9 +186,9 @@ export const MetricChart: React.FC<MetricChartProps> = ({
     if (data.length === 0) return ['0', '50', '100'];
     
     return [
-      maxValue.toFixed(1),
-      ((minValue + maxValue) / 2).toFixed(1),
-      minValue.toFixed(1)
+      format(maxValue),
+      format((minValue + maxValue) / 2),
+      format(minValue)
     ];
   };
 
@@ -311,19 +329,19 @@ export const MetricChart: React.FC<MetricChartProps> = ({
         <View style={styles.summaryItem}>
           <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>Current</Text>
           <Text style={[styles.summaryValue, { color: colors.text }]}>
-            {data[data.length - 1]?.value.toFixed(1)} {unit}
+            {format(data[data.length - 1].value)} {unit}
           </Text>
         </View>
         <View style={styles.summaryItem}>
           <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>Average</Text>
           <Text style={[styles.summaryValue, { color: colors.text }]}>
-            {(values.reduce((sum, val) => sum + val, 0) / values.length).toFixed(1)} {unit}
+            {format(values.reduce((sum, val) => sum + val, 0) / values.length)} {unit}
           </Text>
         </View>
         <View style={styles.summaryItem}>
           <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>Range</Text>
           <Text style={[styles.summaryValue, { color: colors.text }]}>
-            {minValue.toFixed(1)} - {maxValue.toFixed(1)} {unit}
+            {format(minValue)} - {format(maxValue)} {unit}
           </Text>
         </View>
       </View>
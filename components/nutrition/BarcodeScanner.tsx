@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
+import { X, Check } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { FOOD_BARCODE_TYPES, normalizeBarcode } from '@/lib/foodProducts';
+
+interface BarcodeScannerProps {
+  visible: boolean;
+  onClose: () => void;
+  // Called once per opening with the normalized code
+  onScanned: (barcode: string) => void;
+}
+
+// Full-screen camera that reads EAN/UPC codes off packaging. Codes can also be
+// typed in when the camera can't read them.
+export default function BarcodeScanner({ visible, onClose, onScanned }: BarcodeScannerProps) {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+
+  const [permission, requestPermission] = useCameraPermissions();
+  const [manualCode, setManualCode] = useState('');
+  // The camera reports the same code many times a second
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    handled.current = false;
+    setManualCode('');
+    if (permission && !permission.granted && permission.canAskAgain) {
+      requestPermission();
+    }
+  }, [visible]);
+
+  const handleBarcodeScanned = (result: BarcodeScanningResult) => {
+    if (handled.current) return;
+    const barcode = normalizeBarcode(result.data, result.type);
+    if (!barcode) return;
+    handled.current = true;
+    onScanned(barcode);
+  };
+
+  const handleManualEntry = () => {
+    const barcode = normalizeBarcode(manualCode);
+    if (!barcode) {
+      Alert.alert('Invalid barcode', 'Enter the 8, 12 or 13 digits printed under the barcode');
+      return;
+    }
+    handled.current = true;
+    onScanned(barcode);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {permission?.granted ? (
+          <CameraView
+            style={styles.camera}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: [...FOOD_BARCODE_TYPES] }}
+            onBarcodeScanned={handleBarcodeScanned}
+          />
+        ) : (
+          <View style={styles.permissionContainer}>
+            <Text style={styles.permissionText}>Camera permission is needed to scan barcodes</Text>
+            <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+              <Text style={styles.permissionButtonText}>Grant Permission</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <SafeAreaView style={styles.overlay} pointerEvents="box-none">
+          <View style={styles.topBar}>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          {permission?.granted && (
+            <View style={styles.frameContainer} pointerEvents="none">
+              <View style={styles.frame} />
+              <Text style={styles.frameHint}>Point the camera at the barcode</Text>
+            </View>
+          )}
+
+          <View style={styles.manualEntry}>
+            <TextInput
+              style={styles.manualInput}
+              value={manualCode}
+              onChangeText={setManualCode}
+              placeholder="Or type the barcode number"
+              placeholderTextColor="rgba(255, 255, 255, 0.6)"
+              keyboardType="number-pad"
+              returnKeyType="search"
+              onSubmitEditing={handleManualEntry}
+            />
+            <TouchableOpacity
+              style={[styles.manualButton, !manualCode && styles.disabledButton]}
+              onPress={handleManualEntry}
+              disabled={!manualCode}
+            >
+              <Check size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+        </SafeAreaView>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  camera: {
+    flex: 1,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'space-between',
+  },
+  topBar: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  closeButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  frameContainer: {
+    alignItems: 'center',
+  },
+  frame: {
+    width: '80%',
+    height: 160,
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+    borderRadius: 16,
+  },
+  frameHint: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginTop: 16,
+  },
+  manualEntry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 24,
+    gap: 12,
+  },
+  manualInput: {
+    flex: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  manualButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  permissionContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  permissionText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  permissionButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  permissionButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -6,15 +6,35 @@ import {
   ScrollView,
   TouchableOpacity,
   Modal,
-  TextInput,
+  Image,
+  RefreshControl,
 } from 'react-native';
-import { Apple, Plus, Calendar, Clock, Flame, Target, TrendingUp, ChevronLeft, ChevronRight, CreditCard as Edit3, MessageSquare, Camera, X } from 'lucide-react-native';
+import { ChevronLeft, ChevronRight, MessageSquare, Camera, X, ClipboardList, SlidersHorizontal } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import { router } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import {
+  FoodEntry,
+  NutritionGoals,
+  getClientFoodEntries,
+  getClientNutritionGoals,
+} from '../../lib/foodJournal';
+import {
+  ADHERENCE_WINDOW_DAYS,
+  NutritionPlan,
+  getActiveNutritionPlan,
+  getDayAdherence,
+  getWindowAdherence,
+  localDate,
+  shiftDate,
+} from '../../lib/nutritionPlans';
+import { LIMIT_NUTRIENTS, getLimitWarnings } from '../../lib/nutrientLimits';
+import PlannedVsLogged from './PlannedVsLogged';
 
-interface MealEntry {
-  id: string;
+// A meal as the client logged it: their entries under one meal type
+interface LoggedMeal {
+  key: string;
   name: string;
   time: string;
   calories: number;
@@ -22,85 +42,33 @@ interface MealEntry {
   carbs: number;
   fat: number;
   fiber: number;
-  foods: string[];
-  photo?: string;
-  notes?: string;
+  entries: FoodEntry[];
 }
 
-interface DailyNutrition {
-  date: string;
-  totalCalories: number;
-  targetCalories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  fiber: number;
-  water: number;
-  meals: MealEntry[];
-}
+const sum = (entries: FoodEntry[], key: keyof FoodEntry) =>
+  Math.round(entries.reduce((total, entry) => total + (Number(entry[key]) || 0), 0));
 
-const mockNutritionData: DailyNutrition[] = [
-  {
-    date: '2024-06-10',
-    totalCalories: 1850,
-    targetCalories: 2000,
-    protein: 120,
-    carbs: 180,
-    fat: 65,
-    fiber: 28,
-    water: 2.1,
-    meals: [
-      {
-        id: '1',
-        name: 'Breakfast',
-        time: '8:00 AM',
-        calories: 450,
-        protein: 25,
-        carbs: 45,
-        fat: 18,
-        fiber: 8,
-        foods: ['Oatmeal with berries', 'Greek yogurt', 'Almonds'],
-        photo: 'https://images.pexels.com/photos/1640777/pexels-photo-1640777.jpeg',
-        notes: 'Added extra berries for antioxidants'
-      },
-      {
-        id: '2',
-        name: 'Lunch',
-        time: '12:30 PM',
-        calories: 620,
-        protein: 35,
-        carbs: 55,
-        fat: 22,
-        fiber: 12,
-        foods: ['Grilled chicken salad', 'Quinoa', 'Avocado', 'Olive oil dressing'],
-        photo: 'https://images.pexels.com/photos/1640772/pexels-photo-1640772.jpeg'
-      },
-      {
-        id: '3',
-        name: 'Snack',
-        time: '3:30 PM',
-        calories: 180,
-        protein: 12,
-        carbs: 15,
-        fat: 8,
-        fiber: 3,
-        foods: ['Apple with peanut butter'],
-      },
-      {
-        id: '4',
-        name: 'Dinner',
-        time: '7:00 PM',
-        calories: 600,
-        protein: 48,
-        carbs: 65,
-        fat: 17,
-        fiber: 5,
-        foods: ['Baked salmon', 'Sweet potato', 'Steamed broccoli'],
-        photo: 'https://images.pexels.com/photos/1640774/pexels-photo-1640774.jpeg'
-      }
-    ]
-  }
-];
+const groupMeals = (entries: FoodEntry[]): LoggedMeal[] => {
+  const groups = new Map<string, FoodEntry[]>();
+  entries.forEach(entry => {
+    const key = entry.meal_type_id || 'other';
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, mealEntries]) => ({
+      key,
+      name: mealEntries[0].meal_type?.name || 'Other',
+      time: mealEntries[0].time.slice(0, 5),
+      calories: sum(mealEntries, 'calories'),
+      protein: sum(mealEntries, 'protein_g'),
+      carbs: sum(mealEntries, 'carbs_g'),
+      fat: sum(mealEntries, 'fat_g'),
+      fiber: sum(mealEntries, 'fiber_g'),
+      entries: mealEntries,
+    }))
+    .sort((a, b) => a.time.localeCompare(b.time));
+};
 
 export default function ClientMealView({ clientId, clientName }: { clientId: string; clientName: string }) {
   const colorScheme = useColorScheme();
@@ -109,21 +77,80 @@ export default function ClientMealView({ clientId, clientName }: { clientId: str
 
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [showMealModal, setShowMealModal] = useState(false);
-  const [selectedMeal, setSelectedMeal] = useState<MealEntry | null>(null);
-  const [showAddMealModal, setShowAddMealModal] = useState(false);
-  const [newMealData, setNewMealData] = useState({
-    name: '',
-    time: '',
-    calories: '',
-    protein: '',
-    carbs: '',
-    fat: '',
-    foods: '',
-    notes: ''
-  });
+  const [selectedMeal, setSelectedMeal] = useState<LoggedMeal | null>(null);
+  // The week up to the selected day, for the weekly adherence score
+  const [entries, setEntries] = useState<FoodEntry[]>([]);
+  const [plan, setPlan] = useState<NutritionPlan | null>(null);
+  const [goals, setGoals] = useState<NutritionGoals | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const date = localDate(selectedDate);
+
+  useEffect(() => {
+    loadEntries();
+  }, [clientId, date]);
+
+  // The plan may have been edited from the plan screen
+  useFocusEffect(
+    useCallback(() => {
+      getActiveNutritionPlan(clientId).then(setPlan);
+      getClientNutritionGoals(clientId).then(setGoals);
+    }, [clientId])
+  );
 
-  const currentData = mockNutritionData[0]; // In real app, filter by selectedDate
-  const calorieProgress = (currentData.totalCalories / currentData.targetCalories) * 100;
+  const loadEntries = async () => {
+    const data = await getClientFoodEntries(clientId, shiftDate(date, 1 - ADHERENCE_WINDOW_DAYS), date);
+    setEntries(data);
+    setLoading(false);
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    const [planData, goalsData] = await Promise.all([
+      getActiveNutritionPlan(clientId),
+      getClientNutritionGoals(clientId),
+      loadEntries(),
+    ]);
+    setPlan(planData);
+    setGoals(goalsData);
+    setRefreshing(false);
+  };
+
+  const dayEntries = entries.filter(entry => entry.date === date);
+  const meals = groupMeals(dayEntries);
+  const adherence = getDayAdherence(plan, date, entries);
+  const weeklyScore = getWindowAdherence(plan, entries, date).weeklyScore;
+
+  // The plan's targets for the day when it has any, else the client's goals
+  const hasPlanTargets = adherence.planned.calories > 0;
+  const targets = hasPlanTargets
+    ? {
+        calories: Math.round(adherence.planned.calories),
+        protein: Math.round(adherence.planned.protein_g),
+        carbs: Math.round(adherence.planned.carbs_g),
+        fat: Math.round(adherence.planned.fat_g),
+      }
+    : goals
+      ? {
+          calories: goals.daily_calories,
+          protein: goals.daily_protein_g,
+          carbs: goals.daily_carbs_g,
+          fat: goals.daily_fat_g,
+        }
+      : null;
+
+  const totals = {
+    calories: sum(dayEntries, 'calories'),
+    protein: sum(dayEntries, 'protein_g'),
+    carbs: sum(dayEntries, 'carbs_g'),
+    fat: sum(dayEntries, 'fat_g'),
+    fiber: sum(dayEntries, 'fiber_g'),
+    sugar: sum(dayEntries, 'sugar_g'),
+    sodium: sum(dayEntries, 'sodium_mg'),
+  };
+  const limitWarnings = getLimitWarnings(goals, { sodium_mg: totals.sodium, sugar_g: totals.sugar });
+  const calorieProgress = targets?.calories ? (totals.calories / targets.calories) * 100 : 0;
 
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-US', { 
@@ -139,29 +166,13 @@ export default function ClientMealView({ clientId, clientName }: { clientId: str
     setSelectedDate(newDate);
   };
 
-  const handleMealPress = (meal: MealEntry) => {
+  const handleMealPress = (meal: LoggedMeal) => {
     setSelectedMeal(meal);
     setShowMealModal(true);
   };
 
-  const handleAddMeal = () => {
-    // In real app, save meal data
-    console.log('Adding meal:', newMealData);
-    setNewMealData({
-      name: '',
-      time: '',
-      calories: '',
-      protein: '',
-      carbs: '',
-      fat: '',
-      foods: '',
-      notes: ''
-    });
-    setShowAddMealModal(false);
-  };
-
-  const renderMacroCircle = (label: string, current: number, target: number, color: string) => {
-    const percentage = Math.min((current / target) * 100, 100);
+  const renderMacroCircle = (label: string, current: number, target: number | undefined, color: string) => {
+    const percentage = target ? Math.min((current / target) * 100, 100) : 0;
     
     return (
       <View style={styles.macroCircle}>
@@ -176,7 +187,7 @@ export default function ClientMealView({ clientId, clientName }: { clientId: str
           </View>
         </View>
         <Text style={styles.macroLabel}>{label}</Text>
-        <Text style={styles.macroTarget}>Goal: {target}g</Text>
+        {target ? <Text style={styles.macroTarget}>Goal: {target}g</Text> : null}
       </View>
     );
   };
@@ -192,7 +203,7 @@ export default function ClientMealView({ clientId, clientName }: { clientId: str
           <Text style={styles.clientName}>{clientName}</Text>
           <Text style={styles.headerSubtitle}>Nutrition Tracking</Text>
         </View>
-        <TouchableOpacity style={styles.messageButton}>
+        <TouchableOpacity style={styles.messageButton} onPress={() => router.push(`/chat/${clientId}`)}>
           <MessageSquare size={24} color={colors.primary} />
         </TouchableOpacity>
       </View>
@@ -212,12 +223,16 @@ export default function ClientMealView({ clientId, clientName }: { clientId: str
         </TouchableOpacity>
       </View>
 
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
         {/* Calorie Overview */}
         <View style={styles.calorieCard}>
           <View style={styles.calorieHeader}>
             <Text style={styles.calorieTitle}>Daily Calories</Text>
-            <Text style={styles.caloriePercentage}>{Math.round(calorieProgress)}%</Text>
+            {targets && <Text style={styles.caloriePercentage}>{Math.round(calorieProgress)}%</Text>}
           </View>
           
           <View style={styles.calorieProgress}>
@@ -230,55 +245,89 @@ export default function ClientMealView({ clientId, clientName }: { clientId: str
               />
             </View>
             <Text style={styles.calorieText}>
-              {currentData.totalCalories} / {currentData.targetCalories} kcal
+              {targets ? `${totals.calories} / ${targets.calories} kcal` : `${totals.calories} kcal`}
             </Text>
           </View>
           
-          <Text style={styles.calorieRemaining}>
-            {currentData.targetCalories - currentData.totalCalories > 0 
-              ? `${currentData.targetCalories - currentData.totalCalories} kcal remaining`
-              : `${currentData.totalCalories - currentData.targetCalories} kcal over target`
-            }
-          </Text>
+          {targets && (
+            <Text style={styles.calorieRemaining}>
+              {targets.calories - totals.calories > 0 
+                ? `${targets.calories - totals.calories} kcal remaining`
+                : `${totals.calories - targets.calories} kcal over target`
+              }
+              {hasPlanTargets ? ' • meal plan' : ' • client goals'}
+            </Text>
+          )}
         </View>
 
         {/* Macronutrients */}
         <View style={styles.macroCard}>
-          <Text style={styles.macroCardTitle}>Macronutrients</Text>
+          <View style={styles.macroCardHeader}>
+            <Text style={styles.macroCardTitle}>Macronutrients</Text>
+            <TouchableOpacity
+              style={styles.addMealButton}
+              onPress={() => router.push(`/nutrition/targets?clientId=${clientId}&name=${encodeURIComponent(clientName)}`)}
+            >
+              <SlidersHorizontal size={20} color={colors.primary} />
+              <Text style={styles.addMealText}>Limits</Text>
+            </TouchableOpacity>
+          </View>
           <View style={styles.macroGrid}>
-            {renderMacroCircle('Protein', currentData.protein, 150, colors.error)}
-            {renderMacroCircle('Carbs', currentData.carbs, 200, colors.warning)}
-            {renderMacroCircle('Fat', currentData.fat, 70, colors.success)}
+            {renderMacroCircle('Protein', totals.protein, targets?.protein, colors.error)}
+            {renderMacroCircle('Carbs', totals.carbs, targets?.carbs, colors.warning)}
+            {renderMacroCircle('Fat', totals.fat, targets?.fat, colors.success)}
           </View>
           
           <View style={styles.additionalNutrients}>
             <View style={styles.nutrientItem}>
               <Text style={styles.nutrientLabel}>Fiber</Text>
-              <Text style={styles.nutrientValue}>{currentData.fiber}g / 30g</Text>
-            </View>
-            <View style={styles.nutrientItem}>
-              <Text style={styles.nutrientLabel}>Water</Text>
-              <Text style={styles.nutrientValue}>{currentData.water}L / 2.5L</Text>
+              <Text style={styles.nutrientValue}>
+                {totals.fiber}g{goals?.daily_fiber_g ? ` / ${goals.daily_fiber_g}g` : ''}
+              </Text>
             </View>
+            {LIMIT_NUTRIENTS.map(nutrient => {
+              const total = nutrient.key === 'sodium_mg' ? totals.sodium : totals.sugar;
+              const limit = goals?.[nutrient.goal];
+              const over = limitWarnings.some(warning => warning.key === nutrient.key);
+              return (
+                <View key={nutrient.key} style={styles.nutrientItem}>
+                  <Text style={[styles.nutrientLabel, over && { color: colors.error }]}>{nutrient.label}</Text>
+                  <Text style={[styles.nutrientValue, over && { color: colors.error }]}>
+                    {total}{nutrient.unit}{limit ? ` / ${limit}${nutrient.unit}` : ''}
+                  </Text>
+                </View>
+              );
+            })}
           </View>
         </View>
 
+        {/* Meal Plan */}
+        {plan && (
+          <View style={styles.mealsSection}>
+            <PlannedVsLogged plan={plan} day={adherence} weeklyScore={weeklyScore} />
+          </View>
+        )}
+
         {/* Meals */}
         <View style={styles.mealsSection}>
           <View style={styles.mealsSectionHeader}>
             <Text style={styles.mealsSectionTitle}>Meals</Text>
             <TouchableOpacity 
               style={styles.addMealButton}
-              onPress={() => setShowAddMealModal(true)}
+              onPress={() => router.push(`/nutrition/plan/${clientId}?name=${encodeURIComponent(clientName)}`)}
             >
-              <Plus size={20} color={colors.primary} />
-              <Text style={styles.addMealText}>Add Meal</Text>
+              <ClipboardList size={20} color={colors.primary} />
+              <Text style={styles.addMealText}>{plan ? 'Edit Plan' : 'Create Plan'}</Text>
             </TouchableOpacity>
           </View>
 
-          {currentData.meals.map((meal) => (
+          {!loading && meals.length === 0 && (
+            <Text style={styles.emptyText}>Nothing logged on this day.</Text>
+          )}
+
+          {meals.map((meal) => (
             <TouchableOpacity 
-              key={meal.id} 
+              key={meal.key} 
               style={styles.mealCard}
               onPress={() => handleMealPress(meal)}
             >
@@ -310,11 +359,11 @@ export default function ClientMealView({ clientId, clientName }: { clientId: str
               
               <View style={styles.mealFoods}>
                 <Text style={styles.mealFoodsText}>
-                  {meal.foods.join(', ')}
+                  {meal.entries.map(entry => entry.title).join(', ')}
                 </Text>
               </View>
               
-              {meal.photo && (
+              {meal.entries.some(entry => entry.photos?.length) && (
                 <View style={styles.mealPhotoContainer}>
                   <Camera size={16} color={colors.textSecondary} />
                   <Text style={styles.mealPhotoText}>Photo attached</Text>
@@ -341,9 +390,7 @@ export default function ClientMealView({ clientId, clientName }: { clientId: str
                 <X size={24} color={colors.text} />
               </TouchableOpacity>
               <Text style={styles.modalTitle}>{selectedMeal.name}</Text>
-              <TouchableOpacity>
-                <Edit3 size={24} color={colors.primary} />
-              </TouchableOpacity>
+              <View style={{ width: 24 }} />
             </View>
 
             <ScrollView style={styles.modalContent}>
@@ -373,145 +420,32 @@ export default function ClientMealView({ clientId, clientName }: { clientId: str
 
               <View style={styles.foodsSection}>
                 <Text style={styles.foodsSectionTitle}>Foods</Text>
-                {selectedMeal.foods.map((food, index) => (
-                  <View key={index} style={styles.foodItem}>
-                    <Text style={styles.foodName}>{food}</Text>
+                {selectedMeal.entries.map(entry => (
+                  <View key={entry.id} style={styles.foodItem}>
+                    <Text style={styles.foodName}>{entry.title}</Text>
+                    <Text style={styles.foodDetail}>
+                      {entry.time.slice(0, 5)} • {Math.round(entry.calories || 0)} kcal
+                    </Text>
+                    {entry.description ? <Text style={styles.foodDetail}>{entry.description}</Text> : null}
+                    {entry.photos?.map(photo => (
+                      <Image key={photo.id} source={{ uri: photo.photo_url }} style={styles.foodPhoto} />
+                    ))}
                   </View>
                 ))}
               </View>
 
-              {selectedMeal.notes && (
+              {selectedMeal.entries.some(entry => entry.notes) && (
                 <View style={styles.notesSection}>
                   <Text style={styles.notesSectionTitle}>Notes</Text>
-                  <Text style={styles.notesText}>{selectedMeal.notes}</Text>
+                  {selectedMeal.entries.filter(entry => entry.notes).map(entry => (
+                    <Text key={entry.id} style={styles.notesText}>{entry.notes}</Text>
+                  ))}
                 </View>
               )}
             </ScrollView>
           </SafeAreaView>
         )}
       </Modal>
-
-      {/* Add Meal Modal */}
-      <Modal
-        visible={showAddMealModal}
-        animationType="slide"
-        presentationStyle="pageSheet"
-        onRequestClose={() => setShowAddMealModal(false)}
-      >
-        <SafeAreaView style={styles.modalContainer}>
-          <View style={styles.modalHeader}>
-            <TouchableOpacity onPress={() => setShowAddMealModal(false)}>
-              <X size={24} color={colors.text} />
-            </TouchableOpacity>
-            <Text style={styles.modalTitle}>Add Meal</Text>
-            <TouchableOpacity onPress={handleAddMeal}>
-              <Text style={styles.saveButtonText}>Save</Text>
-            </TouchableOpacity>
-          </View>
-
-          <ScrollView style={styles.modalContent}>
-            <View style={styles.formField}>
-              <Text style={styles.fieldLabel}>Meal Name</Text>
-              <TextInput
-                style={styles.input}
-                value={newMealData.name}
-                onChangeText={(text) => setNewMealData(prev => ({ ...prev, name: text }))}
-                placeholder="e.g., Breakfast, Lunch, Snack"
-                placeholderTextColor={colors.textTertiary}
-              />
-            </View>
-
-            <View style={styles.formField}>
-              <Text style={styles.fieldLabel}>Time</Text>
-              <TextInput
-                style={styles.input}
-                value={newMealData.time}
-                onChangeText={(text) => setNewMealData(prev => ({ ...prev, time: text }))}
-                placeholder="e.g., 8:00 AM"
-                placeholderTextColor={colors.textTertiary}
-              />
-            </View>
-
-            <View style={styles.formRow}>
-              <View style={styles.formFieldHalf}>
-                <Text style={styles.fieldLabel}>Calories</Text>
-                <TextInput
-                  style={styles.input}
-                  value={newMealData.calories}
-                  onChangeText={(text) => setNewMealData(prev => ({ ...prev, calories: text }))}
-                  placeholder="450"
-                  placeholderTextColor={colors.textTertiary}
-                  keyboardType="numeric"
-                />
-              </View>
-              <View style={styles.formFieldHalf}>
-                <Text style={styles.fieldLabel}>Protein (g)</Text>
-                <TextInput
-                  style={styles.input}
-                  value={newMealData.protein}
-                  onChangeText={(text) => setNewMealData(prev => ({ ...prev, protein: text }))}
-                  placeholder="25"
-                  placeholderTextColor={colors.textTertiary}
-                  keyboardType="numeric"
-                />
-              </View>
-            </View>
-
-            <View style={styles.formRow}>
-              <View style={styles.formFieldHalf}>
-                <Text style={styles.fieldLabel}>Carbs (g)</Text>
-                <TextInput
-                  style={styles.input}
-                  value={newMealData.carbs}
-                  onChangeText={(text) => setNewMealData(prev => ({ ...prev, carbs: text }))}
-                  placeholder="45"
-                  placeholderTextColor={colors.textTertiary}
-                  keyboardType="numeric"
-                />
-              </View>
-              <View style={styles.formFieldHalf}>
-                <Text style={styles.fieldLabel}>Fat (g)</Text>
-                <TextInput
-                  style={styles.input}
-                  value={newMealData.fat}
-                  onChangeText={(text) => setNewMealData(prev => ({ ...prev, fat: text }))}
-                  placeholder="18"
-                  placeholderTextColor={colors.textTertiary}
-                  keyboardType="numeric"
-                />
-              </View>
-            </View>
-
-            <View style={styles.formField}>
-              <Text style={styles.fieldLabel}>Foods</Text>
-              <TextInput
-                style={styles.textArea}
-                value={newMealData.foods}
-                onChangeText={(text) => setNewMealData(prev => ({ ...prev, foods: text }))}
-                placeholder="List foods separated by commas"
-                placeholderTextColor={colors.textTertiary}
-                multiline
-                numberOfLines={3}
-                textAlignVertical="top"
-              />
-            </View>
-
-            <View style={styles.formField}>
-              <Text style={styles.fieldLabel}>Notes (Optional)</Text>
-              <TextInput
-                style={styles.textArea}
-                value={newMealData.notes}
-                onChangeText={(text) => setNewMealData(prev => ({ ...prev, notes: text }))}
-                placeholder="Any additional notes..."
-                placeholderTextColor={colors.textTertiary}
-                multiline
-                numberOfLines={3}
-                textAlignVertical="top"
-              />
-            </View>
-          </ScrollView>
-        </SafeAreaView>
-      </Modal>
     </SafeAreaView>
   );
 }
@@ -639,11 +573,16 @@ const createStyles = (colors: any) => StyleSheet.create({
     shadowRadius: 8,
     elevation: 2,
   },
+  macroCardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
   macroCardTitle: {
     fontFamily: 'Inter-SemiBold',
     fontSize: 18,
     color: colors.text,
-    marginBottom: 20,
   },
   macroGrid: {
     flexDirection: 'row',
@@ -819,6 +758,13 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.textSecondary,
     marginLeft: 4,
   },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
   modalContainer: {
     flex: 1,
     backgroundColor: colors.background,
@@ -837,11 +783,6 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 18,
     color: colors.text,
   },
-  saveButtonText: {
-    fontFamily: 'Inter-SemiBold',
-    fontSize: 16,
-    color: colors.primary,
-  },
   modalContent: {
     flex: 1,
     padding: 20,
@@ -903,6 +844,18 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 14,
     color: colors.text,
   },
+  foodDetail: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  foodPhoto: {
+    width: '100%',
+    height: 180,
+    borderRadius: 8,
+    marginTop: 8,
+  },
   notesSection: {
     marginBottom: 20,
   },
@@ -918,44 +871,4 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.textSecondary,
     lineHeight: 20,
   },
-  formField: {
-    marginBottom: 20,
-  },
-  formRow: {
-    flexDirection: 'row',
-    gap: 12,
-    marginBottom: 20,
-  },
-  formFieldHalf: {
-    flex: 1,
-  },
-  fieldLabel: {
-    fontFamily: 'Inter-SemiBold',
-    fontSize: 14,
-    color: colors.text,
-    marginBottom: 8,
-  },
-  input: {
-    fontFamily: 'Inter-Regular',
-    fontSize: 16,
-    color: colors.text,
-    backgroundColor: colors.surface,
-    borderWidth: 1,
-    borderColor: colors.border,
-    borderRadius: 8,
-    paddingHorizontal: 12,
-    paddingVertical: 12,
-  },
-  textArea: {
-    fontFamily: 'Inter-Regular',
-    fontSize: 16,
-    color: colors.text,
-    backgroundColor: colors.surface,
-    borderWidth: 1,
-    borderColor: colors.border,
-    borderRadius: 8,
-    paddingHorizontal: 12,
-    paddingVertical: 12,
-    minHeight: 80,
-  },
 });
\ No newline at end of file
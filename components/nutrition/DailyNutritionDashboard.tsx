@@ -0,0 +1,333 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { TriangleAlert as AlertTriangle, Settings, SlidersHorizontal, Undo2 } from 'lucide-react-native';
+import { useColorScheme, getColors } from '../../hooks/useColorScheme';
+import { useUnits } from '../../contexts/UnitsContext';
+import { fromCanonical, getPreferredUnit } from '../../lib/units';
+import { DayNutritionSummary, NutritionGoals } from '../../lib/foodJournal';
+import { MICRONUTRIENTS } from '../../lib/foods';
+import { DayWaterIntake, WATER_CONTAINERS } from '../../lib/hydration';
+import { LIMIT_NUTRIENTS, getLimitWarnings, limitTotals } from '../../lib/nutrientLimits';
+
+interface DailyNutritionDashboardProps {
+  title: string;
+  summary?: DayNutritionSummary;
+  goals: NutritionGoals;
+  water: DayWaterIntake;
+  onAddWater: (ml: number) => void;
+  onUndoWater: () => void;
+  onOpenMacros: () => void;
+  onOpenTargets: () => void;
+}
+
+const percent = (value: number, target: number) => (target > 0 ? Math.min((value / target) * 100, 100) : 0);
+
+// Everything eaten and drunk on a day against its targets: calories and
+// macros, water, fiber, the sugar and sodium limits and any micronutrients
+export default function DailyNutritionDashboard({
+  title,
+  summary,
+  goals,
+  water,
+  onAddWater,
+  onUndoWater,
+  onOpenMacros,
+  onOpenTargets,
+}: DailyNutritionDashboardProps) {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+  const { unitSystem } = useUnits();
+  const volumeUnit = getPreferredUnit('volume', unitSystem);
+
+  const formatVolume = (ml: number) => {
+    const value = fromCanonical(ml / 1000, 'volume', volumeUnit);
+    return `${Number(value.toFixed(volumeUnit === 'L' ? 2 : 0))} ${volumeUnit}`;
+  };
+
+  // Totals that include a nutritionist's estimate are approximate
+  const approx = summary?.estimated_entries ? '~' : '';
+  const warnings = getLimitWarnings(goals, limitTotals(summary));
+  const micronutrients = MICRONUTRIENTS.filter(
+    nutrient => summary?.total_micronutrients[nutrient.key] || goals.micronutrient_targets?.[nutrient.key]
+  );
+
+  const renderBar = (label: string, value: number, target: number, unit: string, color: string) => (
+    <View style={styles.nutritionItem}>
+      <Text style={styles.nutritionLabel}>{label}</Text>
+      <Text style={styles.nutritionValue}>
+        {approx}{Math.round(value)}{unit}/{target}{unit}
+      </Text>
+      <View style={styles.progressBar}>
+        <View style={[styles.progressFill, { width: `${percent(value, target)}%`, backgroundColor: color }]} />
+      </View>
+    </View>
+  );
+
+  const renderRow = (label: string, value: number, target: number, unit: string, kind: 'target' | 'limit', over = false) => (
+    <View key={label} style={styles.row}>
+      <View style={styles.rowHeader}>
+        <Text style={styles.rowLabel}>{label}</Text>
+        <Text style={[styles.rowValue, over && { color: colors.error }]}>
+          {Number(value.toFixed(unit === 'g' ? 1 : 0))} / {target} {unit}
+          <Text style={styles.rowKind}>{kind === 'limit' ? ' limit' : ''}</Text>
+        </Text>
+      </View>
+      <View style={styles.progressBar}>
+        <View
+          style={[
+            styles.progressFill,
+            {
+              width: `${percent(value, target)}%`,
+              backgroundColor: over ? colors.error : kind === 'limit' ? colors.warning : colors.success,
+            },
+          ]}
+        />
+      </View>
+    </View>
+  );
+
+  const notes = [
+    summary?.estimated_entries && '~ includes estimates from photos',
+    summary?.pending_entries &&
+      `${summary.pending_entries} photo ${summary.pending_entries === 1 ? 'meal' : 'meals'} pending review, not counted yet`,
+  ].filter(Boolean);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{title}</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={onOpenTargets}>
+            <SlidersHorizontal size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onOpenMacros}>
+            <Settings size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {warnings.map(warning => (
+        <View key={warning.key} style={styles.warning}>
+          <AlertTriangle size={18} color={colors.error} />
+          <Text style={styles.warningText}>
+            {warning.label} is over your limit: {warning.total.toLocaleString()} of {warning.limit.toLocaleString()} {warning.unit}
+          </Text>
+        </View>
+      ))}
+
+      <View style={styles.nutritionGrid}>
+        {renderBar('Calories', summary?.total_calories || 0, goals.daily_calories, '', colors.primary)}
+        {renderBar('Protein', summary?.total_protein || 0, goals.daily_protein_g, 'g', colors.success)}
+        {renderBar('Carbs', summary?.total_carbs || 0, goals.daily_carbs_g, 'g', colors.warning)}
+        {renderBar('Fat', summary?.total_fat || 0, goals.daily_fat_g, 'g', colors.error)}
+      </View>
+
+      {notes.length > 0 && <Text style={styles.note}>{notes.join(' • ')}</Text>}
+
+      {/* Water */}
+      <View style={styles.section}>
+        <View style={styles.rowHeader}>
+          <Text style={styles.sectionTitle}>💧 Water</Text>
+          <Text style={styles.rowValue}>
+            {formatVolume(water.total_ml)} / {formatVolume(goals.daily_water_ml)}
+          </Text>
+        </View>
+        <View style={styles.progressBar}>
+          <View
+            style={[styles.progressFill, { width: `${percent(water.total_ml, goals.daily_water_ml)}%`, backgroundColor: '#06B6D4' }]}
+          />
+        </View>
+        <View style={styles.waterActions}>
+          {WATER_CONTAINERS.map(container => (
+            <TouchableOpacity key={container.id} style={styles.waterButton} onPress={() => onAddWater(container.ml)}>
+              <Text style={styles.waterButtonText}>
+                {container.emoji} +{formatVolume(container.ml)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {water.logs.length > 0 && (
+            <TouchableOpacity style={styles.undoButton} onPress={onUndoWater}>
+              <Undo2 size={16} color={colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {/* Fiber and limits */}
+      <View style={styles.section}>
+        {renderRow('Fiber', summary?.total_fiber || 0, goals.daily_fiber_g, 'g', 'target')}
+        {LIMIT_NUTRIENTS.map(nutrient =>
+          renderRow(
+            nutrient.label,
+            summary?.[nutrient.summary] || 0,
+            goals[nutrient.goal],
+            nutrient.unit,
+            'limit',
+            warnings.some(warning => warning.key === nutrient.key)
+          )
+        )}
+      </View>
+
+      {/* Micronutrients */}
+      {micronutrients.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Micronutrients</Text>
+          {micronutrients.map(nutrient =>
+            renderRow(
+              nutrient.label,
+              summary?.total_micronutrients[nutrient.key] || 0,
+              goals.micronutrient_targets?.[nutrient.key] || nutrient.dailyValue,
+              nutrient.unit,
+              'target'
+            )
+          )}
+          <Text style={styles.note}>From foods that list micronutrients</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: colors.error + '15',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  warningText: {
+    flex: 1,
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.error,
+  },
+  nutritionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+  },
+  nutritionItem: {
+    flex: 1,
+    minWidth: '45%',
+  },
+  nutritionLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  nutritionValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: colors.borderLight,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+  note: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 12,
+  },
+  section: {
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+    paddingTop: 16,
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  row: {
+    marginBottom: 12,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  rowLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  rowValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+  },
+  rowKind: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textTertiary,
+  },
+  waterActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  waterButton: {
+    backgroundColor: '#06B6D4' + '15',
+    borderRadius: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  waterButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: '#0891B2',
+  },
+  undoButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,778 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { X, Search, ChevronLeft, Plus, Check, ScanBarcode } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import {
+  Food,
+  FoodPortion,
+  FoodServing,
+  FoodUsage,
+  NutrientValues,
+  Micronutrients,
+  MICRONUTRIENTS,
+  searchFoods,
+  getFoodUsage,
+  createCustomFood,
+  portionNutrients,
+  nutrientsPer100g,
+  micronutrientsPer100g,
+  formatServing,
+  scaleNutrients,
+  toProductFood,
+} from '@/lib/foods';
+import { getProductLookup } from '@/lib/foodProducts';
+import BarcodeScanner from './BarcodeScanner';
+
+interface FoodPickerProps {
+  visible: boolean;
+  customFoods: Food[];
+  // Recipes to offer alongside foods; left out where recipes can't be used,
+  // e.g. as ingredients of another recipe
+  recipes?: Food[];
+  // Portion to start from when changing the food of an existing entry
+  initialPortion?: FoodPortion | null;
+  onClose: () => void;
+  onSelect: (portion: FoodPortion) => void;
+  onCustomFoodCreated: (food: Food) => void;
+}
+
+type PickerView = 'search' | 'portion' | 'create';
+
+const NO_RECIPES: Food[] = [];
+
+// Labels print nutrition either per serving or per 100 g
+type NutritionBasis = 'serving' | '100g';
+
+const NUTRIENT_FIELDS: { key: keyof NutrientValues; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: '' },
+  { key: 'protein_g', label: 'Protein', unit: 'g' },
+  { key: 'carbs_g', label: 'Carbs', unit: 'g' },
+  { key: 'fat_g', label: 'Fat', unit: 'g' },
+  { key: 'fiber_g', label: 'Fiber', unit: 'g' },
+  { key: 'sugar_g', label: 'Sugar', unit: 'g' },
+  { key: 'sodium_mg', label: 'Sodium', unit: 'mg' },
+];
+
+const emptyCustomForm = () => ({
+  name: '',
+  brand: '',
+  serving_label: '1 serving',
+  serving_grams: '',
+  basis: 'serving' as NutritionBasis,
+  ...NUTRIENT_FIELDS.reduce((values, field) => ({ ...values, [field.key]: '' }), {} as Record<keyof NutrientValues, string>),
+  // Optional; only the ones filled in are saved
+  micronutrients: {} as Record<string, string>,
+});
+
+// Food database search for the food journal: pick a food (searched, scanned,
+// recent, frequent or newly created) and the amount eaten
+export default function FoodPicker({
+  visible,
+  customFoods,
+  recipes = NO_RECIPES,
+  initialPortion,
+  onClose,
+  onSelect,
+  onCustomFoodCreated,
+}: FoodPickerProps) {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+
+  const [view, setView] = useState<PickerView>('search');
+  const [query, setQuery] = useState('');
+  const [usage, setUsage] = useState<{ recent: FoodUsage[]; frequent: FoodUsage[] }>({ recent: [], frequent: [] });
+  const [food, setFood] = useState<Food | null>(null);
+  const [serving, setServing] = useState<FoodServing | null>(null);
+  const [quantity, setQuantity] = useState('1');
+  const [customForm, setCustomForm] = useState(emptyCustomForm());
+  const [savingCustom, setSavingCustom] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  const [lookingUp, setLookingUp] = useState(false);
+  // Scanned code with no product yet; the create form then adds the product
+  const [pendingBarcode, setPendingBarcode] = useState<string | null>(null);
+
+  const savedFoods = useMemo(() => [...recipes, ...customFoods], [recipes, customFoods]);
+
+  useEffect(() => {
+    if (!visible) return;
+    setQuery('');
+    setPendingBarcode(null);
+    if (initialPortion) {
+      openPortion(initialPortion.food, initialPortion.serving, initialPortion.quantity);
+    } else {
+      setView('search');
+    }
+    getFoodUsage(savedFoods).then(setUsage);
+  }, [visible]);
+
+  const results = useMemo(() => searchFoods(query, savedFoods), [query, savedFoods]);
+
+  const parsedQuantity = parseFloat(quantity);
+  const portion: FoodPortion | null = food && serving && parsedQuantity > 0
+    ? { food, serving, quantity: parsedQuantity }
+    : null;
+  const nutrients = portion ? portionNutrients(portion) : null;
+
+  const openPortion = (selected: Food, selectedServing?: FoodServing, selectedQuantity = 1) => {
+    setFood(selected);
+    setServing(selectedServing || selected.servings[0]);
+    setQuantity(String(selectedQuantity));
+    setView('portion');
+  };
+
+  const handleUseFood = () => {
+    if (!portion) {
+      Alert.alert('Error', 'Please enter an amount greater than zero');
+      return;
+    }
+    onSelect(portion);
+  };
+
+  const handleScanned = async (barcode: string) => {
+    setShowScanner(false);
+    setLookingUp(true);
+    const product = await getProductLookup().findByBarcode(barcode);
+    setLookingUp(false);
+
+    if (product) {
+      openPortion(toProductFood(product));
+      return;
+    }
+
+    setPendingBarcode(barcode);
+    setCustomForm(emptyCustomForm());
+    setView('create');
+  };
+
+  const addScannedProduct = async (
+    barcode: string,
+    nutrients: NutrientValues,
+    micronutrients: Micronutrients,
+    serving: FoodServing | null
+  ): Promise<Food | null> => {
+    const lookup = getProductLookup();
+    const product = await lookup.contribute({
+      barcode,
+      name: customForm.name,
+      brand: customForm.brand,
+      serving_label: serving?.label,
+      serving_grams: serving?.grams,
+      nutrients,
+      micronutrients,
+    });
+    // Someone else may have added the same product in the meantime
+    const saved = product || await lookup.findByBarcode(barcode);
+    return saved ? toProductFood(saved) : null;
+  };
+
+  const handleSaveCustomFood = async () => {
+    const grams = parseFloat(customForm.serving_grams);
+    if (!customForm.name.trim()) {
+      Alert.alert('Error', 'Please enter a name');
+      return;
+    }
+    if (customForm.basis === 'serving' && !(grams > 0)) {
+      Alert.alert('Error', 'Please enter the serving weight in grams');
+      return;
+    }
+
+    const values = NUTRIENT_FIELDS.reduce((entered, field) => {
+      entered[field.key] = parseFloat(customForm[field.key]) || 0;
+      return entered;
+    }, {} as NutrientValues);
+    const nutrients = customForm.basis === '100g' ? values : nutrientsPer100g(values, grams);
+    const enteredMicronutrients = MICRONUTRIENTS.reduce((entered, { key }) => {
+      const value = parseFloat(customForm.micronutrients[key]);
+      if (value > 0) entered[key] = value;
+      return entered;
+    }, {} as Micronutrients);
+    const micronutrients = customForm.basis === '100g'
+      ? enteredMicronutrients
+      : micronutrientsPer100g(enteredMicronutrients, grams);
+    const serving = grams > 0 ? { label: customForm.serving_label.trim() || '1 serving', grams } : null;
+
+    setSavingCustom(true);
+    let created: Food | null;
+    if (pendingBarcode) {
+      created = await addScannedProduct(pendingBarcode, nutrients, micronutrients, serving);
+    } else {
+      created = await createCustomFood({
+        name: customForm.name,
+        brand: customForm.brand,
+        nutrients,
+        micronutrients,
+        servings: serving ? [serving] : [],
+      });
+      if (created) onCustomFoodCreated(created);
+    }
+    setSavingCustom(false);
+
+    if (!created) {
+      Alert.alert('Error', pendingBarcode ? 'Failed to add product' : 'Failed to save custom food');
+      return;
+    }
+
+    setPendingBarcode(null);
+    setCustomForm(emptyCustomForm());
+    openPortion(created);
+  };
+
+  const handleBack = () => {
+    if (view === 'search') {
+      onClose();
+    } else {
+      setPendingBarcode(null);
+      setView('search');
+    }
+  };
+
+  const renderFoodRow = (item: Food, detail: string, onPress: () => void) => (
+    <TouchableOpacity key={item.key} style={styles.foodRow} onPress={onPress}>
+      <View style={styles.foodRowText}>
+        <Text style={styles.foodName} numberOfLines={1}>{item.name}</Text>
+        <Text style={styles.foodDetail} numberOfLines={1}>{detail}</Text>
+      </View>
+      {(item.source === 'custom' || item.source === 'recipe') && (
+        <View style={styles.customBadge}>
+          <Text style={styles.customBadgeText}>{item.source === 'custom' ? 'Custom' : 'Recipe'}</Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+
+  const describeFood = (item: Food) => {
+    const firstServing = item.servings[0];
+    const calories = scaleNutrients(item.nutrients, firstServing.grams).calories;
+    const source = item.brand || item.category;
+    return `${source ? `${source} • ` : ''}${calories} cal per ${firstServing.label}`;
+  };
+
+  const renderUsageSection = (title: string, items: FoodUsage[], describe: (item: FoodUsage) => string) =>
+    items.length > 0 && (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{title}</Text>
+        {items.map(item =>
+          renderFoodRow(item.food, describe(item), () => openPortion(item.food, item.serving, item.quantity))
+        )}
+      </View>
+    );
+
+  const renderSearch = () => (
+    <>
+      <View style={styles.searchBar}>
+        <Search size={20} color={colors.textTertiary} />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search foods"
+          placeholderTextColor={colors.textTertiary}
+          autoCorrect={false}
+        />
+        {query.length > 0 && (
+          <TouchableOpacity onPress={() => setQuery('')}>
+            <X size={18} color={colors.textTertiary} />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={() => setShowScanner(true)} disabled={lookingUp}>
+          <ScanBarcode size={22} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+      {lookingUp && <Text style={styles.lookupText}>Looking up product...</Text>}
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+        {query.trim() ? (
+          results.length > 0 ? (
+            results.map(item => renderFoodRow(item, describeFood(item), () => openPortion(item)))
+          ) : (
+            <Text style={styles.emptyText}>No foods match "{query.trim()}".</Text>
+          )
+        ) : (
+          <>
+            {renderUsageSection('Recent', usage.recent, item => formatServing(item))}
+            {renderUsageSection('Frequent', usage.frequent, item => `Logged ${item.count} times`)}
+            {usage.recent.length === 0 && (
+              <Text style={styles.emptyText}>
+                Search for a food to log it. Foods you log will show up here.
+              </Text>
+            )}
+          </>
+        )}
+
+        <TouchableOpacity style={styles.createButton} onPress={() => setView('create')}>
+          <Plus size={20} color={colors.primary} />
+          <Text style={styles.createButtonText}>Create custom food</Text>
+        </TouchableOpacity>
+        <View style={{ height: 50 }} />
+      </ScrollView>
+    </>
+  );
+
+  const renderPortion = () => food && serving && (
+    <ScrollView style={styles.content} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+      <Text style={styles.portionName}>{food.name}</Text>
+      {(food.brand || food.category) && (
+        <Text style={styles.foodDetail}>{food.brand || food.category}</Text>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.fieldLabel}>Serving</Text>
+        <View style={styles.servingOptions}>
+          {food.servings.map(option => (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.servingChip, option.label === serving.label && styles.selectedServingChip]}
+              onPress={() => {
+                // Switching between grams and a serving keeps the same amount of food
+                if (portion) {
+                  const amount = +(portion.serving.grams * portion.quantity / option.grams).toFixed(2);
+                  setQuantity(String(amount));
+                }
+                setServing(option);
+              }}
+            >
+              <Text style={[styles.servingChipText, option.label === serving.label && styles.selectedServingChipText]}>
+                {option.label === 'g' ? 'grams' : `${option.label} (${option.grams} g)`}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.fieldLabel}>{serving.label === 'g' ? 'Grams' : 'Number of servings'}</Text>
+        <TextInput
+          style={styles.textInput}
+          value={quantity}
+          onChangeText={setQuantity}
+          placeholder="1"
+          placeholderTextColor={colors.textTertiary}
+          keyboardType="decimal-pad"
+        />
+      </View>
+
+      {nutrients && portion && (
+        <View style={styles.nutrientCard}>
+          <Text style={styles.nutrientCardTitle}>{formatServing(portion)}</Text>
+          {NUTRIENT_FIELDS.map(field => (
+            <View key={field.key} style={styles.nutrientRow}>
+              <Text style={styles.nutrientLabel}>{field.label}</Text>
+              <Text style={styles.nutrientValue}>
+                {nutrients[field.key]}{field.unit ? ` ${field.unit}` : ''}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.primaryButton, !portion && styles.disabledButton]}
+        onPress={handleUseFood}
+        disabled={!portion}
+      >
+        <Check size={20} color="#FFFFFF" />
+        <Text style={styles.primaryButtonText}>Use this food</Text>
+      </TouchableOpacity>
+      <View style={{ height: 50 }} />
+    </ScrollView>
+  );
+
+  const renderCreate = () => (
+    <ScrollView style={styles.content} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+      {pendingBarcode && (
+        <Text style={styles.foodDetail}>
+          No product found for {pendingBarcode}. Add it from its nutrition label and anyone who
+          scans it can log it.
+        </Text>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.fieldLabel}>Name *</Text>
+        <TextInput
+          style={styles.textInput}
+          value={customForm.name}
+          onChangeText={(text) => setCustomForm(prev => ({ ...prev, name: text }))}
+          placeholder="e.g. Protein bar"
+          placeholderTextColor={colors.textTertiary}
+        />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.fieldLabel}>Brand</Text>
+        <TextInput
+          style={styles.textInput}
+          value={customForm.brand}
+          onChangeText={(text) => setCustomForm(prev => ({ ...prev, brand: text }))}
+          placeholder="Optional"
+          placeholderTextColor={colors.textTertiary}
+        />
+      </View>
+
+      <View style={styles.formRow}>
+        <View style={styles.formFieldHalf}>
+          <Text style={styles.fieldLabel}>Serving</Text>
+          <TextInput
+            style={styles.textInput}
+            value={customForm.serving_label}
+            onChangeText={(text) => setCustomForm(prev => ({ ...prev, serving_label: text }))}
+            placeholder="1 bar"
+            placeholderTextColor={colors.textTertiary}
+          />
+        </View>
+        <View style={styles.formFieldHalf}>
+          <Text style={styles.fieldLabel}>Weight (g){customForm.basis === 'serving' ? ' *' : ''}</Text>
+          <TextInput
+            style={styles.textInput}
+            value={customForm.serving_grams}
+            onChangeText={(text) => setCustomForm(prev => ({ ...prev, serving_grams: text }))}
+            placeholder="0"
+            placeholderTextColor={colors.textTertiary}
+            keyboardType="decimal-pad"
+          />
+        </View>
+      </View>
+
+      <Text style={styles.sectionTitle}>Nutrition per</Text>
+      <View style={[styles.servingOptions, styles.section]}>
+        {(['serving', '100g'] as NutritionBasis[]).map(basis => (
+          <TouchableOpacity
+            key={basis}
+            style={[styles.servingChip, customForm.basis === basis && styles.selectedServingChip]}
+            onPress={() => setCustomForm(prev => ({ ...prev, basis }))}
+          >
+            <Text style={[styles.servingChipText, customForm.basis === basis && styles.selectedServingChipText]}>
+              {basis === 'serving' ? 'Serving' : '100 g'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <View style={styles.nutrientInputs}>
+        {NUTRIENT_FIELDS.map(field => (
+          <View key={field.key} style={styles.nutrientInput}>
+            <Text style={styles.fieldLabel}>
+              {field.label}{field.unit ? ` (${field.unit})` : ''}
+            </Text>
+            <TextInput
+              style={styles.textInput}
+              value={customForm[field.key]}
+              onChangeText={(text) => setCustomForm(prev => ({ ...prev, [field.key]: text }))}
+              placeholder="0"
+              placeholderTextColor={colors.textTertiary}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>Micronutrients (optional)</Text>
+      <View style={styles.nutrientInputs}>
+        {MICRONUTRIENTS.map(nutrient => (
+          <View key={nutrient.key} style={styles.nutrientInput}>
+            <Text style={styles.fieldLabel}>
+              {nutrient.label} ({nutrient.unit})
+            </Text>
+            <TextInput
+              style={styles.textInput}
+              value={customForm.micronutrients[nutrient.key] || ''}
+              onChangeText={(text) =>
+                setCustomForm(prev => ({ ...prev, micronutrients: { ...prev.micronutrients, [nutrient.key]: text } }))
+              }
+              placeholder="-"
+              placeholderTextColor={colors.textTertiary}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        ))}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, savingCustom && styles.disabledButton]}
+        onPress={handleSaveCustomFood}
+        disabled={savingCustom}
+      >
+        <Check size={20} color="#FFFFFF" />
+        <Text style={styles.primaryButtonText}>
+          {savingCustom ? 'Saving...' : pendingBarcode ? 'Add product' : 'Save food'}
+        </Text>
+      </TouchableOpacity>
+      <View style={{ height: 50 }} />
+    </ScrollView>
+  );
+
+  const titles: Record<PickerView, string> = {
+    search: 'Find Food',
+    portion: 'Amount',
+    create: pendingBarcode ? 'New Product' : 'Custom Food',
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleBack}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={handleBack}>
+            {view === 'search' ? (
+              <X size={24} color={colors.text} />
+            ) : (
+              <ChevronLeft size={24} color={colors.text} />
+            )}
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>{titles[view]}</Text>
+          <View style={{ width: 24 }} />
+        </View>
+
+        {view === 'search' && renderSearch()}
+        {view === 'portion' && renderPortion()}
+        {view === 'create' && renderCreate()}
+      </SafeAreaView>
+
+      <BarcodeScanner
+        visible={showScanner}
+        onClose={() => setShowScanner(false)}
+        onScanned={handleScanned}
+      />
+    </Modal>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: colors.text,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.text,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+    marginBottom: 12,
+  },
+  foodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    gap: 12,
+  },
+  foodRowText: {
+    flex: 1,
+  },
+  foodName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+  },
+  foodDetail: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  customBadge: {
+    backgroundColor: colors.primary + '20',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  customBadgeText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.primary,
+  },
+  lookupText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginHorizontal: 20,
+    marginTop: 8,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    paddingVertical: 16,
+    marginTop: 8,
+    gap: 8,
+  },
+  createButtonText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.primary,
+  },
+  portionName: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+  },
+  fieldLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  textInput: {
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.text,
+  },
+  servingOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  servingChip: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  selectedServingChip: {
+    backgroundColor: colors.primary + '20',
+    borderColor: colors.primary,
+  },
+  servingChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  selectedServingChipText: {
+    color: colors.primary,
+  },
+  nutrientCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  nutrientCardTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  nutrientRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  nutrientLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  nutrientValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+  },
+  formRow: {
+    flexDirection: 'row',
+    gap: 16,
+    marginBottom: 20,
+  },
+  formFieldHalf: {
+    flex: 1,
+  },
+  nutrientInputs: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    columnGap: 16,
+    marginBottom: 20,
+  },
+  nutrientInput: {
+    width: '47%',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 16,
+    gap: 8,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
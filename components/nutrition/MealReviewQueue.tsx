@@ -0,0 +1,400 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  Modal,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { Camera, Check, X } from 'lucide-react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { useColorScheme, getColors } from '../../hooks/useColorScheme';
+import { PendingMealReview, getPendingMealReviews, reviewFoodEntry } from '../../lib/mealReviews';
+
+const EMPTY_ESTIMATE = { calories: '', protein_g: '', carbs_g: '', fat_g: '', comment: '' };
+
+const formatLoggedAt = (date: string, time: string) =>
+  `${new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })} • ${time.slice(0, 5)}`;
+
+// Photo meals of the nutritionist's clients waiting for an estimate
+export default function MealReviewQueue() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+
+  const [reviews, setReviews] = useState<PendingMealReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [selected, setSelected] = useState<PendingMealReview | null>(null);
+  const [estimate, setEstimate] = useState(EMPTY_ESTIMATE);
+  const [saving, setSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      getPendingMealReviews()
+        .then(setReviews)
+        .finally(() => setLoading(false));
+    }, [])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    setReviews(await getPendingMealReviews());
+    setRefreshing(false);
+  };
+
+  const openReview = (review: PendingMealReview) => {
+    setSelected(review);
+    setEstimate(EMPTY_ESTIMATE);
+  };
+
+  const handleApprove = async () => {
+    if (!selected) return;
+
+    const calories = parseInt(estimate.calories);
+    if (!(calories > 0)) {
+      Alert.alert('Error', 'Please estimate the calories');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await reviewFoodEntry(selected.entry.id, {
+        calories,
+        protein_g: parseFloat(estimate.protein_g) || 0,
+        carbs_g: parseFloat(estimate.carbs_g) || 0,
+        fat_g: parseFloat(estimate.fat_g) || 0,
+      }, estimate.comment);
+      setReviews(prev => prev.filter(review => review.entry.id !== selected.entry.id));
+      setSelected(null);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to review meal');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderEstimateInput = (label: string, field: keyof typeof EMPTY_ESTIMATE, unit: string) => (
+    <View style={styles.estimateField}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <View style={styles.estimateInputRow}>
+        <TextInput
+          style={styles.estimateInput}
+          value={estimate[field]}
+          onChangeText={(text) => setEstimate(prev => ({ ...prev, [field]: text.replace(/[^0-9.]/g, '') }))}
+          placeholder="0"
+          placeholderTextColor={colors.textTertiary}
+          keyboardType="numeric"
+        />
+        <Text style={styles.unitText}>{unit}</Text>
+      </View>
+    </View>
+  );
+
+  const renderReviewCard = (review: PendingMealReview) => {
+    const { entry, client } = review;
+    return (
+      <TouchableOpacity key={entry.id} style={styles.reviewCard} onPress={() => openReview(review)}>
+        <View style={styles.reviewHeader}>
+          <View style={styles.reviewInfo}>
+            <Text style={styles.clientName}>{client?.full_name || client?.email || 'Client'}</Text>
+            <Text style={styles.mealMeta}>
+              {entry.meal_type ? `${entry.meal_type.emoji} ${entry.meal_type.name} • ` : ''}
+              {formatLoggedAt(entry.date, entry.time)}
+            </Text>
+          </View>
+          <Text style={styles.reviewAction}>Review</Text>
+        </View>
+
+        {entry.photos && entry.photos.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {entry.photos.map(photo => (
+              <Image key={photo.id} source={{ uri: photo.photo_url }} style={styles.thumbnail} />
+            ))}
+          </ScrollView>
+        )}
+
+        {entry.notes && <Text style={styles.clientNotes}>{entry.notes}</Text>}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.list}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <Text style={styles.summary}>
+          {reviews.length === 1 ? '1 meal' : `${reviews.length} meals`} waiting for an estimate
+        </Text>
+
+        {loading ? (
+          <Text style={styles.emptyText}>Loading meals...</Text>
+        ) : reviews.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Camera size={48} color={colors.textTertiary} />
+            <Text style={styles.emptyTitle}>All caught up</Text>
+            <Text style={styles.emptyText}>
+              Meals your clients log with just a photo will appear here
+            </Text>
+          </View>
+        ) : (
+          reviews.map(renderReviewCard)
+        )}
+
+        <View style={{ height: 100 }} />
+      </ScrollView>
+
+      <Modal
+        visible={!!selected}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setSelected(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setSelected(null)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Review Meal</Text>
+            <View style={{ width: 24 }} />
+          </View>
+
+          {selected && (
+            <ScrollView style={styles.modalContent} keyboardShouldPersistTaps="handled">
+              <Text style={styles.clientName}>{selected.client?.full_name || selected.client?.email}</Text>
+              <Text style={styles.mealMeta}>
+                {selected.entry.title} • {formatLoggedAt(selected.entry.date, selected.entry.time)}
+              </Text>
+
+              {selected.entry.photos?.map(photo => (
+                <Image key={photo.id} source={{ uri: photo.photo_url }} style={styles.photo} />
+              ))}
+
+              {selected.entry.notes && <Text style={styles.clientNotes}>{selected.entry.notes}</Text>}
+
+              <Text style={styles.sectionTitle}>Estimate</Text>
+              <View style={styles.estimateGrid}>
+                {renderEstimateInput('Calories *', 'calories', 'cal')}
+                {renderEstimateInput('Protein', 'protein_g', 'g')}
+                {renderEstimateInput('Carbs', 'carbs_g', 'g')}
+                {renderEstimateInput('Fat', 'fat_g', 'g')}
+              </View>
+
+              <Text style={styles.sectionTitle}>Comment</Text>
+              <TextInput
+                style={styles.commentInput}
+                value={estimate.comment}
+                onChangeText={(text) => setEstimate(prev => ({ ...prev, comment: text }))}
+                placeholder="Feedback for your client..."
+                placeholderTextColor={colors.textTertiary}
+                multiline
+              />
+
+              <TouchableOpacity
+                style={[styles.approveButton, saving && { opacity: 0.6 }]}
+                onPress={handleApprove}
+                disabled={saving}
+              >
+                <Check size={20} color="#FFFFFF" />
+                <Text style={styles.approveButtonText}>{saving ? 'Saving...' : 'Approve Estimate'}</Text>
+              </TouchableOpacity>
+
+              <View style={{ height: 40 }} />
+            </ScrollView>
+          )}
+        </SafeAreaView>
+      </Modal>
+    </View>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  summary: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 16,
+  },
+  reviewCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  reviewInfo: {
+    flex: 1,
+  },
+  clientName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  mealMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  reviewAction: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.primary,
+  },
+  thumbnail: {
+    width: 96,
+    height: 72,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  clientNotes: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 40,
+  },
+  emptyTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  photo: {
+    width: '100%',
+    aspectRatio: 4 / 3,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  estimateGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  estimateField: {
+    width: '47%',
+  },
+  fieldLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 6,
+  },
+  estimateInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  estimateInput: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.text,
+    paddingVertical: 10,
+  },
+  unitText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  commentInput: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    padding: 12,
+    minHeight: 90,
+    textAlignVertical: 'top',
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.text,
+  },
+  approveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: colors.success,
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 24,
+  },
+  approveButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,706 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, Save, Plus, Trash2, Calendar, Archive } from 'lucide-react-native';
+import { router } from 'expo-router';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { MealType, getMealTypes } from '@/lib/foodJournal';
+import { Food, FoodPortion, formatServing, getCustomFoods } from '@/lib/foods';
+import { getRecipeFoods } from '@/lib/recipes';
+import {
+  DAY_NAMES,
+  NutritionPlan,
+  NutritionPlanFoodInput,
+  NutritionPlanMealInput,
+  archiveNutritionPlan,
+  getActiveNutritionPlan,
+  localDate,
+  mealTargets,
+  planFoodFromPortion,
+  saveNutritionPlan,
+} from '@/lib/nutritionPlans';
+import FoodPicker from './FoodPicker';
+
+type TargetKey = 'target_calories' | 'target_protein_g' | 'target_carbs_g' | 'target_fat_g';
+
+// Targets are edited as text and left empty to follow the planned foods
+type MealDraft = Omit<NutritionPlanMealInput, TargetKey> & {
+  key: string;
+  targets: Record<TargetKey, string>;
+};
+
+const TARGET_FIELDS: { key: TargetKey; label: string }[] = [
+  { key: 'target_calories', label: 'Calories' },
+  { key: 'target_protein_g', label: 'Protein (g)' },
+  { key: 'target_carbs_g', label: 'Carbs (g)' },
+  { key: 'target_fat_g', label: 'Fat (g)' },
+];
+
+let draftKey = 0;
+const nextKey = () => `meal-${draftKey++}`;
+
+const toDraft = (meal: NutritionPlan['meals'][number]): MealDraft => ({
+  key: nextKey(),
+  day_of_week: meal.day_of_week,
+  meal_type_id: meal.meal_type_id,
+  name: meal.name,
+  notes: meal.notes,
+  targets: {
+    target_calories: meal.target_calories?.toString() ?? '',
+    target_protein_g: meal.target_protein_g?.toString() ?? '',
+    target_carbs_g: meal.target_carbs_g?.toString() ?? '',
+    target_fat_g: meal.target_fat_g?.toString() ?? '',
+  },
+  foods: meal.foods.map(({ id, plan_meal_id, position, created_at, ...food }) => food),
+});
+
+const parseTarget = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const draftTargets = (meal: MealDraft) =>
+  mealTargets({
+    target_calories: parseTarget(meal.targets.target_calories),
+    target_protein_g: parseTarget(meal.targets.target_protein_g),
+    target_carbs_g: parseTarget(meal.targets.target_carbs_g),
+    target_fat_g: parseTarget(meal.targets.target_fat_g),
+    foods: meal.foods.map(food => ({
+      calories: Number(food.calories) || 0,
+      protein_g: Number(food.protein_g) || 0,
+      carbs_g: Number(food.carbs_g) || 0,
+      fat_g: Number(food.fat_g) || 0,
+    })),
+  });
+
+interface NutritionPlanEditorProps {
+  clientId: string;
+  clientName: string;
+}
+
+// The client's meal plan: meal slots for every day, or for single weekdays
+// which then replace the every-day slots on that day. Each slot has target
+// macros, planned foods or both.
+export default function NutritionPlanEditor({ clientId, clientName }: NutritionPlanEditorProps) {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+
+  const [plan, setPlan] = useState<NutritionPlan | null>(null);
+  const [mealTypes, setMealTypes] = useState<MealType[]>([]);
+  const [customFoods, setCustomFoods] = useState<Food[]>([]);
+  const [recipeFoods, setRecipeFoods] = useState<Food[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [startDate, setStartDate] = useState(localDate(new Date()));
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [meals, setMeals] = useState<MealDraft[]>([]);
+  // null edits the every-day slots
+  const [selectedDay, setSelectedDay] = useState<number | null>(null);
+  // Slot the food picker adds to
+  const [pickingFor, setPickingFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [clientId]);
+
+  const loadData = async () => {
+    const [planData, mealTypesData, customFoodsData, recipeFoodsData] = await Promise.all([
+      getActiveNutritionPlan(clientId),
+      getMealTypes(),
+      getCustomFoods(),
+      getRecipeFoods(),
+    ]);
+    setPlan(planData);
+    setMealTypes(mealTypesData);
+    setCustomFoods(customFoodsData);
+    setRecipeFoods(recipeFoodsData);
+    if (planData) {
+      setName(planData.name);
+      setDescription(planData.description || '');
+      setStartDate(planData.start_date);
+      setMeals(planData.meals.map(toDraft));
+    }
+    setLoading(false);
+  };
+
+  const dayMeals = meals.filter(meal => meal.day_of_week === selectedDay);
+  const everyDayCount = meals.filter(meal => meal.day_of_week === null).length;
+
+  const dayTotals = dayMeals.map(draftTargets).reduce(
+    (total, targets) => ({
+      calories: total.calories + targets.calories,
+      protein_g: total.protein_g + targets.protein_g,
+      carbs_g: total.carbs_g + targets.carbs_g,
+      fat_g: total.fat_g + targets.fat_g,
+    }),
+    { calories: 0, protein_g: 0, carbs_g: 0, fat_g: 0 }
+  );
+
+  const updateMeal = (key: string, changes: Partial<MealDraft>) => {
+    setMeals(prev => prev.map(meal => (meal.key === key ? { ...meal, ...changes } : meal)));
+  };
+
+  const handleAddMeal = () => {
+    const usedTypes = dayMeals.map(meal => meal.meal_type_id);
+    const mealType = mealTypes.find(type => !usedTypes.includes(type.id)) || mealTypes[0];
+    setMeals(prev => [
+      ...prev,
+      {
+        key: nextKey(),
+        day_of_week: selectedDay,
+        meal_type_id: mealType?.id || null,
+        name: mealType?.name || 'Meal',
+        notes: null,
+        targets: { target_calories: '', target_protein_g: '', target_carbs_g: '', target_fat_g: '' },
+        foods: [],
+      },
+    ]);
+  };
+
+  // Start a weekday from the every-day slots instead of from scratch
+  const handleCopyEveryDay = () => {
+    setMeals(prev => [
+      ...prev,
+      ...prev
+        .filter(meal => meal.day_of_week === null)
+        .map(meal => ({ ...meal, key: nextKey(), day_of_week: selectedDay })),
+    ]);
+  };
+
+  const handleSelectMealType = (meal: MealDraft, mealType: MealType) => {
+    const previousType = mealTypes.find(type => type.id === meal.meal_type_id);
+    updateMeal(meal.key, {
+      meal_type_id: mealType.id,
+      // Keep a name the nutritionist typed; follow the meal type otherwise
+      name: !meal.name || meal.name === previousType?.name ? mealType.name : meal.name,
+    });
+  };
+
+  const handleSelectFood = (portion: FoodPortion) => {
+    if (!pickingFor) return;
+    const food: NutritionPlanFoodInput = planFoodFromPortion(portion);
+    setMeals(prev =>
+      prev.map(meal => (meal.key === pickingFor ? { ...meal, foods: [...meal.foods, food] } : meal))
+    );
+    setPickingFor(null);
+  };
+
+  const handleDateChange = (event: any, date?: Date) => {
+    setShowDatePicker(false);
+    if (date) setStartDate(localDate(date));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a plan name');
+      return;
+    }
+    if (meals.length === 0) {
+      Alert.alert('Error', 'Please add at least one meal');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveNutritionPlan(
+        { client_id: clientId, name, description, start_date: startDate, end_date: null },
+        meals.map(({ key, targets, ...meal }) => ({
+          ...meal,
+          name: meal.name.trim() || 'Meal',
+          target_calories: parseTarget(targets.target_calories),
+          target_protein_g: parseTarget(targets.target_protein_g),
+          target_carbs_g: parseTarget(targets.target_carbs_g),
+          target_fat_g: parseTarget(targets.target_fat_g),
+        })),
+        plan?.id
+      );
+      router.back();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save meal plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = () => {
+    if (!plan) return;
+    Alert.alert(
+      'End Meal Plan',
+      `${clientName} will no longer see "${plan.name}" in their food journal.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'End Plan',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await archiveNutritionPlan(plan.id);
+            if (success) {
+              router.back();
+            } else {
+              Alert.alert('Error', 'Failed to end meal plan');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderMeal = (meal: MealDraft) => (
+    <View key={meal.key} style={styles.mealCard}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {mealTypes.map(mealType => (
+          <TouchableOpacity
+            key={mealType.id}
+            style={[styles.chip, meal.meal_type_id === mealType.id && styles.activeChip]}
+            onPress={() => handleSelectMealType(meal, mealType)}
+          >
+            <Text style={[styles.chipText, meal.meal_type_id === mealType.id && styles.activeChipText]}>
+              {mealType.emoji} {mealType.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <View style={styles.mealNameRow}>
+        <TextInput
+          style={[styles.textInput, styles.mealNameInput]}
+          value={meal.name}
+          onChangeText={text => updateMeal(meal.key, { name: text })}
+          placeholder="Meal name"
+          placeholderTextColor={colors.textTertiary}
+        />
+        <TouchableOpacity onPress={() => setMeals(prev => prev.filter(existing => existing.key !== meal.key))}>
+          <Trash2 size={20} color={colors.error} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.targetGrid}>
+        {TARGET_FIELDS.map(({ key, label }) => (
+          <View key={key} style={styles.targetField}>
+            <Text style={styles.targetLabel}>{label}</Text>
+            <TextInput
+              style={styles.textInput}
+              value={meal.targets[key]}
+              onChangeText={text => updateMeal(meal.key, { targets: { ...meal.targets, [key]: text } })}
+              placeholder={meal.foods.length > 0 ? 'From foods' : '–'}
+              placeholderTextColor={colors.textTertiary}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        ))}
+      </View>
+
+      {meal.foods.map((food, index) => (
+        <View key={`${food.name}-${index}`} style={styles.foodRow}>
+          <View style={styles.foodInfo}>
+            <Text style={styles.foodName} numberOfLines={1}>{food.name}</Text>
+            <Text style={styles.foodDetail}>
+              {formatServing({
+                serving: { label: food.serving_label ?? null, grams: food.serving_grams ?? null },
+                quantity: food.quantity ?? null,
+              })} • {Math.round(Number(food.calories) || 0)} cal
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => updateMeal(meal.key, { foods: meal.foods.filter((_, i) => i !== index) })}
+          >
+            <Trash2 size={16} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <TouchableOpacity style={styles.addFoodButton} onPress={() => setPickingFor(meal.key)}>
+        <Plus size={16} color={colors.primary} />
+        <Text style={styles.addButtonText}>Add food</Text>
+      </TouchableOpacity>
+
+      <TextInput
+        style={[styles.textInput, styles.notesInput]}
+        value={meal.notes || ''}
+        onChangeText={text => updateMeal(meal.key, { notes: text || null })}
+        placeholder="Notes for the client (optional)"
+        placeholderTextColor={colors.textTertiary}
+        multiline
+      />
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title}>Meal Plan</Text>
+          <Text style={styles.subtitle}>{clientName}</Text>
+        </View>
+        <TouchableOpacity onPress={handleSave} disabled={saving || loading} style={styles.headerButton}>
+          <Save size={24} color={saving || loading ? colors.textTertiary : colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <Text style={styles.emptyText}>Loading meal plan...</Text>
+      ) : (
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+          <Text style={styles.fieldLabel}>Name *</Text>
+          <TextInput
+            style={styles.textInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="e.g. High protein cut"
+            placeholderTextColor={colors.textTertiary}
+          />
+
+          <Text style={styles.fieldLabel}>Description</Text>
+          <TextInput
+            style={styles.textInput}
+            value={description}
+            onChangeText={setDescription}
+            placeholder="Optional"
+            placeholderTextColor={colors.textTertiary}
+          />
+
+          <Text style={styles.fieldLabel}>Starts</Text>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setShowDatePicker(true)}>
+            <Calendar size={18} color={colors.primary} />
+            <Text style={styles.dateText}>
+              {new Date(`${startDate}T00:00:00`).toLocaleDateString('en-US', {
+                weekday: 'short',
+                month: 'short',
+                day: 'numeric',
+              })}
+            </Text>
+          </TouchableOpacity>
+
+          <Text style={styles.sectionTitle}>Meals</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {[null, 0, 1, 2, 3, 4, 5, 6].map(day => {
+              const count = meals.filter(meal => meal.day_of_week === day).length;
+              return (
+                <TouchableOpacity
+                  key={day ?? 'all'}
+                  style={[styles.chip, selectedDay === day && styles.activeChip]}
+                  onPress={() => setSelectedDay(day)}
+                >
+                  <Text style={[styles.chipText, selectedDay === day && styles.activeChipText]}>
+                    {day === null ? 'Every day' : DAY_NAMES[day].slice(0, 3)}
+                    {count > 0 ? ` (${count})` : ''}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {selectedDay !== null && dayMeals.length === 0 && (
+            <View style={styles.hintCard}>
+              <Text style={styles.hintText}>
+                {everyDayCount > 0
+                  ? `${DAY_NAMES[selectedDay]} follows the every-day meals. Meals added here replace them on ${DAY_NAMES[selectedDay]}s.`
+                  : `Meals added here apply on ${DAY_NAMES[selectedDay]}s only.`}
+              </Text>
+              {everyDayCount > 0 && (
+                <TouchableOpacity onPress={handleCopyEveryDay}>
+                  <Text style={styles.hintAction}>Start from the every-day meals</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {dayMeals.map(renderMeal)}
+
+          <TouchableOpacity style={styles.addButton} onPress={handleAddMeal}>
+            <Plus size={20} color={colors.primary} />
+            <Text style={styles.addButtonText}>Add meal</Text>
+          </TouchableOpacity>
+
+          {dayMeals.length > 0 && (
+            <View style={styles.totalsCard}>
+              <Text style={styles.totalsTitle}>
+                {selectedDay === null ? 'Every day' : DAY_NAMES[selectedDay]} total
+              </Text>
+              <Text style={styles.totalsText}>
+                {Math.round(dayTotals.calories)} cal • {Math.round(dayTotals.protein_g)}g protein •{' '}
+                {Math.round(dayTotals.carbs_g)}g carbs • {Math.round(dayTotals.fat_g)}g fat
+              </Text>
+            </View>
+          )}
+
+          {plan && (
+            <TouchableOpacity style={styles.archiveButton} onPress={handleArchive}>
+              <Archive size={18} color={colors.error} />
+              <Text style={styles.archiveText}>End this plan</Text>
+            </TouchableOpacity>
+          )}
+          <View style={{ height: 50 }} />
+        </ScrollView>
+      )}
+
+      {showDatePicker && (
+        <DateTimePicker
+          value={new Date(`${startDate}T00:00:00`)}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleDateChange}
+        />
+      )}
+
+      <FoodPicker
+        visible={pickingFor !== null}
+        customFoods={customFoods}
+        recipes={recipeFoods}
+        onClose={() => setPickingFor(null)}
+        onSelect={handleSelectFood}
+        onCustomFoodCreated={food => setCustomFoods(prev => [...prev, food])}
+      />
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    padding: 4,
+  },
+  headerInfo: {
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+  },
+  subtitle: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  textInput: {
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontFamily: 'Inter-Regular',
+    fontSize: 15,
+    color: colors.text,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  dateText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 15,
+    color: colors.text,
+  },
+  chipRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  chip: {
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  activeChip: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  activeChipText: {
+    color: '#FFFFFF',
+  },
+  hintCard: {
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+  },
+  hintText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  hintAction: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: colors.primary,
+    marginTop: 8,
+  },
+  mealCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+  },
+  mealNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  mealNameInput: {
+    flex: 1,
+  },
+  targetGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  targetField: {
+    width: '48%',
+  },
+  targetLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  foodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+    gap: 12,
+  },
+  foodInfo: {
+    flex: 1,
+  },
+  foodName: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+  },
+  foodDetail: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  addFoodButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 6,
+  },
+  notesInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    paddingVertical: 16,
+    gap: 8,
+  },
+  addButtonText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.primary,
+  },
+  totalsCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+  },
+  totalsTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 4,
+  },
+  totalsText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  archiveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    marginTop: 24,
+    gap: 8,
+  },
+  archiveText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.error,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
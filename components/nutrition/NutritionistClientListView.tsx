@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   Text,
@@ -6,116 +6,125 @@ import {
   ScrollView,
   TouchableOpacity,
   TextInput,
+  RefreshControl,
 } from 'react-native';
 import { 
   Users, 
   Search, 
-  Filter, 
+  ArrowUpDown, 
   Apple, 
-  TrendingUp,
-  Calendar,
   MessageSquare,
-  ChevronRight,
   Target,
-  Clock
 } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import { router } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { Profile, getCurrentUserProfile, getNutritionistClients } from '../../lib/database';
+import {
+  AdherenceStatus,
+  ClientAdherence,
+  adherenceStatus,
+  getClientsAdherence,
+  localDate,
+} from '../../lib/nutritionPlans';
 
 interface NutritionClient {
   id: string;
   name: string;
   email: string;
-  avatar: string;
+  initials: string;
   lastMealLogged: string;
-  compliance: number;
-  currentWeight: number;
-  goalWeight: number;
-  calorieGoal: number;
-  avgCalories: number;
-  status: 'on-track' | 'needs-attention' | 'excellent';
-  nextConsultation?: string;
-  mealPlan: string;
+  // Weekly adherence to the meal plan, null without a plan
+  compliance: number | null;
+  avgCalories: number | null;
+  status: AdherenceStatus;
+  mealPlan: string | null;
 }
 
-const mockClients: NutritionClient[] = [
-  {
-    id: '1',
-    name: 'Maria Garcia',
-    email: 'maria@example.com',
-    avatar: '👩‍🍳',
-    lastMealLogged: 'Today',
-    compliance: 88,
-    currentWeight: 65,
-    goalWeight: 60,
-    calorieGoal: 1800,
-    avgCalories: 1750,
-    status: 'on-track',
-    nextConsultation: '2024-06-15',
-    mealPlan: 'Mediterranean Diet'
-  },
-  {
-    id: '2',
-    name: 'David Lee',
-    email: 'david@example.com',
-    avatar: '👨‍💼',
-    lastMealLogged: '2 days ago',
-    compliance: 65,
-    currentWeight: 85,
-    goalWeight: 78,
-    calorieGoal: 2200,
-    avgCalories: 2450,
-    status: 'needs-attention',
-    nextConsultation: '2024-06-12',
-    mealPlan: 'High Protein'
-  },
-  {
-    id: '3',
-    name: 'Anna Smith',
-    email: 'anna@example.com',
-    avatar: '👩‍🎨',
-    lastMealLogged: 'Yesterday',
-    compliance: 92,
-    currentWeight: 58,
-    goalWeight: 55,
-    calorieGoal: 1600,
-    avgCalories: 1580,
-    status: 'excellent',
-    nextConsultation: '2024-06-18',
-    mealPlan: 'Plant-Based'
-  },
-  {
-    id: '4',
-    name: 'James Wilson',
-    email: 'james@example.com',
-    avatar: '👨‍🔬',
-    lastMealLogged: 'Today',
-    compliance: 76,
-    currentWeight: 92,
-    goalWeight: 85,
-    calorieGoal: 2400,
-    avgCalories: 2380,
-    status: 'on-track',
-    mealPlan: 'Balanced Macro'
-  },
-];
+const formatLastMeal = (date: string | null, today: string) => {
+  if (!date) return 'None this week';
+  const days = Math.round(
+    (new Date(`${today}T00:00:00`).getTime() - new Date(`${date}T00:00:00`).getTime()) / 86400000
+  );
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  return `${days} days ago`;
+};
+
+const toNutritionClient = (client: Profile, adherence: ClientAdherence | undefined, today: string): NutritionClient => {
+  const name = client.full_name || client.email;
+  // Today is still being logged, so it would drag the average down
+  const loggedDays = adherence?.days.filter(day => day.date < today && day.logged.calories > 0) || [];
+
+  return {
+    id: client.id,
+    name,
+    email: client.email,
+    initials: name.split(' ').map(part => part[0]).join('').slice(0, 2).toUpperCase(),
+    lastMealLogged: formatLastMeal(adherence?.lastLoggedDate || null, today),
+    compliance: adherence?.plan ? adherence.weeklyScore : null,
+    avgCalories: loggedDays.length > 0
+      ? Math.round(loggedDays.reduce((total, day) => total + day.logged.calories, 0) / loggedDays.length)
+      : null,
+    status: adherence?.plan ? adherenceStatus(adherence.weeklyScore) : 'no-plan',
+    mealPlan: adherence?.plan?.name || null,
+  };
+};
 
 export default function NutritionistClientListView() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
 
+  const [clients, setClients] = useState<NutritionClient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedFilter, setSelectedFilter] = useState('all');
+  // Clients who need attention come first unless flipped
+  const [lowestFirst, setLowestFirst] = useState(true);
 
-  const filteredClients = mockClients.filter(client => {
+  // Scores change as clients log and plans are edited elsewhere
+  useFocusEffect(
+    useCallback(() => {
+      loadClients().finally(() => setLoading(false));
+    }, [])
+  );
+
+  const loadClients = async () => {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return;
+
+    const today = localDate(new Date());
+    const profiles = await getNutritionistClients(profile.id);
+    const adherence = await getClientsAdherence(profiles.map(client => client.id), today);
+    setClients(profiles.map(client => toNutritionClient(client, adherence[client.id], today)));
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadClients();
+    setRefreshing(false);
+  };
+
+  // Ranked by weekly adherence; clients without a plan go last
+  const rankedClients = [...clients].sort((a, b) => {
+    if (a.compliance === null || b.compliance === null) {
+      return a.compliance === b.compliance ? a.name.localeCompare(b.name) : a.compliance === null ? 1 : -1;
+    }
+    return lowestFirst ? a.compliance - b.compliance : b.compliance - a.compliance;
+  });
+
+  const filteredClients = rankedClients.filter(client => {
     const matchesSearch = client.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          client.email.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesFilter = selectedFilter === 'all' || client.status === selectedFilter;
     return matchesSearch && matchesFilter;
   });
 
+  const scoredClients = clients.filter(client => client.compliance !== null);
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'excellent': return colors.success;
@@ -130,6 +139,7 @@ export default function NutritionistClientListView() {
       case 'excellent': return 'Excellent';
       case 'on-track': return 'On Track';
       case 'needs-attention': return 'Needs Attention';
+      case 'no-plan': return 'No Plan';
       default: return 'Unknown';
     }
   };
@@ -147,13 +157,13 @@ export default function NutritionistClientListView() {
       <View style={styles.clientHeader}>
         <View style={styles.clientInfo}>
           <View style={styles.clientAvatar}>
-            <Text style={styles.clientAvatarText}>{client.avatar}</Text>
+            <Text style={styles.clientAvatarText}>{client.initials}</Text>
           </View>
           
           <View style={styles.clientDetails}>
             <Text style={styles.clientName}>{client.name}</Text>
             <Text style={styles.clientEmail}>{client.email}</Text>
-            <Text style={styles.clientMealPlan}>{client.mealPlan}</Text>
+            <Text style={styles.clientMealPlan}>{client.mealPlan || 'No meal plan'}</Text>
           </View>
         </View>
         
@@ -171,60 +181,54 @@ export default function NutritionistClientListView() {
         </View>
         
         <View style={styles.metricItem}>
-          <Text style={styles.metricLabel}>Compliance</Text>
+          <Text style={styles.metricLabel}>Adherence</Text>
           <Text style={[styles.metricValue, { color: getStatusColor(client.status) }]}>
-            {client.compliance}%
+            {client.compliance === null ? '–' : `${client.compliance}%`}
           </Text>
         </View>
         
         <View style={styles.metricItem}>
           <Text style={styles.metricLabel}>Avg Calories</Text>
-          <Text style={styles.metricValue}>{client.avgCalories}</Text>
+          <Text style={styles.metricValue}>{client.avgCalories ?? '–'}</Text>
         </View>
       </View>
 
-      <View style={styles.progressContainer}>
-        <View style={styles.progressInfo}>
-          <Text style={styles.progressLabel}>Weight Progress</Text>
-          <Text style={styles.progressText}>
-            {client.currentWeight}kg → {client.goalWeight}kg
-          </Text>
-        </View>
-        
-        <View style={styles.progressBar}>
-          <View 
-            style={[
-              styles.progressFill, 
-              { 
-                width: `${Math.min((client.currentWeight - client.goalWeight) / (client.currentWeight - client.goalWeight + 10) * 100, 100)}%`,
-                backgroundColor: getStatusColor(client.status)
-              }
-            ]} 
-          />
-        </View>
-      </View>
-
-      {client.nextConsultation && (
-        <View style={styles.consultationInfo}>
-          <Calendar size={14} color={colors.textSecondary} />
-          <Text style={styles.consultationText}>
-            Next consultation: {new Date(client.nextConsultation).toLocaleDateString()}
-          </Text>
+      {client.compliance !== null && (
+        <View style={styles.progressContainer}>
+          <View style={styles.progressInfo}>
+            <Text style={styles.progressLabel}>Plan adherence, last 7 days</Text>
+            <Text style={styles.progressText}>{client.compliance}%</Text>
+          </View>
+          
+          <View style={styles.progressBar}>
+            <View 
+              style={[
+                styles.progressFill, 
+                { 
+                  width: `${client.compliance}%`,
+                  backgroundColor: getStatusColor(client.status)
+                }
+              ]} 
+            />
+          </View>
         </View>
       )}
 
       <View style={styles.clientActions}>
-        <TouchableOpacity style={styles.actionButton}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => handleClientPress(client)}>
           <Apple size={16} color={colors.primary} />
           <Text style={styles.actionText}>View Meals</Text>
         </TouchableOpacity>
         
-        <TouchableOpacity style={styles.actionButton}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => router.push(`/chat/${client.id}`)}>
           <MessageSquare size={16} color={colors.success} />
           <Text style={styles.actionText}>Message</Text>
         </TouchableOpacity>
         
-        <TouchableOpacity style={styles.actionButton}>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => router.push(`/nutrition/plan/${client.id}?name=${encodeURIComponent(client.name)}`)}
+        >
           <Target size={16} color={colors.warning} />
           <Text style={styles.actionText}>Plan</Text>
         </TouchableOpacity>
@@ -238,8 +242,8 @@ export default function NutritionistClientListView() {
       <View style={styles.header}>
         <Text style={styles.title}>My Clients</Text>
         <View style={styles.headerActions}>
-          <TouchableOpacity style={styles.headerButton}>
-            <Filter size={20} color={colors.textSecondary} />
+          <TouchableOpacity style={styles.headerButton} onPress={() => setLowestFirst(prev => !prev)}>
+            <ArrowUpDown size={20} color={colors.textSecondary} />
           </TouchableOpacity>
         </View>
       </View>
@@ -270,6 +274,7 @@ export default function NutritionistClientListView() {
           { id: 'excellent', label: 'Excellent' },
           { id: 'on-track', label: 'On Track' },
           { id: 'needs-attention', label: 'Needs Attention' },
+          { id: 'no-plan', label: 'No Plan' },
         ].map((filter) => (
           <TouchableOpacity
             key={filter.id}
@@ -292,26 +297,34 @@ export default function NutritionistClientListView() {
       {/* Quick Stats */}
       <View style={styles.statsContainer}>
         <View style={styles.statCard}>
-          <Text style={styles.statNumber}>{mockClients.length}</Text>
+          <Text style={styles.statNumber}>{clients.length}</Text>
           <Text style={styles.statLabel}>Total Clients</Text>
         </View>
         <View style={styles.statCard}>
           <Text style={styles.statNumber}>
-            {Math.round(mockClients.reduce((sum, client) => sum + client.compliance, 0) / mockClients.length)}%
+            {scoredClients.length > 0
+              ? `${Math.round(scoredClients.reduce((sum, client) => sum + (client.compliance as number), 0) / scoredClients.length)}%`
+              : '–'}
           </Text>
-          <Text style={styles.statLabel}>Avg Compliance</Text>
+          <Text style={styles.statLabel}>Avg Adherence</Text>
         </View>
         <View style={styles.statCard}>
           <Text style={styles.statNumber}>
-            {mockClients.filter(c => c.status === 'excellent' || c.status === 'on-track').length}
+            {clients.filter(c => c.status === 'excellent' || c.status === 'on-track').length}
           </Text>
           <Text style={styles.statLabel}>On Track</Text>
         </View>
       </View>
 
       {/* Client List */}
-      <ScrollView style={styles.clientList} showsVerticalScrollIndicator={false}>
-        {filteredClients.length === 0 ? (
+      <ScrollView
+        style={styles.clientList}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {loading ? (
+          <Text style={styles.emptyText}>Loading clients...</Text>
+        ) : filteredClients.length === 0 ? (
           <View style={styles.emptyState}>
             <Users size={48} color={colors.textTertiary} />
             <Text style={styles.emptyTitle}>No clients found</Text>
@@ -470,7 +483,9 @@ const createStyles = (colors: any) => StyleSheet.create({
     marginRight: 12,
   },
   clientAvatarText: {
-    fontSize: 20,
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.primary,
   },
   clientDetails: {
     flex: 1,
@@ -552,17 +567,6 @@ const createStyles = (colors: any) => StyleSheet.create({
     height: '100%',
     borderRadius: 3,
   },
-  consultationInfo: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 12,
-  },
-  consultationText: {
-    fontFamily: 'Inter-Regular',
-    fontSize: 12,
-    color: colors.textSecondary,
-    marginLeft: 4,
-  },
   clientActions: {
     flexDirection: 'row',
     justifyContent: 'space-between',
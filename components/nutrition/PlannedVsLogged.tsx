@@ -0,0 +1,241 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { ClipboardList } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { DayAdherence, MacroValues, NutritionPlan } from '@/lib/nutritionPlans';
+
+interface PlannedVsLoggedProps {
+  plan: NutritionPlan;
+  day: DayAdherence;
+  weeklyScore: number | null;
+}
+
+const MACROS: { key: keyof MacroValues; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Cal', unit: '' },
+  { key: 'protein_g', label: 'P', unit: 'g' },
+  { key: 'carbs_g', label: 'C', unit: 'g' },
+  { key: 'fat_g', label: 'F', unit: 'g' },
+];
+
+// A day of the meal plan next to what was logged, meal by meal. Shared by
+// the client's journal and the nutritionist's view of it.
+export default function PlannedVsLogged({ plan, day, weeklyScore }: PlannedVsLoggedProps) {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+
+  const scoreColor = (score: number | null) => {
+    if (score === null) return colors.textTertiary;
+    if (score >= 85) return colors.success;
+    if (score >= 65) return colors.warning;
+    return colors.error;
+  };
+
+  const unplannedCalories = day.unplannedEntries.reduce((total, entry) => total + (entry.calories || 0), 0);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <ClipboardList size={18} color={colors.primary} />
+        <View style={styles.headerInfo}>
+          <Text style={styles.title}>{plan.name}</Text>
+          {plan.nutritionist?.full_name && (
+            <Text style={styles.subtitle}>by {plan.nutritionist.full_name}</Text>
+          )}
+        </View>
+        <View style={styles.scores}>
+          <View style={styles.score}>
+            <Text style={[styles.scoreValue, { color: scoreColor(day.score) }]}>{day.score ?? '–'}</Text>
+            <Text style={styles.scoreLabel}>Day</Text>
+          </View>
+          <View style={styles.score}>
+            <Text style={[styles.scoreValue, { color: scoreColor(weeklyScore) }]}>{weeklyScore ?? '–'}</Text>
+            <Text style={styles.scoreLabel}>7 days</Text>
+          </View>
+        </View>
+      </View>
+
+      {day.meals.length === 0 ? (
+        <Text style={styles.emptyText}>Nothing planned for this day.</Text>
+      ) : (
+        day.meals.map(meal => {
+          const mealName = meal.slots[0].meal_type?.name || meal.slots[0].name || 'Meal';
+          const plannedFoods = meal.slots.flatMap(slot => slot.foods.map(food => food.name));
+          const progress = meal.planned.calories > 0
+            ? Math.min((meal.logged.calories / meal.planned.calories) * 100, 100)
+            : meal.entries.length > 0 ? 100 : 0;
+
+          return (
+            <View key={meal.meal_type_id || mealName} style={styles.meal}>
+              <View style={styles.mealHeader}>
+                <Text style={styles.mealName}>{mealName}</Text>
+                <Text style={styles.mealCalories}>
+                  {Math.round(meal.logged.calories)} / {Math.round(meal.planned.calories)} kcal
+                </Text>
+              </View>
+              <View style={styles.progressBar}>
+                <View style={[styles.progressFill, { width: `${progress}%` }]} />
+              </View>
+              <View style={styles.macros}>
+                {MACROS.slice(1).map(({ key, label, unit }) => (
+                  <Text key={key} style={styles.macroText}>
+                    {label} {Math.round(meal.logged[key])}/{Math.round(meal.planned[key])}{unit}
+                  </Text>
+                ))}
+              </View>
+              {plannedFoods.length > 0 && (
+                <Text style={styles.foodsText} numberOfLines={2}>Planned: {plannedFoods.join(', ')}</Text>
+              )}
+              {meal.slots.map(slot => slot.notes).filter(Boolean).map((note, index) => (
+                <Text key={index} style={styles.foodsText}>{note}</Text>
+              ))}
+            </View>
+          );
+        })
+      )}
+
+      {day.meals.length > 0 && (
+        <View style={styles.totals}>
+          {MACROS.map(({ key, label, unit }) => (
+            <View key={key} style={styles.total}>
+              <Text style={styles.totalValue}>
+                {Math.round(day.logged[key])}/{Math.round(day.planned[key])}{unit}
+              </Text>
+              <Text style={styles.totalLabel}>{label}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {day.unplannedEntries.length > 0 && (
+        <Text style={styles.foodsText}>
+          Outside the plan: {day.unplannedEntries.length} {day.unplannedEntries.length === 1 ? 'entry' : 'entries'}, {Math.round(unplannedCalories)} kcal
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  subtitle: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  scores: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  score: {
+    alignItems: 'center',
+  },
+  scoreValue: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+  },
+  scoreLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 11,
+    color: colors.textSecondary,
+  },
+  meal: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+  },
+  mealHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  mealName: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+  },
+  mealCalories: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: colors.borderLight,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.primary,
+    borderRadius: 2,
+  },
+  macros: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 6,
+  },
+  macroText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  foodsText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: 4,
+  },
+  totals: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingTop: 10,
+    marginTop: 2,
+  },
+  total: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  totalValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: colors.text,
+  },
+  totalLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 11,
+    color: colors.textSecondary,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
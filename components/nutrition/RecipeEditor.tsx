@@ -0,0 +1,404 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { X, Save, Plus, Trash2 } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { Food, FoodPortion, formatServing, getReferencedPortion } from '@/lib/foods';
+import {
+  Recipe,
+  RecipeIngredient,
+  RecipeIngredientInput,
+  ingredientFromPortion,
+  recipeNutrition,
+  saveRecipe,
+} from '@/lib/recipes';
+import FoodPicker from './FoodPicker';
+
+interface RecipeEditorProps {
+  visible: boolean;
+  // null to create a new recipe
+  recipe: Recipe | null;
+  customFoods: Food[];
+  // Nutritionists can publish recipes to their clients
+  canPublish: boolean;
+  onClose: () => void;
+  onSaved: (recipe: Recipe) => void;
+  onCustomFoodCreated: (food: Food) => void;
+}
+
+type IngredientDraft = RecipeIngredientInput & Pick<RecipeIngredient, 'product'>;
+
+const toDraft = ({ id, recipe_id, position, created_at, ...ingredient }: RecipeIngredient): IngredientDraft =>
+  ingredient;
+
+// Create or edit a recipe: ingredients from the food database, the number of
+// servings it makes and, for nutritionists, whether clients can see it
+export default function RecipeEditor({
+  visible,
+  recipe,
+  customFoods,
+  canPublish,
+  onClose,
+  onSaved,
+  onCustomFoodCreated,
+}: RecipeEditorProps) {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [servings, setServings] = useState('1');
+  const [isPublished, setIsPublished] = useState(false);
+  const [ingredients, setIngredients] = useState<IngredientDraft[]>([]);
+  const [showFoodPicker, setShowFoodPicker] = useState(false);
+  // Index of the ingredient being changed; null when adding one
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(recipe?.name || '');
+    setDescription(recipe?.description || '');
+    setInstructions(recipe?.instructions || '');
+    setServings(String(recipe?.servings ?? 1));
+    setIsPublished(recipe?.is_published ?? false);
+    setIngredients(recipe?.ingredients.map(toDraft) || []);
+    setEditingIndex(null);
+  }, [visible, recipe]);
+
+  const parsedServings = parseFloat(servings);
+  const nutrition = recipeNutrition(ingredients, parsedServings);
+  const editingPortion: FoodPortion | null = editingIndex !== null
+    ? getReferencedPortion(ingredients[editingIndex], customFoods)
+    : null;
+
+  const openFoodPicker = (index: number | null) => {
+    setEditingIndex(index);
+    setShowFoodPicker(true);
+  };
+
+  const handleSelectFood = (portion: FoodPortion) => {
+    const ingredient = ingredientFromPortion(portion);
+    setIngredients(prev =>
+      editingIndex === null
+        ? [...prev, ingredient]
+        : prev.map((existing, index) => (index === editingIndex ? ingredient : existing))
+    );
+    setShowFoodPicker(false);
+  };
+
+  const handleRemoveIngredient = (index: number) => {
+    setIngredients(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a recipe name');
+      return;
+    }
+    if (!(parsedServings > 0)) {
+      Alert.alert('Error', 'Please enter how many servings the recipe makes');
+      return;
+    }
+    if (ingredients.length === 0) {
+      Alert.alert('Error', 'Please add at least one ingredient');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveRecipe(
+        {
+          name,
+          description,
+          instructions,
+          servings: parsedServings,
+          is_published: canPublish && isPublished,
+        },
+        ingredients.map(({ product, ...ingredient }) => ingredient),
+        recipe?.id
+      );
+      onSaved(saved);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save recipe');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>{recipe ? 'Edit Recipe' : 'New Recipe'}</Text>
+          <TouchableOpacity onPress={handleSave} disabled={saving}>
+            <Save size={24} color={saving ? colors.textTertiary : colors.primary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+          <Text style={styles.fieldLabel}>Name *</Text>
+          <TextInput
+            style={styles.textInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="e.g. Overnight oats"
+            placeholderTextColor={colors.textTertiary}
+          />
+
+          <Text style={styles.fieldLabel}>Description</Text>
+          <TextInput
+            style={styles.textInput}
+            value={description}
+            onChangeText={setDescription}
+            placeholder="Optional"
+            placeholderTextColor={colors.textTertiary}
+          />
+
+          <Text style={styles.fieldLabel}>Servings it makes *</Text>
+          <TextInput
+            style={styles.textInput}
+            value={servings}
+            onChangeText={setServings}
+            placeholder="1"
+            placeholderTextColor={colors.textTertiary}
+            keyboardType="decimal-pad"
+          />
+
+          <Text style={styles.sectionTitle}>Ingredients</Text>
+          {ingredients.map((ingredient, index) => (
+            <View key={`${ingredient.name}-${index}`} style={styles.ingredientRow}>
+              <TouchableOpacity style={styles.ingredientInfo} onPress={() => openFoodPicker(index)}>
+                <Text style={styles.ingredientName} numberOfLines={1}>{ingredient.name}</Text>
+                <Text style={styles.ingredientDetail}>
+                  {formatServing({
+                    serving: { label: ingredient.serving_label, grams: ingredient.serving_grams },
+                    quantity: ingredient.quantity,
+                  })} • {Math.round(Number(ingredient.calories) || 0)} cal
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleRemoveIngredient(index)}>
+                <Trash2 size={18} color={colors.error} />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <TouchableOpacity style={styles.addButton} onPress={() => openFoodPicker(null)}>
+            <Plus size={20} color={colors.primary} />
+            <Text style={styles.addButtonText}>Add ingredient</Text>
+          </TouchableOpacity>
+
+          {ingredients.length > 0 && (
+            <View style={styles.nutrientCard}>
+              <Text style={styles.nutrientCardTitle}>
+                Per serving{parsedServings > 0 ? ` (${Math.round(nutrition.grams / parsedServings)} g)` : ''}
+              </Text>
+              <View style={styles.macroRow}>
+                <Text style={styles.macroText}>{nutrition.perServing.calories} cal</Text>
+                <Text style={styles.macroText}>{nutrition.perServing.protein_g}g protein</Text>
+                <Text style={styles.macroText}>{nutrition.perServing.carbs_g}g carbs</Text>
+                <Text style={styles.macroText}>{nutrition.perServing.fat_g}g fat</Text>
+              </View>
+            </View>
+          )}
+
+          <Text style={styles.fieldLabel}>Instructions</Text>
+          <TextInput
+            style={[styles.textInput, styles.multilineInput]}
+            value={instructions}
+            onChangeText={setInstructions}
+            placeholder="Optional"
+            placeholderTextColor={colors.textTertiary}
+            multiline
+            textAlignVertical="top"
+          />
+
+          {canPublish && (
+            <View style={styles.publishRow}>
+              <View style={styles.publishText}>
+                <Text style={styles.publishTitle}>Publish to clients</Text>
+                <Text style={styles.publishHint}>
+                  Your clients can see and log published recipes, and are notified when you publish one.
+                </Text>
+              </View>
+              <Switch
+                value={isPublished}
+                onValueChange={setIsPublished}
+                trackColor={{ false: colors.border, true: colors.primary }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+          )}
+          <View style={{ height: 50 }} />
+        </ScrollView>
+      </SafeAreaView>
+
+      <FoodPicker
+        visible={showFoodPicker}
+        customFoods={customFoods}
+        initialPortion={editingPortion}
+        onClose={() => setShowFoodPicker(false)}
+        onSelect={handleSelectFood}
+        onCustomFoodCreated={onCustomFoodCreated}
+      />
+    </Modal>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: colors.text,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  textInput: {
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.text,
+  },
+  multilineInput: {
+    minHeight: 100,
+  },
+  ingredientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    gap: 12,
+  },
+  ingredientInfo: {
+    flex: 1,
+  },
+  ingredientName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+  },
+  ingredientDetail: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    paddingVertical: 16,
+    marginTop: 4,
+    gap: 8,
+  },
+  addButtonText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.primary,
+  },
+  nutrientCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+  },
+  nutrientCardTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  macroRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  macroText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  publishRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 24,
+    gap: 12,
+  },
+  publishText: {
+    flex: 1,
+  },
+  publishTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+  },
+  publishHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
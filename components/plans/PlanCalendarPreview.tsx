@@ -0,0 +1,200 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { CalendarX } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { ScheduleWeek } from '@/lib/scheduleEngine';
+
+interface PlanCalendarPreviewProps {
+  weeks: ScheduleWeek[];
+  getTemplateName: (templateId: string | null) => string;
+  // Sessions already completed or skipped that regeneration leaves in place
+  keptCount?: number;
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+// Week-by-week view of the sessions a schedule will generate, shown before
+// anything is saved
+export default function PlanCalendarPreview({ weeks, getTemplateName, keptCount = 0 }: PlanCalendarPreviewProps) {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+
+  const sessionCount = weeks.reduce((sum, week) => sum + week.sessions.length, 0);
+  const deloadCount = weeks.filter(week => week.is_deload).length;
+  const blackedOutCount = weeks.reduce((sum, week) => sum + week.blackedOut.length, 0);
+
+  return (
+    <View>
+      <View style={styles.summary}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{sessionCount}</Text>
+          <Text style={styles.summaryLabel}>Sessions</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{weeks.length}</Text>
+          <Text style={styles.summaryLabel}>Weeks</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{deloadCount}</Text>
+          <Text style={styles.summaryLabel}>Deload weeks</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{blackedOutCount}</Text>
+          <Text style={styles.summaryLabel}>Blacked out</Text>
+        </View>
+      </View>
+
+      {keptCount > 0 && (
+        <Text style={styles.keptText}>
+          {keptCount} completed or skipped session{keptCount === 1 ? '' : 's'} will be kept as they are.
+        </Text>
+      )}
+
+      {weeks.map(week => (
+        <View key={week.week_number} style={[styles.weekCard, week.is_deload && styles.deloadWeekCard]}>
+          <View style={styles.weekHeader}>
+            <Text style={styles.weekTitle}>
+              Week {week.week_number}
+              {week.mesocycle !== null ? ` · Block ${week.mesocycle}` : ''}
+            </Text>
+            {week.is_deload && (
+              <View style={styles.deloadBadge}>
+                <Text style={styles.deloadBadgeText}>Deload</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.weekDate}>From {formatDay(week.start_date)}</Text>
+
+          {week.sessions.length === 0 && week.blackedOut.length === 0 && (
+            <Text style={styles.restText}>No workouts this week</Text>
+          )}
+
+          {week.sessions.map(session => (
+            <View key={session.scheduled_date} style={styles.sessionRow}>
+              <Text style={styles.sessionDate}>{formatDay(session.scheduled_date)}</Text>
+              <Text style={styles.sessionName} numberOfLines={1}>
+                {session.notes || getTemplateName(session.template_id)}
+              </Text>
+            </View>
+          ))}
+
+          {week.blackedOut.map(session => (
+            <View key={`blackout-${session.scheduled_date}`} style={styles.sessionRow}>
+              <Text style={[styles.sessionDate, styles.blackedOutText]}>{formatDay(session.scheduled_date)}</Text>
+              <View style={styles.blackedOutName}>
+                <CalendarX size={14} color={colors.textTertiary} />
+                <Text style={[styles.sessionName, styles.blackedOutText]} numberOfLines={1}>
+                  {session.blackout.label || 'Blackout'}: {getTemplateName(session.template_id)}
+                </Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  summary: {
+    flexDirection: 'row',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: colors.text,
+  },
+  summaryLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  keptText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  weekCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  deloadWeekCard: {
+    borderColor: colors.warning,
+  },
+  weekHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  weekTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: colors.text,
+  },
+  deloadBadge: {
+    backgroundColor: colors.warning,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  deloadBadgeText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: '#FFFFFF',
+  },
+  weekDate: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  restText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  sessionDate: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+    width: 110,
+  },
+  sessionName: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.text,
+  },
+  blackedOutName: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  blackedOutText: {
+    color: colors.textTertiary,
+    textDecorationLine: 'line-through',
+  },
+});
@@ -14,13 +14,15 @@ import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import { useUserRole } from '../../contexts/UserContext';
 import { router } from 'expo-router';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
 
 export default function ProfileAdminView() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
-  const { userName, setUserRole } = useUserRole();
+  const { userName } = useUserRole();
   const { signOut } = useAuth();
+  const { can } = usePermissions();
 
   const [userInitials] = useState('VD');
   const [totalUsers] = useState(1247);
@@ -51,6 +53,7 @@ export default function ProfileAdminView() {
       icon: Users,
       color: colors.primary,
       onPress: () => router.push('/admin/user-management'),
+      visible: can('users.manage'),
     },
     {
       id: 'invitations',
@@ -58,6 +61,7 @@ export default function ProfileAdminView() {
       icon: UserPlus,
       color: colors.success,
       onPress: () => router.push('/admin/invitations'),
+      visible: can('invitations.manage'),
     },
     {
       id: 'analytics',
@@ -92,7 +96,8 @@ export default function ProfileAdminView() {
       title: 'Activity logs',
       icon: Activity,
       color: colors.primary,
-      onPress: () => {},
+      onPress: () => router.push('/admin/audit-log'),
+      visible: can('audit.read'),
     },
    
   ];
@@ -183,7 +188,7 @@ export default function ProfileAdminView() {
 
         {/* Menu Items */}
         <View style={styles.menuSection}>
-          {menuItems.map((item) => {
+          {menuItems.filter(item => item.visible !== false).map((item) => {
             const IconComponent = item.icon;
             return (
               <TouchableOpacity key={item.id} style={styles.menuItem} onPress={item.onPress}>
@@ -16,6 +16,8 @@ import { useUserRole } from '@/contexts/UserContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { router } from 'expo-router';
 import { MetricChart, type MetricDataPoint } from '@/components/metrics/MetricChart';
+import { useUnits } from '@/contexts/UnitsContext';
+import { formatMetricForDisplay, getMetricUnit } from '@/lib/units';
 
 const { width } = Dimensions.get('window');
 
@@ -41,7 +43,7 @@ export default function ProfileClientView() {
   const colorScheme = useColorScheme() ?? 'light';
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
-  const { userRole, userName, setUserRole } = useUserRole();
+  const { userRole, userName } = useUserRole();
   const { user, signOut, loading } = useAuth();
 
   if (loading) return null; // Prevent hook mismatch by not rendering until auth is ready
@@ -51,6 +53,9 @@ export default function ProfileClientView() {
   const [streakDays] = useState(0);
   const [currentWeight] = useState(69.5);
   const [goalWeight] = useState(68);
+  const { unitSystem } = useUnits();
+  const weightUnit = getMetricUnit('weight', unitSystem);
+  const chestUnit = getMetricUnit('chest', unitSystem);
 
   const displayName = user?.user_metadata?.full_name || (typeof user?.email === 'string' && user.email ? user.email.split('@')[0] : 'User');
 
@@ -192,17 +197,19 @@ export default function ProfileClientView() {
           <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ paddingVertical: 4 }}>
             <View style={[styles.metricsCard, { width: width - 80, marginRight: 16 }]}> 
               <View style={styles.metricsHeader}>
-                <Text style={styles.metricsTitle}>WEIGHT (KG)</Text>
+                <Text style={styles.metricsTitle}>WEIGHT ({weightUnit.toUpperCase()})</Text>
                 <View style={styles.currentValueContainer}>
-                  <Text style={styles.currentWeight}>{currentWeight}</Text>
+                  <Text style={styles.currentWeight}>{formatMetricForDisplay('weight', currentWeight, unitSystem)}</Text>
                   <Text style={styles.weightProgress}>
-                    {currentWeight > goalWeight ? `${(currentWeight - goalWeight).toFixed(1)} kg to goal` : 'Goal reached!'}
+                    {currentWeight > goalWeight
+                      ? `${formatMetricForDisplay('weight', currentWeight - goalWeight, unitSystem)} ${weightUnit} to goal`
+                      : 'Goal reached!'}
                   </Text>
                 </View>
               </View>
               <MetricChart
                 data={weightData}
-                unit="kg"
+                metricType="weight"
                 colors={colors}
                 chartHeight={100}
                 showTrend={true}
@@ -214,19 +221,19 @@ export default function ProfileClientView() {
             </View>
             <View style={[styles.metricsCard, { width: width - 80 }]}> 
               <View style={styles.metricsHeader}>
-                <Text style={styles.metricsTitle}>CHEST (CM)</Text>
+                <Text style={styles.metricsTitle}>CHEST ({chestUnit.toUpperCase()})</Text>
                 <View style={styles.currentValueContainer}>
-                  <Text style={styles.currentWeight}>{chestData[chestData.length - 1].value}</Text>
+                  <Text style={styles.currentWeight}>{formatMetricForDisplay('chest', chestData[chestData.length - 1].value, unitSystem)}</Text>
                   <Text style={styles.weightProgress}>
                     {chestData[0].value - chestData[chestData.length - 1].value > 0
-                      ? `${(chestData[0].value - chestData[chestData.length - 1].value).toFixed(1)} cm progress`
+                      ? `${formatMetricForDisplay('chest', chestData[0].value - chestData[chestData.length - 1].value, unitSystem)} ${chestUnit} progress`
                       : 'No change'}
                   </Text>
                 </View>
               </View>
               <MetricChart
                 data={chestData}
-                unit="cm"
+                metricType="chest"
                 colors={colors}
                 chartHeight={100}
                 showTrend={true}
@@ -7,7 +7,7 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { User, Settings, Users, Calendar, UserCheck, MessageSquare, ChevronRight, LogOut, FileText, Award, Briefcase, Clock, UserPlus } from 'lucide-react-native';
+import { User, Settings, Users, Calendar, UserCheck, MessageSquare, ChevronRight, LogOut, FileText, Award, Briefcase, Clock, UserPlus, Shield } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import { useUserRole } from '../../contexts/UserContext';
@@ -17,7 +17,7 @@ export default function ProfileHRView() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
-  const { userName, setUserRole } = useUserRole();
+  const { userName, clearUserRole } = useUserRole();
 
   const [userInitials] = useState('VD');
   const [totalEmployees] = useState(156);
@@ -25,7 +25,7 @@ export default function ProfileHRView() {
   const [pendingTasks] = useState(12);
 
   const handleLogout = () => {
-    setUserRole(null);
+    clearUserRole();
     router.replace('/(auth)/login');
   };
 
@@ -72,6 +72,13 @@ export default function ProfileHRView() {
       color: colors.textSecondary,
       onPress: () => {},
     },
+    {
+      id: 'audit-log',
+      title: 'Admin audit log',
+      icon: Shield,
+      color: colors.info,
+      onPress: () => router.push('/admin/audit-log'),
+    },
     {
       id: 'attendance',
       title: 'Attendance tracking',
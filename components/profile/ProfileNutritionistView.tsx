@@ -17,7 +17,7 @@ export default function ProfileNutritionistView() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
-  const { userName, setUserRole } = useUserRole();
+  const { userName, clearUserRole } = useUserRole();
 
   const [userInitials] = useState('VD');
   const [activeClients] = useState(18);
@@ -25,7 +25,7 @@ export default function ProfileNutritionistView() {
   const [rating] = useState(4.9);
 
   const handleLogout = () => {
-    setUserRole(null);
+    clearUserRole();
     router.replace('/(auth)/login');
   };
 
@@ -17,7 +17,7 @@ export default function ProfileTrainerView() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
-  const { userName, setUserRole } = useUserRole();
+  const { userName, clearUserRole } = useUserRole();
 
   const [userInitials] = useState('VD');
   const [activeClients] = useState(24);
@@ -25,7 +25,7 @@ export default function ProfileTrainerView() {
   const [rating] = useState(4.8);
 
   const handleLogout = () => {
-    setUserRole(null);
+    clearUserRole();
     router.replace('/(auth)/login');
   };
 
@@ -27,11 +27,9 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import { router } from 'expo-router';
 import { WorkoutPlan, WorkoutTemplate } from '@/types/workout';
-import { getClientPlans } from '@/utils/storage';
-import { getDayOfWeek, isToday } from '@/utils/workoutUtils';
+import { getActiveClientPlan, getPlanSessionsInRange } from '@/lib/planDatabase';
 import { getWorkoutTemplate } from '../../lib/workoutTemplates';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
 
 const { width } = Dimensions.get('window');
 
@@ -66,37 +64,17 @@ const colorScheme = useColorScheme() ?? 'light';
         return;
       }
 
-      // Get current client's plans
-      // Get user profile first to get the profile ID
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('user_id', user.id)
-        .single();
+      const activePlan = await getActiveClientPlan();
+      if (!activePlan) return;
 
-      if (!profile) {
-        console.log('No profile found for user');
-        return;
-      }
+      setCurrentPlan(activePlan);
 
-      const clientId = profile.id;
-      const plans = await getClientPlans(clientId);
-      
-      // Find active plan for today
       const today = new Date().toISOString().split('T')[0];
-      const activePlan = plans.find(plan => 
-        plan.start_date <= today && plan.end_date >= today
-      );
+      const [session] = await getPlanSessionsInRange(activePlan.id, today, today);
 
-      if (activePlan) {
-        setCurrentPlan(activePlan);
-        const dayOfWeek = getDayOfWeek(new Date());
-        const templateId = activePlan.schedule[dayOfWeek];
-        
-        if (templateId) {
-          const template = await getWorkoutTemplate(templateId);
-          setTodaysWorkout(template);
-        }
+      if (session?.template_id) {
+        const template = await getWorkoutTemplate(session.template_id);
+        setTodaysWorkout(template);
       }
     } catch (error) {
       console.error('Error loading today\'s workout:', error);
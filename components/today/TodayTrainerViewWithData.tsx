@@ -47,7 +47,7 @@ export default function TodayTrainerViewWithData() {
 
   // Navigation handlers
   const handleViewAllSessions = () => {
-    router.push('/admin/invitations');
+    router.push('/trainers/sessions');
   };
 
   const handleNewSession = () => {
@@ -6,140 +6,96 @@ import {
   ScrollView,
   TouchableOpacity,
   TextInput,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ArrowLeft, Search, MessageSquare, Send, Phone, Video, MoreHorizontal } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useConversations } from '@/hooks/useConversations';
+import {
+  ConversationSummary,
+  formatConversationTime,
+  getParticipantDisplayName,
+} from '@/lib/messagingQueries';
 import { router } from 'expo-router';
 
-const conversations = [
-  {
-    id: 1,
-    client: {
-      name: 'Sarah Johnson',
-      avatar: '👩‍💼',
-      status: 'online'
-    },
-    lastMessage: {
-      text: 'Thanks for the workout plan! Looking forward to tomorrow\'s session.',
-      time: '2 min ago',
-      sender: 'client',
-      unread: false
-    },
-    unreadCount: 0
-  },
-  {
-    id: 2,
-    client: {
-      name: 'Mike Chen',
-      avatar: '👨‍💻',
-      status: 'offline'
-    },
-    lastMessage: {
-      text: 'Can we reschedule tomorrow\'s session to 3 PM?',
-      time: '15 min ago',
-      sender: 'client',
-      unread: true
-    },
-    unreadCount: 2
-  },
-  {
-    id: 3,
-    client: {
-      name: 'Emma Wilson',
-      avatar: '👩‍🎨',
-      status: 'offline'
-    },
-    lastMessage: {
-      text: 'Perfect! I\'ll see you then.',
-      time: '1 hour ago',
-      sender: 'trainer',
-      unread: false
-    },
-    unreadCount: 0
-  },
-  {
-    id: 4,
-    client: {
-      name: 'David Lee',
-      avatar: '👨‍🎯',
-      status: 'online'
-    },
-    lastMessage: {
-      text: 'Quick question about the nutrition plan...',
-      time: '2 hours ago',
-      sender: 'client',
-      unread: true
-    },
-    unreadCount: 1
-  }
-];
-
 export default function TrainerMessagesScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
   const styles = createStyles(colors);
   const [searchQuery, setSearchQuery] = useState('');
+  const { conversations, totalUnread, loading } = useConversations();
 
   const filteredConversations = conversations.filter(conv =>
-    conv.client.name.toLowerCase().includes(searchQuery.toLowerCase())
+    getParticipantDisplayName(conv.other_participant).toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  const totalUnread = conversations.reduce((total, conv) => total + conv.unreadCount, 0);
+  // Threads where the client spoke last and the trainer has not answered yet
+  const awaitingReply = conversations.filter(
+    conv => conv.last_message && conv.last_message.sender_id === conv.other_participant?.id
+  ).length;
 
-  const handleConversationPress = (conversation: any) => {
-    router.push(`/chat/${conversation.id}`);
+  const handleConversationPress = (conversation: ConversationSummary) => {
+    if (conversation.other_participant) {
+      router.push(`/chat/${conversation.other_participant.id}`);
+    }
   };
 
-  const renderConversationItem = (conversation: any) => (
-    <TouchableOpacity 
-      key={conversation.id} 
-      style={styles.conversationItem}
-      onPress={() => handleConversationPress(conversation)}
-    >
-      <View style={styles.conversationLeft}>
-        <View style={styles.avatarContainer}>
-          <Text style={styles.avatar}>{conversation.client.avatar}</Text>
-          <View style={[
-            styles.statusIndicator,
-            { backgroundColor: conversation.client.status === 'online' ? colors.success : colors.textTertiary }
-          ]} />
-        </View>
-        
-        <View style={styles.conversationInfo}>
-          <View style={styles.conversationHeader}>
-            <Text style={styles.clientName}>{conversation.client.name}</Text>
-            <Text style={styles.messageTime}>{conversation.lastMessage.time}</Text>
+  const renderConversationItem = (conversation: ConversationSummary) => {
+    const name = getParticipantDisplayName(conversation.other_participant);
+    const lastMessage = conversation.last_message;
+    const sentByTrainer = !!lastMessage && lastMessage.sender_id !== conversation.other_participant?.id;
+
+    return (
+      <TouchableOpacity 
+        key={conversation.id} 
+        style={styles.conversationItem}
+        onPress={() => handleConversationPress(conversation)}
+      >
+        <View style={styles.conversationLeft}>
+          <View style={styles.avatarContainer}>
+            <View style={styles.avatarCircle}>
+              <Text style={styles.avatarInitial}>{name.charAt(0).toUpperCase()}</Text>
+            </View>
           </View>
-          <View style={styles.messagePreview}>
-            <Text 
-              style={[
-                styles.lastMessage,
-                conversation.lastMessage.unread && styles.unreadMessage
-              ]} 
-              numberOfLines={1}
-            >
-              {conversation.lastMessage.sender === 'trainer' ? 'You: ' : ''}{conversation.lastMessage.text}
-            </Text>
-            {conversation.unreadCount > 0 && (
-              <View style={styles.unreadBadge}>
-                <Text style={styles.unreadCount}>{conversation.unreadCount}</Text>
-              </View>
-            )}
+          
+          <View style={styles.conversationInfo}>
+            <View style={styles.conversationHeader}>
+              <Text style={styles.clientName}>{name}</Text>
+              <Text style={styles.messageTime}>
+                {formatConversationTime(lastMessage?.created_at || conversation.last_message_at)}
+              </Text>
+            </View>
+            <View style={styles.messagePreview}>
+              <Text 
+                style={[
+                  styles.lastMessage,
+                  conversation.unread_count > 0 && styles.unreadMessage
+                ]} 
+                numberOfLines={1}
+              >
+                {sentByTrainer ? 'You: ' : ''}{lastMessage?.content || 'No messages yet'}
+              </Text>
+              {conversation.unread_count > 0 && (
+                <View style={styles.unreadBadge}>
+                  <Text style={styles.unreadCount}>{conversation.unread_count}</Text>
+                </View>
+              )}
+            </View>
           </View>
         </View>
-      </View>
-      
-      <View style={styles.conversationActions}>
-        <TouchableOpacity style={styles.actionButton}>
-          <Phone size={20} color={colors.textSecondary} />
-        </TouchableOpacity>
-        <TouchableOpacity style={styles.actionButton}>
-          <Video size={20} color={colors.textSecondary} />
-        </TouchableOpacity>
-      </View>
-    </TouchableOpacity>
-  );
+        
+        <View style={styles.conversationActions}>
+          <TouchableOpacity style={styles.actionButton}>
+            <Phone size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton}>
+            <Video size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
@@ -184,14 +140,18 @@ export default function TrainerMessagesScreen() {
           <Text style={styles.statLabel}>Unread</Text>
         </View>
         <View style={styles.statItem}>
-          <Text style={styles.statNumber}>{conversations.filter(c => c.client.status === 'online').length}</Text>
-          <Text style={styles.statLabel}>Online</Text>
+          <Text style={styles.statNumber}>{awaitingReply}</Text>
+          <Text style={styles.statLabel}>Awaiting Reply</Text>
         </View>
       </View>
 
       {/* Conversations List */}
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        {filteredConversations.length === 0 ? (
+        {loading ? (
+          <View style={styles.emptyState}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : filteredConversations.length === 0 ? (
           <View style={styles.emptyState}>
             <MessageSquare size={48} color={colors.textTertiary} />
             <Text style={styles.emptyTitle}>No conversations found</Text>
@@ -332,22 +292,18 @@ const createStyles = (colors: any) => StyleSheet.create({
     position: 'relative',
     marginRight: 12,
   },
-  avatar: {
-    fontSize: 24,
+  avatarCircle: {
     width: 44,
     height: 44,
-    textAlign: 'center',
-    lineHeight: 44,
-  },
-  statusIndicator: {
-    position: 'absolute',
-    bottom: 2,
-    right: 2,
-    width: 12,
-    height: 12,
-    borderRadius: 6,
-    borderWidth: 2,
-    borderColor: colors.surface,
+    borderRadius: 22,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarInitial: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
   },
   conversationInfo: {
     flex: 1,
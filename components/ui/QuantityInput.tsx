@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { TextInput, TextInputProps } from 'react-native';
+import { useUnits } from '@/contexts/UnitsContext';
+import { fromCanonical, getPreferredUnit, toCanonical } from '@/lib/units';
+import { UnitQuantity } from '@/types/units';
+
+interface QuantityInputProps extends Omit<TextInputProps, 'value' | 'onChangeText'> {
+  quantity: UnitQuantity;
+  // Canonical value (kg, cm, m, L)
+  value?: number;
+  onChangeValue: (value: number) => void;
+  decimals?: number;
+}
+
+// Text input for a stored metric quantity that the user types in their preferred
+// unit. Keeps the typed text, so partial input like "22." isn't reformatted.
+export default function QuantityInput({
+  quantity,
+  value,
+  onChangeValue,
+  decimals = 1,
+  ...props
+}: QuantityInputProps) {
+  const { unitSystem } = useUnits();
+  const unit = getPreferredUnit(quantity, unitSystem);
+  const toText = (canonical?: number) =>
+    canonical ? Number(fromCanonical(canonical, quantity, unit).toFixed(decimals)).toString() : '';
+
+  const [text, setText] = useState(toText(value));
+
+  // Follow changes made outside the input, e.g. suggested loads or a unit switch
+  useEffect(() => {
+    const typed = parseFloat(text) || 0;
+    if (Math.abs(toCanonical(typed, quantity, unit) - (value || 0)) > 1e-6) {
+      setText(toText(value));
+    }
+  }, [value, unit]);
+
+  return (
+    <TextInput
+      {...props}
+      value={text}
+      onChangeText={next => {
+        const cleaned = next.replace(/[^0-9.]/g, '');
+        setText(cleaned);
+        onChangeValue(toCanonical(parseFloat(cleaned) || 0, quantity, unit));
+      }}
+    />
+  );
+}
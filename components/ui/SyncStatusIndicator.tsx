@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Cloud, CloudOff, RefreshCw, CircleAlert as AlertCircle, X } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { PendingSyncItem } from '@/utils/storage';
+
+const ITEM_LABELS: Record<string, string> = {
+  session: 'Workout',
+  training_session: 'Training session',
+};
+
+const formatQueuedAt = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Compact pill showing whether locally recorded workouts have reached the server.
+// Tapping it retries immediately, skipping any backoff. Once changes have used
+// up their automatic retries, tapping it lists them so each can be retried or
+// discarded.
+export default function SyncStatusIndicator() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme);
+  const styles = createStyles(colors);
+  const { status, pendingCount, failedItems, syncNow, retryItem, discardItem } = useSyncStatus();
+  const [showFailed, setShowFailed] = useState(false);
+
+  useEffect(() => {
+    if (failedItems.length === 0) setShowFailed(false);
+  }, [failedItems.length]);
+
+  const pendingLabel = pendingCount > 0 ? ` · ${pendingCount}` : '';
+  const { Icon, color, label } = (() => {
+    switch (status) {
+      case 'syncing':
+        return { Icon: RefreshCw, color: colors.primary, label: 'Syncing' };
+      case 'offline':
+        return { Icon: CloudOff, color: colors.warning, label: `Offline${pendingLabel}` };
+      case 'error':
+        return { Icon: AlertCircle, color: colors.error, label: `Sync failed${pendingLabel}` };
+      default:
+        return pendingCount > 0
+          ? { Icon: Cloud, color: colors.textSecondary, label: `Pending${pendingLabel}` }
+          : { Icon: Cloud, color: colors.success, label: 'Synced' };
+    }
+  })();
+
+  const handlePress = () => {
+    if (failedItems.length > 0) {
+      setShowFailed(true);
+    } else {
+      syncNow();
+    }
+  };
+
+  const handleDiscard = (item: PendingSyncItem) => {
+    Alert.alert(
+      'Discard Changes',
+      'These changes will stay on this device but will never be saved to your account.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => discardItem(item),
+        },
+      ]
+    );
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.container}
+        onPress={handlePress}
+        disabled={status === 'syncing'}
+        accessibilityLabel={`Sync status: ${label}`}
+      >
+        <Icon size={14} color={color} />
+        <Text style={[styles.label, { color }]}>{label}</Text>
+      </TouchableOpacity>
+
+      <Modal
+        visible={showFailed}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowFailed(false)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowFailed(false)}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Unsynced Changes</Text>
+            <View style={{ width: 24 }} />
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <Text style={styles.explanation}>
+              These changes couldn't be saved after several tries and won't be retried automatically.
+            </Text>
+
+            {failedItems.map(item => (
+              <View key={`${item.type}:${item.id}`} style={styles.failedItem}>
+                <Text style={styles.itemTitle}>{ITEM_LABELS[item.type] || item.type}</Text>
+                <Text style={styles.itemMeta}>Changed {formatQueuedAt(item.timestamp)}</Text>
+                {item.lastError && <Text style={styles.itemError}>{item.lastError}</Text>}
+
+                <View style={styles.itemActions}>
+                  <TouchableOpacity style={styles.discardButton} onPress={() => handleDiscard(item)}>
+                    <Text style={styles.discardButtonText}>Discard</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.retryButton} onPress={() => retryItem(item)}>
+                    <Text style={styles.retryButtonText}>Retry</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+    </>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginTop: 4,
+    borderRadius: 10,
+    backgroundColor: colors.surfaceSecondary,
+  },
+  label: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 11,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  explanation: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 16,
+  },
+  failedItem: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  itemTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  itemMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  itemError: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.error,
+    marginTop: 8,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  discardButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceSecondary,
+  },
+  discardButtonText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.error,
+  },
+  retryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: colors.primary,
+  },
+  retryButtonText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+});
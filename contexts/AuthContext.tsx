@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { Alert } from 'react-native';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { countLocalMetrics, discardLocalMetrics, migrateLocalMetrics } from '@/lib/metricsRepository';
 
 interface AuthContextType {
   user: User | null;
@@ -14,6 +16,23 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Metrics used to be stored only on the device, with nothing saying whose
+// they were. Whoever signs in decides whether they belong to their account.
+const offerLocalMetricsImport = async () => {
+  const count = await countLocalMetrics();
+  if (count === 0) return;
+
+  Alert.alert(
+    'Measurements on This Device',
+    `${count} ${count === 1 ? 'measurement was' : 'measurements were'} saved on this device before they were kept with your account. Only add them if they're yours.`,
+    [
+      { text: 'Not Now', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => discardLocalMetrics() },
+      { text: 'Add to My Account', onPress: () => migrateLocalMetrics() },
+    ]
+  );
+};
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -44,6 +63,12 @@ export function AuthProvider({ children }: AuthProviderProps) {
     return () => subscription.unsubscribe();
   }, []);
 
+  useEffect(() => {
+    if (user) {
+      offerLocalMetricsImport();
+    }
+  }, [user?.id]);
+
   const signUp = async (email: string, password: string, userData?: any) => {
     const { data, error } = await supabase.auth.signUp({
       email,
@@ -0,0 +1,69 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from '@/contexts/AuthContext';
+import { getCurrentUserProfile } from '@/lib/database';
+import { DEFAULT_UNIT_SYSTEM, isUnitSystem, saveUnitSystem } from '@/lib/units';
+import { UnitSystem } from '@/types/units';
+
+// Last known preference, so screens open in the right units before the profile loads
+const UNIT_SYSTEM_KEY = '@unit_system';
+
+interface UnitsContextType {
+  unitSystem: UnitSystem;
+  setUnitSystem: (system: UnitSystem) => Promise<boolean>;
+}
+
+const UnitsContext = createContext<UnitsContextType | undefined>(undefined);
+
+interface UnitsProviderProps {
+  children: ReactNode;
+}
+
+export function UnitsProvider({ children }: UnitsProviderProps) {
+  const [unitSystem, setUnitSystemState] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    AsyncStorage.getItem(UNIT_SYSTEM_KEY)
+      .then(stored => {
+        if (isUnitSystem(stored)) setUnitSystemState(stored);
+      })
+      .catch(error => console.error('Error reading unit system:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    getCurrentUserProfile().then(profile => {
+      if (profile && isUnitSystem(profile.unit_system)) {
+        setUnitSystemState(profile.unit_system);
+        AsyncStorage.setItem(UNIT_SYSTEM_KEY, profile.unit_system);
+      }
+    });
+  }, [user?.id]);
+
+  const setUnitSystem = async (system: UnitSystem) => {
+    const profile = await getCurrentUserProfile();
+    if (!profile || !(await saveUnitSystem(profile.id, system))) {
+      return false;
+    }
+
+    setUnitSystemState(system);
+    await AsyncStorage.setItem(UNIT_SYSTEM_KEY, system);
+    return true;
+  };
+
+  return (
+    <UnitsContext.Provider value={{ unitSystem, setUnitSystem }}>
+      {children}
+    </UnitsContext.Provider>
+  );
+}
+
+export function useUnits() {
+  const context = useContext(UnitsContext);
+  if (context === undefined) {
+    throw new Error('useUnits must be used within a UnitsProvider');
+  }
+  return context;
+}
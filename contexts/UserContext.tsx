@@ -1,11 +1,19 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { isUserRole } from '@/lib/permissions';
+import { UserRole } from '@/types/permissions';
 
-export type UserRole = 'client' | 'trainer' | 'nutritionist' | 'admin' | 'hr' | 'leads';
+export type { UserRole } from '@/types/permissions';
 
 interface UserContextType {
   userRole: UserRole | null;
-  setUserRole: (role: UserRole | null) => void;
+  // True until the signed-in user's role has been read from their profile
+  roleLoading: boolean;
+  // Roles are only ever read from the profile; this re-reads it after the
+  // server changes it (e.g. an accepted invitation)
+  refreshRole: () => Promise<void>;
+  clearUserRole: () => void;
   userName: string;
   setUserName: (name: string) => void;
 }
@@ -18,52 +26,68 @@ interface UserProviderProps {
 
 export function UserProvider({ children }: UserProviderProps) {
   const [userRole, setUserRole] = useState<UserRole | null>(null);
+  const [roleLoading, setRoleLoading] = useState(true);
   const [userName, setUserName] = useState<string>('User');
   const { user } = useAuth();
 
-  useEffect(() => {
-    async function fetchProfileRole() {
-      if (user) {
-        // Always fetch latest profile from Supabase
-        try {
-          const { data: profile, error } = await import('@/lib/supabase').then(m => m.supabase)
-            .then(supabase => supabase
-              .from('profiles')
-              .select('role, full_name')
-              .eq('id', user.id)
-              .single()
-            );
-          if (!error && profile) {
-            // Accept 'leads' as a valid role for userRole
-            const newRole = (profile.role as UserRole) || 'client';
-            if (userRole && userRole !== newRole) {
-              setUserRole(newRole);
-              setUserName(typeof profile.full_name === 'string' && profile.full_name ? profile.full_name : (typeof user.email === 'string' && user.email ? user.email.split('@')[0] : 'User'));
-              // Use a navigation effect in the tab layout instead of here
-            } else {
-              setUserRole(newRole);
-              setUserName(typeof profile.full_name === 'string' && profile.full_name ? profile.full_name : (typeof user.email === 'string' && user.email ? user.email.split('@')[0] : 'User'));
-            }
-            return;
-          }
-        } catch (e) {
-          // fallback to metadata
-        }
-        const role = user.user_metadata?.role || 'client';
-        setUserRole(role as UserRole);
-        const name = typeof user.user_metadata?.full_name === 'string' && user.user_metadata?.full_name ? user.user_metadata.full_name : (typeof user.email === 'string' && user.email ? user.email.split('@')[0] : 'User');
-        setUserName(name);
-      } else {
+  const fallbackName = () =>
+    typeof user?.user_metadata?.full_name === 'string' && user.user_metadata.full_name
+      ? user.user_metadata.full_name
+      : typeof user?.email === 'string' && user.email
+        ? user.email.split('@')[0]
+        : 'User';
+
+  const refreshRole = async () => {
+    if (!user) {
+      setUserRole(null);
+      setUserName('User');
+      setRoleLoading(false);
+      return;
+    }
+
+    try {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('role, full_name, account_status')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching profile role:', error);
+      }
+
+      if (profile?.account_status === 'inactive') {
+        // Deactivated by an admin: policies already refuse them, so end the session
         setUserRole(null);
-        setUserName('User');
+        await supabase.auth.signOut();
+        return;
       }
+
+      // Without a profile the user has no staff rights, whatever their auth metadata says
+      setUserRole(profile && isUserRole(profile.role) ? profile.role : 'client');
+      setUserName(typeof profile?.full_name === 'string' && profile.full_name ? profile.full_name : fallbackName());
+    } catch (error) {
+      console.error('Error in refreshRole:', error);
+      setUserRole('client');
+      setUserName(fallbackName());
+    } finally {
+      setRoleLoading(false);
     }
-    fetchProfileRole();
+  };
+
+  const clearUserRole = () => {
+    setUserRole(null);
+    setUserName('User');
+  };
+
+  useEffect(() => {
+    setRoleLoading(true);
+    refreshRole();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user]);
 
   return (
-    <UserContext.Provider value={{ userRole, setUserRole, userName, setUserName }}>
+    <UserContext.Provider value={{ userRole, roleLoading, refreshRole, clearUserRole, userName, setUserName }}>
       {children}
     </UserContext.Provider>
   );
@@ -75,4 +99,4 @@ export function useUserRole() {
     throw new Error('useUserRole must be used within a UserProvider');
   }
   return context;
-}
\ No newline at end of file
+}
@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react';
+import { getCurrentUserProfile } from '@/lib/database';
+import {
+  ChatMessage,
+  Conversation,
+  ConversationParticipant,
+  ConversationSubscription,
+  getMessages,
+  getOrCreateConversation,
+  getParticipant,
+  markConversationAsRead,
+  sendMessage as sendChatMessage,
+  subscribeToConversation,
+} from '@/lib/messagingQueries';
+
+export type MessageStatus = 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface ThreadMessage {
+  id: string;
+  content: string;
+  isOwn: boolean;
+  timestamp: string;
+  status: MessageStatus;
+}
+
+const TYPING_TIMEOUT_MS = 3000;
+
+const toThreadMessage = (message: ChatMessage, currentProfileId: string): ThreadMessage => ({
+  id: message.id,
+  content: message.content,
+  isOwn: message.sender_id === currentProfileId,
+  timestamp: message.created_at,
+  status: message.read_at ? 'read' : 'sent',
+});
+
+// Chat thread with another profile, backed by the conversations/messages tables
+export function useChat(otherProfileId: string | undefined) {
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [participant, setParticipant] = useState<ConversationParticipant | null>(null);
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [isTyping, setIsTyping] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const profileIdRef = useRef<string | null>(null);
+  const subscriptionRef = useRef<ConversationSubscription | null>(null);
+  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  const upsertMessage = (message: ChatMessage) => {
+    const profileId = profileIdRef.current;
+    if (!profileId) return;
+
+    const threadMessage = toThreadMessage(message, profileId);
+    setMessages(prev => {
+      const index = prev.findIndex(m => m.id === message.id);
+      if (index === -1) return [...prev, threadMessage];
+      const next = [...prev];
+      next[index] = threadMessage;
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadThread = async () => {
+      if (!otherProfileId) {
+        setLoading(false);
+        setError('No conversation selected');
+        return;
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const [profile, other, thread] = await Promise.all([
+          getCurrentUserProfile(),
+          getParticipant(otherProfileId),
+          getOrCreateConversation(otherProfileId),
+        ]);
+        if (cancelled) return;
+
+        if (!profile || !thread) {
+          setError('Unable to open conversation');
+          return;
+        }
+
+        profileIdRef.current = profile.id;
+        setParticipant(other);
+        setConversation(thread);
+
+        const history = await getMessages(thread.id);
+        if (cancelled) return;
+        setMessages(history.map(m => toThreadMessage(m, profile.id)));
+
+        subscriptionRef.current = subscribeToConversation(
+          thread.id,
+          {
+            onInsert: message => {
+              upsertMessage(message);
+              if (message.sender_id !== profile.id) {
+                setIsTyping(false);
+                markConversationAsRead(thread.id);
+              }
+            },
+            onUpdate: upsertMessage,
+            onTyping: () => {
+              setIsTyping(true);
+              if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+              typingTimeoutRef.current = setTimeout(() => setIsTyping(false), TYPING_TIMEOUT_MS) as unknown as NodeJS.Timeout;
+            },
+          },
+          profile.id
+        );
+
+        markConversationAsRead(thread.id);
+      } catch (err: any) {
+        setError(err.message || 'Failed to load conversation');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadThread();
+
+    return () => {
+      cancelled = true;
+      subscriptionRef.current?.unsubscribe();
+      subscriptionRef.current = null;
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+    };
+  }, [otherProfileId]);
+
+  const sendMessage = async (content: string) => {
+    const trimmed = content.trim();
+    if (!conversation || !trimmed) return;
+
+    // Optimistic bubble until the insert round-trips
+    const tempId = `temp-${Date.now()}`;
+    setMessages(prev => [
+      ...prev,
+      { id: tempId, content: trimmed, isOwn: true, timestamp: new Date().toISOString(), status: 'sending' },
+    ]);
+
+    const saved = await sendChatMessage(conversation.id, trimmed);
+    setMessages(prev => {
+      if (!saved) {
+        return prev.map(m => (m.id === tempId ? { ...m, status: 'failed' } : m));
+      }
+      // The realtime insert may already have landed
+      const withoutTemp = prev.filter(m => m.id !== tempId && m.id !== saved.id);
+      return [...withoutTemp, toThreadMessage(saved, profileIdRef.current || saved.sender_id)];
+    });
+  };
+
+  const notifyTyping = () => {
+    subscriptionRef.current?.sendTyping();
+  };
+
+  return {
+    conversation,
+    participant,
+    messages,
+    isTyping,
+    loading,
+    error,
+    sendMessage,
+    notifyTyping,
+  };
+}
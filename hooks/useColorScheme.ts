@@ -1,4 +1,4 @@
-import { useColorScheme as useNativeColorScheme } from 'react-native';
+import { ColorSchemeName, useColorScheme as useNativeColorScheme } from 'react-native';
 
 export function useColorScheme() {
   return useNativeColorScheme();
@@ -45,6 +45,6 @@ export const Colors = {
   },
 };
 
-export function getColors(colorScheme: 'light' | 'dark' | null) {
+export function getColors(colorScheme: ColorSchemeName | null) {
   return Colors[colorScheme === 'dark' ? 'dark' : 'light'];
 }
\ No newline at end of file
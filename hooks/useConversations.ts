@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  ConversationSummary,
+  getConversations,
+  subscribeToInbox,
+} from '@/lib/messagingQueries';
+
+export function useConversations() {
+  const { user } = useAuth();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchConversations = async () => {
+    if (!user) {
+      setConversations([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      setConversations(await getConversations());
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch conversations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchConversations();
+
+    if (!user) return;
+    return subscribeToInbox(user.id, fetchConversations);
+  }, [user]);
+
+  const totalUnread = conversations.reduce((total, conversation) => total + conversation.unread_count, 0);
+
+  return { conversations, totalUnread, loading, error, refresh: fetchConversations };
+}
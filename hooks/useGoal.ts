@@ -1,11 +1,25 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
+import { Goal } from '@/lib/database';
+import { evaluateGoal } from '@/lib/goalEngine';
+import { GoalEvaluation } from '@/types/goals';
 
 export function useGoal(goalId: string | undefined) {
-  const [goal, setGoal] = useState<any>(null);
+  const [goal, setGoal] = useState<Goal | null>(null);
+  const [evaluation, setEvaluation] = useState<GoalEvaluation | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const loadGoal = async () => {
+    const { data, error } = await supabase
+      .from('goals')
+      .select('*')
+      .eq('id', goalId)
+      .single();
+    if (error) throw error;
+    return data as Goal;
+  };
+
   const fetchGoal = async () => {
     if (!goalId) {
       setGoal(null);
@@ -16,13 +30,14 @@ export function useGoal(goalId: string | undefined) {
     setLoading(true);
     setError(null);
     try {
-      const { data, error } = await supabase
-        .from('goals')
-        .select('*')
-        .eq('id', goalId)
-        .single();
-      if (error) throw error;
+      let data = await loadGoal();
+      const result = await evaluateGoal('goals', data, data.user_id);
+      // Evaluating can complete the goal, so show the saved row
+      if (result && data.status === 'active') {
+        data = await loadGoal();
+      }
       setGoal(data);
+      setEvaluation(result);
     } catch (err: any) {
       setError(err.message || 'Failed to fetch goal');
     } finally {
@@ -34,5 +49,5 @@ export function useGoal(goalId: string | undefined) {
     fetchGoal();
   }, [goalId]);
 
-  return { goal, loading, error, refresh: fetchGoal };
+  return { goal, evaluation, loading, error, refresh: fetchGoal };
 }
@@ -1,14 +1,15 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
+import { getCurrentUserProfile } from '@/lib/database';
+import { evaluateGoals } from '@/lib/goalEngine';
+import { GoalSourceFields } from '@/types/goals';
 
-export interface FitnessGoal {
+export interface FitnessGoal extends GoalSourceFields {
   id: string;
   title: string;
   description: string;
   category: string;
   target_date: string;
-  targetValue?: number;
-  currentValue?: number;
   unit?: string;
   emoji: string;
   status: string;
@@ -26,12 +27,14 @@ export function useGoals() {
     setLoading(true);
     setError(null);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
+      const profile = await getCurrentUserProfile();
+      if (!profile) throw new Error('User not authenticated');
+      // Bring linked goals up to date before showing them
+      await evaluateGoals();
       const { data, error } = await supabase
         .from('goals')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('user_id', profile.id)
         .order('created_at', { ascending: false });
       if (error) throw error;
       setGoals(data || []);
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { HealthIntegration } from '@/types/integrations';
+import { IntegrationProvider } from '@/lib/integrationProviders';
+import {
+  connectIntegration,
+  disconnectIntegration,
+  getHealthIntegrations,
+  getIntegrationProviders,
+  syncIntegration,
+} from '@/lib/healthIntegrations';
+
+export interface IntegrationListItem {
+  provider: IntegrationProvider;
+  integration: HealthIntegration | null;
+  connected: boolean;
+}
+
+export function useHealthIntegrations() {
+  const [integrations, setIntegrations] = useState<HealthIntegration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyProvider, setBusyProvider] = useState<string | null>(null);
+  const mountedRef = useRef(true);
+
+  const refresh = async () => {
+    try {
+      const rows = await getHealthIntegrations();
+      if (mountedRef.current) setIntegrations(rows);
+    } finally {
+      if (mountedRef.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  // Reload on focus so the list reflects changes made on the connect screen
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [])
+  );
+
+  // Run an action against one provider, then reload connection state
+  const withProvider = async <T>(providerId: string, action: () => Promise<T>): Promise<T> => {
+    setBusyProvider(providerId);
+    try {
+      return await action();
+    } finally {
+      await refresh();
+      if (mountedRef.current) setBusyProvider(null);
+    }
+  };
+
+  const items: IntegrationListItem[] = getIntegrationProviders().map(provider => {
+    const integration = integrations.find(row => row.provider === provider.id) || null;
+    return {
+      provider,
+      integration,
+      connected: !!integration && integration.status !== 'disconnected',
+    };
+  });
+
+  return {
+    items,
+    loading,
+    busyProvider,
+    refresh,
+    connect: (providerId: string) => withProvider(providerId, () => connectIntegration(providerId)),
+    disconnect: (providerId: string) => withProvider(providerId, () => disconnectIntegration(providerId)),
+    sync: (providerId: string) => withProvider(providerId, () => syncIntegration(providerId)),
+  };
+}
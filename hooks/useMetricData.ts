@@ -0,0 +1,41 @@
+import { useEffect, useRef, useState } from 'react';
+import { Metric, MetricType } from '@/types/metrics';
+import { addMetricEntry, deleteMetricEntry, getMetric } from '@/utils/metricsStorage';
+
+// One metric with its entries, for the signed-in user or (read-only) a trainer's client
+export function useMetricData(metricType: MetricType, clientId?: string) {
+  const [metric, setMetric] = useState<Metric | null>(null);
+  const [loading, setLoading] = useState(true);
+  const mountedRef = useRef(true);
+
+  const refresh = async () => {
+    try {
+      const loaded = await getMetric(metricType, clientId);
+      if (mountedRef.current) setMetric(loaded || null);
+    } finally {
+      if (mountedRef.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    mountedRef.current = true;
+    setLoading(true);
+    refresh();
+    return () => {
+      mountedRef.current = false;
+    };
+  }, [metricType, clientId]);
+
+  const addEntry = async (value: number, date?: string, time?: string) => {
+    const entry = await addMetricEntry(metricType, value, date, time);
+    await refresh();
+    return entry;
+  };
+
+  const deleteEntry = async (entryId: string) => {
+    await deleteMetricEntry(metricType, entryId);
+    await refresh();
+  };
+
+  return { metric, loading, refresh, addEntry, deleteEntry };
+}
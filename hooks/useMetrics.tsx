@@ -1,4 +1,6 @@
 import { useState } from 'react';
+import { MetricType } from '@/types/metrics';
+import { getMetricDefinition, resolveMetricType } from '@/lib/metricRegistry';
 
 export type Metric = {
   current: number;
@@ -14,37 +16,26 @@ export type MetricDetails = {
   history?: { date: string; value: number }[];
 };
 
-export type Metrics = {
-  weight: Metric;
-  chest: Metric;
-  shoulders: Metric;
-  waist: Metric;
-  thigh: Metric;
-  hip: Metric;
-  bodyFat: Metric;
-  bicep: Metric;
-  waterIntake: Metric;
-  steps: Metric;
-};
+export type Metrics = Partial<Record<MetricType, Metric>>;
 
 // Initial mock data
 const initialMetrics: Metrics = {
   weight: { current: 58, change: 6, lastUpdated: new Date() },
-  chest: { current: 36, lastUpdated: new Date() },
-  shoulders: { current: 40 },
-  waist: { current: 32 },
-  thigh: { current: 22 },
-  hip: { current: 36 },
-  bodyFat: { current: 15, change: -2 },
-  bicep: { current: 13 },
-  waterIntake: { current: 64 },
+  chest: { current: 91, lastUpdated: new Date() },
+  shoulders: { current: 102 },
+  waist: { current: 81 },
+  thighs: { current: 56 },
+  hips: { current: 91 },
+  body_fat: { current: 15, change: -2 },
+  biceps: { current: 33 },
+  water_intake: { current: 1.9 },
   steps: { current: 8456, change: 1245 },
 };
 
 export function useMetrics() {
   const [metrics, setMetrics] = useState<Metrics>(initialMetrics);
   
-  const logMetric = (metricName: keyof Metrics, value: number) => {
+  const logMetric = (metricName: MetricType, value: number) => {
     setMetrics(prev => ({
       ...prev,
       [metricName]: {
@@ -55,71 +46,20 @@ export function useMetrics() {
     }));
   };
   
+  // Accepts registry ids, legacy keys and URL slugs like "body-fat"
   const getMetricDetails = (metricKey?: string): MetricDetails | null => {
-    if (!metricKey) return null;
-    
-    const key = metricKey.replace(/-/g, '') as keyof Metrics;
-    const metric = metrics[key];
+    const key = resolveMetricType(metricKey?.replace(/-/g, '_'));
+    const definition = key ? getMetricDefinition(key) : undefined;
+    const metric = key ? metrics[key] : undefined;
     
-    if (!metric) return null;
+    if (!definition || !metric) return null;
     
-    const details: Record<string, MetricDetails> = {
-      weight: { 
-        name: 'Weight', 
-        unit: 'kg', 
-        current: metric.current,
-        change: metric.change
-      },
-      chest: { 
-        name: 'Chest', 
-        unit: 'in', 
-        current: metric.current
-      },
-      shoulders: { 
-        name: 'Shoulders', 
-        unit: 'in', 
-        current: metric.current
-      },
-      waist: { 
-        name: 'Waist', 
-        unit: 'in', 
-        current: metric.current
-      },
-      thigh: { 
-        name: 'Thigh', 
-        unit: 'in', 
-        current: metric.current
-      },
-      hip: { 
-        name: 'Hip', 
-        unit: 'in', 
-        current: metric.current
-      },
-      bodyfat: { 
-        name: 'Body Fat', 
-        unit: '%', 
-        current: metric.current,
-        change: metric.change
-      },
-      bicep: { 
-        name: 'Bicep', 
-        unit: 'in', 
-        current: metric.current
-      },
-      waterintake: { 
-        name: 'Water Intake', 
-        unit: 'oz', 
-        current: metric.current
-      },
-      steps: { 
-        name: 'Steps', 
-        unit: '', 
-        current: metric.current,
-        change: metric.change
-      },
+    return {
+      name: definition.name,
+      unit: definition.unit,
+      current: metric.current,
+      change: metric.change,
     };
-    
-    return details[key] || null;
   };
   
   return {
@@ -127,4 +67,4 @@ export function useMetrics() {
     logMetric,
     getMetricDetails,
   };
-}
\ No newline at end of file
+}
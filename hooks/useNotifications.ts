@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getCurrentUserProfile } from '@/lib/database';
+import {
+  getNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  subscribeToNotifications,
+} from '@/lib/notifications';
+import { AppNotification } from '@/types/notifications';
+
+export function useNotifications() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchNotifications = async () => {
+    if (!user) {
+      setNotifications([]);
+      setLoading(false);
+      return;
+    }
+
+    setNotifications(await getNotifications());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchNotifications();
+
+    if (!user) return;
+
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+    getCurrentUserProfile().then(profile => {
+      if (profile && !cancelled) {
+        unsubscribe = subscribeToNotifications(profile.id, fetchNotifications);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [user]);
+
+  const markRead = async (notificationId: string) => {
+    setNotifications(prev => prev.map(n => (n.id === notificationId ? { ...n, read: true } : n)));
+    await markNotificationRead(notificationId);
+  };
+
+  const markAllRead = async () => {
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    await markAllNotificationsRead();
+  };
+
+  const unreadCount = notifications.filter(n => !n.read).length;
+
+  return { notifications, unreadCount, loading, refresh: fetchNotifications, markRead, markAllRead };
+}
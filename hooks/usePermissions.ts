@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { usePathname } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserRole } from '@/contexts/UserContext';
+import { can as roleCan, canAccessRoute } from '@/lib/permissions';
+import { Capability } from '@/types/permissions';
+
+export function usePermissions() {
+  const { userRole, roleLoading } = useUserRole();
+
+  const can = useCallback((capability: Capability) => roleCan(userRole, capability), [userRole]);
+  const canOpen = useCallback((pathname: string) => canAccessRoute(userRole, pathname), [userRole]);
+
+  return { role: userRole, loading: roleLoading, can, canOpen };
+}
+
+// Whether the current screen may be shown: 'pending' until the role is known
+export function useRouteAccess(): 'pending' | 'allowed' | 'denied' {
+  const pathname = usePathname();
+  const { user, loading: authLoading } = useAuth();
+  const { loading, canOpen } = usePermissions();
+
+  if (authLoading || (user && loading)) return 'pending';
+  return canOpen(pathname) ? 'allowed' : 'denied';
+}
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react';
+import { StepData } from '@/types/steps';
+import {
+  buildMonthData,
+  buildWeekData,
+  getStepHistory,
+  getStepSource,
+  ingestSteps,
+  toLocalDateString,
+} from '@/lib/stepIngestion';
+
+// Enough history for the current calendar month plus the week that started in the previous one
+const HISTORY_DAYS = 38;
+
+export function useStepData() {
+  const [daily, setDaily] = useState<StepData[]>([]);
+  const [sourceAvailable, setSourceAvailable] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const mountedRef = useRef(true);
+
+  const refresh = async () => {
+    try {
+      const source = getStepSource();
+      const available = await source.isAvailable();
+      if (available) {
+        await ingestSteps();
+      }
+      const history = await getStepHistory(HISTORY_DAYS);
+      if (!mountedRef.current) return;
+      setSourceAvailable(available);
+      setDaily(history);
+    } finally {
+      if (mountedRef.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    mountedRef.current = true;
+    refresh();
+
+    // Count steps live while the screen is open; they're ingested on the next refresh
+    const source = getStepSource();
+    const stopWatching = source.watchSteps?.(newSteps => {
+      const now = new Date();
+      const today = toLocalDateString(now);
+      setDaily(prev => prev.map(day => {
+        if (day.date !== today) return day;
+        const hourlyData = [...day.hourlyData];
+        hourlyData[now.getHours()] += newSteps;
+        return { ...day, steps: day.steps + newSteps, hourlyData };
+      }));
+    });
+
+    return () => {
+      mountedRef.current = false;
+      stopWatching?.();
+    };
+  }, []);
+
+  const today = daily[daily.length - 1] || null;
+
+  return {
+    daily,
+    today,
+    week: buildWeekData(daily),
+    month: buildMonthData(daily),
+    sourceAvailable,
+    loading,
+    refresh,
+  };
+}
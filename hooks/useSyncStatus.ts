@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import {
+  SyncState,
+  discardSyncItem,
+  getFailedSyncItems,
+  getSyncState,
+  retrySyncItem,
+  subscribeToSyncState,
+  syncPendingChanges,
+} from '@/lib/syncEngine';
+import { PendingSyncItem } from '@/utils/storage';
+
+export function useSyncStatus() {
+  const [syncState, setSyncState] = useState<SyncState>(getSyncState());
+  const [failedItems, setFailedItems] = useState<PendingSyncItem[]>([]);
+
+  useEffect(() => subscribeToSyncState(setSyncState), []);
+
+  useEffect(() => {
+    getFailedSyncItems().then(setFailedItems);
+  }, [syncState.failedCount, syncState.lastSyncedAt]);
+
+  const syncNow = () => syncPendingChanges({ force: true });
+  const retryItem = (item: PendingSyncItem) => retrySyncItem(item);
+  const discardItem = (item: PendingSyncItem) => discardSyncItem(item);
+
+  return { ...syncState, failedItems, syncNow, retryItem, discardItem };
+}
@@ -0,0 +1,106 @@
+import { NewFoodProduct, createFixtureProductLookup, normalizeBarcode } from '../foodProducts';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('../database', () => ({ getCurrentUserProfile: jest.fn() }));
+
+describe('normalizeBarcode', () => {
+  it('keeps valid EAN-13 and EAN-8 codes', () => {
+    expect(normalizeBarcode('4006381333931', 'ean13')).toBe('4006381333931');
+    expect(normalizeBarcode('96385074', 'ean8')).toBe('96385074');
+  });
+
+  it('turns UPC-A into the EAN-13 of the same pack', () => {
+    expect(normalizeBarcode('036000291452', 'upc_a')).toBe('0036000291452');
+  });
+
+  it('expands each UPC-E zero-suppression pattern', () => {
+    // The last data digit says where the zeros go: 0-2, 3, 4, then 5-9
+    expect(normalizeBarcode('04252614', 'upc_e')).toBe('0042100005264');
+    expect(normalizeBarcode('01234531', 'upc_e')).toBe('0012300000451');
+    expect(normalizeBarcode('01234543', 'upc_e')).toBe('0012340000053');
+    expect(normalizeBarcode('01234572', 'upc_e')).toBe('0012345000072');
+  });
+
+  it('rejects UPC-E codes outside number systems 0 and 1', () => {
+    expect(normalizeBarcode('24252614', 'upc_e')).toBeNull();
+  });
+
+  it('rejects codes whose check digit is wrong', () => {
+    expect(normalizeBarcode('4006381333932')).toBeNull();
+    expect(normalizeBarcode('036000291453')).toBeNull();
+    expect(normalizeBarcode('96385075', 'ean8')).toBeNull();
+    expect(normalizeBarcode('04252615', 'upc_e')).toBeNull();
+  });
+
+  it('rejects codes of other lengths', () => {
+    expect(normalizeBarcode('')).toBeNull();
+    expect(normalizeBarcode('12345')).toBeNull();
+    expect(normalizeBarcode('40063813339310')).toBeNull();
+  });
+
+  it('ignores spaces and dashes in typed-in codes', () => {
+    expect(normalizeBarcode(' 4006381-333931 ')).toBe('4006381333931');
+  });
+
+  it('reads a typed-in 8-digit code as EAN-8 when its check digit fits, otherwise as UPC-E', () => {
+    expect(normalizeBarcode('96385074')).toBe('96385074');
+    expect(normalizeBarcode('04252614')).toBe('0042100005264');
+  });
+});
+
+describe('createFixtureProductLookup', () => {
+  const granola: NewFoodProduct = {
+    barcode: '0036000291452',
+    name: ' Crunchy Granola ',
+    brand: ' Acme ',
+    serving_label: '1 cup',
+    serving_grams: 55,
+    nutrients: {
+      calories: 450,
+      protein_g: 10,
+      carbs_g: 64,
+      fat_g: 17,
+      fiber_g: 7,
+      sugar_g: 24,
+      sodium_mg: 120,
+    },
+    micronutrients: { iron_mg: 3.1 },
+  };
+
+  it('finds nothing for a barcode nobody has added', async () => {
+    const lookup = createFixtureProductLookup();
+
+    expect(await lookup.findByBarcode('4006381333931')).toBeNull();
+  });
+
+  it('finds a contributed product by the scanned code once normalized', async () => {
+    const lookup = createFixtureProductLookup();
+    await lookup.contribute(granola);
+
+    const product = await lookup.findByBarcode(normalizeBarcode('036000291452', 'upc_a')!);
+
+    expect(product).toMatchObject({
+      barcode: '0036000291452',
+      name: 'Crunchy Granola',
+      brand: 'Acme',
+      serving_grams: 55,
+      calories: 450,
+      micronutrients: { iron_mg: 3.1 },
+    });
+  });
+
+  it("doesn't replace a product that's already there", async () => {
+    const lookup = createFixtureProductLookup();
+    await lookup.contribute(granola);
+
+    expect(await lookup.contribute({ ...granola, name: 'Copy' })).toBeNull();
+    expect((await lookup.findByBarcode(granola.barcode))?.name).toBe('Crunchy Granola');
+  });
+
+  it('serves the products it was seeded with', async () => {
+    const seeded = await createFixtureProductLookup().contribute(granola);
+    const lookup = createFixtureProductLookup([seeded!]);
+
+    expect(await lookup.findByBarcode(granola.barcode)).toEqual(seeded);
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  Food,
+  GRAM_SERVING,
+  formatServing,
+  getCatalogFood,
+  nutrientsPer100g,
+  portionEntryFields,
+  portionMicronutrients,
+  portionNutrients,
+  scaleNutrients,
+  searchFoods,
+} from '../foods';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('../database', () => ({ getCurrentUserProfile: async () => null }));
+
+const savedFood = (name: string, overrides: Partial<Food> = {}): Food => ({
+  key: `custom:${name}`,
+  source: 'custom',
+  id: name,
+  name,
+  brand: null,
+  category: null,
+  nutrients: { calories: 100, protein_g: 10, carbs_g: 10, fat_g: 2, fiber_g: 0, sugar_g: 0, sodium_mg: 50 },
+  servings: [GRAM_SERVING],
+  ...overrides,
+});
+
+describe('portions', () => {
+  const chicken = getCatalogFood('chicken-breast-roasted')!;
+
+  it('scales per-100 g nutrients to the portion, rounded like stored entries', () => {
+    expect(scaleNutrients(chicken.nutrients, 150)).toEqual({
+      calories: 248,
+      protein_g: 46.5,
+      carbs_g: 0,
+      fat_g: 5.4,
+      fiber_g: 0,
+      sugar_g: 0,
+      sodium_mg: 111,
+    });
+  });
+
+  it('multiplies a household serving by its quantity', () => {
+    const serving = chicken.servings.find(option => option.label === '3 oz')!;
+
+    expect(portionNutrients({ food: chicken, serving, quantity: 2 })).toEqual(scaleNutrients(chicken.nutrients, 170));
+    expect(formatServing({ serving, quantity: 2 })).toBe('2 × 3 oz (170 g)');
+  });
+
+  it('offers every food by weight', () => {
+    expect(chicken.servings).toContainEqual(GRAM_SERVING);
+    expect(formatServing({ serving: GRAM_SERVING, quantity: 85 })).toBe('85 g');
+  });
+
+  it('stores no micronutrients for a food that lists none', () => {
+    const food = savedFood('Plain food');
+
+    expect(portionMicronutrients({ food, serving: GRAM_SERVING, quantity: 100 })).toBeNull();
+  });
+
+  it('scales micronutrients with the portion', () => {
+    const food = savedFood('Fortified milk', { micronutrients: { calcium_mg: 120, vitamin_d_mcg: 1.3 } });
+
+    expect(portionMicronutrients({ food, serving: { label: '1 cup', grams: 244 }, quantity: 1 })).toEqual({
+      calcium_mg: 292.8,
+      vitamin_d_mcg: 3.2,
+    });
+  });
+
+  it('carries the catalog micronutrients into a portion', () => {
+    const banana = getCatalogFood('banana')!;
+
+    expect(portionMicronutrients({ food: banana, serving: banana.servings[0], quantity: 1 })).toEqual({
+      potassium_mg: 422.4,
+      calcium_mg: 5.9,
+      iron_mg: 0.3,
+      vitamin_c_mg: 10.3,
+      vitamin_d_mcg: 0,
+    });
+  });
+
+  it('records which food and amount an entry came from', () => {
+    const fields = portionEntryFields({ food: chicken, serving: GRAM_SERVING, quantity: 100 });
+
+    expect(fields).toMatchObject({
+      catalog_food_id: 'chicken-breast-roasted',
+      custom_food_id: null,
+      quantity: 100,
+      serving_label: 'g',
+      serving_grams: 1,
+      calories: 165,
+    });
+  });
+
+  it('converts label values per serving to per 100 g', () => {
+    const perServing = { calories: 120, protein_g: 3, carbs_g: 24, fat_g: 1.5, fiber_g: 2, sugar_g: 6, sodium_mg: 140 };
+
+    expect(nutrientsPer100g(perServing, 30)).toEqual({
+      calories: 400,
+      protein_g: 10,
+      carbs_g: 80,
+      fat_g: 5,
+      fiber_g: 6.67,
+      sugar_g: 20,
+      sodium_mg: 466.67,
+    });
+    expect(nutrientsPer100g(perServing, 0).calories).toBe(0);
+  });
+});
+
+describe('searchFoods', () => {
+  const names = (foods: Food[]) => foods.map(food => food.name);
+
+  it('returns nothing for a blank query', () => {
+    expect(searchFoods('  ')).toEqual([]);
+  });
+
+  it('puts names that start with the query first', () => {
+    expect(names(searchFoods('banana'))[0]).toBe('Banana');
+    expect(names(searchFoods('chicken'))).toEqual([
+      'Chicken thigh, skinless, roasted',
+      'Chicken breast, skinless, roasted',
+    ]);
+  });
+
+  it('matches every word, in any order and by prefix', () => {
+    expect(names(searchFoods('roast chick breast'))).toEqual(['Chicken breast, skinless, roasted']);
+    expect(searchFoods('chicken salmon')).toEqual([]);
+  });
+
+  it('ignores case and accents', () => {
+    expect(names(searchFoods('TOFÚ'))).toEqual(['Tofu, firm']);
+  });
+
+  it('matches on category', () => {
+    expect(names(searchFoods('drinks'))).toContain('Orange juice');
+  });
+
+  it('ranks saved foods ahead of catalog foods that match as well', () => {
+    const homemade = savedFood('Banana bread');
+
+    expect(names(searchFoods('banana', [homemade]))).toEqual(['Banana bread', 'Banana']);
+  });
+
+  it('stops at the limit', () => {
+    expect(searchFoods('e', [], 5)).toHaveLength(5);
+  });
+});
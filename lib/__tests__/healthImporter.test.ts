@@ -0,0 +1,153 @@
+import { importHealthSamples } from '../healthImporter';
+import { HealthSample } from '@/types/integrations';
+
+type Row = Record<string, any>;
+
+// Just enough of the query builder for step_samples, health_daily_totals and daily_stats
+const mockTables: Record<string, Row[]> = {};
+const mockMetricEntries: { type: string; value: number; date: string }[] = [];
+
+const mockFrom = (table: string) => {
+  const filters: ((row: Row) => boolean)[] = [];
+  const rows = () => (mockTables[table] || []).filter(row => filters.every(filter => filter(row)));
+
+  const builder: any = {
+    select: () => builder,
+    eq: (column: string, value: unknown) => (filters.push(row => row[column] === value), builder),
+    in: (column: string, values: unknown[]) => (filters.push(row => values.includes(row[column])), builder),
+    gte: (column: string, value: string) => (filters.push(row => row[column] >= value), builder),
+    lt: (column: string, value: string) => (filters.push(row => row[column] < value), builder),
+    then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: rows(), error: null }),
+    upsert: async (input: Row | Row[], options: { onConflict: string }) => {
+      const keys = options.onConflict.split(',');
+      const stored = (mockTables[table] = mockTables[table] || []);
+      (Array.isArray(input) ? input : [input]).forEach(row => {
+        const match = stored.find(existing => keys.every(key => existing[key] === row[key]));
+        if (match) Object.assign(match, row);
+        else stored.push({ ...row });
+      });
+      return { error: null };
+    },
+  };
+  return builder;
+};
+
+jest.mock('../supabase', () => ({ supabase: { from: (table: string) => mockFrom(table) } }));
+jest.mock('../database', () => ({ getCurrentUserProfile: async () => ({ id: 'profile-1' }) }));
+jest.mock('../dataEvents', () => ({ emitDataChange: jest.fn() }));
+jest.mock('@/utils/metricsStorage', () => ({
+  getMetrics: async () => {
+    const metrics: Record<string, { entries: { value: number; date: string }[] }> = {};
+    mockMetricEntries.forEach(({ type, value, date }) => {
+      metrics[type] = metrics[type] || { entries: [] };
+      metrics[type].entries.push({ value, date });
+    });
+    return metrics;
+  },
+  addMetricEntry: async (type: string, value: number, date: string) => {
+    mockMetricEntries.push({ type, value, date });
+  },
+}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const sample = (type: HealthSample['type'], value: number, start: string, end: string = start): HealthSample => ({
+  type,
+  value,
+  startDate: new Date(start),
+  endDate: new Date(end),
+});
+
+// A day from a connected watch: a walk split across two readings, a workout,
+// the night's sleep, water and a morning weigh-in
+const saturday = [
+  sample('steps', 300, '2026-10-17T09:00:00Z', '2026-10-17T09:20:00Z'),
+  sample('steps', 200, '2026-10-17T09:30:00Z', '2026-10-17T09:50:00Z'),
+  sample('active_calories', 250, '2026-10-17T18:00:00Z', '2026-10-17T19:00:00Z'),
+  sample('sleep_hours', 7.5, '2026-10-16T23:00:00Z', '2026-10-17T06:30:00Z'),
+  sample('water_intake', 0.75, '2026-10-17T08:00:00Z'),
+  sample('water_intake', 1, '2026-10-17T13:00:00Z'),
+  sample('weight', 74.2, '2026-10-17T07:00:00Z'),
+];
+
+const dailyStats = () =>
+  (mockTables.daily_stats || []).map(({ date, steps, calories_burned, sleep_hours }) => ({
+    date,
+    steps,
+    calories_burned,
+    sleep_hours,
+  }));
+
+describe('importHealthSamples', () => {
+  const originalTimezone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = 'UTC';
+  });
+
+  afterAll(() => {
+    process.env.TZ = originalTimezone;
+  });
+
+  beforeEach(() => {
+    Object.keys(mockTables).forEach(table => delete mockTables[table]);
+    mockMetricEntries.length = 0;
+  });
+
+  it('rolls hourly steps and daily totals up into daily_stats', async () => {
+    const summary = await importHealthSamples('profile-1', 'watch', saturday);
+
+    expect(summary).toEqual({ metrics: 3, stepHours: 1, activityDays: 1, skipped: 0 });
+    expect(dailyStats()).toEqual([{ date: '2026-10-17', steps: 500, calories_burned: 250, sleep_hours: 7.5 }]);
+  });
+
+  it('stores water with the water logged in the food journal', async () => {
+    await importHealthSamples('profile-1', 'watch', saturday);
+
+    expect(mockMetricEntries.filter(entry => entry.type === 'water_intake')).toEqual([
+      { type: 'water_intake', value: 0.75, date: '2026-10-17T08:00:00.000Z' },
+      { type: 'water_intake', value: 1, date: '2026-10-17T13:00:00.000Z' },
+    ]);
+    expect(mockTables.health_daily_totals).not.toContainEqual(expect.objectContaining({ metric: 'water_intake_ml' }));
+  });
+
+  it('leaves the same totals when the same window is imported twice', async () => {
+    await importHealthSamples('profile-1', 'watch', saturday);
+    const retry = await importHealthSamples('profile-1', 'watch', saturday);
+
+    expect(retry.metrics).toBe(0);
+    expect(mockMetricEntries).toHaveLength(3);
+    expect(mockTables.step_samples).toEqual([
+      expect.objectContaining({ source: 'watch', hour_start: '2026-10-17T09:00:00.000Z', steps: 500 }),
+    ]);
+    expect(dailyStats()).toEqual([{ date: '2026-10-17', steps: 500, calories_burned: 250, sleep_hours: 7.5 }]);
+  });
+
+  it('replaces a partly imported day with the whole day', async () => {
+    await importHealthSamples('profile-1', 'watch', saturday.slice(0, 1));
+    await importHealthSamples('profile-1', 'watch', saturday);
+
+    expect(dailyStats()[0]).toMatchObject({ steps: 500, sleep_hours: 7.5 });
+  });
+
+  it("doesn't add overlapping sources together", async () => {
+    await importHealthSamples('profile-1', 'watch', saturday);
+    await importHealthSamples('profile-1', 'phone', [
+      sample('sleep_hours', 8, '2026-10-16T22:30:00Z', '2026-10-17T06:30:00Z'),
+      sample('active_calories', 100, '2026-10-17T18:00:00Z'),
+    ]);
+
+    expect(dailyStats()[0]).toMatchObject({ calories_burned: 250, sleep_hours: 8 });
+    expect(mockTables.health_daily_totals).toHaveLength(4);
+  });
+
+  it('skips negative and out-of-range readings', async () => {
+    const summary = await importHealthSamples('profile-1', 'watch', [
+      sample('steps', -20, '2026-10-17T09:00:00Z'),
+      sample('weight', 900, '2026-10-17T07:00:00Z'),
+    ]);
+
+    expect(summary).toEqual({ metrics: 0, stepHours: 0, activityDays: 0, skipped: 2 });
+  });
+});
@@ -0,0 +1,108 @@
+import { NutritionPlan, NutritionPlanMeal, getDayAdherence, getWindowAdherence, shiftDate } from '../nutritionPlans';
+import { FoodEntry } from '../foodJournal';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('../database', () => ({ getCurrentUserProfile: async () => null }));
+
+const slot = (mealTypeId: string, calories: number) =>
+  ({
+    id: `slot-${mealTypeId}`,
+    meal_type_id: mealTypeId,
+    day_of_week: null,
+    position: 0,
+    target_calories: calories,
+    target_protein_g: null,
+    target_carbs_g: null,
+    target_fat_g: null,
+    foods: [],
+  }) as unknown as NutritionPlanMeal;
+
+const plan = {
+  id: 'plan-1',
+  client_id: 'client-1',
+  start_date: '2026-10-01',
+  end_date: null,
+  meals: [slot('breakfast', 500), slot('lunch', 700)],
+} as unknown as NutritionPlan;
+
+let entryCount = 0;
+const entry = (date: string, mealTypeId: string, calories: number, overrides: Partial<FoodEntry> = {}) =>
+  ({
+    id: `entry-${++entryCount}`,
+    user_id: 'client-1',
+    date,
+    meal_type_id: mealTypeId,
+    calories,
+    protein_g: 0,
+    carbs_g: 0,
+    fat_g: 0,
+    ...overrides,
+  }) as FoodEntry;
+
+// Both meals eaten exactly as planned
+const onPlan = (date: string) => [entry(date, 'breakfast', 500), entry(date, 'lunch', 700)];
+
+describe('getDayAdherence', () => {
+  it('scores a day eaten as planned at 100', () => {
+    expect(getDayAdherence(plan, '2026-10-14', onPlan('2026-10-14')).score).toBe(100);
+  });
+
+  it('counts a photo meal awaiting review as logged without judging its macros', () => {
+    const entries = [
+      entry('2026-10-14', 'breakfast', 500),
+      entry('2026-10-14', 'lunch', 0, { review_status: 'pending' }),
+    ];
+
+    const day = getDayAdherence(plan, '2026-10-14', entries);
+
+    expect(day.score).toBe(100);
+    expect(day.logged.calories).toBe(500);
+  });
+
+  it('judges a reviewed photo meal by its estimate', () => {
+    const entries = [
+      entry('2026-10-14', 'breakfast', 500),
+      entry('2026-10-14', 'lunch', 350, { review_status: 'approved' }),
+    ];
+
+    // Lunch is half its target: calorie accuracy 1 - 350 / 1200
+    expect(getDayAdherence(plan, '2026-10-14', entries).score).toBe(80);
+  });
+});
+
+describe('getWindowAdherence', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2026, 9, 18, 9, 0) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const lastWeek = (endDate: string) =>
+    Array.from({ length: 7 }, (_, index) => shiftDate(endDate, -index)).flatMap(onPlan);
+
+  it("doesn't score today while it's still being logged", () => {
+    const entries = [...lastWeek('2026-10-17'), entry('2026-10-18', 'breakfast', 500)];
+
+    const window = getWindowAdherence(plan, entries, '2026-10-18');
+
+    expect(window.days.map(day => day.date)).toEqual([
+      '2026-10-12', '2026-10-13', '2026-10-14', '2026-10-15', '2026-10-16', '2026-10-17', '2026-10-18',
+    ]);
+    expect(window.days[6].score).toBeLessThan(100);
+    expect(window.weeklyScore).toBe(100);
+  });
+
+  it('scores every day of a window that ended before today', () => {
+    const entries = lastWeek('2026-10-17').filter(logged => logged.date !== '2026-10-17');
+
+    expect(getWindowAdherence(plan, entries, '2026-10-17').weeklyScore).toBe(Math.round((6 * 100 + 0) / 7));
+  });
+
+  it('has no score before the plan has a finished day', () => {
+    const startingToday = { ...plan, start_date: '2026-10-18' };
+
+    expect(getWindowAdherence(startingToday, onPlan('2026-10-18'), '2026-10-18').weeklyScore).toBeNull();
+  });
+});
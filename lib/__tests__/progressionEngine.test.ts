@@ -0,0 +1,111 @@
+import { ExercisePerformance, suggestNextSets } from '../progressionEngine';
+import { WorkoutSet } from '@/types/workout';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('@/utils/storage', () => ({ getSessions: async () => [] }));
+
+const planned: WorkoutSet[] = [
+  { reps: 5, weight: 0 },
+  { reps: 5, weight: 0 },
+  { reps: 5, weight: 0 },
+];
+
+const session = (performedOn: string, weight: number, reps: number[]): ExercisePerformance => ({
+  performed_on: performedOn,
+  sets: reps.map(rep => ({ reps: rep, weight, completed: true })),
+});
+
+describe('suggestNextSets (linear)', () => {
+  const weights = (sets: WorkoutSet[]) => sets.map(set => set.weight);
+
+  it('adds the increment once every target rep is hit', () => {
+    const { sets } = suggestNextSets('linear', planned, [session('2026-10-16', 100, [5, 5, 5])]);
+
+    expect(weights(sets)).toEqual([102.5, 102.5, 102.5]);
+  });
+
+  it('repeats the load after a first miss', () => {
+    const { sets } = suggestNextSets('linear', planned, [session('2026-10-16', 100, [5, 5, 3])]);
+
+    expect(weights(sets)).toEqual([100, 100, 100]);
+  });
+
+  it('deloads after two misses at the same load', () => {
+    const { sets, reason } = suggestNextSets(
+      'linear',
+      planned,
+      [session('2026-10-16', 100, [5, 4, 3]), session('2026-10-14', 100, [5, 5, 4])],
+      { deload_percent: 10 }
+    );
+
+    expect(weights(sets)).toEqual([90, 90, 90]);
+    expect(reason).toMatch(/Deload/);
+  });
+
+  it("doesn't deload when the earlier miss was at a lighter load", () => {
+    const { sets } = suggestNextSets('linear', planned, [
+      session('2026-10-16', 102.5, [5, 5, 3]),
+      session('2026-10-14', 100, [5, 5, 4]),
+    ]);
+
+    expect(weights(sets)).toEqual([102.5, 102.5, 102.5]);
+  });
+});
+
+describe('suggestNextSets (double_progression)', () => {
+  // Default range is 8-12 reps
+  const targets = (sets: WorkoutSet[]) => sets.map(({ weight, reps }) => ({ weight, reps }));
+
+  it('adds a rep while the range is being worked through', () => {
+    const { sets } = suggestNextSets('double_progression', planned, [session('2026-10-16', 60, [10, 11, 9])]);
+
+    expect(targets(sets)).toEqual(Array(3).fill({ weight: 60, reps: 10 }));
+  });
+
+  it('holds the load until every set tops out the range', () => {
+    const { sets } = suggestNextSets('double_progression', planned, [session('2026-10-16', 60, [12, 12, 11])]);
+
+    expect(targets(sets)).toEqual(Array(3).fill({ weight: 60, reps: 12 }));
+  });
+
+  it('adds the increment and drops to the bottom of the range once every set tops it out', () => {
+    const { sets, reason } = suggestNextSets('double_progression', planned, [session('2026-10-16', 60, [12, 12, 12])]);
+
+    expect(targets(sets)).toEqual(Array(3).fill({ weight: 62.5, reps: 8 }));
+    expect(reason).toMatch(/top of the 8-12 range/);
+  });
+});
+
+describe('suggestNextSets (rpe)', () => {
+  // Default target is RPE 8
+  const ratedSession = (rpe: number): ExercisePerformance => ({
+    performed_on: '2026-10-16',
+    sets: [{ reps: 5, weight: 100, rpe, completed: true }],
+  });
+  const weights = (sets: WorkoutSet[]) => sets.map(set => set.weight);
+
+  it('keeps the load when the last session landed on the target', () => {
+    const { sets } = suggestNextSets('rpe', planned, [ratedSession(8)]);
+
+    expect(weights(sets)).toEqual([100, 100, 100]);
+    expect(sets.every(set => set.rpe === 8)).toBe(true);
+  });
+
+  it('lightens the load when the last session was harder than the target', () => {
+    const { sets } = suggestNextSets('rpe', planned, [ratedSession(9.5)]);
+
+    expect(weights(sets)).toEqual([95, 95, 95]);
+  });
+
+  it('adds load when the last session was easier than the target', () => {
+    const { sets } = suggestNextSets('rpe', planned, [ratedSession(6)]);
+
+    expect(weights(sets)).toEqual([105, 105, 105]);
+  });
+
+  it('falls back to double progression when no set was rated', () => {
+    const { sets } = suggestNextSets('rpe', planned, [session('2026-10-16', 60, [12, 12, 12])]);
+
+    expect(weights(sets)).toEqual([62.5, 62.5, 62.5]);
+  });
+});
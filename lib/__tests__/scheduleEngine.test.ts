@@ -0,0 +1,219 @@
+import {
+  ScheduleInput,
+  addDays,
+  emptyWeek,
+  generateSchedule,
+  isDeloadWeek,
+  mesocycleOf,
+  parseScheduleData,
+  weekOfPlan,
+} from '../scheduleEngine';
+import { PlanScheduleData } from '@/types/workout';
+
+const weeklyInput = (overrides: Partial<PlanScheduleData> = {}): ScheduleInput => ({
+  schedule_type: 'weekly',
+  start_date: '2026-11-02', // a Monday
+  end_date: '2026-11-29',
+  schedule_data: {
+    version: 2,
+    weeks: [{ ...emptyWeek(), Monday: 'push', Thursday: 'pull' }],
+    custom: [],
+    periodization: null,
+    blackouts: [],
+    ...overrides,
+  },
+});
+
+const dates = (sessions: { scheduled_date: string }[]) => sessions.map(session => session.scheduled_date);
+
+describe('generateSchedule', () => {
+  it('schedules the week layout on every matching day of the plan', () => {
+    const { sessions } = generateSchedule(weeklyInput());
+
+    expect(dates(sessions)).toEqual([
+      '2026-11-02',
+      '2026-11-05',
+      '2026-11-09',
+      '2026-11-12',
+      '2026-11-16',
+      '2026-11-19',
+      '2026-11-23',
+      '2026-11-26',
+    ]);
+    expect(sessions[1]).toMatchObject({ template_id: 'pull', day_of_week: 'Thursday', week_number: 1 });
+  });
+
+  it('drops sessions inside a blackout and reports them', () => {
+    const blackout = { start_date: '2026-11-09', end_date: '2026-11-15', label: 'Holiday' };
+
+    const { sessions, blackedOut } = generateSchedule(weeklyInput({ blackouts: [blackout] }));
+
+    expect(dates(sessions)).not.toContain('2026-11-09');
+    expect(dates(sessions)).not.toContain('2026-11-12');
+    expect(blackedOut).toEqual([
+      { template_id: 'push', scheduled_date: '2026-11-09', blackout },
+      { template_id: 'pull', scheduled_date: '2026-11-12', blackout },
+    ]);
+  });
+
+  it('includes both ends of a blackout', () => {
+    const blackout = { start_date: '2026-11-05', end_date: '2026-11-09', label: null };
+
+    const { blackedOut } = generateSchedule(weeklyInput({ blackouts: [blackout] }));
+
+    expect(dates(blackedOut)).toEqual(['2026-11-05', '2026-11-09']);
+  });
+
+  it('keeps completed and skipped dates and reschedules the rest', () => {
+    const existing = [
+      { scheduled_date: '2026-11-02', status: 'completed' as const },
+      { scheduled_date: '2026-11-05', status: 'skipped' as const },
+      { scheduled_date: '2026-11-09', status: 'scheduled' as const },
+    ];
+
+    const { sessions } = generateSchedule(weeklyInput(), existing);
+
+    expect(dates(sessions)).not.toContain('2026-11-02');
+    expect(dates(sessions)).not.toContain('2026-11-05');
+    expect(dates(sessions)).toContain('2026-11-09');
+  });
+
+  it('neither reschedules nor reports a kept date inside a blackout', () => {
+    const blackout = { start_date: '2026-11-02', end_date: '2026-11-02', label: null };
+
+    const { sessions, blackedOut } = generateSchedule(weeklyInput({ blackouts: [blackout] }), [
+      { scheduled_date: '2026-11-02', status: 'completed' },
+    ]);
+
+    expect(dates(sessions)).not.toContain('2026-11-02');
+    expect(blackedOut).toEqual([]);
+  });
+
+  it('marks the sessions of deload weeks', () => {
+    const { sessions } = generateSchedule(weeklyInput({ periodization: { mesocycle_weeks: 2, deload_weeks: 1 } }));
+
+    expect(sessions.filter(session => session.is_deload).map(session => session.week_number)).toEqual([2, 2, 4, 4]);
+  });
+});
+
+describe('isDeloadWeek', () => {
+  const periodization = { mesocycle_weeks: 4, deload_weeks: 1 };
+
+  it('deloads the last weeks of each mesocycle', () => {
+    expect([1, 2, 3, 4, 5, 8, 9].map(week => isDeloadWeek(week, periodization))).toEqual([
+      false,
+      false,
+      false,
+      true,
+      false,
+      true,
+      false,
+    ]);
+  });
+
+  it('deloads several weeks at the end of each mesocycle', () => {
+    const twoWeekDeload = { mesocycle_weeks: 5, deload_weeks: 2 };
+
+    expect([3, 4, 5, 6, 9, 10, 11].map(week => isDeloadWeek(week, twoWeekDeload))).toEqual([
+      false,
+      true,
+      true,
+      false,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it('never deloads without periodization', () => {
+    expect(isDeloadWeek(4, null)).toBe(false);
+    expect(isDeloadWeek(4, { mesocycle_weeks: 4, deload_weeks: 0 })).toBe(false);
+    expect(isDeloadWeek(4, { mesocycle_weeks: 0, deload_weeks: 1 })).toBe(false);
+  });
+});
+
+describe('mesocycleOf', () => {
+  const periodization = { mesocycle_weeks: 4, deload_weeks: 1 };
+
+  it('starts a new mesocycle after the last week of the previous one', () => {
+    expect([1, 4, 5, 8, 9].map(week => mesocycleOf(week, periodization))).toEqual([1, 1, 2, 2, 3]);
+  });
+
+  it('is null without periodization', () => {
+    expect(mesocycleOf(5, null)).toBeNull();
+    expect(mesocycleOf(5, { mesocycle_weeks: 0, deload_weeks: 0 })).toBeNull();
+  });
+});
+
+describe('parseScheduleData', () => {
+  it('reads the v2 shape, filling in missing days and lists', () => {
+    const data = parseScheduleData({
+      version: 2,
+      weeks: [{ Monday: 'push' }],
+      periodization: { mesocycle_weeks: 4, deload_weeks: 1 },
+    });
+
+    expect(data.weeks).toEqual([{ ...emptyWeek(), Monday: 'push' }]);
+    expect(data.custom).toEqual([]);
+    expect(data.blackouts).toEqual([]);
+    expect(data.periodization).toEqual({ mesocycle_weeks: 4, deload_weeks: 1 });
+  });
+
+  it('reads a bare week layout', () => {
+    const data = parseScheduleData({ Monday: 'push', Friday: 'legs' });
+
+    expect(data.version).toBe(2);
+    expect(data.weeks).toEqual([{ ...emptyWeek(), Monday: 'push', Friday: 'legs' }]);
+  });
+
+  it('reads a map of week numbers to layouts in week order', () => {
+    const data = parseScheduleData({ '2': { Tuesday: 'pull' }, '1': { Monday: 'push' }, notes: 'ignored' });
+
+    expect(data.weeks).toEqual([
+      { ...emptyWeek(), Monday: 'push' },
+      { ...emptyWeek(), Tuesday: 'pull' },
+    ]);
+  });
+
+  it('reads a list of custom workouts', () => {
+    const custom = [{ id: 'a', date: '2026-11-03', templateId: 'push', label: 'Test day' }];
+
+    const data = parseScheduleData(custom);
+
+    expect(data.custom).toEqual(custom);
+    expect(data.weeks).toEqual([emptyWeek()]);
+  });
+
+  it('falls back to an empty schedule for missing or unknown data', () => {
+    const empty = { version: 2, weeks: [emptyWeek()], custom: [], periodization: null, blackouts: [] };
+
+    expect(parseScheduleData(null)).toEqual(empty);
+    expect(parseScheduleData('weekly')).toEqual(empty);
+    expect(parseScheduleData({ unrelated: true })).toEqual(empty);
+  });
+});
+
+describe('weekOfPlan', () => {
+  const originalTimezone = process.env.TZ;
+
+  beforeAll(() => {
+    // Clocks go forward on 2026-03-08 and back on 2026-11-01
+    process.env.TZ = 'America/New_York';
+  });
+
+  afterAll(() => {
+    process.env.TZ = originalTimezone;
+  });
+
+  it('counts whole weeks across the start of daylight saving time', () => {
+    expect(weekOfPlan('2026-03-02', '2026-03-08')).toBe(1);
+    expect(weekOfPlan('2026-03-02', '2026-03-09')).toBe(2);
+    expect(addDays('2026-03-07', 2)).toBe('2026-03-09');
+  });
+
+  it('counts whole weeks across the end of daylight saving time', () => {
+    expect(weekOfPlan('2026-10-26', '2026-11-01')).toBe(1);
+    expect(weekOfPlan('2026-10-26', '2026-11-02')).toBe(2);
+    expect(addDays('2026-10-31', 2)).toBe('2026-11-02');
+  });
+});
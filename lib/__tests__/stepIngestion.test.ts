@@ -0,0 +1,125 @@
+import { ingestSteps, setStepSource } from '../stepIngestion';
+import { createFakeStepSource } from '../stepSources';
+
+type Row = Record<string, any>;
+
+// Just enough of the query builder for step_samples and daily_stats
+const mockTables: Record<string, Row[]> = {};
+
+const mockFrom = (table: string) => {
+  const filters: ((row: Row) => boolean)[] = [];
+  let order: { column: string; ascending: boolean } | null = null;
+  let limit = Infinity;
+
+  const rows = () => {
+    const matched = (mockTables[table] || []).filter(row => filters.every(filter => filter(row)));
+    if (order) {
+      const { column, ascending } = order;
+      matched.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+    }
+    return matched.slice(0, limit);
+  };
+
+  const builder: any = {
+    select: () => builder,
+    eq: (column: string, value: unknown) => (filters.push(row => row[column] === value), builder),
+    gte: (column: string, value: string) => (filters.push(row => row[column] >= value), builder),
+    lt: (column: string, value: string) => (filters.push(row => row[column] < value), builder),
+    order: (column: string, options: { ascending: boolean }) => ((order = { column, ...options }), builder),
+    limit: (count: number) => ((limit = count), builder),
+    maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+    then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: rows(), error: null }),
+    upsert: async (input: Row | Row[], options: { onConflict: string }) => {
+      const keys = options.onConflict.split(',');
+      const stored = (mockTables[table] = mockTables[table] || []);
+      (Array.isArray(input) ? input : [input]).forEach(row => {
+        const match = stored.find(existing => keys.every(key => existing[key] === row[key]));
+        if (match) Object.assign(match, row);
+        else stored.push({ ...row });
+      });
+      return { error: null };
+    },
+  };
+  return builder;
+};
+
+jest.mock('../supabase', () => ({ supabase: { from: (table: string) => mockFrom(table) } }));
+jest.mock('../database', () => ({ getCurrentUserProfile: async () => ({ id: 'profile-1' }) }));
+jest.mock('../dataEvents', () => ({ emitDataChange: jest.fn() }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// 600 steps in each of the 9am and 10am hours, nothing otherwise
+const morningWalk = (hourStart: Date) => ([9, 10].includes(hourStart.getHours()) ? 600 : 0);
+
+const dailySteps = () =>
+  Object.fromEntries((mockTables.daily_stats || []).map(row => [row.date, row.steps]));
+
+describe('ingestSteps', () => {
+  const originalTimezone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = 'UTC';
+  });
+
+  afterAll(() => {
+    process.env.TZ = originalTimezone;
+  });
+
+  beforeEach(() => {
+    Object.keys(mockTables).forEach(table => delete mockTables[table]);
+    jest.useFakeTimers({ now: new Date('2026-10-18T12:30:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stores the hours with steps and rolls them up into daily totals', async () => {
+    setStepSource(createFakeStepSource(morningWalk));
+
+    expect(await ingestSteps({ days: 1 })).toBe(4);
+
+    expect(mockTables.step_samples.map(row => row.hour_start).sort()).toEqual([
+      '2026-10-17T09:00:00.000Z',
+      '2026-10-17T10:00:00.000Z',
+      '2026-10-18T09:00:00.000Z',
+      '2026-10-18T10:00:00.000Z',
+    ]);
+    expect(mockTables.step_samples.every(row => row.source === 'fake' && row.user_id === 'profile-1')).toBe(true);
+    expect(dailySteps()).toEqual({ '2026-10-17': 1200, '2026-10-18': 1200 });
+  });
+
+  it("doesn't duplicate hours on the next run, but tops up the last one", async () => {
+    setStepSource(createFakeStepSource(morningWalk));
+    await ingestSteps({ days: 1 });
+
+    // The last stored hour was still in progress and has since gained steps
+    setStepSource(createFakeStepSource(hour => (hour.toISOString() === '2026-10-18T10:00:00.000Z' ? 800 : morningWalk(hour))));
+    jest.setSystemTime(new Date('2026-10-18T13:30:00Z'));
+    await ingestSteps({ days: 1 });
+
+    expect(mockTables.step_samples).toHaveLength(4);
+    expect(dailySteps()).toEqual({ '2026-10-17': 1200, '2026-10-18': 1400 });
+  });
+
+  it('takes the highest count when two sources report the same hour', async () => {
+    setStepSource(createFakeStepSource(morningWalk));
+    await ingestSteps({ days: 1 });
+
+    // A watch worn on the same walk counts a few more steps
+    setStepSource({ ...createFakeStepSource(hour => (morningWalk(hour) ? 700 : 0)), id: 'watch' });
+    await ingestSteps({ days: 1 });
+
+    expect(mockTables.step_samples).toHaveLength(8);
+    expect(dailySteps()).toEqual({ '2026-10-17': 1400, '2026-10-18': 1400 });
+  });
+
+  it('writes nothing when the source is unavailable', async () => {
+    setStepSource(createFakeStepSource(morningWalk, { available: false }));
+
+    expect(await ingestSteps({ days: 1 })).toBe(0);
+    expect(mockTables.step_samples).toBeUndefined();
+  });
+});
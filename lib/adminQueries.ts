@@ -0,0 +1,269 @@
+import { supabase } from './supabase';
+import { Profile } from './database';
+import { AccountStatus, UserRole } from '@/types/permissions';
+
+export const DEFAULT_USER_PAGE_SIZE = 20;
+export const DEFAULT_AUDIT_PAGE_SIZE = 30;
+
+export type AdminAuditAction =
+  | 'role_changed'
+  | 'user_deactivated'
+  | 'user_reactivated'
+  | 'profile_updated'
+  | 'password_reset_sent';
+
+export interface ProfilePage {
+  users: Profile[];
+  total: number;
+}
+
+export interface UserAssignment {
+  id: string;
+  client_id: string;
+  trainer_id?: string | null;
+  nutritionist_id?: string | null;
+  assigned_date: string;
+  status: 'active' | 'inactive' | 'pending';
+  client?: { id: string; full_name?: string; email: string } | null;
+  trainer?: { id: string; full_name?: string; email: string } | null;
+  nutritionist?: { id: string; full_name?: string; email: string } | null;
+}
+
+export interface AdminAuditEntry {
+  id: string;
+  actor_id: string | null;
+  target_id: string | null;
+  action: AdminAuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+  actor?: Pick<Profile, 'id' | 'full_name' | 'email'> | null;
+  target?: Pick<Profile, 'id' | 'full_name' | 'email'> | null;
+}
+
+export interface AuditLogPage {
+  entries: AdminAuditEntry[];
+  total: number;
+}
+
+// PostgREST filter syntax treats these as separators inside or()
+const sanitizeSearch = (query: string) => query.replace(/[,()%*\\]/g, ' ').trim();
+
+// One page of profiles for user management, newest first
+export const searchProfiles = async (options: {
+  query?: string;
+  role?: UserRole | 'all';
+  status?: AccountStatus | 'all';
+  page?: number;
+  pageSize?: number;
+} = {}): Promise<ProfilePage> => {
+  const page = options.page ?? 0;
+  const pageSize = options.pageSize ?? DEFAULT_USER_PAGE_SIZE;
+
+  try {
+    let query = supabase
+      .from('profiles')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(page * pageSize, page * pageSize + pageSize - 1);
+
+    const search = sanitizeSearch(options.query || '');
+    if (search) {
+      query = query.or(`full_name.ilike.%${search}%,email.ilike.%${search}%`);
+    }
+    if (options.role && options.role !== 'all') {
+      query = query.eq('role', options.role);
+    }
+    if (options.status && options.status !== 'all') {
+      query = query.eq('account_status', options.status);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      console.error('Error searching profiles:', error);
+      return { users: [], total: 0 };
+    }
+
+    return { users: data || [], total: count || 0 };
+  } catch (error) {
+    console.error('Error in searchProfiles:', error);
+    return { users: [], total: 0 };
+  }
+};
+
+// Counts per account status for the stats row, independent of the current filters
+export const getProfileStatusCounts = async (): Promise<Record<AccountStatus | 'total', number>> => {
+  try {
+    const [totalResult, activeResult, inactiveResult] = await Promise.all([
+      supabase.from('profiles').select('id', { count: 'exact', head: true }),
+      supabase.from('profiles').select('id', { count: 'exact', head: true }).eq('account_status', 'active'),
+      supabase.from('profiles').select('id', { count: 'exact', head: true }).eq('account_status', 'inactive'),
+    ]);
+
+    return {
+      total: totalResult.count || 0,
+      active: activeResult.count || 0,
+      inactive: inactiveResult.count || 0,
+    };
+  } catch (error) {
+    console.error('Error in getProfileStatusCounts:', error);
+    return { total: 0, active: 0, inactive: 0 };
+  }
+};
+
+// The database refuses changes to your own role and logs every change to the audit trail
+export const setUserRole = async (profileId: string, role: UserRole): Promise<Profile | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq('id', profileId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error changing user role:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in setUserRole:', error);
+    return null;
+  }
+};
+
+export const setUserStatus = async (profileId: string, status: AccountStatus): Promise<Profile | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ account_status: status, updated_at: new Date().toISOString() })
+      .eq('id', profileId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error changing user status:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in setUserStatus:', error);
+    return null;
+  }
+};
+
+// Email the user a reset link and record who sent it
+export const sendPasswordReset = async (profile: Pick<Profile, 'id' | 'email'>): Promise<boolean> => {
+  try {
+    const { error: logError } = await supabase.rpc('record_password_reset', {
+      target_profile_id: profile.id,
+    });
+
+    // Without the audit entry the reset is not sent
+    if (logError) {
+      console.error('Error recording password reset:', logError);
+      return false;
+    }
+
+    const { error } = await supabase.auth.resetPasswordForEmail(profile.email);
+
+    if (error) {
+      console.error('Error sending password reset:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in sendPasswordReset:', error);
+    return false;
+  }
+};
+
+// Assignments where the user is the client or one of the coaches
+export const getUserAssignments = async (profileId: string): Promise<UserAssignment[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('client_assignments')
+      .select(`
+        id, client_id, trainer_id, nutritionist_id, assigned_date, status,
+        client:profiles!client_assignments_client_id_fkey(id, full_name, email),
+        trainer:profiles!client_assignments_trainer_id_fkey(id, full_name, email),
+        nutritionist:profiles!client_assignments_nutritionist_id_fkey(id, full_name, email)
+      `)
+      .or(`client_id.eq.${profileId},trainer_id.eq.${profileId},nutritionist_id.eq.${profileId}`)
+      .order('assigned_date', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching user assignments:', error);
+      return [];
+    }
+
+    return (data || []) as unknown as UserAssignment[];
+  } catch (error) {
+    console.error('Error in getUserAssignments:', error);
+    return [];
+  }
+};
+
+// Read-only view of the audit trail for admins and HR, newest first
+export const getAuditLog = async (options: {
+  targetId?: string;
+  action?: AdminAuditAction;
+  page?: number;
+  pageSize?: number;
+} = {}): Promise<AuditLogPage> => {
+  const page = options.page ?? 0;
+  const pageSize = options.pageSize ?? DEFAULT_AUDIT_PAGE_SIZE;
+
+  try {
+    let query = supabase
+      .from('admin_audit_log')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(page * pageSize, page * pageSize + pageSize - 1);
+
+    if (options.targetId) {
+      query = query.eq('target_id', options.targetId);
+    }
+    if (options.action) {
+      query = query.eq('action', options.action);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      console.error('Error fetching audit log:', error);
+      return { entries: [], total: 0 };
+    }
+
+    const entries: AdminAuditEntry[] = data || [];
+
+    // The log keeps no foreign keys, so names are looked up separately and
+    // entries about deleted profiles simply show without one
+    const ids = [...new Set(entries.flatMap(entry => [entry.actor_id, entry.target_id]).filter(Boolean))] as string[];
+    if (ids.length > 0) {
+      const { data: people, error: peopleError } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .in('id', ids);
+
+      if (peopleError) {
+        console.error('Error fetching audit log profiles:', peopleError);
+      }
+
+      const byId = new Map((people || []).map(person => [person.id, person]));
+      entries.forEach(entry => {
+        entry.actor = entry.actor_id ? byId.get(entry.actor_id) || null : null;
+        entry.target = entry.target_id ? byId.get(entry.target_id) || null : null;
+      });
+    }
+
+    return { entries, total: count || 0 };
+  } catch (error) {
+    console.error('Error in getAuditLog:', error);
+    return { entries: [], total: 0 };
+  }
+};
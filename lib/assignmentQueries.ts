@@ -0,0 +1,296 @@
+import { supabase } from './supabase';
+import { AccountStatus } from '@/types/permissions';
+
+export type CoachRole = 'trainer' | 'nutritionist';
+
+interface PersonSummary {
+  id: string;
+  full_name?: string;
+  email: string;
+}
+
+export interface RosterClient {
+  id: string;
+  full_name?: string;
+  email: string;
+  created_at: string;
+  account_status?: AccountStatus;
+  assignment: {
+    id: string;
+    assigned_date: string;
+    trainer: PersonSummary | null;
+    nutritionist: PersonSummary | null;
+  } | null;
+}
+
+export interface CoachWorkload extends PersonSummary {
+  role: CoachRole;
+  account_status?: AccountStatus;
+  max_clients: number | null;
+  active_clients: number;
+}
+
+export interface AssignmentHistoryEntry {
+  id: string;
+  assignment_id: string | null;
+  client_id: string;
+  coach_id: string;
+  coach_role: CoachRole;
+  started_at: string;
+  ended_at: string | null;
+  start_reason: string | null;
+  end_reason: string | null;
+  client?: PersonSummary | null;
+  coach?: PersonSummary | null;
+  started_by_profile?: PersonSummary | null;
+  ended_by_profile?: PersonSummary | null;
+}
+
+export interface AssignmentOverview {
+  totalClients: number;
+  fullyAssigned: number;
+  trainerAssigned: number;
+  nutritionistAssigned: number;
+  unassigned: number;
+  activeTrainers: number;
+  activeNutritionists: number;
+  coachesAtCapacity: number;
+  recent: AssignmentHistoryEntry[];
+}
+
+// Seats left for a coach, or null when they have no limit
+export const getRemainingCapacity = (coach: CoachWorkload): number | null =>
+  coach.max_clients === null ? null : Math.max(coach.max_clients - coach.active_clients, 0);
+
+// Every client with their current pairing, if any
+export const getAssignmentRoster = async (): Promise<RosterClient[]> => {
+  try {
+    const [clientsResult, assignmentsResult] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('id, full_name, email, created_at, account_status')
+        .in('role', ['client', 'leads'])
+        .order('full_name'),
+      supabase
+        .from('client_assignments')
+        .select(`
+          id, client_id, assigned_date,
+          trainer:profiles!client_assignments_trainer_id_fkey(id, full_name, email),
+          nutritionist:profiles!client_assignments_nutritionist_id_fkey(id, full_name, email)
+        `)
+        .eq('status', 'active'),
+    ]);
+
+    if (clientsResult.error) {
+      console.error('Error fetching clients for assignment:', clientsResult.error);
+      return [];
+    }
+    if (assignmentsResult.error) {
+      console.error('Error fetching active assignments:', assignmentsResult.error);
+    }
+
+    const byClient = new Map<string, any>();
+    (assignmentsResult.data || []).forEach((assignment: any) => {
+      byClient.set(assignment.client_id, assignment);
+    });
+
+    return (clientsResult.data || []).map((client: any) => {
+      const assignment = byClient.get(client.id);
+      return {
+        ...client,
+        assignment: assignment
+          ? {
+              id: assignment.id,
+              assigned_date: assignment.assigned_date,
+              trainer: assignment.trainer || null,
+              nutritionist: assignment.nutritionist || null,
+            }
+          : null,
+      };
+    });
+  } catch (error) {
+    console.error('Error in getAssignmentRoster:', error);
+    return [];
+  }
+};
+
+// Trainers or nutritionists with their current client load and capacity
+export const getCoaches = async (role: CoachRole): Promise<CoachWorkload[]> => {
+  try {
+    const column = role === 'trainer' ? 'trainer_id' : 'nutritionist_id';
+    const [coachesResult, assignmentsResult] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('id, full_name, email, role, account_status, max_clients')
+        .eq('role', role)
+        .order('full_name'),
+      supabase
+        .from('client_assignments')
+        .select(column)
+        .eq('status', 'active')
+        .not(column, 'is', null),
+    ]);
+
+    if (coachesResult.error) {
+      console.error(`Error fetching ${role}s:`, coachesResult.error);
+      return [];
+    }
+    if (assignmentsResult.error) {
+      console.error('Error fetching coach client counts:', assignmentsResult.error);
+    }
+
+    const counts: Record<string, number> = {};
+    (assignmentsResult.data || []).forEach((row: any) => {
+      counts[row[column]] = (counts[row[column]] || 0) + 1;
+    });
+
+    return (coachesResult.data || []).map((coach: any) => ({
+      ...coach,
+      max_clients: coach.max_clients ?? null,
+      active_clients: counts[coach.id] || 0,
+    }));
+  } catch (error) {
+    console.error('Error in getCoaches:', error);
+    return [];
+  }
+};
+
+// Assignment changes throw with the server message (capacity, wrong role, ...)
+// so the screen can say why a change was refused
+export const assignCoach = async (
+  clientId: string,
+  coachId: string,
+  role: CoachRole,
+  reason?: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('assign_coach', {
+    target_client_id: clientId,
+    target_coach_id: coachId,
+    coach_role: role,
+    assignment_reason: reason?.trim() || null,
+  });
+
+  if (error) {
+    console.error('Error assigning coach:', error);
+    throw new Error(error.message || 'Failed to assign coach');
+  }
+
+  return data;
+};
+
+export const endCoachAssignment = async (clientId: string, role: CoachRole, reason?: string): Promise<void> => {
+  const { error } = await supabase.rpc('end_coach_assignment', {
+    target_client_id: clientId,
+    coach_role: role,
+    assignment_reason: reason?.trim() || null,
+  });
+
+  if (error) {
+    console.error('Error ending coach assignment:', error);
+    throw new Error(error.message || 'Failed to remove coach');
+  }
+};
+
+// Move every client of a departing coach to another coach of the same role, or
+// leave them unassigned when toCoachId is null. Returns how many were moved.
+export const reassignCoachClients = async (
+  fromCoachId: string,
+  toCoachId: string | null,
+  reason?: string
+): Promise<number> => {
+  const { data, error } = await supabase.rpc('reassign_coach_clients', {
+    from_coach_id: fromCoachId,
+    to_coach_id: toCoachId,
+    assignment_reason: reason?.trim() || null,
+  });
+
+  if (error) {
+    console.error('Error reassigning coach clients:', error);
+    throw new Error(error.message || 'Failed to reassign clients');
+  }
+
+  return data || 0;
+};
+
+export const setCoachCapacity = async (coachId: string, maxClients: number | null): Promise<boolean> => {
+  try {
+    const { error } = await supabase.rpc('set_coach_capacity', {
+      target_coach_id: coachId,
+      new_max_clients: maxClients,
+    });
+
+    if (error) {
+      console.error('Error setting coach capacity:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in setCoachCapacity:', error);
+    return false;
+  }
+};
+
+// Past and current coach stints, newest first
+export const getAssignmentHistory = async (options: {
+  clientId?: string;
+  coachId?: string;
+  limit?: number;
+} = {}): Promise<AssignmentHistoryEntry[]> => {
+  try {
+    let query = supabase
+      .from('client_assignment_history')
+      .select(`
+        *,
+        client:profiles!client_assignment_history_client_id_fkey(id, full_name, email),
+        coach:profiles!client_assignment_history_coach_id_fkey(id, full_name, email),
+        started_by_profile:profiles!client_assignment_history_started_by_fkey(id, full_name, email),
+        ended_by_profile:profiles!client_assignment_history_ended_by_fkey(id, full_name, email)
+      `)
+      .order('started_at', { ascending: false })
+      .limit(options.limit ?? 50);
+
+    if (options.clientId) {
+      query = query.eq('client_id', options.clientId);
+    }
+    if (options.coachId) {
+      query = query.eq('coach_id', options.coachId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching assignment history:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getAssignmentHistory:', error);
+    return [];
+  }
+};
+
+export const getAssignmentOverview = async (): Promise<AssignmentOverview> => {
+  const [roster, trainers, nutritionists, recent] = await Promise.all([
+    getAssignmentRoster(),
+    getCoaches('trainer'),
+    getCoaches('nutritionist'),
+    getAssignmentHistory({ limit: 5 }),
+  ]);
+
+  const coaches = [...trainers, ...nutritionists];
+  const isActive = (coach: CoachWorkload) => coach.account_status !== 'inactive';
+
+  return {
+    totalClients: roster.length,
+    fullyAssigned: roster.filter(c => c.assignment?.trainer && c.assignment?.nutritionist).length,
+    trainerAssigned: roster.filter(c => c.assignment?.trainer).length,
+    nutritionistAssigned: roster.filter(c => c.assignment?.nutritionist).length,
+    unassigned: roster.filter(c => !c.assignment?.trainer && !c.assignment?.nutritionist).length,
+    activeTrainers: trainers.filter(isActive).length,
+    activeNutritionists: nutritionists.filter(isActive).length,
+    coachesAtCapacity: coaches.filter(coach => getRemainingCapacity(coach) === 0).length,
+    recent,
+  };
+};
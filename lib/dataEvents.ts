@@ -0,0 +1,24 @@
+// Lets features react to data logged elsewhere in the app without the logging
+// modules knowing about them (e.g. goal progress after a weigh-in).
+export type DataChangeKind = 'metric' | 'workout' | 'steps' | 'nutrition';
+
+type DataChangeListener = (kind: DataChangeKind) => void;
+
+const listeners = new Set<DataChangeListener>();
+
+export const onDataChange = (listener: DataChangeListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const emitDataChange = (kind: DataChangeKind): void => {
+  listeners.forEach(listener => {
+    try {
+      listener(kind);
+    } catch (error) {
+      console.error('Error in data change listener:', error);
+    }
+  });
+};
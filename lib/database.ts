@@ -1,12 +1,28 @@
 import { supabase } from './supabase';
+import { UnitSystem } from '@/types/units';
+import { GoalSourceFields } from '@/types/goals';
+import { AccountStatus, UserRole } from '@/types/permissions';
+import { ActivityLevel, Sex } from '@/types/nutrition';
+import { can } from './permissions';
 
 export interface Profile {
   id: string;
   user_id: string;
   email: string;
   full_name?: string;
-  role: 'client' | 'trainer' | 'nutritionist' | 'admin' | 'hr';
+  role: UserRole;
   avatar_url?: string;
+  height_cm?: number;
+  weight_kg?: number;
+  date_of_birth?: string | null;
+  sex?: Sex | null;
+  activity_level?: ActivityLevel | null;
+  unit_system?: UnitSystem;
+  quiet_hours_start?: string | null; // 'HH:MM:SS', reminders are held back until quiet_hours_end
+  quiet_hours_end?: string | null;
+  account_status?: AccountStatus;
+  deactivated_at?: string | null;
+  trial_ends_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -42,7 +58,7 @@ export interface DailyStats {
   updated_at: string;
 }
 
-export interface Goal {
+export interface Goal extends GoalSourceFields {
   id: string;
   user_id: string;
   title: string;
@@ -52,6 +68,7 @@ export interface Goal {
   progress_percentage: number;
   status: 'active' | 'completed' | 'paused' | 'cancelled';
   category?: string;
+  unit?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -133,7 +150,7 @@ export const createOrUpdateProfile = async (profileData: Partial<Profile>): Prom
         email: user.email,
         ...profileData,
         updated_at: new Date().toISOString(),
-      })
+      }, { onConflict: 'user_id' })
       .select()
       .single();
 
@@ -298,7 +315,8 @@ export const getActiveGoals = async (userId: string): Promise<Goal[]> => {
   }
 };
 
-// Client assignments
+// Client assignments. This is the client's current pairing; past coaches are in
+// getAssignmentHistory (lib/assignmentQueries.ts)
 export const getClientAssignments = async (clientId: string): Promise<ClientAssignment | null> => {
   try {
     const { data, error } = await supabase
@@ -310,9 +328,11 @@ export const getClientAssignments = async (clientId: string): Promise<ClientAssi
       `)
       .eq('client_id', clientId)
       .eq('status', 'active')
-      .single();
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-    if (error && error.code !== 'PGRST116') {
+    if (error) {
       console.error('Error fetching client assignments:', error);
       return null;
     }
@@ -371,6 +391,11 @@ export const getNutritionistClients = async (nutritionistId: string): Promise<Pr
 // System stats for admin
 export const getSystemStats = async () => {
   try {
+    const profile = await getCurrentUserProfile();
+    if (!can(profile?.role, 'analytics.view_all')) {
+      throw new Error('Not allowed to view system stats');
+    }
+
     const [usersResult, sessionsResult, assignmentsResult] = await Promise.all([
       supabase.from('profiles').select('role', { count: 'exact' }),
       supabase.from('workout_sessions').select('completed', { count: 'exact' }).eq('date', new Date().toISOString().split('T')[0]),
@@ -401,6 +426,10 @@ export const getSystemStats = async () => {
 // Get all client profiles
 export const getAllClientsProfiles = async (): Promise<Profile[]> => {
   try {
+    // Trainers and nutritionists only see their assigned clients
+    const profile = await getCurrentUserProfile();
+    if (!can(profile?.role, 'clients.read_all')) return [];
+
     const { data, error } = await supabase
       .from('profiles')
       .select('*')
@@ -1,4 +1,9 @@
+import * as FileSystem from 'expo-file-system';
+import { decode } from 'base64-arraybuffer';
 import { supabase } from './supabase';
+import { emitDataChange } from './dataEvents';
+import { FoodPortion, FoodProduct, Micronutrients, CLEARED_FOOD_REFERENCE, portionEntryFields } from './foods';
+import { LimitNutrient, MacroStrategy, MealReviewStatus, TargetSource, WeightGoalType } from '@/types/nutrition';
 
 export interface MealType {
   id: string;
@@ -23,7 +28,24 @@ export interface FoodEntry {
   fiber_g: number;
   sugar_g: number;
   sodium_mg: number;
+  // Only when logged from a food that lists them
+  micronutrients?: Micronutrients | null;
   notes?: string;
+  // Set when the entry was logged from the food database (see lib/foods)
+  catalog_food_id?: string | null;
+  custom_food_id?: string | null;
+  quantity?: number | null;
+  serving_label?: string | null;
+  serving_grams?: number | null;
+  product_barcode?: string | null;
+  recipe_id?: string | null;
+  // Set on meals logged with just a photo: pending until the client's
+  // nutritionist estimates the nutrition, then approved
+  review_status?: MealReviewStatus | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  review_comment?: string | null;
+  product?: FoodProduct | null;
   created_at: string;
   updated_at: string;
   meal_type?: MealType;
@@ -50,6 +72,18 @@ export interface NutritionGoals {
   daily_fiber_g: number;
   daily_sugar_g: number;
   daily_sodium_mg: number;
+  daily_water_ml: number;
+  // Missing micronutrients fall back to their daily value (see MICRONUTRIENTS)
+  micronutrient_targets: Micronutrients;
+  // Limits that warn when the day goes over them
+  limit_warnings: LimitNutrient[];
+  target_source: TargetSource;
+  // Calculator settings, kept to recalculate when the weight changes
+  goal_type?: WeightGoalType | null;
+  goal_rate_kg_per_week?: number | null;
+  macro_strategy?: MacroStrategy | null;
+  calculated_weight_kg?: number | null;
+  calculated_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -63,6 +97,12 @@ export interface DayNutritionSummary {
   total_fiber: number;
   total_sugar: number;
   total_sodium: number;
+  // Summed over the entries that list each micronutrient
+  total_micronutrients: Micronutrients;
+  // Entries whose values are a nutritionist's estimate from a photo, and
+  // photo meals not estimated yet (counted as zero in the totals)
+  estimated_entries: number;
+  pending_entries: number;
   entries: FoodEntry[];
 }
 
@@ -140,7 +180,7 @@ export const upsertNutritionGoals = async (goals: Partial<NutritionGoals>): Prom
         user_id: profile.id,
         ...goals,
         updated_at: new Date().toISOString(),
-      })
+      }, { onConflict: 'user_id' })
       .select()
       .single();
 
@@ -156,6 +196,34 @@ export const upsertNutritionGoals = async (goals: Partial<NutritionGoals>): Prom
   }
 };
 
+// Set a client's targets as their nutritionist
+export const upsertClientNutritionGoals = async (
+  clientId: string,
+  goals: Partial<NutritionGoals>
+): Promise<NutritionGoals | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('nutrition_goals')
+      .upsert({
+        ...goals,
+        user_id: clientId,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error upserting client nutrition goals:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in upsertClientNutritionGoals:', error);
+    return null;
+  }
+};
+
 // Get food entries for a specific date
 export const getFoodEntriesForDate = async (date: string): Promise<FoodEntry[]> => {
   try {
@@ -176,7 +244,8 @@ export const getFoodEntriesForDate = async (date: string): Promise<FoodEntry[]>
       .select(`
         *,
         meal_type:meal_types(*),
-        photos:food_photos(*)
+        photos:food_photos(*),
+        product:food_products(*)
       `)
       .eq('user_id', profile.id)
       .eq('date', date)
@@ -187,7 +256,7 @@ export const getFoodEntriesForDate = async (date: string): Promise<FoodEntry[]>
       return [];
     }
 
-    return data || [];
+    return withSignedPhotos(data || []);
   } catch (error) {
     console.error('Error in getFoodEntriesForDate:', error);
     return [];
@@ -214,7 +283,8 @@ export const getFoodEntriesForDateRange = async (startDate: string, endDate: str
       .select(`
         *,
         meal_type:meal_types(*),
-        photos:food_photos(*)
+        photos:food_photos(*),
+        product:food_products(*)
       `)
       .eq('user_id', profile.id)
       .gte('date', startDate)
@@ -227,8 +297,10 @@ export const getFoodEntriesForDateRange = async (startDate: string, endDate: str
       return [];
     }
 
+    const entries = await withSignedPhotos(data || []);
+
     // Group by date and calculate daily totals
-    const groupedByDate = (data || []).reduce((acc, entry) => {
+    const groupedByDate = entries.reduce((acc, entry) => {
       const date = entry.date;
       if (!acc[date]) {
         acc[date] = {
@@ -240,6 +312,9 @@ export const getFoodEntriesForDateRange = async (startDate: string, endDate: str
           total_fiber: 0,
           total_sugar: 0,
           total_sodium: 0,
+          total_micronutrients: {},
+          estimated_entries: 0,
+          pending_entries: 0,
           entries: [],
         };
       }
@@ -251,6 +326,12 @@ export const getFoodEntriesForDateRange = async (startDate: string, endDate: str
       acc[date].total_fiber += entry.fiber_g || 0;
       acc[date].total_sugar += entry.sugar_g || 0;
       acc[date].total_sodium += entry.sodium_mg || 0;
+      Object.entries(entry.micronutrients || {}).forEach(([key, value]) => {
+        const totals = acc[date].total_micronutrients as Record<string, number>;
+        totals[key] = (totals[key] || 0) + (Number(value) || 0);
+      });
+      if (entry.review_status === 'approved') acc[date].estimated_entries += 1;
+      if (entry.review_status === 'pending') acc[date].pending_entries += 1;
       acc[date].entries.push(entry);
 
       return acc;
@@ -263,8 +344,63 @@ export const getFoodEntriesForDateRange = async (startDate: string, endDate: str
   }
 };
 
-// Create a new food entry
-export const createFoodEntry = async (entryData: Partial<FoodEntry>): Promise<FoodEntry | null> => {
+// A client's entries for a coach, oldest first. Readable only by the
+// client's assigned trainers and nutritionists.
+export const getClientFoodEntries = async (
+  clientId: string,
+  startDate: string,
+  endDate: string
+): Promise<FoodEntry[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('food_entries')
+      .select(`
+        *,
+        meal_type:meal_types(*),
+        photos:food_photos(*),
+        product:food_products(*)
+      `)
+      .eq('user_id', clientId)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date', { ascending: true })
+      .order('time', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching client food entries:', error);
+      return [];
+    }
+
+    return withSignedPhotos(data || []);
+  } catch (error) {
+    console.error('Error in getClientFoodEntries:', error);
+    return [];
+  }
+};
+
+export const getClientNutritionGoals = async (clientId: string): Promise<NutritionGoals | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('nutrition_goals')
+      .select('*')
+      .eq('user_id', clientId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching client nutrition goals:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in getClientNutritionGoals:', error);
+    return null;
+  }
+};
+
+// Create a new food entry. When it was logged from a food, pass the portion:
+// the entry stores the food, the amount and the totals computed from them.
+export const createFoodEntry = async (entryData: Partial<FoodEntry>, portion?: FoodPortion): Promise<FoodEntry | null> => {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return null;
@@ -283,13 +419,15 @@ export const createFoodEntry = async (entryData: Partial<FoodEntry>): Promise<Fo
       .insert({
         user_id: profile.id,
         ...entryData,
+        ...(portion ? portionEntryFields(portion) : {}),
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
       .select(`
         *,
         meal_type:meal_types(*),
-        photos:food_photos(*)
+        photos:food_photos(*),
+        product:food_products(*)
       `)
       .single();
 
@@ -298,6 +436,7 @@ export const createFoodEntry = async (entryData: Partial<FoodEntry>): Promise<Fo
       return null;
     }
 
+    emitDataChange('nutrition');
     return data;
   } catch (error) {
     console.error('Error in createFoodEntry:', error);
@@ -305,20 +444,31 @@ export const createFoodEntry = async (entryData: Partial<FoodEntry>): Promise<Fo
   }
 };
 
-// Update a food entry
-export const updateFoodEntry = async (id: string, entryData: Partial<FoodEntry>): Promise<FoodEntry | null> => {
+// Update a food entry. `portion` replaces the food it was logged from; null
+// unlinks it, leaving the totals in `entryData`, and undefined leaves it as is.
+export const updateFoodEntry = async (
+  id: string,
+  entryData: Partial<FoodEntry>,
+  portion?: FoodPortion | null
+): Promise<FoodEntry | null> => {
   try {
+    const foodFields = portion === undefined
+      ? {}
+      : portion === null ? CLEARED_FOOD_REFERENCE : portionEntryFields(portion);
+
     const { data, error } = await supabase
       .from('food_entries')
       .update({
         ...entryData,
+        ...foodFields,
         updated_at: new Date().toISOString(),
       })
       .eq('id', id)
       .select(`
         *,
         meal_type:meal_types(*),
-        photos:food_photos(*)
+        photos:food_photos(*),
+        product:food_products(*)
       `)
       .single();
 
@@ -327,6 +477,7 @@ export const updateFoodEntry = async (id: string, entryData: Partial<FoodEntry>)
       return null;
     }
 
+    emitDataChange('nutrition');
     return data;
   } catch (error) {
     console.error('Error in updateFoodEntry:', error);
@@ -347,6 +498,7 @@ export const deleteFoodEntry = async (id: string): Promise<boolean> => {
       return false;
     }
 
+    emitDataChange('nutrition');
     return true;
   } catch (error) {
     console.error('Error in deleteFoodEntry:', error);
@@ -354,6 +506,84 @@ export const deleteFoodEntry = async (id: string): Promise<boolean> => {
   }
 };
 
+// What was eaten in an entry, without when or by whom: the columns copied
+// to another day or into a saved meal. Photos and notes stay with the original.
+export const foodEntryContents = (entry: FoodEntry) => ({
+  title: entry.title,
+  description: entry.description || null,
+  catalog_food_id: entry.catalog_food_id ?? null,
+  custom_food_id: entry.custom_food_id ?? null,
+  product_barcode: entry.product_barcode ?? null,
+  recipe_id: entry.recipe_id ?? null,
+  quantity: entry.quantity ?? null,
+  serving_label: entry.serving_label ?? null,
+  serving_grams: entry.serving_grams ?? null,
+  calories: entry.calories || 0,
+  protein_g: entry.protein_g || 0,
+  carbs_g: entry.carbs_g || 0,
+  fat_g: entry.fat_g || 0,
+  fiber_g: entry.fiber_g || 0,
+  sugar_g: entry.sugar_g || 0,
+  sodium_mg: entry.sodium_mg || 0,
+});
+
+// Log entries again on another date, keeping their meal type and time.
+// Returns the new entries, or null if the copy failed.
+export const copyFoodEntries = async (entries: FoodEntry[], date: string): Promise<FoodEntry[] | null> => {
+  try {
+    if (entries.length === 0) return [];
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    // Get user profile first
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!profile) return null;
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('food_entries')
+      .insert(entries.map(entry => ({
+        user_id: profile.id,
+        ...foodEntryContents(entry),
+        micronutrients: entry.micronutrients ?? null,
+        meal_type_id: entry.meal_type_id,
+        time: entry.time,
+        date,
+        created_at: now,
+        updated_at: now,
+      })))
+      .select(`
+        *,
+        meal_type:meal_types(*),
+        photos:food_photos(*),
+        product:food_products(*)
+      `);
+
+    if (error) {
+      console.error('Error copying food entries:', error);
+      return null;
+    }
+
+    emitDataChange('nutrition');
+    return data || [];
+  } catch (error) {
+    console.error('Error in copyFoodEntries:', error);
+    return null;
+  }
+};
+
+// Copy everything logged on one date to another
+export const copyFoodDay = async (fromDate: string, toDate: string): Promise<FoodEntry[] | null> => {
+  const entries = await getFoodEntriesForDate(fromDate);
+  return copyFoodEntries(entries, toDate);
+};
+
 // Add photo to food entry
 export const addFoodPhoto = async (foodEntryId: string, photoData: Partial<FoodPhoto>): Promise<FoodPhoto | null> => {
   try {
@@ -379,6 +609,108 @@ export const addFoodPhoto = async (foodEntryId: string, photoData: Partial<FoodP
   }
 };
 
+const PHOTO_URL_EXPIRY_SECONDS = 60 * 60;
+
+// food-photos is a private bucket, so uploaded photos are shown through
+// short-lived signed URLs. Photos saved before uploads have no path and keep
+// the device URL they were saved with.
+export const signFoodPhotos = async (photos: FoodPhoto[]): Promise<FoodPhoto[]> => {
+  const paths = photos.map(photo => photo.photo_path).filter((path): path is string => !!path);
+  if (paths.length === 0) return photos;
+
+  const { data, error } = await supabase.storage
+    .from('food-photos')
+    .createSignedUrls(paths, PHOTO_URL_EXPIRY_SECONDS);
+
+  if (error) {
+    console.error('Error signing food photo URLs:', error);
+    return photos;
+  }
+
+  const urls = new Map(data.filter(signed => signed.signedUrl).map(signed => [signed.path, signed.signedUrl]));
+  return photos.map(photo => ({
+    ...photo,
+    photo_url: (photo.photo_path && urls.get(photo.photo_path)) || photo.photo_url,
+  }));
+};
+
+// Signs the photos of many entries in one request
+export const withSignedPhotos = async <T extends { photos?: FoodPhoto[] }>(entries: T[]): Promise<T[]> => {
+  const signed = await signFoodPhotos(entries.flatMap(entry => entry.photos || []));
+  let next = 0;
+  return entries.map(entry =>
+    entry.photos ? { ...entry, photos: entry.photos.map(() => signed[next++]) } : entry
+  );
+};
+
+// Upload a photo from the device to the owner's folder in the food-photos
+// bucket, so their nutritionist can see it too
+export const uploadFoodPhoto = async (
+  userId: string,
+  uri: string
+): Promise<Pick<FoodPhoto, 'photo_url' | 'photo_path'> | null> => {
+  try {
+    const base64 = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    const filePath = `${userId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.jpg`;
+    const { error } = await supabase.storage
+      .from('food-photos')
+      .upload(filePath, decode(base64), { contentType: 'image/jpeg' });
+
+    if (error) {
+      console.error('Error uploading food photo:', error);
+      return null;
+    }
+
+    // Shown through a signed URL made from the path when the entry is read
+    return { photo_url: filePath, photo_path: filePath };
+  } catch (error) {
+    console.error('Error in uploadFoodPhoto:', error);
+    return null;
+  }
+};
+
+// Upload photos taken on the device and attach them to an entry. The first
+// one is the primary photo unless the entry already has photos.
+export const attachFoodPhotos = async (entry: FoodEntry, uris: string[]): Promise<FoodPhoto[] | null> => {
+  const photos: FoodPhoto[] = [];
+  for (const uri of uris) {
+    const uploaded = await uploadFoodPhoto(entry.user_id, uri);
+    const photo = uploaded && await addFoodPhoto(entry.id, {
+      ...uploaded,
+      is_primary: !entry.photos?.length && photos.length === 0,
+    });
+    if (!photo) return null;
+    photos.push(photo);
+  }
+  return signFoodPhotos(photos);
+};
+
+// Log a meal with just photos. The entry has no nutrition until the
+// client's nutritionist reviews it (see lib/mealReviews).
+export const logPhotoMeal = async (
+  entryData: Pick<FoodEntry, 'meal_type_id' | 'date' | 'time'> & Partial<Pick<FoodEntry, 'title' | 'notes'>>,
+  uris: string[]
+): Promise<FoodEntry | null> => {
+  const entry = await createFoodEntry({
+    ...entryData,
+    title: entryData.title?.trim() || 'Photo meal',
+    review_status: 'pending',
+  });
+  if (!entry) return null;
+
+  const photos = await attachFoodPhotos(entry, uris);
+  if (!photos) {
+    // A photo meal without its photo can't be reviewed
+    await deleteFoodEntry(entry.id);
+    return null;
+  }
+
+  return { ...entry, photos };
+};
+
 // Delete food photo
 export const deleteFoodPhoto = async (id: string): Promise<boolean> => {
   try {
@@ -0,0 +1,171 @@
+import { supabase } from './supabase';
+import type { TablesInsert } from './supabase';
+import { getCurrentUserProfile } from './database';
+import { FoodProduct, Micronutrients, NutrientValues } from './foods';
+
+export interface NewFoodProduct {
+  barcode: string; // normalized, see normalizeBarcode
+  name: string;
+  brand?: string | null;
+  serving_label?: string | null;
+  serving_grams?: number | null;
+  nutrients: NutrientValues; // per 100 g
+  micronutrients?: Micronutrients; // per 100 g
+}
+
+// Where scanned barcodes are looked up. The food journal only talks to this
+// interface, so the shared product table can be replaced by a fixture.
+export interface ProductLookup {
+  id: string;
+  findByBarcode(barcode: string): Promise<FoodProduct | null>;
+  // Adds a product nobody has scanned before; returns null if it couldn't be saved
+  contribute(product: NewFoodProduct): Promise<FoodProduct | null>;
+}
+
+// Barcode symbologies printed on packaged food
+export const FOOD_BARCODE_TYPES = ['ean13', 'ean8', 'upc_a', 'upc_e'] as const;
+
+const isValidCheckDigit = (digits: string) => {
+  const body = digits.slice(0, -1);
+  const sum = body
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+// UPC-E is a zero-suppressed UPC-A; the last data digit says where the zeros go
+const expandUpcE = (code: string) => {
+  const [system, x1, x2, x3, x4, x5, x6, check] = code.split('');
+  let body: string;
+  if (['0', '1', '2'].includes(x6)) {
+    body = `${x1}${x2}${x6}0000${x3}${x4}${x5}`;
+  } else if (x6 === '3') {
+    body = `${x1}${x2}${x3}00000${x4}${x5}`;
+  } else if (x6 === '4') {
+    body = `${x1}${x2}${x3}${x4}00000${x5}`;
+  } else {
+    body = `${x1}${x2}${x3}${x4}${x5}0000${x6}`;
+  }
+  return `${system}${body}${check}`;
+};
+
+// The key a product is stored under: UPC-A and UPC-E codes become the EAN-13
+// the same pack would carry, EAN-8 stays as it is. Returns null for anything
+// that isn't a valid EAN/UPC code. `type` is the symbology the scanner
+// reported; without it (typed-in codes) an 8-digit code is read as EAN-8 when
+// its check digit fits, otherwise as UPC-E.
+export const normalizeBarcode = (raw: string, type?: string): string | null => {
+  const digits = raw.replace(/\D/g, '');
+  let code: string;
+
+  if (digits.length === 8 && (type === 'upc_e' || (!type && !isValidCheckDigit(digits)))) {
+    if (!['0', '1'].includes(digits[0])) return null;
+    code = `0${expandUpcE(digits)}`;
+  } else if (digits.length === 8 || digits.length === 13) {
+    code = digits;
+  } else if (digits.length === 12) {
+    code = `0${digits}`;
+  } else {
+    return null;
+  }
+
+  return isValidCheckDigit(code) ? code : null;
+};
+
+export const supabaseProductLookup: ProductLookup = {
+  id: 'food_products',
+
+  findByBarcode: async (barcode) => {
+    try {
+      const { data, error } = await supabase
+        .from('food_products')
+        .select('*')
+        .eq('barcode', barcode)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error looking up product:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in findByBarcode:', error);
+      return null;
+    }
+  },
+
+  contribute: async (product) => {
+    try {
+      const profile = await getCurrentUserProfile();
+      if (!profile) return null;
+
+      const row: TablesInsert<'food_products'> = {
+        barcode: product.barcode,
+        name: product.name.trim(),
+        brand: product.brand?.trim() || null,
+        serving_label: product.serving_label?.trim() || null,
+        serving_grams: product.serving_grams || null,
+        ...product.nutrients,
+        micronutrients: product.micronutrients || {},
+        contributed_by: profile.id,
+      };
+
+      const { data, error } = await supabase
+        .from('food_products')
+        .insert(row)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding product:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error in contribute:', error);
+      return null;
+    }
+  },
+};
+
+// In-memory lookup seeded with fixture products, for tests and offline builds
+export const createFixtureProductLookup = (products: FoodProduct[] = []): ProductLookup => {
+  const byBarcode = new Map(products.map(product => [product.barcode, product]));
+
+  return {
+    id: 'fixture',
+
+    findByBarcode: async (barcode) => byBarcode.get(barcode) || null,
+
+    contribute: async (product) => {
+      if (byBarcode.has(product.barcode)) return null;
+      const now = new Date().toISOString();
+      const saved: FoodProduct = {
+        barcode: product.barcode,
+        name: product.name.trim(),
+        brand: product.brand?.trim() || null,
+        serving_label: product.serving_label?.trim() || null,
+        serving_grams: product.serving_grams || null,
+        ...product.nutrients,
+        micronutrients: product.micronutrients || {},
+        contributed_by: null,
+        created_at: now,
+        updated_at: now,
+      };
+      byBarcode.set(saved.barcode, saved);
+      return saved;
+    },
+  };
+};
+
+let productLookup: ProductLookup = supabaseProductLookup;
+
+export const getProductLookup = (): ProductLookup => productLookup;
+
+// Swap the lookup, e.g. for `createFixtureProductLookup` in tests
+export const setProductLookup = (lookup: ProductLookup): void => {
+  productLookup = lookup;
+};
@@ -0,0 +1,482 @@
+import { supabase } from './supabase';
+import type { Tables } from './supabase';
+import { getCurrentUserProfile } from './database';
+import foodData from '@/assets/data/foods.json';
+
+export type FoodSource = 'catalog' | 'custom' | 'product' | 'recipe';
+
+// A packaged product found by barcode (see lib/foodProducts)
+export type FoodProduct = Tables<'food_products'>;
+
+export type NutrientValues = {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+  fiber_g: number;
+  sugar_g: number;
+  sodium_mg: number;
+};
+
+// Optional: only foods whose source lists them carry micronutrients
+export type MicronutrientKey = 'potassium_mg' | 'calcium_mg' | 'iron_mg' | 'vitamin_c_mg' | 'vitamin_d_mcg';
+
+export type Micronutrients = Partial<Record<MicronutrientKey, number>>;
+
+// Daily values are the FDA label references, used when no target is set
+export const MICRONUTRIENTS: { key: MicronutrientKey; label: string; unit: string; dailyValue: number }[] = [
+  { key: 'potassium_mg', label: 'Potassium', unit: 'mg', dailyValue: 4700 },
+  { key: 'calcium_mg', label: 'Calcium', unit: 'mg', dailyValue: 1300 },
+  { key: 'iron_mg', label: 'Iron', unit: 'mg', dailyValue: 18 },
+  { key: 'vitamin_c_mg', label: 'Vitamin C', unit: 'mg', dailyValue: 90 },
+  { key: 'vitamin_d_mcg', label: 'Vitamin D', unit: 'mcg', dailyValue: 20 },
+];
+
+export type FoodServing = {
+  label: string;
+  grams: number;
+};
+
+export interface Food {
+  key: string; // `${source}:${id}`, unique across sources
+  source: FoodSource;
+  id: string;
+  name: string;
+  brand: string | null;
+  category: string | null;
+  nutrients: NutrientValues; // per 100 g
+  micronutrients?: Micronutrients; // per 100 g
+  servings: FoodServing[];
+}
+
+// An amount of a food: `quantity` servings of `serving`
+export interface FoodPortion {
+  food: Food;
+  serving: FoodServing;
+  quantity: number;
+}
+
+// The food columns of a food entry
+export interface FoodReference {
+  catalog_food_id?: string | null;
+  custom_food_id?: string | null;
+  quantity?: number | null;
+  serving_label?: string | null;
+  serving_grams?: number | null;
+  product_barcode?: string | null;
+  recipe_id?: string | null;
+  // The food_products row, when selected alongside the entry
+  product?: FoodProduct | null;
+}
+
+export interface FoodUsage {
+  food: Food;
+  count: number;
+  last_used: string;
+  // The portion logged the last time, to offer it again
+  serving: FoodServing;
+  quantity: number;
+}
+
+export interface CustomFoodInput {
+  name: string;
+  brand?: string | null;
+  nutrients: NutrientValues; // per 100 g
+  micronutrients?: Micronutrients; // per 100 g
+  servings: FoodServing[];
+}
+
+type CatalogFood = NutrientValues & {
+  id: string;
+  name: string;
+  category: string;
+  micronutrients?: Micronutrients;
+  servings: FoodServing[];
+};
+
+const NUTRIENT_KEYS: (keyof NutrientValues)[] = [
+  'calories', 'protein_g', 'carbs_g', 'fat_g', 'fiber_g', 'sugar_g', 'sodium_mg',
+];
+
+// Every food can be logged by weight as well as by its household servings
+export const GRAM_SERVING: FoodServing = { label: 'g', grams: 1 };
+
+// Entries scanned for recent and frequent foods
+const USAGE_WINDOW = 200;
+
+const pickNutrients = (row: any): NutrientValues =>
+  NUTRIENT_KEYS.reduce((values, key) => {
+    values[key] = Number(row[key]) || 0;
+    return values;
+  }, {} as NutrientValues);
+
+// The micronutrients a row lists, skipping blanks
+export const pickMicronutrients = (values: any): Micronutrients =>
+  MICRONUTRIENTS.reduce((picked, { key }) => {
+    const value = values?.[key];
+    if (value !== null && value !== undefined && value !== '' && !isNaN(Number(value))) {
+      picked[key] = Number(value);
+    }
+    return picked;
+  }, {} as Micronutrients);
+
+const withGramServing = (servings: FoodServing[]) =>
+  servings.some(serving => serving.label === GRAM_SERVING.label)
+    ? servings
+    : [...servings, GRAM_SERVING];
+
+// The bundled catalog covers everyday staples only (see `scope` in
+// foods.json); search fills the gaps with the user's saved foods
+export const CATALOG_FOODS: Food[] = (foodData.foods as CatalogFood[]).map((row): Food => ({
+  key: `catalog:${row.id}`,
+  source: 'catalog',
+  id: row.id,
+  name: row.name,
+  brand: null,
+  category: row.category,
+  nutrients: pickNutrients(row),
+  micronutrients: pickMicronutrients(row.micronutrients),
+  servings: withGramServing(row.servings),
+}));
+
+const catalogById = new Map(CATALOG_FOODS.map(food => [food.id, food]));
+
+export const getCatalogFood = (id: string): Food | null => catalogById.get(id) || null;
+
+const toCustomFood = (row: any): Food => ({
+  key: `custom:${row.id}`,
+  source: 'custom',
+  id: row.id,
+  name: row.name,
+  brand: row.brand || null,
+  category: null,
+  nutrients: pickNutrients(row),
+  micronutrients: pickMicronutrients(row.micronutrients),
+  servings: withGramServing(Array.isArray(row.servings) ? row.servings : []),
+});
+
+// Products whose label gives no serving weight are logged by weight only
+export const toProductFood = (product: FoodProduct): Food => ({
+  key: `product:${product.barcode}`,
+  source: 'product',
+  id: product.barcode,
+  name: product.name,
+  brand: product.brand,
+  category: null,
+  nutrients: pickNutrients(product),
+  micronutrients: pickMicronutrients(product.micronutrients),
+  servings: withGramServing(
+    product.serving_grams
+      ? [{ label: product.serving_label || '1 serving', grams: Number(product.serving_grams) }]
+      : []
+  ),
+});
+
+// ---------------------------------------------------------------------------
+// Search
+// ---------------------------------------------------------------------------
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9%]+/g, ' ')
+    .trim();
+
+// Lower is better; null when the food doesn't match every word of the query
+const matchRank = (food: Food, query: string, tokens: string[]): number | null => {
+  const name = normalize(food.name);
+  const haystack = `${name} ${normalize(food.brand || '')} ${normalize(food.category || '')}`;
+  if (!tokens.every(token => haystack.includes(token))) return null;
+
+  if (name.startsWith(query)) return 0;
+  const words = name.split(' ');
+  if (tokens.every(token => words.some(word => word.startsWith(token)))) return 1;
+  if (tokens.every(token => name.includes(token))) return 2;
+  return 3;
+};
+
+// Searches the bundled database and the user's saved foods (custom foods and
+// recipes). Saved foods win ties, then shorter (more generic) names.
+export const searchFoods = (query: string, savedFoods: Food[] = [], limit = 30): Food[] => {
+  const normalized = normalize(query);
+  if (!normalized) return [];
+  const tokens = normalized.split(' ');
+
+  return [...savedFoods, ...CATALOG_FOODS]
+    .map(food => ({ food, rank: matchRank(food, normalized, tokens) }))
+    .filter((match): match is { food: Food; rank: number } => match.rank !== null)
+    .sort((a, b) =>
+      a.rank - b.rank ||
+      (a.food.source === 'catalog' ? 1 : 0) - (b.food.source === 'catalog' ? 1 : 0) ||
+      a.food.name.length - b.food.name.length ||
+      a.food.name.localeCompare(b.food.name)
+    )
+    .slice(0, limit)
+    .map(match => match.food);
+};
+
+// ---------------------------------------------------------------------------
+// Portions
+// ---------------------------------------------------------------------------
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const portionGrams = (portion: Pick<FoodPortion, 'serving' | 'quantity'>) =>
+  portion.serving.grams * portion.quantity;
+
+// Nutrients in `grams` of a food, rounded the way food entries store them
+export const scaleNutrients = (per100g: NutrientValues, grams: number): NutrientValues => {
+  const factor = grams / 100;
+  return {
+    calories: Math.round(per100g.calories * factor),
+    protein_g: roundTo(per100g.protein_g * factor, 1),
+    carbs_g: roundTo(per100g.carbs_g * factor, 1),
+    fat_g: roundTo(per100g.fat_g * factor, 1),
+    fiber_g: roundTo(per100g.fiber_g * factor, 1),
+    sugar_g: roundTo(per100g.sugar_g * factor, 1),
+    sodium_mg: Math.round(per100g.sodium_mg * factor),
+  };
+};
+
+export const portionNutrients = (portion: FoodPortion) =>
+  scaleNutrients(portion.food.nutrients, portionGrams(portion));
+
+export const scaleMicronutrients = (per100g: Micronutrients, grams: number): Micronutrients =>
+  (Object.entries(per100g) as [MicronutrientKey, number][]).reduce((values, [key, value]) => {
+    values[key] = roundTo((value * grams) / 100, 1);
+    return values;
+  }, {} as Micronutrients);
+
+// Null when the food lists none, so entries don't claim a zero they never measured
+export const portionMicronutrients = (portion: FoodPortion): Micronutrients | null => {
+  const scaled = scaleMicronutrients(portion.food.micronutrients || {}, portionGrams(portion));
+  return Object.keys(scaled).length > 0 ? scaled : null;
+};
+
+
+// Custom foods are entered per serving, as printed on a label, and stored per 100 g
+export const nutrientsPer100g = (perServing: NutrientValues, servingGrams: number): NutrientValues =>
+  NUTRIENT_KEYS.reduce((values, key) => {
+    values[key] = servingGrams > 0 ? roundTo((perServing[key] * 100) / servingGrams, 2) : 0;
+    return values;
+  }, {} as NutrientValues);
+
+export const micronutrientsPer100g = (perServing: Micronutrients, servingGrams: number): Micronutrients =>
+  (Object.entries(perServing) as [MicronutrientKey, number][]).reduce((values, [key, value]) => {
+    values[key] = servingGrams > 0 ? roundTo((value * 100) / servingGrams, 2) : 0;
+    return values;
+  }, {} as Micronutrients);
+
+export const formatServing = (portion: Pick<FoodPortion, 'serving' | 'quantity'>) =>
+  portion.serving.label === GRAM_SERVING.label
+    ? `${portion.quantity} g`
+    : `${portion.quantity} × ${portion.serving.label} (${Math.round(portionGrams(portion))} g)`;
+
+// Food entry columns for a portion: the food it came from, the amount and the
+// totals for that amount
+export const portionEntryFields = (portion: FoodPortion) => ({
+  catalog_food_id: portion.food.source === 'catalog' ? portion.food.id : null,
+  custom_food_id: portion.food.source === 'custom' ? portion.food.id : null,
+  product_barcode: portion.food.source === 'product' ? portion.food.id : null,
+  recipe_id: portion.food.source === 'recipe' ? portion.food.id : null,
+  quantity: portion.quantity,
+  serving_label: portion.serving.label,
+  serving_grams: portion.serving.grams,
+  ...portionNutrients(portion),
+  micronutrients: portionMicronutrients(portion),
+});
+
+export const CLEARED_FOOD_REFERENCE: Required<Omit<FoodReference, 'product'>> = {
+  catalog_food_id: null,
+  custom_food_id: null,
+  product_barcode: null,
+  recipe_id: null,
+  quantity: null,
+  serving_label: null,
+  serving_grams: null,
+};
+
+// Whether an entry was logged from a food rather than typed in
+export const hasFoodReference = (reference: FoodReference) =>
+  Boolean(
+    reference.catalog_food_id ||
+    reference.custom_food_id ||
+    reference.product_barcode ||
+    reference.recipe_id
+  );
+
+// `savedFoods` are the user's custom foods and the recipes they can see
+export const findReferencedFood = (reference: FoodReference, savedFoods: Food[]): Food | null => {
+  if (reference.catalog_food_id) return getCatalogFood(reference.catalog_food_id);
+  if (reference.product_barcode) return reference.product ? toProductFood(reference.product) : null;
+  if (reference.custom_food_id) {
+    return savedFoods.find(food => food.source === 'custom' && food.id === reference.custom_food_id) || null;
+  }
+  if (reference.recipe_id) {
+    return savedFoods.find(food => food.source === 'recipe' && food.id === reference.recipe_id) || null;
+  }
+  return null;
+};
+
+// The portion a food entry was logged as, or null for free-form entries and
+// entries whose custom food or recipe is gone. Product entries need the
+// product selected with them.
+export const getReferencedPortion = (reference: FoodReference, savedFoods: Food[]): FoodPortion | null => {
+  const food = findReferencedFood(reference, savedFoods);
+  if (!food || !reference.quantity) return null;
+
+  const serving =
+    food.servings.find(option => option.label === reference.serving_label) ||
+    (reference.serving_label && reference.serving_grams
+      ? { label: reference.serving_label, grams: reference.serving_grams }
+      : GRAM_SERVING);
+
+  return { food, serving, quantity: reference.quantity };
+};
+
+// ---------------------------------------------------------------------------
+// Custom foods
+// ---------------------------------------------------------------------------
+
+export const getCustomFoods = async (): Promise<Food[]> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return [];
+
+    const { data, error } = await supabase
+      .from('custom_foods')
+      .select('*')
+      .eq('created_by', profile.id)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching custom foods:', error);
+      return [];
+    }
+
+    return (data || []).map(toCustomFood);
+  } catch (error) {
+    console.error('Error in getCustomFoods:', error);
+    return [];
+  }
+};
+
+export const createCustomFood = async (input: CustomFoodInput): Promise<Food | null> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return null;
+
+    const { data, error } = await supabase
+      .from('custom_foods')
+      .insert({
+        created_by: profile.id,
+        name: input.name.trim(),
+        brand: input.brand?.trim() || null,
+        ...input.nutrients,
+        micronutrients: input.micronutrients || {},
+        servings: input.servings.filter(serving => serving.label !== GRAM_SERVING.label),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating custom food:', error);
+      return null;
+    }
+
+    return toCustomFood(data);
+  } catch (error) {
+    console.error('Error in createCustomFood:', error);
+    return null;
+  }
+};
+
+// Entries logged from the food keep their totals; only the link is cleared
+export const deleteCustomFood = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('custom_foods')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting custom food:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteCustomFood:', error);
+    return false;
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Recent and frequent foods
+// ---------------------------------------------------------------------------
+
+// Foods the user logged most recently and most often, from their latest
+// entries. Frequent only lists foods logged more than once.
+export const getFoodUsage = async (
+  savedFoods: Food[],
+  limit = 10
+): Promise<{ recent: FoodUsage[]; frequent: FoodUsage[] }> => {
+  const empty = { recent: [], frequent: [] };
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return empty;
+
+    const { data, error } = await supabase
+      .from('food_entries')
+      .select(`
+        catalog_food_id, custom_food_id, product_barcode, recipe_id, quantity, serving_label, serving_grams, created_at,
+        product:food_products(*)
+      `)
+      .eq('user_id', profile.id)
+      .or('catalog_food_id.not.is.null,custom_food_id.not.is.null,product_barcode.not.is.null,recipe_id.not.is.null')
+      .order('created_at', { ascending: false })
+      .limit(USAGE_WINDOW);
+
+    if (error) {
+      console.error('Error fetching food usage:', error);
+      return empty;
+    }
+
+    // Rows are newest first, so the first row seen for a food is its latest use
+    const usage = new Map<string, FoodUsage>();
+    (data || []).forEach((row: any) => {
+      const portion = getReferencedPortion(row, savedFoods);
+      if (!portion) return;
+
+      const existing = usage.get(portion.food.key);
+      if (existing) {
+        existing.count += 1;
+        return;
+      }
+      usage.set(portion.food.key, {
+        food: portion.food,
+        count: 1,
+        last_used: row.created_at,
+        serving: portion.serving,
+        quantity: portion.quantity,
+      });
+    });
+
+    const foods = Array.from(usage.values());
+    return {
+      recent: foods.slice(0, limit),
+      frequent: foods
+        .filter(food => food.count > 1)
+        .sort((a, b) => b.count - a.count || b.last_used.localeCompare(a.last_used))
+        .slice(0, limit),
+    };
+  } catch (error) {
+    console.error('Error in getFoodUsage:', error);
+    return empty;
+  }
+};
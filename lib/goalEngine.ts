@@ -0,0 +1,254 @@
+import { supabase } from './supabase';
+import type { TablesUpdate } from './supabase';
+import { getCurrentUserProfile } from './database';
+import { DataChangeKind, onDataChange } from './dataEvents';
+import { getGoalSource, getGoalUnit, GOAL_SOURCES } from './goalSources';
+import { getNotificationPreferences } from './notifications';
+import { toLocalDateString } from './stepIngestion';
+import { cancelGoalNotifications, presentGoalCompletedNotification } from '@/utils/notificationService';
+import { GoalEvaluation, GoalPoint, GoalSourceFields } from '@/types/goals';
+
+export type GoalTable = 'goals' | 'client_goals';
+
+// The row shape both goal tables share as far as the engine is concerned
+export interface EvaluableGoal extends GoalSourceFields {
+  id: string;
+  title: string;
+  emoji?: string;
+  status: string;
+  target_date?: string | null;
+  progress_percentage?: number | null;
+  unit?: string | null;
+  created_at: string;
+}
+
+// What an evaluation writes back. Both tables have these columns, except
+// `unit`, which only goals has and only goals are given.
+type GoalEvaluationUpdate = TablesUpdate<'goals'> & TablesUpdate<'client_goals'>;
+
+// Days of history the trend is fitted over
+const TREND_WINDOW_DAYS = 28;
+
+// Data changes often come in bursts (a whole workout, a day of food)
+const EVALUATION_DEBOUNCE_MS = 1500;
+
+const DAY_MS = 86400000;
+
+const dayNumber = (date: string) => Math.round(new Date(`${date}T00:00:00`).getTime() / DAY_MS);
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00`);
+  result.setDate(result.getDate() + days);
+  return toLocalDateString(result);
+};
+
+// Share of the way from start to target, 0-100. Works for goals that go down (weight loss) too.
+export const computeProgress = (start: number | null, current: number | null, target: number | null): number => {
+  if (start === null || current === null || target === null) return 0;
+  if (target === start) return current === target ? 100 : 0;
+  const ratio = (current - start) / (target - start);
+  return Math.round(Math.min(Math.max(ratio, 0), 1) * 100);
+};
+
+// Least-squares slope in units per day
+const trendPerDay = (points: GoalPoint[]): number | null => {
+  if (points.length < 2) return null;
+  const xs = points.map(point => dayNumber(point.date));
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = points.reduce((sum, point) => sum + point.value, 0) / points.length;
+
+  let covariance = 0;
+  let variance = 0;
+  points.forEach((point, index) => {
+    covariance += (xs[index] - meanX) * (point.value - meanY);
+    variance += (xs[index] - meanX) ** 2;
+  });
+  return variance === 0 ? null : covariance / variance;
+};
+
+// Progress and trajectory for a goal from its source data. Manual goals and
+// goals without a target have no source to read, so they get null.
+export const computeGoalEvaluation = async (
+  goal: EvaluableGoal,
+  profileId: string
+): Promise<GoalEvaluation | null> => {
+  const source = getGoalSource(goal.source_type);
+  if (!source || goal.target_value == null) return null;
+
+  const since = toLocalDateString(new Date(goal.created_at));
+  const today = toLocalDateString(new Date());
+  const series = await source.loadSeries(profileId, goal, since);
+  const latest = series.length > 0 ? series[series.length - 1].value : null;
+
+  const target = Number(goal.target_value);
+  const currentValue = latest ?? source.baseline ?? null;
+  const startValue = goal.start_value != null ? Number(goal.start_value) : source.baseline ?? series[0]?.value ?? null;
+  const progress = computeProgress(startValue, currentValue, target);
+  const completed = currentValue !== null && startValue !== null && progress >= 100;
+
+  // Carry the latest value to today so a stalled trend flattens out
+  const windowStart = addDays(today, -TREND_WINDOW_DAYS);
+  const recent = series.filter(point => point.date >= windowStart);
+  if (currentValue !== null && recent[recent.length - 1]?.date !== today) {
+    recent.push({ date: today, value: currentValue });
+  }
+  const ratePerDay = source.projectionRate ?? trendPerDay(recent);
+
+  let projectedCompletion: string | null = null;
+  if (completed) {
+    projectedCompletion = today;
+  } else if (currentValue !== null && ratePerDay) {
+    const daysToGo = (target - currentValue) / ratePerDay;
+    if (daysToGo > 0 && isFinite(daysToGo)) {
+      projectedCompletion = addDays(today, Math.ceil(daysToGo));
+    }
+  }
+
+  let onTrack: boolean | null = null;
+  if (completed) {
+    onTrack = true;
+  } else if (goal.target_date && ratePerDay !== null) {
+    onTrack = projectedCompletion !== null && projectedCompletion <= goal.target_date.slice(0, 10);
+  }
+
+  return { currentValue, startValue, progress, completed, series, ratePerDay, projectedCompletion, onTrack };
+};
+
+const notifyGoalCompleted = async (goal: EvaluableGoal) => {
+  await cancelGoalNotifications(goal.id);
+
+  const preferences = await getNotificationPreferences();
+  if (preferences.goal.push) {
+    await presentGoalCompletedNotification(goal.id, goal.title, goal.emoji || '🎯');
+  }
+};
+
+// Evaluate one goal and, while it's active, write the result back. A goal that
+// reaches its target is completed and its countdown reminders are cancelled.
+export const evaluateGoal = async (
+  table: GoalTable,
+  goal: EvaluableGoal,
+  profileId: string
+): Promise<GoalEvaluation | null> => {
+  try {
+    const evaluation = await computeGoalEvaluation(goal, profileId);
+    if (!evaluation || goal.status !== 'active') return evaluation;
+
+    const changed =
+      evaluation.currentValue !== (goal.current_value == null ? null : Number(goal.current_value)) ||
+      evaluation.progress !== goal.progress_percentage ||
+      (goal.start_value == null && evaluation.startValue !== null) ||
+      evaluation.completed;
+    if (!changed) return evaluation;
+
+    const now = new Date().toISOString();
+    const updates: GoalEvaluationUpdate = {
+      current_value: evaluation.currentValue,
+      progress_percentage: evaluation.progress,
+      last_evaluated_at: now,
+      updated_at: now,
+    };
+    if (goal.start_value == null && evaluation.startValue !== null) {
+      updates.start_value = evaluation.startValue;
+    }
+    if (table === 'goals' && !goal.unit) {
+      updates.unit = getGoalUnit(goal);
+    }
+    if (evaluation.completed) {
+      updates.status = 'completed';
+      updates.completed_at = now;
+    }
+
+    const { error } = await supabase.from(table).update(updates).eq('id', goal.id);
+    if (error) {
+      console.error('Error saving goal evaluation:', error);
+      return evaluation;
+    }
+
+    if (evaluation.completed) {
+      await notifyGoalCompleted(goal);
+    }
+    return evaluation;
+  } catch (error) {
+    console.error('Error in evaluateGoal:', error);
+    return null;
+  }
+};
+
+const getActiveLinkedGoals = async (table: GoalTable, ownerColumn: string, profileId: string) => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq(ownerColumn, profileId)
+    .eq('status', 'active')
+    .neq('source_type', 'manual');
+
+  if (error) {
+    console.error(`Error fetching ${table} for evaluation:`, error);
+    return [];
+  }
+  return (data || []) as EvaluableGoal[];
+};
+
+// Re-evaluate the signed-in user's linked goals, optionally only those fed by
+// `kinds` of data. Returns how many goals were completed.
+export const evaluateGoals = async (options: { kinds?: DataChangeKind[] } = {}): Promise<number> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return 0;
+
+    const sourceIds = Object.values(GOAL_SOURCES)
+      .filter(source => !options.kinds || source!.triggers.some(kind => options.kinds!.includes(kind)))
+      .map(source => source!.id);
+    if (sourceIds.length === 0) return 0;
+
+    const [goals, clientGoals] = await Promise.all([
+      getActiveLinkedGoals('goals', 'user_id', profile.id),
+      getActiveLinkedGoals('client_goals', 'client_id', profile.id),
+    ]);
+
+    let completed = 0;
+    const queue: [GoalTable, EvaluableGoal][] = [
+      ...goals.map(goal => ['goals', goal] as [GoalTable, EvaluableGoal]),
+      ...clientGoals.map(goal => ['client_goals', goal] as [GoalTable, EvaluableGoal]),
+    ];
+    for (const [table, goal] of queue) {
+      if (!sourceIds.includes(goal.source_type)) continue;
+      const evaluation = await evaluateGoal(table, goal, profile.id);
+      if (evaluation?.completed) completed++;
+    }
+    return completed;
+  } catch (error) {
+    console.error('Error in evaluateGoals:', error);
+    return 0;
+  }
+};
+
+let evaluationChain: Promise<unknown> = Promise.resolve();
+
+// Keep goals in step with logged data for as long as the app is open. Changes
+// are batched so a run covers every kind of data that changed meanwhile.
+export const startGoalEvaluation = (): (() => void) => {
+  const pending = new Set<DataChangeKind>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const run = () => {
+    timer = null;
+    const kinds = Array.from(pending);
+    pending.clear();
+    evaluationChain = evaluationChain.then(() => evaluateGoals({ kinds }));
+  };
+
+  const unsubscribe = onDataChange(kind => {
+    pending.add(kind);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(run, EVALUATION_DEBOUNCE_MS);
+  });
+
+  evaluationChain = evaluationChain.then(() => evaluateGoals());
+
+  return () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+  };
+};
@@ -0,0 +1,232 @@
+import { supabase } from './supabase';
+import { DataChangeKind } from './dataEvents';
+import { getMeasurementEntries } from './metricsRepository';
+import { aggregateMetricEntriesByDay, getMetricDefinition } from './metricRegistry';
+import { getDailyStepTotals, toLocalDateString } from './stepIngestion';
+import { getClientFoodEntries, getClientNutritionGoals } from './foodJournal';
+import { convertMetricInput, formatMetricForDisplay, fromCanonical, getMetricUnit, getPreferredUnit, toCanonical } from './units';
+import { calculateSessionVolume } from '@/utils/workoutUtils';
+import { GoalPoint, GoalSourceFields, GoalSourceType } from '@/types/goals';
+import { MetricEntry } from '@/types/metrics';
+import { UnitQuantity, UnitSystem } from '@/types/units';
+import { WorkoutSession } from '@/types/workout';
+
+// Where a goal's progress comes from. The engine only talks to this interface,
+// so a new kind of goal is a new entry in GOAL_SOURCES.
+export interface GoalSource {
+  id: GoalSourceType;
+  name: string;
+  description: string;
+  unit?: string; // metric goals use the metric's unit
+  // Values are stored in this quantity's canonical unit and shown in the user's units
+  quantity?: UnitQuantity;
+  // Where progress starts from; without one it's the first reading since the goal was set
+  baseline?: number;
+  // Fixed daily rate used for projections instead of the recent trend
+  projectionRate?: number;
+  // Data changes that should re-evaluate goals on this source
+  triggers: DataChangeKind[];
+  // Source value per local day from `since` (YYYY-MM-DD) to today, oldest first
+  loadSeries(profileId: string, goal: GoalSourceFields, since: string): Promise<GoalPoint[]>;
+}
+
+// Logged calories within this share of the daily target count as on target
+export const NUTRITION_ADHERENCE_TOLERANCE = 0.1;
+
+const eachDay = (since: string): string[] => {
+  const days: string[] = [];
+  const day = new Date(`${since}T00:00:00`);
+  const today = toLocalDateString(new Date());
+  while (toLocalDateString(day) <= today) {
+    days.push(toLocalDateString(day));
+    day.setDate(day.getDate() + 1);
+  }
+  return days;
+};
+
+const cumulate = (daily: GoalPoint[]): GoalPoint[] => {
+  let total = 0;
+  return daily.map(point => ({ date: point.date, value: (total += point.value) }));
+};
+
+const getCompletedWorkouts = async (profileId: string, since: string) => {
+  const { data, error } = await supabase
+    .from('workout_sessions')
+    .select('date, exercises')
+    .eq('client_id', profileId)
+    .eq('completed', true)
+    .gte('date', since)
+    .order('date', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+  return (data || []) as Pick<WorkoutSession, 'date' | 'exercises'>[];
+};
+
+const sumByDay = (rows: { date: string; value: number }[]): GoalPoint[] => {
+  const byDay = new Map<string, number>();
+  rows.forEach(row => byDay.set(row.date, (byDay.get(row.date) || 0) + row.value));
+  return Array.from(byDay.entries()).map(([date, value]) => ({ date, value }));
+};
+
+const metricSource: GoalSource = {
+  id: 'metric',
+  name: 'Body metric',
+  description: 'Reach a weight, body fat or measurement',
+  triggers: ['metric'],
+
+  async loadSeries(profileId, goal, since) {
+    if (!goal.source_metric) return [];
+
+    const entries = await getMeasurementEntries(profileId);
+    if (!entries) {
+      throw new Error('Could not load measurements');
+    }
+
+    const metricEntries: MetricEntry[] = entries
+      .filter(entry => entry.metricKey === goal.source_metric)
+      .map(entry => ({
+        id: entry.id,
+        value: entry.value,
+        unit: getMetricDefinition(goal.source_metric!)?.unit || '',
+        date: entry.measuredAt,
+        time: '',
+      }));
+
+    const daily = aggregateMetricEntriesByDay(goal.source_metric, metricEntries).map(point => ({
+      date: toLocalDateString(new Date(point.date)),
+      value: point.value,
+    }));
+
+    // The last reading before the goal was set is where it started from
+    const before = daily.filter(point => point.date < since);
+    const after = daily.filter(point => point.date >= since);
+    return before.length > 0 ? [{ date: since, value: before[before.length - 1].value }, ...after] : after;
+  },
+};
+
+const workoutCountSource: GoalSource = {
+  id: 'workout_count',
+  name: 'Workouts completed',
+  description: 'Finish a number of workouts',
+  unit: 'workouts',
+  baseline: 0,
+  triggers: ['workout'],
+
+  async loadSeries(profileId, _goal, since) {
+    const workouts = await getCompletedWorkouts(profileId, since);
+    return cumulate(sumByDay(workouts.map(workout => ({ date: workout.date, value: 1 }))));
+  },
+};
+
+const workoutVolumeSource: GoalSource = {
+  id: 'workout_volume',
+  name: 'Volume lifted',
+  description: 'Lift a total weight across your workouts',
+  unit: 'kg',
+  quantity: 'mass',
+  baseline: 0,
+  triggers: ['workout'],
+
+  async loadSeries(profileId, _goal, since) {
+    const workouts = await getCompletedWorkouts(profileId, since);
+    return cumulate(
+      sumByDay(workouts.map(workout => ({ date: workout.date, value: calculateSessionVolume(workout as WorkoutSession) })))
+    );
+  },
+};
+
+const stepsSource: GoalSource = {
+  id: 'steps',
+  name: 'Steps walked',
+  description: 'Walk a total number of steps',
+  unit: 'steps',
+  baseline: 0,
+  triggers: ['steps'],
+
+  async loadSeries(profileId, _goal, since) {
+    const totals = await getDailyStepTotals(profileId, since);
+    return cumulate(totals.map(day => ({ date: day.date, value: day.steps })));
+  },
+};
+
+const nutritionStreakSource: GoalSource = {
+  id: 'nutrition_streak',
+  name: 'Nutrition streak',
+  description: 'Stay on your calorie target for days in a row',
+  unit: 'days',
+  baseline: 0,
+  projectionRate: 1,
+  triggers: ['nutrition'],
+
+  async loadSeries(profileId, _goal, since) {
+    const targets = await getClientNutritionGoals(profileId);
+    if (!targets?.daily_calories) return [];
+
+    const today = toLocalDateString(new Date());
+    const entries = await getClientFoodEntries(profileId, since, today);
+    const caloriesByDay = new Map<string, number>();
+    entries.forEach(entry => {
+      caloriesByDay.set(entry.date, (caloriesByDay.get(entry.date) || 0) + (entry.calories || 0));
+    });
+
+    let streak = 0;
+    return eachDay(since).map(date => {
+      const calories = caloriesByDay.get(date);
+      const onTarget =
+        calories !== undefined &&
+        Math.abs(calories - targets.daily_calories) <= targets.daily_calories * NUTRITION_ADHERENCE_TOLERANCE;
+
+      // Today isn't over, so missing it doesn't break the streak yet
+      if (onTarget) streak += 1;
+      else if (date !== today) streak = 0;
+      return { date, value: streak };
+    });
+  },
+};
+
+export const GOAL_SOURCES: Partial<Record<GoalSourceType, GoalSource>> = {
+  metric: metricSource,
+  workout_count: workoutCountSource,
+  workout_volume: workoutVolumeSource,
+  steps: stepsSource,
+  nutrition_streak: nutritionStreakSource,
+};
+
+export const getGoalSource = (id: GoalSourceType | null | undefined): GoalSource | undefined =>
+  id ? GOAL_SOURCES[id] : undefined;
+
+export const getGoalUnit = (goal: GoalSourceFields): string => {
+  if (goal.source_type === 'metric' && goal.source_metric) {
+    return getMetricDefinition(goal.source_metric)?.unit || '';
+  }
+  return getGoalSource(goal.source_type)?.unit || '';
+};
+
+// Unit the goal's values are shown and typed in for `system`
+export const getGoalDisplayUnit = (goal: GoalSourceFields, system: UnitSystem): string => {
+  if (goal.source_type === 'metric' && goal.source_metric) {
+    return getMetricUnit(goal.source_metric, system);
+  }
+  const quantity = getGoalSource(goal.source_type)?.quantity;
+  return quantity ? getPreferredUnit(quantity, system) : getGoalUnit(goal);
+};
+
+export const formatGoalValue = (goal: GoalSourceFields, value: number, system: UnitSystem): string => {
+  if (goal.source_type === 'metric' && goal.source_metric) {
+    return formatMetricForDisplay(goal.source_metric, value, system);
+  }
+  const quantity = getGoalSource(goal.source_type)?.quantity;
+  const shown = quantity ? fromCanonical(value, quantity, getPreferredUnit(quantity, system)) : value;
+  return Math.round(shown).toLocaleString();
+};
+
+// A target typed in the user's units, as stored
+export const convertGoalInput = (goal: GoalSourceFields, value: number, system: UnitSystem): number => {
+  if (goal.source_type === 'metric' && goal.source_metric) {
+    return convertMetricInput(goal.source_metric, value, getMetricUnit(goal.source_metric, system));
+  }
+  const quantity = getGoalSource(goal.source_type)?.quantity;
+  return quantity ? toCanonical(value, quantity, getPreferredUnit(quantity, system)) : value;
+};
@@ -0,0 +1,190 @@
+import { supabase } from './supabase';
+import { startOfHour } from './stepSources';
+import { rollUpDailySteps, toLocalDateString } from './stepIngestion';
+import { getMetrics, addMetricEntry } from '@/utils/metricsStorage';
+import { HealthMetricType, HealthSample, ImportSummary } from '@/types/integrations';
+import { MetricType } from '@/types/metrics';
+import { validateMetricValue } from './metricRegistry';
+
+// Point readings go to the metrics store. Water goes there too, next to the
+// glasses logged in the food journal, so the journal's total includes it.
+const METRIC_STORE_KEYS: Partial<Record<HealthMetricType, MetricType>> = {
+  weight: 'weight',
+  body_fat: 'body_fat',
+  heart_rate: 'heart_rate',
+  water_intake: 'water_intake',
+};
+
+// Daily totals are stored per source and rolled up into daily_stats, in the column's unit
+const DAILY_STATS_COLUMNS: Partial<Record<HealthMetricType, { column: string; scale: number }>> = {
+  active_calories: { column: 'calories_burned', scale: 1 },
+  sleep_hours: { column: 'sleep_hours', scale: 1 },
+};
+
+const importMetricSamples = async (samples: HealthSample[]): Promise<{ added: number; skipped: number }> => {
+  let added = 0;
+  let skipped = 0;
+  if (samples.length === 0) return { added, skipped };
+
+  const metrics = await getMetrics();
+
+  for (const sample of samples) {
+    const key = METRIC_STORE_KEYS[sample.type]!;
+    const time = sample.startDate.getTime();
+
+    const outOfRange = validateMetricValue(key, sample.value) !== null;
+    const alreadyImported = metrics[key]?.entries.some(
+      entry => new Date(entry.date).getTime() === time && entry.value === sample.value
+    );
+    if (outOfRange || alreadyImported) {
+      skipped++;
+      continue;
+    }
+
+    await addMetricEntry(key, sample.value, sample.startDate.toISOString());
+    added++;
+  }
+
+  return { added, skipped };
+};
+
+// Steps are bucketed by the hour they started in. Each hour's count replaces
+// what this source stored for it before, so importing a window again (a
+// retried sync) leaves the same totals.
+const importStepSamples = async (profileId: string, source: string, samples: HealthSample[]): Promise<number> => {
+  const byHour = new Map<string, number>();
+  samples.forEach(sample => {
+    const hour = startOfHour(sample.startDate).toISOString();
+    byHour.set(hour, (byHour.get(hour) || 0) + Math.max(Math.round(sample.value), 0));
+  });
+  if (byHour.size === 0) return 0;
+
+  const { error } = await supabase
+    .from('step_samples')
+    .upsert(
+      Array.from(byHour.entries()).map(([hour, steps]) => ({
+        user_id: profileId,
+        source,
+        hour_start: hour,
+        steps,
+      })),
+      { onConflict: 'user_id,source,hour_start' }
+    );
+
+  if (error) {
+    throw new Error(`Couldn't save steps: ${error.message}`);
+  }
+
+  const dates = Array.from(new Set(Array.from(byHour.keys()).map(hour => toLocalDateString(new Date(hour)))));
+  await rollUpDailySteps(profileId, dates);
+
+  return byHour.size;
+};
+
+// sleep_hours is decimal(3,1); the others are integers
+const roundForColumn = (column: string, value: number) =>
+  column === 'sleep_hours' ? Math.round(value * 10) / 10 : Math.round(value);
+
+// Roll every source's stored totals up into daily_stats for the given dates.
+// Like steps, overlapping sources are not summed; each metric takes the highest.
+const rollUpDailyTotals = async (profileId: string, dates: string[]): Promise<void> => {
+  const { data, error } = await supabase
+    .from('health_daily_totals')
+    .select('date, metric, value')
+    .eq('user_id', profileId)
+    .in('date', dates);
+
+  if (error) {
+    throw new Error(`Couldn't read daily totals: ${error.message}`);
+  }
+
+  const byDate = new Map<string, Record<string, number>>();
+  (data || []).forEach(row => {
+    const day = byDate.get(row.date) || {};
+    day[row.metric] = Math.max(day[row.metric] || 0, Number(row.value));
+    byDate.set(row.date, day);
+  });
+  if (byDate.size === 0) return;
+
+  const rows = Array.from(byDate.entries()).map(([date, day]) => {
+    const row: Record<string, any> = { user_id: profileId, date, updated_at: new Date().toISOString() };
+    Object.entries(day).forEach(([column, value]) => {
+      row[column] = roundForColumn(column, value);
+    });
+    return row;
+  });
+
+  const { error: upsertError } = await supabase
+    .from('daily_stats')
+    .upsert(rows, { onConflict: 'user_id,date' });
+
+  if (upsertError) {
+    throw new Error(`Couldn't save daily stats: ${upsertError.message}`);
+  }
+};
+
+// Sleep counts toward the day it ended on; everything else toward the day it
+// started. Each day's total replaces what this source stored for it before.
+const importDailyTotals = async (profileId: string, source: string, samples: HealthSample[]): Promise<number> => {
+  const totals = new Map<string, Record<string, number>>();
+  samples.forEach(sample => {
+    const target = DAILY_STATS_COLUMNS[sample.type]!;
+    const date = toLocalDateString(sample.type === 'sleep_hours' ? sample.endDate : sample.startDate);
+    const day = totals.get(date) || {};
+    day[target.column] = (day[target.column] || 0) + sample.value * target.scale;
+    totals.set(date, day);
+  });
+  if (totals.size === 0) return 0;
+
+  const rows = Array.from(totals.entries()).flatMap(([date, day]) =>
+    Object.entries(day).map(([metric, value]) => ({
+      user_id: profileId,
+      source,
+      date,
+      metric,
+      value: roundForColumn(metric, value),
+    }))
+  );
+
+  const { error } = await supabase
+    .from('health_daily_totals')
+    .upsert(rows, { onConflict: 'user_id,source,date,metric' });
+
+  if (error) {
+    throw new Error(`Couldn't save daily totals: ${error.message}`);
+  }
+
+  await rollUpDailyTotals(profileId, Array.from(totals.keys()));
+  return totals.size;
+};
+
+// Write normalized samples from `source` into the metrics and activity stores.
+// Hourly steps and daily totals are replaced, not added to, so callers pass
+// every sample for each day they touch (syncIntegration fetches whole days).
+// Point readings are de-duplicated by timestamp and value. Importing the same
+// samples twice leaves the stores unchanged, so a failed sync can simply be
+// retried: this throws if any store can't be written, and the caller keeps its
+// cursor and fetches the samples again next time.
+export const importHealthSamples = async (
+  profileId: string,
+  source: string,
+  samples: HealthSample[]
+): Promise<ImportSummary> => {
+  const summary: ImportSummary = { metrics: 0, stepHours: 0, activityDays: 0, skipped: 0 };
+
+  const valid = samples.filter(sample => isFinite(sample.value) && sample.value >= 0);
+  summary.skipped += samples.length - valid.length;
+
+  const metricSamples = valid.filter(sample => METRIC_STORE_KEYS[sample.type]);
+  const stepSamples = valid.filter(sample => sample.type === 'steps');
+  const dailySamples = valid.filter(sample => DAILY_STATS_COLUMNS[sample.type]);
+
+  const metrics = await importMetricSamples(metricSamples);
+  summary.metrics = metrics.added;
+  summary.skipped += metrics.skipped;
+
+  summary.stepHours = await importStepSamples(profileId, source, stepSamples);
+  summary.activityDays = await importDailyTotals(profileId, source, dailySamples);
+
+  return summary;
+};
@@ -0,0 +1,203 @@
+import { supabase } from './supabase';
+import { getCurrentUserProfile } from './database';
+import { IntegrationProvider, fileImportProvider, mockHealthProvider } from './integrationProviders';
+import { importHealthSamples } from './healthImporter';
+import { HealthIntegration, ImportSummary } from '@/types/integrations';
+
+const providers = new Map<string, IntegrationProvider>();
+
+export const registerIntegrationProvider = (provider: IntegrationProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const getIntegrationProvider = (id: string): IntegrationProvider | undefined => providers.get(id);
+
+export const getIntegrationProviders = (): IntegrationProvider[] => Array.from(providers.values());
+
+registerIntegrationProvider(fileImportProvider);
+if (__DEV__) {
+  registerIntegrationProvider(mockHealthProvider);
+}
+
+export const getHealthIntegrations = async (): Promise<HealthIntegration[]> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return [];
+
+    const { data, error } = await supabase
+      .from('health_integrations')
+      .select('*')
+      .eq('user_id', profile.id);
+
+    if (error) {
+      console.error('Error fetching health integrations:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getHealthIntegrations:', error);
+    return [];
+  }
+};
+
+const getHealthIntegration = async (profileId: string, providerId: string): Promise<HealthIntegration | null> => {
+  const { data, error } = await supabase
+    .from('health_integrations')
+    .select('*')
+    .eq('user_id', profileId)
+    .eq('provider', providerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching health integration:', error);
+    return null;
+  }
+
+  return data;
+};
+
+// Authorize with the provider and record the connection. A reconnect keeps the
+// previous sync cursor so already-imported data isn't imported twice.
+export const connectIntegration = async (providerId: string): Promise<HealthIntegration | null> => {
+  try {
+    const provider = providers.get(providerId);
+    const profile = await getCurrentUserProfile();
+    if (!provider || !profile) return null;
+
+    if (!(await provider.isAvailable())) return null;
+
+    const credentials = await provider.authorize();
+    if (!credentials) return null;
+
+    const { data, error } = await supabase
+      .from('health_integrations')
+      .upsert(
+        {
+          user_id: profile.id,
+          provider: provider.id,
+          status: 'connected',
+          credentials,
+          last_error: null,
+          connected_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,provider' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving health integration:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in connectIntegration:', error);
+    return null;
+  }
+};
+
+export const disconnectIntegration = async (providerId: string): Promise<boolean> => {
+  try {
+    const provider = providers.get(providerId);
+    const profile = await getCurrentUserProfile();
+    if (!provider || !profile) return false;
+
+    const integration = await getHealthIntegration(profile.id, providerId);
+    if (!integration) return true;
+
+    try {
+      await provider.revoke(integration.credentials ?? null);
+    } catch (error) {
+      // Still forget the credentials locally even if the provider can't be reached
+      console.error('Error revoking integration:', error);
+    }
+
+    const { error } = await supabase
+      .from('health_integrations')
+      .update({ status: 'disconnected', credentials: null })
+      .eq('id', integration.id);
+
+    if (error) {
+      console.error('Error disconnecting health integration:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in disconnectIntegration:', error);
+    return false;
+  }
+};
+
+// The importer replaces whole hours and days, so a sync re-fetches the local
+// day the previous one stopped in instead of starting at the cursor itself
+const fetchStart = (cursor: string | null): string | null => {
+  if (!cursor) return null;
+  const dayStart = new Date(cursor);
+  dayStart.setHours(0, 0, 0, 0);
+  return dayStart.toISOString();
+};
+
+// Fetch everything since the start of the stored cursor's day, import it, then
+// advance the cursor. The cursor only moves once the import has been written:
+// a failed import marks the connection as errored and the same samples are
+// fetched again on the next sync, which the importer writes idempotently.
+export const syncIntegration = async (providerId: string): Promise<ImportSummary | null> => {
+  const provider = providers.get(providerId);
+  const profile = await getCurrentUserProfile();
+  if (!provider || !profile) return null;
+
+  const integration = await getHealthIntegration(profile.id, providerId);
+  if (!integration || integration.status === 'disconnected') return null;
+
+  try {
+    const since = fetchStart(integration.sync_cursor ?? null);
+    const { records, cursor } = await provider.fetchSamples(since, integration.credentials ?? null);
+    // e.g. the user dismissed the file picker
+    if (records.length === 0 && cursor === since) {
+      return { metrics: 0, stepHours: 0, activityDays: 0, skipped: 0 };
+    }
+
+    const samples = records.flatMap(record => provider.toHealthSamples(record));
+    const summary = await importHealthSamples(profile.id, provider.id, samples);
+    summary.skipped += records.length - samples.length;
+
+    const { error } = await supabase
+      .from('health_integrations')
+      .update({
+        status: 'connected',
+        sync_cursor: cursor,
+        last_synced_at: new Date().toISOString(),
+        last_error: null,
+      })
+      .eq('id', integration.id);
+
+    if (error) {
+      console.error('Error updating sync cursor:', error);
+    }
+
+    return summary;
+  } catch (error) {
+    console.error('Error syncing health integration:', error);
+    const message = error instanceof Error ? error.message : 'Sync failed';
+
+    await supabase
+      .from('health_integrations')
+      .update({ status: 'error', last_error: message })
+      .eq('id', integration.id);
+
+    return null;
+  }
+};
+
+// Background sync for every connection that doesn't need the user present
+export const syncConnectedIntegrations = async (): Promise<void> => {
+  const integrations = await getHealthIntegrations();
+  for (const integration of integrations) {
+    const provider = providers.get(integration.provider);
+    if (!provider || provider.interactive || integration.status === 'disconnected') continue;
+    await syncIntegration(integration.provider);
+  }
+};
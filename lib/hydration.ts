@@ -0,0 +1,74 @@
+import { typedSupabase as supabase } from './supabase';
+import { getCurrentUserProfile } from './database';
+import { addMetricEntry, deleteMetricEntry } from '@/utils/metricsStorage';
+
+// Water is the water_intake metric (client_measurements.water_intake_l, in
+// litres); the food journal logs it in the containers people actually drink from
+export const WATER_CONTAINERS: { id: string; label: string; emoji: string; ml: number }[] = [
+  { id: 'glass', label: 'Glass', emoji: '🥛', ml: 250 },
+  { id: 'bottle', label: 'Bottle', emoji: '💧', ml: 500 },
+  { id: 'large_bottle', label: 'Large bottle', emoji: '🧴', ml: 750 },
+];
+
+export interface WaterLog {
+  id: string; // client_measurements.id
+  ml: number;
+  measuredAt: string;
+}
+
+export interface DayWaterIntake {
+  total_ml: number;
+  logs: WaterLog[]; // oldest first
+}
+
+// Water the signed-in user logged on a local date
+export const getWaterIntake = async (date: string): Promise<DayWaterIntake> => {
+  const empty = { total_ml: 0, logs: [] };
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return empty;
+
+    const { data, error } = await supabase
+      .from('client_measurements')
+      .select('id, measured_at, water_intake_l')
+      .eq('client_id', profile.id)
+      .eq('measurement_date', date)
+      .not('water_intake_l', 'is', null)
+      .order('measured_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching water intake:', error);
+      return empty;
+    }
+
+    const logs = (data || []).map(row => ({
+      id: row.id,
+      ml: Math.round(Number(row.water_intake_l) * 1000),
+      measuredAt: row.measured_at || date,
+    }));
+    return { total_ml: logs.reduce((total, log) => total + log.ml, 0), logs };
+  } catch (error) {
+    console.error('Error in getWaterIntake:', error);
+    return empty;
+  }
+};
+
+export const logWater = async (ml: number, date: string): Promise<boolean> => {
+  try {
+    await addMetricEntry('water_intake', ml / 1000, date);
+    return true;
+  } catch (error) {
+    console.error('Error logging water:', error);
+    return false;
+  }
+};
+
+export const deleteWaterLog = async (log: WaterLog): Promise<boolean> => {
+  try {
+    await deleteMetricEntry('water_intake', log.id);
+    return true;
+  } catch (error) {
+    console.error('Error deleting water log:', error);
+    return false;
+  }
+};
@@ -0,0 +1,230 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { startOfHour } from './stepSources';
+import { HealthMetricType, HealthSample } from '@/types/integrations';
+
+// A third-party source of health data. The sync service only talks to this
+// interface, so adding Health Connect or Fitbit means adding a provider here.
+export interface IntegrationProvider<TRecord = any> {
+  id: string; // stored as health_integrations.provider and step_samples.source
+  name: string;
+  icon: string;
+  color: string;
+  description: string;
+  // Providers that need the user in the loop (e.g. picking a file) only sync on request
+  interactive?: boolean;
+  isAvailable(): Promise<boolean>;
+  // Returns credentials to store with the connection, or null if the user declined
+  authorize(): Promise<Record<string, any> | null>;
+  revoke(credentials: Record<string, any> | null): Promise<void>;
+  // Records newer than `cursor` (null on first sync), and the cursor to resume from next time
+  fetchSamples(
+    cursor: string | null,
+    credentials: Record<string, any> | null
+  ): Promise<{ records: TRecord[]; cursor: string | null }>;
+  toHealthSamples(record: TRecord): HealthSample[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// How far back a first sync reaches
+export const INITIAL_SYNC_DAYS = 7;
+
+const laterCursor = (cursor: string | null, date: Date): string =>
+  cursor && new Date(cursor) >= date ? cursor : date.toISOString();
+
+// --- File import ---------------------------------------------------------
+
+export interface FileImportRecord {
+  type: string;
+  value: number | string;
+  unit?: string;
+  start: string;
+  end?: string;
+}
+
+// Accepted spellings of each metric in imported files
+const FILE_TYPE_ALIASES: Record<string, HealthMetricType> = {
+  weight: 'weight',
+  body_weight: 'weight',
+  body_fat: 'body_fat',
+  body_fat_percentage: 'body_fat',
+  heart_rate: 'heart_rate',
+  resting_heart_rate: 'heart_rate',
+  steps: 'steps',
+  step_count: 'steps',
+  active_calories: 'active_calories',
+  active_energy: 'active_calories',
+  calories_burned: 'active_calories',
+  sleep: 'sleep_hours',
+  sleep_hours: 'sleep_hours',
+  water: 'water_intake',
+  water_intake: 'water_intake',
+};
+
+// Convert to the units the stores expect (kg, L, hours)
+const convertUnit = (type: HealthMetricType, value: number, unit?: string): number => {
+  switch (unit?.toLowerCase()) {
+    case 'lb':
+    case 'lbs':
+      return type === 'weight' ? value * 0.45359237 : value;
+    case 'ml':
+      return type === 'water_intake' ? value / 1000 : value;
+    case 'min':
+    case 'minutes':
+      return type === 'sleep_hours' ? value / 60 : value;
+    default:
+      return value;
+  }
+};
+
+// CSV with a header row naming at least type, value and start (or date)
+const parseCsv = (text: string): FileImportRecord[] => {
+  const [headerLine, ...lines] = text.split(/\r?\n/).filter(line => line.trim());
+  if (!headerLine) return [];
+
+  const headers = headerLine.split(',').map(header => header.trim().toLowerCase());
+  return lines.map(line => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = cells[index];
+    });
+    return {
+      type: row.type,
+      value: row.value,
+      unit: row.unit || undefined,
+      start: row.start || row.date,
+      end: row.end || undefined,
+    };
+  });
+};
+
+export const parseImportFile = (text: string): FileImportRecord[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    return (JSON.parse(trimmed) as any[]).map(row => ({
+      type: row.type,
+      value: row.value,
+      unit: row.unit,
+      start: row.start || row.date,
+      end: row.end,
+    }));
+  }
+  return parseCsv(trimmed);
+};
+
+const recordEnd = (record: FileImportRecord) => new Date(record.end || record.start);
+
+export const fileImportProvider: IntegrationProvider<FileImportRecord> = {
+  id: 'file_import',
+  name: 'File Import',
+  icon: '📄',
+  color: '#6B7280',
+  description: 'Import a CSV or JSON export with type, value, unit, start and end columns. Only rows newer than your last import are added.',
+  interactive: true,
+
+  isAvailable: async () => true,
+
+  // Nothing to authorize; the user grants access one file at a time
+  authorize: async () => ({}),
+
+  revoke: async () => {},
+
+  fetchSamples: async (cursor) => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['text/csv', 'text/comma-separated-values', 'application/json', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets?.[0]) {
+      return { records: [], cursor };
+    }
+
+    const response = await fetch(result.assets[0].uri);
+    const records = parseImportFile(await response.text()).filter(record => {
+      const end = recordEnd(record);
+      return !isNaN(end.getTime()) && (!cursor || end > new Date(cursor));
+    });
+
+    const nextCursor = records.reduce<string | null>(
+      (latest, record) => laterCursor(latest, recordEnd(record)),
+      cursor
+    );
+    return { records, cursor: nextCursor };
+  },
+
+  toHealthSamples: (record) => {
+    const type = FILE_TYPE_ALIASES[record.type?.toLowerCase().replace(/[\s-]+/g, '_')];
+    const value = Number(record.value);
+    const startDate = new Date(record.start);
+    if (!type || isNaN(value) || isNaN(startDate.getTime())) return [];
+
+    return [{
+      type,
+      value: convertUnit(type, value, record.unit),
+      startDate,
+      endDate: recordEnd(record),
+    }];
+  },
+};
+
+// --- Local mock ----------------------------------------------------------
+
+// Repeatable pseudo-random value in [0, 1) for a timestamp, so a re-sync of the
+// same window yields the same data
+const noise = (time: number, salt: number): number => {
+  const x = Math.sin(time / HOUR_MS * 12.9898 + salt * 78.233) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+// Rough daily shape: quiet overnight, busier around commutes and lunch
+const MOCK_HOURLY_ACTIVITY = [0, 0, 0, 0, 0, 0, 0.3, 1.2, 1, 0.6, 0.5, 0.7, 1.1, 0.7, 0.5, 0.5, 0.7, 1.2, 1, 0.6, 0.4, 0.2, 0.1, 0];
+
+// Generates plausible data for every complete hour since the cursor, with no
+// network or device access. Used for offline development and simulator builds.
+export const createMockHealthProvider = (
+  options: { id?: string; baseWeightKg?: number } = {}
+): IntegrationProvider<HealthSample> => ({
+  id: options.id ?? 'mock_health',
+  name: 'Demo Health Data',
+  icon: '🧪',
+  color: '#8B5CF6',
+  description: 'Generates a week of sample steps, calories, sleep, weight and heart rate so the app can be tried without a connected device.',
+
+  isAvailable: async () => true,
+
+  authorize: async () => ({ token: `mock-${Date.now()}` }),
+
+  revoke: async () => {},
+
+  fetchSamples: async (cursor) => {
+    const end = startOfHour(new Date());
+    const start = cursor ? new Date(cursor) : new Date(end.getTime() - INITIAL_SYNC_DAYS * DAY_MS);
+    const records: HealthSample[] = [];
+
+    for (let hour = startOfHour(start); hour < end; hour = new Date(hour.getTime() + HOUR_MS)) {
+      if (cursor && hour < start) continue;
+
+      const time = hour.getTime();
+      const hourEnd = new Date(time + HOUR_MS);
+      const steps = Math.round(MOCK_HOURLY_ACTIVITY[hour.getHours()] * (600 + noise(time, 1) * 900));
+      if (steps > 0) {
+        records.push({ type: 'steps', value: steps, startDate: hour, endDate: hourEnd });
+        records.push({ type: 'active_calories', value: Math.round(steps * 0.04), startDate: hour, endDate: hourEnd });
+      }
+
+      // Once-a-day readings, logged on waking
+      if (hour.getHours() === 7) {
+        const sleepStart = new Date(time - 8 * HOUR_MS);
+        records.push({ type: 'sleep_hours', value: Number((6 + noise(time, 2) * 2.5).toFixed(1)), startDate: sleepStart, endDate: hour });
+        records.push({ type: 'weight', value: Number(((options.baseWeightKg ?? 75) + (noise(time, 3) - 0.5) * 1.2).toFixed(1)), startDate: hour, endDate: hour });
+        records.push({ type: 'heart_rate', value: Math.round(56 + noise(time, 4) * 10), startDate: hour, endDate: hour });
+      }
+    }
+
+    return { records, cursor: end.toISOString() };
+  },
+
+  toHealthSamples: (record) => [record],
+});
+
+export const mockHealthProvider = createMockHealthProvider();
@@ -0,0 +1,198 @@
+import * as Linking from 'expo-linking';
+import { supabase } from './supabase';
+import { Profile } from './database';
+
+export type InvitationRole = 'client' | 'trainer' | 'nutritionist' | 'admin' | 'hr';
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'cancelled';
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: InvitationRole;
+  status: InvitationStatus;
+  trial_days: number;
+  custom_message?: string;
+  invited_by?: string;
+  expires_at: string;
+  sent_at: string;
+  resend_count: number;
+  accepted_at?: string;
+  accepted_by?: string;
+  cancelled_at?: string;
+  created_at: string;
+  updated_at: string;
+  inviter?: { id: string; full_name?: string; email: string } | null;
+}
+
+export interface IssuedInvitation {
+  invitation_id: string;
+  token: string;
+  expires_at: string;
+  invite_link: string;
+}
+
+export interface InvitationValidation {
+  invitation_id: string;
+  email: string;
+  role: InvitationRole;
+  trial_days: number;
+  status: InvitationStatus;
+  expires_at: string;
+}
+
+export const DEFAULT_INVITATION_EXPIRY_DAYS = 7;
+
+// Deep link that opens app/invite/[token].tsx
+export const buildInviteLink = (token: string): string => Linking.createURL(`/invite/${token}`);
+
+const toIssuedInvitation = (row: any): IssuedInvitation => ({
+  invitation_id: row.invitation_id,
+  token: row.token,
+  expires_at: row.expires_at,
+  invite_link: buildInviteLink(row.token),
+});
+
+// List invitations for admins and HR, expiring stale ones first
+export const getInvitations = async (status?: InvitationStatus): Promise<Invitation[]> => {
+  try {
+    const { error: expireError } = await supabase.rpc('expire_invitations');
+    if (expireError) {
+      console.error('Error expiring invitations:', expireError);
+    }
+
+    let query = supabase
+      .from('invitations')
+      .select(`
+        *,
+        inviter:profiles!invitations_invited_by_fkey(id, full_name, email)
+      `)
+      .order('sent_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching invitations:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getInvitations:', error);
+    return [];
+  }
+};
+
+// Issue a single-use invitation token for an email and role
+export const createInvitation = async (invitation: {
+  email: string;
+  role: InvitationRole;
+  trialDays: number;
+  customMessage?: string;
+  expiresInDays?: number;
+}): Promise<IssuedInvitation | null> => {
+  try {
+    const { data, error } = await supabase.rpc('create_invitation', {
+      invite_email: invitation.email.trim(),
+      invite_role: invitation.role,
+      invite_trial_days: invitation.trialDays,
+      expires_in_days: invitation.expiresInDays ?? DEFAULT_INVITATION_EXPIRY_DAYS,
+      invite_message: invitation.customMessage?.trim() || null,
+    });
+
+    if (error) {
+      console.error('Error creating invitation:', error);
+      return null;
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return row ? toIssuedInvitation(row) : null;
+  } catch (error) {
+    console.error('Error in createInvitation:', error);
+    return null;
+  }
+};
+
+// Rotate the token of a pending or expired invitation and restart its expiry window
+export const resendInvitation = async (
+  invitationId: string,
+  expiresInDays: number = DEFAULT_INVITATION_EXPIRY_DAYS
+): Promise<IssuedInvitation | null> => {
+  try {
+    const { data, error } = await supabase.rpc('resend_invitation', {
+      target_invitation_id: invitationId,
+      expires_in_days: expiresInDays,
+    });
+
+    if (error) {
+      console.error('Error resending invitation:', error);
+      return null;
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return row ? toIssuedInvitation(row) : null;
+  } catch (error) {
+    console.error('Error in resendInvitation:', error);
+    return null;
+  }
+};
+
+export const cancelInvitation = async (invitationId: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase.rpc('cancel_invitation', {
+      target_invitation_id: invitationId,
+    });
+
+    if (error) {
+      console.error('Error cancelling invitation:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in cancelInvitation:', error);
+    return false;
+  }
+};
+
+// Look up an invitation by its raw token; works before the invitee has an account
+export const validateInvitationToken = async (token: string): Promise<InvitationValidation | null> => {
+  try {
+    const { data, error } = await supabase.rpc('validate_invitation', { raw_token: token });
+
+    if (error) {
+      console.error('Error validating invitation:', error);
+      return null;
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return row || null;
+  } catch (error) {
+    console.error('Error in validateInvitationToken:', error);
+    return null;
+  }
+};
+
+// Create the signed-in user's profile with the invited role and consume the token.
+// Throws with the server message so the invite screen can show why redemption failed.
+export const redeemInvitation = async (token: string, fullName: string): Promise<Profile> => {
+  const { data, error } = await supabase.rpc('redeem_invitation', {
+    raw_token: token,
+    invitee_full_name: fullName,
+  });
+
+  if (error) {
+    console.error('Error redeeming invitation:', error);
+    throw new Error(error.message || 'Failed to redeem invitation');
+  }
+
+  const profile = Array.isArray(data) ? data[0] : data;
+  if (!profile) {
+    throw new Error('Failed to redeem invitation');
+  }
+
+  return profile;
+};
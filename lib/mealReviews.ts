@@ -0,0 +1,80 @@
+import { supabase } from './supabase';
+import { emitDataChange } from './dataEvents';
+import { Profile, getCurrentUserProfile, getNutritionistClients } from './database';
+import { FoodEntry, withSignedPhotos } from './foodJournal';
+
+// A photo meal waiting for the nutritionist, with the client who logged it
+export interface PendingMealReview {
+  entry: FoodEntry;
+  client: Profile;
+}
+
+// Nutrition estimated from the photo. Values left out keep what the entry
+// already has.
+export interface MealEstimate {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+  fiber_g?: number;
+  sugar_g?: number;
+  sodium_mg?: number;
+}
+
+// Photo meals of the signed-in nutritionist's clients that still need an
+// estimate, oldest first
+export const getPendingMealReviews = async (): Promise<PendingMealReview[]> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return [];
+
+    const clients = await getNutritionistClients(profile.id);
+    if (clients.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('food_entries')
+      .select(`
+        *,
+        meal_type:meal_types(*),
+        photos:food_photos(*)
+      `)
+      .in('user_id', clients.map(client => client.id))
+      .eq('review_status', 'pending')
+      .order('date', { ascending: true })
+      .order('time', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching pending meal reviews:', error);
+      return [];
+    }
+
+    const clientsById = new Map(clients.map(client => [client.id, client]));
+    const entries: FoodEntry[] = await withSignedPhotos(data || []);
+    return entries.map(entry => ({ entry, client: clientsById.get(entry.user_id)! }));
+  } catch (error) {
+    console.error('Error in getPendingMealReviews:', error);
+    return [];
+  }
+};
+
+// Estimate a photo meal's nutrition and approve it; the client is notified
+// with the comment. Throws with the reason when the review is refused.
+export const reviewFoodEntry = async (
+  entryId: string,
+  estimate: MealEstimate,
+  comment?: string
+): Promise<FoodEntry> => {
+  const { data, error } = await supabase.rpc('review_food_entry', {
+    entry_id: entryId,
+    estimate,
+    comment: comment?.trim() || null,
+  });
+
+  if (error) {
+    console.error('Error reviewing food entry:', error);
+    throw new Error(error.message || 'Failed to review meal');
+  }
+
+  emitDataChange('nutrition');
+  return data;
+};
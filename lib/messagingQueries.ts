@@ -0,0 +1,340 @@
+import { supabase } from './supabase';
+import { getCurrentUserProfile } from './database';
+
+export type MessageType = 'text' | 'image' | 'file' | 'system';
+
+export interface ChatMessage {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  message_type: MessageType;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface ConversationParticipant {
+  id: string;
+  full_name?: string;
+  email: string;
+  role: string;
+  avatar_url?: string;
+}
+
+export interface Conversation {
+  id: string;
+  participant_1_id: string;
+  participant_2_id: string;
+  last_message_at: string;
+  created_at: string;
+}
+
+export interface ConversationSummary extends Conversation {
+  other_participant: ConversationParticipant | null;
+  last_message: ChatMessage | null;
+  unread_count: number;
+}
+
+export interface ConversationSubscription {
+  sendTyping: () => void;
+  unsubscribe: () => void;
+}
+
+const PARTICIPANT_FIELDS = 'id, full_name, email, role, avatar_url';
+
+// Conversations are stored with participant ids in a fixed order so the
+// (participant_1_id, participant_2_id) unique constraint holds for either direction.
+const orderParticipants = (a: string, b: string): [string, string] => (a < b ? [a, b] : [b, a]);
+
+export const getParticipantDisplayName = (participant: ConversationParticipant | null): string => {
+  if (!participant) return 'Unknown';
+  return participant.full_name || participant.email.split('@')[0];
+};
+
+// Relative time label for conversation lists, e.g. "2 min ago", "Yesterday"
+export const formatConversationTime = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  const diffMinutes = Math.floor((Date.now() - date.getTime()) / 60000);
+
+  if (diffMinutes < 1) return 'Just now';
+  if (diffMinutes < 60) return `${diffMinutes} min ago`;
+
+  const diffHours = Math.floor(diffMinutes / 60);
+  if (diffHours < 24) return `${diffHours} hour${diffHours === 1 ? '' : 's'} ago`;
+
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays === 1) return 'Yesterday';
+  if (diffDays < 7) return `${diffDays} days ago`;
+
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+// Get a participant profile by id
+export const getParticipant = async (profileId: string): Promise<ConversationParticipant | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select(PARTICIPANT_FIELDS)
+      .eq('id', profileId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching participant:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in getParticipant:', error);
+    return null;
+  }
+};
+
+// Get the conversation between the current user and another profile, creating it if needed
+export const getOrCreateConversation = async (otherProfileId: string): Promise<Conversation | null> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return null;
+
+    const [participant1, participant2] = orderParticipants(profile.id, otherProfileId);
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('conversations')
+      .select('*')
+      .eq('participant_1_id', participant1)
+      .eq('participant_2_id', participant2)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching conversation:', fetchError);
+      return null;
+    }
+
+    if (existing) return existing;
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .insert({ participant_1_id: participant1, participant_2_id: participant2 })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating conversation:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in getOrCreateConversation:', error);
+    return null;
+  }
+};
+
+// Get all conversations for the current user, newest first, with last message and unread count.
+// The last messages come embedded with the conversations, and the unread counts from one more query.
+export const getConversations = async (): Promise<ConversationSummary[]> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return [];
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .select(`
+        *,
+        participant_1:profiles!conversations_participant_1_id_fkey(${PARTICIPANT_FIELDS}),
+        participant_2:profiles!conversations_participant_2_id_fkey(${PARTICIPANT_FIELDS}),
+        messages(*)
+      `)
+      .or(`participant_1_id.eq.${profile.id},participant_2_id.eq.${profile.id}`)
+      .order('last_message_at', { ascending: false })
+      .order('created_at', { ascending: false, referencedTable: 'messages' })
+      .limit(1, { referencedTable: 'messages' });
+
+    if (error) {
+      console.error('Error fetching conversations:', error);
+      return [];
+    }
+
+    const conversations = data || [];
+    if (conversations.length === 0) return [];
+
+    const { data: unread, error: unreadError } = await supabase
+      .from('messages')
+      .select('conversation_id')
+      .in('conversation_id', conversations.map((conversation: any) => conversation.id))
+      .neq('sender_id', profile.id)
+      .is('read_at', null);
+
+    if (unreadError) {
+      console.error('Error fetching unread messages:', unreadError);
+    }
+
+    const unreadCounts = new Map<string, number>();
+    (unread || []).forEach(({ conversation_id }) => {
+      unreadCounts.set(conversation_id, (unreadCounts.get(conversation_id) || 0) + 1);
+    });
+
+    return conversations.map((conversation: any) => {
+      const { participant_1, participant_2, messages, ...row } = conversation;
+      return {
+        ...row,
+        other_participant: conversation.participant_1_id === profile.id ? participant_2 : participant_1,
+        last_message: messages?.[0] || null,
+        unread_count: unreadCounts.get(conversation.id) || 0,
+      };
+    });
+  } catch (error) {
+    console.error('Error in getConversations:', error);
+    return [];
+  }
+};
+
+// Get messages for a conversation in chronological order
+export const getMessages = async (conversationId: string, limit: number = 100): Promise<ChatMessage[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching messages:', error);
+      return [];
+    }
+
+    return (data || []).reverse();
+  } catch (error) {
+    console.error('Error in getMessages:', error);
+    return [];
+  }
+};
+
+// Send a message as the current user
+export const sendMessage = async (
+  conversationId: string,
+  content: string,
+  messageType: MessageType = 'text'
+): Promise<ChatMessage | null> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return null;
+
+    const { data, error } = await supabase
+      .from('messages')
+      .insert({
+        conversation_id: conversationId,
+        sender_id: profile.id,
+        content,
+        message_type: messageType,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error sending message:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in sendMessage:', error);
+    return null;
+  }
+};
+
+// Mark every message the current user received in a conversation as read
+export const markConversationAsRead = async (conversationId: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase.rpc('mark_messages_read', {
+      target_conversation_id: conversationId,
+    });
+
+    if (error) {
+      console.error('Error marking conversation as read:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in markConversationAsRead:', error);
+    return false;
+  }
+};
+
+// Total unread messages across all of the current user's conversations (RLS scopes the rows)
+export const getUnreadMessageCount = async (): Promise<number> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return 0;
+
+    const { count, error } = await supabase
+      .from('messages')
+      .select('id', { count: 'exact', head: true })
+      .neq('sender_id', profile.id)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error fetching unread message count:', error);
+      return 0;
+    }
+
+    return count || 0;
+  } catch (error) {
+    console.error('Error in getUnreadMessageCount:', error);
+    return 0;
+  }
+};
+
+// Listen for new messages, read receipts and typing events in a single conversation
+export const subscribeToConversation = (
+  conversationId: string,
+  handlers: {
+    onInsert?: (message: ChatMessage) => void;
+    onUpdate?: (message: ChatMessage) => void;
+    onTyping?: (senderId: string) => void;
+  },
+  currentProfileId?: string
+): ConversationSubscription => {
+  const channel = supabase
+    .channel(`conversation:${conversationId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'messages', filter: `conversation_id=eq.${conversationId}` },
+      payload => handlers.onInsert?.(payload.new as ChatMessage)
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'messages', filter: `conversation_id=eq.${conversationId}` },
+      payload => handlers.onUpdate?.(payload.new as ChatMessage)
+    )
+    .on('broadcast', { event: 'typing' }, ({ payload }) => {
+      if (payload?.sender_id && payload.sender_id !== currentProfileId) {
+        handlers.onTyping?.(payload.sender_id);
+      }
+    })
+    .subscribe();
+
+  return {
+    sendTyping: () => {
+      channel.send({ type: 'broadcast', event: 'typing', payload: { sender_id: currentProfileId } });
+    },
+    unsubscribe: () => {
+      supabase.removeChannel(channel);
+    },
+  };
+};
+
+// Listen for any message activity visible to the current user (RLS scopes the rows)
+export const subscribeToInbox = (channelName: string, onChange: () => void): (() => void) => {
+  const channel = supabase
+    .channel(`inbox:${channelName}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'messages' }, () => onChange())
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'conversations' }, () => onChange())
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
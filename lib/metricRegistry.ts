@@ -0,0 +1,101 @@
+import { MetricAggregation, MetricDefinition, MetricEntry, MetricType } from '@/types/metrics';
+
+// Every body metric the app tracks, in display order. Storage, entry screens
+// and charts all read names, units, ranges and aggregation from here.
+export const METRIC_DEFINITIONS: MetricDefinition[] = [
+  { id: 'weight', name: 'Weight', icon: '⚖️', color: '#3B82F6', unitSystem: 'mass', unit: 'kg', min: 20, max: 350, decimals: 1, aggregation: 'last' },
+  { id: 'body_fat', name: 'Body Fat', icon: '📊', color: '#F59E0B', unitSystem: 'percent', unit: '%', min: 2, max: 70, decimals: 1, aggregation: 'last' },
+  { id: 'muscle_mass', name: 'Muscle Mass', icon: '💪', color: '#10B981', unitSystem: 'mass', unit: 'kg', min: 10, max: 150, decimals: 1, aggregation: 'last' },
+  { id: 'chest', name: 'Chest', icon: '📏', color: '#8B5CF6', unitSystem: 'length', unit: 'cm', min: 50, max: 200, decimals: 1, aggregation: 'last' },
+  { id: 'shoulders', name: 'Shoulders', icon: '📏', color: '#6366F1', unitSystem: 'length', unit: 'cm', min: 60, max: 200, decimals: 1, aggregation: 'last' },
+  { id: 'waist', name: 'Waist', icon: '📐', color: '#EC4899', unitSystem: 'length', unit: 'cm', min: 40, max: 200, decimals: 1, aggregation: 'last' },
+  { id: 'hips', name: 'Hips', icon: '📏', color: '#F97316', unitSystem: 'length', unit: 'cm', min: 50, max: 200, decimals: 1, aggregation: 'last' },
+  { id: 'biceps', name: 'Biceps', icon: '💪', color: '#14B8A6', unitSystem: 'length', unit: 'cm', min: 15, max: 80, decimals: 1, aggregation: 'last' },
+  { id: 'thighs', name: 'Thighs', icon: '🦵', color: '#84CC16', unitSystem: 'length', unit: 'cm', min: 30, max: 120, decimals: 1, aggregation: 'last' },
+  { id: 'height', name: 'Height', icon: '📏', color: '#64748B', unitSystem: 'length', unit: 'cm', min: 100, max: 250, decimals: 1, aggregation: 'last' },
+  { id: 'blood_pressure', name: 'Blood Pressure', icon: '❤️', color: '#EF4444', unitSystem: 'pressure', unit: 'mmHg', min: 70, max: 250, decimals: 0, aggregation: 'last' },
+  { id: 'heart_rate', name: 'Heart Rate', icon: '💓', color: '#F43F5E', unitSystem: 'heart_rate', unit: 'bpm', min: 30, max: 220, decimals: 0, aggregation: 'avg' },
+  { id: 'steps', name: 'Steps', icon: '👟', color: '#FF6B35', unitSystem: 'count', unit: 'steps', min: 0, max: 100000, decimals: 0, aggregation: 'sum' },
+  { id: 'sleep_hours', name: 'Sleep', icon: '😴', color: '#6366F1', unitSystem: 'duration', unit: 'hours', min: 0, max: 24, decimals: 1, aggregation: 'sum' },
+  { id: 'water_intake', name: 'Water Intake', icon: '💧', color: '#06B6D4', unitSystem: 'volume', unit: 'L', min: 0, max: 10, decimals: 2, aggregation: 'sum' },
+];
+
+const DEFINITIONS_BY_ID = new Map(METRIC_DEFINITIONS.map(definition => [definition.id, definition]));
+
+// Keys used by earlier versions of the app, before the registry existed
+export const LEGACY_METRIC_IDS: Record<string, MetricType> = {
+  bodyFat: 'body_fat',
+  bicep: 'biceps',
+  thigh: 'thighs',
+  hip: 'hips',
+  waterIntake: 'water_intake',
+  muscleMass: 'muscle_mass',
+  heartRate: 'heart_rate',
+  bloodPressure: 'blood_pressure',
+  sleep: 'sleep_hours',
+};
+
+export const getMetricDefinition = (id: string): MetricDefinition | undefined =>
+  DEFINITIONS_BY_ID.get(id as MetricType);
+
+// Map a route param or stored key, current or legacy, to a registry id
+export const resolveMetricType = (key: string | string[] | undefined): MetricType | null => {
+  if (typeof key !== 'string') return null;
+  if (DEFINITIONS_BY_ID.has(key as MetricType)) return key as MetricType;
+  return LEGACY_METRIC_IDS[key] || null;
+};
+
+export const formatMetricValue = (id: string, value: number): string => {
+  const decimals = getMetricDefinition(id)?.decimals ?? 1;
+  return Number(value.toFixed(decimals)).toString();
+};
+
+// Returns an error message for values outside the metric's plausible range
+export const validateMetricValue = (id: string, value: number): string | null => {
+  const definition = getMetricDefinition(id);
+  if (!definition) return 'Unknown metric';
+  if (!isFinite(value)) return `Please enter a valid number for ${definition.name}`;
+  if (value < definition.min || value > definition.max) {
+    return `${definition.name} must be between ${definition.min} and ${definition.max} ${definition.unit}`;
+  }
+  return null;
+};
+
+export const aggregateValues = (aggregation: MetricAggregation, values: number[]): number => {
+  if (values.length === 0) return 0;
+  switch (aggregation) {
+    case 'sum':
+      return values.reduce((total, value) => total + value, 0);
+    case 'avg':
+      return values.reduce((total, value) => total + value, 0) / values.length;
+    case 'last':
+      return values[values.length - 1];
+  }
+};
+
+// Entries must be oldest first so 'last' picks the latest reading
+export const aggregateMetricEntries = (id: string, entries: MetricEntry[]): number =>
+  aggregateValues(getMetricDefinition(id)?.aggregation ?? 'last', entries.map(entry => entry.value));
+
+// One value per local day, oldest first, for charts
+export const aggregateMetricEntriesByDay = (id: string, entries: MetricEntry[]): { date: string; value: number }[] => {
+  const byDay = new Map<string, MetricEntry[]>();
+  [...entries]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach(entry => {
+      const date = new Date(entry.date);
+      const key = `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+      byDay.set(key, [...(byDay.get(key) || []), entry]);
+    });
+
+  return Array.from(byDay.values()).map(dayEntries => ({
+    date: dayEntries[dayEntries.length - 1].date,
+    value: aggregateMetricEntries(id, dayEntries),
+  }));
+};
+
+export const AGGREGATION_LABELS: Record<MetricAggregation, string> = {
+  last: 'Latest',
+  sum: 'Total',
+  avg: 'Avg',
+};
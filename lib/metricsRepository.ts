@@ -0,0 +1,212 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './supabase';
+import { getCurrentUserProfile } from './database';
+import { toLocalDateString } from './stepIngestion';
+import { resolveMetricType } from './metricRegistry';
+import { MetricType } from '@/types/metrics';
+
+// client_measurements column holding each metric. The table has left/right
+// columns for limbs; the app logs a single value, stored as the left side.
+export const MEASUREMENT_COLUMNS: Record<MetricType, string> = {
+  weight: 'weight_kg',
+  body_fat: 'body_fat_percentage',
+  muscle_mass: 'muscle_mass_kg',
+  chest: 'chest_cm',
+  shoulders: 'shoulders_cm',
+  waist: 'waist_cm',
+  hips: 'hips_cm',
+  biceps: 'bicep_left_cm',
+  thighs: 'thigh_left_cm',
+  height: 'height_cm',
+  blood_pressure: 'blood_pressure_systolic',
+  heart_rate: 'resting_heart_rate',
+  steps: 'steps',
+  sleep_hours: 'sleep_hours',
+  water_intake: 'water_intake_l',
+};
+
+const MEASUREMENT_COLUMN_LIST = Object.values(MEASUREMENT_COLUMNS);
+
+// Where metrics lived before they moved to Supabase
+const LEGACY_METRICS_KEY = 'user_metrics';
+
+export interface MeasurementEntry {
+  id: string; // client_measurements.id
+  metricKey: MetricType;
+  value: number;
+  measuredAt: string;
+}
+
+// Every logged value for a client, oldest first. A row written by a trainer can
+// hold several measurements and yields one entry per filled column.
+export const getMeasurementEntries = async (clientId: string): Promise<MeasurementEntry[] | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('client_measurements')
+      .select(`id, measured_at, measurement_date, ${MEASUREMENT_COLUMN_LIST.join(', ')}`)
+      .eq('client_id', clientId)
+      .order('measured_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching client measurements:', error);
+      return null;
+    }
+
+    const entries: MeasurementEntry[] = [];
+    (data || []).forEach((row: any) => {
+      (Object.entries(MEASUREMENT_COLUMNS) as [MetricType, string][]).forEach(([metricKey, column]) => {
+        if (row[column] === null || row[column] === undefined) return;
+        entries.push({
+          id: row.id,
+          metricKey,
+          value: Number(row[column]),
+          measuredAt: row.measured_at || row.measurement_date,
+        });
+      });
+    });
+    return entries;
+  } catch (error) {
+    console.error('Error in getMeasurementEntries:', error);
+    return null;
+  }
+};
+
+export const insertMeasurement = async (
+  clientId: string,
+  metricKey: MetricType,
+  value: number,
+  measuredAt: Date
+): Promise<MeasurementEntry> => {
+  const column = MEASUREMENT_COLUMNS[metricKey];
+  if (!column) {
+    throw new Error(`Unsupported metric: ${metricKey}`);
+  }
+
+  const profile = await getCurrentUserProfile();
+  const { data, error } = await supabase
+    .from('client_measurements')
+    .insert({
+      client_id: clientId,
+      measured_by: profile?.id,
+      measured_at: measuredAt.toISOString(),
+      measurement_date: toLocalDateString(measuredAt),
+      [column]: value,
+    })
+    .select('id, measured_at')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return { id: data.id, metricKey, value, measuredAt: data.measured_at };
+};
+
+// Clear one metric from a row, removing the row once nothing else is recorded on it
+export const deleteMeasurement = async (id: string, metricKey: MetricType): Promise<void> => {
+  const column = MEASUREMENT_COLUMNS[metricKey];
+  if (!column) return;
+
+  const { data, error } = await supabase
+    .from('client_measurements')
+    .update({ [column]: null })
+    .eq('id', id)
+    .select(MEASUREMENT_COLUMN_LIST.join(', '))
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const remaining = MEASUREMENT_COLUMN_LIST.some(name => (data as any)[name] !== null);
+  if (!remaining) {
+    const { error: deleteError } = await supabase
+      .from('client_measurements')
+      .delete()
+      .eq('id', id);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+  }
+};
+
+type LegacyMetrics = Record<string, { entries?: { id: string; value: number; date: string }[] }>;
+
+const readLegacyMetrics = async (): Promise<LegacyMetrics | null> => {
+  const stored = await AsyncStorage.getItem(LEGACY_METRICS_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+// Entries saved on this device before metrics moved to Supabase. They were
+// stored without a record of whose they were, so the app asks whoever signs
+// in before uploading them.
+export const countLocalMetrics = async (): Promise<number> => {
+  try {
+    const legacy = await readLegacyMetrics();
+    if (!legacy) return 0;
+    return Object.values(legacy).reduce((total, metric) => total + (metric.entries?.length || 0), 0);
+  } catch (error) {
+    console.error('Error reading local metrics:', error);
+    return 0;
+  }
+};
+
+export const discardLocalMetrics = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(LEGACY_METRICS_KEY);
+  } catch (error) {
+    console.error('Error discarding local metrics:', error);
+  }
+};
+
+// Upload the entries saved on this device to the signed-in account, once its
+// user has confirmed they're theirs, then drop the local copy. Entries keep
+// their local id, so a retry after a partial failure doesn't duplicate them,
+// and entries saved under pre-registry keys (bodyFat, waterIntake, ...) land
+// on the current metric. Returns the number of entries uploaded.
+export const migrateLocalMetrics = async (): Promise<number> => {
+  try {
+    const legacy = await readLegacyMetrics();
+    if (!legacy) return 0;
+
+    const profile = await getCurrentUserProfile();
+    if (!profile) return 0;
+
+    const rows = Object.entries(legacy).flatMap(([storedKey, metric]) => {
+      const metricKey = resolveMetricType(storedKey);
+      if (!metricKey) return [];
+      const column = MEASUREMENT_COLUMNS[metricKey];
+      return (metric.entries || [])
+        .filter(entry => isFinite(Number(entry.value)) && !isNaN(new Date(entry.date).getTime()))
+        .map(entry => {
+          const measuredAt = new Date(entry.date);
+          return {
+            client_id: profile.id,
+            measured_by: profile.id,
+            local_id: `${storedKey}:${entry.id}`,
+            measured_at: measuredAt.toISOString(),
+            measurement_date: toLocalDateString(measuredAt),
+            [column]: Number(entry.value),
+          };
+        });
+    });
+
+    if (rows.length > 0) {
+      const { error } = await supabase
+        .from('client_measurements')
+        .upsert(rows, { onConflict: 'client_id,local_id', ignoreDuplicates: true });
+
+      if (error) {
+        console.error('Error migrating local metrics:', error);
+        return 0;
+      }
+    }
+
+    await AsyncStorage.removeItem(LEGACY_METRICS_KEY);
+    return rows.length;
+  } catch (error) {
+    console.error('Error in migrateLocalMetrics:', error);
+    return 0;
+  }
+};
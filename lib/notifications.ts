@@ -0,0 +1,263 @@
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+import { getCurrentUserProfile } from './database';
+import { requestNotificationPermissions } from '@/utils/notificationService';
+import {
+  AppNotification,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+} from '@/types/notifications';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'workout',
+  'goal',
+  'assignment',
+  'system',
+  'reminder',
+  'plan',
+  'message',
+  'session',
+  'nutrition',
+];
+
+// How types are grouped on the notification settings screen
+export const NOTIFICATION_GROUPS: { id: string; title: string; description: string; types: NotificationType[] }[] = [
+  {
+    id: 'workouts',
+    title: 'Workout Reminders',
+    description: 'Get notified about upcoming workouts',
+    types: ['workout', 'reminder'],
+  },
+  {
+    id: 'messages',
+    title: 'Messages',
+    description: 'Notifications for new messages from trainers',
+    types: ['message'],
+  },
+  {
+    id: 'coaching',
+    title: 'Coaching',
+    description: 'New trainers, plans, recipes, meal reviews and session changes',
+    types: ['assignment', 'plan', 'session', 'nutrition'],
+  },
+  {
+    id: 'achievements',
+    title: 'Achievements',
+    description: 'Celebrate your fitness milestones',
+    types: ['goal'],
+  },
+  {
+    id: 'general',
+    title: 'General Notifications',
+    description: 'App updates and general information',
+    types: ['system'],
+  },
+];
+
+// Screen to open for a notification, from the ids its trigger stored in `data`
+export const getNotificationRoute = (type: string, data: Record<string, any> = {}): string | null => {
+  switch (type) {
+    case 'message':
+      return data.sender_id ? `/chat/${data.sender_id}` : '/(tabs)/inbox';
+    case 'plan':
+      return data.plan_id ? `/plan-details/${data.plan_id}` : null;
+    case 'session':
+    case 'reminder':
+      return data.session_id ? `/session-details/${data.session_id}` : null;
+    case 'workout':
+      return data.template_id ? `/todays-workout/${data.template_id}` : null;
+    case 'assignment':
+      return data.client_id ? `/client-detail/${data.client_id}` : '/(tabs)/coaching';
+    case 'nutrition':
+      if (data.nutrition_plan_id || data.food_entry_id) return '/food-journal';
+      return data.recipe_id ? `/nutrition/recipes?recipeId=${data.recipe_id}` : '/nutrition/recipes';
+    case 'goal':
+      return data.goalId ? `/goal-countdown?goalId=${data.goalId}` : null;
+    default:
+      return null;
+  }
+};
+
+export const getNotifications = async (limit: number = 50): Promise<AppNotification[]> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return [];
+
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', profile.id)
+      .eq('in_inbox', true)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getNotifications:', error);
+    return [];
+  }
+};
+
+export const markNotificationRead = async (notificationId: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('id', notificationId);
+
+    if (error) {
+      console.error('Error marking notification read:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error in markNotificationRead:', error);
+    return false;
+  }
+};
+
+export const markAllNotificationsRead = async (): Promise<boolean> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return false;
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('user_id', profile.id)
+      .eq('read', false);
+
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error in markAllNotificationsRead:', error);
+    return false;
+  }
+};
+
+// Calls `onChange` whenever one of the profile's notifications is added or updated
+export const subscribeToNotifications = (profileId: string, onChange: () => void): (() => void) => {
+  const channel = supabase
+    .channel(`notifications:${profileId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${profileId}` },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+const defaultPreferences = (): NotificationPreferences =>
+  NOTIFICATION_TYPES.reduce((preferences, type) => {
+    preferences[type] = { in_app: true, push: true };
+    return preferences;
+  }, {} as NotificationPreferences);
+
+// Every type has both channels on unless the user turned one off
+export const getNotificationPreferences = async (): Promise<NotificationPreferences> => {
+  const preferences = defaultPreferences();
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return preferences;
+
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('type, in_app, push')
+      .eq('user_id', profile.id);
+
+    if (error) {
+      console.error('Error fetching notification preferences:', error);
+      return preferences;
+    }
+
+    (data || []).forEach(row => {
+      if (preferences[row.type as NotificationType]) {
+        preferences[row.type as NotificationType] = { in_app: row.in_app, push: row.push };
+      }
+    });
+    return preferences;
+  } catch (error) {
+    console.error('Error in getNotificationPreferences:', error);
+    return preferences;
+  }
+};
+
+export const setNotificationPreference = async (
+  types: NotificationType[],
+  channel: NotificationChannel,
+  enabled: boolean
+): Promise<boolean> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return false;
+
+    const current = await getNotificationPreferences();
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert(
+        types.map(type => ({ user_id: profile.id, type, ...current[type], [channel]: enabled })),
+        { onConflict: 'user_id,type' }
+      );
+
+    if (error) {
+      console.error('Error saving notification preference:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error in setNotificationPreference:', error);
+    return false;
+  }
+};
+
+// Ask for permission and store this device's Expo push token for the signed-in user
+export const registerPushToken = async (): Promise<string | null> => {
+  if (Platform.OS === 'web') return null;
+
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile || !(await requestNotificationPermissions())) return null;
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId;
+    const { data: token } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+
+    const { error } = await supabase
+      .from('push_tokens')
+      .upsert({ user_id: profile.id, token, platform: Platform.OS }, { onConflict: 'token' });
+
+    if (error) {
+      console.error('Error registering push token:', error);
+      return null;
+    }
+    return token;
+  } catch (error) {
+    console.error('Error in registerPushToken:', error);
+    return null;
+  }
+};
+
+export const unregisterPushToken = async (token: string): Promise<void> => {
+  try {
+    const { error } = await supabase.from('push_tokens').delete().eq('token', token);
+    if (error) {
+      console.error('Error unregistering push token:', error);
+    }
+  } catch (error) {
+    console.error('Error in unregisterPushToken:', error);
+  }
+};
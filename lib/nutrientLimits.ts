@@ -0,0 +1,55 @@
+import { DayNutritionSummary, NutritionGoals } from './foodJournal';
+import { LimitNutrient } from '@/types/nutrition';
+
+export const LIMIT_NUTRIENTS: {
+  key: LimitNutrient;
+  label: string;
+  unit: string;
+  goal: 'daily_sodium_mg' | 'daily_sugar_g';
+  summary: 'total_sodium' | 'total_sugar';
+}[] = [
+  { key: 'sodium_mg', label: 'Sodium', unit: 'mg', goal: 'daily_sodium_mg', summary: 'total_sodium' },
+  { key: 'sugar_g', label: 'Sugar', unit: 'g', goal: 'daily_sugar_g', summary: 'total_sugar' },
+];
+
+export type LimitTotals = Record<LimitNutrient, number>;
+
+export interface LimitWarning {
+  key: LimitNutrient;
+  label: string;
+  unit: string;
+  total: number;
+  limit: number;
+}
+
+export const limitTotals = (summary: DayNutritionSummary | undefined): LimitTotals => ({
+  sodium_mg: summary?.total_sodium || 0,
+  sugar_g: summary?.total_sugar || 0,
+});
+
+// Watched limits the totals are over
+export const getLimitWarnings = (goals: NutritionGoals | null, totals: LimitTotals): LimitWarning[] =>
+  LIMIT_NUTRIENTS.filter(nutrient => {
+    const limit = Number(goals?.[nutrient.goal]) || 0;
+    return goals?.limit_warnings?.includes(nutrient.key) && limit > 0 && totals[nutrient.key] > limit;
+  }).map(nutrient => ({
+    key: nutrient.key,
+    label: nutrient.label,
+    unit: nutrient.unit,
+    total: Math.round(totals[nutrient.key]),
+    limit: Number(goals?.[nutrient.goal]),
+  }));
+
+// Limits that `after` goes over and `before` didn't, to warn once as a meal
+// tips the day over rather than on every meal after it
+export const getCrossedLimits = (
+  goals: NutritionGoals | null,
+  before: LimitTotals,
+  after: LimitTotals
+): LimitWarning[] => {
+  const alreadyOver = getLimitWarnings(goals, before).map(warning => warning.key);
+  return getLimitWarnings(goals, after).filter(warning => !alreadyOver.includes(warning.key));
+};
+
+export const describeLimitWarning = (warning: LimitWarning) =>
+  `${warning.label}: ${warning.total.toLocaleString()} ${warning.unit} of your ${warning.limit.toLocaleString()} ${warning.unit} limit`;
@@ -0,0 +1,408 @@
+import { supabase } from './supabase';
+import type { Tables, TablesInsert } from './supabase';
+import { getCurrentUserProfile } from './database';
+import { FoodEntry, MealType } from './foodJournal';
+import { FoodPortion, portionEntryFields } from './foods';
+
+export type NutritionPlanFood = Tables<'nutrition_plan_meal_foods'>;
+
+export type NutritionPlanMeal = Tables<'nutrition_plan_meals'> & {
+  foods: NutritionPlanFood[];
+  meal_type?: MealType | null;
+};
+
+export type NutritionPlan = Tables<'nutrition_plans'> & {
+  meals: NutritionPlanMeal[];
+  nutritionist?: { id: string; full_name: string } | null;
+};
+
+export type NutritionPlanFoodInput = Omit<
+  TablesInsert<'nutrition_plan_meal_foods'>,
+  'id' | 'plan_meal_id' | 'position' | 'created_at'
+>;
+
+export type NutritionPlanMealInput = Omit<
+  TablesInsert<'nutrition_plan_meals'>,
+  'id' | 'plan_id' | 'position' | 'created_at'
+> & {
+  foods: NutritionPlanFoodInput[];
+};
+
+export interface NutritionPlanInput {
+  client_id: string;
+  name: string;
+  description?: string | null;
+  start_date: string;
+  end_date?: string | null;
+}
+
+export type MacroValues = {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+};
+
+// Planned vs logged for one meal type on one day. Slots are compared per
+// meal type because entries are only tagged with their meal type.
+export interface MealAdherence {
+  meal_type_id: string | null;
+  slots: NutritionPlanMeal[];
+  planned: MacroValues;
+  logged: MacroValues;
+  entries: FoodEntry[];
+}
+
+export interface DayAdherence {
+  date: string;
+  meals: MealAdherence[];
+  planned: MacroValues;
+  logged: MacroValues;
+  // Entries under meal types the plan has no slot for that day
+  unplannedEntries: FoodEntry[];
+  // 0-100, or null when the plan prescribes nothing for the day
+  score: number | null;
+}
+
+export interface ClientAdherence {
+  client_id: string;
+  plan: NutritionPlan | null;
+  days: DayAdherence[];
+  // Average of the scored days, or null without any
+  weeklyScore: number | null;
+  // Latest day in the window with an entry
+  lastLoggedDate: string | null;
+}
+
+export type AdherenceStatus = 'excellent' | 'on-track' | 'needs-attention' | 'no-plan';
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MACRO_KEYS: (keyof MacroValues)[] = ['calories', 'protein_g', 'carbs_g', 'fat_g'];
+
+// How much of the day score comes from hitting the macro targets; the rest
+// is for logging something in every planned meal
+const MACRO_WEIGHT = 0.7;
+const COVERAGE_WEIGHT = 0.3;
+
+// Days in the weekly window, ending on the day being looked at. A day that
+// isn't over yet is shown but not scored.
+export const ADHERENCE_WINDOW_DAYS = 7;
+
+const PLAN_SELECT = `
+  *,
+  meals:nutrition_plan_meals(*, foods:nutrition_plan_meal_foods(*), meal_type:meal_types(*)),
+  nutritionist:profiles!nutrition_plans_nutritionist_id_fkey(id, full_name)
+`;
+
+const emptyMacros = (): MacroValues => ({ calories: 0, protein_g: 0, carbs_g: 0, fat_g: 0 });
+
+const addMacros = (total: MacroValues, values: Partial<Record<keyof MacroValues, number | null>>) => {
+  MACRO_KEYS.forEach(key => {
+    total[key] += Number(values[key]) || 0;
+  });
+  return total;
+};
+
+const sortPlan = (plan: any): NutritionPlan => ({
+  ...plan,
+  meals: [...(plan.meals || [])]
+    .sort((a, b) => a.position - b.position)
+    .map((meal: any) => ({
+      ...meal,
+      foods: [...(meal.foods || [])].sort((a, b) => a.position - b.position),
+    })),
+});
+
+// Dates are handled as YYYY-MM-DD strings, like food entries store them
+const dayOfWeek = (date: string) => new Date(`${date}T00:00:00`).getDay();
+
+export const localDate = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+
+export const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00`);
+  shifted.setDate(shifted.getDate() + days);
+  return localDate(shifted);
+};
+
+export const planFoodFromPortion = (portion: FoodPortion): NutritionPlanFoodInput => ({
+  ...portionEntryFields(portion),
+  name: portion.food.name,
+});
+
+export const isPlanActiveOn = (plan: Pick<NutritionPlan, 'start_date' | 'end_date'>, date: string) =>
+  date >= plan.start_date && (!plan.end_date || date <= plan.end_date);
+
+// The slots that apply on a date: the weekday's own slots when it has any,
+// otherwise the every-day slots
+export const getPlanMealsForDate = <T extends Pick<NutritionPlanMeal, 'day_of_week'>>(
+  meals: T[],
+  date: string
+): T[] => {
+  const weekday = dayOfWeek(date);
+  const ownSlots = meals.filter(meal => meal.day_of_week === weekday);
+  return ownSlots.length > 0 ? ownSlots : meals.filter(meal => meal.day_of_week === null);
+};
+
+// A slot's targets: the ones set on it, else the sum of its planned foods
+export const mealTargets = (
+  meal: Pick<NutritionPlanMeal, 'target_calories' | 'target_protein_g' | 'target_carbs_g' | 'target_fat_g'> & {
+    foods: Pick<NutritionPlanFood, keyof MacroValues>[];
+  }
+): MacroValues => {
+  const fromFoods = meal.foods.reduce(addMacros, emptyMacros());
+  return {
+    calories: meal.target_calories ?? fromFoods.calories,
+    protein_g: meal.target_protein_g ?? fromFoods.protein_g,
+    carbs_g: meal.target_carbs_g ?? fromFoods.carbs_g,
+    fat_g: meal.target_fat_g ?? fromFoods.fat_g,
+  };
+};
+
+// Photo meals waiting for the nutritionist's estimate have no macros yet
+const isAwaitingReview = (entry: FoodEntry) => entry.review_status === 'pending';
+
+// Each macro with a target scores 1 when hit exactly, down to 0 at 100% off
+// in either direction. Coverage is the share of planned meals with at least
+// one entry.
+export const scoreDay = (meals: MealAdherence[], planned: MacroValues, logged: MacroValues): number | null => {
+  if (meals.length === 0) return null;
+
+  const coverage = meals.filter(meal => meal.entries.length > 0).length / meals.length;
+  const targeted = MACRO_KEYS.filter(key => planned[key] > 0);
+  if (targeted.length === 0) return Math.round(coverage * 100);
+
+  const accuracy = targeted.reduce(
+    (sum, key) => sum + Math.max(0, 1 - Math.abs(logged[key] - planned[key]) / planned[key]),
+    0
+  ) / targeted.length;
+
+  return Math.round((accuracy * MACRO_WEIGHT + coverage * COVERAGE_WEIGHT) * 100);
+};
+
+// Planned vs logged for one day. `entries` may include other days; only
+// those on `date` are used.
+export const getDayAdherence = (plan: NutritionPlan | null, date: string, entries: FoodEntry[]): DayAdherence => {
+  const dayEntries = entries.filter(entry => entry.date === date);
+  const slots = plan && isPlanActiveOn(plan, date) ? getPlanMealsForDate(plan.meals, date) : [];
+
+  const byMealType = new Map<string | null, NutritionPlanMeal[]>();
+  slots.forEach(slot => {
+    byMealType.set(slot.meal_type_id, [...(byMealType.get(slot.meal_type_id) || []), slot]);
+  });
+
+  const meals: MealAdherence[] = Array.from(byMealType.entries()).map(([mealTypeId, mealSlots]) => {
+    const mealEntries = mealTypeId ? dayEntries.filter(entry => entry.meal_type_id === mealTypeId) : [];
+    return {
+      meal_type_id: mealTypeId,
+      slots: mealSlots,
+      planned: mealSlots.map(mealTargets).reduce(addMacros, emptyMacros()),
+      logged: mealEntries.reduce(addMacros, emptyMacros()),
+      entries: mealEntries,
+    };
+  });
+
+  const planned = meals.reduce((total, meal) => addMacros(total, meal.planned), emptyMacros());
+  const logged = dayEntries.reduce(addMacros, emptyMacros());
+  const unplannedEntries = dayEntries.filter(entry => !byMealType.has(entry.meal_type_id));
+
+  // A meal awaiting review counts as logged, but is left out of the macro
+  // accuracy until its estimate arrives
+  const settledMeals = meals.filter(meal => !meal.entries.some(isAwaitingReview));
+  const settledPlanned = settledMeals.reduce((total, meal) => addMacros(total, meal.planned), emptyMacros());
+  const settledLogged = [...settledMeals.flatMap(meal => meal.entries), ...unplannedEntries]
+    .filter(entry => !isAwaitingReview(entry))
+    .reduce(addMacros, emptyMacros());
+
+  return {
+    date,
+    meals,
+    planned,
+    logged,
+    unplannedEntries,
+    score: scoreDay(meals, settledPlanned, settledLogged),
+  };
+};
+
+// Day by day adherence for the window ending on `endDate`, and its average.
+// Days before any plan or without planned meals aren't scored, and neither is
+// today, whose meals haven't all been eaten yet.
+export const getWindowAdherence = (
+  plan: NutritionPlan | null,
+  entries: FoodEntry[],
+  endDate: string,
+  days = ADHERENCE_WINDOW_DAYS
+): { days: DayAdherence[]; weeklyScore: number | null } => {
+  const today = localDate(new Date());
+  const window = Array.from({ length: days }, (_, index) =>
+    getDayAdherence(plan, shiftDate(endDate, index - days + 1), entries)
+  );
+  const scored = window.filter(day => day.score !== null && day.date < today);
+
+  return {
+    days: window,
+    weeklyScore: scored.length > 0
+      ? Math.round(scored.reduce((sum, day) => sum + (day.score as number), 0) / scored.length)
+      : null,
+  };
+};
+
+export const adherenceStatus = (score: number | null): AdherenceStatus => {
+  if (score === null) return 'no-plan';
+  if (score >= 85) return 'excellent';
+  if (score >= 65) return 'on-track';
+  return 'needs-attention';
+};
+
+// ---------------------------------------------------------------------------
+// Plans
+// ---------------------------------------------------------------------------
+
+// The client's active plan; the signed-in user's own when no client is given
+export const getActiveNutritionPlan = async (clientId?: string): Promise<NutritionPlan | null> => {
+  try {
+    const profileId = clientId || (await getCurrentUserProfile())?.id;
+    if (!profileId) return null;
+
+    const { data, error } = await supabase
+      .from('nutrition_plans')
+      .select(PLAN_SELECT)
+      .eq('client_id', profileId)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching nutrition plan:', error);
+      return null;
+    }
+
+    return data ? sortPlan(data) : null;
+  } catch (error) {
+    console.error('Error in getActiveNutritionPlan:', error);
+    return null;
+  }
+};
+
+// Writes the plan and replaces its meal slots in one transaction. Without
+// planId a new plan is created, replacing the client's active one. Throws
+// with the server message.
+export const saveNutritionPlan = async (
+  plan: NutritionPlanInput,
+  meals: NutritionPlanMealInput[],
+  planId?: string
+): Promise<NutritionPlan> => {
+  const { data, error } = await supabase.rpc('save_nutrition_plan', {
+    plan: {
+      ...plan,
+      name: plan.name.trim(),
+      description: plan.description?.trim() || null,
+    },
+    meals: meals.map(meal => ({
+      ...meal,
+      foods: meal.foods.map((food, position) => ({ ...food, position })),
+    })),
+    target_plan_id: planId,
+  });
+
+  if (error) {
+    console.error('Error saving nutrition plan:', error);
+    throw new Error(error.message || 'Failed to save meal plan');
+  }
+
+  const { data: saved, error: fetchError } = await supabase
+    .from('nutrition_plans')
+    .select(PLAN_SELECT)
+    .eq('id', data.id)
+    .single();
+
+  if (fetchError) {
+    console.error('Error fetching saved nutrition plan:', fetchError);
+    return { ...data, meals: [] };
+  }
+
+  return sortPlan(saved);
+};
+
+// Ends a plan; the client keeps their journal but no longer sees targets
+export const archiveNutritionPlan = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('nutrition_plans')
+      .update({ status: 'archived' })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error archiving nutrition plan:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in archiveNutritionPlan:', error);
+    return false;
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Adherence across clients
+// ---------------------------------------------------------------------------
+
+// Weekly adherence for each client, from one query for plans and one for
+// entries. For the nutritionist's client list.
+export const getClientsAdherence = async (
+  clientIds: string[],
+  endDate: string,
+  days = ADHERENCE_WINDOW_DAYS
+): Promise<Record<string, ClientAdherence>> => {
+  if (clientIds.length === 0) return {};
+
+  try {
+    const startDate = shiftDate(endDate, 1 - days);
+    const [plansResult, entriesResult] = await Promise.all([
+      supabase
+        .from('nutrition_plans')
+        .select(PLAN_SELECT)
+        .in('client_id', clientIds)
+        .eq('status', 'active'),
+      supabase
+        .from('food_entries')
+        .select('*')
+        .in('user_id', clientIds)
+        .gte('date', startDate)
+        .lte('date', endDate),
+    ]);
+
+    if (plansResult.error || entriesResult.error) {
+      console.error('Error fetching client adherence:', plansResult.error || entriesResult.error);
+      return {};
+    }
+
+    const plans = (plansResult.data || []).map(sortPlan);
+    const entries: FoodEntry[] = entriesResult.data || [];
+
+    return clientIds.reduce((result, clientId) => {
+      const plan = plans.find(candidate => candidate.client_id === clientId) || null;
+      const clientEntries = entries.filter(entry => entry.user_id === clientId);
+      const window = getWindowAdherence(plan, clientEntries, endDate, days);
+      result[clientId] = {
+        client_id: clientId,
+        plan,
+        days: window.days,
+        weeklyScore: window.weeklyScore,
+        lastLoggedDate: clientEntries.reduce<string | null>(
+          (latest, entry) => (!latest || entry.date > latest ? entry.date : latest),
+          null
+        ),
+      };
+      return result;
+    }, {} as Record<string, ClientAdherence>);
+  } catch (error) {
+    console.error('Error in getClientsAdherence:', error);
+    return {};
+  }
+};
@@ -0,0 +1,206 @@
+import { supabase } from './supabase';
+import { Profile, createOrUpdateProfile, getCurrentUserProfile } from './database';
+import { NutritionGoals, getNutritionGoals, upsertNutritionGoals } from './foodJournal';
+import { ActivityLevel, MacroStrategy, Sex, WeightGoalType } from '@/types/nutrition';
+
+// Everything the calculator needs. Weights in kg, height in cm.
+export interface TargetInputs {
+  sex: Sex;
+  age: number;
+  height_cm: number;
+  weight_kg: number;
+  activity_level: ActivityLevel;
+  goal_type: WeightGoalType;
+  // Ignored when maintaining
+  goal_rate_kg_per_week: number;
+  macro_strategy: MacroStrategy;
+}
+
+export interface CalculatedTargets {
+  bmr: number;
+  tdee: number;
+  daily_calories: number;
+  daily_protein_g: number;
+  daily_carbs_g: number;
+  daily_fat_g: number;
+}
+
+// Targets worked out again for a new weight, not yet saved
+export interface TargetRecalculation {
+  goals: NutritionGoals;
+  inputs: TargetInputs;
+  targets: CalculatedTargets;
+}
+
+export const ACTIVITY_LEVELS: { id: ActivityLevel; label: string; description: string; multiplier: number }[] = [
+  { id: 'sedentary', label: 'Sedentary', description: 'Desk job, little exercise', multiplier: 1.2 },
+  { id: 'light', label: 'Light', description: 'Exercise 1-3 days a week', multiplier: 1.375 },
+  { id: 'moderate', label: 'Moderate', description: 'Exercise 3-5 days a week', multiplier: 1.55 },
+  { id: 'active', label: 'Active', description: 'Hard exercise 6-7 days a week', multiplier: 1.725 },
+  { id: 'very_active', label: 'Very active', description: 'Physical job or training twice a day', multiplier: 1.9 },
+];
+
+export const GOAL_TYPES: { id: WeightGoalType; label: string }[] = [
+  { id: 'cut', label: 'Lose weight' },
+  { id: 'maintain', label: 'Maintain' },
+  { id: 'bulk', label: 'Gain weight' },
+];
+
+// Weekly rates offered for a cut or bulk, in kg
+export const GOAL_RATES = [0.25, 0.5, 0.75, 1];
+
+// Protein is set per kg of body weight and fat as a share of calories;
+// carbs fill the rest
+export const MACRO_STRATEGIES: {
+  id: MacroStrategy;
+  label: string;
+  description: string;
+  proteinPerKg: number;
+  fatShare: number;
+}[] = [
+  { id: 'balanced', label: 'Balanced', description: '1.6 g/kg protein, 30% fat', proteinPerKg: 1.6, fatShare: 0.3 },
+  { id: 'high_protein', label: 'High protein', description: '2.2 g/kg protein, 25% fat', proteinPerKg: 2.2, fatShare: 0.25 },
+  { id: 'low_carb', label: 'Low carb', description: '1.8 g/kg protein, 45% fat', proteinPerKg: 1.8, fatShare: 0.45 },
+  { id: 'low_fat', label: 'Low fat', description: '1.6 g/kg protein, 20% fat', proteinPerKg: 1.6, fatShare: 0.2 },
+];
+
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+
+// Energy in a kg of body weight change
+const KCAL_PER_KG = 7700;
+
+// Targets aren't set below these however fast the cut
+const MIN_CALORIES: Record<Sex, number> = { female: 1200, male: 1500 };
+
+// How far the weight has to move from the one targets were calculated
+// from before recalculating is offered
+export const RECALCULATION_THRESHOLD_KG = 1;
+
+export const ageOn = (dateOfBirth: string, on: Date = new Date()) => {
+  const birth = new Date(`${dateOfBirth}T00:00:00`);
+  const age = on.getFullYear() - birth.getFullYear();
+  const hadBirthday =
+    on.getMonth() > birth.getMonth() || (on.getMonth() === birth.getMonth() && on.getDate() >= birth.getDate());
+  return hadBirthday ? age : age - 1;
+};
+
+// Mifflin-St Jeor
+export const calculateBmr = ({ sex, age, height_cm, weight_kg }: Pick<TargetInputs, 'sex' | 'age' | 'height_cm' | 'weight_kg'>) =>
+  10 * weight_kg + 6.25 * height_cm - 5 * age + (sex === 'male' ? 5 : -161);
+
+export const calculateTargets = (inputs: TargetInputs): CalculatedTargets => {
+  const bmr = calculateBmr(inputs);
+  const multiplier = ACTIVITY_LEVELS.find(level => level.id === inputs.activity_level)?.multiplier ?? 1.2;
+  const tdee = bmr * multiplier;
+
+  const dailyChange = inputs.goal_type === 'maintain' ? 0 : (inputs.goal_rate_kg_per_week * KCAL_PER_KG) / 7;
+  const calories = Math.max(
+    MIN_CALORIES[inputs.sex],
+    inputs.goal_type === 'cut' ? tdee - dailyChange : tdee + dailyChange
+  );
+
+  const strategy = MACRO_STRATEGIES.find(option => option.id === inputs.macro_strategy) ?? MACRO_STRATEGIES[0];
+  const protein = strategy.proteinPerKg * inputs.weight_kg;
+  const fat = (calories * strategy.fatShare) / KCAL_PER_GRAM.fat;
+  const carbs = Math.max(0, calories - protein * KCAL_PER_GRAM.protein - fat * KCAL_PER_GRAM.fat) / KCAL_PER_GRAM.carbs;
+
+  return {
+    bmr: Math.round(bmr),
+    tdee: Math.round(tdee),
+    daily_calories: Math.round(calories),
+    daily_protein_g: Math.round(protein),
+    daily_carbs_g: Math.round(carbs),
+    daily_fat_g: Math.round(fat),
+  };
+};
+
+// The calculator inputs stored on the profile and goals, or null when any is
+// missing, e.g. targets that were typed in
+export const storedTargetInputs = (
+  profile: Profile,
+  goals: NutritionGoals | null,
+  weightKg: number
+): TargetInputs | null => {
+  if (!goals || goals.target_source !== 'calculated' || !goals.goal_type || !goals.macro_strategy) return null;
+  if (!profile.sex || !profile.activity_level || !profile.height_cm || !profile.date_of_birth) return null;
+
+  return {
+    sex: profile.sex,
+    age: ageOn(profile.date_of_birth),
+    height_cm: profile.height_cm,
+    weight_kg: weightKg,
+    activity_level: profile.activity_level,
+    goal_type: goals.goal_type,
+    goal_rate_kg_per_week: Number(goals.goal_rate_kg_per_week) || 0,
+    macro_strategy: goals.macro_strategy,
+  };
+};
+
+// The latest logged weight, or the one on the profile
+export const getLatestWeight = async (profile: Profile): Promise<number | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('client_measurements')
+      .select('weight_kg')
+      .eq('client_id', profile.id)
+      .not('weight_kg', 'is', null)
+      .order('measured_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching latest weight:', error);
+    }
+
+    return data?.weight_kg != null ? Number(data.weight_kg) : profile.weight_kg ?? null;
+  } catch (error) {
+    console.error('Error in getLatestWeight:', error);
+    return profile.weight_kg ?? null;
+  }
+};
+
+// Save targets from the calculator along with the inputs behind them. The
+// body inputs go on the profile, the goal settings on the targets.
+export const saveCalculatedTargets = async (inputs: TargetInputs, dateOfBirth: string): Promise<NutritionGoals | null> => {
+  const profile = await createOrUpdateProfile({
+    sex: inputs.sex,
+    activity_level: inputs.activity_level,
+    height_cm: inputs.height_cm,
+    date_of_birth: dateOfBirth,
+  });
+  if (!profile) return null;
+
+  const { bmr, tdee, ...targets } = calculateTargets(inputs);
+  return upsertNutritionGoals({
+    ...targets,
+    target_source: 'calculated',
+    goal_type: inputs.goal_type,
+    goal_rate_kg_per_week: inputs.goal_type === 'maintain' ? null : inputs.goal_rate_kg_per_week,
+    macro_strategy: inputs.macro_strategy,
+    calculated_weight_kg: inputs.weight_kg,
+    calculated_at: new Date().toISOString(),
+  });
+};
+
+// New targets for a weight when the current ones were calculated from one
+// at least RECALCULATION_THRESHOLD_KG away. Null when there's nothing to
+// offer: typed-in targets, a small change or missing inputs.
+export const getTargetRecalculation = async (weightKg: number): Promise<TargetRecalculation | null> => {
+  const [profile, goals] = await Promise.all([getCurrentUserProfile(), getNutritionGoals()]);
+  if (!profile || !goals || goals.calculated_weight_kg == null) return null;
+  if (Math.abs(weightKg - Number(goals.calculated_weight_kg)) < RECALCULATION_THRESHOLD_KG) return null;
+
+  const inputs = storedTargetInputs(profile, goals, weightKg);
+  if (!inputs) return null;
+
+  return { goals, inputs, targets: calculateTargets(inputs) };
+};
+
+export const applyTargetRecalculation = async ({ inputs, targets }: TargetRecalculation): Promise<NutritionGoals | null> => {
+  const { bmr, tdee, ...dailyTargets } = targets;
+  return upsertNutritionGoals({
+    ...dailyTargets,
+    calculated_weight_kg: inputs.weight_kg,
+    calculated_at: new Date().toISOString(),
+  });
+};
@@ -0,0 +1,100 @@
+import { supabase } from './supabase';
+import { getCurrentUserProfile } from './database';
+import { Capability, UserRole } from '@/types/permissions';
+
+// What each role may do. The role_capabilities table in Supabase holds the
+// same matrix for RLS; change both together.
+export const ROLE_CAPABILITIES: Record<UserRole, Capability[]> = {
+  client: ['self.track'],
+  leads: ['self.track'],
+  trainer: ['self.track', 'clients.read_assigned', 'plans.manage', 'sessions.manage', 'analytics.view_own'],
+  nutritionist: ['self.track', 'clients.read_assigned', 'nutrition.manage', 'analytics.view_own'],
+  hr: ['clients.read_all', 'assignments.manage', 'invitations.manage', 'analytics.view_all', 'audit.read'],
+  admin: [
+    'self.track',
+    'clients.read_all',
+    'plans.manage',
+    'sessions.manage',
+    'nutrition.manage',
+    'analytics.view_all',
+    'assignments.manage',
+    'invitations.manage',
+    'users.manage',
+    'roles.assign',
+    'audit.read',
+  ],
+};
+
+// Screens only some roles may open, by path prefix. A route needs any one of its
+// capabilities; routes not listed here are open to every signed-in user.
+export const ROUTE_CAPABILITIES: { prefix: string; anyOf: Capability[] }[] = [
+  { prefix: '/admin/user-management', anyOf: ['users.manage'] },
+  { prefix: '/admin/client-assignments', anyOf: ['assignments.manage'] },
+  { prefix: '/admin/invitations', anyOf: ['invitations.manage'] },
+  { prefix: '/admin/audit-log', anyOf: ['audit.read'] },
+  { prefix: '/admin', anyOf: ['users.manage', 'assignments.manage', 'invitations.manage', 'audit.read'] },
+  { prefix: '/trainers/clients', anyOf: ['clients.read_assigned', 'clients.read_all'] },
+  { prefix: '/trainers/analytics', anyOf: ['analytics.view_own', 'analytics.view_all'] },
+  { prefix: '/trainers', anyOf: ['sessions.manage'] },
+  { prefix: '/client-detail', anyOf: ['clients.read_assigned', 'clients.read_all'] },
+  { prefix: '/client-list', anyOf: ['clients.read_assigned', 'clients.read_all'] },
+  { prefix: '/nutrition/client', anyOf: ['clients.read_assigned', 'clients.read_all'] },
+  { prefix: '/nutrition/plan', anyOf: ['nutrition.manage'] },
+  { prefix: '/create-plan', anyOf: ['plans.manage'] },
+  { prefix: '/create-template', anyOf: ['plans.manage'] },
+  { prefix: '/workout-plans', anyOf: ['plans.manage'] },
+  { prefix: '/new-session', anyOf: ['sessions.manage'] },
+  { prefix: '/schedule-session', anyOf: ['sessions.manage'] },
+];
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && value in ROLE_CAPABILITIES;
+
+export const can = (role: UserRole | null | undefined, capability: Capability): boolean =>
+  !!role && ROLE_CAPABILITIES[role].includes(capability);
+
+export const getRouteCapabilities = (pathname: string): Capability[] | null => {
+  const rule = ROUTE_CAPABILITIES.find(
+    route => pathname === route.prefix || pathname.startsWith(`${route.prefix}/`)
+  );
+  return rule ? rule.anyOf : null;
+};
+
+export const canAccessRoute = (role: UserRole | null | undefined, pathname: string): boolean => {
+  const required = getRouteCapabilities(pathname);
+  return !required || required.some(capability => can(role, capability));
+};
+
+// Capability check for the signed-in user, for queries that run outside React
+export const currentUserCan = async (capability: Capability): Promise<boolean> => {
+  const profile = await getCurrentUserProfile();
+  return !!profile && isUserRole(profile.role) && can(profile.role, capability);
+};
+
+// Whether the signed-in user may read this client's data: staff who see every
+// client, or a trainer/nutritionist with an active assignment to them
+export const canViewClient = async (clientId: string): Promise<boolean> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile || !isUserRole(profile.role)) return false;
+    if (profile.id === clientId || can(profile.role, 'clients.read_all')) return true;
+    if (!can(profile.role, 'clients.read_assigned')) return false;
+
+    const { data, error } = await supabase
+      .from('client_assignments')
+      .select('id')
+      .eq('client_id', clientId)
+      .eq('status', 'active')
+      .or(`trainer_id.eq.${profile.id},nutritionist_id.eq.${profile.id}`)
+      .limit(1);
+
+    if (error) {
+      console.error('Error checking client assignment:', error);
+      return false;
+    }
+    return (data || []).length > 0;
+  } catch (error) {
+    console.error('Error in canViewClient:', error);
+    return false;
+  }
+};
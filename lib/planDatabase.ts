@@ -1,7 +1,27 @@
 
-import { supabase } from './supabase';
-import { WorkoutPlan, PlanSession, WorkoutTemplate } from '@/types/workout';
-import { Alert } from 'react-native';
+import { typedSupabase as supabase, TablesInsert } from './supabase';
+import { WorkoutPlan, PlanSession } from '@/types/workout';
+
+// Every plan read and write goes through this module; screens should not query
+// workout_plans or plan_sessions themselves
+export type { WorkoutPlan, PlanSession };
+
+export type WorkoutPlanInput = Pick<
+  TablesInsert<'workout_plans'>,
+  | 'client_id'
+  | 'trainer_id'
+  | 'name'
+  | 'description'
+  | 'start_date'
+  | 'end_date'
+  | 'schedule_type'
+  | 'schedule_data'
+  | 'progression_rule'
+  | 'progression_config'
+  | 'status'
+>;
+
+export type PlanSessionInput = Omit<TablesInsert<'plan_sessions'>, 'id' | 'plan_id' | 'created_at' | 'updated_at'>;
 
 export interface WorkoutTemplateForPlan {
   id: string;
@@ -76,86 +96,159 @@ export async function getWorkoutTemplatesForPlans(): Promise<WorkoutTemplateForP
   }
 }
 
-export async function createWorkoutPlan(planData: Omit<WorkoutPlan, 'id' | 'created_at' | 'updated_at' | 'status'>): Promise<WorkoutPlan | null> {
+// Writes the plan and replaces its upcoming sessions in one transaction, so a
+// failed save never leaves a plan without sessions or with its old schedule.
+// Completed and skipped sessions are kept. Pass planId to edit an existing
+// plan. Throws with the server message.
+export async function saveWorkoutPlan(
+  plan: WorkoutPlanInput,
+  sessions: PlanSessionInput[],
+  planId?: string
+): Promise<WorkoutPlan> {
+  const { data, error } = await supabase.rpc('save_workout_plan', {
+    plan,
+    sessions,
+    target_plan_id: planId,
+  });
+
+  if (error) {
+    console.error('Error saving workout plan:', error);
+    throw new Error(error.message || 'Failed to save plan');
+  }
+
+  return data as WorkoutPlan;
+}
+
+// Rebuild a saved plan's upcoming sessions from its current schedule
+export async function regeneratePlanSessions(plan: WorkoutPlan, sessions: PlanSessionInput[]): Promise<WorkoutPlan> {
+  return saveWorkoutPlan(
+    {
+      client_id: plan.client_id,
+      trainer_id: plan.trainer_id,
+      name: plan.name,
+      description: plan.description ?? null,
+      start_date: plan.start_date,
+      end_date: plan.end_date,
+      schedule_type: plan.schedule_type,
+      schedule_data: plan.schedule_data,
+      progression_rule: plan.progression_rule,
+      progression_config: plan.progression_config,
+      status: plan.status,
+    },
+    sessions,
+    plan.id
+  );
+}
+
+export async function getWorkoutPlan(planId: string): Promise<WorkoutPlan | null> {
   try {
     const { data, error } = await supabase
       .from('workout_plans')
-      .insert(planData)
-      .select()
+      .select('*')
+      .eq('id', planId)
       .single();
 
     if (error) {
-      console.error('Error creating workout plan:', error);
+      console.error('Error fetching workout plan:', error);
       throw error;
     }
 
     return data as WorkoutPlan;
   } catch (error) {
-    console.error('Error in createWorkoutPlan:', error);
+    console.error('Error in getWorkoutPlan:', error);
     throw error;
   }
 }
 
-export async function updateWorkoutPlan(planId: string, planData: Partial<Omit<WorkoutPlan, 'id' | 'created_at' | 'updated_at'>>): Promise<WorkoutPlan | null> {
+export interface PlanSessionWithTemplate extends PlanSession {
+  template: { id: string; name: string; exercises: { id: string }[] } | null;
+}
+
+// The plan currently running for the signed-in client, if any
+export async function getActiveClientPlan(): Promise<WorkoutPlan | null> {
   try {
+    const clientId = await getCurrentUserProfileId();
+    const today = new Date().toISOString().split('T')[0];
+
     const { data, error } = await supabase
       .from('workout_plans')
-      .update(planData)
-      .eq('id', planId)
-      .select()
-      .single();
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('status', 'active')
+      .lte('start_date', today)
+      .gte('end_date', today)
+      .order('start_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
     if (error) {
-      console.error('Error updating workout plan:', error);
+      console.error('Error fetching active client plan:', error);
       throw error;
     }
 
-    return data as WorkoutPlan;
+    return data as WorkoutPlan | null;
   } catch (error) {
-    console.error('Error in updateWorkoutPlan:', error);
+    console.error('Error in getActiveClientPlan:', error);
     throw error;
   }
 }
 
-export async function getWorkoutPlan(planId: string): Promise<WorkoutPlan | null> {
+export async function getPlanSessionsInRange(planId: string, startDate: string, endDate: string): Promise<PlanSessionWithTemplate[]> {
   try {
     const { data, error } = await supabase
-      .from('workout_plans')
-      .select('*')
-      .eq('id', planId)
-      .single();
+      .from('plan_sessions')
+      .select('*, template:workout_templates(id, name, exercises:template_exercises(id))')
+      .eq('plan_id', planId)
+      .gte('scheduled_date', startDate)
+      .lte('scheduled_date', endDate)
+      .order('scheduled_date');
 
     if (error) {
-      console.error('Error fetching workout plan:', error);
+      console.error('Error fetching plan sessions:', error);
       throw error;
     }
 
-    return data as WorkoutPlan;
+    return (data || []) as unknown as PlanSessionWithTemplate[];
   } catch (error) {
-    console.error('Error in getWorkoutPlan:', error);
+    console.error('Error in getPlanSessionsInRange:', error);
     throw error;
   }
 }
 
-export async function createPlanSessions(sessions: Omit<PlanSession, 'id' | 'created_at' | 'updated_at'>[]): Promise<PlanSession[] | null> {
+export async function getPlanSessions(planId: string): Promise<PlanSession[]> {
   try {
     const { data, error } = await supabase
       .from('plan_sessions')
-      .insert(sessions)
-      .select();
+      .select('*')
+      .eq('plan_id', planId)
+      .order('scheduled_date');
 
     if (error) {
-      console.error('Error creating plan sessions:', error);
+      console.error('Error fetching plan sessions:', error);
       throw error;
     }
 
-    return data as PlanSession[];
+    return (data || []) as PlanSession[];
   } catch (error) {
-    console.error('Error in createPlanSessions:', error);
+    console.error('Error in getPlanSessions:', error);
     throw error;
   }
 }
 
+// Move sessions to new dates, keeping their time and template, in one
+// transaction so a failure never leaves the week half rearranged. The client's
+// devices pick the change up over realtime and reschedule their reminders.
+export async function movePlanSessions(moves: { id: string; scheduled_date: string; day_of_week?: string }[]): Promise<void> {
+  if (moves.length === 0) return;
+
+  const { error } = await supabase.rpc('move_plan_sessions', { moves });
+
+  if (error) {
+    console.error('Error moving plan sessions:', error);
+    throw new Error(error.message);
+  }
+}
+
 export async function deletePlanSessions(planId: string): Promise<void> {
   try {
     const { error } = await supabase
@@ -173,90 +266,6 @@ export async function deletePlanSessions(planId: string): Promise<void> {
   }
 }
 
-
-export async function createSampleClientAssignment(): Promise<boolean> {
-  try {
-    const { data: { user } = {} } = await supabase.auth.getUser();
-    if (!user) {
-      Alert.alert('Error', 'User not authenticated');
-      return false;
-    }
-
-    const { data: trainerProfile, error: trainerProfileError } = await supabase
-      .from('profiles')
-      .select('id')
-      .eq('user_id', user.id)
-      .eq('role', 'trainer')
-      .single();
-
-    if (trainerProfileError || !trainerProfile) {
-      Alert.alert('Error', 'Trainer profile not found. Please ensure you are logged in as a trainer.');
-      return false;
-    }
-
-    const { data: existingClient, error: existingClientError } = await supabase
-      .from('profiles')
-      .select('id')
-      .eq('email', 'sampleclient@vinayfit.com')
-      .single();
-
-    let sampleClientId;
-    if (existingClient) {
-      sampleClientId = existingClient.id;
-    } else {
-      const { data: newClient, error: newClientError } = await supabase
-        .from('profiles')
-        .insert({
-          email: 'sampleclient@vinayfit.com',
-          full_name: 'Sample Client',
-          role: 'client',
-        })
-        .select('id')
-        .single();
-
-      if (newClientError || !newClient) {
-        console.error('Error creating sample client:', newClientError);
-        Alert.alert('Error', 'Failed to create sample client.');
-        return false;
-      }
-      sampleClientId = newClient.id;
-    }
-
-    const { data: existingAssignment, error: assignmentCheckError } = await supabase
-      .from('client_assignments')
-      .select('id')
-      .eq('client_id', sampleClientId)
-      .eq('trainer_id', trainerProfile.id)
-      .single();
-
-    if (existingAssignment) {
-      Alert.alert('Info', 'Sample client already assigned to you.');
-      return true;
-    }
-
-    const { error: assignmentError } = await supabase
-      .from('client_assignments')
-      .insert({
-        client_id: sampleClientId,
-        trainer_id: trainerProfile.id,
-        assigned_by: trainerProfile.id,
-        status: 'active',
-      });
-
-    if (assignmentError) {
-      console.error('Error creating sample client assignment:', assignmentError);
-      Alert.alert('Error', 'Failed to create sample client assignment.');
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Unexpected error in createSampleClientAssignment:', error);
-    Alert.alert('Error', 'An unexpected error occurred while creating sample client assignment.');
-    return false;
-  }
-}
-
 export async function getWorkoutPlans(): Promise<WorkoutPlan[]> {
   try {
     const profile = await getCurrentUserProfileId();
@@ -298,7 +307,7 @@ export async function getWorkoutPlans(): Promise<WorkoutPlan[]> {
       return [];
     }
 
-    return data || [];
+    return (data || []) as WorkoutPlan[];
   } catch (error) {
     console.error('💥 Unexpected error in getWorkoutPlans:', error);
     return [];
@@ -0,0 +1,271 @@
+import { supabase } from './supabase';
+import {
+  ProgressionConfig,
+  ProgressionRule,
+  TemplateExercise,
+  WorkoutPlan,
+  WorkoutSet,
+} from '@/types/workout';
+import { getSessions } from '@/utils/storage';
+
+export interface PerformedSet {
+  reps: number;
+  weight: number;
+  rpe?: number;
+  completed: boolean;
+}
+
+export interface ExercisePerformance {
+  performed_on: string;
+  sets: PerformedSet[];
+}
+
+export interface ProgressionSuggestion {
+  exerciseId: string;
+  sets: WorkoutSet[];
+  reason: string;
+  changed: boolean;
+}
+
+export const PROGRESSION_RULES: { value: ProgressionRule; label: string; description: string }[] = [
+  { value: 'none', label: 'Template As Written', description: 'Always prefill the template sets' },
+  { value: 'linear', label: 'Linear', description: 'Add weight whenever every target rep was hit' },
+  { value: 'double_progression', label: 'Double Progression', description: 'Add reps to the top of the range, then add weight' },
+  { value: 'rpe', label: 'RPE-Based', description: 'Choose the load that lands the target RPE' },
+];
+
+export const DEFAULT_PROGRESSION_CONFIG: Required<ProgressionConfig> = {
+  weight_increment_kg: 2.5,
+  rep_range_min: 8,
+  rep_range_max: 12,
+  target_rpe: 8,
+  deload_percent: 10,
+};
+
+// Sessions of history considered per exercise
+const HISTORY_DEPTH = 3;
+
+const roundToIncrement = (weight: number, increment: number): number => {
+  if (increment <= 0) return Math.round(weight * 10) / 10;
+  return Math.round(weight / increment) * increment;
+};
+
+// Epley, with reps-in-reserve folded in so an RPE 8 set of 5 counts like a 7RM
+const estimateOneRepMax = (weight: number, reps: number, rpe?: number): number => {
+  const repsInReserve = rpe ? Math.max(10 - rpe, 0) : 0;
+  return weight * (1 + (reps + repsInReserve) / 30);
+};
+
+const loadForReps = (oneRepMax: number, reps: number, rpe: number): number => {
+  const repsInReserve = Math.max(10 - rpe, 0);
+  return oneRepMax / (1 + (reps + repsInReserve) / 30);
+};
+
+const workingSets = (performance: ExercisePerformance) =>
+  performance.sets.filter(set => set.completed && set.weight > 0);
+
+const topWeight = (performance: ExercisePerformance) =>
+  Math.max(...workingSets(performance).map(set => set.weight));
+
+const hitAllTargets = (performance: ExercisePerformance, planned: WorkoutSet[]) =>
+  planned.every((target, index) => {
+    const performed = performance.sets[index];
+    return performed?.completed && performed.reps >= (target.reps || 0);
+  });
+
+const withLoad = (planned: WorkoutSet[], weight: number, reps?: number): WorkoutSet[] =>
+  planned.map(set => ({ ...set, weight, reps: reps ?? set.reps }));
+
+const formatKg = (weight: number) => `${Number(weight.toFixed(1))} kg`;
+
+const suggestLinear = (
+  planned: WorkoutSet[],
+  history: ExercisePerformance[],
+  config: Required<ProgressionConfig>
+) => {
+  const [last, previous] = history;
+  const lastWeight = topWeight(last);
+
+  if (hitAllTargets(last, planned)) {
+    const next = lastWeight + config.weight_increment_kg;
+    return { sets: withLoad(planned, next), reason: `+${formatKg(config.weight_increment_kg)}: every target rep hit last session` };
+  }
+
+  // Two misses in a row at the same load means the client has stalled; a
+  // miss after a load change is just a first attempt at the new weight
+  if (previous && topWeight(previous) === lastWeight && !hitAllTargets(previous, planned)) {
+    const next = roundToIncrement(lastWeight * (1 - config.deload_percent / 100), config.weight_increment_kg);
+    return { sets: withLoad(planned, next), reason: `Deload to ${formatKg(next)} after two missed sessions` };
+  }
+
+  return { sets: withLoad(planned, lastWeight), reason: `Repeat ${formatKg(lastWeight)}: some reps were missed last session` };
+};
+
+const suggestDoubleProgression = (
+  planned: WorkoutSet[],
+  history: ExercisePerformance[],
+  config: Required<ProgressionConfig>
+) => {
+  const sets = workingSets(history[0]);
+  const lastWeight = topWeight(history[0]);
+  const atLastWeight = sets.filter(set => set.weight === lastWeight);
+  const lowestReps = Math.min(...atLastWeight.map(set => set.reps));
+
+  if (atLastWeight.length >= planned.length && lowestReps >= config.rep_range_max) {
+    const next = lastWeight + config.weight_increment_kg;
+    return {
+      sets: withLoad(planned, next, config.rep_range_min),
+      reason: `+${formatKg(config.weight_increment_kg)}: top of the ${config.rep_range_min}-${config.rep_range_max} range reached`,
+    };
+  }
+
+  const nextReps = Math.min(Math.max(lowestReps + 1, config.rep_range_min), config.rep_range_max);
+  return {
+    sets: withLoad(planned, lastWeight, nextReps),
+    reason: `Aim for ${nextReps} reps at ${formatKg(lastWeight)} before adding weight`,
+  };
+};
+
+const suggestRpe = (
+  planned: WorkoutSet[],
+  history: ExercisePerformance[],
+  config: Required<ProgressionConfig>
+) => {
+  const rated = workingSets(history[0]).filter(set => set.rpe);
+  if (rated.length === 0) {
+    // Nothing to anchor an RPE target to; fall back to rep-range progression
+    return suggestDoubleProgression(planned, history, config);
+  }
+
+  const oneRepMax = Math.max(...rated.map(set => estimateOneRepMax(set.weight, set.reps, set.rpe)));
+  const sets = planned.map(set => {
+    const reps = set.reps || config.rep_range_min;
+    const targetRpe = set.rpe || config.target_rpe;
+    return {
+      ...set,
+      reps,
+      rpe: targetRpe,
+      weight: roundToIncrement(loadForReps(oneRepMax, reps, targetRpe), config.weight_increment_kg),
+    };
+  });
+
+  return { sets, reason: `Loads for RPE ${config.target_rpe} from an estimated 1RM of ${formatKg(oneRepMax)}` };
+};
+
+// Propose next-session sets for one exercise. `history` is most recent first.
+export const suggestNextSets = (
+  rule: ProgressionRule,
+  planned: WorkoutSet[],
+  history: ExercisePerformance[],
+  config: ProgressionConfig = {}
+): { sets: WorkoutSet[]; reason: string } => {
+  const resolvedConfig = { ...DEFAULT_PROGRESSION_CONFIG, ...config };
+  const usable = history.filter(performance => workingSets(performance).length > 0);
+
+  if (rule === 'none' || planned.length === 0) {
+    return { sets: planned, reason: '' };
+  }
+  if (usable.length === 0) {
+    return { sets: planned, reason: 'No logged sessions yet; using the template' };
+  }
+
+  switch (rule) {
+    case 'linear':
+      return suggestLinear(planned, usable, resolvedConfig);
+    case 'double_progression':
+      return suggestDoubleProgression(planned, usable, resolvedConfig);
+    case 'rpe':
+      return suggestRpe(planned, usable, resolvedConfig);
+  }
+};
+
+const toPerformedSet = (set: any): PerformedSet => ({
+  reps: Number(set?.reps) || 0,
+  weight: Number(set?.weight) || 0,
+  rpe: set?.rpe ? Number(set.rpe) : undefined,
+  completed: set?.completed !== false,
+});
+
+// Recent per-exercise performance from workout_logs, plus completed sessions
+// still waiting on this device to sync. Most recent first.
+export const getRecentExercisePerformance = async (
+  clientId: string,
+  exerciseIds: string[]
+): Promise<Record<string, ExercisePerformance[]>> => {
+  const history: Record<string, ExercisePerformance[]> = {};
+  exerciseIds.forEach(id => {
+    history[id] = [];
+  });
+  if (exerciseIds.length === 0) return history;
+
+  try {
+    const { data, error } = await supabase
+      .from('workout_logs')
+      .select('exercise_id, sets_performed, created_at, session:workout_sessions!inner(client_id, date, completed)')
+      .eq('session.client_id', clientId)
+      .eq('session.completed', true)
+      .in('exercise_id', exerciseIds)
+      .order('created_at', { ascending: false })
+      .limit(exerciseIds.length * HISTORY_DEPTH * 2);
+
+    if (error) {
+      console.error('Error fetching exercise performance:', error);
+    }
+
+    (data || []).forEach((log: any) => {
+      const session = Array.isArray(log.session) ? log.session[0] : log.session;
+      history[log.exercise_id]?.push({
+        performed_on: session?.date || log.created_at.split('T')[0],
+        sets: (log.sets_performed || []).map(toPerformedSet),
+      });
+    });
+  } catch (error) {
+    console.error('Error in getRecentExercisePerformance:', error);
+  }
+
+  const unsynced = (await getSessions()).filter(session => session.completed && !session.synced);
+  unsynced.forEach(session => {
+    session.exercises.forEach(exercise => {
+      history[exercise.exercise_id]?.push({
+        performed_on: session.date,
+        sets: exercise.sets.map(toPerformedSet),
+      });
+    });
+  });
+
+  Object.keys(history).forEach(id => {
+    history[id] = history[id]
+      .sort((a, b) => b.performed_on.localeCompare(a.performed_on))
+      .slice(0, HISTORY_DEPTH);
+  });
+
+  return history;
+};
+
+// Suggestions for every exercise in a template, using the plan's rule.
+// Without a plan (ad-hoc workouts) double progression is a safe default.
+export const getProgressionSuggestions = async (
+  clientId: string,
+  templateExercises: Pick<TemplateExercise, 'exercise_id' | 'sets_config'>[],
+  plan?: WorkoutPlan | null
+): Promise<Record<string, ProgressionSuggestion>> => {
+  const rule = plan?.progression_rule || (plan ? 'none' : 'double_progression');
+  const suggestions: Record<string, ProgressionSuggestion> = {};
+  if (rule === 'none') return suggestions;
+
+  const exerciseIds = templateExercises.map(exercise => exercise.exercise_id).filter(Boolean);
+  const history = await getRecentExercisePerformance(clientId, exerciseIds);
+
+  templateExercises.forEach(exercise => {
+    const planned = Array.isArray(exercise.sets_config) ? exercise.sets_config : [];
+    const { sets, reason } = suggestNextSets(rule, planned, history[exercise.exercise_id] || [], plan?.progression_config);
+    suggestions[exercise.exercise_id] = {
+      exerciseId: exercise.exercise_id,
+      sets,
+      reason,
+      changed: sets.some((set, index) => set.weight !== planned[index]?.weight || set.reps !== planned[index]?.reps),
+    };
+  });
+
+  return suggestions;
+};
@@ -0,0 +1,199 @@
+import { supabase } from './supabase';
+import type { Tables, TablesInsert } from './supabase';
+import {
+  Food,
+  FoodPortion,
+  FoodProduct,
+  NutrientValues,
+  GRAM_SERVING,
+  portionEntryFields,
+  nutrientsPer100g,
+} from './foods';
+
+export type RecipeIngredient = Tables<'recipe_ingredients'> & {
+  // The food_products row, for ingredients added by barcode
+  product?: FoodProduct | null;
+};
+
+export type Recipe = Tables<'recipes'> & {
+  ingredients: RecipeIngredient[];
+  author?: { id: string; full_name: string } | null;
+};
+
+// An ingredient as the editor holds it: the food it came from, the amount and
+// the nutrients for that amount
+export type RecipeIngredientInput = Omit<
+  TablesInsert<'recipe_ingredients'>,
+  'id' | 'recipe_id' | 'position' | 'created_at'
+>;
+
+export interface RecipeInput {
+  name: string;
+  description?: string | null;
+  instructions?: string | null;
+  servings: number; // how many servings the recipe yields
+  is_published?: boolean;
+}
+
+export interface RecipeNutrition {
+  grams: number;
+  total: NutrientValues;
+  perServing: NutrientValues;
+}
+
+// The label recipes are logged by, next to grams
+export const RECIPE_SERVING_LABEL = 'serving';
+
+const NUTRIENT_KEYS: (keyof NutrientValues)[] = [
+  'calories', 'protein_g', 'carbs_g', 'fat_g', 'fiber_g', 'sugar_g', 'sodium_mg',
+];
+
+const RECIPE_SELECT = `
+  *,
+  ingredients:recipe_ingredients(*, product:food_products(*)),
+  author:profiles!recipes_created_by_fkey(id, full_name)
+`;
+
+const sortIngredients = (recipe: any): Recipe => ({
+  ...recipe,
+  ingredients: [...(recipe.ingredients || [])].sort((a, b) => a.position - b.position),
+});
+
+// The ingredient for a portion picked in the food picker. Recipes don't nest,
+// so there is no recipe link to keep.
+export const ingredientFromPortion = (portion: FoodPortion): RecipeIngredientInput => {
+  const { recipe_id: _recipe, ...fields } = portionEntryFields(portion);
+  return {
+    ...fields,
+    name: portion.food.name,
+    quantity: portion.quantity,
+    serving_label: portion.serving.label,
+    serving_grams: portion.serving.grams,
+  };
+};
+
+export const recipeNutrition = (
+  ingredients: Pick<RecipeIngredientInput, keyof NutrientValues | 'quantity' | 'serving_grams'>[],
+  servings: number
+): RecipeNutrition => {
+  const total = NUTRIENT_KEYS.reduce((values, key) => {
+    values[key] = ingredients.reduce((sum, ingredient) => sum + (Number(ingredient[key]) || 0), 0);
+    return values;
+  }, {} as NutrientValues);
+  const grams = ingredients.reduce(
+    (sum, ingredient) => sum + Number(ingredient.quantity) * Number(ingredient.serving_grams),
+    0
+  );
+  const yieldServings = servings > 0 ? servings : 1;
+
+  const perServing = NUTRIENT_KEYS.reduce((values, key) => {
+    const value = total[key] / yieldServings;
+    values[key] = key === 'calories' || key === 'sodium_mg' ? Math.round(value) : Math.round(value * 10) / 10;
+    return values;
+  }, {} as NutrientValues);
+
+  return { grams, total, perServing };
+};
+
+// A recipe as a food for the food picker: nutrients per 100 g of the finished
+// dish, logged by the serving or by weight
+export const toRecipeFood = (recipe: Recipe): Food => {
+  const { grams, total } = recipeNutrition(recipe.ingredients, recipe.servings);
+  return {
+    key: `recipe:${recipe.id}`,
+    source: 'recipe',
+    id: recipe.id,
+    name: recipe.name,
+    brand: null,
+    category: recipe.author?.full_name ? `Recipe by ${recipe.author.full_name}` : 'Recipe',
+    nutrients: nutrientsPer100g(total, grams),
+    servings: [
+      { label: RECIPE_SERVING_LABEL, grams: Math.round((grams / recipe.servings) * 10) / 10 },
+      GRAM_SERVING,
+    ],
+  };
+};
+
+// The user's own recipes and the ones their coaches published to them
+export const getRecipes = async (): Promise<Recipe[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('recipes')
+      .select(RECIPE_SELECT)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching recipes:', error);
+      return [];
+    }
+
+    return (data || []).map(sortIngredients);
+  } catch (error) {
+    console.error('Error in getRecipes:', error);
+    return [];
+  }
+};
+
+// Recipes that can be logged, as foods for the food picker
+export const getRecipeFoods = async (): Promise<Food[]> => {
+  const recipes = await getRecipes();
+  return recipes.filter(recipe => recipe.ingredients.length > 0).map(toRecipeFood);
+};
+
+// Writes the recipe and replaces its ingredients in one transaction. Pass
+// recipeId to edit an existing recipe. Throws with the server message, e.g.
+// when someone without nutrition.manage tries to publish.
+export const saveRecipe = async (
+  recipe: RecipeInput,
+  ingredients: RecipeIngredientInput[],
+  recipeId?: string
+): Promise<Recipe> => {
+  const { data, error } = await supabase.rpc('save_recipe', {
+    recipe: {
+      ...recipe,
+      name: recipe.name.trim(),
+      description: recipe.description?.trim() || null,
+      instructions: recipe.instructions?.trim() || null,
+    },
+    ingredients: ingredients.map((ingredient, position) => ({ ...ingredient, position })),
+    target_recipe_id: recipeId,
+  });
+
+  if (error) {
+    console.error('Error saving recipe:', error);
+    throw new Error(error.message || 'Failed to save recipe');
+  }
+
+  const { data: saved, error: fetchError } = await supabase
+    .from('recipes')
+    .select(RECIPE_SELECT)
+    .eq('id', data.id)
+    .single();
+
+  if (fetchError) {
+    console.error('Error fetching saved recipe:', fetchError);
+    return { ...data, ingredients: [] };
+  }
+
+  return sortIngredients(saved);
+};
+
+// Entries logged from the recipe keep their totals; only the link is cleared
+export const deleteRecipe = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('recipes')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting recipe:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteRecipe:', error);
+    return false;
+  }
+};
@@ -0,0 +1,152 @@
+import { supabase } from './supabase';
+import type { Tables } from './supabase';
+import { emitDataChange } from './dataEvents';
+import { getCurrentUserProfile } from './database';
+import { FoodEntry, MealType, foodEntryContents } from './foodJournal';
+
+export type SavedMealItem = Tables<'saved_meal_items'>;
+
+export type SavedMeal = Tables<'saved_meals'> & {
+  items: SavedMealItem[];
+  meal_type?: MealType | null;
+};
+
+export interface SavedMealGroup {
+  // null for meals whose meal type was removed
+  meal_type: MealType | null;
+  meals: SavedMeal[];
+}
+
+// Where and when a saved meal is logged
+export interface SavedMealTarget {
+  date: string;
+  time: string;
+  // Defaults to the meal's own meal type
+  meal_type_id?: string;
+}
+
+export const savedMealCalories = (meal: SavedMeal) =>
+  meal.items.reduce((total, item) => total + (Number(item.calories) || 0), 0);
+
+// Saved meals under each meal type, in meal type order
+export const groupSavedMeals = (meals: SavedMeal[], mealTypes: MealType[]): SavedMealGroup[] => {
+  const groups: SavedMealGroup[] = mealTypes.map(mealType => ({
+    meal_type: mealType,
+    meals: meals.filter(meal => meal.meal_type_id === mealType.id),
+  }));
+  const untyped = meals.filter(meal => !mealTypes.some(mealType => mealType.id === meal.meal_type_id));
+  if (untyped.length > 0) groups.push({ meal_type: null, meals: untyped });
+  return groups.filter(group => group.meals.length > 0);
+};
+
+export const getSavedMeals = async (): Promise<SavedMeal[]> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return [];
+
+    const { data, error } = await supabase
+      .from('saved_meals')
+      .select(`
+        *,
+        items:saved_meal_items(*),
+        meal_type:meal_types(*)
+      `)
+      .eq('created_by', profile.id)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching saved meals:', error);
+      return [];
+    }
+
+    return (data || []).map((meal: any) => ({
+      ...meal,
+      items: [...(meal.items || [])].sort((a, b) => a.position - b.position),
+    }));
+  } catch (error) {
+    console.error('Error in getSavedMeals:', error);
+    return [];
+  }
+};
+
+// Save what was eaten in some entries as a meal to log again later
+export const saveMealFromEntries = async (
+  name: string,
+  mealTypeId: string | null,
+  entries: FoodEntry[]
+): Promise<SavedMeal | null> => {
+  try {
+    const { data, error } = await supabase.rpc('save_meal', {
+      meal: { name: name.trim(), meal_type_id: mealTypeId },
+      items: entries.map((entry, position) => ({ ...foodEntryContents(entry), position })),
+    });
+
+    if (error) {
+      console.error('Error saving meal:', error);
+      return null;
+    }
+
+    return { ...data, items: [] };
+  } catch (error) {
+    console.error('Error in saveMealFromEntries:', error);
+    return null;
+  }
+};
+
+// Log every food in a saved meal. Returns the new entries, or null if
+// nothing was logged.
+export const logSavedMeal = async (meal: SavedMeal, target: SavedMealTarget): Promise<FoodEntry[] | null> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return null;
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('food_entries')
+      .insert(meal.items.map(({ id, saved_meal_id, position, created_at, ...item }) => ({
+        ...item,
+        user_id: profile.id,
+        meal_type_id: target.meal_type_id || meal.meal_type_id,
+        date: target.date,
+        time: target.time,
+        created_at: now,
+        updated_at: now,
+      })))
+      .select(`
+        *,
+        meal_type:meal_types(*),
+        photos:food_photos(*),
+        product:food_products(*)
+      `);
+
+    if (error) {
+      console.error('Error logging saved meal:', error);
+      return null;
+    }
+
+    emitDataChange('nutrition');
+    return data || [];
+  } catch (error) {
+    console.error('Error in logSavedMeal:', error);
+    return null;
+  }
+};
+
+export const deleteSavedMeal = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('saved_meals')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting saved meal:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteSavedMeal:', error);
+    return false;
+  }
+};
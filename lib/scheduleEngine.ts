@@ -0,0 +1,246 @@
+import {
+  CustomPlanWorkout,
+  DayOfWeek,
+  PlanBlackout,
+  PlanPeriodization,
+  PlanScheduleData,
+  PlanSession,
+  ScheduleType,
+  WeeklySchedule,
+} from '@/types/workout';
+
+export const DAYS_OF_WEEK: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Indexed by Date#getUTCDay
+const DAY_BY_INDEX: DayOfWeek[] = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_ROTATION_WEEKS = 4;
+
+export interface ScheduleInput {
+  schedule_type: ScheduleType;
+  schedule_data: PlanScheduleData;
+  start_date: string;
+  end_date: string;
+}
+
+export interface GeneratedSession {
+  template_id: string;
+  scheduled_date: string;
+  day_of_week: DayOfWeek;
+  week_number: number;
+  is_deload: boolean;
+  status: 'scheduled';
+  notes: string | null;
+}
+
+export interface BlackedOutSession {
+  template_id: string;
+  scheduled_date: string;
+  blackout: PlanBlackout;
+}
+
+export interface GeneratedSchedule {
+  sessions: GeneratedSession[];
+  blackedOut: BlackedOutSession[];
+}
+
+export interface ScheduleWeek {
+  week_number: number;
+  mesocycle: number | null;
+  is_deload: boolean;
+  start_date: string;
+  sessions: GeneratedSession[];
+  blackedOut: BlackedOutSession[];
+}
+
+// Existing sessions considered when regenerating a plan
+export type ExistingSession = Pick<PlanSession, 'scheduled_date' | 'status'>;
+
+// Plan dates are calendar days, so all arithmetic is done in UTC to stay clear
+// of the device's timezone and daylight saving changes
+const toUtcDate = (date: string) => new Date(`${date}T00:00:00Z`);
+
+export const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+export const addDays = (date: string, days: number): string => {
+  const next = toUtcDate(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return toDateString(next);
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((toUtcDate(to).getTime() - toUtcDate(from).getTime()) / DAY_MS);
+
+export const emptyWeek = (): WeeklySchedule => ({
+  Monday: null,
+  Tuesday: null,
+  Wednesday: null,
+  Thursday: null,
+  Friday: null,
+  Saturday: null,
+  Sunday: null,
+});
+
+export const emptyScheduleData = (): PlanScheduleData => ({
+  version: 2,
+  weeks: [emptyWeek()],
+  custom: [],
+  periodization: null,
+  blackouts: [],
+});
+
+const isWeekLayout = (value: unknown): value is Partial<WeeklySchedule> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && DAYS_OF_WEEK.some(day => day in value);
+
+// Reads schedule_data in any shape a plan may hold: the v2 object, or one of
+// the older shapes (a bare week layout, a map of week number to layout, or a
+// list of custom workouts)
+export const parseScheduleData = (raw: unknown): PlanScheduleData => {
+  const data = emptyScheduleData();
+  if (!raw || typeof raw !== 'object') return data;
+
+  if ((raw as PlanScheduleData).version === 2) {
+    const stored = raw as PlanScheduleData;
+    return {
+      ...data,
+      ...stored,
+      weeks: stored.weeks?.length ? stored.weeks.map(week => ({ ...emptyWeek(), ...week })) : data.weeks,
+      custom: stored.custom || [],
+      blackouts: stored.blackouts || [],
+    };
+  }
+
+  if (Array.isArray(raw)) {
+    data.custom = raw as CustomPlanWorkout[];
+  } else if (isWeekLayout(raw)) {
+    data.weeks = [{ ...emptyWeek(), ...raw }];
+  } else {
+    const weeks = Object.entries(raw)
+      .filter(([key, value]) => !isNaN(Number(key)) && isWeekLayout(value))
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([, value]) => ({ ...emptyWeek(), ...(value as Partial<WeeklySchedule>) }));
+    if (weeks.length > 0) data.weeks = weeks;
+  }
+
+  return data;
+};
+
+export const countWorkoutDays = (week: WeeklySchedule) =>
+  DAYS_OF_WEEK.filter(day => week[day]).length;
+
+// 1-based week of the plan that a date falls in, counted from the start date
+export const weekOfPlan = (startDate: string, date: string) =>
+  Math.floor(daysBetween(startDate, date) / 7) + 1;
+
+export const isDeloadWeek = (weekNumber: number, periodization: PlanPeriodization | null) => {
+  if (!periodization || periodization.mesocycle_weeks <= 0 || periodization.deload_weeks <= 0) {
+    return false;
+  }
+  const position = (weekNumber - 1) % periodization.mesocycle_weeks;
+  return position >= periodization.mesocycle_weeks - periodization.deload_weeks;
+};
+
+export const mesocycleOf = (weekNumber: number, periodization: PlanPeriodization | null) =>
+  periodization && periodization.mesocycle_weeks > 0
+    ? Math.floor((weekNumber - 1) / periodization.mesocycle_weeks) + 1
+    : null;
+
+export const findBlackout = (date: string, blackouts: PlanBlackout[]) =>
+  blackouts.find(blackout => blackout.start_date <= date && date <= blackout.end_date) || null;
+
+// The layout a week uses: weekly plans repeat their one layout, monthly plans
+// rotate through theirs so exercises change from week to week
+export const getWeekLayout = (input: ScheduleInput, weekNumber: number): WeeklySchedule => {
+  const { weeks } = input.schedule_data;
+  if (input.schedule_type === 'weekly' || weeks.length === 0) {
+    return weeks[0] || emptyWeek();
+  }
+  return weeks[(weekNumber - 1) % weeks.length];
+};
+
+const candidateSessions = (input: ScheduleInput) => {
+  const candidates: { template_id: string; scheduled_date: string; notes: string | null }[] = [];
+
+  if (input.schedule_type === 'custom') {
+    input.schedule_data.custom
+      .filter(workout => workout.templateId && workout.date >= input.start_date && workout.date <= input.end_date)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .forEach(workout => {
+        candidates.push({ template_id: workout.templateId as string, scheduled_date: workout.date, notes: workout.label || null });
+      });
+    return candidates;
+  }
+
+  for (let date = input.start_date; date <= input.end_date; date = addDays(date, 1)) {
+    const day = DAY_BY_INDEX[toUtcDate(date).getUTCDay()];
+    const templateId = getWeekLayout(input, weekOfPlan(input.start_date, date))[day];
+    if (templateId) {
+      candidates.push({ template_id: templateId, scheduled_date: date, notes: null });
+    }
+  }
+  return candidates;
+};
+
+// Turns a plan's schedule into dated sessions. When regenerating, pass the
+// plan's current sessions: dates that already have a completed or skipped
+// session keep it and get nothing new.
+export const generateSchedule = (input: ScheduleInput, existing: ExistingSession[] = []): GeneratedSchedule => {
+  const { periodization, blackouts } = input.schedule_data;
+  const keptDates = new Set(
+    existing.filter(session => session.status !== 'scheduled').map(session => session.scheduled_date)
+  );
+
+  const schedule: GeneratedSchedule = { sessions: [], blackedOut: [] };
+
+  candidateSessions(input).forEach(candidate => {
+    if (keptDates.has(candidate.scheduled_date)) return;
+
+    const blackout = findBlackout(candidate.scheduled_date, blackouts);
+    if (blackout) {
+      schedule.blackedOut.push({ template_id: candidate.template_id, scheduled_date: candidate.scheduled_date, blackout });
+      return;
+    }
+
+    const weekNumber = weekOfPlan(input.start_date, candidate.scheduled_date);
+    schedule.sessions.push({
+      ...candidate,
+      day_of_week: DAY_BY_INDEX[toUtcDate(candidate.scheduled_date).getUTCDay()],
+      week_number: weekNumber,
+      is_deload: isDeloadWeek(weekNumber, periodization),
+      status: 'scheduled',
+    });
+  });
+
+  return schedule;
+};
+
+// Every week of the plan, including empty ones, for calendar previews
+export const groupScheduleByWeek = (input: ScheduleInput, schedule: GeneratedSchedule): ScheduleWeek[] => {
+  if (input.end_date < input.start_date) return [];
+
+  const { periodization } = input.schedule_data;
+  const totalWeeks = weekOfPlan(input.start_date, input.end_date);
+  const weeks: ScheduleWeek[] = [];
+
+  for (let weekNumber = 1; weekNumber <= totalWeeks; weekNumber++) {
+    weeks.push({
+      week_number: weekNumber,
+      mesocycle: mesocycleOf(weekNumber, periodization),
+      is_deload: isDeloadWeek(weekNumber, periodization),
+      start_date: addDays(input.start_date, (weekNumber - 1) * 7),
+      sessions: [],
+      blackedOut: [],
+    });
+  }
+
+  schedule.sessions.forEach(session => {
+    weeks[session.week_number - 1]?.sessions.push(session);
+  });
+  schedule.blackedOut.forEach(session => {
+    weeks[weekOfPlan(input.start_date, session.scheduled_date) - 1]?.blackedOut.push(session);
+  });
+
+  return weeks;
+};
@@ -0,0 +1,313 @@
+import { supabase } from './supabase';
+import { emitDataChange } from './dataEvents';
+import { getCurrentUserProfile, Profile } from './database';
+import { StepSourceAdapter, pedometerStepSource, startOfHour } from './stepSources';
+import { BodyMetrics, MonthData, StepData, WeekData } from '@/types/steps';
+
+export const DEFAULT_STEP_GOAL = 10000;
+export const DEFAULT_BODY_METRICS: BodyMetrics = { heightCm: 170, weightKg: 70 };
+
+// Days with at least this many steps count as active
+export const ACTIVE_DAY_STEPS = 1000;
+// Hours with fewer steps are treated as incidental movement, not walking
+const ACTIVE_HOUR_MIN_STEPS = 500;
+// Brisk walking cadence, used to turn an hour's steps into active minutes
+const STEPS_PER_ACTIVE_MINUTE = 100;
+const DEFAULT_INGEST_DAYS = 7;
+
+let stepSource: StepSourceAdapter = pedometerStepSource;
+
+export const getStepSource = (): StepSourceAdapter => stepSource;
+
+// Swap the source, e.g. for a health platform or `createFakeStepSource` in tests
+export const setStepSource = (adapter: StepSourceAdapter): void => {
+  stepSource = adapter;
+};
+
+export const toLocalDateString = (date: Date): string => {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const startOfLocalDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Profile values first, then the latest trainer-recorded measurement
+export const getBodyMetrics = async (profile: Profile): Promise<BodyMetrics> => {
+  let heightCm = profile.height_cm ? Number(profile.height_cm) : undefined;
+  let weightKg = profile.weight_kg ? Number(profile.weight_kg) : undefined;
+
+  if (!heightCm || !weightKg) {
+    const { data, error } = await supabase
+      .from('client_measurements')
+      .select('height_cm, weight_kg')
+      .eq('client_id', profile.id)
+      .order('measured_at', { ascending: false })
+      .limit(10);
+
+    if (error) {
+      console.error('Error fetching body measurements:', error);
+    }
+
+    heightCm = heightCm || Number(data?.find(row => row.height_cm)?.height_cm) || undefined;
+    weightKg = weightKg || Number(data?.find(row => row.weight_kg)?.weight_kg) || undefined;
+  }
+
+  return {
+    heightCm: heightCm || DEFAULT_BODY_METRICS.heightCm,
+    weightKg: weightKg || DEFAULT_BODY_METRICS.weightKg,
+  };
+};
+
+// Walking stride is ~41.5% of height; net walking cost is ~0.5 kcal per kg per km
+export const calculateStepMetrics = (hourlyData: number[], body: BodyMetrics) => {
+  const steps = hourlyData.reduce((total, hourSteps) => total + hourSteps, 0);
+  const strideMeters = (body.heightCm * 0.415) / 100;
+  const distance = (steps * strideMeters) / 1000;
+  const calories = body.weightKg * distance * 0.5;
+  const activeMinutes = hourlyData.reduce((total, hourSteps) => {
+    if (hourSteps < ACTIVE_HOUR_MIN_STEPS) return total;
+    return total + Math.min(Math.floor(hourSteps / STEPS_PER_ACTIVE_MINUTE), 60);
+  }, 0);
+
+  return {
+    steps,
+    calories: Math.round(calories),
+    distance: parseFloat(distance.toFixed(2)),
+    activeMinutes,
+  };
+};
+
+// Roll stored hourly samples up into daily_stats.steps for the given local dates.
+// Overlapping sources are not summed; each hour takes the highest count.
+export const rollUpDailySteps = async (profileId: string, dates: string[]): Promise<void> => {
+  for (const date of dates) {
+    const dayStart = new Date(`${date}T00:00:00`);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    const { data, error } = await supabase
+      .from('step_samples')
+      .select('hour_start, steps')
+      .eq('user_id', profileId)
+      .gte('hour_start', dayStart.toISOString())
+      .lt('hour_start', dayEnd.toISOString());
+
+    if (error) {
+      console.error('Error fetching step samples for roll-up:', error);
+      continue;
+    }
+
+    const byHour = new Map<number, number>();
+    (data || []).forEach(sample => {
+      const hour = new Date(sample.hour_start).getTime();
+      byHour.set(hour, Math.max(byHour.get(hour) || 0, sample.steps));
+    });
+    const steps = Array.from(byHour.values()).reduce((total, hourSteps) => total + hourSteps, 0);
+
+    const { error: upsertError } = await supabase
+      .from('daily_stats')
+      .upsert(
+        { user_id: profileId, date, steps, updated_at: new Date().toISOString() },
+        { onConflict: 'user_id,date' }
+      );
+
+    if (upsertError) {
+      console.error('Error updating daily steps:', upsertError);
+    }
+  }
+};
+
+// A profile's daily step totals from `since` on, as rolled up into daily_stats
+export const getDailyStepTotals = async (
+  profileId: string,
+  since: string
+): Promise<{ date: string; steps: number }[]> => {
+  const { data, error } = await supabase
+    .from('daily_stats')
+    .select('date, steps')
+    .eq('user_id', profileId)
+    .gte('date', since)
+    .order('date', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching daily step totals:', error);
+    return [];
+  }
+  return (data || []).map(row => ({ date: row.date, steps: row.steps || 0 }));
+};
+
+// Pull new hourly counts from the active source into step_samples, starting
+// from the last stored hour (which is re-read, since it may have been partial).
+// Returns the number of hours written.
+export const ingestSteps = async (options: { days?: number } = {}): Promise<number> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return 0;
+
+    const source = stepSource;
+    if (!(await source.isAvailable()) || !(await source.requestPermission())) {
+      return 0;
+    }
+
+    const now = new Date();
+    const earliest = startOfLocalDay(new Date(now.getTime() - (options.days ?? DEFAULT_INGEST_DAYS) * 24 * 60 * 60 * 1000));
+
+    const { data: latest, error: latestError } = await supabase
+      .from('step_samples')
+      .select('hour_start')
+      .eq('user_id', profile.id)
+      .eq('source', source.id)
+      .order('hour_start', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      console.error('Error fetching latest step sample:', latestError);
+    }
+
+    const lastHour = latest ? startOfHour(new Date(latest.hour_start)) : null;
+    const start = lastHour && lastHour > earliest ? lastHour : earliest;
+
+    const samples = (await source.getHourlySteps(start, now)).filter(sample => sample.steps > 0);
+    if (samples.length === 0) return 0;
+
+    const { error } = await supabase
+      .from('step_samples')
+      .upsert(
+        samples.map(sample => ({
+          user_id: profile.id,
+          source: source.id,
+          hour_start: sample.hourStart.toISOString(),
+          steps: sample.steps,
+        })),
+        { onConflict: 'user_id,source,hour_start' }
+      );
+
+    if (error) {
+      console.error('Error saving step samples:', error);
+      return 0;
+    }
+
+    const dates = Array.from(new Set(samples.map(sample => toLocalDateString(sample.hourStart))));
+    await rollUpDailySteps(profile.id, dates);
+    emitDataChange('steps');
+
+    return samples.length;
+  } catch (error) {
+    console.error('Error in ingestSteps:', error);
+    return 0;
+  }
+};
+
+// One StepData per local day, oldest first, ending today. Days without samples are zero.
+export const getStepHistory = async (days: number = 35, goal: number = DEFAULT_STEP_GOAL): Promise<StepData[]> => {
+  const today = startOfLocalDay(new Date());
+  const start = new Date(today);
+  start.setDate(start.getDate() - (days - 1));
+
+  const hourlyByDate = new Map<string, number[]>();
+  for (let day = new Date(start); day <= today; day.setDate(day.getDate() + 1)) {
+    hourlyByDate.set(toLocalDateString(day), new Array(24).fill(0));
+  }
+
+  let body = DEFAULT_BODY_METRICS;
+
+  try {
+    const profile = await getCurrentUserProfile();
+    if (profile) {
+      body = await getBodyMetrics(profile);
+
+      const { data, error } = await supabase
+        .from('step_samples')
+        .select('hour_start, steps')
+        .eq('user_id', profile.id)
+        .gte('hour_start', start.toISOString())
+        .order('hour_start', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching step history:', error);
+      }
+
+      (data || []).forEach(sample => {
+        const hourStart = new Date(sample.hour_start);
+        const hourly = hourlyByDate.get(toLocalDateString(hourStart));
+        if (hourly) {
+          const hour = hourStart.getHours();
+          hourly[hour] = Math.max(hourly[hour], sample.steps);
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Error in getStepHistory:', error);
+  }
+
+  return Array.from(hourlyByDate.entries()).map(([date, hourlyData]) => ({
+    date,
+    goal,
+    hourlyData,
+    ...calculateStepMetrics(hourlyData, body),
+  }));
+};
+
+const summarize = (dailyData: StepData[]) => {
+  const totalSteps = dailyData.reduce((sum, day) => sum + day.steps, 0);
+  return {
+    totalSteps,
+    averageSteps: dailyData.length > 0 ? Math.floor(totalSteps / dailyData.length) : 0,
+    daysActive: dailyData.filter(day => day.steps > ACTIVE_DAY_STEPS).length,
+    totalCalories: dailyData.reduce((sum, day) => sum + day.calories, 0),
+    totalDistance: parseFloat(dailyData.reduce((sum, day) => sum + day.distance, 0).toFixed(2)),
+  };
+};
+
+// Sunday-to-Saturday week containing `date`; days missing from `daily` are zero-filled
+export const buildWeekData = (daily: StepData[], date: Date = new Date()): WeekData => {
+  const weekStart = startOfLocalDay(date);
+  weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+  const byDate = new Map(daily.map(day => [day.date, day]));
+
+  const dailyData: StepData[] = Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(weekStart);
+    day.setDate(weekStart.getDate() + index);
+    const key = toLocalDateString(day);
+    return byDate.get(key) || {
+      date: key,
+      steps: 0,
+      goal: daily[0]?.goal ?? DEFAULT_STEP_GOAL,
+      calories: 0,
+      distance: 0,
+      activeMinutes: 0,
+      hourlyData: new Array(24).fill(0),
+    };
+  });
+
+  return { weekStart: toLocalDateString(weekStart), ...summarize(dailyData), dailyData };
+};
+
+// Calendar month containing `date`, averaged over the days elapsed so far
+export const buildMonthData = (daily: StepData[], date: Date = new Date()): MonthData => {
+  const monthStart = new Date(date.getFullYear(), date.getMonth(), 1);
+  const monthDays = daily.filter(day => {
+    const dayDate = new Date(`${day.date}T00:00:00`);
+    return dayDate.getFullYear() === monthStart.getFullYear() && dayDate.getMonth() === monthStart.getMonth();
+  });
+
+  const weeklyData: WeekData[] = [];
+  const firstWeek = new Date(monthStart);
+  firstWeek.setDate(monthStart.getDate() - monthStart.getDay());
+  for (let week = firstWeek; week <= date; week = new Date(week.getFullYear(), week.getMonth(), week.getDate() + 7)) {
+    weeklyData.push(buildWeekData(monthDays, week));
+  }
+
+  return {
+    month: monthStart.toLocaleDateString('en-US', { month: 'long' }),
+    year: monthStart.getFullYear(),
+    ...summarize(monthDays),
+    weeklyData,
+  };
+};
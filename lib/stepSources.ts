@@ -0,0 +1,136 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { Pedometer } from 'expo-sensors';
+import { HourlyStepSample } from '@/types/steps';
+
+// A source of step counts. The ingestion service only talks to this interface,
+// so the device pedometer can be swapped for a health platform or a fake.
+export interface StepSourceAdapter {
+  id: string; // stored as step_samples.source
+  name: string;
+  isAvailable(): Promise<boolean>;
+  requestPermission(): Promise<boolean>;
+  // Steps per local hour for hours starting in [start, end)
+  getHourlySteps(start: Date, end: Date): Promise<HourlyStepSample[]>;
+  // Live updates while the app is open; reports steps taken since the last callback
+  watchSteps?(onSteps: (newSteps: number) => void): () => void;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+// iOS only keeps seven days of pedometer history
+const PEDOMETER_HISTORY_DAYS = 7;
+const HOURLY_LEDGER_KEY = '@pedometer_hourly_steps';
+
+export const startOfHour = (date: Date): Date => {
+  const hour = new Date(date);
+  hour.setMinutes(0, 0, 0);
+  return hour;
+};
+
+export const eachHour = (start: Date, end: Date): Date[] => {
+  const hours: Date[] = [];
+  for (let hour = startOfHour(start); hour < end; hour = new Date(hour.getTime() + HOUR_MS)) {
+    hours.push(hour);
+  }
+  return hours;
+};
+
+// Android can't query past step counts, so live updates are bucketed into a
+// local hourly ledger that ingestion reads back later
+const getHourlyLedger = async (): Promise<Record<string, number>> => {
+  try {
+    const stored = await AsyncStorage.getItem(HOURLY_LEDGER_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading step ledger:', error);
+    return {};
+  }
+};
+
+const addToHourlyLedger = async (steps: number, at: Date): Promise<void> => {
+  const ledger = await getHourlyLedger();
+  const key = startOfHour(at).toISOString();
+  ledger[key] = (ledger[key] || 0) + steps;
+
+  // Keep a rolling window so the ledger doesn't grow forever
+  const cutoff = Date.now() - PEDOMETER_HISTORY_DAYS * 24 * HOUR_MS;
+  Object.keys(ledger).forEach(hour => {
+    if (new Date(hour).getTime() < cutoff) delete ledger[hour];
+  });
+
+  await AsyncStorage.setItem(HOURLY_LEDGER_KEY, JSON.stringify(ledger));
+};
+
+export const pedometerStepSource: StepSourceAdapter = {
+  id: 'device_pedometer',
+  name: Platform.OS === 'ios' ? 'iPhone Motion' : 'Phone Pedometer',
+
+  isAvailable: async () => {
+    if (Platform.OS === 'web') return false;
+    try {
+      return await Pedometer.isAvailableAsync();
+    } catch (error) {
+      console.error('Error checking pedometer availability:', error);
+      return false;
+    }
+  },
+
+  requestPermission: async () => {
+    try {
+      const { granted } = await Pedometer.requestPermissionsAsync();
+      return granted;
+    } catch (error) {
+      console.error('Error requesting pedometer permission:', error);
+      return false;
+    }
+  },
+
+  getHourlySteps: async (start, end) => {
+    const earliest = new Date(Date.now() - PEDOMETER_HISTORY_DAYS * 24 * HOUR_MS);
+    const hours = eachHour(start < earliest ? earliest : start, end);
+
+    if (Platform.OS === 'ios') {
+      const samples: HourlyStepSample[] = [];
+      for (const hourStart of hours) {
+        const hourEnd = new Date(Math.min(hourStart.getTime() + HOUR_MS, Date.now()));
+        const { steps } = await Pedometer.getStepCountAsync(hourStart, hourEnd);
+        samples.push({ hourStart, steps });
+      }
+      return samples;
+    }
+
+    const ledger = await getHourlyLedger();
+    return hours
+      .filter(hourStart => ledger[hourStart.toISOString()] !== undefined)
+      .map(hourStart => ({ hourStart, steps: ledger[hourStart.toISOString()] }));
+  },
+
+  watchSteps: (onSteps) => {
+    // watchStepCount reports a running total since the subscription started
+    let lastTotal = 0;
+    const subscription = Pedometer.watchStepCount(({ steps }) => {
+      const newSteps = Math.max(steps - lastTotal, 0);
+      lastTotal = steps;
+      if (newSteps === 0) return;
+
+      if (Platform.OS !== 'ios') {
+        addToHourlyLedger(newSteps, new Date());
+      }
+      onSteps(newSteps);
+    });
+    return () => subscription.remove();
+  },
+};
+
+// Deterministic source for tests and simulator builds
+export const createFakeStepSource = (
+  stepsForHour: (hourStart: Date) => number,
+  options: { available?: boolean } = {}
+): StepSourceAdapter => ({
+  id: 'fake',
+  name: 'Fake Step Source',
+  isAvailable: async () => options.available ?? true,
+  requestPermission: async () => options.available ?? true,
+  getHourlySteps: async (start, end) =>
+    eachHour(start, end).map(hourStart => ({ hourStart, steps: Math.max(Math.round(stepsForHour(hourStart)), 0) })),
+});
@@ -1,6 +1,7 @@
 import 'react-native-url-polyfill/auto';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Database, Tables, TablesInsert, TablesUpdate } from '@/types/database';
 import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 
@@ -47,6 +48,10 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   },
 });
 
+// The same client, checked against types/database.ts. Modules switch to it as
+// their queries are brought in line with the schema; the plan repository has.
+export const typedSupabase = supabase as unknown as SupabaseClient<Database>;
+
 // Auth helper functions
 export const signUp = async (email: string, password: string, userData?: any) => {
   const { data, error } = await supabase.auth.signUp({
@@ -89,70 +94,21 @@ export const updateProfile = async (updates: any) => {
   return { data, error };
 };
 
-// Types
-export interface Database {
-  public: {
-    Tables: {
-      progress_photos: {
-        Row: {
-          id: string;
-          user_id: string;
-          image_url: string;
-          weight: number | null;
-          body_fat: number | null;
-          muscle_percentage: number | null;
-          measurements: Record<string, number> | null;
-          date: string;
-          time: string;
-          tags: string[] | null;
-          pose: 'front' | 'side' | 'back' | 'custom';
-          notes: string | null;
-          mood: 'motivated' | 'confident' | 'determined' | 'proud' | 'focused';
-          is_favorite: boolean;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id?: string;
-          user_id: string;
-          image_url: string;
-          weight?: number | null;
-          body_fat?: number | null;
-          muscle_percentage?: number | null;
-          measurements?: Record<string, number> | null;
-          date?: string;
-          time?: string;
-          tags?: string[] | null;
-          pose?: 'front' | 'side' | 'back' | 'custom';
-          notes?: string | null;
-          mood?: 'motivated' | 'confident' | 'determined' | 'proud' | 'focused';
-          is_favorite?: boolean;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          user_id?: string;
-          image_url?: string;
-          weight?: number | null;
-          body_fat?: number | null;
-          muscle_percentage?: number | null;
-          measurements?: Record<string, number> | null;
-          date?: string;
-          time?: string;
-          tags?: string[] | null;
-          pose?: 'front' | 'side' | 'back' | 'custom';
-          notes?: string | null;
-          mood?: 'motivated' | 'confident' | 'determined' | 'proud' | 'focused';
-          is_favorite?: boolean;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-    };
-  };
+export type { Database, Json, Tables, TablesInsert, TablesUpdate } from '@/types/database';
+
+export type PhotoPose = 'front' | 'side' | 'back' | 'custom';
+export type PhotoMood = 'motivated' | 'confident' | 'determined' | 'proud' | 'focused';
+
+// The generated types leave check-constrained and jsonb columns as plain
+// strings and Json
+interface ProgressPhotoColumns {
+  pose: PhotoPose;
+  mood: PhotoMood | null;
+  measurements: Record<string, number> | null;
 }
 
-export type ProgressPhoto = Database['public']['Tables']['progress_photos']['Row'];
-export type NewProgressPhoto = Database['public']['Tables']['progress_photos']['Insert'];
-export type UpdateProgressPhoto = Database['public']['Tables']['progress_photos']['Update'];
\ No newline at end of file
+export type ProgressPhoto = Omit<Tables<'progress_photos'>, keyof ProgressPhotoColumns> & ProgressPhotoColumns;
+export type NewProgressPhoto = Omit<TablesInsert<'progress_photos'>, keyof ProgressPhotoColumns> &
+  Partial<ProgressPhotoColumns>;
+export type UpdateProgressPhoto = Omit<TablesUpdate<'progress_photos'>, keyof ProgressPhotoColumns> &
+  Partial<ProgressPhotoColumns>;
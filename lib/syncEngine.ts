@@ -0,0 +1,413 @@
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+import { AppState, AppStateStatus } from 'react-native';
+import { supabase } from './supabase';
+import { emitDataChange } from './dataEvents';
+import { getTrainingSession } from './trainingSessionQueries';
+import { buildWorkoutLogs } from './workoutSessionQueries';
+import { TrainingSession, WorkoutSession } from '@/types/workout';
+import {
+  PendingSyncItem,
+  addToPendingSync,
+  cacheTrainingSession,
+  getCachedTrainingSession,
+  getPendingSync,
+  getSession,
+  removeSyncItem,
+  renameSession,
+  saveSession,
+  updateSyncItem,
+} from '@/utils/storage';
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncState {
+  status: SyncStatus;
+  pendingCount: number;
+  failedCount: number;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+type SyncListener = (state: SyncState) => void;
+
+// Queue item types this engine knows how to replay. Other types in the
+// pending queue (templates, clients) are local-only for now; plans are only
+// ever written to Supabase through lib/planDatabase.
+const SYNCABLE_TYPES = ['session', 'training_session'];
+
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+class NetworkError extends Error {}
+
+let state: SyncState = {
+  status: 'idle',
+  pendingCount: 0,
+  failedCount: 0,
+  lastSyncedAt: null,
+  lastError: null,
+};
+const listeners = new Set<SyncListener>();
+let inFlight: Promise<SyncState> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let offlineAttempts = 0;
+
+const setState = (changes: Partial<SyncState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener(state));
+};
+
+export const getSyncState = (): SyncState => state;
+
+export const subscribeToSyncState = (listener: SyncListener): (() => void) => {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Exponential backoff with jitter, capped so a long outage still retries every few minutes
+export const getRetryDelay = (attempts: number): number => {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (0.75 + Math.random() * 0.5));
+};
+
+const isNetworkFailure = (error: any): boolean => {
+  const message = `${error?.message || ''} ${error?.details || ''}`;
+  return /network request failed|failed to fetch|fetch failed|network error|timed? ?out|load failed/i.test(message);
+};
+
+// Normalize Supabase errors: connectivity problems stop the whole drain,
+// anything else only fails the item being replayed
+const check = (error: any, context: string) => {
+  if (!error) return;
+  if (isNetworkFailure(error)) throw new NetworkError(error.message);
+  throw new Error(`${context}: ${error.message || 'Unknown error'}`);
+};
+
+// workout_sessions.start_time/end_time are `time` columns; local sessions store ISO timestamps
+const toTimeColumn = (value?: string): string | null => {
+  if (!value) return null;
+  if (!value.includes('T')) return value;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toTimeString().slice(0, 8);
+};
+
+const pushWorkoutSession = async (item: PendingSyncItem) => {
+  if (item.action === 'delete') {
+    if (!UUID_PATTERN.test(item.id)) return;
+    const { error } = await supabase.from('workout_sessions').delete().eq('id', item.id);
+    check(error, 'Deleting workout session');
+    emitDataChange('workout');
+    return;
+  }
+
+  let session = await getSession(item.id);
+  if (!session) return;
+
+  // Local ids aren't valid uuids; assign one before the first write so a retry
+  // after a lost response upserts the same row instead of duplicating it
+  if (!UUID_PATTERN.test(session.id)) {
+    const remoteId = uuidv4();
+    await renameSession(session.id, remoteId);
+    session = { ...session, id: remoteId };
+    item = { ...item, id: remoteId };
+  }
+
+  const { data: remote, error: remoteError } = await supabase
+    .from('workout_sessions')
+    .select('*')
+    .eq('id', session.id)
+    .maybeSingle();
+  check(remoteError, 'Fetching workout session');
+
+  // Last write wins: a newer server copy (e.g. edited by the trainer) replaces ours
+  if (remote && new Date(remote.updated_at).getTime() > new Date(item.timestamp).getTime()) {
+    console.warn(`Workout session ${session.id} changed on the server; keeping server copy`);
+    await saveSession({ ...session, ...remote, synced: true });
+    return;
+  }
+
+  const { synced, ...fields } = session;
+  const { error } = await supabase.from('workout_sessions').upsert({
+    ...fields,
+    start_time: toTimeColumn(session.start_time),
+    end_time: toTimeColumn(session.end_time),
+    updated_at: item.timestamp,
+  });
+  check(error, 'Saving workout session');
+
+  const { error: logsError } = await supabase.rpc('save_workout_logs', {
+    target_session_id: session.id,
+    logs: buildWorkoutLogs(session.id, session.exercises),
+  });
+  check(logsError, 'Saving workout logs');
+
+  await saveSession({ ...session, synced: true });
+  if (session.completed) {
+    emitDataChange('workout');
+  }
+};
+
+const pushTrainingSession = async (item: PendingSyncItem) => {
+  if (!item.payload) return;
+
+  const { data: remote, error: remoteError } = await supabase
+    .from('training_sessions')
+    .select('id, status, updated_at')
+    .eq('id', item.id)
+    .maybeSingle();
+  check(remoteError, 'Fetching training session');
+  if (!remote) return;
+
+  const isCompletion = item.payload.status === 'completed';
+  const remoteIsNewer = new Date(remote.updated_at).getTime() > new Date(item.timestamp).getTime();
+
+  // Progress snapshots never overwrite a finished session, and nothing overwrites
+  // a change made on the server after ours
+  if ((remote.status === 'completed' && !isCompletion) || remoteIsNewer) {
+    console.warn(`Training session ${item.id} changed on the server; discarding local changes`);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('training_sessions')
+    .update({ ...item.payload, updated_at: item.timestamp })
+    .eq('id', item.id);
+  check(error, 'Updating training session');
+};
+
+const pushItem = async (item: PendingSyncItem) => {
+  switch (item.type) {
+    case 'session':
+      return pushWorkoutSession(item);
+    case 'training_session':
+      return pushTrainingSession(item);
+  }
+};
+
+// The session handler may have moved the item to a server id mid-replay
+const findQueuedItem = async (item: PendingSyncItem): Promise<PendingSyncItem | undefined> => {
+  const pendingSync = await getPendingSync();
+  return pendingSync.find(pending =>
+    pending.type === item.type && (pending.id === item.id || pending.timestamp === item.timestamp)
+  );
+};
+
+const getSyncableItems = async (): Promise<PendingSyncItem[]> => {
+  const pendingSync = await getPendingSync();
+  return pendingSync.filter(item => SYNCABLE_TYPES.includes(item.type));
+};
+
+const hasFailed = (item: PendingSyncItem) => (item.attempts || 0) >= MAX_ATTEMPTS;
+
+const refreshCounts = async () => {
+  const items = await getSyncableItems();
+  const failedCount = items.filter(hasFailed).length;
+  setState({ pendingCount: items.length, failedCount });
+  return items;
+};
+
+const scheduleRetry = (delay: number) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    syncPendingChanges();
+  }, delay);
+};
+
+const drainQueue = async (force: boolean): Promise<SyncState> => {
+  const { data: { session: authSession } } = await supabase.auth.getSession();
+  const items = await refreshCounts();
+  if (!authSession || items.length === 0) {
+    setState({ status: state.failedCount > 0 ? 'error' : 'idle' });
+    return state;
+  }
+
+  setState({ status: 'syncing' });
+  const now = Date.now();
+  let nextRetryAt: number | null = null;
+  let lastError: string | null = null;
+
+  // Oldest first so a create always lands before later changes to related rows
+  const ordered = [...items].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  for (const item of ordered) {
+    const attempts = item.attempts || 0;
+    if (!force && (attempts >= MAX_ATTEMPTS || (item.nextAttemptAt && new Date(item.nextAttemptAt).getTime() > now))) {
+      if (item.nextAttemptAt && attempts < MAX_ATTEMPTS) {
+        const at = new Date(item.nextAttemptAt).getTime();
+        nextRetryAt = nextRetryAt === null ? at : Math.min(nextRetryAt, at);
+      }
+      continue;
+    }
+
+    try {
+      await pushItem(item);
+      const current = await findQueuedItem(item);
+      if (current) await removeSyncItem(current.type, current.id, item.timestamp);
+    } catch (error: any) {
+      if (error instanceof NetworkError) {
+        offlineAttempts += 1;
+        await refreshCounts();
+        setState({ status: 'offline', lastError: null });
+        scheduleRetry(getRetryDelay(offlineAttempts));
+        return state;
+      }
+
+      const message: string = error.message || 'Sync failed';
+      lastError = message;
+      const delay = getRetryDelay(attempts);
+      console.error(`Error syncing ${item.type} ${item.id}:`, error);
+      const current = await findQueuedItem(item);
+      await updateSyncItem(item.type, current?.id || item.id, {
+        attempts: attempts + 1,
+        nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+        lastError: message,
+      });
+      if (attempts + 1 < MAX_ATTEMPTS) {
+        nextRetryAt = nextRetryAt === null ? Date.now() + delay : Math.min(nextRetryAt, Date.now() + delay);
+      }
+    }
+  }
+
+  offlineAttempts = 0;
+  await refreshCounts();
+  if (nextRetryAt !== null) scheduleRetry(Math.max(nextRetryAt - Date.now(), 0));
+
+  setState({
+    status: lastError || state.failedCount > 0 ? 'error' : 'idle',
+    lastError,
+    lastSyncedAt: new Date().toISOString(),
+  });
+  return state;
+};
+
+// Replay queued changes against Supabase. Concurrent calls share one run.
+// `force` ignores backoff, for an explicit "sync now" from the user.
+export const syncPendingChanges = (options: { force?: boolean } = {}): Promise<SyncState> => {
+  if (!inFlight) {
+    inFlight = drainQueue(!!options.force)
+      .catch(error => {
+        console.error('Error in syncPendingChanges:', error);
+        setState({ status: 'error', lastError: error.message || 'Sync failed' });
+        return state;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+  }
+  return inFlight;
+};
+
+// Items that used up their retries. They stay queued, and are skipped by
+// automatic syncs, until the user retries or discards them.
+export const getFailedSyncItems = async (): Promise<PendingSyncItem[]> => {
+  const items = await getSyncableItems();
+  return items.filter(hasFailed);
+};
+
+// Give a failed item a fresh set of retries, starting now
+export const retrySyncItem = async (item: PendingSyncItem): Promise<SyncState> => {
+  await updateSyncItem(item.type, item.id, { attempts: 0, nextAttemptAt: undefined, lastError: undefined });
+  return syncPendingChanges();
+};
+
+// Drop a failed item from the queue. The local copy stays on the device but
+// is never sent to the server.
+export const discardSyncItem = async (item: PendingSyncItem): Promise<SyncState> => {
+  await removeSyncItem(item.type, item.id, item.timestamp);
+  const items = await refreshCounts();
+  if (state.status === 'error' && !items.some(hasFailed)) {
+    setState({ status: 'idle', lastError: null });
+  }
+  return state;
+};
+
+// Sync on launch, whenever the app returns to the foreground, and on a slow
+// poll while anything is queued. Returns a cleanup function.
+export const startSyncEngine = (): (() => void) => {
+  const onAppStateChange = (nextState: AppStateStatus) => {
+    if (nextState === 'active') syncPendingChanges();
+  };
+  const subscription = AppState.addEventListener('change', onAppStateChange);
+  const poll = setInterval(() => {
+    if (state.pendingCount > state.failedCount && state.status !== 'syncing') {
+      syncPendingChanges();
+    }
+  }, POLL_INTERVAL_MS);
+
+  syncPendingChanges();
+
+  return () => {
+    subscription.remove();
+    clearInterval(poll);
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+};
+
+// Workout screens write through these so progress survives having no signal;
+// the server copy is updated by the next successful sync.
+export const recordTrainingSessionProgress = async (
+  session: TrainingSession,
+  sessionData: Record<string, any>
+): Promise<void> => {
+  const updatedAt = new Date().toISOString();
+  await cacheTrainingSession({ ...session, session_data: sessionData, updated_at: updatedAt });
+  await addToPendingSync('training_session', session.id, 'update', { session_data: sessionData });
+  await refreshCounts();
+  syncPendingChanges();
+};
+
+export const recordTrainingSessionCompletion = async (
+  session: TrainingSession,
+  completionData: {
+    exercises_completed?: any[];
+    trainer_notes?: string;
+    session_rating?: number;
+    duration_minutes?: number;
+    completed_at?: string;
+  },
+  workoutSession: WorkoutSession
+): Promise<void> => {
+  const updatedAt = new Date().toISOString();
+  await cacheTrainingSession({
+    ...session,
+    status: 'completed',
+    exercises_completed: completionData.exercises_completed,
+    updated_at: updatedAt,
+  });
+  await addToPendingSync('training_session', session.id, 'update', {
+    status: 'completed',
+    completion_data: completionData,
+    exercises_completed: completionData.exercises_completed,
+    trainer_notes: completionData.trainer_notes,
+    session_rating: completionData.session_rating,
+    duration_minutes: completionData.duration_minutes,
+  });
+  await saveSession({ ...workoutSession, synced: false });
+  await refreshCounts();
+  syncPendingChanges();
+};
+
+// Prefer the server copy, falling back to (or resuming from) the local cache
+export const loadTrainingSession = async (sessionId: string): Promise<TrainingSession | null> => {
+  const [remote, cached] = await Promise.all([getTrainingSession(sessionId), getCachedTrainingSession(sessionId)]);
+  if (!remote) return cached;
+
+  if (cached && new Date(cached.updated_at).getTime() > new Date(remote.updated_at).getTime()) {
+    return { ...remote, session_data: cached.session_data, status: cached.status };
+  }
+
+  await cacheTrainingSession(remote);
+  return remote;
+};
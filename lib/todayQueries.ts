@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { Goal } from './database';
+import { GoalSourceFields } from '@/types/goals';
 
 export interface TodayClientData {
   profile: any;
@@ -369,7 +371,7 @@ export const createGoal = async (goalData: {
   target_date?: string;
   progress_percentage?: number;
   category?: string;
-}) => {
+} & Partial<GoalSourceFields> & { unit?: string }) => {
   try {
     const profile = await getCurrentUserProfile();
     if (!profile) return null;
@@ -396,4 +398,32 @@ export const createGoal = async (goalData: {
     console.error('Error in createGoal:', error);
     return null;
   }
+};
+
+export const updateGoal = async (
+  goalId: string,
+  updates: Partial<Pick<Goal, 'title' | 'description' | 'emoji' | 'target_date' | 'progress_percentage' | 'status' | 'current_value' | 'target_value'>>
+) => {
+  try {
+    const { data, error } = await supabase
+      .from('goals')
+      .update({
+        ...updates,
+        ...(updates.status === 'completed' ? { completed_at: new Date().toISOString() } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', goalId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating goal:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in updateGoal:', error);
+    return null;
+  }
 };
\ No newline at end of file
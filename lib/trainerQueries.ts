@@ -400,13 +400,6 @@ export const completeEnhancedTrainingSession = async (
       return false;
     }
 
-    // Create completion notification
-    await supabase.rpc('create_session_notification', {
-      p_session_id: sessionId,
-      p_notification_type: 'completion',
-      p_scheduled_for: new Date().toISOString()
-    });
-
     return true;
   } catch (error) {
     console.error('Error in completeEnhancedTrainingSession:', error);
@@ -452,16 +445,6 @@ export const createEnhancedTrainingSession = async (sessionData: {
       return null;
     }
 
-    // Create reminder notification
-    const reminderTime = new Date(`${sessionData.scheduled_date}T${sessionData.scheduled_time}`);
-    reminderTime.setHours(reminderTime.getHours() - 1); // 1 hour before
-
-    await supabase.rpc('create_session_notification', {
-      p_session_id: data.id,
-      p_notification_type: 'reminder',
-      p_scheduled_for: reminderTime.toISOString()
-    });
-
     return data;
   } catch (error) {
     console.error('Error in createEnhancedTrainingSession:', error);
@@ -0,0 +1,147 @@
+import { supabase } from './supabase';
+import { getMetricDefinition, validateMetricValue } from './metricRegistry';
+import { Metric, MetricUnitSystem } from '@/types/metrics';
+import { UnitQuantity, UnitSystem } from '@/types/units';
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'metric';
+
+// How much of the canonical unit one of each unit is. The canonical unit
+// (factor 1) is the one the database stores: kg, cm, m and L.
+const UNIT_FACTORS: Record<UnitQuantity, Record<string, number>> = {
+  mass: { kg: 1, lb: 0.45359237 },
+  length: { cm: 1, in: 2.54 },
+  distance: { km: 1000, mi: 1609.344, m: 1, ft: 0.3048 },
+  volume: { L: 1, ml: 0.001, 'fl oz': 0.0295735295625 },
+};
+
+const PREFERRED_UNITS: Record<UnitSystem, Record<UnitQuantity, string>> = {
+  metric: { mass: 'kg', length: 'cm', distance: 'km', volume: 'L' },
+  imperial: { mass: 'lb', length: 'in', distance: 'mi', volume: 'fl oz' },
+};
+
+// Registry metrics that can be shown in either system; the rest (%, bpm,
+// steps, hours) read the same everywhere
+const METRIC_QUANTITIES: Partial<Record<MetricUnitSystem, UnitQuantity>> = {
+  mass: 'mass',
+  length: 'length',
+  volume: 'volume',
+};
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  metric: 'Metric (kg, cm)',
+  imperial: 'Imperial (lb, in)',
+};
+
+export const getUnitOptions = (quantity: UnitQuantity): string[] => Object.keys(UNIT_FACTORS[quantity]);
+
+export const getPreferredUnit = (quantity: UnitQuantity, system: UnitSystem): string =>
+  PREFERRED_UNITS[system][quantity];
+
+const unitFactor = (quantity: UnitQuantity, unit: string): number => {
+  const factor = UNIT_FACTORS[quantity][unit];
+  if (factor === undefined) {
+    throw new Error(`Unknown ${quantity} unit: ${unit}`);
+  }
+  return factor;
+};
+
+export const toCanonical = (value: number, quantity: UnitQuantity, unit: string): number =>
+  value * unitFactor(quantity, unit);
+
+export const fromCanonical = (value: number, quantity: UnitQuantity, unit: string): number =>
+  value / unitFactor(quantity, unit);
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+// Canonical value in the user's preferred unit, e.g. 80 (kg) -> "176.4 lb"
+export const formatQuantity = (
+  value: number,
+  quantity: UnitQuantity,
+  system: UnitSystem,
+  decimals: number = 1
+): string => {
+  const unit = getPreferredUnit(quantity, system);
+  return `${round(fromCanonical(value, quantity, unit), decimals)} ${unit}`;
+};
+
+export const getMetricQuantity = (id: string): UnitQuantity | null => {
+  const definition = getMetricDefinition(id);
+  return definition ? METRIC_QUANTITIES[definition.unitSystem] ?? null : null;
+};
+
+// Unit a registry metric is shown in for `system`
+export const getMetricUnit = (id: string, system: UnitSystem): string => {
+  const quantity = getMetricQuantity(id);
+  return quantity ? getPreferredUnit(quantity, system) : getMetricDefinition(id)?.unit ?? '';
+};
+
+// Units a registry metric can be typed in, preferred unit first
+export const getMetricUnitOptions = (id: string, system: UnitSystem): string[] => {
+  const quantity = getMetricQuantity(id);
+  if (!quantity) return [getMetricUnit(id, system)];
+  const preferred = getPreferredUnit(quantity, system);
+  return [preferred, ...getUnitOptions(quantity).filter(unit => unit !== preferred)];
+};
+
+export const convertMetricForDisplay = (id: string, value: number, system: UnitSystem): number => {
+  const quantity = getMetricQuantity(id);
+  return quantity ? fromCanonical(value, quantity, getPreferredUnit(quantity, system)) : value;
+};
+
+export const convertMetricInput = (id: string, value: number, unit: string): number => {
+  const quantity = getMetricQuantity(id);
+  return quantity ? toCanonical(value, quantity, unit) : value;
+};
+
+export const formatMetricForDisplay = (id: string, value: number, system: UnitSystem): string => {
+  const decimals = getMetricDefinition(id)?.decimals ?? 1;
+  return round(convertMetricForDisplay(id, value, system), decimals).toString();
+};
+
+// A loaded metric with its entries in the user's units, for screens that only display it
+export const toDisplayMetric = (metric: Metric, system: UnitSystem): Metric => {
+  const unit = getMetricUnit(metric.id, system);
+  const decimals = getMetricDefinition(metric.id)?.decimals ?? 1;
+  const convert = (value: number) => round(convertMetricForDisplay(metric.id, value, system), decimals);
+  return {
+    ...metric,
+    unit,
+    currentValue: metric.currentValue === undefined ? undefined : convert(metric.currentValue),
+    entries: metric.entries.map(entry => ({ ...entry, value: convert(entry.value), unit })),
+  };
+};
+
+// Validate a value typed in `unit`; the range in the message is given in that unit too
+export const validateMetricInput = (id: string, value: number, unit: string): string | null => {
+  const definition = getMetricDefinition(id);
+  const quantity = getMetricQuantity(id);
+  if (!definition || !quantity || !isFinite(value)) {
+    return validateMetricValue(id, value);
+  }
+
+  if (validateMetricValue(id, toCanonical(value, quantity, unit)) === null) return null;
+  const min = round(fromCanonical(definition.min, quantity, unit), definition.decimals);
+  const max = round(fromCanonical(definition.max, quantity, unit), definition.decimals);
+  return `${definition.name} must be between ${min} and ${max} ${unit}`;
+};
+
+export const isUnitSystem = (value: unknown): value is UnitSystem =>
+  value === 'metric' || value === 'imperial';
+
+export const saveUnitSystem = async (profileId: string, system: UnitSystem): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ unit_system: system, updated_at: new Date().toISOString() })
+      .eq('id', profileId);
+
+    if (error) {
+      console.error('Error saving unit system:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error in saveUnitSystem:', error);
+    return false;
+  }
+};
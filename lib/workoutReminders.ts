@@ -0,0 +1,391 @@
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { getCurrentUserProfile } from './database';
+import { getNotificationPreferences } from './notifications';
+import { NotificationType } from '@/types/notifications';
+
+const STORAGE_KEY = '@workout_reminders';
+const REMINDER_LEAD_MINUTES = 60;
+const UNTIMED_REMINDER_TIME = '08:00'; // for workouts scheduled without a time
+const QUIET_HOURS_BUFFER_MINUTES = 15;
+const HORIZON_DAYS = 14;
+// iOS keeps at most 64 pending local notifications; leave room for goal reminders
+const MAX_REMINDERS = 40;
+
+export interface UpcomingWorkout {
+  key: string; // `${source}:${id}`, stable across syncs
+  source: 'plan_session' | 'training_session';
+  id: string;
+  name: string;
+  scheduled_date: string;
+  scheduled_time: string | null;
+  template_id?: string | null;
+}
+
+export interface QuietHours {
+  start: string | null; // 'HH:MM' or 'HH:MM:SS'
+  end: string | null;
+}
+
+interface ScheduledReminder {
+  key: string;
+  notificationId: string;
+  fireAt: string;
+  title: string;
+  body: string;
+}
+
+interface PlannedReminder {
+  key: string;
+  fireAt: Date;
+  title: string;
+  body: string;
+  data: Record<string, any>;
+}
+
+// Reminders for plan sessions follow the 'workout' preference, booked training
+// sessions the 'reminder' one. Both sit in the "Workout Reminders" group.
+const REMINDER_TYPES: Record<UpcomingWorkout['source'], NotificationType> = {
+  plan_session: 'workout',
+  training_session: 'reminder',
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const atTime = (date: Date, time: string) => {
+  const result = new Date(date);
+  result.setHours(0, toMinutes(time), 0, 0);
+  return result;
+};
+
+export const isWithinQuietHours = (date: Date, quietHours: QuietHours): boolean => {
+  if (!quietHours.start || !quietHours.end) return false;
+
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+
+  // The window may wrap past midnight
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+};
+
+// Move a reminder out of quiet hours: to when they end if that is still before
+// the workout, otherwise to just before they began. Null when that has passed.
+export const applyQuietHours = (fireAt: Date, workoutAt: Date, quietHours: QuietHours): Date | null => {
+  if (!quietHours.start || !quietHours.end || !isWithinQuietHours(fireAt, quietHours)) {
+    return fireAt;
+  }
+
+  const end = atTime(fireAt, quietHours.end);
+  if (end <= fireAt) end.setDate(end.getDate() + 1);
+  if (end < workoutAt) return end;
+
+  const start = atTime(fireAt, quietHours.start);
+  if (start > fireAt) start.setDate(start.getDate() - 1);
+  start.setMinutes(start.getMinutes() - QUIET_HOURS_BUFFER_MINUTES);
+  return start > new Date() ? start : null;
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const planReminder = (workout: UpcomingWorkout, quietHours: QuietHours): PlannedReminder | null => {
+  const day = new Date(`${workout.scheduled_date}T00:00:00`);
+  let fireAt: Date;
+  let workoutAt: Date;
+  let title: string;
+  let body: string;
+
+  if (workout.scheduled_time) {
+    workoutAt = atTime(day, workout.scheduled_time);
+    fireAt = new Date(workoutAt.getTime() - REMINDER_LEAD_MINUTES * 60 * 1000);
+    title = 'Workout in 1 hour';
+    body = `${workout.name} starts at ${formatTime(workoutAt)}.`;
+  } else {
+    workoutAt = atTime(day, '23:59');
+    fireAt = atTime(day, UNTIMED_REMINDER_TIME);
+    title = 'Workout today';
+    body = `${workout.name} is on your plan for today.`;
+  }
+
+  const adjusted = applyQuietHours(fireAt, workoutAt, quietHours);
+  if (!adjusted || adjusted <= new Date()) return null;
+
+  return {
+    key: workout.key,
+    fireAt: adjusted,
+    title,
+    body,
+    data: workout.source === 'plan_session'
+      ? { type: 'workout', plan_session_id: workout.id, template_id: workout.template_id }
+      : { type: 'reminder', session_id: workout.id },
+  };
+};
+
+// Scheduled plan sessions and booked training sessions for the signed-in client
+export const getUpcomingWorkouts = async (days: number = HORIZON_DAYS): Promise<UpcomingWorkout[]> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return [];
+
+    const from = new Date();
+    const to = new Date();
+    to.setDate(to.getDate() + days);
+    const fromDate = from.toISOString().split('T')[0];
+    const toDate = to.toISOString().split('T')[0];
+
+    const [planResult, sessionResult] = await Promise.all([
+      supabase
+        .from('plan_sessions')
+        .select(`
+          id, scheduled_date, scheduled_time, template_id,
+          template:workout_templates(name),
+          plan:workout_plans!inner(name, client_id, status)
+        `)
+        .eq('plan.client_id', profile.id)
+        .eq('plan.status', 'active')
+        .eq('status', 'scheduled')
+        .gte('scheduled_date', fromDate)
+        .lte('scheduled_date', toDate),
+      supabase
+        .from('training_sessions')
+        .select('id, scheduled_date, scheduled_time, template_id, template:workout_templates(name)')
+        .eq('client_id', profile.id)
+        .eq('status', 'scheduled')
+        .gte('scheduled_date', fromDate)
+        .lte('scheduled_date', toDate),
+    ]);
+
+    if (planResult.error) {
+      console.error('Error fetching upcoming plan sessions:', planResult.error);
+    }
+    if (sessionResult.error) {
+      console.error('Error fetching upcoming training sessions:', sessionResult.error);
+    }
+
+    const planSessions: UpcomingWorkout[] = (planResult.data || []).map((session: any) => ({
+      key: `plan_session:${session.id}`,
+      source: 'plan_session',
+      id: session.id,
+      name: session.template?.name || session.plan?.name || 'Your workout',
+      scheduled_date: session.scheduled_date,
+      scheduled_time: session.scheduled_time,
+      template_id: session.template_id,
+    }));
+
+    const trainingSessions: UpcomingWorkout[] = (sessionResult.data || []).map((session: any) => ({
+      key: `training_session:${session.id}`,
+      source: 'training_session',
+      id: session.id,
+      name: session.template?.name || 'Your training session',
+      scheduled_date: session.scheduled_date,
+      scheduled_time: session.scheduled_time,
+      template_id: session.template_id,
+    }));
+
+    return [...planSessions, ...trainingSessions];
+  } catch (error) {
+    console.error('Error in getUpcomingWorkouts:', error);
+    return [];
+  }
+};
+
+const getStoredReminders = async (): Promise<ScheduledReminder[]> => {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error reading workout reminders:', error);
+    return [];
+  }
+};
+
+export const cancelWorkoutReminders = async (): Promise<void> => {
+  if (Platform.OS === 'web') return;
+
+  try {
+    const stored = await getStoredReminders();
+    await Promise.all(stored.map(reminder => Notifications.cancelScheduledNotificationAsync(reminder.notificationId)));
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Error cancelling workout reminders:', error);
+  }
+};
+
+const reconcileReminders = async (): Promise<number> => {
+  if (Platform.OS === 'web') return 0;
+
+  try {
+    const profile = await getCurrentUserProfile();
+    const { status } = await Notifications.getPermissionsAsync();
+    if (!profile || status !== 'granted') {
+      await cancelWorkoutReminders();
+      return 0;
+    }
+
+    const [workouts, preferences] = await Promise.all([getUpcomingWorkouts(), getNotificationPreferences()]);
+    const quietHours = { start: profile.quiet_hours_start ?? null, end: profile.quiet_hours_end ?? null };
+
+    const planned = workouts
+      .filter(workout => preferences[REMINDER_TYPES[workout.source]].push)
+      .map(workout => planReminder(workout, quietHours))
+      .filter((reminder): reminder is PlannedReminder => reminder !== null)
+      .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+      .slice(0, MAX_REMINDERS);
+    const plannedByKey = new Map(planned.map(reminder => [reminder.key, reminder]));
+
+    const kept: ScheduledReminder[] = [];
+    for (const reminder of await getStoredReminders()) {
+      const next = plannedByKey.get(reminder.key);
+      const unchanged =
+        next &&
+        next.fireAt.toISOString() === reminder.fireAt &&
+        next.title === reminder.title &&
+        next.body === reminder.body;
+
+      if (unchanged) {
+        kept.push(reminder);
+        plannedByKey.delete(reminder.key);
+      } else {
+        await Notifications.cancelScheduledNotificationAsync(reminder.notificationId);
+      }
+    }
+
+    for (const reminder of plannedByKey.values()) {
+      const notificationId = await Notifications.scheduleNotificationAsync({
+        content: {
+          title: reminder.title,
+          body: reminder.body,
+          data: reminder.data,
+          sound: 'default',
+        },
+        trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: reminder.fireAt },
+      });
+      kept.push({
+        key: reminder.key,
+        notificationId,
+        fireAt: reminder.fireAt.toISOString(),
+        title: reminder.title,
+        body: reminder.body,
+      });
+    }
+
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+    return kept.length;
+  } catch (error) {
+    console.error('Error in syncWorkoutReminders:', error);
+    return 0;
+  }
+};
+
+let pendingSync: Promise<number> = Promise.resolve(0);
+
+// Bring this device's scheduled reminders in line with the upcoming workouts:
+// cancel reminders for workouts that moved or went away, schedule new ones and
+// leave unchanged ones alone. Calls run one after another so overlapping
+// triggers can't schedule a reminder twice. Returns the number pending.
+export const syncWorkoutReminders = (): Promise<number> => {
+  pendingSync = pendingSync.then(reconcileReminders, reconcileReminders);
+  return pendingSync;
+};
+
+// Calls `onChange` when a session of one of the client's active plans or one
+// of their training sessions is added, moved or cancelled, or when a plan is
+// assigned to them or changes status.
+export const subscribeToScheduleChanges = (profileId: string, onChange: () => void): (() => void) => {
+  let planSessionsChannel: RealtimeChannel | null = null;
+  let latestWatch = 0;
+  let stopped = false;
+
+  // plan_sessions has no client column to filter on, so listen to the active
+  // plans' sessions by plan id, and follow along when the active plans change
+  const watchActivePlanSessions = async () => {
+    const watch = ++latestWatch;
+    const { data, error } = await supabase
+      .from('workout_plans')
+      .select('id')
+      .eq('client_id', profileId)
+      .eq('status', 'active');
+
+    if (error) {
+      console.error('Error fetching active plans:', error);
+      return;
+    }
+    if (stopped || watch !== latestWatch) return;
+
+    if (planSessionsChannel) {
+      supabase.removeChannel(planSessionsChannel);
+      planSessionsChannel = null;
+    }
+
+    const planIds = (data || []).map(plan => plan.id);
+    if (planIds.length === 0) return;
+
+    planSessionsChannel = supabase
+      .channel(`schedule:${profileId}:plan_sessions:${watch}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'plan_sessions', filter: `plan_id=in.(${planIds.join(',')})` },
+        () => onChange()
+      )
+      .subscribe();
+  };
+
+  const channel = supabase
+    .channel(`schedule:${profileId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'workout_plans', filter: `client_id=eq.${profileId}` },
+      () => {
+        watchActivePlanSessions();
+        onChange();
+      }
+    )
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'training_sessions', filter: `client_id=eq.${profileId}` },
+      () => onChange()
+    )
+    .subscribe();
+
+  watchActivePlanSessions();
+
+  return () => {
+    stopped = true;
+    supabase.removeChannel(channel);
+    if (planSessionsChannel) supabase.removeChannel(planSessionsChannel);
+  };
+};
+
+export const getQuietHours = async (): Promise<QuietHours> => {
+  const profile = await getCurrentUserProfile();
+  return { start: profile?.quiet_hours_start ?? null, end: profile?.quiet_hours_end ?? null };
+};
+
+// Pass nulls to turn quiet hours off
+export const saveQuietHours = async (quietHours: QuietHours): Promise<boolean> => {
+  try {
+    const profile = await getCurrentUserProfile();
+    if (!profile) return false;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ quiet_hours_start: quietHours.start, quiet_hours_end: quietHours.end })
+      .eq('id', profile.id);
+
+    if (error) {
+      console.error('Error saving quiet hours:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error in saveQuietHours:', error);
+    return false;
+  }
+};
@@ -1,5 +1,16 @@
 import { supabase } from './supabase';
-import { WorkoutSession } from '../types/workout';
+import { emitDataChange } from './dataEvents';
+import {
+  WorkoutSession,
+  WorkoutLog,
+  ExerciseHistoryEntry,
+  OneRepMaxPoint,
+  PersonalRecord,
+} from '../types/workout';
+
+type SessionExercise = WorkoutSession['exercises'][number];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export async function getWorkoutSession(sessionId: string): Promise<WorkoutSession | null> {
   const { data, error } = await supabase
@@ -34,7 +45,7 @@ export async function updateWorkoutSessionData(
 export async function completeWorkoutSession(
   sessionId: string,
   completionData: {
-    exercises: any[]; // This should match the structure of WorkoutSession.exercises
+    exercises: SessionExercise[];
     notes?: string;
     duration_minutes?: number;
   }
@@ -55,7 +66,9 @@ export async function completeWorkoutSession(
     console.error('Error completing workout session:', error);
     return false;
   }
-  return true;
+
+  emitDataChange('workout');
+  return saveWorkoutLogs(sessionId, completionData.exercises);
 }
 
 export async function createWorkoutSession(session: Partial<WorkoutSession>): Promise<WorkoutSession | null> {
@@ -71,3 +84,121 @@ export async function createWorkoutSession(session: Partial<WorkoutSession>): Pr
   }
   return data as WorkoutSession;
 }
+
+// One workout_logs row per exercise. Exercises without a library id (ad-hoc
+// "custom" entries) stay in the session's JSON only.
+export function buildWorkoutLogs(
+  sessionId: string,
+  exercises: SessionExercise[]
+): Omit<WorkoutLog, 'id' | 'created_at'>[] {
+  return exercises
+    .filter(exercise => UUID_PATTERN.test(exercise.exercise_id))
+    .map((exercise, index) => {
+      const completedSets = exercise.sets.filter(set => set.completed !== false);
+      return {
+        session_id: sessionId,
+        exercise_id: exercise.exercise_id,
+        order_index: index,
+        sets_performed: exercise.sets,
+        total_volume_kg: completedSets.reduce((total, set) => total + (set.weight || 0) * (set.reps || 0), 0),
+        total_reps: completedSets.reduce((total, set) => total + (set.reps || 0), 0),
+        total_time_seconds: completedSets.reduce((total, set) => total + (set.duration || 0), 0) || undefined,
+        notes: exercise.notes || undefined,
+        form_rating: exercise.form_rating,
+        completed: completedSets.length === exercise.sets.length,
+      };
+    });
+}
+
+// Replace a session's logs, so re-completing or re-syncing a session never
+// duplicates rows. The RPC swaps them in one transaction, so a failed save
+// keeps the previous logs.
+export async function saveWorkoutLogs(sessionId: string, exercises: SessionExercise[]): Promise<boolean> {
+  const { error } = await supabase.rpc('save_workout_logs', {
+    target_session_id: sessionId,
+    logs: buildWorkoutLogs(sessionId, exercises),
+  });
+
+  if (error) {
+    console.error('Error saving workout logs:', error);
+    return false;
+  }
+  return true;
+}
+
+export async function getWorkoutLogs(sessionId: string): Promise<WorkoutLog[]> {
+  const { data, error } = await supabase
+    .from('workout_logs')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('order_index', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching workout logs:', error);
+    return [];
+  }
+  return data as WorkoutLog[];
+}
+
+// Most recent sessions first
+export async function getExerciseHistory(
+  clientId: string,
+  exerciseId: string,
+  limit: number = 20
+): Promise<ExerciseHistoryEntry[]> {
+  const { data, error } = await supabase.rpc('get_exercise_history', {
+    client_uuid: clientId,
+    exercise_uuid: exerciseId,
+    limit_count: limit,
+  });
+
+  if (error) {
+    console.error('Error fetching exercise history:', error);
+    return [];
+  }
+  return (data || []) as ExerciseHistoryEntry[];
+}
+
+// Best Epley-estimated 1RM per training day, oldest first for charting
+export async function getOneRepMaxTrend(
+  clientId: string,
+  exerciseId: string,
+  sinceDate?: string
+): Promise<OneRepMaxPoint[]> {
+  const { data, error } = await supabase.rpc('get_one_rep_max_trend', {
+    client_uuid: clientId,
+    exercise_uuid: exerciseId,
+    since_date: sinceDate ?? null,
+  });
+
+  if (error) {
+    console.error('Error fetching 1RM trend:', error);
+    return [];
+  }
+  return (data || []) as OneRepMaxPoint[];
+}
+
+export async function getPersonalRecords(clientId: string): Promise<PersonalRecord[]> {
+  const { data, error } = await supabase.rpc('get_personal_records', {
+    client_uuid: clientId,
+  });
+
+  if (error) {
+    console.error('Error fetching personal records:', error);
+    return [];
+  }
+  return (data || []) as PersonalRecord[];
+}
+
+export async function getPersonalRecord(clientId: string, exerciseId: string): Promise<PersonalRecord | null> {
+  const { data, error } = await supabase.rpc('get_personal_records', {
+    client_uuid: clientId,
+    exercise_uuid: exerciseId,
+  });
+
+  if (error) {
+    console.error('Error fetching personal record:', error);
+    return null;
+  }
+  return (data?.[0] as PersonalRecord) || null;
+}
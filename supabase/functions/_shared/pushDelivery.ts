@@ -0,0 +1,55 @@
+import type { PushDispatcher } from './pushDispatcher.ts';
+
+export const PUSH_BATCH_SIZE = 50;
+const MAX_BATCHES = 10;
+
+export interface PushDelivery {
+  notification_id: string;
+  tokens: string[] | null;
+  title: string;
+  message: string;
+  type: string;
+  data: Record<string, unknown> | null;
+}
+
+// The part of a service-role Supabase client that delivery needs
+export interface PushDeliveryClient {
+  rpc(
+    fn: 'claim_push_deliveries' | 'complete_push_delivery',
+    args: Record<string, unknown>
+  ): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+}
+
+// Claims due pushes in batches, sends each through `dispatcher` and records
+// the result. Returns the number delivered.
+export const dispatchPushes = async (client: PushDeliveryClient, dispatcher: PushDispatcher): Promise<number> => {
+  let delivered = 0;
+  for (let batch = 0; batch < MAX_BATCHES; batch++) {
+    const { data, error } = await client.rpc('claim_push_deliveries', { max_count: PUSH_BATCH_SIZE });
+    if (error) throw new Error(error.message);
+
+    const deliveries = (data || []) as PushDelivery[];
+    for (const delivery of deliveries) {
+      const result = await dispatcher.send({
+        to: delivery.tokens || [],
+        title: delivery.title,
+        body: delivery.message,
+        data: { ...delivery.data, notificationId: delivery.notification_id, type: delivery.type },
+      });
+      if (result.delivered) delivered++;
+
+      // A delivery left in 'sending' is picked up again by a later run
+      const { error: completeError } = await client.rpc('complete_push_delivery', {
+        target_notification_id: delivery.notification_id,
+        delivered: result.delivered,
+        invalid_tokens: result.invalidTokens,
+      });
+      if (completeError) {
+        console.error('Error recording push delivery:', completeError);
+      }
+    }
+
+    if (deliveries.length < PUSH_BATCH_SIZE) break;
+  }
+  return delivered;
+};
@@ -0,0 +1,104 @@
+// Sends one notification to every device token of a recipient. The Expo
+// dispatcher is used in production; the local one stands in for it in tests
+// and in projects without push credentials (set PUSH_DISPATCHER=local).
+export interface PushMessage {
+  to: string[]; // Expo push tokens
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface PushResult {
+  delivered: boolean; // reached the push service for at least one token
+  invalidTokens: string[]; // tokens the service says no longer exist
+  error?: string;
+}
+
+export interface PushDispatcher {
+  id: string;
+  send(message: PushMessage): Promise<PushResult>;
+}
+
+// https://docs.expo.dev/push-notifications/sending-notifications/#push-tickets
+export type ExpoPushTicket =
+  | { status: 'ok'; id: string }
+  | {
+      status: 'error';
+      message: string;
+      details?: { error?: 'DeviceNotRegistered' | 'MessageTooBig' | 'MessageRateExceeded' | 'InvalidCredentials' };
+    };
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+export const expoPushDispatcher: PushDispatcher = {
+  id: 'expo',
+
+  async send(message) {
+    if (message.to.length === 0) {
+      return { delivered: false, invalidTokens: [], error: 'No device tokens' };
+    }
+
+    try {
+      const response = await fetch(EXPO_PUSH_URL, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(
+          message.to.map(token => ({
+            to: token,
+            title: message.title,
+            body: message.body,
+            data: message.data || {},
+            sound: 'default',
+          }))
+        ),
+      });
+
+      if (!response.ok) {
+        return { delivered: false, invalidTokens: [], error: `Push service responded ${response.status}` };
+      }
+
+      // One ticket per token, in request order
+      const { data: tickets = [] }: { data?: ExpoPushTicket[] } = await response.json();
+      const invalidTokens = message.to.filter((_, index) => {
+        const ticket = tickets[index];
+        return ticket?.status === 'error' && ticket.details?.error === 'DeviceNotRegistered';
+      });
+      const delivered = tickets.some(ticket => ticket.status === 'ok');
+      const failure = tickets.find(ticket => ticket.status === 'error');
+      return {
+        delivered,
+        invalidTokens,
+        error: !delivered && failure?.status === 'error' ? failure.message : undefined,
+      };
+    } catch (error) {
+      console.error('Error sending push notification:', error);
+      return { delivered: false, invalidTokens: [], error: String(error) };
+    }
+  },
+};
+
+// Records every message instead of calling the push service. Tokens listed in
+// `unregistered` are reported back as no longer existing.
+export const createLocalPushDispatcher = (options: { unregistered?: string[] } = {}) => {
+  const sent: PushMessage[] = [];
+  const unregistered = options.unregistered || [];
+
+  const dispatcher: PushDispatcher & { sent: PushMessage[] } = {
+    id: 'local',
+    sent,
+
+    async send(message) {
+      sent.push(message);
+      const invalidTokens = message.to.filter(token => unregistered.includes(token));
+      return { delivered: invalidTokens.length < message.to.length, invalidTokens };
+    },
+  };
+
+  return dispatcher;
+};
+
+export const getPushDispatcher = (id: string | undefined): PushDispatcher =>
+  id === 'local' ? createLocalPushDispatcher() : expoPushDispatcher;
@@ -0,0 +1,11 @@
+// The parts of the Deno runtime the Edge Functions use, so the app's `tsc`
+// run type-checks them too. Deploying uses Deno's own types.
+
+declare namespace Deno {
+  const env: { get(name: string): string | undefined };
+  function serve(handler: (request: Request) => Response | Promise<Response>): unknown;
+}
+
+declare module 'npm:@supabase/supabase-js@2' {
+  export * from '@supabase/supabase-js';
+}
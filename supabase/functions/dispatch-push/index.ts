@@ -0,0 +1,26 @@
+// Sends the pushes queued in `notifications`. Called by the database when a
+// push is queued and every minute while any are waiting (see the
+// server_push_delivery migration). It runs with the service role, so
+// recipients' device tokens never leave the server.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { dispatchPushes } from '../_shared/pushDelivery.ts';
+import { getPushDispatcher } from '../_shared/pushDispatcher.ts';
+
+Deno.serve(async request => {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (request.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceKey, {
+    auth: { persistSession: false },
+  });
+
+  try {
+    const delivered = await dispatchPushes(supabase, getPushDispatcher(Deno.env.get('PUSH_DISPATCHER')));
+    return Response.json({ delivered });
+  } catch (error) {
+    console.error('Error dispatching pushes:', error);
+    return Response.json({ error: String(error) }, { status: 500 });
+  }
+});
@@ -0,0 +1,62 @@
+/*
+  # Messaging Realtime
+
+  1. Policies
+    - Recipients can set `read_at` on messages addressed to them
+    - Participants can touch their own conversation rows
+
+  2. Realtime
+    - Publish `messages` and `conversations` on the `supabase_realtime` publication
+      so chat screens receive inserts and read receipts live
+*/
+
+DROP POLICY IF EXISTS "Recipients can mark messages read" ON messages;
+DROP POLICY IF EXISTS "Participants can update own conversations" ON conversations;
+
+CREATE POLICY "Recipients can mark messages read"
+  ON messages
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM conversations c
+      JOIN profiles p ON (p.id = c.participant_1_id OR p.id = c.participant_2_id)
+      WHERE c.id = conversation_id
+      AND p.id <> sender_id
+      AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Participants can update own conversations"
+  ON conversations
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE (p.id = participant_1_id OR p.id = participant_2_id) AND p.user_id = auth.uid()
+    )
+  );
+
+-- Unread lookups filter on conversation + read_at
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_unread ON messages(conversation_id) WHERE read_at IS NULL;
+
+-- Realtime updates need the full old row for UPDATE payloads
+ALTER TABLE messages REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'conversations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE conversations;
+  END IF;
+END $$;
@@ -0,0 +1,286 @@
+/*
+  # Invitations
+
+  1. New Tables
+    - `invitations` - Single-use invitation tokens issued by admins and HR
+
+  2. Profiles
+    - `trial_ends_at` - End of the trial granted by the redeemed invitation
+    - `invitation_id` - Invitation the profile was created from
+
+  3. Functions
+    - `create_invitation` - Issue a token for an email, role and trial length
+    - `resend_invitation` - Rotate the token and restart the expiry window
+    - `cancel_invitation` - Cancel a pending or expired invitation
+    - `expire_invitations` - Mark pending invitations past their expiry as expired
+    - `validate_invitation` - Look up an invitation by token (callable before sign-in)
+    - `redeem_invitation` - Create the caller's profile with the invited role
+
+  Only a SHA-256 hash of each token is stored; the raw token exists solely in the
+  invite link returned to the issuer.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  role text CHECK (role IN ('client', 'trainer', 'nutritionist', 'admin', 'hr')) NOT NULL DEFAULT 'client',
+  token_hash text UNIQUE NOT NULL,
+  status text CHECK (status IN ('pending', 'accepted', 'expired', 'cancelled')) DEFAULT 'pending',
+  trial_days integer DEFAULT 0 CHECK (trial_days >= 0),
+  custom_message text,
+  invited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  expires_at timestamptz NOT NULL,
+  sent_at timestamptz DEFAULT now(),
+  resend_count integer DEFAULT 0,
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  cancelled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'trial_ends_at'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN trial_ends_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'invitation_id'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN invitation_id uuid REFERENCES invitations(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_invitations_email ON invitations(lower(email));
+CREATE INDEX IF NOT EXISTS idx_invitations_status ON invitations(status);
+CREATE INDEX IF NOT EXISTS idx_invitations_expires_at ON invitations(expires_at);
+
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins and HR can read invitations" ON invitations;
+
+-- Writes go through the SECURITY DEFINER functions below
+CREATE POLICY "Admins and HR can read invitations"
+  ON invitations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.user_id = auth.uid() AND p.role IN ('admin', 'hr')
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_invitations_updated_at ON invitations;
+
+CREATE TRIGGER update_invitations_updated_at
+  BEFORE UPDATE ON invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION invitation_issuer_id()
+RETURNS uuid AS $$
+DECLARE
+  issuer_id uuid;
+BEGIN
+  SELECT id INTO issuer_id
+  FROM profiles
+  WHERE user_id = auth.uid() AND role IN ('admin', 'hr')
+  LIMIT 1;
+
+  IF issuer_id IS NULL THEN
+    RAISE EXCEPTION 'Only admins and HR can manage invitations' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN issuer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION hash_invitation_token(raw_token text)
+RETURNS text AS $$
+  SELECT encode(digest(raw_token, 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION create_invitation(
+  invite_email text,
+  invite_role text,
+  invite_trial_days integer DEFAULT 0,
+  expires_in_days integer DEFAULT 7,
+  invite_message text DEFAULT NULL
+)
+RETURNS TABLE (invitation_id uuid, token text, expires_at timestamptz) AS $$
+DECLARE
+  issuer_id uuid := invitation_issuer_id();
+  raw_token text := encode(gen_random_bytes(24), 'hex');
+  new_id uuid;
+  new_expiry timestamptz := now() + make_interval(days => expires_in_days);
+BEGIN
+  -- A newer invitation supersedes any pending one for the same address
+  UPDATE invitations
+  SET status = 'cancelled', cancelled_at = now()
+  WHERE lower(email) = lower(trim(invite_email)) AND status = 'pending';
+
+  INSERT INTO invitations (email, role, token_hash, trial_days, custom_message, invited_by, expires_at)
+  VALUES (lower(trim(invite_email)), invite_role, hash_invitation_token(raw_token), invite_trial_days, invite_message, issuer_id, new_expiry)
+  RETURNING id INTO new_id;
+
+  RETURN QUERY SELECT new_id, raw_token, new_expiry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION resend_invitation(target_invitation_id uuid, expires_in_days integer DEFAULT 7)
+RETURNS TABLE (invitation_id uuid, token text, expires_at timestamptz) AS $$
+DECLARE
+  issuer_id uuid := invitation_issuer_id();
+  raw_token text := encode(gen_random_bytes(24), 'hex');
+  new_expiry timestamptz := now() + make_interval(days => expires_in_days);
+BEGIN
+  UPDATE invitations i
+  SET token_hash = hash_invitation_token(raw_token),
+      status = 'pending',
+      expires_at = new_expiry,
+      sent_at = now(),
+      resend_count = i.resend_count + 1,
+      invited_by = issuer_id
+  WHERE i.id = target_invitation_id AND i.status IN ('pending', 'expired');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending or expired invitations can be resent';
+  END IF;
+
+  RETURN QUERY SELECT target_invitation_id, raw_token, new_expiry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION cancel_invitation(target_invitation_id uuid)
+RETURNS void AS $$
+BEGIN
+  PERFORM invitation_issuer_id();
+
+  UPDATE invitations
+  SET status = 'cancelled', cancelled_at = now()
+  WHERE id = target_invitation_id AND status IN ('pending', 'expired');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending or expired invitations can be cancelled';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION expire_invitations()
+RETURNS integer AS $$
+DECLARE
+  expired_count integer;
+BEGIN
+  UPDATE invitations
+  SET status = 'expired'
+  WHERE status = 'pending' AND expires_at < now();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION validate_invitation(raw_token text)
+RETURNS TABLE (
+  invitation_id uuid,
+  email text,
+  role text,
+  trial_days integer,
+  status text,
+  expires_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    i.id,
+    i.email,
+    i.role,
+    i.trial_days,
+    CASE WHEN i.status = 'pending' AND i.expires_at < now() THEN 'expired' ELSE i.status END,
+    i.expires_at
+  FROM invitations i
+  WHERE i.token_hash = hash_invitation_token(raw_token);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION redeem_invitation(raw_token text, invitee_full_name text)
+RETURNS SETOF profiles AS $$
+DECLARE
+  invite invitations%ROWTYPE;
+  caller_email text;
+  profile_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in before redeeming an invitation' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO invite
+  FROM invitations
+  WHERE token_hash = hash_invitation_token(raw_token)
+  FOR UPDATE;
+
+  IF NOT FOUND OR invite.status <> 'pending' THEN
+    RAISE EXCEPTION 'Invitation is invalid or has already been used';
+  END IF;
+
+  IF invite.expires_at < now() THEN
+    UPDATE invitations SET status = 'expired' WHERE id = invite.id;
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+
+  SELECT email INTO caller_email FROM auth.users WHERE id = auth.uid();
+  IF lower(caller_email) <> lower(invite.email) THEN
+    RAISE EXCEPTION 'Invitation was issued to a different email address';
+  END IF;
+
+  UPDATE profiles
+  SET role = invite.role,
+      full_name = COALESCE(NULLIF(trim(invitee_full_name), ''), full_name),
+      user_id = auth.uid(),
+      trial_ends_at = CASE WHEN invite.trial_days > 0 THEN now() + make_interval(days => invite.trial_days) END,
+      invitation_id = invite.id,
+      updated_at = now()
+  WHERE user_id = auth.uid() OR id = auth.uid()
+  RETURNING id INTO profile_id;
+
+  IF profile_id IS NULL THEN
+    INSERT INTO profiles (id, user_id, email, full_name, role, trial_ends_at, invitation_id)
+    VALUES (
+      auth.uid(),
+      auth.uid(),
+      invite.email,
+      NULLIF(trim(invitee_full_name), ''),
+      invite.role,
+      CASE WHEN invite.trial_days > 0 THEN now() + make_interval(days => invite.trial_days) END,
+      invite.id
+    )
+    RETURNING id INTO profile_id;
+  END IF;
+
+  UPDATE invitations
+  SET status = 'accepted', accepted_at = now(), accepted_by = profile_id
+  WHERE id = invite.id;
+
+  RETURN QUERY SELECT * FROM profiles WHERE id = profile_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE ALL ON FUNCTION invitation_issuer_id() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION validate_invitation(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION redeem_invitation(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_invitation(text, text, integer, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION resend_invitation(uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_invitation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION expire_invitations() TO authenticated;
@@ -0,0 +1,181 @@
+/*
+  # Workout Log History
+
+  1. Functions
+    - `estimate_one_rep_max` - Epley estimate of a one-rep max from a single set
+
+  2. Views
+    - `workout_set_entries` - One row per performed set, expanded from
+      `workout_logs.sets_performed` and joined to the session's client and date
+
+  3. Query Functions
+    - `get_exercise_history` - Per-session volume, reps, top set and estimated 1RM
+    - `get_one_rep_max_trend` - Best estimated 1RM per training day
+    - `get_personal_records` - Heaviest set, most reps, best estimated 1RM and
+      best session volume per exercise
+
+  The view uses `security_invoker`, so the existing workout_sessions and
+  workout_logs policies decide whose history each caller can read.
+
+  Sessions that were completed or synced more than once have duplicate logs.
+  Only the newest log at each position is kept, so history counts every set
+  once and `(session_id, order_index)` can be made unique.
+*/
+
+DELETE FROM workout_logs wl
+USING workout_logs newer
+WHERE newer.session_id = wl.session_id
+  AND newer.order_index = wl.order_index
+  AND (COALESCE(newer.created_at, '-infinity'), newer.id) > (COALESCE(wl.created_at, '-infinity'), wl.id);
+
+ALTER TABLE workout_logs DROP CONSTRAINT IF EXISTS workout_logs_session_order_key;
+ALTER TABLE workout_logs ADD CONSTRAINT workout_logs_session_order_key UNIQUE (session_id, order_index);
+
+CREATE OR REPLACE FUNCTION estimate_one_rep_max(weight numeric, reps integer)
+RETURNS numeric AS $$
+  SELECT CASE
+    WHEN weight IS NULL OR weight <= 0 OR reps IS NULL OR reps <= 0 THEN NULL
+    WHEN reps = 1 THEN round(weight, 2)
+    ELSE round(weight * (1 + reps / 30.0), 2)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE VIEW workout_set_entries
+WITH (security_invoker = true) AS
+SELECT
+  wl.id AS log_id,
+  wl.session_id,
+  ws.client_id,
+  ws.date AS performed_on,
+  wl.exercise_id,
+  wl.order_index,
+  (s.ordinality - 1)::integer AS set_index,
+  NULLIF(s.value->>'reps', '')::integer AS reps,
+  NULLIF(s.value->>'weight', '')::numeric AS weight_kg,
+  estimate_one_rep_max(NULLIF(s.value->>'weight', '')::numeric, NULLIF(s.value->>'reps', '')::integer) AS estimated_1rm_kg
+FROM workout_logs wl
+JOIN workout_sessions ws ON ws.id = wl.session_id
+CROSS JOIN LATERAL jsonb_array_elements(wl.sets_performed) WITH ORDINALITY AS s(value, ordinality)
+WHERE ws.completed = true
+AND COALESCE((s.value->>'completed')::boolean, true);
+
+CREATE OR REPLACE FUNCTION get_exercise_history(
+  client_uuid uuid,
+  exercise_uuid uuid,
+  limit_count integer DEFAULT 20
+)
+RETURNS TABLE (
+  session_id uuid,
+  performed_on date,
+  sets_count bigint,
+  total_reps bigint,
+  total_volume_kg numeric,
+  top_set_weight_kg numeric,
+  best_estimated_1rm_kg numeric
+) AS $$
+  SELECT
+    e.session_id,
+    e.performed_on,
+    COUNT(*),
+    COALESCE(SUM(e.reps), 0),
+    COALESCE(SUM(e.weight_kg * e.reps), 0),
+    MAX(e.weight_kg),
+    MAX(e.estimated_1rm_kg)
+  FROM workout_set_entries e
+  WHERE e.client_id = client_uuid AND e.exercise_id = exercise_uuid
+  GROUP BY e.session_id, e.performed_on
+  ORDER BY e.performed_on DESC
+  LIMIT limit_count;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_one_rep_max_trend(
+  client_uuid uuid,
+  exercise_uuid uuid,
+  since_date date DEFAULT NULL
+)
+RETURNS TABLE (
+  performed_on date,
+  estimated_1rm_kg numeric
+) AS $$
+  SELECT e.performed_on, MAX(e.estimated_1rm_kg)
+  FROM workout_set_entries e
+  WHERE e.client_id = client_uuid
+  AND e.exercise_id = exercise_uuid
+  AND e.estimated_1rm_kg IS NOT NULL
+  AND (since_date IS NULL OR e.performed_on >= since_date)
+  GROUP BY e.performed_on
+  ORDER BY e.performed_on;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_personal_records(
+  client_uuid uuid,
+  exercise_uuid uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  exercise_id uuid,
+  exercise_name text,
+  max_weight_kg numeric,
+  max_weight_reps integer,
+  max_weight_on date,
+  max_reps integer,
+  max_reps_on date,
+  best_estimated_1rm_kg numeric,
+  best_estimated_1rm_on date,
+  best_session_volume_kg numeric,
+  best_session_volume_on date
+) AS $$
+  WITH entries AS (
+    SELECT * FROM workout_set_entries
+    WHERE client_id = client_uuid
+    AND (exercise_uuid IS NULL OR exercise_id = exercise_uuid)
+  ),
+  heaviest AS (
+    SELECT DISTINCT ON (exercise_id) exercise_id, weight_kg, reps, performed_on
+    FROM entries WHERE weight_kg IS NOT NULL
+    ORDER BY exercise_id, weight_kg DESC, reps DESC NULLS LAST, performed_on
+  ),
+  most_reps AS (
+    SELECT DISTINCT ON (exercise_id) exercise_id, reps, performed_on
+    FROM entries WHERE reps IS NOT NULL
+    ORDER BY exercise_id, reps DESC, performed_on
+  ),
+  best_1rm AS (
+    SELECT DISTINCT ON (exercise_id) exercise_id, estimated_1rm_kg, performed_on
+    FROM entries WHERE estimated_1rm_kg IS NOT NULL
+    ORDER BY exercise_id, estimated_1rm_kg DESC, performed_on
+  ),
+  session_volume AS (
+    SELECT DISTINCT ON (exercise_id) exercise_id, volume, performed_on
+    FROM (
+      SELECT exercise_id, session_id, performed_on, SUM(weight_kg * reps) AS volume
+      FROM entries
+      GROUP BY exercise_id, session_id, performed_on
+    ) v
+    WHERE volume IS NOT NULL
+    ORDER BY exercise_id, volume DESC, performed_on
+  )
+  SELECT
+    ex.id,
+    ex.name,
+    h.weight_kg,
+    h.reps,
+    h.performed_on,
+    r.reps,
+    r.performed_on,
+    b.estimated_1rm_kg,
+    b.performed_on,
+    v.volume,
+    v.performed_on
+  FROM (SELECT DISTINCT exercise_id FROM entries) ids
+  JOIN exercises ex ON ex.id = ids.exercise_id
+  LEFT JOIN heaviest h ON h.exercise_id = ids.exercise_id
+  LEFT JOIN most_reps r ON r.exercise_id = ids.exercise_id
+  LEFT JOIN best_1rm b ON b.exercise_id = ids.exercise_id
+  LEFT JOIN session_volume v ON v.exercise_id = ids.exercise_id
+  ORDER BY ex.name;
+$$ LANGUAGE sql STABLE;
+
+GRANT SELECT ON workout_set_entries TO authenticated;
+GRANT EXECUTE ON FUNCTION get_exercise_history(uuid, uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_one_rep_max_trend(uuid, uuid, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_personal_records(uuid, uuid) TO authenticated;
@@ -0,0 +1,29 @@
+/*
+  # Plan Progression Rules
+
+  1. Workout Plans
+    - `progression_rule` - How the app proposes next-session loads for the plan's client
+      - `none` - Use the template's sets as written
+      - `linear` - Add weight after every session where all target reps were hit
+      - `double_progression` - Add reps up to the top of a range, then add weight
+      - `rpe` - Pick the load that lands the target RPE from the last estimated 1RM
+    - `progression_config` - Rule parameters (weight increment, rep range, target RPE, deload)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'workout_plans' AND column_name = 'progression_rule'
+  ) THEN
+    ALTER TABLE workout_plans ADD COLUMN progression_rule text
+      CHECK (progression_rule IN ('none', 'linear', 'double_progression', 'rpe')) DEFAULT 'none';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'workout_plans' AND column_name = 'progression_config'
+  ) THEN
+    ALTER TABLE workout_plans ADD COLUMN progression_config jsonb DEFAULT '{}';
+  END IF;
+END $$;
@@ -0,0 +1,76 @@
+/*
+  # Step Samples
+
+  1. New Tables
+    - `step_samples` - Hourly step counts per user and data source, ingested from the
+      device pedometer or a connected health platform
+
+  2. Profiles
+    - `height_cm`, `weight_kg` - Used to turn step counts into distance and calories
+
+  3. Security
+    - Users manage their own samples; assigned trainers can read their clients' samples
+*/
+
+CREATE TABLE IF NOT EXISTS step_samples (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  source text NOT NULL,
+  hour_start timestamptz NOT NULL,
+  steps integer NOT NULL DEFAULT 0 CHECK (steps >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, source, hour_start)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'height_cm'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN height_cm decimal(5,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'weight_kg'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN weight_kg decimal(5,2);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_step_samples_user_hour ON step_samples(user_id, hour_start);
+
+ALTER TABLE step_samples ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own step samples" ON step_samples;
+DROP POLICY IF EXISTS "Trainers can read assigned client step samples" ON step_samples;
+
+CREATE POLICY "Users can manage own step samples"
+  ON step_samples
+  FOR ALL
+  TO authenticated
+  USING (user_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()))
+  WITH CHECK (user_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Trainers can read assigned client step samples"
+  ON step_samples
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM client_assignments ca
+      JOIN profiles p ON p.id = ca.trainer_id
+      WHERE ca.client_id = step_samples.user_id
+      AND ca.status = 'active'
+      AND p.user_id = auth.uid()
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_step_samples_updated_at ON step_samples;
+
+CREATE TRIGGER update_step_samples_updated_at
+  BEFORE UPDATE ON step_samples
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,46 @@
+/*
+  # Health Integrations
+
+  1. New Tables
+    - `health_integrations` - One row per user and provider (file import, Health
+      Connect, Fitbit, ...) holding the connection state, provider-issued
+      credentials and the cursor the next sync resumes from
+
+  2. Security
+    - Users manage their own connections; trainers never see credentials
+*/
+
+CREATE TABLE IF NOT EXISTS health_integrations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  provider text NOT NULL,
+  status text NOT NULL DEFAULT 'connected' CHECK (status IN ('connected', 'disconnected', 'error')),
+  credentials jsonb,
+  sync_cursor text,
+  last_synced_at timestamptz,
+  last_error text,
+  connected_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, provider)
+);
+
+CREATE INDEX IF NOT EXISTS idx_health_integrations_user ON health_integrations(user_id);
+
+ALTER TABLE health_integrations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own health integrations" ON health_integrations;
+
+CREATE POLICY "Users can manage own health integrations"
+  ON health_integrations
+  FOR ALL
+  TO authenticated
+  USING (user_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()))
+  WITH CHECK (user_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+DROP TRIGGER IF EXISTS update_health_integrations_updated_at ON health_integrations;
+
+CREATE TRIGGER update_health_integrations_updated_at
+  BEFORE UPDATE ON health_integrations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,75 @@
+/*
+  # Client Measurement Entries
+
+  Body metrics logged in the app used to live only on the device. They are now
+  written to `client_measurements`, one row per logged value, so assigned
+  trainers can see them.
+
+  1. Client Measurements
+    - `measured_at` - Exact time of the reading (`measurement_date` stays as its local date)
+    - `local_id` - Id of an entry migrated from on-device storage, so the
+      migration can be retried without duplicating entries
+    - `steps`, `sleep_hours`, `water_intake_l` - Metrics the app tracks that had no column
+    - `updated_at`
+
+  2. Security
+    - Unchanged: clients and their active trainers manage the rows
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'client_measurements' AND column_name = 'measured_at'
+  ) THEN
+    ALTER TABLE client_measurements ADD COLUMN measured_at timestamptz DEFAULT now();
+    UPDATE client_measurements SET measured_at = measurement_date::timestamptz WHERE measurement_date IS NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'client_measurements' AND column_name = 'local_id'
+  ) THEN
+    ALTER TABLE client_measurements ADD COLUMN local_id text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'client_measurements' AND column_name = 'steps'
+  ) THEN
+    ALTER TABLE client_measurements ADD COLUMN steps integer;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'client_measurements' AND column_name = 'sleep_hours'
+  ) THEN
+    ALTER TABLE client_measurements ADD COLUMN sleep_hours decimal(3,1);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'client_measurements' AND column_name = 'water_intake_l'
+  ) THEN
+    ALTER TABLE client_measurements ADD COLUMN water_intake_l decimal(4,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'client_measurements' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE client_measurements ADD COLUMN updated_at timestamptz DEFAULT now();
+  END IF;
+END $$;
+
+ALTER TABLE client_measurements DROP CONSTRAINT IF EXISTS client_measurements_client_local_id_key;
+ALTER TABLE client_measurements ADD CONSTRAINT client_measurements_client_local_id_key UNIQUE (client_id, local_id);
+
+CREATE INDEX IF NOT EXISTS idx_client_measurements_client_measured_at ON client_measurements(client_id, measured_at);
+
+DROP TRIGGER IF EXISTS update_client_measurements_updated_at ON client_measurements;
+
+CREATE TRIGGER update_client_measurements_updated_at
+  BEFORE UPDATE ON client_measurements
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
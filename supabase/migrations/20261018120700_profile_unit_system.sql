@@ -0,0 +1,23 @@
+/*
+  # Profile Unit System
+
+  Values are always stored in metric units (`weight_kg`, `chest_cm`, ...). Each
+  user now picks whether the app shows and accepts metric or imperial units.
+
+  1. Profiles
+    - `unit_system` - 'metric' or 'imperial', defaults to metric
+
+  2. Security
+    - Unchanged: users update their own profile
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'unit_system'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN unit_system text NOT NULL DEFAULT 'metric'
+      CHECK (unit_system IN ('metric', 'imperial'));
+  END IF;
+END $$;
@@ -0,0 +1,405 @@
+/*
+  # Notification Delivery
+
+  In-app notifications are written by the database when something happens to a
+  user (a new trainer, a new plan, a message, a session change), filtered by
+  that user's channel preferences. Notifications that should also go out as a
+  push are queued and sent by the app of the user who caused them.
+
+  1. Notifications
+    - `type` also allows 'plan', 'message' and 'session'
+    - `actor_id` - Profile whose action created the notification
+    - `in_inbox` - Shown in the inbox (false when only a push was wanted)
+    - `push_status` - none | pending | sending | sent | failed
+    - `pushed_at`
+    - Published on `supabase_realtime` so the inbox updates live
+
+  2. New Tables
+    - `notification_preferences` - Per user and notification type: in-app and push switches.
+      A missing row means both channels are on.
+    - `push_tokens` - Expo push tokens registered by each user's devices
+
+  3. Functions
+    - `notify_profile` - Write a notification honouring the recipient's preferences
+      (internal; called by the triggers below)
+    - `claim_push_deliveries` - Take pending pushes the caller caused, with the recipient's tokens
+    - `complete_push_delivery` - Record the result and drop tokens the push service rejected
+
+  4. Triggers
+    - `client_assignments` insert, `workout_plans` assignment, `messages` insert,
+      `training_sessions` insert and schedule/status changes
+*/
+
+-- =============================================
+-- NOTIFICATIONS
+-- =============================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('workout', 'goal', 'assignment', 'system', 'reminder', 'plan', 'message', 'session'));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'actor_id'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'in_inbox'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN in_inbox boolean NOT NULL DEFAULT true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'push_status'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN push_status text NOT NULL DEFAULT 'none'
+      CHECK (push_status IN ('none', 'pending', 'sending', 'sent', 'failed'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'pushed_at'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN pushed_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_inbox ON notifications(user_id, created_at DESC) WHERE in_inbox;
+CREATE INDEX IF NOT EXISTS idx_notifications_pending_push ON notifications(actor_id) WHERE push_status = 'pending';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
+
+-- =============================================
+-- PREFERENCES AND PUSH TOKENS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL CHECK (type IN ('workout', 'goal', 'assignment', 'system', 'reminder', 'plan', 'message', 'session')),
+  in_app boolean NOT NULL DEFAULT true,
+  push boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, type)
+);
+
+CREATE TABLE IF NOT EXISTS push_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  token text UNIQUE NOT NULL,
+  platform text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tokens_user ON push_tokens(user_id);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own notification preferences" ON notification_preferences;
+DROP POLICY IF EXISTS "Users can manage own push tokens" ON push_tokens;
+
+CREATE POLICY "Users can manage own notification preferences"
+  ON notification_preferences
+  FOR ALL
+  TO authenticated
+  USING (user_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()))
+  WITH CHECK (user_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Users can manage own push tokens"
+  ON push_tokens
+  FOR ALL
+  TO authenticated
+  USING (user_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()))
+  WITH CHECK (user_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON notification_preferences;
+DROP TRIGGER IF EXISTS update_push_tokens_updated_at ON push_tokens;
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_push_tokens_updated_at
+  BEFORE UPDATE ON push_tokens
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION notify_profile(
+  recipient_id uuid,
+  notification_type text,
+  notification_title text,
+  notification_message text,
+  notification_data jsonb DEFAULT '{}',
+  actor uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  wants_in_app boolean := true;
+  wants_push boolean := true;
+  new_id uuid;
+BEGIN
+  -- Nobody is notified about their own actions
+  IF recipient_id IS NULL OR recipient_id = actor THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT np.in_app, np.push INTO wants_in_app, wants_push
+  FROM notification_preferences np
+  WHERE np.user_id = recipient_id AND np.type = notification_type;
+
+  wants_in_app := COALESCE(wants_in_app, true);
+  wants_push := COALESCE(wants_push, true)
+    AND EXISTS (SELECT 1 FROM push_tokens pt WHERE pt.user_id = recipient_id);
+
+  IF NOT wants_in_app AND NOT wants_push THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, title, message, type, data, actor_id, in_inbox, push_status)
+  VALUES (
+    recipient_id,
+    notification_title,
+    notification_message,
+    notification_type,
+    COALESCE(notification_data, '{}'),
+    actor,
+    wants_in_app,
+    CASE WHEN wants_push THEN 'pending' ELSE 'none' END
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notify_profile(uuid, text, text, text, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION current_profile_id()
+RETURNS uuid AS $$
+  SELECT id FROM profiles WHERE user_id = auth.uid() LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION claim_push_deliveries(max_count integer DEFAULT 50)
+RETURNS TABLE (
+  notification_id uuid,
+  tokens text[],
+  title text,
+  message text,
+  type text,
+  data jsonb
+) AS $$
+DECLARE
+  caller uuid := current_profile_id();
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE notifications n
+    SET push_status = 'sending'
+    WHERE n.id IN (
+      SELECT pending.id FROM notifications pending
+      WHERE pending.push_status = 'pending' AND pending.actor_id = caller
+      ORDER BY pending.created_at
+      LIMIT max_count
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING n.id, n.user_id, n.title, n.message, n.type, n.data
+  )
+  SELECT
+    c.id,
+    ARRAY(SELECT pt.token FROM push_tokens pt WHERE pt.user_id = c.user_id),
+    c.title,
+    c.message,
+    c.type,
+    c.data
+  FROM claimed c;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION complete_push_delivery(
+  target_notification_id uuid,
+  delivered boolean,
+  invalid_tokens text[] DEFAULT '{}'
+)
+RETURNS void AS $$
+DECLARE
+  recipient uuid;
+BEGIN
+  UPDATE notifications
+  SET push_status = CASE WHEN delivered THEN 'sent' ELSE 'failed' END,
+      pushed_at = now()
+  WHERE id = target_notification_id
+    AND push_status = 'sending'
+    AND actor_id = current_profile_id()
+  RETURNING user_id INTO recipient;
+
+  IF recipient IS NOT NULL AND array_length(invalid_tokens, 1) > 0 THEN
+    DELETE FROM push_tokens WHERE user_id = recipient AND token = ANY(invalid_tokens);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- TRIGGERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION notify_client_assignment()
+RETURNS trigger AS $$
+DECLARE
+  actor uuid := COALESCE(current_profile_id(), NEW.assigned_by);
+  client_name text;
+BEGIN
+  SELECT COALESCE(full_name, email) INTO client_name FROM profiles WHERE id = NEW.client_id;
+
+  IF NEW.trainer_id IS NOT NULL THEN
+    PERFORM notify_profile(
+      NEW.client_id, 'assignment', 'New trainer assigned',
+      'You have been matched with a trainer.',
+      jsonb_build_object('assignment_id', NEW.id, 'trainer_id', NEW.trainer_id), actor
+    );
+    PERFORM notify_profile(
+      NEW.trainer_id, 'assignment', 'New client',
+      COALESCE(client_name, 'A client') || ' has been assigned to you.',
+      jsonb_build_object('assignment_id', NEW.id, 'client_id', NEW.client_id), actor
+    );
+  END IF;
+
+  IF NEW.nutritionist_id IS NOT NULL THEN
+    PERFORM notify_profile(
+      NEW.client_id, 'assignment', 'New nutritionist assigned',
+      'You have been matched with a nutritionist.',
+      jsonb_build_object('assignment_id', NEW.id, 'nutritionist_id', NEW.nutritionist_id), actor
+    );
+    PERFORM notify_profile(
+      NEW.nutritionist_id, 'assignment', 'New client',
+      COALESCE(client_name, 'A client') || ' has been assigned to you.',
+      jsonb_build_object('assignment_id', NEW.id, 'client_id', NEW.client_id), actor
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION notify_workout_plan()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.client_id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.client_id IS DISTINCT FROM OLD.client_id) THEN
+    PERFORM notify_profile(
+      NEW.client_id, 'plan', 'New workout plan',
+      'Your trainer added "' || NEW.name || '" to your plans.',
+      jsonb_build_object('plan_id', NEW.id), COALESCE(current_profile_id(), NEW.trainer_id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION notify_new_message()
+RETURNS trigger AS $$
+DECLARE
+  recipient uuid;
+  sender_name text;
+BEGIN
+  IF NEW.message_type = 'system' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT CASE WHEN c.participant_1_id = NEW.sender_id THEN c.participant_2_id ELSE c.participant_1_id END
+  INTO recipient
+  FROM conversations c
+  WHERE c.id = NEW.conversation_id;
+
+  SELECT COALESCE(full_name, email) INTO sender_name FROM profiles WHERE id = NEW.sender_id;
+
+  PERFORM notify_profile(
+    recipient, 'message', COALESCE(sender_name, 'New message'),
+    CASE WHEN NEW.message_type = 'text' THEN left(NEW.content, 140) ELSE 'Sent an attachment' END,
+    jsonb_build_object('conversation_id', NEW.conversation_id, 'sender_id', NEW.sender_id), NEW.sender_id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION notify_training_session_change()
+RETURNS trigger AS $$
+DECLARE
+  actor uuid := current_profile_id();
+  notification_title text;
+  notification_message text;
+  session_time text := to_char(NEW.scheduled_date, 'Mon DD') || ' at ' || to_char(NEW.scheduled_time, 'HH12:MI AM');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    notification_title := 'Session scheduled';
+    notification_message := 'Training session on ' || session_time || '.';
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'cancelled' THEN
+    notification_title := 'Session cancelled';
+    notification_message := 'The session on ' || session_time || ' was cancelled.';
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'completed' THEN
+    notification_title := 'Session completed';
+    notification_message := 'Your training session has been completed. Great work!';
+  ELSIF NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date OR NEW.scheduled_time IS DISTINCT FROM OLD.scheduled_time THEN
+    notification_title := 'Session rescheduled';
+    notification_message := 'Your session moved to ' || session_time || '.';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  -- notify_profile skips whichever side made the change
+  PERFORM notify_profile(NEW.client_id, 'session', notification_title, notification_message,
+    jsonb_build_object('session_id', NEW.id), actor);
+  PERFORM notify_profile(NEW.trainer_id, 'session', notification_title, notification_message,
+    jsonb_build_object('session_id', NEW.id), actor);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_client_assignment ON client_assignments;
+DROP TRIGGER IF EXISTS notify_workout_plan ON workout_plans;
+DROP TRIGGER IF EXISTS notify_new_message ON messages;
+DROP TRIGGER IF EXISTS notify_training_session_change ON training_sessions;
+
+CREATE TRIGGER notify_client_assignment
+  AFTER INSERT ON client_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_client_assignment();
+
+CREATE TRIGGER notify_workout_plan
+  AFTER INSERT OR UPDATE OF client_id ON workout_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_workout_plan();
+
+CREATE TRIGGER notify_new_message
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_new_message();
+
+CREATE TRIGGER notify_training_session_change
+  AFTER INSERT OR UPDATE OF status, scheduled_date, scheduled_time ON training_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_training_session_change();
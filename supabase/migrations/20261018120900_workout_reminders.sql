@@ -0,0 +1,54 @@
+/*
+  # Workout Reminders
+
+  Clients get a local reminder before each workout their trainer scheduled
+  (`plan_sessions`) and each booked training session. Reminders are scheduled on
+  the device, so schedule changes need to reach it while the app is open.
+
+  1. Profiles
+    - `quiet_hours_start`, `quiet_hours_end` - Local times between which no
+      reminder fires. Both null means quiet hours are off. The window may wrap
+      past midnight (e.g. 22:00 - 07:00).
+
+  2. Realtime
+    - `plan_sessions` and `training_sessions` are published on
+      `supabase_realtime` so a moved workout reschedules the client's reminders
+
+  3. Security
+    - Unchanged: users update their own profile, plan session policies still
+      decide which rows are broadcast
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'quiet_hours_start'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN quiet_hours_start time;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'quiet_hours_end'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN quiet_hours_end time;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'plan_sessions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE plan_sessions;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'training_sessions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE training_sessions;
+  END IF;
+END $$;
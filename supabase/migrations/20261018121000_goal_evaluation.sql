@@ -0,0 +1,155 @@
+/*
+  # Goal Evaluation
+
+  Goals can now be linked to the data that measures them, so progress is
+  computed from what the user logs instead of being typed in by hand. The app
+  evaluates the signed-in user's goals whenever that data changes and writes the
+  result back here.
+
+  1. Goals
+    - `source_type` - manual | metric | workout_count | workout_volume | steps | nutrition_streak
+    - `source_metric` - Metric registry id when `source_type` is metric (e.g. 'weight')
+    - `start_value` - Source value when the goal was set; progress is measured from here
+    - `target_value`, `current_value`, `unit`
+    - `completed_at`, `last_evaluated_at`
+
+  2. Client Goals
+    - Same `source_type`, `source_metric`, `start_value`, `completed_at` and
+      `last_evaluated_at` columns, plus `progress_percentage`
+
+  3. Notifications
+    - The trainer who set a client goal is notified when it is completed
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'goals' AND column_name = 'source_type'
+  ) THEN
+    ALTER TABLE goals ADD COLUMN source_type text NOT NULL DEFAULT 'manual'
+      CHECK (source_type IN ('manual', 'metric', 'workout_count', 'workout_volume', 'steps', 'nutrition_streak'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'goals' AND column_name = 'source_metric'
+  ) THEN
+    ALTER TABLE goals ADD COLUMN source_metric text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'goals' AND column_name = 'start_value'
+  ) THEN
+    ALTER TABLE goals ADD COLUMN start_value decimal(12,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'goals' AND column_name = 'target_value'
+  ) THEN
+    ALTER TABLE goals ADD COLUMN target_value decimal(12,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'goals' AND column_name = 'current_value'
+  ) THEN
+    ALTER TABLE goals ADD COLUMN current_value decimal(12,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'goals' AND column_name = 'unit'
+  ) THEN
+    ALTER TABLE goals ADD COLUMN unit text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'goals' AND column_name = 'completed_at'
+  ) THEN
+    ALTER TABLE goals ADD COLUMN completed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'goals' AND column_name = 'last_evaluated_at'
+  ) THEN
+    ALTER TABLE goals ADD COLUMN last_evaluated_at timestamptz;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'client_goals' AND column_name = 'source_type'
+  ) THEN
+    ALTER TABLE client_goals ADD COLUMN source_type text NOT NULL DEFAULT 'manual'
+      CHECK (source_type IN ('manual', 'metric', 'workout_count', 'workout_volume', 'steps', 'nutrition_streak'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'client_goals' AND column_name = 'source_metric'
+  ) THEN
+    ALTER TABLE client_goals ADD COLUMN source_metric text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'client_goals' AND column_name = 'start_value'
+  ) THEN
+    ALTER TABLE client_goals ADD COLUMN start_value decimal(10,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'client_goals' AND column_name = 'progress_percentage'
+  ) THEN
+    ALTER TABLE client_goals ADD COLUMN progress_percentage integer DEFAULT 0
+      CHECK (progress_percentage >= 0 AND progress_percentage <= 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'client_goals' AND column_name = 'completed_at'
+  ) THEN
+    ALTER TABLE client_goals ADD COLUMN completed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'client_goals' AND column_name = 'last_evaluated_at'
+  ) THEN
+    ALTER TABLE client_goals ADD COLUMN last_evaluated_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_client_goals_client_status ON client_goals(client_id, status);
+
+CREATE OR REPLACE FUNCTION notify_client_goal_completed()
+RETURNS TRIGGER AS $$
+DECLARE
+  client_name text;
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    SELECT full_name INTO client_name FROM profiles WHERE id = NEW.client_id;
+    PERFORM notify_profile(
+      NEW.trainer_id, 'goal', 'Client goal achieved',
+      COALESCE(client_name, 'Your client') || ' completed "' || NEW.title || '".',
+      jsonb_build_object('client_goal_id', NEW.id, 'client_id', NEW.client_id),
+      COALESCE(current_profile_id(), NEW.client_id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_client_goal_completed_trigger ON client_goals;
+CREATE TRIGGER notify_client_goal_completed_trigger
+  AFTER UPDATE OF status ON client_goals
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_client_goal_completed();
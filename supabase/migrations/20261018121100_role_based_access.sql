@@ -0,0 +1,254 @@
+/*
+  # Role-Based Access
+
+  Until now roles were mostly enforced by hiding screens in the app. This moves
+  the rules into the database so a modified client can't read other people's
+  data or promote itself.
+
+  1. Capabilities
+    - `role_capabilities` - the role/capability matrix, mirrored by
+      ROLE_CAPABILITIES in lib/permissions.ts
+    - `current_user_role()`, `has_capability(text)` and `is_assigned_client(uuid)`
+      helpers for policies
+
+  2. Roles
+    - `leads` is a valid profile role (self sign-ups start there)
+    - Role changes made through the API need `roles.assign`, and nobody can
+      change their own role; invitations and admin functions change roles from
+      SECURITY DEFINER code instead
+
+  3. Policies
+    - Trainers and nutritionists read only clients with an active assignment
+      to them, and only write sessions and goals for those clients
+    - Admins and HR read all profiles and manage assignments
+    - Clients can read the profiles of their own coaches
+    - New users can create their own profile as a client or lead only
+*/
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_role_check
+  CHECK (role IN ('client', 'trainer', 'nutritionist', 'admin', 'hr', 'leads'));
+
+-- =============================================
+-- CAPABILITIES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS role_capabilities (
+  role text NOT NULL,
+  capability text NOT NULL,
+  PRIMARY KEY (role, capability)
+);
+
+ALTER TABLE role_capabilities ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone signed in can read role capabilities" ON role_capabilities;
+
+CREATE POLICY "Anyone signed in can read role capabilities"
+  ON role_capabilities
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DELETE FROM role_capabilities;
+INSERT INTO role_capabilities (role, capability) VALUES
+  ('client', 'self.track'),
+  ('leads', 'self.track'),
+  ('trainer', 'self.track'),
+  ('trainer', 'clients.read_assigned'),
+  ('trainer', 'plans.manage'),
+  ('trainer', 'sessions.manage'),
+  ('trainer', 'analytics.view_own'),
+  ('nutritionist', 'self.track'),
+  ('nutritionist', 'clients.read_assigned'),
+  ('nutritionist', 'nutrition.manage'),
+  ('nutritionist', 'analytics.view_own'),
+  ('hr', 'clients.read_all'),
+  ('hr', 'assignments.manage'),
+  ('hr', 'invitations.manage'),
+  ('hr', 'analytics.view_all'),
+  ('admin', 'self.track'),
+  ('admin', 'clients.read_all'),
+  ('admin', 'plans.manage'),
+  ('admin', 'sessions.manage'),
+  ('admin', 'nutrition.manage'),
+  ('admin', 'analytics.view_all'),
+  ('admin', 'assignments.manage'),
+  ('admin', 'invitations.manage'),
+  ('admin', 'users.manage'),
+  ('admin', 'roles.assign');
+
+-- These read profiles themselves, so policies on profiles can call them
+-- without recursing into their own checks
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text AS $$
+  SELECT role FROM profiles WHERE user_id = auth.uid() LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_capability(required text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM role_capabilities rc
+    WHERE rc.role = current_user_role() AND rc.capability = required
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_assigned_client(target_client_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM client_assignments ca
+    WHERE ca.client_id = target_client_id
+      AND ca.status = 'active'
+      AND current_profile_id() IN (ca.trainer_id, ca.nutritionist_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION current_user_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_capability(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_assigned_client(uuid) TO authenticated;
+
+-- =============================================
+-- ROLE CHANGES
+-- =============================================
+
+-- Direct API updates run as the authenticated role; SECURITY DEFINER functions
+-- (redeem_invitation, admin tools) run as their owner and decide for themselves
+CREATE OR REPLACE FUNCTION prevent_role_escalation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    IF NEW.role IS DISTINCT FROM OLD.role
+      AND (OLD.user_id = auth.uid() OR NOT has_capability('roles.assign')) THEN
+      RAISE EXCEPTION 'Not allowed to change this role' USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id AND NOT has_capability('users.manage') THEN
+      RAISE EXCEPTION 'Not allowed to change the account a profile belongs to' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_role_escalation_trigger ON profiles;
+CREATE TRIGGER prevent_role_escalation_trigger
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_role_escalation();
+
+-- =============================================
+-- PROFILES
+-- =============================================
+
+DROP POLICY IF EXISTS "Trainers can read client profiles" ON profiles;
+DROP POLICY IF EXISTS "Coaches can read assigned client profiles" ON profiles;
+DROP POLICY IF EXISTS "Staff can read all profiles" ON profiles;
+DROP POLICY IF EXISTS "Clients can read their coaches" ON profiles;
+DROP POLICY IF EXISTS "User managers can update profiles" ON profiles;
+DROP POLICY IF EXISTS "Users can create own profile" ON profiles;
+
+CREATE POLICY "Coaches can read assigned client profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (has_capability('clients.read_assigned') AND is_assigned_client(id));
+
+CREATE POLICY "Staff can read all profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (has_capability('clients.read_all'));
+
+CREATE POLICY "Clients can read their coaches"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM client_assignments ca
+      WHERE ca.client_id = current_profile_id()
+        AND ca.status = 'active'
+        AND profiles.id IN (ca.trainer_id, ca.nutritionist_id)
+    )
+  );
+
+CREATE POLICY "User managers can update profiles"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (has_capability('users.manage'));
+
+CREATE POLICY "Users can create own profile"
+  ON profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (id = auth.uid() OR user_id = auth.uid())
+    AND role IN ('client', 'leads')
+  );
+
+-- =============================================
+-- ASSIGNMENTS
+-- =============================================
+
+DROP POLICY IF EXISTS "Assignment managers can manage assignments" ON client_assignments;
+
+CREATE POLICY "Assignment managers can manage assignments"
+  ON client_assignments
+  FOR ALL
+  TO authenticated
+  USING (has_capability('assignments.manage'))
+  WITH CHECK (has_capability('assignments.manage'));
+
+-- =============================================
+-- CLIENT DATA
+-- =============================================
+
+-- Previously any trainer_id match was enough, so a trainer could write sessions
+-- and goals for clients who were never assigned to them
+DROP POLICY IF EXISTS "Trainers can read client workout sessions" ON workout_sessions;
+DROP POLICY IF EXISTS "Trainers can manage assigned client workout sessions" ON workout_sessions;
+
+CREATE POLICY "Trainers can manage assigned client workout sessions"
+  ON workout_sessions
+  FOR ALL
+  TO authenticated
+  USING (trainer_id = current_profile_id() AND is_assigned_client(client_id))
+  WITH CHECK (trainer_id = current_profile_id() AND is_assigned_client(client_id));
+
+DROP POLICY IF EXISTS "Users can manage client goals" ON client_goals;
+DROP POLICY IF EXISTS "Clients can manage own client goals" ON client_goals;
+DROP POLICY IF EXISTS "Trainers can manage assigned client goals" ON client_goals;
+
+CREATE POLICY "Clients can manage own client goals"
+  ON client_goals
+  FOR ALL
+  TO authenticated
+  USING (client_id = current_profile_id())
+  WITH CHECK (client_id = current_profile_id());
+
+CREATE POLICY "Trainers can manage assigned client goals"
+  ON client_goals
+  FOR ALL
+  TO authenticated
+  USING (trainer_id = current_profile_id() AND is_assigned_client(client_id))
+  WITH CHECK (trainer_id = current_profile_id() AND is_assigned_client(client_id));
+
+DROP POLICY IF EXISTS "Coaches can read assigned client goals" ON goals;
+
+CREATE POLICY "Coaches can read assigned client goals"
+  ON goals
+  FOR SELECT
+  TO authenticated
+  USING (is_assigned_client(user_id));
+
+-- =============================================
+-- INVITATIONS
+-- =============================================
+
+DROP POLICY IF EXISTS "Admins and HR can read invitations" ON invitations;
+
+CREATE POLICY "Admins and HR can read invitations"
+  ON invitations
+  FOR SELECT
+  TO authenticated
+  USING (has_capability('invitations.manage'));
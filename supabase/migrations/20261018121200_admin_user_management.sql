@@ -0,0 +1,207 @@
+/*
+  # Admin User Management
+
+  User management used to edit a mock list. Admins now work on `profiles`
+  directly and every change they make is recorded for compliance reviews.
+
+  1. Profiles
+    - `account_status` - 'active' or 'inactive'; inactive accounts keep their
+      data but lose every capability
+    - `deactivated_at` - When the account was last deactivated
+    - Only user managers can change an account's status, and never their own
+
+  2. Audit log
+    - `admin_audit_log` - append-only record of changes made to someone else's
+      profile: actor, target, action and before/after values
+    - Written by triggers and SECURITY DEFINER functions only; updates and
+      deletes are rejected for every role
+    - Readable with the new `audit.read` capability (admin and HR)
+
+  3. Functions
+    - `record_password_reset(uuid)` - logs a password reset an admin sent
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'account_status'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN account_status text NOT NULL DEFAULT 'active'
+      CHECK (account_status IN ('active', 'inactive'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'deactivated_at'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN deactivated_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_account_status ON profiles(account_status);
+
+-- =============================================
+-- CAPABILITIES
+-- =============================================
+
+INSERT INTO role_capabilities (role, capability) VALUES
+  ('admin', 'audit.read'),
+  ('hr', 'audit.read')
+ON CONFLICT DO NOTHING;
+
+-- Inactive accounts have no role as far as policies are concerned
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text AS $$
+  SELECT role FROM profiles
+  WHERE user_id = auth.uid() AND account_status = 'active'
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- PROFILE CHANGES
+-- =============================================
+
+CREATE OR REPLACE FUNCTION prevent_role_escalation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    IF NEW.role IS DISTINCT FROM OLD.role
+      AND (OLD.user_id = auth.uid() OR NOT has_capability('roles.assign')) THEN
+      RAISE EXCEPTION 'Not allowed to change this role' USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id AND NOT has_capability('users.manage') THEN
+      RAISE EXCEPTION 'Not allowed to change the account a profile belongs to' USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.account_status IS DISTINCT FROM OLD.account_status
+      AND (OLD.user_id = auth.uid() OR NOT has_capability('users.manage')) THEN
+      RAISE EXCEPTION 'Not allowed to change this account''s status' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF NEW.account_status = 'inactive' AND OLD.account_status IS DISTINCT FROM 'inactive' THEN
+    NEW.deactivated_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- =============================================
+-- AUDIT LOG
+-- =============================================
+
+-- No foreign keys: entries must outlive the profiles they mention, and an
+-- ON DELETE SET NULL would be an update the log refuses
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid,
+  target_id uuid,
+  action text NOT NULL,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_id, created_at DESC);
+
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Auditors can read the admin audit log" ON admin_audit_log;
+
+CREATE POLICY "Auditors can read the admin audit log"
+  ON admin_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (has_capability('audit.read'));
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON admin_audit_log FROM authenticated, anon;
+
+CREATE OR REPLACE FUNCTION reject_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'admin_audit_log is append-only' USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reject_audit_log_changes_trigger ON admin_audit_log;
+CREATE TRIGGER reject_audit_log_changes_trigger
+  BEFORE UPDATE OR DELETE ON admin_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_audit_log_changes();
+
+DROP TRIGGER IF EXISTS reject_audit_log_truncate_trigger ON admin_audit_log;
+CREATE TRIGGER reject_audit_log_truncate_trigger
+  BEFORE TRUNCATE ON admin_audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION reject_audit_log_changes();
+
+-- Logs changes someone makes to another person's profile. Self-edits (name,
+-- units, quiet hours) are not admin actions and are left out.
+CREATE OR REPLACE FUNCTION log_profile_admin_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor uuid := current_profile_id();
+  changed_before jsonb := '{}'::jsonb;
+  changed_after jsonb := '{}'::jsonb;
+  field text;
+BEGIN
+  IF actor IS NULL OR actor = NEW.id THEN
+    RETURN NEW;
+  END IF;
+
+  FOREACH field IN ARRAY ARRAY['role', 'account_status', 'full_name', 'email', 'user_id'] LOOP
+    IF (to_jsonb(OLD) -> field) IS DISTINCT FROM (to_jsonb(NEW) -> field) THEN
+      changed_before := changed_before || jsonb_build_object(field, to_jsonb(OLD) -> field);
+      changed_after := changed_after || jsonb_build_object(field, to_jsonb(NEW) -> field);
+    END IF;
+  END LOOP;
+
+  IF changed_after = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO admin_audit_log (actor_id, target_id, action, before, after)
+  VALUES (
+    actor,
+    NEW.id,
+    CASE
+      WHEN changed_after ? 'role' THEN 'role_changed'
+      WHEN changed_after ? 'account_status' THEN
+        CASE WHEN NEW.account_status = 'inactive' THEN 'user_deactivated' ELSE 'user_reactivated' END
+      ELSE 'profile_updated'
+    END,
+    changed_before,
+    changed_after
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_profile_admin_change_trigger ON profiles;
+CREATE TRIGGER log_profile_admin_change_trigger
+  AFTER UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION log_profile_admin_change();
+
+-- The reset email itself is sent by Supabase Auth from the app; this records
+-- who asked for it
+CREATE OR REPLACE FUNCTION record_password_reset(target_profile_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_capability('users.manage') THEN
+    RAISE EXCEPTION 'Not allowed to reset passwords' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = target_profile_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  INSERT INTO admin_audit_log (actor_id, target_id, action, before, after)
+  VALUES (current_profile_id(), target_profile_id, 'password_reset_sent', NULL, NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_password_reset(uuid) TO authenticated;
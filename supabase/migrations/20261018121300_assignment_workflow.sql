@@ -0,0 +1,441 @@
+/*
+  # Assignment Workflow
+
+  `client_assignments` keeps one current row per client pairing them with a
+  trainer and a nutritionist, but nothing recorded who coached whom before, and
+  coaches could be given any number of clients.
+
+  1. Profiles
+    - `max_clients` - How many active clients a coach can take; NULL means no limit
+
+  2. History
+    - `client_assignment_history` - one row per coach stint with start and end
+      times, the reason it started and ended, and who made each change
+    - Filled by a trigger on `client_assignments`, so every path that changes an
+      assignment is recorded; the reason comes from the functions below
+    - Existing active assignments are backfilled as open stints
+
+  3. Capacity
+    - Giving a coach a client beyond their `max_clients` is rejected
+
+  4. Functions
+    - `assign_coach(client, coach, role, reason)` - pair a client with a coach
+    - `end_coach_assignment(client, role, reason)` - remove a client's coach
+    - `reassign_coach_clients(from, to, reason)` - move every client of a
+      departing coach, all or nothing
+    - `set_coach_capacity(coach, max)`
+
+  5. Notifications
+    - The client, the incoming coach and the outgoing coach are notified of
+      every change, replacing the insert-only `notify_client_assignment`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'max_clients'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN max_clients integer CHECK (max_clients IS NULL OR max_clients >= 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_client_assignments_trainer_active
+  ON client_assignments(trainer_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_client_assignments_nutritionist_active
+  ON client_assignments(nutritionist_id) WHERE status = 'active';
+
+-- =============================================
+-- HISTORY
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS client_assignment_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id uuid REFERENCES client_assignments(id) ON DELETE SET NULL,
+  client_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  coach_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  coach_role text NOT NULL CHECK (coach_role IN ('trainer', 'nutritionist')),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  start_reason text,
+  end_reason text,
+  started_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  ended_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_history_client ON client_assignment_history(client_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_assignment_history_coach ON client_assignment_history(coach_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_assignment_history_started ON client_assignment_history(started_at DESC);
+
+ALTER TABLE client_assignment_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Assignment managers can read assignment history" ON client_assignment_history;
+DROP POLICY IF EXISTS "People can read their own assignment history" ON client_assignment_history;
+
+CREATE POLICY "Assignment managers can read assignment history"
+  ON client_assignment_history
+  FOR SELECT
+  TO authenticated
+  USING (has_capability('assignments.manage'));
+
+CREATE POLICY "People can read their own assignment history"
+  ON client_assignment_history
+  FOR SELECT
+  TO authenticated
+  USING (current_profile_id() IN (client_id, coach_id));
+
+INSERT INTO client_assignment_history (assignment_id, client_id, coach_id, coach_role, started_at, started_by)
+SELECT ca.id, ca.client_id, ca.trainer_id, 'trainer', ca.assigned_date::timestamptz, ca.assigned_by
+FROM client_assignments ca
+WHERE ca.status = 'active' AND ca.trainer_id IS NOT NULL AND ca.client_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM client_assignment_history h
+    WHERE h.client_id = ca.client_id AND h.coach_id = ca.trainer_id AND h.ended_at IS NULL
+  );
+
+INSERT INTO client_assignment_history (assignment_id, client_id, coach_id, coach_role, started_at, started_by)
+SELECT ca.id, ca.client_id, ca.nutritionist_id, 'nutritionist', ca.assigned_date::timestamptz, ca.assigned_by
+FROM client_assignments ca
+WHERE ca.status = 'active' AND ca.nutritionist_id IS NOT NULL AND ca.client_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM client_assignment_history h
+    WHERE h.client_id = ca.client_id AND h.coach_id = ca.nutritionist_id AND h.ended_at IS NULL
+  );
+
+-- =============================================
+-- CAPACITY
+-- =============================================
+
+CREATE OR REPLACE FUNCTION coach_active_client_count(target_coach_id uuid, excluding_assignment uuid DEFAULT NULL)
+RETURNS integer AS $$
+  SELECT count(*)::integer FROM client_assignments ca
+  WHERE ca.status = 'active'
+    AND target_coach_id IN (ca.trainer_id, ca.nutritionist_id)
+    AND ca.id IS DISTINCT FROM excluding_assignment;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION enforce_coach_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  coach uuid;
+  previous uuid;
+  capacity integer;
+BEGIN
+  IF NEW.status <> 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  FOREACH coach IN ARRAY ARRAY[NEW.trainer_id, NEW.nutritionist_id] LOOP
+    CONTINUE WHEN coach IS NULL;
+
+    -- Only newly gained clients count against capacity
+    IF TG_OP = 'UPDATE' AND OLD.status = 'active' AND coach IN (OLD.trainer_id, OLD.nutritionist_id) THEN
+      CONTINUE;
+    END IF;
+
+    SELECT max_clients INTO capacity FROM profiles WHERE id = coach;
+    IF capacity IS NOT NULL AND coach_active_client_count(coach, NEW.id) >= capacity THEN
+      RAISE EXCEPTION 'Coach is at capacity (% clients)', capacity USING ERRCODE = '23514';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_coach_capacity_trigger ON client_assignments;
+CREATE TRIGGER enforce_coach_capacity_trigger
+  BEFORE INSERT OR UPDATE ON client_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_coach_capacity();
+
+-- =============================================
+-- HISTORY AND NOTIFICATIONS
+-- =============================================
+
+-- Closes the outgoing coach's stint, opens the incoming one and tells everyone
+-- involved. `app.assignment_reason` is set by the functions below for the
+-- current transaction only.
+CREATE OR REPLACE FUNCTION record_coach_change(
+  target_assignment_id uuid,
+  target_client_id uuid,
+  role_name text,
+  old_coach uuid,
+  new_coach uuid
+)
+RETURNS void AS $$
+DECLARE
+  actor uuid := current_profile_id();
+  reason text := NULLIF(current_setting('app.assignment_reason', true), '');
+  client_name text;
+  role_label text := CASE WHEN role_name = 'trainer' THEN 'trainer' ELSE 'nutritionist' END;
+BEGIN
+  IF old_coach IS NOT DISTINCT FROM new_coach OR target_client_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(full_name, email) INTO client_name FROM profiles WHERE id = target_client_id;
+
+  IF old_coach IS NOT NULL THEN
+    UPDATE client_assignment_history
+    SET ended_at = now(), end_reason = reason, ended_by = actor
+    WHERE client_id = target_client_id
+      AND coach_id = old_coach
+      AND coach_role = role_name
+      AND ended_at IS NULL;
+
+    PERFORM notify_profile(
+      old_coach, 'assignment', 'Client reassigned',
+      COALESCE(client_name, 'A client') || ' is no longer assigned to you.',
+      jsonb_build_object('assignment_id', target_assignment_id, 'client_id', target_client_id), actor
+    );
+  END IF;
+
+  IF new_coach IS NOT NULL THEN
+    INSERT INTO client_assignment_history (
+      assignment_id, client_id, coach_id, coach_role, start_reason, started_by
+    )
+    VALUES (target_assignment_id, target_client_id, new_coach, role_name, reason, actor);
+
+    PERFORM notify_profile(
+      target_client_id, 'assignment', 'New ' || role_label || ' assigned',
+      'You have been matched with a ' || role_label || '.',
+      jsonb_build_object('assignment_id', target_assignment_id, role_name || '_id', new_coach), actor
+    );
+    PERFORM notify_profile(
+      new_coach, 'assignment', 'New client',
+      COALESCE(client_name, 'A client') || ' has been assigned to you.',
+      jsonb_build_object('assignment_id', target_assignment_id, 'client_id', target_client_id), actor
+    );
+  ELSE
+    PERFORM notify_profile(
+      target_client_id, 'assignment', 'Your ' || role_label || ' has changed',
+      'Your ' || role_label || ' is no longer assigned to you. We will match you with someone new.',
+      jsonb_build_object('assignment_id', target_assignment_id), actor
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_coach_change(uuid, uuid, text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION track_client_assignment_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_trainer uuid;
+  old_nutritionist uuid;
+  new_trainer uuid;
+  new_nutritionist uuid;
+BEGIN
+  -- Only active rows count as a coach actually having the client
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status = 'active' THEN
+    old_trainer := OLD.trainer_id;
+    old_nutritionist := OLD.nutritionist_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status = 'active' THEN
+    new_trainer := NEW.trainer_id;
+    new_nutritionist := NEW.nutritionist_id;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM record_coach_change(NULL, OLD.client_id, 'trainer', old_trainer, NULL);
+    PERFORM record_coach_change(NULL, OLD.client_id, 'nutritionist', old_nutritionist, NULL);
+    RETURN OLD;
+  END IF;
+
+  PERFORM record_coach_change(NEW.id, NEW.client_id, 'trainer', old_trainer, new_trainer);
+  PERFORM record_coach_change(NEW.id, NEW.client_id, 'nutritionist', old_nutritionist, new_nutritionist);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_client_assignment ON client_assignments;
+DROP TRIGGER IF EXISTS track_client_assignment_change_trigger ON client_assignments;
+
+CREATE TRIGGER track_client_assignment_change_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON client_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION track_client_assignment_change();
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION assign_coach(
+  target_client_id uuid,
+  target_coach_id uuid,
+  coach_role text,
+  assignment_reason text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  assignment_id uuid;
+BEGIN
+  IF NOT has_capability('assignments.manage') THEN
+    RAISE EXCEPTION 'Not allowed to manage assignments' USING ERRCODE = '42501';
+  END IF;
+
+  IF coach_role NOT IN ('trainer', 'nutritionist') THEN
+    RAISE EXCEPTION 'Unknown coach role %', coach_role;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = target_coach_id AND role = coach_role AND account_status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'That person is not an active %', coach_role;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = target_client_id AND role IN ('client', 'leads')) THEN
+    RAISE EXCEPTION 'Only clients can be assigned a coach';
+  END IF;
+
+  PERFORM set_config('app.assignment_reason', COALESCE(assignment_reason, ''), true);
+
+  SELECT id INTO assignment_id FROM client_assignments
+  WHERE client_id = target_client_id AND status = 'active'
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF assignment_id IS NULL THEN
+    INSERT INTO client_assignments (client_id, trainer_id, nutritionist_id, assigned_by, status)
+    VALUES (
+      target_client_id,
+      CASE WHEN coach_role = 'trainer' THEN target_coach_id END,
+      CASE WHEN coach_role = 'nutritionist' THEN target_coach_id END,
+      current_profile_id(),
+      'active'
+    )
+    RETURNING id INTO assignment_id;
+  ELSIF coach_role = 'trainer' THEN
+    UPDATE client_assignments
+    SET trainer_id = target_coach_id, assigned_by = current_profile_id(), updated_at = now()
+    WHERE id = assignment_id;
+  ELSE
+    UPDATE client_assignments
+    SET nutritionist_id = target_coach_id, assigned_by = current_profile_id(), updated_at = now()
+    WHERE id = assignment_id;
+  END IF;
+
+  RETURN assignment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION end_coach_assignment(
+  target_client_id uuid,
+  coach_role text,
+  assignment_reason text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_capability('assignments.manage') THEN
+    RAISE EXCEPTION 'Not allowed to manage assignments' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('app.assignment_reason', COALESCE(assignment_reason, ''), true);
+
+  UPDATE client_assignments
+  SET trainer_id = CASE WHEN coach_role = 'trainer' THEN NULL ELSE trainer_id END,
+      nutritionist_id = CASE WHEN coach_role = 'nutritionist' THEN NULL ELSE nutritionist_id END,
+      updated_at = now()
+  WHERE client_id = target_client_id AND status = 'active';
+
+  -- A client with no coaches left has no current assignment
+  UPDATE client_assignments
+  SET status = 'inactive', updated_at = now()
+  WHERE client_id = target_client_id
+    AND status = 'active'
+    AND trainer_id IS NULL
+    AND nutritionist_id IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Moves every active client of a coach who is leaving. With no replacement the
+-- clients are left without that coach. Fails as a whole if the replacement
+-- lacks the capacity.
+CREATE OR REPLACE FUNCTION reassign_coach_clients(
+  from_coach_id uuid,
+  to_coach_id uuid DEFAULT NULL,
+  assignment_reason text DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  from_role text;
+  moved integer := 0;
+  capacity integer;
+BEGIN
+  IF NOT has_capability('assignments.manage') THEN
+    RAISE EXCEPTION 'Not allowed to manage assignments' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT role INTO from_role FROM profiles WHERE id = from_coach_id;
+  IF from_role NOT IN ('trainer', 'nutritionist') THEN
+    RAISE EXCEPTION 'Only trainers and nutritionists have clients to reassign';
+  END IF;
+
+  IF to_coach_id IS NOT NULL THEN
+    IF to_coach_id = from_coach_id THEN
+      RAISE EXCEPTION 'Choose a different coach';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = to_coach_id AND role = from_role AND account_status = 'active'
+    ) THEN
+      RAISE EXCEPTION 'The replacement must be an active %', from_role;
+    END IF;
+
+    SELECT max_clients INTO capacity FROM profiles WHERE id = to_coach_id;
+    IF capacity IS NOT NULL AND
+      coach_active_client_count(to_coach_id) + coach_active_client_count(from_coach_id) > capacity THEN
+      RAISE EXCEPTION 'The replacement only has room for % more clients',
+        GREATEST(capacity - coach_active_client_count(to_coach_id), 0)
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.assignment_reason', COALESCE(assignment_reason, ''), true);
+
+  IF from_role = 'trainer' THEN
+    UPDATE client_assignments
+    SET trainer_id = to_coach_id, assigned_by = current_profile_id(), updated_at = now()
+    WHERE trainer_id = from_coach_id AND status = 'active';
+  ELSE
+    UPDATE client_assignments
+    SET nutritionist_id = to_coach_id, assigned_by = current_profile_id(), updated_at = now()
+    WHERE nutritionist_id = from_coach_id AND status = 'active';
+  END IF;
+  GET DIAGNOSTICS moved = ROW_COUNT;
+
+  UPDATE client_assignments
+  SET status = 'inactive', updated_at = now()
+  WHERE status = 'active' AND trainer_id IS NULL AND nutritionist_id IS NULL;
+
+  RETURN moved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_coach_capacity(target_coach_id uuid, new_max_clients integer)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_capability('assignments.manage') THEN
+    RAISE EXCEPTION 'Not allowed to manage assignments' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE profiles
+  SET max_clients = new_max_clients, updated_at = now()
+  WHERE id = target_coach_id AND role IN ('trainer', 'nutritionist');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Capacity can only be set for trainers and nutritionists';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION assign_coach(uuid, uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION end_coach_assignment(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reassign_coach_clients(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_coach_capacity(uuid, integer) TO authenticated;
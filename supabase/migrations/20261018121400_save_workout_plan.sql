@@ -0,0 +1,95 @@
+/*
+  # Save Workout Plan
+
+  Creating or editing a plan used to be three separate requests from the app:
+  write the plan, delete its sessions, insert the new sessions. A failure part
+  way through left a plan with no sessions, or an edited plan still carrying
+  its old schedule.
+
+  1. Functions
+    - `save_workout_plan(plan, sessions, target_plan_id)` - inserts the plan
+      (or updates `target_plan_id`) and replaces its sessions in one
+      transaction, returning the saved plan row
+    - Runs with the caller's rights, so the existing `workout_plans` and
+      `plan_sessions` policies decide what may be written
+*/
+
+CREATE OR REPLACE FUNCTION save_workout_plan(
+  plan jsonb,
+  sessions jsonb,
+  target_plan_id uuid DEFAULT NULL
+)
+RETURNS workout_plans AS $$
+DECLARE
+  fields workout_plans;
+  saved workout_plans;
+BEGIN
+  IF NOT has_capability('plans.manage') THEN
+    RAISE EXCEPTION 'Not allowed to manage workout plans' USING ERRCODE = '42501';
+  END IF;
+
+  fields := jsonb_populate_record(NULL::workout_plans, plan);
+
+  IF fields.end_date < fields.start_date THEN
+    RAISE EXCEPTION 'Plan cannot end before it starts' USING ERRCODE = '23514';
+  END IF;
+
+  IF target_plan_id IS NULL THEN
+    INSERT INTO workout_plans (
+      client_id, trainer_id, name, description, start_date, end_date,
+      schedule_type, schedule_data, progression_rule, progression_config, status
+    )
+    VALUES (
+      fields.client_id,
+      COALESCE(fields.trainer_id, current_profile_id()),
+      fields.name,
+      fields.description,
+      fields.start_date,
+      fields.end_date,
+      COALESCE(fields.schedule_type, 'weekly'),
+      COALESCE(fields.schedule_data, '{}'),
+      COALESCE(fields.progression_rule, 'none'),
+      COALESCE(fields.progression_config, '{}'),
+      COALESCE(fields.status, 'active')
+    )
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE workout_plans SET
+      client_id = fields.client_id,
+      name = fields.name,
+      description = fields.description,
+      start_date = fields.start_date,
+      end_date = fields.end_date,
+      schedule_type = COALESCE(fields.schedule_type, schedule_type),
+      schedule_data = COALESCE(fields.schedule_data, schedule_data),
+      progression_rule = COALESCE(fields.progression_rule, progression_rule),
+      progression_config = COALESCE(fields.progression_config, progression_config),
+      status = COALESCE(fields.status, status),
+      updated_at = now()
+    WHERE id = target_plan_id
+    RETURNING * INTO saved;
+
+    IF saved.id IS NULL THEN
+      RAISE EXCEPTION 'Workout plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM plan_sessions WHERE plan_id = saved.id;
+  END IF;
+
+  INSERT INTO plan_sessions (
+    plan_id, template_id, scheduled_date, scheduled_time, day_of_week, week_number, status, notes
+  )
+  SELECT
+    saved.id,
+    s.template_id,
+    s.scheduled_date,
+    s.scheduled_time,
+    s.day_of_week,
+    s.week_number,
+    COALESCE(s.status, 'scheduled'),
+    s.notes
+  FROM jsonb_populate_recordset(NULL::plan_sessions, COALESCE(sessions, '[]'::jsonb)) s;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,110 @@
+/*
+  # Plan Periodization
+
+  Plans can now run in mesocycles with deload weeks, rotate week layouts and
+  skip blackout dates. The schedule itself lives in `workout_plans.schedule_data`;
+  sessions are generated from it by the app.
+
+  1. Plan Sessions
+    - `is_deload` - Whether the session falls in a deload week
+
+  2. Functions
+    - `save_workout_plan` no longer deletes sessions that were completed or
+      skipped when a plan is edited. Only sessions still `scheduled` are
+      replaced, and no new session is added on a date that kept one.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'plan_sessions' AND column_name = 'is_deload'
+  ) THEN
+    ALTER TABLE plan_sessions ADD COLUMN is_deload boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION save_workout_plan(
+  plan jsonb,
+  sessions jsonb,
+  target_plan_id uuid DEFAULT NULL
+)
+RETURNS workout_plans AS $$
+DECLARE
+  fields workout_plans;
+  saved workout_plans;
+BEGIN
+  IF NOT has_capability('plans.manage') THEN
+    RAISE EXCEPTION 'Not allowed to manage workout plans' USING ERRCODE = '42501';
+  END IF;
+
+  fields := jsonb_populate_record(NULL::workout_plans, plan);
+
+  IF fields.end_date < fields.start_date THEN
+    RAISE EXCEPTION 'Plan cannot end before it starts' USING ERRCODE = '23514';
+  END IF;
+
+  IF target_plan_id IS NULL THEN
+    INSERT INTO workout_plans (
+      client_id, trainer_id, name, description, start_date, end_date,
+      schedule_type, schedule_data, progression_rule, progression_config, status
+    )
+    VALUES (
+      fields.client_id,
+      COALESCE(fields.trainer_id, current_profile_id()),
+      fields.name,
+      fields.description,
+      fields.start_date,
+      fields.end_date,
+      COALESCE(fields.schedule_type, 'weekly'),
+      COALESCE(fields.schedule_data, '{}'),
+      COALESCE(fields.progression_rule, 'none'),
+      COALESCE(fields.progression_config, '{}'),
+      COALESCE(fields.status, 'active')
+    )
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE workout_plans SET
+      client_id = fields.client_id,
+      name = fields.name,
+      description = fields.description,
+      start_date = fields.start_date,
+      end_date = fields.end_date,
+      schedule_type = COALESCE(fields.schedule_type, schedule_type),
+      schedule_data = COALESCE(fields.schedule_data, schedule_data),
+      progression_rule = COALESCE(fields.progression_rule, progression_rule),
+      progression_config = COALESCE(fields.progression_config, progression_config),
+      status = COALESCE(fields.status, status),
+      updated_at = now()
+    WHERE id = target_plan_id
+    RETURNING * INTO saved;
+
+    IF saved.id IS NULL THEN
+      RAISE EXCEPTION 'Workout plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM plan_sessions WHERE plan_id = saved.id AND status = 'scheduled';
+  END IF;
+
+  INSERT INTO plan_sessions (
+    plan_id, template_id, scheduled_date, scheduled_time, day_of_week, week_number, is_deload, status, notes
+  )
+  SELECT
+    saved.id,
+    s.template_id,
+    s.scheduled_date,
+    s.scheduled_time,
+    s.day_of_week,
+    s.week_number,
+    COALESCE(s.is_deload, false),
+    COALESCE(s.status, 'scheduled'),
+    s.notes
+  FROM jsonb_populate_recordset(NULL::plan_sessions, COALESCE(sessions, '[]'::jsonb)) s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM plan_sessions kept
+    WHERE kept.plan_id = saved.id AND kept.scheduled_date = s.scheduled_date
+  );
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
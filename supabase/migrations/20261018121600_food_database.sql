@@ -0,0 +1,111 @@
+/*
+  # Food Database
+
+  Food journal entries were free text with hand-typed macros. The app now ships
+  a nutrient database (`assets/data/foods.json`) and lets users save their own
+  foods, so an entry can point at the food it was logged from and the portion
+  that was eaten.
+
+  1. New Tables
+    - `custom_foods` - Foods a user created, with nutrients per 100 g and the
+      serving sizes they log it in (`servings`, a list of `{ label, grams }`)
+
+  2. Food Entries
+    - `catalog_food_id` - Id of the bundled food the entry was logged from
+    - `custom_food_id` - The custom food it was logged from; cleared if that
+      food is deleted, the entry keeps its totals
+    - `quantity` - Number of servings eaten
+    - `serving_label`, `serving_grams` - The serving the quantity counts
+    - The existing nutrient columns still hold the entry's totals
+
+  3. Security
+    - Users manage their own custom foods
+    - Assigned trainers and nutritionists can read their clients' custom foods
+*/
+
+CREATE TABLE IF NOT EXISTS custom_foods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  brand text,
+  calories numeric NOT NULL DEFAULT 0 CHECK (calories >= 0),
+  protein_g numeric NOT NULL DEFAULT 0 CHECK (protein_g >= 0),
+  carbs_g numeric NOT NULL DEFAULT 0 CHECK (carbs_g >= 0),
+  fat_g numeric NOT NULL DEFAULT 0 CHECK (fat_g >= 0),
+  fiber_g numeric NOT NULL DEFAULT 0 CHECK (fiber_g >= 0),
+  sugar_g numeric NOT NULL DEFAULT 0 CHECK (sugar_g >= 0),
+  sodium_mg numeric NOT NULL DEFAULT 0 CHECK (sodium_mg >= 0),
+  servings jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_foods_created_by ON custom_foods(created_by, name);
+
+ALTER TABLE custom_foods ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own custom foods" ON custom_foods;
+DROP POLICY IF EXISTS "Coaches can read client custom foods" ON custom_foods;
+
+CREATE POLICY "Users can manage own custom foods"
+  ON custom_foods
+  FOR ALL
+  TO authenticated
+  USING (created_by = current_profile_id())
+  WITH CHECK (created_by = current_profile_id());
+
+CREATE POLICY "Coaches can read client custom foods"
+  ON custom_foods
+  FOR SELECT
+  TO authenticated
+  USING (is_assigned_client(created_by));
+
+DROP TRIGGER IF EXISTS update_custom_foods_updated_at ON custom_foods;
+
+CREATE TRIGGER update_custom_foods_updated_at
+  BEFORE UPDATE ON custom_foods
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'food_entries' AND column_name = 'catalog_food_id'
+  ) THEN
+    ALTER TABLE food_entries ADD COLUMN catalog_food_id text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'food_entries' AND column_name = 'custom_food_id'
+  ) THEN
+    ALTER TABLE food_entries ADD COLUMN custom_food_id uuid REFERENCES custom_foods(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'food_entries' AND column_name = 'quantity'
+  ) THEN
+    ALTER TABLE food_entries ADD COLUMN quantity numeric CHECK (quantity IS NULL OR quantity > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'food_entries' AND column_name = 'serving_label'
+  ) THEN
+    ALTER TABLE food_entries ADD COLUMN serving_label text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'food_entries' AND column_name = 'serving_grams'
+  ) THEN
+    ALTER TABLE food_entries ADD COLUMN serving_grams numeric CHECK (serving_grams IS NULL OR serving_grams > 0);
+  END IF;
+END $$;
+
+-- Recent and frequent foods read a user's latest entries that came from a food
+CREATE INDEX IF NOT EXISTS idx_food_entries_user_food_created
+  ON food_entries(user_id, created_at DESC)
+  WHERE catalog_food_id IS NOT NULL OR custom_food_id IS NOT NULL;
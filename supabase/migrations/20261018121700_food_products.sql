@@ -0,0 +1,87 @@
+/*
+  # Food Products
+
+  Packaged foods can be logged by scanning their barcode. Products are shared:
+  once someone adds a product with its nutrition panel, everyone who scans the
+  same code finds it.
+
+  1. New Tables
+    - `food_products` - One row per EAN/UPC barcode, normalized to EAN-13
+      (EAN-8 codes are kept as they are), with nutrients per 100 g and the
+      serving size printed on the pack
+
+  2. Food Entries
+    - `product_barcode` - The product an entry was logged from. `quantity` and
+      the serving columns hold the amount, as for other foods
+
+  3. Security
+    - Everyone signed in can look products up
+    - Users add products in their own name and can correct what they added
+    - Users with `nutrition.manage` can correct any product
+*/
+
+CREATE TABLE IF NOT EXISTS food_products (
+  barcode text PRIMARY KEY CHECK (barcode ~ '^([0-9]{8}|[0-9]{13})$'),
+  name text NOT NULL,
+  brand text,
+  serving_label text,
+  serving_grams numeric CHECK (serving_grams IS NULL OR serving_grams > 0),
+  calories numeric NOT NULL DEFAULT 0 CHECK (calories >= 0),
+  protein_g numeric NOT NULL DEFAULT 0 CHECK (protein_g >= 0),
+  carbs_g numeric NOT NULL DEFAULT 0 CHECK (carbs_g >= 0),
+  fat_g numeric NOT NULL DEFAULT 0 CHECK (fat_g >= 0),
+  fiber_g numeric NOT NULL DEFAULT 0 CHECK (fiber_g >= 0),
+  sugar_g numeric NOT NULL DEFAULT 0 CHECK (sugar_g >= 0),
+  sodium_mg numeric NOT NULL DEFAULT 0 CHECK (sodium_mg >= 0),
+  contributed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE food_products ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read food products" ON food_products;
+DROP POLICY IF EXISTS "Users can add food products" ON food_products;
+DROP POLICY IF EXISTS "Contributors and nutrition managers can update food products" ON food_products;
+
+CREATE POLICY "Authenticated users can read food products"
+  ON food_products
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can add food products"
+  ON food_products
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (contributed_by = current_profile_id());
+
+CREATE POLICY "Contributors and nutrition managers can update food products"
+  ON food_products
+  FOR UPDATE
+  TO authenticated
+  USING (contributed_by = current_profile_id() OR has_capability('nutrition.manage'))
+  WITH CHECK (contributed_by = current_profile_id() OR has_capability('nutrition.manage'));
+
+DROP TRIGGER IF EXISTS update_food_products_updated_at ON food_products;
+
+CREATE TRIGGER update_food_products_updated_at
+  BEFORE UPDATE ON food_products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'food_entries' AND column_name = 'product_barcode'
+  ) THEN
+    ALTER TABLE food_entries ADD COLUMN product_barcode text REFERENCES food_products(barcode) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_food_entries_user_food_created;
+
+CREATE INDEX idx_food_entries_user_food_created
+  ON food_entries(user_id, created_at DESC)
+  WHERE catalog_food_id IS NOT NULL OR custom_food_id IS NOT NULL OR product_barcode IS NOT NULL;
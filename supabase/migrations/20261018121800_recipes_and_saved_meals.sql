@@ -0,0 +1,409 @@
+/*
+  # Recipes and Saved Meals
+
+  Meals eaten again and again no longer have to be logged food by food.
+
+  1. New Tables
+    - `recipes` - A dish made from ingredients, with how many servings it
+      yields. Nutritionists can publish theirs to their clients
+    - `recipe_ingredients` - Each ingredient with the food it came from, the
+      amount, and the nutrients for that amount. The nutrients are stored so
+      clients can log a published recipe without access to the nutritionist's
+      custom foods
+    - `saved_meals` - A named group of foods logged together, filed under a
+      meal type (breakfast, lunch, ...)
+    - `saved_meal_items` - The foods in a saved meal, stored like food entries
+
+  2. Food Entries
+    - `recipe_id` - The recipe an entry was logged from; `quantity` counts
+      servings of it
+
+  3. Functions
+    - `is_assigned_coach(coach)` - Whether the caller is an active client of
+      `coach`
+    - `save_recipe(recipe, ingredients, target_recipe_id)` - Inserts or updates
+      a recipe and replaces its ingredients in one transaction
+    - `save_meal(meal, items)` - Creates a saved meal with its items
+
+  4. Notifications
+    - New `nutrition` type. Clients are notified when one of their coaches
+      publishes a recipe
+
+  5. Security
+    - Users manage their own recipes and saved meals
+    - Only users with `nutrition.manage` can publish a recipe
+    - Clients can read recipes their active coaches published
+*/
+
+-- =============================================
+-- NOTIFICATION TYPE
+-- =============================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('workout', 'goal', 'assignment', 'system', 'reminder', 'plan', 'message', 'session', 'nutrition'));
+
+ALTER TABLE notification_preferences DROP CONSTRAINT IF EXISTS notification_preferences_type_check;
+ALTER TABLE notification_preferences ADD CONSTRAINT notification_preferences_type_check
+  CHECK (type IN ('workout', 'goal', 'assignment', 'system', 'reminder', 'plan', 'message', 'session', 'nutrition'));
+
+-- =============================================
+-- RECIPES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS recipes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text,
+  instructions text,
+  servings numeric NOT NULL DEFAULT 1 CHECK (servings > 0),
+  is_published boolean NOT NULL DEFAULT false,
+  published_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS recipe_ingredients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipe_id uuid REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  name text NOT NULL,
+  catalog_food_id text,
+  custom_food_id uuid REFERENCES custom_foods(id) ON DELETE SET NULL,
+  product_barcode text REFERENCES food_products(barcode) ON DELETE SET NULL,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  serving_label text NOT NULL,
+  serving_grams numeric NOT NULL CHECK (serving_grams > 0),
+  calories numeric NOT NULL DEFAULT 0,
+  protein_g numeric NOT NULL DEFAULT 0,
+  carbs_g numeric NOT NULL DEFAULT 0,
+  fat_g numeric NOT NULL DEFAULT 0,
+  fiber_g numeric NOT NULL DEFAULT 0,
+  sugar_g numeric NOT NULL DEFAULT 0,
+  sodium_mg numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipes_created_by ON recipes(created_by, name);
+CREATE INDEX IF NOT EXISTS idx_recipes_published ON recipes(created_by) WHERE is_published;
+CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_recipe ON recipe_ingredients(recipe_id, position);
+
+CREATE OR REPLACE FUNCTION is_assigned_coach(target_coach_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM client_assignments ca
+    WHERE ca.client_id = current_profile_id()
+      AND ca.status = 'active'
+      AND target_coach_id IN (ca.trainer_id, ca.nutritionist_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_assigned_coach(uuid) TO authenticated;
+
+ALTER TABLE recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_ingredients ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own recipes" ON recipes;
+DROP POLICY IF EXISTS "Clients can read recipes published by their coaches" ON recipes;
+DROP POLICY IF EXISTS "Users can manage own recipe ingredients" ON recipe_ingredients;
+DROP POLICY IF EXISTS "Clients can read published recipe ingredients" ON recipe_ingredients;
+
+CREATE POLICY "Users can manage own recipes"
+  ON recipes
+  FOR ALL
+  TO authenticated
+  USING (created_by = current_profile_id())
+  WITH CHECK (
+    created_by = current_profile_id()
+    AND (NOT is_published OR has_capability('nutrition.manage'))
+  );
+
+CREATE POLICY "Clients can read recipes published by their coaches"
+  ON recipes
+  FOR SELECT
+  TO authenticated
+  USING (is_published AND is_assigned_coach(created_by));
+
+CREATE POLICY "Users can manage own recipe ingredients"
+  ON recipe_ingredients
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM recipes r
+    WHERE r.id = recipe_ingredients.recipe_id AND r.created_by = current_profile_id()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM recipes r
+    WHERE r.id = recipe_ingredients.recipe_id AND r.created_by = current_profile_id()
+  ));
+
+CREATE POLICY "Clients can read published recipe ingredients"
+  ON recipe_ingredients
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM recipes r
+    WHERE r.id = recipe_ingredients.recipe_id AND r.is_published AND is_assigned_coach(r.created_by)
+  ));
+
+DROP TRIGGER IF EXISTS update_recipes_updated_at ON recipes;
+
+CREATE TRIGGER update_recipes_updated_at
+  BEFORE UPDATE ON recipes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION save_recipe(
+  recipe jsonb,
+  ingredients jsonb,
+  target_recipe_id uuid DEFAULT NULL
+)
+RETURNS recipes AS $$
+DECLARE
+  fields recipes;
+  saved recipes;
+BEGIN
+  fields := jsonb_populate_record(NULL::recipes, recipe);
+
+  IF COALESCE(fields.is_published, false) AND NOT has_capability('nutrition.manage') THEN
+    RAISE EXCEPTION 'Only nutritionists can publish recipes' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(ingredients, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A recipe needs at least one ingredient' USING ERRCODE = '23514';
+  END IF;
+
+  IF target_recipe_id IS NULL THEN
+    INSERT INTO recipes (created_by, name, description, instructions, servings, is_published, published_at)
+    VALUES (
+      current_profile_id(),
+      fields.name,
+      fields.description,
+      fields.instructions,
+      COALESCE(fields.servings, 1),
+      COALESCE(fields.is_published, false),
+      CASE WHEN fields.is_published THEN now() END
+    )
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE recipes SET
+      name = fields.name,
+      description = fields.description,
+      instructions = fields.instructions,
+      servings = COALESCE(fields.servings, servings),
+      is_published = COALESCE(fields.is_published, is_published),
+      published_at = CASE
+        WHEN COALESCE(fields.is_published, is_published) THEN COALESCE(published_at, now())
+      END
+    WHERE id = target_recipe_id
+    RETURNING * INTO saved;
+
+    IF saved.id IS NULL THEN
+      RAISE EXCEPTION 'Recipe not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM recipe_ingredients WHERE recipe_id = saved.id;
+  END IF;
+
+  INSERT INTO recipe_ingredients (
+    recipe_id, position, name, catalog_food_id, custom_food_id, product_barcode,
+    quantity, serving_label, serving_grams,
+    calories, protein_g, carbs_g, fat_g, fiber_g, sugar_g, sodium_mg
+  )
+  SELECT
+    saved.id,
+    COALESCE(i.position, 0),
+    i.name,
+    i.catalog_food_id,
+    i.custom_food_id,
+    i.product_barcode,
+    i.quantity,
+    i.serving_label,
+    i.serving_grams,
+    COALESCE(i.calories, 0),
+    COALESCE(i.protein_g, 0),
+    COALESCE(i.carbs_g, 0),
+    COALESCE(i.fat_g, 0),
+    COALESCE(i.fiber_g, 0),
+    COALESCE(i.sugar_g, 0),
+    COALESCE(i.sodium_mg, 0)
+  FROM jsonb_populate_recordset(NULL::recipe_ingredients, ingredients) i;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Tell a coach's clients when a recipe becomes available to them
+CREATE OR REPLACE FUNCTION notify_recipe_published()
+RETURNS TRIGGER AS $$
+DECLARE
+  client uuid;
+BEGIN
+  IF NOT NEW.is_published OR (TG_OP = 'UPDATE' AND OLD.is_published) THEN
+    RETURN NEW;
+  END IF;
+
+  FOR client IN
+    SELECT DISTINCT ca.client_id FROM client_assignments ca
+    WHERE ca.status = 'active'
+      AND NEW.created_by IN (ca.trainer_id, ca.nutritionist_id)
+      AND ca.client_id IS NOT NULL
+  LOOP
+    PERFORM notify_profile(
+      client, 'nutrition', 'New recipe',
+      'Your coach shared a recipe: ' || NEW.name,
+      jsonb_build_object('recipe_id', NEW.id), NEW.created_by
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_recipe_published ON recipes;
+
+CREATE TRIGGER notify_recipe_published
+  AFTER INSERT OR UPDATE OF is_published ON recipes
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_recipe_published();
+
+-- =============================================
+-- SAVED MEALS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS saved_meals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  meal_type_id uuid REFERENCES meal_types(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS saved_meal_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_meal_id uuid REFERENCES saved_meals(id) ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  title text NOT NULL,
+  description text,
+  catalog_food_id text,
+  custom_food_id uuid REFERENCES custom_foods(id) ON DELETE SET NULL,
+  product_barcode text REFERENCES food_products(barcode) ON DELETE SET NULL,
+  recipe_id uuid REFERENCES recipes(id) ON DELETE SET NULL,
+  quantity numeric,
+  serving_label text,
+  serving_grams numeric,
+  calories numeric NOT NULL DEFAULT 0,
+  protein_g numeric NOT NULL DEFAULT 0,
+  carbs_g numeric NOT NULL DEFAULT 0,
+  fat_g numeric NOT NULL DEFAULT 0,
+  fiber_g numeric NOT NULL DEFAULT 0,
+  sugar_g numeric NOT NULL DEFAULT 0,
+  sodium_mg numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_meals_created_by ON saved_meals(created_by, name);
+CREATE INDEX IF NOT EXISTS idx_saved_meal_items_meal ON saved_meal_items(saved_meal_id, position);
+
+ALTER TABLE saved_meals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_meal_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own saved meals" ON saved_meals;
+DROP POLICY IF EXISTS "Users can manage own saved meal items" ON saved_meal_items;
+
+CREATE POLICY "Users can manage own saved meals"
+  ON saved_meals
+  FOR ALL
+  TO authenticated
+  USING (created_by = current_profile_id())
+  WITH CHECK (created_by = current_profile_id());
+
+CREATE POLICY "Users can manage own saved meal items"
+  ON saved_meal_items
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM saved_meals m
+    WHERE m.id = saved_meal_items.saved_meal_id AND m.created_by = current_profile_id()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM saved_meals m
+    WHERE m.id = saved_meal_items.saved_meal_id AND m.created_by = current_profile_id()
+  ));
+
+DROP TRIGGER IF EXISTS update_saved_meals_updated_at ON saved_meals;
+
+CREATE TRIGGER update_saved_meals_updated_at
+  BEFORE UPDATE ON saved_meals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION save_meal(meal jsonb, items jsonb)
+RETURNS saved_meals AS $$
+DECLARE
+  fields saved_meals;
+  saved saved_meals;
+BEGIN
+  fields := jsonb_populate_record(NULL::saved_meals, meal);
+
+  IF jsonb_array_length(COALESCE(items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A saved meal needs at least one food' USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO saved_meals (created_by, name, meal_type_id)
+  VALUES (current_profile_id(), fields.name, fields.meal_type_id)
+  RETURNING * INTO saved;
+
+  INSERT INTO saved_meal_items (
+    saved_meal_id, position, title, description,
+    catalog_food_id, custom_food_id, product_barcode, recipe_id,
+    quantity, serving_label, serving_grams,
+    calories, protein_g, carbs_g, fat_g, fiber_g, sugar_g, sodium_mg
+  )
+  SELECT
+    saved.id,
+    COALESCE(i.position, 0),
+    i.title,
+    i.description,
+    i.catalog_food_id,
+    i.custom_food_id,
+    i.product_barcode,
+    i.recipe_id,
+    i.quantity,
+    i.serving_label,
+    i.serving_grams,
+    COALESCE(i.calories, 0),
+    COALESCE(i.protein_g, 0),
+    COALESCE(i.carbs_g, 0),
+    COALESCE(i.fat_g, 0),
+    COALESCE(i.fiber_g, 0),
+    COALESCE(i.sugar_g, 0),
+    COALESCE(i.sodium_mg, 0)
+  FROM jsonb_populate_recordset(NULL::saved_meal_items, items) i;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- =============================================
+-- FOOD ENTRIES
+-- =============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'food_entries' AND column_name = 'recipe_id'
+  ) THEN
+    ALTER TABLE food_entries ADD COLUMN recipe_id uuid REFERENCES recipes(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_food_entries_user_food_created;
+
+CREATE INDEX idx_food_entries_user_food_created
+  ON food_entries(user_id, created_at DESC)
+  WHERE catalog_food_id IS NOT NULL OR custom_food_id IS NOT NULL
+    OR product_barcode IS NOT NULL OR recipe_id IS NOT NULL;
@@ -0,0 +1,314 @@
+/*
+  # Nutrition Plans
+
+  Nutritionists prescribe what their clients should eat. A plan lists meal
+  slots per day of the week, each with target macros, specific foods, or both.
+  Clients see it in their food journal as planned vs logged, and adherence is
+  scored from their food entries.
+
+  1. New Tables
+    - `nutrition_plans` - A client's plan, written by their nutritionist. A
+      client has at most one active plan; saving a new one archives the old
+    - `nutrition_plan_meals` - Meal slots. `day_of_week` is 0 (Sunday) to 6,
+      or null for slots that apply every day. Days with slots of their own
+      don't use the every-day slots
+    - `nutrition_plan_meal_foods` - Foods planned for a slot, with the amount
+      and the nutrients for that amount
+
+  2. Functions
+    - `is_assigned_nutritionist(client)` - Whether the caller is the client's
+      active nutritionist
+    - `save_nutrition_plan(plan, meals, target_plan_id)` - Inserts or updates a
+      plan and replaces its meal slots and foods in one transaction. A new plan
+      archives the client's previous one and notifies the client
+
+  3. Security
+    - Clients read their own plans
+    - Only a client's active nutritionist writes their plans
+    - Coaches can now read the food journal (entries, photos and goals) of
+      clients assigned to them, to score adherence
+*/
+
+CREATE OR REPLACE FUNCTION is_assigned_nutritionist(target_client_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM client_assignments ca
+    WHERE ca.client_id = target_client_id
+      AND ca.status = 'active'
+      AND ca.nutritionist_id = current_profile_id()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_assigned_nutritionist(uuid) TO authenticated;
+
+-- =============================================
+-- PLANS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS nutrition_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  nutritionist_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  description text,
+  start_date date NOT NULL DEFAULT CURRENT_DATE,
+  end_date date,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS nutrition_plan_meals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid REFERENCES nutrition_plans(id) ON DELETE CASCADE NOT NULL,
+  day_of_week smallint CHECK (day_of_week BETWEEN 0 AND 6),
+  meal_type_id uuid REFERENCES meal_types(id) ON DELETE SET NULL,
+  position integer NOT NULL DEFAULT 0,
+  name text NOT NULL,
+  target_calories numeric CHECK (target_calories IS NULL OR target_calories >= 0),
+  target_protein_g numeric CHECK (target_protein_g IS NULL OR target_protein_g >= 0),
+  target_carbs_g numeric CHECK (target_carbs_g IS NULL OR target_carbs_g >= 0),
+  target_fat_g numeric CHECK (target_fat_g IS NULL OR target_fat_g >= 0),
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS nutrition_plan_meal_foods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_meal_id uuid REFERENCES nutrition_plan_meals(id) ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  name text NOT NULL,
+  catalog_food_id text,
+  custom_food_id uuid REFERENCES custom_foods(id) ON DELETE SET NULL,
+  product_barcode text REFERENCES food_products(barcode) ON DELETE SET NULL,
+  recipe_id uuid REFERENCES recipes(id) ON DELETE SET NULL,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  serving_label text NOT NULL,
+  serving_grams numeric NOT NULL CHECK (serving_grams > 0),
+  calories numeric NOT NULL DEFAULT 0,
+  protein_g numeric NOT NULL DEFAULT 0,
+  carbs_g numeric NOT NULL DEFAULT 0,
+  fat_g numeric NOT NULL DEFAULT 0,
+  fiber_g numeric NOT NULL DEFAULT 0,
+  sugar_g numeric NOT NULL DEFAULT 0,
+  sodium_mg numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_nutrition_plans_one_active
+  ON nutrition_plans(client_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_nutrition_plans_nutritionist ON nutrition_plans(nutritionist_id, status);
+CREATE INDEX IF NOT EXISTS idx_nutrition_plan_meals_plan ON nutrition_plan_meals(plan_id, day_of_week, position);
+CREATE INDEX IF NOT EXISTS idx_nutrition_plan_meal_foods_meal ON nutrition_plan_meal_foods(plan_meal_id, position);
+
+ALTER TABLE nutrition_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nutrition_plan_meals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nutrition_plan_meal_foods ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clients can read own nutrition plans" ON nutrition_plans;
+DROP POLICY IF EXISTS "Nutritionists can manage assigned client nutrition plans" ON nutrition_plans;
+DROP POLICY IF EXISTS "Users can read visible nutrition plan meals" ON nutrition_plan_meals;
+DROP POLICY IF EXISTS "Nutritionists can manage nutrition plan meals" ON nutrition_plan_meals;
+DROP POLICY IF EXISTS "Users can read visible nutrition plan foods" ON nutrition_plan_meal_foods;
+DROP POLICY IF EXISTS "Nutritionists can manage nutrition plan foods" ON nutrition_plan_meal_foods;
+
+CREATE POLICY "Clients can read own nutrition plans"
+  ON nutrition_plans
+  FOR SELECT
+  TO authenticated
+  USING (client_id = current_profile_id());
+
+CREATE POLICY "Nutritionists can manage assigned client nutrition plans"
+  ON nutrition_plans
+  FOR ALL
+  TO authenticated
+  USING (has_capability('nutrition.manage') AND is_assigned_nutritionist(client_id))
+  WITH CHECK (has_capability('nutrition.manage') AND is_assigned_nutritionist(client_id));
+
+-- Slots and foods are visible and writable exactly when their plan is
+CREATE POLICY "Users can read visible nutrition plan meals"
+  ON nutrition_plan_meals
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM nutrition_plans p WHERE p.id = nutrition_plan_meals.plan_id));
+
+CREATE POLICY "Nutritionists can manage nutrition plan meals"
+  ON nutrition_plan_meals
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM nutrition_plans p
+    WHERE p.id = nutrition_plan_meals.plan_id
+      AND has_capability('nutrition.manage') AND is_assigned_nutritionist(p.client_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM nutrition_plans p
+    WHERE p.id = nutrition_plan_meals.plan_id
+      AND has_capability('nutrition.manage') AND is_assigned_nutritionist(p.client_id)
+  ));
+
+CREATE POLICY "Users can read visible nutrition plan foods"
+  ON nutrition_plan_meal_foods
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM nutrition_plan_meals m WHERE m.id = nutrition_plan_meal_foods.plan_meal_id));
+
+CREATE POLICY "Nutritionists can manage nutrition plan foods"
+  ON nutrition_plan_meal_foods
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM nutrition_plan_meals m
+    JOIN nutrition_plans p ON p.id = m.plan_id
+    WHERE m.id = nutrition_plan_meal_foods.plan_meal_id
+      AND has_capability('nutrition.manage') AND is_assigned_nutritionist(p.client_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM nutrition_plan_meals m
+    JOIN nutrition_plans p ON p.id = m.plan_id
+    WHERE m.id = nutrition_plan_meal_foods.plan_meal_id
+      AND has_capability('nutrition.manage') AND is_assigned_nutritionist(p.client_id)
+  ));
+
+DROP TRIGGER IF EXISTS update_nutrition_plans_updated_at ON nutrition_plans;
+
+CREATE TRIGGER update_nutrition_plans_updated_at
+  BEFORE UPDATE ON nutrition_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Runs as owner so a new plan can archive one written by a previous
+-- nutritionist; the caller's rights are checked explicitly
+CREATE OR REPLACE FUNCTION save_nutrition_plan(
+  plan jsonb,
+  meals jsonb,
+  target_plan_id uuid DEFAULT NULL
+)
+RETURNS nutrition_plans AS $$
+DECLARE
+  fields nutrition_plans;
+  saved nutrition_plans;
+  meal record;
+  new_meal_id uuid;
+BEGIN
+  fields := jsonb_populate_record(NULL::nutrition_plans, plan);
+
+  IF target_plan_id IS NOT NULL THEN
+    SELECT client_id INTO fields.client_id FROM nutrition_plans WHERE id = target_plan_id;
+    IF fields.client_id IS NULL THEN
+      RAISE EXCEPTION 'Nutrition plan not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  IF NOT has_capability('nutrition.manage') OR NOT is_assigned_nutritionist(fields.client_id) THEN
+    RAISE EXCEPTION 'Only the client''s nutritionist can change their plan' USING ERRCODE = '42501';
+  END IF;
+
+  IF target_plan_id IS NULL THEN
+    UPDATE nutrition_plans
+    SET status = 'archived'
+    WHERE client_id = fields.client_id AND status = 'active';
+
+    INSERT INTO nutrition_plans (client_id, nutritionist_id, name, description, start_date, end_date)
+    VALUES (
+      fields.client_id,
+      current_profile_id(),
+      fields.name,
+      fields.description,
+      COALESCE(fields.start_date, CURRENT_DATE),
+      fields.end_date
+    )
+    RETURNING * INTO saved;
+
+    PERFORM notify_profile(
+      saved.client_id, 'nutrition', 'New meal plan',
+      COALESCE((SELECT full_name FROM profiles WHERE id = saved.nutritionist_id), 'Your nutritionist')
+        || ' assigned you a meal plan: ' || saved.name,
+      jsonb_build_object('nutrition_plan_id', saved.id), saved.nutritionist_id
+    );
+  ELSE
+    UPDATE nutrition_plans SET
+      name = fields.name,
+      description = fields.description,
+      start_date = COALESCE(fields.start_date, start_date),
+      end_date = fields.end_date
+    WHERE id = target_plan_id
+    RETURNING * INTO saved;
+
+    DELETE FROM nutrition_plan_meals WHERE plan_id = saved.id;
+  END IF;
+
+  FOR meal IN
+    SELECT value, ordinality FROM jsonb_array_elements(COALESCE(meals, '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    INSERT INTO nutrition_plan_meals (
+      plan_id, day_of_week, meal_type_id, position, name,
+      target_calories, target_protein_g, target_carbs_g, target_fat_g, notes
+    )
+    SELECT
+      saved.id, m.day_of_week, m.meal_type_id, meal.ordinality - 1, m.name,
+      m.target_calories, m.target_protein_g, m.target_carbs_g, m.target_fat_g, m.notes
+    FROM jsonb_populate_record(NULL::nutrition_plan_meals, meal.value) m
+    RETURNING id INTO new_meal_id;
+
+    INSERT INTO nutrition_plan_meal_foods (
+      plan_meal_id, position, name, catalog_food_id, custom_food_id, product_barcode, recipe_id,
+      quantity, serving_label, serving_grams,
+      calories, protein_g, carbs_g, fat_g, fiber_g, sugar_g, sodium_mg
+    )
+    SELECT
+      new_meal_id,
+      COALESCE(f.position, 0),
+      f.name,
+      f.catalog_food_id,
+      f.custom_food_id,
+      f.product_barcode,
+      f.recipe_id,
+      f.quantity,
+      f.serving_label,
+      f.serving_grams,
+      COALESCE(f.calories, 0),
+      COALESCE(f.protein_g, 0),
+      COALESCE(f.carbs_g, 0),
+      COALESCE(f.fat_g, 0),
+      COALESCE(f.fiber_g, 0),
+      COALESCE(f.sugar_g, 0),
+      COALESCE(f.sodium_mg, 0)
+    FROM jsonb_populate_recordset(NULL::nutrition_plan_meal_foods, COALESCE(meal.value->'foods', '[]'::jsonb)) f;
+  END LOOP;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_nutrition_plan(jsonb, jsonb, uuid) TO authenticated;
+
+-- =============================================
+-- COACH ACCESS TO FOOD JOURNALS
+-- =============================================
+
+DROP POLICY IF EXISTS "Coaches can read assigned client food entries" ON food_entries;
+DROP POLICY IF EXISTS "Coaches can read assigned client food photos" ON food_photos;
+DROP POLICY IF EXISTS "Coaches can read assigned client nutrition goals" ON nutrition_goals;
+
+CREATE POLICY "Coaches can read assigned client food entries"
+  ON food_entries
+  FOR SELECT
+  TO authenticated
+  USING (is_assigned_client(user_id));
+
+CREATE POLICY "Coaches can read assigned client food photos"
+  ON food_photos
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM food_entries fe
+    WHERE fe.id = food_photos.food_entry_id AND is_assigned_client(fe.user_id)
+  ));
+
+CREATE POLICY "Coaches can read assigned client nutrition goals"
+  ON nutrition_goals
+  FOR SELECT
+  TO authenticated
+  USING (is_assigned_client(user_id));
@@ -0,0 +1,77 @@
+/*
+  # Calculated Nutrition Targets
+
+  Daily targets can be calculated from the user's body metrics instead of
+  typed in: BMR and TDEE from height, weight, age, sex and activity level,
+  adjusted for a cut or bulk at a chosen rate, then split into macros by a
+  chosen strategy. `nutrition_goals` keeps the inputs of the last
+  calculation so the app can offer to recalculate when the weight changes.
+
+  `macro_goals` duplicated `nutrition_goals` and nothing read it, so the
+  latest row per user is folded into `nutrition_goals` and the table is
+  dropped. `nutrition_goals` is the only place targets live.
+
+  1. Modified Tables
+    - `profiles` - `sex` and `activity_level`, used by the calculator
+    - `nutrition_goals`
+      - `target_source` - 'manual' (typed in) or 'calculated'
+      - `goal_type`, `goal_rate_kg_per_week` - cut, maintain or bulk, and how
+        fast
+      - `macro_strategy` - how calories are split into macros
+      - `calculated_weight_kg`, `calculated_at` - the weight the targets were
+        calculated from, and when
+
+  2. Removed Tables
+    - `macro_goals` - migrated into `nutrition_goals`
+*/
+
+-- 1. Profile inputs
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS sex text CHECK (sex IN ('female', 'male')),
+  ADD COLUMN IF NOT EXISTS activity_level text
+    CHECK (activity_level IN ('sedentary', 'light', 'moderate', 'active', 'very_active'));
+
+-- 2. Target settings
+
+ALTER TABLE nutrition_goals
+  ADD COLUMN IF NOT EXISTS target_source text NOT NULL DEFAULT 'manual'
+    CHECK (target_source IN ('manual', 'calculated')),
+  ADD COLUMN IF NOT EXISTS goal_type text CHECK (goal_type IN ('cut', 'maintain', 'bulk')),
+  ADD COLUMN IF NOT EXISTS goal_rate_kg_per_week decimal(4,2)
+    CHECK (goal_rate_kg_per_week IS NULL OR goal_rate_kg_per_week BETWEEN 0 AND 1.5),
+  ADD COLUMN IF NOT EXISTS macro_strategy text
+    CHECK (macro_strategy IN ('balanced', 'high_protein', 'low_carb', 'low_fat')),
+  ADD COLUMN IF NOT EXISTS calculated_weight_kg decimal(5,2),
+  ADD COLUMN IF NOT EXISTS calculated_at timestamptz;
+
+-- 3. Fold macro_goals into nutrition_goals
+
+DO $$
+BEGIN
+  IF to_regclass('public.macro_goals') IS NOT NULL THEN
+    -- Percentages are shares of the calorie goal; 4 kcal per gram of
+    -- protein and carbs, 9 per gram of fat
+    INSERT INTO nutrition_goals (user_id, daily_calories, daily_protein_g, daily_carbs_g, daily_fat_g, updated_at)
+    SELECT DISTINCT ON (mg.user_id)
+      mg.user_id,
+      round(mg.calories),
+      CASE WHEN mg.unit = 'percentage' THEN round(mg.calories * mg.protein / 100 / 4, 2) ELSE mg.protein END,
+      CASE WHEN mg.unit = 'percentage' THEN round(mg.calories * mg.carbs / 100 / 4, 2) ELSE mg.carbs END,
+      CASE WHEN mg.unit = 'percentage' THEN round(mg.calories * mg.fat / 100 / 9, 2) ELSE mg.fat END,
+      COALESCE(mg.updated_at, mg.created_at, now())
+    FROM macro_goals mg
+    WHERE mg.user_id IS NOT NULL
+    ORDER BY mg.user_id, mg.created_at DESC
+    ON CONFLICT (user_id) DO UPDATE SET
+      daily_calories = EXCLUDED.daily_calories,
+      daily_protein_g = EXCLUDED.daily_protein_g,
+      daily_carbs_g = EXCLUDED.daily_carbs_g,
+      daily_fat_g = EXCLUDED.daily_fat_g,
+      updated_at = EXCLUDED.updated_at
+    -- Keep goals edited after the macro goal was set
+    WHERE nutrition_goals.updated_at IS NULL OR nutrition_goals.updated_at < EXCLUDED.updated_at;
+
+    DROP TABLE macro_goals;
+  END IF;
+END $$;
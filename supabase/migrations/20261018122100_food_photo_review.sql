@@ -0,0 +1,121 @@
+/*
+  # Photo Meal Review
+
+  A client can log a meal with just a photo. The entry is created pending
+  review with no nutrition values; the client's nutritionist estimates the
+  macros, leaves a comment and approves it, and the client is notified.
+  Journal totals mark the values that came from an estimate or are still
+  waiting for one.
+
+  Food photos used to be saved as paths on the device, which nobody else
+  can open. They are now uploaded to the `food-photos` bucket, in a folder
+  per profile.
+
+  1. Modified Tables
+    - `food_entries`
+      - `review_status` - null for entries the client filled in, 'pending'
+        while a photo meal waits for its estimate, 'approved' once reviewed
+      - `reviewed_by`, `reviewed_at` - the nutritionist who estimated it
+      - `review_comment` - their feedback to the client
+
+  2. New Functions
+    - `review_food_entry(entry_id, estimate, comment)` - Sets the estimated
+      nutrition, approves the entry and notifies the client. Only the
+      client's nutritionist may review
+
+  3. Storage
+    - `food-photos` bucket. Clients manage the folder named after their
+      profile id; coaches can read the folders of their assigned clients
+*/
+
+-- 1. Review state
+
+ALTER TABLE food_entries
+  ADD COLUMN IF NOT EXISTS review_status text CHECK (review_status IN ('pending', 'approved')),
+  ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS review_comment text;
+
+CREATE INDEX IF NOT EXISTS idx_food_entries_pending_review
+  ON food_entries(user_id, date)
+  WHERE review_status = 'pending';
+
+-- 2. Reviewing
+
+-- Runs as owner because coaches can only read their clients' entries; the
+-- caller's rights are checked explicitly
+CREATE OR REPLACE FUNCTION review_food_entry(
+  entry_id uuid,
+  estimate jsonb,
+  comment text DEFAULT NULL
+)
+RETURNS food_entries AS $$
+DECLARE
+  entry food_entries;
+  saved food_entries;
+BEGIN
+  SELECT * INTO entry FROM food_entries WHERE id = entry_id;
+  IF entry.id IS NULL THEN
+    RAISE EXCEPTION 'Meal not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT has_capability('nutrition.manage') OR NOT is_assigned_nutritionist(entry.user_id) THEN
+    RAISE EXCEPTION 'Only the client''s nutritionist can review their meals' USING ERRCODE = '42501';
+  END IF;
+
+  IF entry.review_status IS NULL THEN
+    RAISE EXCEPTION 'This meal was not sent for review' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE food_entries SET
+    calories = COALESCE((estimate->>'calories')::numeric, 0)::integer,
+    protein_g = COALESCE((estimate->>'protein_g')::numeric, 0),
+    carbs_g = COALESCE((estimate->>'carbs_g')::numeric, 0),
+    fat_g = COALESCE((estimate->>'fat_g')::numeric, 0),
+    fiber_g = COALESCE((estimate->>'fiber_g')::numeric, fiber_g),
+    sugar_g = COALESCE((estimate->>'sugar_g')::numeric, sugar_g),
+    sodium_mg = COALESCE((estimate->>'sodium_mg')::numeric, sodium_mg),
+    review_status = 'approved',
+    reviewed_by = current_profile_id(),
+    reviewed_at = now(),
+    review_comment = NULLIF(trim(comment), ''),
+    updated_at = now()
+  WHERE id = entry_id
+  RETURNING * INTO saved;
+
+  PERFORM notify_profile(
+    saved.user_id, 'nutrition', 'Meal reviewed',
+    COALESCE((SELECT full_name FROM profiles WHERE id = saved.reviewed_by), 'Your nutritionist')
+      || ' estimated your ' || lower(COALESCE((SELECT name FROM meal_types WHERE id = saved.meal_type_id), 'meal'))
+      || ' at ' || saved.calories || ' cal'
+      || COALESCE(': ' || saved.review_comment, ''),
+    jsonb_build_object('food_entry_id', saved.id, 'date', saved.date), saved.reviewed_by
+  );
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION review_food_entry(uuid, jsonb, text) TO authenticated;
+
+-- 3. Photo storage
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('food-photos', 'food-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can manage their own food photos" ON storage.objects;
+DROP POLICY IF EXISTS "Coaches can view assigned client food photos" ON storage.objects;
+
+CREATE POLICY "Users can manage their own food photos"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (bucket_id = 'food-photos' AND (storage.foldername(name))[1] = current_profile_id()::text)
+  WITH CHECK (bucket_id = 'food-photos' AND (storage.foldername(name))[1] = current_profile_id()::text);
+
+CREATE POLICY "Coaches can view assigned client food photos"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'food-photos' AND is_assigned_client(((storage.foldername(name))[1])::uuid));
@@ -0,0 +1,61 @@
+/*
+  # Hydration, Micronutrients and Limit Warnings
+
+  The food journal gets a daily dashboard covering water, fiber, sugar,
+  sodium and micronutrients next to calories and macros. Water is logged as
+  the existing `water_intake` metric on `client_measurements`; only its
+  target is new.
+
+  Micronutrients are optional: foods carry them when their source lists
+  them, and entries logged from such foods store the amounts eaten.
+
+  Sugar and sodium targets are limits. Each user chooses which of them warn
+  when a day goes over; sodium warns by default. A client's nutritionist can
+  now set these targets for them, e.g. a lower sodium limit for a client
+  with hypertension.
+
+  1. Modified Tables
+    - `nutrition_goals`
+      - `daily_water_ml` - daily water target
+      - `micronutrient_targets` - targets by micronutrient, e.g.
+        {"potassium_mg": 3500}. Missing ones fall back to label daily values
+      - `limit_warnings` - the limits that warn when exceeded
+    - `food_entries`, `custom_foods`, `food_products` - `micronutrients`,
+      amounts by micronutrient (per 100 g for foods, eaten for entries)
+
+  2. Security
+    - A client's active nutritionist can create and update their nutrition
+      goals
+*/
+
+-- 1. Targets
+
+ALTER TABLE nutrition_goals
+  ADD COLUMN IF NOT EXISTS daily_water_ml integer NOT NULL DEFAULT 2000 CHECK (daily_water_ml > 0),
+  ADD COLUMN IF NOT EXISTS micronutrient_targets jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS limit_warnings text[] NOT NULL DEFAULT ARRAY['sodium_mg']
+    CHECK (limit_warnings <@ ARRAY['sodium_mg', 'sugar_g']);
+
+-- 2. Micronutrients
+
+ALTER TABLE food_entries ADD COLUMN IF NOT EXISTS micronutrients jsonb;
+ALTER TABLE custom_foods ADD COLUMN IF NOT EXISTS micronutrients jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE food_products ADD COLUMN IF NOT EXISTS micronutrients jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- 3. Nutritionists set their clients' targets
+
+DROP POLICY IF EXISTS "Nutritionists can create assigned client nutrition goals" ON nutrition_goals;
+DROP POLICY IF EXISTS "Nutritionists can update assigned client nutrition goals" ON nutrition_goals;
+
+CREATE POLICY "Nutritionists can create assigned client nutrition goals"
+  ON nutrition_goals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_capability('nutrition.manage') AND is_assigned_nutritionist(user_id));
+
+CREATE POLICY "Nutritionists can update assigned client nutrition goals"
+  ON nutrition_goals
+  FOR UPDATE
+  TO authenticated
+  USING (has_capability('nutrition.manage') AND is_assigned_nutritionist(user_id))
+  WITH CHECK (has_capability('nutrition.manage') AND is_assigned_nutritionist(user_id));
@@ -0,0 +1,282 @@
+/*
+  # Assigned Client Access
+
+  Role-based access only rescoped workout sessions, goals and profiles to a
+  coach's assigned clients. Plans, plan sessions, measurements and the food
+  journal still had their original policies, which let a trainer reach any
+  client they had ever planned for, and `save_workout_plan` accepted any
+  client id. This finishes the job: a trainer reads and writes only clients
+  with an active assignment to them.
+
+  It also fixes two policies that never worked as written:
+    - "Users can read own assignments" read `profiles`, whose "Clients can
+      read their coaches" policy reads `client_assignments`; Postgres rejected
+      every profile read as infinite recursion
+    - "Users can manage own food entries" and "Users can manage own nutrition
+      goals" compared `p.id = user_id` inside a subquery on `profiles`, where
+      `user_id` is the profile's own column, so they never checked the row
+
+  1. Functions
+    - `is_assigned_trainer(uuid)` - like `is_assigned_nutritionist`, for the
+      client's trainer
+    - `save_workout_plan` refuses clients the caller isn't assigned to as
+      trainer (admins excepted)
+
+  2. Policies
+    - `client_assignments` - each party reads its own assignments
+    - `workout_plans`, `plan_sessions` - clients use their own plans;
+      trainers manage the plans they wrote for assigned clients; admins
+      manage all plans
+    - `client_measurements` - clients manage their own; their trainer manages
+      them and their nutritionist reads them
+    - `food_entries`, `nutrition_goals` - owners manage their own rows (coach
+      access is unchanged)
+*/
+
+-- =============================================
+-- HELPERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION is_assigned_trainer(target_client_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM client_assignments ca
+    WHERE ca.client_id = target_client_id
+      AND ca.status = 'active'
+      AND ca.trainer_id = current_profile_id()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_assigned_trainer(uuid) TO authenticated;
+
+-- =============================================
+-- ASSIGNMENTS
+-- =============================================
+
+DROP POLICY IF EXISTS "Users can read own assignments" ON client_assignments;
+
+CREATE POLICY "Users can read own assignments"
+  ON client_assignments
+  FOR SELECT
+  TO authenticated
+  USING (current_profile_id() IN (client_id, trainer_id, nutritionist_id));
+
+-- =============================================
+-- WORKOUT PLANS
+-- =============================================
+
+DROP POLICY IF EXISTS "Trainers can manage client plans" ON workout_plans;
+DROP POLICY IF EXISTS "Trainers can manage their plans" ON workout_plans;
+DROP POLICY IF EXISTS "Clients can read their plans" ON workout_plans;
+DROP POLICY IF EXISTS "Clients can read own plans" ON workout_plans;
+DROP POLICY IF EXISTS "Trainers can manage assigned client plans" ON workout_plans;
+DROP POLICY IF EXISTS "Admins can manage all plans" ON workout_plans;
+
+CREATE POLICY "Clients can read own plans"
+  ON workout_plans
+  FOR SELECT
+  TO authenticated
+  USING (client_id = current_profile_id());
+
+CREATE POLICY "Trainers can manage assigned client plans"
+  ON workout_plans
+  FOR ALL
+  TO authenticated
+  USING (trainer_id = current_profile_id() AND is_assigned_trainer(client_id))
+  WITH CHECK (
+    has_capability('plans.manage')
+    AND trainer_id = current_profile_id()
+    AND is_assigned_trainer(client_id)
+  );
+
+CREATE POLICY "Admins can manage all plans"
+  ON workout_plans
+  FOR ALL
+  TO authenticated
+  USING (has_capability('plans.manage') AND has_capability('clients.read_all'))
+  WITH CHECK (has_capability('plans.manage') AND has_capability('clients.read_all'));
+
+DROP POLICY IF EXISTS "Users can manage plan sessions" ON plan_sessions;
+DROP POLICY IF EXISTS "Clients can manage own plan sessions" ON plan_sessions;
+DROP POLICY IF EXISTS "Trainers can manage assigned client plan sessions" ON plan_sessions;
+DROP POLICY IF EXISTS "Admins can manage all plan sessions" ON plan_sessions;
+
+-- Clients mark their own sessions done or skipped
+CREATE POLICY "Clients can manage own plan sessions"
+  ON plan_sessions
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM workout_plans wp
+    WHERE wp.id = plan_sessions.plan_id AND wp.client_id = current_profile_id()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM workout_plans wp
+    WHERE wp.id = plan_sessions.plan_id AND wp.client_id = current_profile_id()
+  ));
+
+CREATE POLICY "Trainers can manage assigned client plan sessions"
+  ON plan_sessions
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM workout_plans wp
+    WHERE wp.id = plan_sessions.plan_id
+      AND wp.trainer_id = current_profile_id()
+      AND is_assigned_trainer(wp.client_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM workout_plans wp
+    WHERE wp.id = plan_sessions.plan_id
+      AND wp.trainer_id = current_profile_id()
+      AND is_assigned_trainer(wp.client_id)
+  ));
+
+CREATE POLICY "Admins can manage all plan sessions"
+  ON plan_sessions
+  FOR ALL
+  TO authenticated
+  USING (has_capability('plans.manage') AND has_capability('clients.read_all'))
+  WITH CHECK (has_capability('plans.manage') AND has_capability('clients.read_all'));
+
+-- =============================================
+-- MEASUREMENTS
+-- =============================================
+
+DROP POLICY IF EXISTS "Trainers can manage assigned client measurements" ON client_measurements;
+DROP POLICY IF EXISTS "Users can manage own measurements" ON client_measurements;
+DROP POLICY IF EXISTS "Coaches can read assigned client measurements" ON client_measurements;
+
+CREATE POLICY "Users can manage own measurements"
+  ON client_measurements
+  FOR ALL
+  TO authenticated
+  USING (client_id = current_profile_id())
+  WITH CHECK (client_id = current_profile_id());
+
+CREATE POLICY "Trainers can manage assigned client measurements"
+  ON client_measurements
+  FOR ALL
+  TO authenticated
+  USING (is_assigned_trainer(client_id))
+  WITH CHECK (is_assigned_trainer(client_id));
+
+CREATE POLICY "Coaches can read assigned client measurements"
+  ON client_measurements
+  FOR SELECT
+  TO authenticated
+  USING (is_assigned_client(client_id));
+
+-- =============================================
+-- FOOD JOURNAL
+-- =============================================
+
+DROP POLICY IF EXISTS "Users can manage own food entries" ON food_entries;
+DROP POLICY IF EXISTS "Users can manage own nutrition goals" ON nutrition_goals;
+
+CREATE POLICY "Users can manage own food entries"
+  ON food_entries
+  FOR ALL
+  TO authenticated
+  USING (user_id = current_profile_id())
+  WITH CHECK (user_id = current_profile_id());
+
+CREATE POLICY "Users can manage own nutrition goals"
+  ON nutrition_goals
+  FOR ALL
+  TO authenticated
+  USING (user_id = current_profile_id())
+  WITH CHECK (user_id = current_profile_id());
+
+-- =============================================
+-- SAVING PLANS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION save_workout_plan(
+  plan jsonb,
+  sessions jsonb,
+  target_plan_id uuid DEFAULT NULL
+)
+RETURNS workout_plans AS $$
+DECLARE
+  fields workout_plans;
+  saved workout_plans;
+BEGIN
+  IF NOT has_capability('plans.manage') THEN
+    RAISE EXCEPTION 'Not allowed to manage workout plans' USING ERRCODE = '42501';
+  END IF;
+
+  fields := jsonb_populate_record(NULL::workout_plans, plan);
+
+  IF fields.end_date < fields.start_date THEN
+    RAISE EXCEPTION 'Plan cannot end before it starts' USING ERRCODE = '23514';
+  END IF;
+
+  IF NOT (is_assigned_trainer(fields.client_id) OR has_capability('clients.read_all')) THEN
+    RAISE EXCEPTION 'Not assigned to this client' USING ERRCODE = '42501';
+  END IF;
+
+  IF target_plan_id IS NULL THEN
+    INSERT INTO workout_plans (
+      client_id, trainer_id, name, description, start_date, end_date,
+      schedule_type, schedule_data, progression_rule, progression_config, status
+    )
+    VALUES (
+      fields.client_id,
+      COALESCE(fields.trainer_id, current_profile_id()),
+      fields.name,
+      fields.description,
+      fields.start_date,
+      fields.end_date,
+      COALESCE(fields.schedule_type, 'weekly'),
+      COALESCE(fields.schedule_data, '{}'),
+      COALESCE(fields.progression_rule, 'none'),
+      COALESCE(fields.progression_config, '{}'),
+      COALESCE(fields.status, 'active')
+    )
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE workout_plans SET
+      client_id = fields.client_id,
+      name = fields.name,
+      description = fields.description,
+      start_date = fields.start_date,
+      end_date = fields.end_date,
+      schedule_type = COALESCE(fields.schedule_type, schedule_type),
+      schedule_data = COALESCE(fields.schedule_data, schedule_data),
+      progression_rule = COALESCE(fields.progression_rule, progression_rule),
+      progression_config = COALESCE(fields.progression_config, progression_config),
+      status = COALESCE(fields.status, status),
+      updated_at = now()
+    WHERE id = target_plan_id
+    RETURNING * INTO saved;
+
+    IF saved.id IS NULL THEN
+      RAISE EXCEPTION 'Workout plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM plan_sessions WHERE plan_id = saved.id AND status = 'scheduled';
+  END IF;
+
+  INSERT INTO plan_sessions (
+    plan_id, template_id, scheduled_date, scheduled_time, day_of_week, week_number, is_deload, status, notes
+  )
+  SELECT
+    saved.id,
+    s.template_id,
+    s.scheduled_date,
+    s.scheduled_time,
+    s.day_of_week,
+    s.week_number,
+    COALESCE(s.is_deload, false),
+    COALESCE(s.status, 'scheduled'),
+    s.notes
+  FROM jsonb_populate_recordset(NULL::plan_sessions, COALESCE(sessions, '[]'::jsonb)) s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM plan_sessions kept
+    WHERE kept.plan_id = saved.id AND kept.scheduled_date = s.scheduled_date
+  );
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,61 @@
+/*
+  # Mark Messages Read
+
+  "Recipients can mark messages read" let a recipient update any column of a
+  message addressed to them, including its content, sender and conversation,
+  since it had no WITH CHECK. Read receipts now go through a function that
+  only sets `read_at`, and messages can't be updated directly.
+
+  1. Functions
+    - `mark_messages_read(target_conversation_id)` - stamps `read_at` on the
+      caller's unread incoming messages in a conversation they take part in,
+      returning how many were marked
+
+  2. Policies
+    - Drop "Recipients can mark messages read"
+    - "Participants can update own conversations" gains a WITH CHECK
+
+  3. Privileges
+    - Users may only update `conversations.last_message_at`, which the
+      new-message trigger bumps as the sender; participants can't be changed
+*/
+
+DROP POLICY IF EXISTS "Recipients can mark messages read" ON messages;
+DROP POLICY IF EXISTS "Participants can update own conversations" ON conversations;
+
+CREATE POLICY "Participants can update own conversations"
+  ON conversations
+  FOR UPDATE
+  TO authenticated
+  USING (current_profile_id() IN (participant_1_id, participant_2_id))
+  WITH CHECK (current_profile_id() IN (participant_1_id, participant_2_id));
+
+REVOKE UPDATE ON conversations FROM authenticated;
+GRANT UPDATE (last_message_at) ON conversations TO authenticated;
+
+CREATE OR REPLACE FUNCTION mark_messages_read(target_conversation_id uuid)
+RETURNS integer AS $$
+DECLARE
+  caller_id uuid := current_profile_id();
+  marked integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversations c
+    WHERE c.id = target_conversation_id
+      AND caller_id IN (c.participant_1_id, c.participant_2_id)
+  ) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE messages SET read_at = now()
+  WHERE conversation_id = target_conversation_id
+    AND sender_id <> caller_id
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS marked = ROW_COUNT;
+  RETURN marked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION mark_messages_read(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mark_messages_read(uuid) TO authenticated;
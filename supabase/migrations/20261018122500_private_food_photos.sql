@@ -0,0 +1,23 @@
+/*
+  # Private Food Photos
+
+  The `food-photos` bucket was public, so anyone holding a photo's URL could
+  open it without signing in, whatever the storage policies said. The bucket
+  is now private: the app keeps each photo's storage path and shows it
+  through a short-lived signed URL, which storage only issues to the owner
+  and their coaches.
+
+  1. Storage
+    - `food-photos` is no longer public
+
+  2. Data
+    - `food_photos.photo_path` is filled in from the public URL for photos
+      uploaded before this change; photos saved as device paths have none
+*/
+
+UPDATE storage.buckets SET public = false WHERE id = 'food-photos';
+
+UPDATE food_photos
+SET photo_path = substring(photo_url FROM '/storage/v1/object/public/food-photos/(.+)$')
+WHERE photo_path IS NULL
+  AND photo_url LIKE '%/storage/v1/object/public/food-photos/%';
@@ -0,0 +1,49 @@
+/*
+  # Save Workout Logs
+
+  The app replaced a session's logs by deleting them and inserting the new
+  set in a second request. If the insert failed, or the app was closed in
+  between, the session was left with no logs and dropped out of exercise
+  history and personal records.
+
+  1. Functions
+    - `save_workout_logs` - replaces a session's logs in one transaction, so
+      either every new log is saved or the old ones are kept
+
+  The function runs as the caller, so the workout_logs policies still decide
+  whose sessions can be written.
+*/
+
+CREATE OR REPLACE FUNCTION save_workout_logs(
+  target_session_id uuid,
+  logs jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  saved_count integer;
+BEGIN
+  DELETE FROM workout_logs WHERE session_id = target_session_id;
+
+  INSERT INTO workout_logs (
+    session_id, exercise_id, order_index, sets_performed, total_volume_kg,
+    total_reps, total_time_seconds, notes, form_rating, completed
+  )
+  SELECT
+    target_session_id,
+    l.exercise_id,
+    l.order_index,
+    COALESCE(l.sets_performed, '[]'),
+    l.total_volume_kg,
+    l.total_reps,
+    l.total_time_seconds,
+    l.notes,
+    l.form_rating,
+    COALESCE(l.completed, true)
+  FROM jsonb_populate_recordset(NULL::workout_logs, COALESCE(logs, '[]'::jsonb)) l;
+
+  GET DIAGNOSTICS saved_count = ROW_COUNT;
+  RETURN saved_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_workout_logs(uuid, jsonb) TO authenticated;
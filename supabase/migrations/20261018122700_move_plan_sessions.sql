@@ -0,0 +1,52 @@
+/*
+  # Move Plan Sessions
+
+  Rearranging a week updated each moved session in its own request. A
+  failure part way through left the week half rearranged, with two workouts
+  on one day and none on another.
+
+  1. Functions
+    - `move_plan_sessions` - moves a batch of sessions to new dates in one
+      transaction; if any session can't be moved, none are
+
+  2. Realtime
+    - Publish `workout_plans` on `supabase_realtime`. Clients now listen only
+      to their active plans' sessions, and follow plan changes to know when
+      that set changes
+
+  The function runs as the caller, so the plan_sessions policies still decide
+  who may move which sessions.
+*/
+
+CREATE OR REPLACE FUNCTION move_plan_sessions(moves jsonb)
+RETURNS integer AS $$
+DECLARE
+  moved_count integer;
+BEGIN
+  UPDATE plan_sessions ps SET
+    scheduled_date = m.scheduled_date,
+    day_of_week = COALESCE(m.day_of_week, ps.day_of_week)
+  FROM jsonb_populate_recordset(NULL::plan_sessions, COALESCE(moves, '[]'::jsonb)) m
+  WHERE ps.id = m.id;
+
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+
+  IF moved_count < jsonb_array_length(COALESCE(moves, '[]'::jsonb)) THEN
+    RAISE EXCEPTION 'Plan session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN moved_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION move_plan_sessions(jsonb) TO authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'workout_plans'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE workout_plans;
+  END IF;
+END $$;
@@ -0,0 +1,207 @@
+/*
+  # Server-side Push Delivery
+
+  Pushes used to be claimed and sent by the app of the user who caused them.
+  That handed the sender the recipient's device tokens, let the sender delete
+  them, and left pushes queued forever when the sender's app stopped halfway
+  or the change reached the server through the offline sync queue. They are
+  now sent by the `dispatch-push` Edge Function with the service role, and no
+  signed-in user can claim or complete a delivery.
+
+  The database calls the function through pg_net when a push is queued, and
+  pg_cron calls it every minute while pushes are waiting, so failed and
+  interrupted deliveries are retried. Both extensions must be enabled on the
+  project, with the project URL and service role key stored in Vault as
+  `project_url` and `service_role_key`; without them nothing is called and
+  pushes wait in the queue.
+
+  1. Notifications
+    - `push_attempts` - Times the push has been claimed for sending
+    - `push_claimed_at` - When the latest attempt started
+
+  2. Functions (service role only)
+    - `claim_push_deliveries` - Take due pushes from every sender, with the recipient's
+      tokens. Pushes stuck in 'sending' are taken again after 5 minutes, failed ones
+      are retried after a minute, and a push fails for good after 5 attempts or a day.
+    - `complete_push_delivery` - Record the result and drop tokens the push service rejected
+    - `request_push_dispatch` - Ask the Edge Function to send what's due
+
+  3. Triggers
+    - `dispatch_new_pushes` on `notifications` insert
+*/
+
+-- =============================================
+-- NOTIFICATIONS
+-- =============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'push_attempts'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN push_attempts integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'notifications' AND column_name = 'push_claimed_at'
+  ) THEN
+    ALTER TABLE notifications ADD COLUMN push_claimed_at timestamptz;
+  END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_notifications_pending_push;
+CREATE INDEX IF NOT EXISTS idx_notifications_queued_push ON notifications(created_at)
+  WHERE push_status IN ('pending', 'sending');
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+DROP FUNCTION IF EXISTS claim_push_deliveries(integer);
+DROP FUNCTION IF EXISTS complete_push_delivery(uuid, boolean, text[]);
+
+CREATE FUNCTION claim_push_deliveries(max_count integer DEFAULT 50)
+RETURNS TABLE (
+  notification_id uuid,
+  tokens text[],
+  title text,
+  message text,
+  type text,
+  data jsonb
+) AS $$
+BEGIN
+  -- Give up on pushes that are a day old, or whose last attempt never finished
+  UPDATE notifications n
+  SET push_status = 'failed',
+      pushed_at = now()
+  WHERE n.push_status IN ('pending', 'sending')
+    AND (
+      n.created_at < now() - interval '1 day'
+      OR (n.push_status = 'sending' AND n.push_attempts >= 5 AND n.push_claimed_at < now() - interval '5 minutes')
+    );
+
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE notifications n
+    SET push_status = 'sending',
+        push_attempts = n.push_attempts + 1,
+        push_claimed_at = now()
+    WHERE n.id IN (
+      SELECT due.id FROM notifications due
+      WHERE (due.push_status = 'pending' AND (due.push_claimed_at IS NULL OR due.push_claimed_at < now() - interval '1 minute'))
+         OR (due.push_status = 'sending' AND due.push_claimed_at < now() - interval '5 minutes')
+      ORDER BY due.created_at
+      LIMIT max_count
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING n.id, n.user_id, n.title, n.message, n.type, n.data
+  )
+  SELECT
+    c.id,
+    ARRAY(SELECT pt.token FROM push_tokens pt WHERE pt.user_id = c.user_id),
+    c.title,
+    c.message,
+    c.type,
+    c.data
+  FROM claimed c;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE FUNCTION complete_push_delivery(
+  target_notification_id uuid,
+  delivered boolean,
+  invalid_tokens text[] DEFAULT '{}'
+)
+RETURNS void AS $$
+DECLARE
+  recipient uuid;
+BEGIN
+  -- A failed push goes back in the queue until it has used up its attempts
+  UPDATE notifications
+  SET push_status = CASE
+        WHEN delivered THEN 'sent'
+        WHEN push_attempts < 5 THEN 'pending'
+        ELSE 'failed'
+      END,
+      pushed_at = CASE WHEN delivered OR push_attempts >= 5 THEN now() END
+  WHERE id = target_notification_id
+    AND push_status = 'sending'
+  RETURNING user_id INTO recipient;
+
+  IF recipient IS NOT NULL AND array_length(invalid_tokens, 1) > 0 THEN
+    DELETE FROM push_tokens WHERE user_id = recipient AND token = ANY(invalid_tokens);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION request_push_dispatch()
+RETURNS void AS $$
+DECLARE
+  project_url text;
+  service_key text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+    OR to_regclass('vault.decrypted_secrets') IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+  IF project_url IS NULL OR service_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Sent once the calling transaction commits, so the function sees the new rows
+  PERFORM net.http_post(
+    url := project_url || '/functions/v1/dispatch-push',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || service_key),
+    body := '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_push_deliveries(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_push_delivery(uuid, boolean, text[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION request_push_dispatch() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_push_deliveries(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_push_delivery(uuid, boolean, text[]) TO service_role;
+GRANT EXECUTE ON FUNCTION request_push_dispatch() TO service_role;
+
+-- =============================================
+-- TRIGGERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION dispatch_new_pushes()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM inserted WHERE push_status = 'pending') THEN
+    PERFORM request_push_dispatch();
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS dispatch_new_pushes ON notifications;
+
+CREATE TRIGGER dispatch_new_pushes
+  AFTER INSERT ON notifications
+  REFERENCING NEW TABLE AS inserted
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION dispatch_new_pushes();
+
+-- Retries, and pushes queued while the function couldn't be reached
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'dispatch-push',
+      '* * * * *',
+      $job$
+        SELECT request_push_dispatch()
+        WHERE EXISTS (SELECT 1 FROM notifications WHERE push_status IN ('pending', 'sending'))
+      $job$
+    );
+  END IF;
+END $$;
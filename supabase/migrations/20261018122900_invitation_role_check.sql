@@ -0,0 +1,75 @@
+/*
+  # Invitation Role Check
+
+  Anyone who could manage invitations could invite someone as admin or HR,
+  which let HR create accounts with more access than their own. Inviting to
+  those roles, or resending such an invitation, now needs `roles.assign`,
+  the same capability as changing an existing user's role.
+
+  1. Functions
+    - `create_invitation` - Rejects admin and HR invitations without `roles.assign`
+    - `resend_invitation` - Same check against the invitation's role
+*/
+
+CREATE OR REPLACE FUNCTION create_invitation(
+  invite_email text,
+  invite_role text,
+  invite_trial_days integer DEFAULT 0,
+  expires_in_days integer DEFAULT 7,
+  invite_message text DEFAULT NULL
+)
+RETURNS TABLE (invitation_id uuid, token text, expires_at timestamptz) AS $$
+DECLARE
+  issuer_id uuid := invitation_issuer_id();
+  raw_token text := encode(gen_random_bytes(24), 'hex');
+  new_id uuid;
+  new_expiry timestamptz := now() + make_interval(days => expires_in_days);
+BEGIN
+  IF invite_role IN ('admin', 'hr') AND NOT has_capability('roles.assign') THEN
+    RAISE EXCEPTION 'Not allowed to invite someone as %', invite_role USING ERRCODE = '42501';
+  END IF;
+
+  -- A newer invitation supersedes any pending one for the same address
+  UPDATE invitations
+  SET status = 'cancelled', cancelled_at = now()
+  WHERE lower(email) = lower(trim(invite_email)) AND status = 'pending';
+
+  INSERT INTO invitations (email, role, token_hash, trial_days, custom_message, invited_by, expires_at)
+  VALUES (lower(trim(invite_email)), invite_role, hash_invitation_token(raw_token), invite_trial_days, invite_message, issuer_id, new_expiry)
+  RETURNING id INTO new_id;
+
+  RETURN QUERY SELECT new_id, raw_token, new_expiry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION resend_invitation(target_invitation_id uuid, expires_in_days integer DEFAULT 7)
+RETURNS TABLE (invitation_id uuid, token text, expires_at timestamptz) AS $$
+DECLARE
+  issuer_id uuid := invitation_issuer_id();
+  raw_token text := encode(gen_random_bytes(24), 'hex');
+  new_expiry timestamptz := now() + make_interval(days => expires_in_days);
+  invited_role text;
+BEGIN
+  SELECT i.role INTO invited_role FROM invitations i WHERE i.id = target_invitation_id;
+
+  -- A fresh token for an admin invitation is as good as issuing one
+  IF invited_role IN ('admin', 'hr') AND NOT has_capability('roles.assign') THEN
+    RAISE EXCEPTION 'Not allowed to invite someone as %', invited_role USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE invitations i
+  SET token_hash = hash_invitation_token(raw_token),
+      status = 'pending',
+      expires_at = new_expiry,
+      sent_at = now(),
+      resend_count = i.resend_count + 1,
+      invited_by = issuer_id
+  WHERE i.id = target_invitation_id AND i.status IN ('pending', 'expired');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending or expired invitations can be resent';
+  END IF;
+
+  RETURN QUERY SELECT target_invitation_id, raw_token, new_expiry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
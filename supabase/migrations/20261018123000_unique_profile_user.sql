@@ -0,0 +1,61 @@
+/*
+  # One Profile Per Account
+
+  A signed-in user could insert a second profile tied to their own account,
+  which could shadow the real one wherever a profile is looked up by account
+  (`current_profile_id()`, `current_user_role()` and the app). Profiles now
+  need `user_id` set to the caller's account on insert, and an account can
+  only have one profile.
+
+  1. Profiles
+    - Self sign-ups that only set `id` get `user_id` from it
+    - Where an account has several profiles, the oldest keeps the account and the
+      others are detached (`user_id` cleared) rather than deleted, with their data
+    - `UNIQUE (user_id)`
+
+  2. Policies
+    - "Users can create own profile" requires `user_id = auth.uid()`
+*/
+
+-- =============================================
+-- PROFILES
+-- =============================================
+
+UPDATE profiles p
+SET user_id = p.id
+WHERE p.user_id IS NULL
+  AND EXISTS (SELECT 1 FROM auth.users u WHERE u.id = p.id)
+  AND NOT EXISTS (SELECT 1 FROM profiles other WHERE other.user_id = p.id);
+
+UPDATE profiles p
+SET user_id = NULL
+WHERE p.user_id IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM profiles older
+    WHERE older.user_id = p.user_id
+      AND (COALESCE(older.created_at, '-infinity'), older.id) < (COALESCE(p.created_at, '-infinity'), p.id)
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'profiles_user_id_key'
+  ) THEN
+    ALTER TABLE profiles ADD CONSTRAINT profiles_user_id_key UNIQUE (user_id);
+  END IF;
+END $$;
+
+-- =============================================
+-- POLICIES
+-- =============================================
+
+DROP POLICY IF EXISTS "Users can create own profile" ON profiles;
+
+CREATE POLICY "Users can create own profile"
+  ON profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND role IN ('client', 'leads')
+  );
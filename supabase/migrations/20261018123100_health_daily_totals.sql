@@ -0,0 +1,50 @@
+/*
+  # Health Daily Totals
+
+  Daily totals imported from a health platform were added to what daily_stats
+  already held, so importing the same window twice (a retried sync) counted
+  calories and sleep twice. Each source's total for a day is now
+  stored on its own and replaced on every import, and daily_stats is rolled
+  up from these rows the way steps are rolled up from `step_samples`.
+  (Imported water is stored as water measurements instead, beside the water
+  logged in the food journal.)
+
+  1. New Tables
+    - `health_daily_totals` - Per user, data source, local date and metric
+      (`calories_burned` or `sleep_hours`, in daily_stats units)
+
+  2. Security
+    - Users manage their own totals; coaches read the rolled-up daily_stats
+*/
+
+CREATE TABLE IF NOT EXISTS health_daily_totals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  source text NOT NULL,
+  date date NOT NULL,
+  metric text NOT NULL CHECK (metric IN ('calories_burned', 'sleep_hours')),
+  value numeric NOT NULL DEFAULT 0 CHECK (value >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, source, date, metric)
+);
+
+CREATE INDEX IF NOT EXISTS idx_health_daily_totals_user_date ON health_daily_totals(user_id, date);
+
+ALTER TABLE health_daily_totals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own health daily totals" ON health_daily_totals;
+
+CREATE POLICY "Users can manage own health daily totals"
+  ON health_daily_totals
+  FOR ALL
+  TO authenticated
+  USING (user_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()))
+  WITH CHECK (user_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+DROP TRIGGER IF EXISTS update_health_daily_totals_updated_at ON health_daily_totals;
+
+CREATE TRIGGER update_health_daily_totals_updated_at
+  BEFORE UPDATE ON health_daily_totals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,61 @@
+/*
+  # Deactivated Account Access
+
+  Deactivating an account only took away its role. Its profile id still
+  resolved, so `is_assigned_client/trainer/nutritionist()` and every policy
+  built on the coach's assignments kept a deactivated trainer or
+  nutritionist reading and writing their clients' data.
+
+  1. Functions
+    - `current_profile_id()` - NULL for inactive accounts, like `current_user_role()`,
+      which closes every helper and policy that goes through it
+
+  2. Triggers
+    - `end_deactivated_coach_assignments` on `profiles` - Deactivating a coach takes
+      them off their active assignments (recorded in the assignment history with
+      the reason 'Account deactivated'). Reactivating does not restore them.
+*/
+
+-- =============================================
+-- FUNCTIONS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION current_profile_id()
+RETURNS uuid AS $$
+  SELECT id FROM profiles
+  WHERE user_id = auth.uid() AND account_status = 'active'
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- TRIGGERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION end_deactivated_coach_assignments()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM set_config('app.assignment_reason', 'Account deactivated', true);
+
+  UPDATE client_assignments
+  SET trainer_id = CASE WHEN trainer_id = NEW.id THEN NULL ELSE trainer_id END,
+      nutritionist_id = CASE WHEN nutritionist_id = NEW.id THEN NULL ELSE nutritionist_id END,
+      updated_at = now()
+  WHERE status = 'active' AND NEW.id IN (trainer_id, nutritionist_id);
+
+  -- A client with no coaches left has no current assignment
+  UPDATE client_assignments
+  SET status = 'inactive', updated_at = now()
+  WHERE status = 'active' AND trainer_id IS NULL AND nutritionist_id IS NULL;
+
+  PERFORM set_config('app.assignment_reason', '', true);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS end_deactivated_coach_assignments ON profiles;
+
+CREATE TRIGGER end_deactivated_coach_assignments
+  AFTER UPDATE OF account_status ON profiles
+  FOR EACH ROW
+  WHEN (NEW.account_status = 'inactive' AND OLD.account_status IS DISTINCT FROM 'inactive')
+  EXECUTE FUNCTION end_deactivated_coach_assignments();
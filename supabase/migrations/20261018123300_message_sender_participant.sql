@@ -0,0 +1,30 @@
+/*
+  # Message Sender Participant
+
+  "Users can send messages" only checked that `sender_id` was the caller's own
+  profile, so a signed-in user could post into any conversation whose id they
+  knew, including ones they aren't part of.
+
+  1. Policies
+    - "Users can send messages" also requires the sender to be one of the
+      conversation's participants
+*/
+
+-- =============================================
+-- POLICIES
+-- =============================================
+
+DROP POLICY IF EXISTS "Users can send messages" ON messages;
+
+CREATE POLICY "Users can send messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = current_profile_id()
+    AND EXISTS (
+      SELECT 1 FROM conversations c
+      WHERE c.id = conversation_id
+        AND sender_id IN (c.participant_1_id, c.participant_2_id)
+    )
+  );
@@ -0,0 +1,75 @@
+import { TestDatabase, TestUser, startTestDatabase } from './database';
+
+describe('account deactivation', () => {
+  let db: TestDatabase;
+  let admin: TestUser;
+  let trainer: TestUser;
+  let nutritionist: TestUser;
+  let client: TestUser;
+  let measurementId: string;
+
+  const deactivate = (user: TestUser) =>
+    db.asUser(admin, query =>
+      query("UPDATE profiles SET account_status = 'inactive' WHERE id = $1", [user.profileId])
+    );
+
+  const visibleMeasurements = (user: TestUser) =>
+    db.asUser(user, async query => (await query('SELECT id FROM client_measurements')).rows.map(row => row.id));
+
+  beforeAll(async () => {
+    db = await startTestDatabase();
+    admin = await db.createUser('admin');
+    trainer = await db.createUser('trainer');
+    nutritionist = await db.createUser('nutritionist');
+    client = await db.createUser('client');
+    await db.assign(client, { trainer, nutritionist });
+    measurementId = (
+      await db.query('INSERT INTO client_measurements (client_id, weight_kg) VALUES ($1, 80) RETURNING id', [
+        client.profileId,
+      ])
+    ).rows[0].id;
+  });
+
+  afterAll(async () => {
+    await db?.stop();
+  });
+
+  it("takes a deactivated coach off their clients and keeps the client's other coach", async () => {
+    expect(await visibleMeasurements(trainer)).toEqual([measurementId]);
+
+    await deactivate(trainer);
+
+    const { rows: [assignment] } = await db.query(
+      "SELECT trainer_id, nutritionist_id FROM client_assignments WHERE client_id = $1 AND status = 'active'",
+      [client.profileId]
+    );
+    expect(assignment).toEqual({ trainer_id: null, nutritionist_id: nutritionist.profileId });
+
+    const { rows: [stint] } = await db.query(
+      'SELECT ended_at, end_reason FROM client_assignment_history WHERE coach_id = $1',
+      [trainer.profileId]
+    );
+    expect(stint.ended_at).not.toBeNull();
+    expect(stint.end_reason).toBe('Account deactivated');
+  });
+
+  it("ends the assignment once the client's last coach is deactivated", async () => {
+    await deactivate(nutritionist);
+
+    const { rows } = await db.query("SELECT 1 FROM client_assignments WHERE client_id = $1 AND status = 'active'", [
+      client.profileId,
+    ]);
+    expect(rows).toEqual([]);
+  });
+
+  it("doesn't let a deactivated coach through the assignment helpers", async () => {
+    // e.g. an assignment made after the account was deactivated
+    await db.assign(client, { trainer });
+
+    expect(await visibleMeasurements(trainer)).toEqual([]);
+    const { rows: [access] } = await db.asUser(trainer, query =>
+      query('SELECT current_profile_id() AS profile_id, is_assigned_client($1) AS assigned', [client.profileId])
+    );
+    expect(access).toEqual({ profile_id: null, assigned: false });
+  });
+});
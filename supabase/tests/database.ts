@@ -0,0 +1,74 @@
+import { Client, QueryResult } from 'pg';
+
+export type TestRole = 'client' | 'trainer' | 'nutritionist' | 'admin' | 'hr' | 'leads';
+
+export interface TestUser {
+  userId: string; // auth.users.id, what auth.uid() returns
+  profileId: string; // profiles.id
+}
+
+export interface TestDatabase {
+  // Runs as the superuser, bypassing RLS: for setup and for checking results
+  query: (sql: string, params?: unknown[]) => Promise<QueryResult>;
+  // Runs as `user` through the API role, each statement in its own
+  // transaction like a PostgREST request
+  asUser: <T>(user: TestUser, run: (query: TestDatabase['query']) => Promise<T>) => Promise<T>;
+  createUser: (role: TestRole, name?: string) => Promise<TestUser>;
+  assign: (client: TestUser, coaches: { trainer?: TestUser; nutritionist?: TestUser }) => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+// A fresh copy of the migrated database (see global-setup.mjs) for one test
+// file, so files can't see each other's rows
+export const startTestDatabase = async (): Promise<TestDatabase> => {
+  const url = process.env.TEST_DATABASE_URL;
+  if (!url) throw new Error('Run database tests with `npm run test:db`');
+
+  const name = `test_${process.env.JEST_WORKER_ID || 1}_${Date.now()}`;
+  const admin = new Client({ connectionString: `${url}/postgres` });
+  await admin.connect();
+  await admin.query(`CREATE DATABASE ${name} TEMPLATE ${process.env.TEST_DATABASE_TEMPLATE}`);
+
+  const client = new Client({ connectionString: `${url}/${name}` });
+  await client.connect();
+  await client.query('SET search_path TO public, extensions');
+
+  const query = (sql: string, params?: unknown[]) => client.query(sql, params as any[]);
+
+  const asUser = async <T>(user: TestUser, run: (query: TestDatabase['query']) => Promise<T>) => {
+    await client.query("SELECT set_config('request.jwt.claim.sub', $1, false)", [user.userId]);
+    await client.query('SET ROLE authenticated');
+    try {
+      return await run(query);
+    } finally {
+      await client.query('RESET ROLE');
+      await client.query("SELECT set_config('request.jwt.claim.sub', '', false)");
+    }
+  };
+
+  const createUser = async (role: TestRole, name: string = role): Promise<TestUser> => {
+    const email = `${name}-${Math.random().toString(36).slice(2)}@example.com`;
+    const { rows: [authUser] } = await query('INSERT INTO auth.users (email) VALUES ($1) RETURNING id', [email]);
+    const { rows: [profile] } = await query(
+      'INSERT INTO profiles (user_id, email, full_name, role) VALUES ($1, $2, $3, $4) RETURNING id',
+      [authUser.id, email, name, role]
+    );
+    return { userId: authUser.id, profileId: profile.id };
+  };
+
+  const assign = async (client: TestUser, coaches: { trainer?: TestUser; nutritionist?: TestUser }) => {
+    await query(
+      `INSERT INTO client_assignments (client_id, trainer_id, nutritionist_id, status)
+       VALUES ($1, $2, $3, 'active')`,
+      [client.profileId, coaches.trainer?.profileId || null, coaches.nutritionist?.profileId || null]
+    );
+  };
+
+  const stop = async () => {
+    await client.end();
+    await admin.query(`DROP DATABASE ${name}`);
+    await admin.end();
+  };
+
+  return { query, asUser, createUser, assign, stop };
+};
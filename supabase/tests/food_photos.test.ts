@@ -0,0 +1,54 @@
+import { TestDatabase, TestUser, startTestDatabase } from './database';
+
+describe('food-photos storage', () => {
+  let db: TestDatabase;
+  let client: TestUser;
+  let nutritionist: TestUser;
+  let otherNutritionist: TestUser;
+  let photoName: string;
+
+  const visiblePhotos = (user: TestUser) =>
+    db.asUser(user, async query =>
+      (await query("SELECT name FROM storage.objects WHERE bucket_id = 'food-photos'")).rows.map(row => row.name)
+    );
+
+  beforeAll(async () => {
+    db = await startTestDatabase();
+    client = await db.createUser('client');
+    nutritionist = await db.createUser('nutritionist');
+    otherNutritionist = await db.createUser('nutritionist', 'other-nutritionist');
+    await db.assign(client, { nutritionist });
+
+    photoName = `${client.profileId}/lunch.jpg`;
+    await db.query("INSERT INTO storage.objects (bucket_id, name) VALUES ('food-photos', $1)", [photoName]);
+  });
+
+  afterAll(async () => {
+    await db?.stop();
+  });
+
+  it('is a private bucket', async () => {
+    const { rows: [bucket] } = await db.query("SELECT public FROM storage.buckets WHERE id = 'food-photos'");
+
+    expect(bucket.public).toBe(false);
+  });
+
+  it("lets the owner and their nutritionist read a photo, so they can sign its URL", async () => {
+    expect(await visiblePhotos(client)).toEqual([photoName]);
+    expect(await visiblePhotos(nutritionist)).toEqual([photoName]);
+  });
+
+  it('hides photos from coaches of other clients', async () => {
+    expect(await visiblePhotos(otherNutritionist)).toEqual([]);
+  });
+
+  it("doesn't let a client upload into someone else's folder", async () => {
+    await expect(
+      db.asUser(client, query =>
+        query("INSERT INTO storage.objects (bucket_id, name) VALUES ('food-photos', $1)", [
+          `${otherNutritionist.profileId}/planted.jpg`,
+        ])
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+});
@@ -0,0 +1,25 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import * as prettier from 'prettier';
+import globalSetup, { TEMPLATE_DATABASE } from './global-setup.mjs';
+import globalTeardown from './global-teardown.mjs';
+
+const TYPES_FILE = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', '..', 'types', 'database.ts');
+
+// Regenerates types/database.ts from the migrations, using the same
+// throwaway database as the tests so it doesn't need Docker or a linked
+// project. Run with `npm run gen:types` after adding a migration.
+await globalSetup();
+try {
+  const url = `${process.env.TEST_DATABASE_URL}/${TEMPLATE_DATABASE}?sslmode=disable`;
+  const types = execFileSync('supabase', ['gen', 'types', 'typescript', '--db-url', url], {
+    encoding: 'utf8',
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  const options = await prettier.resolveConfig(TYPES_FILE);
+  fs.writeFileSync(TYPES_FILE, await prettier.format(types, { ...options, filepath: TYPES_FILE }));
+} finally {
+  await globalTeardown();
+}
@@ -0,0 +1,7 @@
+import fs from 'fs';
+
+export default async function globalTeardown() {
+  const { server, tempDir } = globalThis.testDatabase || {};
+  await server?.stop();
+  if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+}
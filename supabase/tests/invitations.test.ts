@@ -0,0 +1,51 @@
+import { TestDatabase, TestUser, startTestDatabase } from './database';
+
+describe('invitations', () => {
+  let db: TestDatabase;
+  let admin: TestUser;
+  let hr: TestUser;
+
+  const invite = (issuer: TestUser, email: string, role: string) =>
+    db.asUser(issuer, async query =>
+      (await query('SELECT * FROM create_invitation($1, $2)', [email, role])).rows[0] as { invitation_id: string }
+    );
+
+  const resend = (issuer: TestUser, invitationId: string) =>
+    db.asUser(issuer, query => query('SELECT * FROM resend_invitation($1)', [invitationId]));
+
+  beforeAll(async () => {
+    db = await startTestDatabase();
+    admin = await db.createUser('admin');
+    hr = await db.createUser('hr');
+  });
+
+  afterAll(async () => {
+    await db?.stop();
+  });
+
+  it('lets HR invite clients and coaches', async () => {
+    for (const role of ['client', 'trainer', 'nutritionist']) {
+      expect((await invite(hr, `${role}@example.com`, role)).invitation_id).toBeTruthy();
+    }
+  });
+
+  it("doesn't let HR invite admins or other HR staff", async () => {
+    await expect(invite(hr, 'boss@example.com', 'admin')).rejects.toThrow('Not allowed to invite someone as admin');
+    await expect(invite(hr, 'colleague@example.com', 'hr')).rejects.toThrow('Not allowed to invite someone as hr');
+
+    const { rowCount } = await db.query("SELECT 1 FROM invitations WHERE email IN ('boss@example.com', 'colleague@example.com')");
+    expect(rowCount).toBe(0);
+  });
+
+  it('lets admins invite to any role', async () => {
+    expect((await invite(admin, 'new-admin@example.com', 'admin')).invitation_id).toBeTruthy();
+    expect((await invite(admin, 'new-hr@example.com', 'hr')).invitation_id).toBeTruthy();
+  });
+
+  it("doesn't let HR take a fresh token for an admin invitation", async () => {
+    const { invitation_id } = await invite(admin, 'second-admin@example.com', 'admin');
+
+    await expect(resend(hr, invitation_id)).rejects.toThrow('Not allowed to invite someone as admin');
+    expect((await resend(admin, invitation_id)).rowCount).toBe(1);
+  });
+});
@@ -0,0 +1,10 @@
+// Database tests: every migration applied to a throwaway local Postgres.
+// Run with `npm run test:db`.
+module.exports = {
+  preset: 'jest-expo/node',
+  rootDir: '../..',
+  testMatch: ['<rootDir>/supabase/tests/**/*.test.ts'],
+  globalSetup: '<rootDir>/supabase/tests/global-setup.mjs',
+  globalTeardown: '<rootDir>/supabase/tests/global-teardown.mjs',
+  testTimeout: 30000,
+};
@@ -0,0 +1,107 @@
+import { TestDatabase, TestUser, startTestDatabase } from './database';
+
+describe('mark_messages_read', () => {
+  let db: TestDatabase;
+  let trainer: TestUser;
+  let client: TestUser;
+  let outsider: TestUser;
+  let conversationId: string;
+
+  const send = async (sender: TestUser, content: string) =>
+    (
+      await db.query('INSERT INTO messages (conversation_id, sender_id, content) VALUES ($1, $2, $3) RETURNING id', [
+        conversationId,
+        sender.profileId,
+        content,
+      ])
+    ).rows[0].id as string;
+
+  const readAt = async (messageId: string) =>
+    (await db.query('SELECT read_at FROM messages WHERE id = $1', [messageId])).rows[0].read_at;
+
+  const markRead = (user: TestUser) =>
+    db.asUser(user, query => query('SELECT mark_messages_read($1) AS marked', [conversationId]));
+
+  beforeAll(async () => {
+    db = await startTestDatabase();
+    trainer = await db.createUser('trainer');
+    client = await db.createUser('client');
+    outsider = await db.createUser('client', 'outsider');
+    await db.assign(client, { trainer });
+    conversationId = (
+      await db.query('INSERT INTO conversations (participant_1_id, participant_2_id) VALUES ($1, $2) RETURNING id', [
+        trainer.profileId,
+        client.profileId,
+      ])
+    ).rows[0].id;
+  });
+
+  afterAll(async () => {
+    await db?.stop();
+  });
+
+  it("marks the caller's incoming messages read, leaving their own unread", async () => {
+    const incoming = await send(trainer, 'How did the session go?');
+    const outgoing = await send(client, 'Great');
+
+    const { rows: [result] } = await markRead(client);
+
+    expect(result.marked).toBe(1);
+    expect(await readAt(incoming)).not.toBeNull();
+    expect(await readAt(outgoing)).toBeNull();
+  });
+
+  it('rejects callers outside the conversation', async () => {
+    const incoming = await send(trainer, 'Private');
+
+    await expect(markRead(outsider)).rejects.toThrow('Not a participant in this conversation');
+    expect(await readAt(incoming)).toBeNull();
+  });
+
+  it("doesn't let a recipient edit messages directly", async () => {
+    const incoming = await send(trainer, 'Original');
+
+    const { rowCount } = await db.asUser(client, query =>
+      query("UPDATE messages SET content = 'Edited', read_at = now() WHERE id = $1", [incoming])
+    );
+
+    expect(rowCount).toBe(0);
+    const { rows: [stored] } = await db.query('SELECT content, read_at FROM messages WHERE id = $1', [incoming]);
+    expect(stored).toEqual({ content: 'Original', read_at: null });
+  });
+
+  it("doesn't let a participant hand the conversation to someone else", async () => {
+    await expect(
+      db.asUser(client, query =>
+        query('UPDATE conversations SET participant_1_id = $1 WHERE id = $2', [outsider.profileId, conversationId])
+      )
+    ).rejects.toThrow(/permission denied/);
+  });
+
+  it("doesn't let someone outside the conversation post into it", async () => {
+    await expect(
+      db.asUser(outsider, query =>
+        query('INSERT INTO messages (conversation_id, sender_id, content) VALUES ($1, $2, $3)', [
+          conversationId,
+          outsider.profileId,
+          'Not my conversation',
+        ])
+      )
+    ).rejects.toThrow(/row-level security/);
+  });
+
+  it('still moves the conversation up when a message is sent', async () => {
+    const before = (await db.query('SELECT last_message_at FROM conversations WHERE id = $1', [conversationId])).rows[0];
+
+    await db.asUser(client, query =>
+      query('INSERT INTO messages (conversation_id, sender_id, content) VALUES ($1, $2, $3)', [
+        conversationId,
+        client.profileId,
+        'Sent from the app',
+      ])
+    );
+
+    const after = (await db.query('SELECT last_message_at FROM conversations WHERE id = $1', [conversationId])).rows[0];
+    expect(after.last_message_at.getTime()).toBeGreaterThan(before.last_message_at.getTime());
+  });
+});
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const TESTS_DIR = path.dirname(fileURLToPath(import.meta.url));
+const MIGRATIONS_DIR = path.join(TESTS_DIR, '..', 'migrations');
+
+// Scripts from before versioned migrations, in the order they were run by
+// hand in the SQL editor. They overlap each other, and the editor carries on
+// past a failing statement, so they're replayed a statement at a time.
+const LEGACY_SCRIPTS = [
+  '20250702190651_late_prism.sql',
+  '20250703_create_macro_goals.sql',
+  'coaching trainer system.sql',
+  'trainer.sql',
+  'trainernew.sql',
+  'progree_photos.sql',
+  'Food Journal.sql',
+];
+
+// Demo data for the hosted project; tests create their own rows
+const SEED_SCRIPTS = ['20250702191148_tight_hill.sql'];
+
+export const migrationFiles = () =>
+  fs
+    .readdirSync(MIGRATIONS_DIR)
+    .filter(file => /^\d{14}_.*\.sql$/.test(file))
+    .filter(file => !LEGACY_SCRIPTS.includes(file) && !SEED_SCRIPTS.includes(file))
+    .sort();
+
+// Splits a script into statements, leaving quoted strings, dollar-quoted
+// function bodies and comments intact
+export const splitStatements = sql => {
+  const statements = [];
+  let start = 0;
+  let i = 0;
+  while (i < sql.length) {
+    const rest = sql.slice(i);
+    const dollarTag = rest.match(/^\$[A-Za-z_]*\$/)?.[0];
+    if (rest.startsWith('--')) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (rest.startsWith('/*')) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (sql[i] === "'") {
+      i += 1;
+      while (i < sql.length && !(sql[i] === "'" && sql[i + 1] !== "'")) i += sql[i] === "'" ? 2 : 1;
+      i += 1;
+    } else if (dollarTag) {
+      const end = sql.indexOf(dollarTag, i + dollarTag.length);
+      i = end === -1 ? sql.length : end + dollarTag.length;
+    } else if (sql[i] === ';') {
+      statements.push(sql.slice(start, i + 1).trim());
+      i += 1;
+      start = i;
+    } else {
+      i += 1;
+    }
+  }
+  const last = sql.slice(start).trim();
+  if (last.replace(/--.*$/gm, '').trim()) statements.push(last);
+  return statements;
+};
+
+const read = file => fs.readFileSync(file, 'utf8');
+
+// The Supabase shim, then every migration, on a connected pg client
+export const applyMigrations = async client => {
+  await client.query(read(path.join(TESTS_DIR, 'supabase-shim.sql')));
+  await client.query('SET search_path TO public, extensions');
+
+  for (const file of LEGACY_SCRIPTS) {
+    for (const statement of splitStatements(read(path.join(MIGRATIONS_DIR, file)))) {
+      try {
+        await client.query(statement);
+      } catch {
+        // Same as the SQL editor: the rest of the script still runs
+      }
+    }
+  }
+
+  for (const file of migrationFiles()) {
+    try {
+      await client.query(read(path.join(MIGRATIONS_DIR, file)));
+    } catch (error) {
+      throw new Error(`Migration ${file} failed: ${error.message}`);
+    }
+  }
+};
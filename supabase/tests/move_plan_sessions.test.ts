@@ -0,0 +1,78 @@
+import { TestDatabase, TestUser, startTestDatabase } from './database';
+
+describe('move_plan_sessions', () => {
+  let db: TestDatabase;
+  let trainer: TestUser;
+  let client: TestUser;
+  let otherClient: TestUser;
+  let planId: string;
+  let sessionIds: string[];
+
+  const moveSessions = (user: TestUser, moves: object[]) =>
+    db.asUser(user, query => query('SELECT move_plan_sessions($1) AS moved', [JSON.stringify(moves)]));
+
+  const sessionDates = async () => {
+    const { rows } = await db.query(
+      'SELECT scheduled_date::text AS date, day_of_week FROM plan_sessions WHERE id = ANY($1) ORDER BY created_at, id',
+      [sessionIds]
+    );
+    return rows.map(row => `${row.date} ${row.day_of_week}`);
+  };
+
+  beforeAll(async () => {
+    db = await startTestDatabase();
+    trainer = await db.createUser('trainer');
+    client = await db.createUser('client');
+    otherClient = await db.createUser('client', 'other-client');
+    await db.assign(client, { trainer });
+  });
+
+  beforeEach(async () => {
+    const { rows: [plan] } = await db.query(
+      "INSERT INTO workout_plans (client_id, trainer_id, name, start_date, end_date) VALUES ($1, $2, 'Block', '2026-11-02', '2026-11-29') RETURNING id",
+      [client.profileId, trainer.profileId]
+    );
+    planId = plan.id;
+
+    const { rows } = await db.query(
+      `INSERT INTO plan_sessions (plan_id, scheduled_date, day_of_week, created_at)
+       VALUES ($1, '2026-11-02', 'Monday', now()), ($1, '2026-11-04', 'Wednesday', now() + interval '1 second')
+       RETURNING id`,
+      [planId]
+    );
+    sessionIds = rows.map(row => row.id);
+  });
+
+  afterAll(async () => {
+    await db?.stop();
+  });
+
+  it("swaps a client's sessions in one call", async () => {
+    const { rows: [result] } = await moveSessions(client, [
+      { id: sessionIds[0], scheduled_date: '2026-11-04', day_of_week: 'Wednesday' },
+      { id: sessionIds[1], scheduled_date: '2026-11-02', day_of_week: 'Monday' },
+    ]);
+
+    expect(result.moved).toBe(2);
+    expect(await sessionDates()).toEqual(['2026-11-04 Wednesday', '2026-11-02 Monday']);
+  });
+
+  it('moves none of the sessions when one of them is missing', async () => {
+    await expect(
+      moveSessions(trainer, [
+        { id: sessionIds[0], scheduled_date: '2026-11-03', day_of_week: 'Tuesday' },
+        { id: '00000000-0000-0000-0000-000000000001', scheduled_date: '2026-11-05', day_of_week: 'Thursday' },
+      ])
+    ).rejects.toThrow(/Plan session not found/);
+
+    expect(await sessionDates()).toEqual(['2026-11-02 Monday', '2026-11-04 Wednesday']);
+  });
+
+  it("doesn't move another client's sessions", async () => {
+    await expect(
+      moveSessions(otherClient, [{ id: sessionIds[0], scheduled_date: '2026-11-03', day_of_week: 'Tuesday' }])
+    ).rejects.toThrow(/Plan session not found/);
+
+    expect(await sessionDates()).toEqual(['2026-11-02 Monday', '2026-11-04 Wednesday']);
+  });
+});
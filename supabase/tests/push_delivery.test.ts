@@ -0,0 +1,256 @@
+import { TestDatabase, TestUser, startTestDatabase } from './database';
+import { PushDeliveryClient, dispatchPushes } from '../functions/_shared/pushDelivery';
+import { createLocalPushDispatcher, expoPushDispatcher } from '../functions/_shared/pushDispatcher';
+
+describe('push delivery', () => {
+  let db: TestDatabase;
+  let trainer: TestUser;
+  let client: TestUser;
+  let conversationId: string;
+
+  // Messages reach the database from the app or from the offline sync queue;
+  // either way only the insert trigger queues the push
+  const send = async (content: string) => {
+    await db.query('INSERT INTO messages (conversation_id, sender_id, content) VALUES ($1, $2, $3)', [
+      conversationId,
+      trainer.profileId,
+      content,
+    ]);
+    const { rows: [notification] } = await db.query(
+      'SELECT id, push_status FROM notifications WHERE user_id = $1 AND message = $2',
+      [client.profileId, content]
+    );
+    return notification as { id: string; push_status: string };
+  };
+
+  // The Edge Function's connection
+  const asServiceRole = async <T>(run: () => Promise<T>) => {
+    await db.query('SET ROLE service_role');
+    try {
+      return await run();
+    } finally {
+      await db.query('RESET ROLE');
+    }
+  };
+
+  const claim = () => asServiceRole(async () => (await db.query('SELECT * FROM claim_push_deliveries()')).rows);
+
+  const complete = (notificationId: string, delivered: boolean, invalidTokens: string[] = []) =>
+    asServiceRole(() =>
+      db.query('SELECT complete_push_delivery($1, $2, $3)', [notificationId, delivered, invalidTokens])
+    );
+
+  // Stands in for the Edge Function's Supabase client
+  const serviceClient: PushDeliveryClient = {
+    rpc: (fn, args) =>
+      asServiceRole(async () => {
+        try {
+          if (fn === 'claim_push_deliveries') {
+            const { rows } = await db.query('SELECT * FROM claim_push_deliveries($1)', [args.max_count]);
+            return { data: rows, error: null };
+          }
+          await db.query('SELECT complete_push_delivery($1, $2, $3)', [
+            args.target_notification_id,
+            args.delivered,
+            args.invalid_tokens,
+          ]);
+          return { data: null, error: null };
+        } catch (error) {
+          return { data: null, error: { message: String(error) } };
+        }
+      }),
+  };
+
+  const pushState = async (notificationId: string) =>
+    (
+      await db.query('SELECT push_status, push_attempts FROM notifications WHERE id = $1', [notificationId])
+    ).rows[0];
+
+  // Moves the latest attempt back in time instead of waiting
+  const claimedAgo = (notificationId: string, interval: string) =>
+    db.query('UPDATE notifications SET push_claimed_at = now() - $2::interval WHERE id = $1', [
+      notificationId,
+      interval,
+    ]);
+
+  beforeAll(async () => {
+    db = await startTestDatabase();
+    trainer = await db.createUser('trainer');
+    client = await db.createUser('client');
+    await db.assign(client, { trainer });
+    conversationId = (
+      await db.query('INSERT INTO conversations (participant_1_id, participant_2_id) VALUES ($1, $2) RETURNING id', [
+        trainer.profileId,
+        client.profileId,
+      ])
+    ).rows[0].id;
+  });
+
+  beforeEach(async () => {
+    await db.query("UPDATE notifications SET push_status = 'none' WHERE push_status IN ('pending', 'sending')");
+    await db.query(
+      "INSERT INTO push_tokens (user_id, token) VALUES ($1, 'ExponentPushToken[client-phone]') ON CONFLICT (token) DO NOTHING",
+      [client.profileId]
+    );
+  });
+
+  afterAll(async () => {
+    await db?.stop();
+  });
+
+  it('queues a push for a message however it was saved', async () => {
+    const notification = await send('Hi from the sync queue');
+
+    expect(notification.push_status).toBe('pending');
+  });
+
+  it("doesn't let signed-in users claim pushes, see tokens or complete deliveries", async () => {
+    const notification = await send('Private');
+
+    await expect(db.asUser(trainer, query => query('SELECT * FROM claim_push_deliveries()'))).rejects.toThrow(
+      /permission denied/
+    );
+    await expect(
+      db.asUser(trainer, query =>
+        query('SELECT complete_push_delivery($1, false, $2)', [notification.id, ['ExponentPushToken[client-phone]']])
+      )
+    ).rejects.toThrow(/permission denied/);
+    expect(await pushState(notification.id)).toEqual({ push_status: 'pending', push_attempts: 0 });
+  });
+
+  it("hands the service role the recipient's tokens and records the delivery", async () => {
+    const notification = await send('See you Monday');
+
+    const claimed = await claim();
+
+    expect(claimed).toEqual([
+      expect.objectContaining({
+        notification_id: notification.id,
+        tokens: ['ExponentPushToken[client-phone]'],
+        type: 'message',
+      }),
+    ]);
+    expect(await claim()).toEqual([]);
+
+    await complete(notification.id, true);
+    expect(await pushState(notification.id)).toEqual({ push_status: 'sent', push_attempts: 1 });
+  });
+
+  it('retries a failed push after a minute, up to five attempts', async () => {
+    const notification = await send('Retry me');
+
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      expect((await claim()).map(row => row.notification_id)).toEqual([notification.id]);
+      await complete(notification.id, false);
+      expect(await claim()).toEqual([]);
+      await claimedAgo(notification.id, '2 minutes');
+    }
+
+    expect(await pushState(notification.id)).toEqual({ push_status: 'failed', push_attempts: 5 });
+  });
+
+  it('takes back a push whose sender stopped partway', async () => {
+    const notification = await send('Interrupted');
+    await claim();
+
+    await claimedAgo(notification.id, '1 minute');
+    expect(await claim()).toEqual([]);
+
+    await claimedAgo(notification.id, '10 minutes');
+    expect((await claim()).map(row => row.notification_id)).toEqual([notification.id]);
+    expect(await pushState(notification.id)).toEqual({ push_status: 'sending', push_attempts: 2 });
+  });
+
+  it('gives up on pushes older than a day', async () => {
+    const notification = await send('Too late');
+    await db.query("UPDATE notifications SET created_at = now() - interval '2 days' WHERE id = $1", [notification.id]);
+
+    expect(await claim()).toEqual([]);
+    expect((await pushState(notification.id)).push_status).toBe('failed');
+  });
+
+  it('sends due pushes through the dispatcher and records the result', async () => {
+    const notification = await send('Leg day tomorrow');
+    const dispatcher = createLocalPushDispatcher();
+
+    expect(await dispatchPushes(serviceClient, dispatcher)).toBe(1);
+
+    expect(dispatcher.sent).toEqual([
+      {
+        to: ['ExponentPushToken[client-phone]'],
+        title: 'trainer',
+        body: 'Leg day tomorrow',
+        data: expect.objectContaining({ notificationId: notification.id, type: 'message' }),
+      },
+    ]);
+    expect(await pushState(notification.id)).toEqual({ push_status: 'sent', push_attempts: 1 });
+  });
+
+  it('puts a push back in the queue when no device accepted it', async () => {
+    const notification = await send('Nobody home');
+    const dispatcher = createLocalPushDispatcher({ unregistered: ['ExponentPushToken[client-phone]'] });
+
+    expect(await dispatchPushes(serviceClient, dispatcher)).toBe(0);
+
+    expect(await pushState(notification.id)).toEqual({ push_status: 'pending', push_attempts: 1 });
+  });
+
+  it('drops tokens the push service rejected', async () => {
+    await db.query("INSERT INTO push_tokens (user_id, token) VALUES ($1, 'ExponentPushToken[old-phone]')", [
+      client.profileId,
+    ]);
+    await send('New phone who dis');
+
+    await dispatchPushes(serviceClient, createLocalPushDispatcher({ unregistered: ['ExponentPushToken[old-phone]'] }));
+
+    const { rows } = await db.query('SELECT token FROM push_tokens WHERE user_id = $1', [client.profileId]);
+    expect(rows.map(row => row.token)).toEqual(['ExponentPushToken[client-phone]']);
+  });
+});
+
+describe('expoPushDispatcher', () => {
+  const originalFetch = global.fetch;
+
+  const respondWith = (tickets: unknown[]) => {
+    global.fetch = jest.fn(async () => ({ ok: true, json: async () => ({ data: tickets }) })) as unknown as typeof fetch;
+  };
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const message = { to: ['ExponentPushToken[a]', 'ExponentPushToken[b]'], title: 'Hi', body: 'There' };
+
+  it('reads one ticket per token and reports unregistered devices', async () => {
+    respondWith([
+      { status: 'ok', id: 'ticket-a' },
+      { status: 'error', message: 'Not registered', details: { error: 'DeviceNotRegistered' } },
+    ]);
+
+    expect(await expoPushDispatcher.send(message)).toEqual({
+      delivered: true,
+      invalidTokens: ['ExponentPushToken[b]'],
+      error: undefined,
+    });
+  });
+
+  it('reports the first error when no token was accepted', async () => {
+    respondWith([
+      { status: 'error', message: 'Too many messages', details: { error: 'MessageRateExceeded' } },
+      { status: 'error', message: 'Too many messages', details: { error: 'MessageRateExceeded' } },
+    ]);
+
+    expect(await expoPushDispatcher.send(message)).toEqual({
+      delivered: false,
+      invalidTokens: [],
+      error: 'Too many messages',
+    });
+  });
+
+  it("doesn't call the push service without tokens", async () => {
+    respondWith([]);
+
+    expect((await expoPushDispatcher.send({ ...message, to: [] })).delivered).toBe(false);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,235 @@
+import { TestDatabase, TestUser, startTestDatabase } from './database';
+
+describe('role-based access policies', () => {
+  let db: TestDatabase;
+  let trainer: TestUser;
+  let otherTrainer: TestUser;
+  let client: TestUser;
+  let otherClient: TestUser;
+
+  const visibleIds = async (user: TestUser, sql: string) =>
+    db.asUser(user, async query => (await query(sql)).rows.map(row => row.id));
+
+  beforeAll(async () => {
+    db = await startTestDatabase();
+    trainer = await db.createUser('trainer');
+    otherTrainer = await db.createUser('trainer', 'other-trainer');
+    client = await db.createUser('client');
+    otherClient = await db.createUser('client', 'other-client');
+    await db.assign(client, { trainer });
+    await db.assign(otherClient, { trainer: otherTrainer });
+  });
+
+  afterAll(async () => {
+    await db?.stop();
+  });
+
+  describe('profiles', () => {
+    it('lets a trainer read their assigned clients only', async () => {
+      const ids = await visibleIds(trainer, "SELECT id FROM profiles WHERE role = 'client'");
+
+      expect(ids).toContain(client.profileId);
+      expect(ids).not.toContain(otherClient.profileId);
+    });
+
+    it("doesn't let a client read other clients", async () => {
+      const ids = await visibleIds(client, "SELECT id FROM profiles WHERE role = 'client'");
+
+      expect(ids).toEqual([client.profileId]);
+    });
+
+    it("doesn't let users change their own role", async () => {
+      await expect(
+        db.asUser(client, query => query("UPDATE profiles SET role = 'admin' WHERE id = $1", [client.profileId]))
+      ).rejects.toThrow('Not allowed to change this role');
+    });
+
+    it('lets a new user create their own profile', async () => {
+      const { rows: [account] } = await db.query("INSERT INTO auth.users (email) VALUES ('lead@example.com') RETURNING id");
+
+      const { rowCount } = await db.asUser({ userId: account.id, profileId: account.id }, query =>
+        query("INSERT INTO profiles (id, user_id, email, role) VALUES ($1, $1, 'lead@example.com', 'leads')", [
+          account.id,
+        ])
+      );
+
+      expect(rowCount).toBe(1);
+    });
+
+    it("doesn't let a user create a profile that isn't tied to their account", async () => {
+      const { rows: [account] } = await db.query("INSERT INTO auth.users (email) VALUES ('loose@example.com') RETURNING id");
+
+      await expect(
+        db.asUser({ userId: account.id, profileId: account.id }, query =>
+          query("INSERT INTO profiles (id, email, role) VALUES ($1, 'loose@example.com', 'leads')", [account.id])
+        )
+      ).rejects.toThrow(/row-level security/);
+    });
+
+    it("doesn't let a user add a second profile to their account", async () => {
+      await expect(
+        db.asUser(client, query =>
+          query("INSERT INTO profiles (user_id, email, role) VALUES ($1, 'shadow@example.com', 'client')", [
+            client.userId,
+          ])
+        )
+      ).rejects.toThrow(/duplicate key/);
+    });
+  });
+
+  describe('workout_sessions', () => {
+    let sessionId: string;
+    let otherSessionId: string;
+
+    beforeAll(async () => {
+      const insert = 'INSERT INTO workout_sessions (client_id, trainer_id) VALUES ($1, $2) RETURNING id';
+      sessionId = (await db.query(insert, [client.profileId, trainer.profileId])).rows[0].id;
+      otherSessionId = (await db.query(insert, [otherClient.profileId, otherTrainer.profileId])).rows[0].id;
+    });
+
+    it('lets a trainer read sessions of assigned clients only', async () => {
+      const ids = await visibleIds(trainer, 'SELECT id FROM workout_sessions');
+
+      expect(ids).toContain(sessionId);
+      expect(ids).not.toContain(otherSessionId);
+    });
+
+    it("doesn't let a trainer log sessions for unassigned clients", async () => {
+      await expect(
+        db.asUser(trainer, query =>
+          query('INSERT INTO workout_sessions (client_id, trainer_id) VALUES ($1, $2)', [
+            otherClient.profileId,
+            trainer.profileId,
+          ])
+        )
+      ).rejects.toThrow(/row-level security/);
+    });
+
+    it('lets a client read their own sessions only', async () => {
+      expect(await visibleIds(client, 'SELECT id FROM workout_sessions')).toEqual([sessionId]);
+    });
+  });
+
+  describe('workout_plans and plan_sessions', () => {
+    let planId: string;
+    let otherPlanId: string;
+
+    beforeAll(async () => {
+      const insert = `INSERT INTO workout_plans (client_id, trainer_id, name, start_date, end_date)
+        VALUES ($1, $2, 'Block', '2026-11-02', '2026-11-29') RETURNING id`;
+      planId = (await db.query(insert, [client.profileId, trainer.profileId])).rows[0].id;
+      otherPlanId = (await db.query(insert, [otherClient.profileId, otherTrainer.profileId])).rows[0].id;
+      await db.query(
+        "INSERT INTO plan_sessions (plan_id, scheduled_date) VALUES ($1, '2026-11-02'), ($2, '2026-11-02')",
+        [planId, otherPlanId]
+      );
+    });
+
+    it('lets a trainer read plans and sessions of assigned clients only', async () => {
+      expect(await visibleIds(trainer, 'SELECT id FROM workout_plans')).toEqual([planId]);
+      const planIds = await db.asUser(trainer, async query =>
+        (await query('SELECT plan_id FROM plan_sessions')).rows.map(row => row.plan_id)
+      );
+      expect(planIds).toEqual([planId]);
+    });
+
+    it("doesn't let a trainer create plans for unassigned clients", async () => {
+      await expect(
+        db.asUser(trainer, query =>
+          query(
+            `INSERT INTO workout_plans (client_id, trainer_id, name, start_date, end_date)
+             VALUES ($1, $2, 'Poached', '2026-11-02', '2026-11-29')`,
+            [otherClient.profileId, trainer.profileId]
+          )
+        )
+      ).rejects.toThrow(/row-level security/);
+    });
+
+    it('lets a client mark their own sessions done', async () => {
+      const { rowCount } = await db.asUser(client, query =>
+        query("UPDATE plan_sessions SET status = 'completed' WHERE plan_id = $1", [planId])
+      );
+      expect(rowCount).toBe(1);
+      expect(await visibleIds(client, 'SELECT id FROM workout_plans')).toEqual([planId]);
+    });
+
+    it("doesn't let save_workout_plan plan for unassigned clients", async () => {
+      await expect(
+        db.asUser(trainer, query =>
+          query('SELECT * FROM save_workout_plan($1, $2)', [
+            { client_id: otherClient.profileId, name: 'Poached', start_date: '2026-11-02', end_date: '2026-11-29' },
+            '[]',
+          ])
+        )
+      ).rejects.toThrow('Not assigned to this client');
+    });
+  });
+
+  describe('client_measurements', () => {
+    let measurementId: string;
+    let otherMeasurementId: string;
+
+    beforeAll(async () => {
+      const insert = 'INSERT INTO client_measurements (client_id, weight_kg) VALUES ($1, 80) RETURNING id';
+      measurementId = (await db.query(insert, [client.profileId])).rows[0].id;
+      otherMeasurementId = (await db.query(insert, [otherClient.profileId])).rows[0].id;
+    });
+
+    it('lets a trainer read measurements of assigned clients only', async () => {
+      const ids = await visibleIds(trainer, 'SELECT id FROM client_measurements');
+
+      expect(ids).toContain(measurementId);
+      expect(ids).not.toContain(otherMeasurementId);
+    });
+
+    it("doesn't let a trainer record measurements for unassigned clients", async () => {
+      await expect(
+        db.asUser(trainer, query =>
+          query('INSERT INTO client_measurements (client_id, weight_kg) VALUES ($1, 70)', [otherClient.profileId])
+        )
+      ).rejects.toThrow(/row-level security/);
+    });
+
+    it('lets a client read their own measurements only', async () => {
+      expect(await visibleIds(client, 'SELECT id FROM client_measurements')).toEqual([measurementId]);
+    });
+  });
+
+  describe('food_entries', () => {
+    let entryId: string;
+    let otherEntryId: string;
+
+    beforeAll(async () => {
+      const insert = "INSERT INTO food_entries (user_id, title) VALUES ($1, 'Oats') RETURNING id";
+      entryId = (await db.query(insert, [client.profileId])).rows[0].id;
+      otherEntryId = (await db.query(insert, [otherClient.profileId])).rows[0].id;
+    });
+
+    it('lets a client manage their own entries only', async () => {
+      expect(await visibleIds(client, 'SELECT id FROM food_entries')).toEqual([entryId]);
+      await expect(
+        db.asUser(client, query =>
+          query("INSERT INTO food_entries (user_id, title) VALUES ($1, 'Forged')", [otherClient.profileId])
+        )
+      ).rejects.toThrow(/row-level security/);
+    });
+
+    it('lets a coach read entries of assigned clients only', async () => {
+      const ids = await visibleIds(trainer, 'SELECT id FROM food_entries');
+
+      expect(ids).toContain(entryId);
+      expect(ids).not.toContain(otherEntryId);
+    });
+  });
+
+  describe('once an assignment ends', () => {
+    it('hides the former client from the trainer', async () => {
+      const former = await db.createUser('client', 'former-client');
+      await db.assign(former, { trainer });
+      await db.query("UPDATE client_assignments SET status = 'inactive' WHERE client_id = $1", [former.profileId]);
+
+      const ids = await visibleIds(trainer, "SELECT id FROM profiles WHERE role = 'client'");
+      expect(ids).not.toContain(former.profileId);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { TestDatabase, TestUser, startTestDatabase } from './database';
+
+describe('save_workout_logs', () => {
+  let db: TestDatabase;
+  let client: TestUser;
+  let otherClient: TestUser;
+  let sessionId: string;
+  let exerciseIds: string[];
+
+  const log = (orderIndex: number, overrides: Record<string, unknown> = {}) => ({
+    exercise_id: exerciseIds[orderIndex],
+    order_index: orderIndex,
+    sets_performed: [{ reps: 5, weight: 100, completed: true }],
+    total_volume_kg: 500,
+    total_reps: 5,
+    ...overrides,
+  });
+
+  const saveLogs = (user: TestUser, logs: object[]) =>
+    db.asUser(user, query => query('SELECT save_workout_logs($1, $2) AS saved', [sessionId, JSON.stringify(logs)]));
+
+  const storedLogs = async () => {
+    const { rows } = await db.query(
+      'SELECT exercise_id, total_reps FROM workout_logs WHERE session_id = $1 ORDER BY order_index',
+      [sessionId]
+    );
+    return rows;
+  };
+
+  beforeAll(async () => {
+    db = await startTestDatabase();
+    client = await db.createUser('client');
+    otherClient = await db.createUser('client', 'other-client');
+
+    const { rows: exercises } = await db.query('SELECT id FROM exercises ORDER BY name LIMIT 3');
+    exerciseIds = exercises.map(row => row.id);
+  });
+
+  beforeEach(async () => {
+    const { rows: [session] } = await db.query(
+      "INSERT INTO workout_sessions (client_id, date, completed) VALUES ($1, '2026-10-16', true) RETURNING id",
+      [client.profileId]
+    );
+    sessionId = session.id;
+  });
+
+  afterAll(async () => {
+    await db?.stop();
+  });
+
+  it('replaces the logs of a session saved again', async () => {
+    await saveLogs(client, [log(0), log(1), log(2)]);
+    const { rows: [result] } = await saveLogs(client, [log(0, { total_reps: 8 }), log(1, { total_reps: 6 })]);
+
+    expect(result.saved).toBe(2);
+    expect(await storedLogs()).toEqual([
+      { exercise_id: exerciseIds[0], total_reps: 8 },
+      { exercise_id: exerciseIds[1], total_reps: 6 },
+    ]);
+  });
+
+  it('keeps the previous logs when the new ones fail to save', async () => {
+    await saveLogs(client, [log(0), log(1)]);
+
+    await expect(
+      saveLogs(client, [log(0, { total_reps: 8 }), log(1, { exercise_id: '00000000-0000-0000-0000-000000000001' })])
+    ).rejects.toThrow(/foreign key/);
+
+    expect(await storedLogs()).toEqual([
+      { exercise_id: exerciseIds[0], total_reps: 5 },
+      { exercise_id: exerciseIds[1], total_reps: 5 },
+    ]);
+  });
+
+  it("doesn't let another client overwrite a session's logs", async () => {
+    await saveLogs(client, [log(0)]);
+
+    await expect(saveLogs(otherClient, [log(0, { total_reps: 1 })])).rejects.toThrow(/row-level security/);
+    expect(await storedLogs()).toEqual([{ exercise_id: exerciseIds[0], total_reps: 5 }]);
+  });
+});
@@ -0,0 +1,102 @@
+import { TestDatabase, TestUser, startTestDatabase } from './database';
+
+describe('save_workout_plan', () => {
+  let db: TestDatabase;
+  let trainer: TestUser;
+  let client: TestUser;
+
+  const plan = (overrides: Record<string, unknown> = {}) => ({
+    client_id: client.profileId,
+    name: 'Strength block',
+    start_date: '2026-11-02',
+    end_date: '2026-11-29',
+    status: 'active',
+    ...overrides,
+  });
+
+  const session = (scheduledDate: string, overrides: Record<string, unknown> = {}) => ({
+    scheduled_date: scheduledDate,
+    day_of_week: 'Monday',
+    ...overrides,
+  });
+
+  const savePlan = (user: TestUser, planFields: object, sessions: object[], targetPlanId: string | null = null) =>
+    db.asUser(user, query =>
+      query('SELECT * FROM save_workout_plan($1, $2, $3)', [planFields, JSON.stringify(sessions), targetPlanId])
+    );
+
+  const sessionDates = async (planId: string) => {
+    const { rows } = await db.query(
+      'SELECT scheduled_date::text AS date FROM plan_sessions WHERE plan_id = $1 ORDER BY scheduled_date',
+      [planId]
+    );
+    return rows.map(row => row.date);
+  };
+
+  beforeAll(async () => {
+    db = await startTestDatabase();
+    trainer = await db.createUser('trainer');
+    client = await db.createUser('client');
+    await db.assign(client, { trainer });
+  });
+
+  afterAll(async () => {
+    await db?.stop();
+  });
+
+  it('creates the plan and its sessions for the calling trainer', async () => {
+    const { rows: [saved] } = await savePlan(trainer, plan(), [session('2026-11-02'), session('2026-11-09')]);
+
+    expect(saved.trainer_id).toBe(trainer.profileId);
+    expect(saved.client_id).toBe(client.profileId);
+    expect(await sessionDates(saved.id)).toEqual(['2026-11-02', '2026-11-09']);
+  });
+
+  it('replaces the sessions of an edited plan', async () => {
+    const { rows: [created] } = await savePlan(trainer, plan(), [session('2026-11-02'), session('2026-11-09')]);
+    const { rows: [edited] } = await savePlan(trainer, plan({ name: 'Edited block' }), [session('2026-11-16')], created.id);
+
+    expect(edited.id).toBe(created.id);
+    expect(edited.name).toBe('Edited block');
+    expect(await sessionDates(created.id)).toEqual(['2026-11-16']);
+  });
+
+  it('leaves the plan and its schedule untouched when a session fails to save', async () => {
+    const { rows: [created] } = await savePlan(trainer, plan(), [session('2026-11-02'), session('2026-11-09')]);
+    const missingTemplate = '00000000-0000-0000-0000-000000000001';
+
+    await expect(
+      savePlan(
+        trainer,
+        plan({ name: 'Half saved' }),
+        [session('2026-11-16'), session('2026-11-23', { template_id: missingTemplate })],
+        created.id
+      )
+    ).rejects.toThrow(/foreign key/);
+
+    const { rows: [stored] } = await db.query('SELECT name FROM workout_plans WHERE id = $1', [created.id]);
+    expect(stored.name).toBe('Strength block');
+    expect(await sessionDates(created.id)).toEqual(['2026-11-02', '2026-11-09']);
+  });
+
+  it('saves nothing for a new plan whose sessions fail', async () => {
+    const { rows: [before] } = await db.query('SELECT count(*)::int AS count FROM workout_plans');
+
+    await expect(
+      savePlan(trainer, plan({ name: 'Never saved' }), [session('2026-11-02', { status: 'not-a-status' })])
+    ).rejects.toThrow(/check constraint/);
+
+    const { rows: [after] } = await db.query('SELECT count(*)::int AS count FROM workout_plans');
+    expect(after.count).toBe(before.count);
+  });
+
+  it('rejects a plan that ends before it starts', async () => {
+    await expect(savePlan(trainer, plan({ end_date: '2026-11-01' }), [])).rejects.toThrow(
+      'Plan cannot end before it starts'
+    );
+  });
+
+  it('rejects callers without plans.manage', async () => {
+    await expect(savePlan(client, plan(), [])).rejects.toThrow('Not allowed to manage workout plans');
+  });
+});
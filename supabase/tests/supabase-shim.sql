@@ -0,0 +1,81 @@
+/*
+  # Supabase platform shim
+
+  The pieces of a Supabase project that the migrations rely on but don't
+  create: the API roles, `auth.users` and `auth.uid()`, the storage tables and
+  the realtime publication. Only used to run the migrations against a plain
+  local Postgres in tests; a real project already has all of these.
+
+  `auth.uid()` reads `request.jwt.claim.sub` like PostgREST sets it, so tests
+  act as a user with `SET ROLE authenticated` and that setting.
+*/
+
+CREATE ROLE anon NOLOGIN;
+CREATE ROLE authenticated NOLOGIN;
+CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+CREATE SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Auth
+
+CREATE SCHEMA auth;
+
+CREATE TABLE auth.users (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text UNIQUE,
+  raw_user_meta_data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE FUNCTION auth.uid() RETURNS uuid AS $$
+  SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::uuid;
+$$ LANGUAGE sql STABLE;
+
+CREATE FUNCTION auth.role() RETURNS text AS $$
+  SELECT coalesce(nullif(current_setting('request.jwt.claim.role', true), ''), current_user);
+$$ LANGUAGE sql STABLE;
+
+-- Storage
+
+CREATE SCHEMA storage;
+
+CREATE TABLE storage.buckets (
+  id text PRIMARY KEY,
+  name text NOT NULL UNIQUE,
+  public boolean DEFAULT false,
+  owner uuid,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE storage.objects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bucket_id text REFERENCES storage.buckets(id),
+  name text,
+  owner uuid,
+  metadata jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+
+CREATE FUNCTION storage.foldername(name text) RETURNS text[] AS $$
+  SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1];
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Realtime
+
+CREATE PUBLICATION supabase_realtime;
+
+-- API role privileges, as a Supabase project grants them
+
+GRANT USAGE ON SCHEMA public, auth, storage, extensions TO anon, authenticated, service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON storage.objects TO anon, authenticated, service_role;
+GRANT SELECT ON storage.buckets TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT EXECUTE ON FUNCTIONS TO anon, authenticated, service_role;
+
+ALTER DATABASE postgres SET search_path TO public, extensions;
@@ -0,0 +1,4314 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      admin_audit_log: {
+        Row: {
+          action: string;
+          actor_id: string | null;
+          after: Json | null;
+          before: Json | null;
+          created_at: string;
+          id: string;
+          target_id: string | null;
+        };
+        Insert: {
+          action: string;
+          actor_id?: string | null;
+          after?: Json | null;
+          before?: Json | null;
+          created_at?: string;
+          id?: string;
+          target_id?: string | null;
+        };
+        Update: {
+          action?: string;
+          actor_id?: string | null;
+          after?: Json | null;
+          before?: Json | null;
+          created_at?: string;
+          id?: string;
+          target_id?: string | null;
+        };
+        Relationships: [];
+      };
+      client_activity_log: {
+        Row: {
+          activity_date: string | null;
+          activity_type: string;
+          client_id: string | null;
+          created_at: string | null;
+          description: string;
+          id: string;
+          metadata: Json | null;
+          trainer_id: string | null;
+        };
+        Insert: {
+          activity_date?: string | null;
+          activity_type: string;
+          client_id?: string | null;
+          created_at?: string | null;
+          description: string;
+          id?: string;
+          metadata?: Json | null;
+          trainer_id?: string | null;
+        };
+        Update: {
+          activity_date?: string | null;
+          activity_type?: string;
+          client_id?: string | null;
+          created_at?: string | null;
+          description?: string;
+          id?: string;
+          metadata?: Json | null;
+          trainer_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'client_activity_log_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_activity_log_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'client_activity_log_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_activity_log_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      client_assignment_history: {
+        Row: {
+          assignment_id: string | null;
+          client_id: string;
+          coach_id: string;
+          coach_role: string;
+          created_at: string;
+          end_reason: string | null;
+          ended_at: string | null;
+          ended_by: string | null;
+          id: string;
+          start_reason: string | null;
+          started_at: string;
+          started_by: string | null;
+        };
+        Insert: {
+          assignment_id?: string | null;
+          client_id: string;
+          coach_id: string;
+          coach_role: string;
+          created_at?: string;
+          end_reason?: string | null;
+          ended_at?: string | null;
+          ended_by?: string | null;
+          id?: string;
+          start_reason?: string | null;
+          started_at?: string;
+          started_by?: string | null;
+        };
+        Update: {
+          assignment_id?: string | null;
+          client_id?: string;
+          coach_id?: string;
+          coach_role?: string;
+          created_at?: string;
+          end_reason?: string | null;
+          ended_at?: string | null;
+          ended_by?: string | null;
+          id?: string;
+          start_reason?: string | null;
+          started_at?: string;
+          started_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'client_assignment_history_assignment_id_fkey';
+            columns: ['assignment_id'];
+            isOneToOne: false;
+            referencedRelation: 'client_assignments';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_assignment_history_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_assignment_history_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'client_assignment_history_coach_id_fkey';
+            columns: ['coach_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_assignment_history_coach_id_fkey';
+            columns: ['coach_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'client_assignment_history_ended_by_fkey';
+            columns: ['ended_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_assignment_history_ended_by_fkey';
+            columns: ['ended_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'client_assignment_history_started_by_fkey';
+            columns: ['started_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_assignment_history_started_by_fkey';
+            columns: ['started_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      client_assignments: {
+        Row: {
+          assigned_by: string | null;
+          assigned_date: string | null;
+          assignment_type: string | null;
+          client_id: string | null;
+          created_at: string | null;
+          end_date: string | null;
+          id: string;
+          notes: string | null;
+          nutritionist_id: string | null;
+          start_date: string | null;
+          status: string | null;
+          trainer_id: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          assigned_by?: string | null;
+          assigned_date?: string | null;
+          assignment_type?: string | null;
+          client_id?: string | null;
+          created_at?: string | null;
+          end_date?: string | null;
+          id?: string;
+          notes?: string | null;
+          nutritionist_id?: string | null;
+          start_date?: string | null;
+          status?: string | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          assigned_by?: string | null;
+          assigned_date?: string | null;
+          assignment_type?: string | null;
+          client_id?: string | null;
+          created_at?: string | null;
+          end_date?: string | null;
+          id?: string;
+          notes?: string | null;
+          nutritionist_id?: string | null;
+          start_date?: string | null;
+          status?: string | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'client_assignments_assigned_by_fkey';
+            columns: ['assigned_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_assignments_assigned_by_fkey';
+            columns: ['assigned_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'client_assignments_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_assignments_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'client_assignments_nutritionist_id_fkey';
+            columns: ['nutritionist_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_assignments_nutritionist_id_fkey';
+            columns: ['nutritionist_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'client_assignments_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_assignments_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      client_goals: {
+        Row: {
+          category: string | null;
+          client_id: string | null;
+          completed_at: string | null;
+          created_at: string | null;
+          current_value: number | null;
+          description: string | null;
+          id: string;
+          last_evaluated_at: string | null;
+          priority: string | null;
+          progress_percentage: number | null;
+          source_metric: string | null;
+          source_type: string;
+          start_value: number | null;
+          status: string | null;
+          target_date: string | null;
+          target_unit: string | null;
+          target_value: number | null;
+          title: string;
+          trainer_id: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          category?: string | null;
+          client_id?: string | null;
+          completed_at?: string | null;
+          created_at?: string | null;
+          current_value?: number | null;
+          description?: string | null;
+          id?: string;
+          last_evaluated_at?: string | null;
+          priority?: string | null;
+          progress_percentage?: number | null;
+          source_metric?: string | null;
+          source_type?: string;
+          start_value?: number | null;
+          status?: string | null;
+          target_date?: string | null;
+          target_unit?: string | null;
+          target_value?: number | null;
+          title: string;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          category?: string | null;
+          client_id?: string | null;
+          completed_at?: string | null;
+          created_at?: string | null;
+          current_value?: number | null;
+          description?: string | null;
+          id?: string;
+          last_evaluated_at?: string | null;
+          priority?: string | null;
+          progress_percentage?: number | null;
+          source_metric?: string | null;
+          source_type?: string;
+          start_value?: number | null;
+          status?: string | null;
+          target_date?: string | null;
+          target_unit?: string | null;
+          target_value?: number | null;
+          title?: string;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'client_goals_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_goals_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'client_goals_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_goals_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      client_measurements: {
+        Row: {
+          bicep_left_cm: number | null;
+          bicep_right_cm: number | null;
+          blood_pressure_diastolic: number | null;
+          blood_pressure_systolic: number | null;
+          body_fat_percentage: number | null;
+          chest_cm: number | null;
+          client_id: string | null;
+          created_at: string | null;
+          forearm_left_cm: number | null;
+          forearm_right_cm: number | null;
+          height_cm: number | null;
+          hips_cm: number | null;
+          id: string;
+          local_id: string | null;
+          measured_at: string | null;
+          measured_by: string | null;
+          measurement_date: string | null;
+          muscle_mass_kg: number | null;
+          neck_cm: number | null;
+          notes: string | null;
+          photos: Json | null;
+          resting_heart_rate: number | null;
+          shoulders_cm: number | null;
+          sleep_hours: number | null;
+          steps: number | null;
+          thigh_left_cm: number | null;
+          thigh_right_cm: number | null;
+          updated_at: string | null;
+          waist_cm: number | null;
+          water_intake_l: number | null;
+          weight_kg: number | null;
+        };
+        Insert: {
+          bicep_left_cm?: number | null;
+          bicep_right_cm?: number | null;
+          blood_pressure_diastolic?: number | null;
+          blood_pressure_systolic?: number | null;
+          body_fat_percentage?: number | null;
+          chest_cm?: number | null;
+          client_id?: string | null;
+          created_at?: string | null;
+          forearm_left_cm?: number | null;
+          forearm_right_cm?: number | null;
+          height_cm?: number | null;
+          hips_cm?: number | null;
+          id?: string;
+          local_id?: string | null;
+          measured_at?: string | null;
+          measured_by?: string | null;
+          measurement_date?: string | null;
+          muscle_mass_kg?: number | null;
+          neck_cm?: number | null;
+          notes?: string | null;
+          photos?: Json | null;
+          resting_heart_rate?: number | null;
+          shoulders_cm?: number | null;
+          sleep_hours?: number | null;
+          steps?: number | null;
+          thigh_left_cm?: number | null;
+          thigh_right_cm?: number | null;
+          updated_at?: string | null;
+          waist_cm?: number | null;
+          water_intake_l?: number | null;
+          weight_kg?: number | null;
+        };
+        Update: {
+          bicep_left_cm?: number | null;
+          bicep_right_cm?: number | null;
+          blood_pressure_diastolic?: number | null;
+          blood_pressure_systolic?: number | null;
+          body_fat_percentage?: number | null;
+          chest_cm?: number | null;
+          client_id?: string | null;
+          created_at?: string | null;
+          forearm_left_cm?: number | null;
+          forearm_right_cm?: number | null;
+          height_cm?: number | null;
+          hips_cm?: number | null;
+          id?: string;
+          local_id?: string | null;
+          measured_at?: string | null;
+          measured_by?: string | null;
+          measurement_date?: string | null;
+          muscle_mass_kg?: number | null;
+          neck_cm?: number | null;
+          notes?: string | null;
+          photos?: Json | null;
+          resting_heart_rate?: number | null;
+          shoulders_cm?: number | null;
+          sleep_hours?: number | null;
+          steps?: number | null;
+          thigh_left_cm?: number | null;
+          thigh_right_cm?: number | null;
+          updated_at?: string | null;
+          waist_cm?: number | null;
+          water_intake_l?: number | null;
+          weight_kg?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'client_measurements_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_measurements_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'client_measurements_measured_by_fkey';
+            columns: ['measured_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_measurements_measured_by_fkey';
+            columns: ['measured_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      client_progress: {
+        Row: {
+          body_fat_percentage: number | null;
+          client_id: string | null;
+          created_at: string | null;
+          date: string | null;
+          id: string;
+          measurements: Json | null;
+          muscle_mass_kg: number | null;
+          notes: string | null;
+          photos: string[] | null;
+          trainer_id: string | null;
+          updated_at: string | null;
+          weight_kg: number | null;
+        };
+        Insert: {
+          body_fat_percentage?: number | null;
+          client_id?: string | null;
+          created_at?: string | null;
+          date?: string | null;
+          id?: string;
+          measurements?: Json | null;
+          muscle_mass_kg?: number | null;
+          notes?: string | null;
+          photos?: string[] | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+          weight_kg?: number | null;
+        };
+        Update: {
+          body_fat_percentage?: number | null;
+          client_id?: string | null;
+          created_at?: string | null;
+          date?: string | null;
+          id?: string;
+          measurements?: Json | null;
+          muscle_mass_kg?: number | null;
+          notes?: string | null;
+          photos?: string[] | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+          weight_kg?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'client_progress_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_progress_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'client_progress_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_progress_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      consultations: {
+        Row: {
+          client_id: string | null;
+          created_at: string | null;
+          duration_minutes: number | null;
+          id: string;
+          notes: string | null;
+          nutritionist_id: string | null;
+          scheduled_date: string;
+          scheduled_time: string;
+          status: string | null;
+          type: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          client_id?: string | null;
+          created_at?: string | null;
+          duration_minutes?: number | null;
+          id?: string;
+          notes?: string | null;
+          nutritionist_id?: string | null;
+          scheduled_date: string;
+          scheduled_time: string;
+          status?: string | null;
+          type?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          client_id?: string | null;
+          created_at?: string | null;
+          duration_minutes?: number | null;
+          id?: string;
+          notes?: string | null;
+          nutritionist_id?: string | null;
+          scheduled_date?: string;
+          scheduled_time?: string;
+          status?: string | null;
+          type?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'consultations_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'consultations_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'consultations_nutritionist_id_fkey';
+            columns: ['nutritionist_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'consultations_nutritionist_id_fkey';
+            columns: ['nutritionist_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      conversations: {
+        Row: {
+          created_at: string | null;
+          id: string;
+          last_message_at: string | null;
+          participant_1_id: string | null;
+          participant_2_id: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          id?: string;
+          last_message_at?: string | null;
+          participant_1_id?: string | null;
+          participant_2_id?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          id?: string;
+          last_message_at?: string | null;
+          participant_1_id?: string | null;
+          participant_2_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'conversations_participant_1_id_fkey';
+            columns: ['participant_1_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'conversations_participant_1_id_fkey';
+            columns: ['participant_1_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'conversations_participant_2_id_fkey';
+            columns: ['participant_2_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'conversations_participant_2_id_fkey';
+            columns: ['participant_2_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      custom_foods: {
+        Row: {
+          brand: string | null;
+          calories: number;
+          carbs_g: number;
+          created_at: string | null;
+          created_by: string;
+          fat_g: number;
+          fiber_g: number;
+          id: string;
+          micronutrients: NonNullable<Json>;
+          name: string;
+          protein_g: number;
+          servings: NonNullable<Json>;
+          sodium_mg: number;
+          sugar_g: number;
+          updated_at: string | null;
+        };
+        Insert: {
+          brand?: string | null;
+          calories?: number;
+          carbs_g?: number;
+          created_at?: string | null;
+          created_by: string;
+          fat_g?: number;
+          fiber_g?: number;
+          id?: string;
+          micronutrients?: NonNullable<Json>;
+          name: string;
+          protein_g?: number;
+          servings?: NonNullable<Json>;
+          sodium_mg?: number;
+          sugar_g?: number;
+          updated_at?: string | null;
+        };
+        Update: {
+          brand?: string | null;
+          calories?: number;
+          carbs_g?: number;
+          created_at?: string | null;
+          created_by?: string;
+          fat_g?: number;
+          fiber_g?: number;
+          id?: string;
+          micronutrients?: NonNullable<Json>;
+          name?: string;
+          protein_g?: number;
+          servings?: NonNullable<Json>;
+          sodium_mg?: number;
+          sugar_g?: number;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'custom_foods_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'custom_foods_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      daily_stats: {
+        Row: {
+          calories_burned: number | null;
+          calories_consumed: number | null;
+          created_at: string | null;
+          date: string | null;
+          id: string;
+          mood_rating: number | null;
+          sleep_hours: number | null;
+          steps: number | null;
+          updated_at: string | null;
+          user_id: string | null;
+          water_intake_ml: number | null;
+          weight_kg: number | null;
+        };
+        Insert: {
+          calories_burned?: number | null;
+          calories_consumed?: number | null;
+          created_at?: string | null;
+          date?: string | null;
+          id?: string;
+          mood_rating?: number | null;
+          sleep_hours?: number | null;
+          steps?: number | null;
+          updated_at?: string | null;
+          user_id?: string | null;
+          water_intake_ml?: number | null;
+          weight_kg?: number | null;
+        };
+        Update: {
+          calories_burned?: number | null;
+          calories_consumed?: number | null;
+          created_at?: string | null;
+          date?: string | null;
+          id?: string;
+          mood_rating?: number | null;
+          sleep_hours?: number | null;
+          steps?: number | null;
+          updated_at?: string | null;
+          user_id?: string | null;
+          water_intake_ml?: number | null;
+          weight_kg?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'daily_stats_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'daily_stats_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      exercise_variations: {
+        Row: {
+          created_at: string | null;
+          description: string | null;
+          difficulty_modifier: string | null;
+          equipment_changes: string | null;
+          form_modifications: string | null;
+          id: string;
+          name: string;
+          parent_exercise_id: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          description?: string | null;
+          difficulty_modifier?: string | null;
+          equipment_changes?: string | null;
+          form_modifications?: string | null;
+          id?: string;
+          name: string;
+          parent_exercise_id?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          description?: string | null;
+          difficulty_modifier?: string | null;
+          equipment_changes?: string | null;
+          form_modifications?: string | null;
+          id?: string;
+          name?: string;
+          parent_exercise_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'exercise_variations_parent_exercise_id_fkey';
+            columns: ['parent_exercise_id'];
+            isOneToOne: false;
+            referencedRelation: 'exercises';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      exercises: {
+        Row: {
+          category: string;
+          created_at: string | null;
+          created_by: string | null;
+          equipment: string | null;
+          id: string;
+          instructions: string | null;
+          is_public: boolean | null;
+          muscle_groups: string[] | null;
+          name: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          category: string;
+          created_at?: string | null;
+          created_by?: string | null;
+          equipment?: string | null;
+          id?: string;
+          instructions?: string | null;
+          is_public?: boolean | null;
+          muscle_groups?: string[] | null;
+          name: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          category?: string;
+          created_at?: string | null;
+          created_by?: string | null;
+          equipment?: string | null;
+          id?: string;
+          instructions?: string | null;
+          is_public?: boolean | null;
+          muscle_groups?: string[] | null;
+          name?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'exercises_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'exercises_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      food_entries: {
+        Row: {
+          calories: number | null;
+          carbs_g: number | null;
+          catalog_food_id: string | null;
+          created_at: string | null;
+          custom_food_id: string | null;
+          date: string | null;
+          description: string | null;
+          fat_g: number | null;
+          fiber_g: number | null;
+          id: string;
+          meal_type_id: string | null;
+          micronutrients: Json | null;
+          notes: string | null;
+          product_barcode: string | null;
+          protein_g: number | null;
+          quantity: number | null;
+          recipe_id: string | null;
+          review_comment: string | null;
+          review_status: string | null;
+          reviewed_at: string | null;
+          reviewed_by: string | null;
+          serving_grams: number | null;
+          serving_label: string | null;
+          sodium_mg: number | null;
+          sugar_g: number | null;
+          time: string | null;
+          title: string;
+          updated_at: string | null;
+          user_id: string | null;
+        };
+        Insert: {
+          calories?: number | null;
+          carbs_g?: number | null;
+          catalog_food_id?: string | null;
+          created_at?: string | null;
+          custom_food_id?: string | null;
+          date?: string | null;
+          description?: string | null;
+          fat_g?: number | null;
+          fiber_g?: number | null;
+          id?: string;
+          meal_type_id?: string | null;
+          micronutrients?: Json | null;
+          notes?: string | null;
+          product_barcode?: string | null;
+          protein_g?: number | null;
+          quantity?: number | null;
+          recipe_id?: string | null;
+          review_comment?: string | null;
+          review_status?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          serving_grams?: number | null;
+          serving_label?: string | null;
+          sodium_mg?: number | null;
+          sugar_g?: number | null;
+          time?: string | null;
+          title: string;
+          updated_at?: string | null;
+          user_id?: string | null;
+        };
+        Update: {
+          calories?: number | null;
+          carbs_g?: number | null;
+          catalog_food_id?: string | null;
+          created_at?: string | null;
+          custom_food_id?: string | null;
+          date?: string | null;
+          description?: string | null;
+          fat_g?: number | null;
+          fiber_g?: number | null;
+          id?: string;
+          meal_type_id?: string | null;
+          micronutrients?: Json | null;
+          notes?: string | null;
+          product_barcode?: string | null;
+          protein_g?: number | null;
+          quantity?: number | null;
+          recipe_id?: string | null;
+          review_comment?: string | null;
+          review_status?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          serving_grams?: number | null;
+          serving_label?: string | null;
+          sodium_mg?: number | null;
+          sugar_g?: number | null;
+          time?: string | null;
+          title?: string;
+          updated_at?: string | null;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'food_entries_custom_food_id_fkey';
+            columns: ['custom_food_id'];
+            isOneToOne: false;
+            referencedRelation: 'custom_foods';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'food_entries_meal_type_id_fkey';
+            columns: ['meal_type_id'];
+            isOneToOne: false;
+            referencedRelation: 'meal_types';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'food_entries_product_barcode_fkey';
+            columns: ['product_barcode'];
+            isOneToOne: false;
+            referencedRelation: 'food_products';
+            referencedColumns: ['barcode'];
+          },
+          {
+            foreignKeyName: 'food_entries_recipe_id_fkey';
+            columns: ['recipe_id'];
+            isOneToOne: false;
+            referencedRelation: 'recipes';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'food_entries_reviewed_by_fkey';
+            columns: ['reviewed_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'food_entries_reviewed_by_fkey';
+            columns: ['reviewed_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'food_entries_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'food_entries_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      food_photos: {
+        Row: {
+          caption: string | null;
+          created_at: string | null;
+          food_entry_id: string | null;
+          id: string;
+          is_primary: boolean | null;
+          photo_path: string | null;
+          photo_url: string;
+        };
+        Insert: {
+          caption?: string | null;
+          created_at?: string | null;
+          food_entry_id?: string | null;
+          id?: string;
+          is_primary?: boolean | null;
+          photo_path?: string | null;
+          photo_url: string;
+        };
+        Update: {
+          caption?: string | null;
+          created_at?: string | null;
+          food_entry_id?: string | null;
+          id?: string;
+          is_primary?: boolean | null;
+          photo_path?: string | null;
+          photo_url?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'food_photos_food_entry_id_fkey';
+            columns: ['food_entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'food_entries';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      food_products: {
+        Row: {
+          barcode: string;
+          brand: string | null;
+          calories: number;
+          carbs_g: number;
+          contributed_by: string | null;
+          created_at: string | null;
+          fat_g: number;
+          fiber_g: number;
+          micronutrients: NonNullable<Json>;
+          name: string;
+          protein_g: number;
+          serving_grams: number | null;
+          serving_label: string | null;
+          sodium_mg: number;
+          sugar_g: number;
+          updated_at: string | null;
+        };
+        Insert: {
+          barcode: string;
+          brand?: string | null;
+          calories?: number;
+          carbs_g?: number;
+          contributed_by?: string | null;
+          created_at?: string | null;
+          fat_g?: number;
+          fiber_g?: number;
+          micronutrients?: NonNullable<Json>;
+          name: string;
+          protein_g?: number;
+          serving_grams?: number | null;
+          serving_label?: string | null;
+          sodium_mg?: number;
+          sugar_g?: number;
+          updated_at?: string | null;
+        };
+        Update: {
+          barcode?: string;
+          brand?: string | null;
+          calories?: number;
+          carbs_g?: number;
+          contributed_by?: string | null;
+          created_at?: string | null;
+          fat_g?: number;
+          fiber_g?: number;
+          micronutrients?: NonNullable<Json>;
+          name?: string;
+          protein_g?: number;
+          serving_grams?: number | null;
+          serving_label?: string | null;
+          sodium_mg?: number;
+          sugar_g?: number;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'food_products_contributed_by_fkey';
+            columns: ['contributed_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'food_products_contributed_by_fkey';
+            columns: ['contributed_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      goals: {
+        Row: {
+          category: string | null;
+          completed_at: string | null;
+          created_at: string | null;
+          current_value: number | null;
+          description: string | null;
+          emoji: string | null;
+          id: string;
+          last_evaluated_at: string | null;
+          progress_percentage: number | null;
+          source_metric: string | null;
+          source_type: string;
+          start_value: number | null;
+          status: string | null;
+          target_date: string | null;
+          target_value: number | null;
+          title: string;
+          unit: string | null;
+          updated_at: string | null;
+          user_id: string | null;
+        };
+        Insert: {
+          category?: string | null;
+          completed_at?: string | null;
+          created_at?: string | null;
+          current_value?: number | null;
+          description?: string | null;
+          emoji?: string | null;
+          id?: string;
+          last_evaluated_at?: string | null;
+          progress_percentage?: number | null;
+          source_metric?: string | null;
+          source_type?: string;
+          start_value?: number | null;
+          status?: string | null;
+          target_date?: string | null;
+          target_value?: number | null;
+          title: string;
+          unit?: string | null;
+          updated_at?: string | null;
+          user_id?: string | null;
+        };
+        Update: {
+          category?: string | null;
+          completed_at?: string | null;
+          created_at?: string | null;
+          current_value?: number | null;
+          description?: string | null;
+          emoji?: string | null;
+          id?: string;
+          last_evaluated_at?: string | null;
+          progress_percentage?: number | null;
+          source_metric?: string | null;
+          source_type?: string;
+          start_value?: number | null;
+          status?: string | null;
+          target_date?: string | null;
+          target_value?: number | null;
+          title?: string;
+          unit?: string | null;
+          updated_at?: string | null;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'goals_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'goals_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      health_daily_totals: {
+        Row: {
+          created_at: string | null;
+          date: string;
+          id: string;
+          metric: string;
+          source: string;
+          updated_at: string | null;
+          user_id: string;
+          value: number;
+        };
+        Insert: {
+          created_at?: string | null;
+          date: string;
+          id?: string;
+          metric: string;
+          source: string;
+          updated_at?: string | null;
+          user_id: string;
+          value?: number;
+        };
+        Update: {
+          created_at?: string | null;
+          date?: string;
+          id?: string;
+          metric?: string;
+          source?: string;
+          updated_at?: string | null;
+          user_id?: string;
+          value?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'health_daily_totals_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'health_daily_totals_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      health_integrations: {
+        Row: {
+          connected_at: string | null;
+          created_at: string | null;
+          credentials: Json | null;
+          id: string;
+          last_error: string | null;
+          last_synced_at: string | null;
+          provider: string;
+          status: string;
+          sync_cursor: string | null;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          connected_at?: string | null;
+          created_at?: string | null;
+          credentials?: Json | null;
+          id?: string;
+          last_error?: string | null;
+          last_synced_at?: string | null;
+          provider: string;
+          status?: string;
+          sync_cursor?: string | null;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          connected_at?: string | null;
+          created_at?: string | null;
+          credentials?: Json | null;
+          id?: string;
+          last_error?: string | null;
+          last_synced_at?: string | null;
+          provider?: string;
+          status?: string;
+          sync_cursor?: string | null;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'health_integrations_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'health_integrations_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      invitations: {
+        Row: {
+          accepted_at: string | null;
+          accepted_by: string | null;
+          cancelled_at: string | null;
+          created_at: string | null;
+          custom_message: string | null;
+          email: string;
+          expires_at: string;
+          id: string;
+          invited_by: string | null;
+          resend_count: number | null;
+          role: string;
+          sent_at: string | null;
+          status: string | null;
+          token_hash: string;
+          trial_days: number | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          accepted_at?: string | null;
+          accepted_by?: string | null;
+          cancelled_at?: string | null;
+          created_at?: string | null;
+          custom_message?: string | null;
+          email: string;
+          expires_at: string;
+          id?: string;
+          invited_by?: string | null;
+          resend_count?: number | null;
+          role?: string;
+          sent_at?: string | null;
+          status?: string | null;
+          token_hash: string;
+          trial_days?: number | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          accepted_at?: string | null;
+          accepted_by?: string | null;
+          cancelled_at?: string | null;
+          created_at?: string | null;
+          custom_message?: string | null;
+          email?: string;
+          expires_at?: string;
+          id?: string;
+          invited_by?: string | null;
+          resend_count?: number | null;
+          role?: string;
+          sent_at?: string | null;
+          status?: string | null;
+          token_hash?: string;
+          trial_days?: number | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'invitations_accepted_by_fkey';
+            columns: ['accepted_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'invitations_accepted_by_fkey';
+            columns: ['accepted_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'invitations_invited_by_fkey';
+            columns: ['invited_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'invitations_invited_by_fkey';
+            columns: ['invited_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      meal_types: {
+        Row: {
+          color: string;
+          created_at: string | null;
+          emoji: string;
+          id: string;
+          name: string;
+          sort_order: number | null;
+        };
+        Insert: {
+          color: string;
+          created_at?: string | null;
+          emoji: string;
+          id?: string;
+          name: string;
+          sort_order?: number | null;
+        };
+        Update: {
+          color?: string;
+          created_at?: string | null;
+          emoji?: string;
+          id?: string;
+          name?: string;
+          sort_order?: number | null;
+        };
+        Relationships: [];
+      };
+      messages: {
+        Row: {
+          content: string;
+          conversation_id: string | null;
+          created_at: string | null;
+          id: string;
+          message_type: string | null;
+          read_at: string | null;
+          sender_id: string | null;
+        };
+        Insert: {
+          content: string;
+          conversation_id?: string | null;
+          created_at?: string | null;
+          id?: string;
+          message_type?: string | null;
+          read_at?: string | null;
+          sender_id?: string | null;
+        };
+        Update: {
+          content?: string;
+          conversation_id?: string | null;
+          created_at?: string | null;
+          id?: string;
+          message_type?: string | null;
+          read_at?: string | null;
+          sender_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'messages_conversation_id_fkey';
+            columns: ['conversation_id'];
+            isOneToOne: false;
+            referencedRelation: 'conversations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'messages_sender_id_fkey';
+            columns: ['sender_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'messages_sender_id_fkey';
+            columns: ['sender_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      notification_preferences: {
+        Row: {
+          created_at: string | null;
+          id: string;
+          in_app: boolean;
+          push: boolean;
+          type: string;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          id?: string;
+          in_app?: boolean;
+          push?: boolean;
+          type: string;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          id?: string;
+          in_app?: boolean;
+          push?: boolean;
+          type?: string;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notification_preferences_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notification_preferences_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      notifications: {
+        Row: {
+          actor_id: string | null;
+          created_at: string | null;
+          data: Json | null;
+          id: string;
+          in_inbox: boolean;
+          message: string;
+          push_attempts: number;
+          push_claimed_at: string | null;
+          push_status: string;
+          pushed_at: string | null;
+          read: boolean | null;
+          title: string;
+          type: string | null;
+          user_id: string | null;
+        };
+        Insert: {
+          actor_id?: string | null;
+          created_at?: string | null;
+          data?: Json | null;
+          id?: string;
+          in_inbox?: boolean;
+          message: string;
+          push_attempts?: number;
+          push_claimed_at?: string | null;
+          push_status?: string;
+          pushed_at?: string | null;
+          read?: boolean | null;
+          title: string;
+          type?: string | null;
+          user_id?: string | null;
+        };
+        Update: {
+          actor_id?: string | null;
+          created_at?: string | null;
+          data?: Json | null;
+          id?: string;
+          in_inbox?: boolean;
+          message?: string;
+          push_attempts?: number;
+          push_claimed_at?: string | null;
+          push_status?: string;
+          pushed_at?: string | null;
+          read?: boolean | null;
+          title?: string;
+          type?: string | null;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notifications_actor_id_fkey';
+            columns: ['actor_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notifications_actor_id_fkey';
+            columns: ['actor_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'notifications_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notifications_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      nutrition_goals: {
+        Row: {
+          calculated_at: string | null;
+          calculated_weight_kg: number | null;
+          created_at: string | null;
+          daily_calories: number | null;
+          daily_carbs_g: number | null;
+          daily_fat_g: number | null;
+          daily_fiber_g: number | null;
+          daily_protein_g: number | null;
+          daily_sodium_mg: number | null;
+          daily_sugar_g: number | null;
+          daily_water_ml: number;
+          goal_rate_kg_per_week: number | null;
+          goal_type: string | null;
+          id: string;
+          limit_warnings: string[];
+          macro_strategy: string | null;
+          micronutrient_targets: NonNullable<Json>;
+          target_source: string;
+          updated_at: string | null;
+          user_id: string | null;
+        };
+        Insert: {
+          calculated_at?: string | null;
+          calculated_weight_kg?: number | null;
+          created_at?: string | null;
+          daily_calories?: number | null;
+          daily_carbs_g?: number | null;
+          daily_fat_g?: number | null;
+          daily_fiber_g?: number | null;
+          daily_protein_g?: number | null;
+          daily_sodium_mg?: number | null;
+          daily_sugar_g?: number | null;
+          daily_water_ml?: number;
+          goal_rate_kg_per_week?: number | null;
+          goal_type?: string | null;
+          id?: string;
+          limit_warnings?: string[];
+          macro_strategy?: string | null;
+          micronutrient_targets?: NonNullable<Json>;
+          target_source?: string;
+          updated_at?: string | null;
+          user_id?: string | null;
+        };
+        Update: {
+          calculated_at?: string | null;
+          calculated_weight_kg?: number | null;
+          created_at?: string | null;
+          daily_calories?: number | null;
+          daily_carbs_g?: number | null;
+          daily_fat_g?: number | null;
+          daily_fiber_g?: number | null;
+          daily_protein_g?: number | null;
+          daily_sodium_mg?: number | null;
+          daily_sugar_g?: number | null;
+          daily_water_ml?: number;
+          goal_rate_kg_per_week?: number | null;
+          goal_type?: string | null;
+          id?: string;
+          limit_warnings?: string[];
+          macro_strategy?: string | null;
+          micronutrient_targets?: NonNullable<Json>;
+          target_source?: string;
+          updated_at?: string | null;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'nutrition_goals_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: true;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'nutrition_goals_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: true;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      nutrition_plan_meal_foods: {
+        Row: {
+          calories: number;
+          carbs_g: number;
+          catalog_food_id: string | null;
+          created_at: string | null;
+          custom_food_id: string | null;
+          fat_g: number;
+          fiber_g: number;
+          id: string;
+          name: string;
+          plan_meal_id: string;
+          position: number;
+          product_barcode: string | null;
+          protein_g: number;
+          quantity: number;
+          recipe_id: string | null;
+          serving_grams: number;
+          serving_label: string;
+          sodium_mg: number;
+          sugar_g: number;
+        };
+        Insert: {
+          calories?: number;
+          carbs_g?: number;
+          catalog_food_id?: string | null;
+          created_at?: string | null;
+          custom_food_id?: string | null;
+          fat_g?: number;
+          fiber_g?: number;
+          id?: string;
+          name: string;
+          plan_meal_id: string;
+          position?: number;
+          product_barcode?: string | null;
+          protein_g?: number;
+          quantity: number;
+          recipe_id?: string | null;
+          serving_grams: number;
+          serving_label: string;
+          sodium_mg?: number;
+          sugar_g?: number;
+        };
+        Update: {
+          calories?: number;
+          carbs_g?: number;
+          catalog_food_id?: string | null;
+          created_at?: string | null;
+          custom_food_id?: string | null;
+          fat_g?: number;
+          fiber_g?: number;
+          id?: string;
+          name?: string;
+          plan_meal_id?: string;
+          position?: number;
+          product_barcode?: string | null;
+          protein_g?: number;
+          quantity?: number;
+          recipe_id?: string | null;
+          serving_grams?: number;
+          serving_label?: string;
+          sodium_mg?: number;
+          sugar_g?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'nutrition_plan_meal_foods_custom_food_id_fkey';
+            columns: ['custom_food_id'];
+            isOneToOne: false;
+            referencedRelation: 'custom_foods';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'nutrition_plan_meal_foods_plan_meal_id_fkey';
+            columns: ['plan_meal_id'];
+            isOneToOne: false;
+            referencedRelation: 'nutrition_plan_meals';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'nutrition_plan_meal_foods_product_barcode_fkey';
+            columns: ['product_barcode'];
+            isOneToOne: false;
+            referencedRelation: 'food_products';
+            referencedColumns: ['barcode'];
+          },
+          {
+            foreignKeyName: 'nutrition_plan_meal_foods_recipe_id_fkey';
+            columns: ['recipe_id'];
+            isOneToOne: false;
+            referencedRelation: 'recipes';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      nutrition_plan_meals: {
+        Row: {
+          created_at: string | null;
+          day_of_week: number | null;
+          id: string;
+          meal_type_id: string | null;
+          name: string;
+          notes: string | null;
+          plan_id: string;
+          position: number;
+          target_calories: number | null;
+          target_carbs_g: number | null;
+          target_fat_g: number | null;
+          target_protein_g: number | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          day_of_week?: number | null;
+          id?: string;
+          meal_type_id?: string | null;
+          name: string;
+          notes?: string | null;
+          plan_id: string;
+          position?: number;
+          target_calories?: number | null;
+          target_carbs_g?: number | null;
+          target_fat_g?: number | null;
+          target_protein_g?: number | null;
+        };
+        Update: {
+          created_at?: string | null;
+          day_of_week?: number | null;
+          id?: string;
+          meal_type_id?: string | null;
+          name?: string;
+          notes?: string | null;
+          plan_id?: string;
+          position?: number;
+          target_calories?: number | null;
+          target_carbs_g?: number | null;
+          target_fat_g?: number | null;
+          target_protein_g?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'nutrition_plan_meals_meal_type_id_fkey';
+            columns: ['meal_type_id'];
+            isOneToOne: false;
+            referencedRelation: 'meal_types';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'nutrition_plan_meals_plan_id_fkey';
+            columns: ['plan_id'];
+            isOneToOne: false;
+            referencedRelation: 'nutrition_plans';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      nutrition_plans: {
+        Row: {
+          client_id: string;
+          created_at: string | null;
+          description: string | null;
+          end_date: string | null;
+          id: string;
+          name: string;
+          nutritionist_id: string | null;
+          start_date: string;
+          status: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          client_id: string;
+          created_at?: string | null;
+          description?: string | null;
+          end_date?: string | null;
+          id?: string;
+          name: string;
+          nutritionist_id?: string | null;
+          start_date?: string;
+          status?: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          client_id?: string;
+          created_at?: string | null;
+          description?: string | null;
+          end_date?: string | null;
+          id?: string;
+          name?: string;
+          nutritionist_id?: string | null;
+          start_date?: string;
+          status?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'nutrition_plans_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'nutrition_plans_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'nutrition_plans_nutritionist_id_fkey';
+            columns: ['nutritionist_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'nutrition_plans_nutritionist_id_fkey';
+            columns: ['nutritionist_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      plan_sessions: {
+        Row: {
+          created_at: string | null;
+          day_of_week: string | null;
+          id: string;
+          is_deload: boolean;
+          notes: string | null;
+          plan_id: string | null;
+          scheduled_date: string;
+          scheduled_time: string | null;
+          status: string | null;
+          template_id: string | null;
+          updated_at: string | null;
+          week_number: number | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          day_of_week?: string | null;
+          id?: string;
+          is_deload?: boolean;
+          notes?: string | null;
+          plan_id?: string | null;
+          scheduled_date: string;
+          scheduled_time?: string | null;
+          status?: string | null;
+          template_id?: string | null;
+          updated_at?: string | null;
+          week_number?: number | null;
+        };
+        Update: {
+          created_at?: string | null;
+          day_of_week?: string | null;
+          id?: string;
+          is_deload?: boolean;
+          notes?: string | null;
+          plan_id?: string | null;
+          scheduled_date?: string;
+          scheduled_time?: string | null;
+          status?: string | null;
+          template_id?: string | null;
+          updated_at?: string | null;
+          week_number?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'plan_sessions_plan_id_fkey';
+            columns: ['plan_id'];
+            isOneToOne: false;
+            referencedRelation: 'workout_plans';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'plan_sessions_template_id_fkey';
+            columns: ['template_id'];
+            isOneToOne: false;
+            referencedRelation: 'workout_templates';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      plan_templates: {
+        Row: {
+          created_at: string | null;
+          day_of_week: number | null;
+          id: string;
+          order_index: number | null;
+          plan_id: string | null;
+          scheduled_date: string | null;
+          template_id: string | null;
+          week_number: number | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          day_of_week?: number | null;
+          id?: string;
+          order_index?: number | null;
+          plan_id?: string | null;
+          scheduled_date?: string | null;
+          template_id?: string | null;
+          week_number?: number | null;
+        };
+        Update: {
+          created_at?: string | null;
+          day_of_week?: number | null;
+          id?: string;
+          order_index?: number | null;
+          plan_id?: string | null;
+          scheduled_date?: string | null;
+          template_id?: string | null;
+          week_number?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'plan_templates_plan_id_fkey';
+            columns: ['plan_id'];
+            isOneToOne: false;
+            referencedRelation: 'workout_plans';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'plan_templates_template_id_fkey';
+            columns: ['template_id'];
+            isOneToOne: false;
+            referencedRelation: 'workout_templates';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      profiles: {
+        Row: {
+          account_status: string;
+          activity_level: string | null;
+          avatar_url: string | null;
+          created_at: string | null;
+          date_of_birth: string | null;
+          deactivated_at: string | null;
+          email: string;
+          fitness_goals: string[] | null;
+          full_name: string | null;
+          height_cm: number | null;
+          id: string;
+          invitation_id: string | null;
+          max_clients: number | null;
+          phone: string | null;
+          quiet_hours_end: string | null;
+          quiet_hours_start: string | null;
+          role: string | null;
+          sex: string | null;
+          trial_ends_at: string | null;
+          unit_system: string;
+          updated_at: string | null;
+          user_id: string | null;
+          weight_kg: number | null;
+        };
+        Insert: {
+          account_status?: string;
+          activity_level?: string | null;
+          avatar_url?: string | null;
+          created_at?: string | null;
+          date_of_birth?: string | null;
+          deactivated_at?: string | null;
+          email: string;
+          fitness_goals?: string[] | null;
+          full_name?: string | null;
+          height_cm?: number | null;
+          id?: string;
+          invitation_id?: string | null;
+          max_clients?: number | null;
+          phone?: string | null;
+          quiet_hours_end?: string | null;
+          quiet_hours_start?: string | null;
+          role?: string | null;
+          sex?: string | null;
+          trial_ends_at?: string | null;
+          unit_system?: string;
+          updated_at?: string | null;
+          user_id?: string | null;
+          weight_kg?: number | null;
+        };
+        Update: {
+          account_status?: string;
+          activity_level?: string | null;
+          avatar_url?: string | null;
+          created_at?: string | null;
+          date_of_birth?: string | null;
+          deactivated_at?: string | null;
+          email?: string;
+          fitness_goals?: string[] | null;
+          full_name?: string | null;
+          height_cm?: number | null;
+          id?: string;
+          invitation_id?: string | null;
+          max_clients?: number | null;
+          phone?: string | null;
+          quiet_hours_end?: string | null;
+          quiet_hours_start?: string | null;
+          role?: string | null;
+          sex?: string | null;
+          trial_ends_at?: string | null;
+          unit_system?: string;
+          updated_at?: string | null;
+          user_id?: string | null;
+          weight_kg?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'profiles_invitation_id_fkey';
+            columns: ['invitation_id'];
+            isOneToOne: false;
+            referencedRelation: 'invitations';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      program_enrollments: {
+        Row: {
+          actual_end_date: string | null;
+          client_id: string | null;
+          completion_percentage: number | null;
+          created_at: string | null;
+          current_phase: number | null;
+          current_week: number | null;
+          custom_modifications: Json | null;
+          enrollment_date: string | null;
+          expected_end_date: string | null;
+          id: string;
+          program_id: string | null;
+          start_date: string | null;
+          status: string | null;
+          trainer_id: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          actual_end_date?: string | null;
+          client_id?: string | null;
+          completion_percentage?: number | null;
+          created_at?: string | null;
+          current_phase?: number | null;
+          current_week?: number | null;
+          custom_modifications?: Json | null;
+          enrollment_date?: string | null;
+          expected_end_date?: string | null;
+          id?: string;
+          program_id?: string | null;
+          start_date?: string | null;
+          status?: string | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          actual_end_date?: string | null;
+          client_id?: string | null;
+          completion_percentage?: number | null;
+          created_at?: string | null;
+          current_phase?: number | null;
+          current_week?: number | null;
+          custom_modifications?: Json | null;
+          enrollment_date?: string | null;
+          expected_end_date?: string | null;
+          id?: string;
+          program_id?: string | null;
+          start_date?: string | null;
+          status?: string | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'program_enrollments_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'program_enrollments_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'program_enrollments_program_id_fkey';
+            columns: ['program_id'];
+            isOneToOne: false;
+            referencedRelation: 'training_programs';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'program_enrollments_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'program_enrollments_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      progress_photos: {
+        Row: {
+          body_fat: number | null;
+          created_at: string | null;
+          date: string;
+          id: string;
+          image_url: string;
+          is_favorite: boolean | null;
+          measurements: Json | null;
+          mood: string | null;
+          muscle_percentage: number | null;
+          notes: string | null;
+          pose: string;
+          tags: string[] | null;
+          time: string;
+          updated_at: string | null;
+          user_id: string;
+          weight: number | null;
+        };
+        Insert: {
+          body_fat?: number | null;
+          created_at?: string | null;
+          date?: string;
+          id?: string;
+          image_url: string;
+          is_favorite?: boolean | null;
+          measurements?: Json | null;
+          mood?: string | null;
+          muscle_percentage?: number | null;
+          notes?: string | null;
+          pose?: string;
+          tags?: string[] | null;
+          time?: string;
+          updated_at?: string | null;
+          user_id: string;
+          weight?: number | null;
+        };
+        Update: {
+          body_fat?: number | null;
+          created_at?: string | null;
+          date?: string;
+          id?: string;
+          image_url?: string;
+          is_favorite?: boolean | null;
+          measurements?: Json | null;
+          mood?: string | null;
+          muscle_percentage?: number | null;
+          notes?: string | null;
+          pose?: string;
+          tags?: string[] | null;
+          time?: string;
+          updated_at?: string | null;
+          user_id?: string;
+          weight?: number | null;
+        };
+        Relationships: [];
+      };
+      push_tokens: {
+        Row: {
+          created_at: string | null;
+          id: string;
+          platform: string | null;
+          token: string;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          id?: string;
+          platform?: string | null;
+          token: string;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          id?: string;
+          platform?: string | null;
+          token?: string;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'push_tokens_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'push_tokens_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      recipe_ingredients: {
+        Row: {
+          calories: number;
+          carbs_g: number;
+          catalog_food_id: string | null;
+          created_at: string | null;
+          custom_food_id: string | null;
+          fat_g: number;
+          fiber_g: number;
+          id: string;
+          name: string;
+          position: number;
+          product_barcode: string | null;
+          protein_g: number;
+          quantity: number;
+          recipe_id: string;
+          serving_grams: number;
+          serving_label: string;
+          sodium_mg: number;
+          sugar_g: number;
+        };
+        Insert: {
+          calories?: number;
+          carbs_g?: number;
+          catalog_food_id?: string | null;
+          created_at?: string | null;
+          custom_food_id?: string | null;
+          fat_g?: number;
+          fiber_g?: number;
+          id?: string;
+          name: string;
+          position?: number;
+          product_barcode?: string | null;
+          protein_g?: number;
+          quantity: number;
+          recipe_id: string;
+          serving_grams: number;
+          serving_label: string;
+          sodium_mg?: number;
+          sugar_g?: number;
+        };
+        Update: {
+          calories?: number;
+          carbs_g?: number;
+          catalog_food_id?: string | null;
+          created_at?: string | null;
+          custom_food_id?: string | null;
+          fat_g?: number;
+          fiber_g?: number;
+          id?: string;
+          name?: string;
+          position?: number;
+          product_barcode?: string | null;
+          protein_g?: number;
+          quantity?: number;
+          recipe_id?: string;
+          serving_grams?: number;
+          serving_label?: string;
+          sodium_mg?: number;
+          sugar_g?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'recipe_ingredients_custom_food_id_fkey';
+            columns: ['custom_food_id'];
+            isOneToOne: false;
+            referencedRelation: 'custom_foods';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'recipe_ingredients_product_barcode_fkey';
+            columns: ['product_barcode'];
+            isOneToOne: false;
+            referencedRelation: 'food_products';
+            referencedColumns: ['barcode'];
+          },
+          {
+            foreignKeyName: 'recipe_ingredients_recipe_id_fkey';
+            columns: ['recipe_id'];
+            isOneToOne: false;
+            referencedRelation: 'recipes';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      recipes: {
+        Row: {
+          created_at: string | null;
+          created_by: string;
+          description: string | null;
+          id: string;
+          instructions: string | null;
+          is_published: boolean;
+          name: string;
+          published_at: string | null;
+          servings: number;
+          updated_at: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          created_by: string;
+          description?: string | null;
+          id?: string;
+          instructions?: string | null;
+          is_published?: boolean;
+          name: string;
+          published_at?: string | null;
+          servings?: number;
+          updated_at?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          created_by?: string;
+          description?: string | null;
+          id?: string;
+          instructions?: string | null;
+          is_published?: boolean;
+          name?: string;
+          published_at?: string | null;
+          servings?: number;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'recipes_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'recipes_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      role_capabilities: {
+        Row: {
+          capability: string;
+          role: string;
+        };
+        Insert: {
+          capability: string;
+          role: string;
+        };
+        Update: {
+          capability?: string;
+          role?: string;
+        };
+        Relationships: [];
+      };
+      saved_meal_items: {
+        Row: {
+          calories: number;
+          carbs_g: number;
+          catalog_food_id: string | null;
+          created_at: string | null;
+          custom_food_id: string | null;
+          description: string | null;
+          fat_g: number;
+          fiber_g: number;
+          id: string;
+          position: number;
+          product_barcode: string | null;
+          protein_g: number;
+          quantity: number | null;
+          recipe_id: string | null;
+          saved_meal_id: string;
+          serving_grams: number | null;
+          serving_label: string | null;
+          sodium_mg: number;
+          sugar_g: number;
+          title: string;
+        };
+        Insert: {
+          calories?: number;
+          carbs_g?: number;
+          catalog_food_id?: string | null;
+          created_at?: string | null;
+          custom_food_id?: string | null;
+          description?: string | null;
+          fat_g?: number;
+          fiber_g?: number;
+          id?: string;
+          position?: number;
+          product_barcode?: string | null;
+          protein_g?: number;
+          quantity?: number | null;
+          recipe_id?: string | null;
+          saved_meal_id: string;
+          serving_grams?: number | null;
+          serving_label?: string | null;
+          sodium_mg?: number;
+          sugar_g?: number;
+          title: string;
+        };
+        Update: {
+          calories?: number;
+          carbs_g?: number;
+          catalog_food_id?: string | null;
+          created_at?: string | null;
+          custom_food_id?: string | null;
+          description?: string | null;
+          fat_g?: number;
+          fiber_g?: number;
+          id?: string;
+          position?: number;
+          product_barcode?: string | null;
+          protein_g?: number;
+          quantity?: number | null;
+          recipe_id?: string | null;
+          saved_meal_id?: string;
+          serving_grams?: number | null;
+          serving_label?: string | null;
+          sodium_mg?: number;
+          sugar_g?: number;
+          title?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'saved_meal_items_custom_food_id_fkey';
+            columns: ['custom_food_id'];
+            isOneToOne: false;
+            referencedRelation: 'custom_foods';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'saved_meal_items_product_barcode_fkey';
+            columns: ['product_barcode'];
+            isOneToOne: false;
+            referencedRelation: 'food_products';
+            referencedColumns: ['barcode'];
+          },
+          {
+            foreignKeyName: 'saved_meal_items_recipe_id_fkey';
+            columns: ['recipe_id'];
+            isOneToOne: false;
+            referencedRelation: 'recipes';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'saved_meal_items_saved_meal_id_fkey';
+            columns: ['saved_meal_id'];
+            isOneToOne: false;
+            referencedRelation: 'saved_meals';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      saved_meals: {
+        Row: {
+          created_at: string | null;
+          created_by: string;
+          id: string;
+          meal_type_id: string | null;
+          name: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          created_by: string;
+          id?: string;
+          meal_type_id?: string | null;
+          name: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          created_by?: string;
+          id?: string;
+          meal_type_id?: string | null;
+          name?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'saved_meals_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'saved_meals_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'saved_meals_meal_type_id_fkey';
+            columns: ['meal_type_id'];
+            isOneToOne: false;
+            referencedRelation: 'meal_types';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      session_attendance: {
+        Row: {
+          actual_end_time: string | null;
+          actual_start_time: string | null;
+          attendance_status: string | null;
+          cancellation_reason: string | null;
+          cancellation_time: string | null;
+          client_id: string | null;
+          created_at: string | null;
+          early_departure_minutes: number | null;
+          id: string;
+          late_arrival_minutes: number | null;
+          makeup_session_scheduled: boolean | null;
+          rescheduled_to: string | null;
+          scheduled_time: string;
+          session_id: string | null;
+          trainer_id: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          actual_end_time?: string | null;
+          actual_start_time?: string | null;
+          attendance_status?: string | null;
+          cancellation_reason?: string | null;
+          cancellation_time?: string | null;
+          client_id?: string | null;
+          created_at?: string | null;
+          early_departure_minutes?: number | null;
+          id?: string;
+          late_arrival_minutes?: number | null;
+          makeup_session_scheduled?: boolean | null;
+          rescheduled_to?: string | null;
+          scheduled_time: string;
+          session_id?: string | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          actual_end_time?: string | null;
+          actual_start_time?: string | null;
+          attendance_status?: string | null;
+          cancellation_reason?: string | null;
+          cancellation_time?: string | null;
+          client_id?: string | null;
+          created_at?: string | null;
+          early_departure_minutes?: number | null;
+          id?: string;
+          late_arrival_minutes?: number | null;
+          makeup_session_scheduled?: boolean | null;
+          rescheduled_to?: string | null;
+          scheduled_time?: string;
+          session_id?: string | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'session_attendance_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'session_attendance_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'session_attendance_session_id_fkey';
+            columns: ['session_id'];
+            isOneToOne: false;
+            referencedRelation: 'training_sessions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'session_attendance_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'session_attendance_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      session_feedback: {
+        Row: {
+          achievements: string[] | null;
+          areas_of_improvement: string[] | null;
+          client_energy_level: number | null;
+          client_feedback: string | null;
+          client_id: string | null;
+          client_motivation_level: number | null;
+          created_at: string | null;
+          homework_assigned: string | null;
+          id: string;
+          next_session_focus: string[] | null;
+          session_id: string | null;
+          session_rating: number | null;
+          trainer_id: string | null;
+          trainer_notes: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          achievements?: string[] | null;
+          areas_of_improvement?: string[] | null;
+          client_energy_level?: number | null;
+          client_feedback?: string | null;
+          client_id?: string | null;
+          client_motivation_level?: number | null;
+          created_at?: string | null;
+          homework_assigned?: string | null;
+          id?: string;
+          next_session_focus?: string[] | null;
+          session_id?: string | null;
+          session_rating?: number | null;
+          trainer_id?: string | null;
+          trainer_notes?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          achievements?: string[] | null;
+          areas_of_improvement?: string[] | null;
+          client_energy_level?: number | null;
+          client_feedback?: string | null;
+          client_id?: string | null;
+          client_motivation_level?: number | null;
+          created_at?: string | null;
+          homework_assigned?: string | null;
+          id?: string;
+          next_session_focus?: string[] | null;
+          session_id?: string | null;
+          session_rating?: number | null;
+          trainer_id?: string | null;
+          trainer_notes?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'session_feedback_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'session_feedback_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'session_feedback_session_id_fkey';
+            columns: ['session_id'];
+            isOneToOne: false;
+            referencedRelation: 'training_sessions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'session_feedback_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'session_feedback_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      session_notifications: {
+        Row: {
+          client_id: string | null;
+          created_at: string | null;
+          id: string;
+          message: string;
+          notification_type: string;
+          read: boolean | null;
+          scheduled_for: string | null;
+          sent_at: string | null;
+          session_id: string | null;
+          title: string;
+          trainer_id: string | null;
+        };
+        Insert: {
+          client_id?: string | null;
+          created_at?: string | null;
+          id?: string;
+          message: string;
+          notification_type: string;
+          read?: boolean | null;
+          scheduled_for?: string | null;
+          sent_at?: string | null;
+          session_id?: string | null;
+          title: string;
+          trainer_id?: string | null;
+        };
+        Update: {
+          client_id?: string | null;
+          created_at?: string | null;
+          id?: string;
+          message?: string;
+          notification_type?: string;
+          read?: boolean | null;
+          scheduled_for?: string | null;
+          sent_at?: string | null;
+          session_id?: string | null;
+          title?: string;
+          trainer_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'session_notifications_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'session_notifications_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'session_notifications_session_id_fkey';
+            columns: ['session_id'];
+            isOneToOne: false;
+            referencedRelation: 'training_sessions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'session_notifications_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'session_notifications_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      step_samples: {
+        Row: {
+          created_at: string | null;
+          hour_start: string;
+          id: string;
+          source: string;
+          steps: number;
+          updated_at: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          hour_start: string;
+          id?: string;
+          source: string;
+          steps?: number;
+          updated_at?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          hour_start?: string;
+          id?: string;
+          source?: string;
+          steps?: number;
+          updated_at?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'step_samples_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'step_samples_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      template_exercises: {
+        Row: {
+          created_at: string | null;
+          exercise_id: string | null;
+          id: string;
+          notes: string | null;
+          order_index: number;
+          sets_config: Json | null;
+          template_id: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          exercise_id?: string | null;
+          id?: string;
+          notes?: string | null;
+          order_index?: number;
+          sets_config?: Json | null;
+          template_id?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          exercise_id?: string | null;
+          id?: string;
+          notes?: string | null;
+          order_index?: number;
+          sets_config?: Json | null;
+          template_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'template_exercises_exercise_id_fkey';
+            columns: ['exercise_id'];
+            isOneToOne: false;
+            referencedRelation: 'exercises';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'template_exercises_template_id_fkey';
+            columns: ['template_id'];
+            isOneToOne: false;
+            referencedRelation: 'workout_templates';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      trainer_certifications: {
+        Row: {
+          certification_level: string | null;
+          certification_name: string;
+          certification_number: string | null;
+          created_at: string | null;
+          expiry_date: string | null;
+          id: string;
+          issue_date: string | null;
+          issuing_organization: string;
+          specialization: string[] | null;
+          status: string | null;
+          trainer_id: string | null;
+          updated_at: string | null;
+          verification_url: string | null;
+        };
+        Insert: {
+          certification_level?: string | null;
+          certification_name: string;
+          certification_number?: string | null;
+          created_at?: string | null;
+          expiry_date?: string | null;
+          id?: string;
+          issue_date?: string | null;
+          issuing_organization: string;
+          specialization?: string[] | null;
+          status?: string | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+          verification_url?: string | null;
+        };
+        Update: {
+          certification_level?: string | null;
+          certification_name?: string;
+          certification_number?: string | null;
+          created_at?: string | null;
+          expiry_date?: string | null;
+          id?: string;
+          issue_date?: string | null;
+          issuing_organization?: string;
+          specialization?: string[] | null;
+          status?: string | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+          verification_url?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'trainer_certifications_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'trainer_certifications_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      training_programs: {
+        Row: {
+          created_at: string | null;
+          created_by: string | null;
+          description: string | null;
+          difficulty_level: string | null;
+          duration_weeks: number;
+          equipment_required: string[] | null;
+          id: string;
+          is_public: boolean | null;
+          is_template: boolean | null;
+          name: string;
+          prerequisites: string[] | null;
+          price: number | null;
+          program_phases: Json | null;
+          program_type: string;
+          success_metrics: string[] | null;
+          target_audience: string[] | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          created_by?: string | null;
+          description?: string | null;
+          difficulty_level?: string | null;
+          duration_weeks: number;
+          equipment_required?: string[] | null;
+          id?: string;
+          is_public?: boolean | null;
+          is_template?: boolean | null;
+          name: string;
+          prerequisites?: string[] | null;
+          price?: number | null;
+          program_phases?: Json | null;
+          program_type: string;
+          success_metrics?: string[] | null;
+          target_audience?: string[] | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          created_by?: string | null;
+          description?: string | null;
+          difficulty_level?: string | null;
+          duration_weeks?: number;
+          equipment_required?: string[] | null;
+          id?: string;
+          is_public?: boolean | null;
+          is_template?: boolean | null;
+          name?: string;
+          prerequisites?: string[] | null;
+          price?: number | null;
+          program_phases?: Json | null;
+          program_type?: string;
+          success_metrics?: string[] | null;
+          target_audience?: string[] | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'training_programs_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'training_programs_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      training_sessions: {
+        Row: {
+          client_id: string | null;
+          completed_at: string | null;
+          completion_data: Json | null;
+          created_at: string | null;
+          duration_minutes: number | null;
+          equipment_needed: string[] | null;
+          id: string;
+          location: string | null;
+          notes: string | null;
+          plan_id: string | null;
+          preparation_notes: string | null;
+          recurring_session_id: string | null;
+          scheduled_date: string;
+          scheduled_time: string;
+          session_data: Json | null;
+          session_fee: number | null;
+          session_focus: string[] | null;
+          session_price: number | null;
+          session_rating: number | null;
+          status: string | null;
+          template_id: string | null;
+          trainer_id: string | null;
+          trainer_notes: string | null;
+          type: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          client_id?: string | null;
+          completed_at?: string | null;
+          completion_data?: Json | null;
+          created_at?: string | null;
+          duration_minutes?: number | null;
+          equipment_needed?: string[] | null;
+          id?: string;
+          location?: string | null;
+          notes?: string | null;
+          plan_id?: string | null;
+          preparation_notes?: string | null;
+          recurring_session_id?: string | null;
+          scheduled_date: string;
+          scheduled_time: string;
+          session_data?: Json | null;
+          session_fee?: number | null;
+          session_focus?: string[] | null;
+          session_price?: number | null;
+          session_rating?: number | null;
+          status?: string | null;
+          template_id?: string | null;
+          trainer_id?: string | null;
+          trainer_notes?: string | null;
+          type?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          client_id?: string | null;
+          completed_at?: string | null;
+          completion_data?: Json | null;
+          created_at?: string | null;
+          duration_minutes?: number | null;
+          equipment_needed?: string[] | null;
+          id?: string;
+          location?: string | null;
+          notes?: string | null;
+          plan_id?: string | null;
+          preparation_notes?: string | null;
+          recurring_session_id?: string | null;
+          scheduled_date?: string;
+          scheduled_time?: string;
+          session_data?: Json | null;
+          session_fee?: number | null;
+          session_focus?: string[] | null;
+          session_price?: number | null;
+          session_rating?: number | null;
+          status?: string | null;
+          template_id?: string | null;
+          trainer_id?: string | null;
+          trainer_notes?: string | null;
+          type?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'training_sessions_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'training_sessions_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'training_sessions_plan_id_fkey';
+            columns: ['plan_id'];
+            isOneToOne: false;
+            referencedRelation: 'workout_plans';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'training_sessions_template_id_fkey';
+            columns: ['template_id'];
+            isOneToOne: false;
+            referencedRelation: 'workout_templates';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'training_sessions_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'training_sessions_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      workout_logs: {
+        Row: {
+          completed: boolean | null;
+          created_at: string | null;
+          exercise_id: string | null;
+          form_rating: number | null;
+          id: string;
+          notes: string | null;
+          order_index: number;
+          rest_time_seconds: number | null;
+          session_id: string | null;
+          sets_performed: NonNullable<Json>;
+          total_reps: number | null;
+          total_time_seconds: number | null;
+          total_volume_kg: number | null;
+        };
+        Insert: {
+          completed?: boolean | null;
+          created_at?: string | null;
+          exercise_id?: string | null;
+          form_rating?: number | null;
+          id?: string;
+          notes?: string | null;
+          order_index: number;
+          rest_time_seconds?: number | null;
+          session_id?: string | null;
+          sets_performed?: NonNullable<Json>;
+          total_reps?: number | null;
+          total_time_seconds?: number | null;
+          total_volume_kg?: number | null;
+        };
+        Update: {
+          completed?: boolean | null;
+          created_at?: string | null;
+          exercise_id?: string | null;
+          form_rating?: number | null;
+          id?: string;
+          notes?: string | null;
+          order_index?: number;
+          rest_time_seconds?: number | null;
+          session_id?: string | null;
+          sets_performed?: NonNullable<Json>;
+          total_reps?: number | null;
+          total_time_seconds?: number | null;
+          total_volume_kg?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'workout_logs_exercise_id_fkey';
+            columns: ['exercise_id'];
+            isOneToOne: false;
+            referencedRelation: 'exercises';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'workout_logs_session_id_fkey';
+            columns: ['session_id'];
+            isOneToOne: false;
+            referencedRelation: 'workout_sessions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      workout_plans: {
+        Row: {
+          client_id: string | null;
+          created_at: string | null;
+          description: string | null;
+          end_date: string;
+          id: string;
+          name: string;
+          progression_config: Json | null;
+          progression_rule: string | null;
+          schedule_data: Json | null;
+          schedule_type: string | null;
+          start_date: string;
+          status: string | null;
+          trainer_id: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          client_id?: string | null;
+          created_at?: string | null;
+          description?: string | null;
+          end_date: string;
+          id?: string;
+          name: string;
+          progression_config?: Json | null;
+          progression_rule?: string | null;
+          schedule_data?: Json | null;
+          schedule_type?: string | null;
+          start_date: string;
+          status?: string | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          client_id?: string | null;
+          created_at?: string | null;
+          description?: string | null;
+          end_date?: string;
+          id?: string;
+          name?: string;
+          progression_config?: Json | null;
+          progression_rule?: string | null;
+          schedule_data?: Json | null;
+          schedule_type?: string | null;
+          start_date?: string;
+          status?: string | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'workout_plans_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'workout_plans_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'workout_plans_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'workout_plans_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      workout_sessions: {
+        Row: {
+          client_id: string | null;
+          completed: boolean | null;
+          created_at: string | null;
+          date: string | null;
+          difficulty_rating: number | null;
+          duration_minutes: number | null;
+          end_time: string | null;
+          energy_level: number | null;
+          exercises: Json | null;
+          id: string;
+          location: string | null;
+          notes: string | null;
+          plan_id: string | null;
+          session_type: string | null;
+          start_time: string | null;
+          template_id: string | null;
+          trainer_id: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          client_id?: string | null;
+          completed?: boolean | null;
+          created_at?: string | null;
+          date?: string | null;
+          difficulty_rating?: number | null;
+          duration_minutes?: number | null;
+          end_time?: string | null;
+          energy_level?: number | null;
+          exercises?: Json | null;
+          id?: string;
+          location?: string | null;
+          notes?: string | null;
+          plan_id?: string | null;
+          session_type?: string | null;
+          start_time?: string | null;
+          template_id?: string | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          client_id?: string | null;
+          completed?: boolean | null;
+          created_at?: string | null;
+          date?: string | null;
+          difficulty_rating?: number | null;
+          duration_minutes?: number | null;
+          end_time?: string | null;
+          energy_level?: number | null;
+          exercises?: Json | null;
+          id?: string;
+          location?: string | null;
+          notes?: string | null;
+          plan_id?: string | null;
+          session_type?: string | null;
+          start_time?: string | null;
+          template_id?: string | null;
+          trainer_id?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'workout_sessions_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'workout_sessions_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'workout_sessions_plan_id_fkey';
+            columns: ['plan_id'];
+            isOneToOne: false;
+            referencedRelation: 'workout_plans';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'workout_sessions_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'workout_sessions_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      workout_templates: {
+        Row: {
+          category: string;
+          created_at: string | null;
+          created_by: string | null;
+          description: string | null;
+          estimated_duration_minutes: number | null;
+          id: string;
+          is_public: boolean | null;
+          name: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          category: string;
+          created_at?: string | null;
+          created_by?: string | null;
+          description?: string | null;
+          estimated_duration_minutes?: number | null;
+          id?: string;
+          is_public?: boolean | null;
+          name: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          category?: string;
+          created_at?: string | null;
+          created_by?: string | null;
+          description?: string | null;
+          estimated_duration_minutes?: number | null;
+          id?: string;
+          is_public?: boolean | null;
+          name?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'workout_templates_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'workout_templates_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      client_progress_summary: {
+        Row: {
+          client_id: string | null;
+          client_name: string | null;
+          current_weight: number | null;
+          last_update: string | null;
+          starting_weight: number | null;
+          total_entries: number | null;
+          trainer_id: string | null;
+          trainer_name: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'client_progress_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_progress_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+          {
+            foreignKeyName: 'client_progress_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'client_progress_trainer_id_fkey';
+            columns: ['trainer_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+      trainer_dashboard_view: {
+        Row: {
+          active_plans: number | null;
+          completed_today: number | null;
+          todays_sessions: number | null;
+          total_clients: number | null;
+          trainer_id: string | null;
+          trainer_name: string | null;
+        };
+        Relationships: [];
+      };
+      workout_set_entries: {
+        Row: {
+          client_id: string | null;
+          estimated_1rm_kg: number | null;
+          exercise_id: string | null;
+          log_id: string | null;
+          order_index: number | null;
+          performed_on: string | null;
+          reps: number | null;
+          session_id: string | null;
+          set_index: number | null;
+          weight_kg: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'workout_logs_exercise_id_fkey';
+            columns: ['exercise_id'];
+            isOneToOne: false;
+            referencedRelation: 'exercises';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'workout_logs_session_id_fkey';
+            columns: ['session_id'];
+            isOneToOne: false;
+            referencedRelation: 'workout_sessions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'workout_sessions_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'workout_sessions_client_id_fkey';
+            columns: ['client_id'];
+            isOneToOne: false;
+            referencedRelation: 'trainer_dashboard_view';
+            referencedColumns: ['trainer_id'];
+          },
+        ];
+      };
+    };
+    Functions: {
+      assign_coach: {
+        Args: {
+          assignment_reason?: string;
+          coach_role: string;
+          target_client_id: string;
+          target_coach_id: string;
+        };
+        Returns: string;
+      };
+      calculate_client_progress_stats: {
+        Args: { client_uuid: string };
+        Returns: {
+          avg_session_duration: number;
+          completed_sessions: number;
+          completion_rate: number;
+          total_sessions: number;
+          total_training_time_hours: number;
+        }[];
+      };
+      cancel_invitation: {
+        Args: { target_invitation_id: string };
+        Returns: undefined;
+      };
+      claim_push_deliveries: {
+        Args: { max_count?: number };
+        Returns: {
+          data: Json;
+          message: string;
+          notification_id: string;
+          title: string;
+          tokens: string[];
+          type: string;
+        }[];
+      };
+      coach_active_client_count: {
+        Args: { excluding_assignment?: string; target_coach_id: string };
+        Returns: number;
+      };
+      complete_enhanced_training_session: {
+        Args: {
+          session_fee_param?: number;
+          session_id: string;
+          session_rating_param?: number;
+          trainer_notes_param?: string;
+        };
+        Returns: boolean;
+      };
+      complete_push_delivery: {
+        Args: {
+          delivered: boolean;
+          invalid_tokens?: string[];
+          target_notification_id: string;
+        };
+        Returns: undefined;
+      };
+      create_invitation: {
+        Args: {
+          expires_in_days?: number;
+          invite_email: string;
+          invite_message?: string;
+          invite_role: string;
+          invite_trial_days?: number;
+        };
+        Returns: {
+          expires_at: string;
+          invitation_id: string;
+          token: string;
+        }[];
+      };
+      current_profile_id: { Args: Record<PropertyKey, never>; Returns: string };
+      current_user_role: { Args: Record<PropertyKey, never>; Returns: string };
+      end_coach_assignment: {
+        Args: {
+          assignment_reason?: string;
+          coach_role: string;
+          target_client_id: string;
+        };
+        Returns: undefined;
+      };
+      estimate_one_rep_max: {
+        Args: { reps: number; weight: number };
+        Returns: number;
+      };
+      expire_invitations: { Args: Record<PropertyKey, never>; Returns: number };
+      get_client_workout_history: {
+        Args: { client_uuid: string; limit_count?: number };
+        Returns: {
+          completed: boolean;
+          duration_minutes: number;
+          exercises_count: number;
+          session_date: string;
+          session_id: string;
+          template_name: string;
+        }[];
+      };
+      get_enhanced_active_clients: {
+        Args: { trainer_profile_id: string };
+        Returns: {
+          activity_status: string;
+          avatar_url: string;
+          avg_rating: number;
+          client_name: string;
+          completed_sessions: number;
+          compliance_rate: number;
+          created_at: string;
+          email: string;
+          fitness_goals: string[];
+          full_name: string;
+          id: string;
+          last_session_date: string;
+          next_session_date: string;
+          progress_score: number;
+          total_sessions: number;
+        }[];
+      };
+      get_enhanced_today_sessions: {
+        Args: { trainer_profile_id: string };
+        Returns: {
+          client: Json;
+          client_id: string;
+          completed_at: string;
+          created_at: string;
+          duration_minutes: number;
+          id: string;
+          location: string;
+          notes: string;
+          scheduled_date: string;
+          scheduled_time: string;
+          session_fee: number;
+          session_rating: number;
+          status: string;
+          trainer_notes: string;
+          type: string;
+        }[];
+      };
+      get_enhanced_trainer_stats: {
+        Args: { trainer_profile_id: string };
+        Returns: {
+          active_clients: number;
+          avg_session_rating: number;
+          client_retention_rate: number;
+          completed_today: number;
+          monthly_sessions: number;
+          pending_today: number;
+          today_sessions: number;
+          total_clients: number;
+          total_revenue: number;
+          trainer_id: string;
+          trainer_name: string;
+          weekly_sessions: number;
+        }[];
+      };
+      get_enhanced_upcoming_sessions: {
+        Args: { days_ahead?: number; trainer_profile_id: string };
+        Returns: {
+          client: Json;
+          client_id: string;
+          created_at: string;
+          duration_minutes: number;
+          id: string;
+          location: string;
+          notes: string;
+          scheduled_date: string;
+          scheduled_time: string;
+          status: string;
+          type: string;
+        }[];
+      };
+      get_exercise_history: {
+        Args: {
+          client_uuid: string;
+          exercise_uuid: string;
+          limit_count?: number;
+        };
+        Returns: {
+          best_estimated_1rm_kg: number;
+          performed_on: string;
+          session_id: string;
+          sets_count: number;
+          top_set_weight_kg: number;
+          total_reps: number;
+          total_volume_kg: number;
+        }[];
+      };
+      get_one_rep_max_trend: {
+        Args: {
+          client_uuid: string;
+          exercise_uuid: string;
+          since_date?: string;
+        };
+        Returns: {
+          estimated_1rm_kg: number;
+          performed_on: string;
+        }[];
+      };
+      get_personal_records: {
+        Args: { client_uuid: string; exercise_uuid?: string };
+        Returns: {
+          best_estimated_1rm_kg: number;
+          best_estimated_1rm_on: string;
+          best_session_volume_kg: number;
+          best_session_volume_on: string;
+          exercise_id: string;
+          exercise_name: string;
+          max_reps: number;
+          max_reps_on: string;
+          max_weight_kg: number;
+          max_weight_on: string;
+          max_weight_reps: number;
+        }[];
+      };
+      get_trainer_clients: {
+        Args: { trainer_uuid: string };
+        Returns: {
+          assignment_date: string;
+          client_email: string;
+          client_id: string;
+          client_name: string;
+          status: string;
+        }[];
+      };
+      has_capability: { Args: { required: string }; Returns: boolean };
+      hash_invitation_token: { Args: { raw_token: string }; Returns: string };
+      invitation_issuer_id: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      is_assigned_client: {
+        Args: { target_client_id: string };
+        Returns: boolean;
+      };
+      is_assigned_coach: {
+        Args: { target_coach_id: string };
+        Returns: boolean;
+      };
+      is_assigned_nutritionist: {
+        Args: { target_client_id: string };
+        Returns: boolean;
+      };
+      is_assigned_trainer: {
+        Args: { target_client_id: string };
+        Returns: boolean;
+      };
+      mark_messages_read: {
+        Args: { target_conversation_id: string };
+        Returns: number;
+      };
+      move_plan_sessions: { Args: { moves: Json }; Returns: number };
+      notify_profile: {
+        Args: {
+          actor?: string;
+          notification_data?: Json;
+          notification_message: string;
+          notification_title: string;
+          notification_type: string;
+          recipient_id: string;
+        };
+        Returns: string;
+      };
+      reassign_coach_clients: {
+        Args: {
+          assignment_reason?: string;
+          from_coach_id: string;
+          to_coach_id?: string;
+        };
+        Returns: number;
+      };
+      record_coach_change: {
+        Args: {
+          new_coach: string;
+          old_coach: string;
+          role_name: string;
+          target_assignment_id: string;
+          target_client_id: string;
+        };
+        Returns: undefined;
+      };
+      record_password_reset: {
+        Args: { target_profile_id: string };
+        Returns: undefined;
+      };
+      redeem_invitation: {
+        Args: { invitee_full_name: string; raw_token: string };
+        Returns: {
+          account_status: string;
+          activity_level: string | null;
+          avatar_url: string | null;
+          created_at: string | null;
+          date_of_birth: string | null;
+          deactivated_at: string | null;
+          email: string;
+          fitness_goals: string[] | null;
+          full_name: string | null;
+          height_cm: number | null;
+          id: string;
+          invitation_id: string | null;
+          max_clients: number | null;
+          phone: string | null;
+          quiet_hours_end: string | null;
+          quiet_hours_start: string | null;
+          role: string | null;
+          sex: string | null;
+          trial_ends_at: string | null;
+          unit_system: string;
+          updated_at: string | null;
+          user_id: string | null;
+          weight_kg: number | null;
+        }[];
+        SetofOptions: {
+          from: '*';
+          to: 'profiles';
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      request_push_dispatch: {
+        Args: Record<PropertyKey, never>;
+        Returns: undefined;
+      };
+      resend_invitation: {
+        Args: { expires_in_days?: number; target_invitation_id: string };
+        Returns: {
+          expires_at: string;
+          invitation_id: string;
+          token: string;
+        }[];
+      };
+      review_food_entry: {
+        Args: { comment?: string; entry_id: string; estimate: Json };
+        Returns: {
+          calories: number | null;
+          carbs_g: number | null;
+          catalog_food_id: string | null;
+          created_at: string | null;
+          custom_food_id: string | null;
+          date: string | null;
+          description: string | null;
+          fat_g: number | null;
+          fiber_g: number | null;
+          id: string;
+          meal_type_id: string | null;
+          micronutrients: Json | null;
+          notes: string | null;
+          product_barcode: string | null;
+          protein_g: number | null;
+          quantity: number | null;
+          recipe_id: string | null;
+          review_comment: string | null;
+          review_status: string | null;
+          reviewed_at: string | null;
+          reviewed_by: string | null;
+          serving_grams: number | null;
+          serving_label: string | null;
+          sodium_mg: number | null;
+          sugar_g: number | null;
+          time: string | null;
+          title: string;
+          updated_at: string | null;
+          user_id: string | null;
+        };
+        SetofOptions: {
+          from: '*';
+          to: 'food_entries';
+          isOneToOne: true;
+          isSetofReturn: false;
+        };
+      };
+      save_meal: {
+        Args: { items: Json; meal: Json };
+        Returns: {
+          created_at: string | null;
+          created_by: string;
+          id: string;
+          meal_type_id: string | null;
+          name: string;
+          updated_at: string | null;
+        };
+        SetofOptions: {
+          from: '*';
+          to: 'saved_meals';
+          isOneToOne: true;
+          isSetofReturn: false;
+        };
+      };
+      save_nutrition_plan: {
+        Args: { meals: Json; plan: Json; target_plan_id?: string };
+        Returns: {
+          client_id: string;
+          created_at: string | null;
+          description: string | null;
+          end_date: string | null;
+          id: string;
+          name: string;
+          nutritionist_id: string | null;
+          start_date: string;
+          status: string;
+          updated_at: string | null;
+        };
+        SetofOptions: {
+          from: '*';
+          to: 'nutrition_plans';
+          isOneToOne: true;
+          isSetofReturn: false;
+        };
+      };
+      save_recipe: {
+        Args: { ingredients: Json; recipe: Json; target_recipe_id?: string };
+        Returns: {
+          created_at: string | null;
+          created_by: string;
+          description: string | null;
+          id: string;
+          instructions: string | null;
+          is_published: boolean;
+          name: string;
+          published_at: string | null;
+          servings: number;
+          updated_at: string | null;
+        };
+        SetofOptions: {
+          from: '*';
+          to: 'recipes';
+          isOneToOne: true;
+          isSetofReturn: false;
+        };
+      };
+      save_workout_logs: {
+        Args: { logs: Json; target_session_id: string };
+        Returns: number;
+      };
+      save_workout_plan: {
+        Args: { plan: Json; sessions: Json; target_plan_id?: string };
+        Returns: {
+          client_id: string | null;
+          created_at: string | null;
+          description: string | null;
+          end_date: string;
+          id: string;
+          name: string;
+          progression_config: Json | null;
+          progression_rule: string | null;
+          schedule_data: Json | null;
+          schedule_type: string | null;
+          start_date: string;
+          status: string | null;
+          trainer_id: string | null;
+          updated_at: string | null;
+        };
+        SetofOptions: {
+          from: '*';
+          to: 'workout_plans';
+          isOneToOne: true;
+          isSetofReturn: false;
+        };
+      };
+      set_coach_capacity: {
+        Args: { new_max_clients: number; target_coach_id: string };
+        Returns: undefined;
+      };
+      update_trainer_dashboard_stats: {
+        Args: Record<PropertyKey, never>;
+        Returns: undefined;
+      };
+      validate_invitation: {
+        Args: { raw_token: string };
+        Returns: {
+          email: string;
+          expires_at: string;
+          invitation_id: string;
+          role: string;
+          status: string;
+          trial_days: number;
+        }[];
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type DatabaseWithoutInternals = Omit<Database, '__InternalSupabase'>;
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<
+  keyof Database,
+  'public'
+>];
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema['Tables'] & DefaultSchema['Views'])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends (DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Views'])
+    : never) = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Views'])[TableName] extends {
+      Row: infer R;
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema['Tables'] &
+        DefaultSchema['Views'])
+    ? (DefaultSchema['Tables'] &
+        DefaultSchema['Views'])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R;
+      }
+      ? R
+      : never
+    : never;
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    keyof DefaultSchema['Tables'] | { schema: keyof DatabaseWithoutInternals },
+  TableName extends (DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables']
+    : never) = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
+      Insert: infer I;
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I;
+      }
+      ? I
+      : never
+    : never;
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    keyof DefaultSchema['Tables'] | { schema: keyof DatabaseWithoutInternals },
+  TableName extends (DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables']
+    : never) = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
+      Update: infer U;
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U;
+      }
+      ? U
+      : never
+    : never;
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    keyof DefaultSchema['Enums'] | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends (DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions['schema']]['Enums']
+    : never) = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions['schema']]['Enums'][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema['Enums']
+    ? DefaultSchema['Enums'][DefaultSchemaEnumNameOrOptions]
+    : never;
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema['CompositeTypes']
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends (PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions['schema']]['CompositeTypes']
+    : never) = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions['schema']]['CompositeTypes'][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema['CompositeTypes']
+    ? DefaultSchema['CompositeTypes'][PublicCompositeTypeNameOrOptions]
+    : never;
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const;
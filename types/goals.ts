@@ -0,0 +1,36 @@
+import { MetricType } from './metrics';
+
+export type GoalSourceType =
+  | 'manual' // progress is entered by hand
+  | 'metric' // a body metric from client_measurements, e.g. weight
+  | 'workout_count' // completed workouts since the goal was set
+  | 'workout_volume' // kg lifted across those workouts
+  | 'steps' // steps walked since the goal was set
+  | 'nutrition_streak'; // consecutive days on calorie target
+
+// The columns goals and client_goals share for evaluation
+export interface GoalSourceFields {
+  source_type: GoalSourceType;
+  source_metric?: MetricType | null;
+  start_value?: number | null;
+  target_value?: number | null;
+  current_value?: number | null;
+  completed_at?: string | null;
+  last_evaluated_at?: string | null;
+}
+
+export interface GoalPoint {
+  date: string; // YYYY-MM-DD, local
+  value: number;
+}
+
+export interface GoalEvaluation {
+  currentValue: number | null;
+  startValue: number | null;
+  progress: number; // 0-100
+  completed: boolean;
+  series: GoalPoint[]; // source value per day since the goal was set, oldest first
+  ratePerDay: number | null; // recent trend in source units
+  projectedCompletion: string | null; // YYYY-MM-DD at the current trend, null when not closing in
+  onTrack: boolean | null; // projection lands on or before the target date
+}
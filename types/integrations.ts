@@ -0,0 +1,40 @@
+// Metrics a provider can feed us. Body metrics land in the metrics store,
+// activity totals in step_samples and daily_stats.
+export type HealthMetricType =
+  | 'weight' // kg
+  | 'body_fat' // %
+  | 'heart_rate' // bpm
+  | 'steps'
+  | 'active_calories' // kcal
+  | 'sleep_hours'
+  | 'water_intake'; // L
+
+export interface HealthSample {
+  type: HealthMetricType;
+  value: number;
+  startDate: Date;
+  endDate: Date; // equal to startDate for point readings like weight
+}
+
+export type IntegrationStatus = 'connected' | 'disconnected' | 'error';
+
+export interface HealthIntegration {
+  id: string;
+  user_id: string;
+  provider: string;
+  status: IntegrationStatus;
+  credentials?: Record<string, any> | null;
+  sync_cursor?: string | null;
+  last_synced_at?: string | null;
+  last_error?: string | null;
+  connected_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ImportSummary {
+  metrics: number; // entries added to the metrics store
+  stepHours: number; // hourly step samples written
+  activityDays: number; // daily_stats rows updated
+  skipped: number; // samples already imported or of an unsupported type
+}
@@ -17,17 +17,51 @@ export interface Metric {
   entries: MetricEntry[];
 }
 
-export type MetricType = 
+// Ids from the metric registry (lib/metricRegistry.ts)
+export type MetricType =
   | 'weight'
+  | 'body_fat'
+  | 'muscle_mass'
   | 'chest'
   | 'shoulders'
   | 'waist'
-  | 'thigh'
-  | 'hip'
-  | 'bodyFat'
-  | 'bicep'
-  | 'waterIntake'
-  | 'steps';
+  | 'hips'
+  | 'biceps'
+  | 'thighs'
+  | 'height'
+  | 'blood_pressure'
+  | 'heart_rate'
+  | 'steps'
+  | 'sleep_hours'
+  | 'water_intake';
+
+// What a metric measures; decides which units it can be entered and shown in
+export type MetricUnitSystem =
+  | 'mass'
+  | 'length'
+  | 'percent'
+  | 'pressure'
+  | 'heart_rate'
+  | 'count'
+  | 'duration'
+  | 'volume';
+
+// How several entries in one period combine: a body measurement keeps the
+// latest reading, steps and water add up, heart rate averages
+export type MetricAggregation = 'last' | 'sum' | 'avg';
+
+export interface MetricDefinition {
+  id: MetricType;
+  name: string;
+  icon: string;
+  color: string;
+  unitSystem: MetricUnitSystem;
+  unit: string; // canonical unit values are stored in
+  min: number;
+  max: number;
+  decimals: number;
+  aggregation: MetricAggregation;
+}
 
 export type TimeRange = '1W' | '1M' | '2M' | '1Y';
 
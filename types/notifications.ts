@@ -0,0 +1,31 @@
+export type NotificationType =
+  | 'workout'
+  | 'goal'
+  | 'assignment' // a trainer or nutritionist was matched with a client
+  | 'system'
+  | 'reminder'
+  | 'plan' // a workout plan was assigned
+  | 'message'
+  | 'session' // a training session was scheduled, moved, cancelled or completed
+  | 'nutrition'; // a coach published a recipe
+
+export type NotificationChannel = 'in_app' | 'push';
+
+export type PushStatus = 'none' | 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  title: string;
+  message: string;
+  type: NotificationType;
+  read: boolean;
+  data: Record<string, any>;
+  actor_id?: string | null;
+  in_inbox: boolean;
+  push_status: PushStatus;
+  pushed_at?: string | null;
+  created_at: string;
+}
+
+export type NotificationPreferences = Record<NotificationType, Record<NotificationChannel, boolean>>;
@@ -0,0 +1,17 @@
+// Inputs of the nutrition target calculator (see lib/nutritionTargets)
+export type Sex = 'female' | 'male';
+
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+
+export type WeightGoalType = 'cut' | 'maintain' | 'bulk';
+
+export type MacroStrategy = 'balanced' | 'high_protein' | 'low_carb' | 'low_fat';
+
+// Whether targets were typed in or calculated from body metrics
+export type TargetSource = 'manual' | 'calculated';
+
+// Where a meal logged with just a photo is in its nutritionist review
+export type MealReviewStatus = 'pending' | 'approved';
+
+// Daily targets that are upper limits and can warn when a day goes over
+export type LimitNutrient = 'sodium_mg' | 'sugar_g';
@@ -0,0 +1,19 @@
+export type UserRole = 'client' | 'trainer' | 'nutritionist' | 'admin' | 'hr' | 'leads';
+
+// Inactive accounts keep their data but lose every capability
+export type AccountStatus = 'active' | 'inactive';
+
+export type Capability =
+  | 'self.track' // log own workouts, metrics, food and goals
+  | 'clients.read_assigned' // read clients with an active assignment to you
+  | 'clients.read_all' // read every client profile
+  | 'plans.manage' // build templates and plans for assigned clients
+  | 'sessions.manage' // schedule and run training sessions
+  | 'nutrition.manage' // meal plans and food reviews for assigned clients
+  | 'analytics.view_own' // stats about your own clients
+  | 'analytics.view_all' // stats across the whole organisation
+  | 'assignments.manage' // match clients with trainers and nutritionists
+  | 'invitations.manage' // invite new users
+  | 'users.manage' // edit and deactivate user accounts
+  | 'roles.assign' // change another user's role
+  | 'audit.read'; // read the admin audit log
@@ -0,0 +1,40 @@
+export interface HourlyStepSample {
+  hourStart: Date; // local start of the hour
+  steps: number;
+}
+
+export interface BodyMetrics {
+  heightCm: number;
+  weightKg: number;
+}
+
+export interface StepData {
+  date: string;
+  steps: number;
+  goal: number;
+  calories: number;
+  distance: number; // in km
+  activeMinutes: number;
+  hourlyData: number[]; // 24 hours
+}
+
+export interface WeekData {
+  weekStart: string;
+  totalSteps: number;
+  averageSteps: number;
+  daysActive: number;
+  totalCalories: number;
+  totalDistance: number;
+  dailyData: StepData[];
+}
+
+export interface MonthData {
+  month: string;
+  year: number;
+  totalSteps: number;
+  averageSteps: number;
+  daysActive: number;
+  totalCalories: number;
+  totalDistance: number;
+  weeklyData: WeekData[];
+}
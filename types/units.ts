@@ -0,0 +1,5 @@
+// Which units a user sees and types values in. Stored values are always metric.
+export type UnitSystem = 'metric' | 'imperial';
+
+// Quantities that have both a metric and an imperial unit
+export type UnitQuantity = 'mass' | 'length' | 'distance' | 'volume';
@@ -1,3 +1,5 @@
+import { GoalSourceFields } from './goals';
+
 export interface Exercise {
   id: string;
   name: string;
@@ -19,6 +21,7 @@ export interface WorkoutSet {
   duration?: number; // in seconds
   distance?: number; // in meters
   rest_time?: number; // in seconds
+  rpe?: number; // rate of perceived exertion, 1-10
   notes?: string;
 }
 
@@ -50,6 +53,16 @@ export interface WorkoutTemplate {
 }
 
 
+export type ProgressionRule = 'none' | 'linear' | 'double_progression' | 'rpe';
+
+export type ProgressionConfig = {
+  weight_increment_kg?: number;
+  rep_range_min?: number;
+  rep_range_max?: number;
+  target_rpe?: number;
+  deload_percent?: number; // applied after repeated missed sessions
+};
+
 export interface WorkoutPlan {
   id: string;
   client_id: string;
@@ -58,13 +71,52 @@ export interface WorkoutPlan {
   description?: string;
   start_date: string;
   end_date: string;
-  schedule_type: 'weekly' | 'monthly' | 'custom';
-  schedule_data: any; // Flexible schedule configuration
+  schedule_type: ScheduleType;
+  schedule_data: PlanScheduleData | null; // Older plans may hold the pre-v2 shapes; read through parseScheduleData
   status: 'draft' | 'active' | 'completed' | 'cancelled';
+  progression_rule?: ProgressionRule;
+  progression_config?: ProgressionConfig;
   created_at: string;
   updated_at: string;
 }
 
+export type ScheduleType = 'weekly' | 'monthly' | 'custom';
+
+// Schedule shapes are type aliases rather than interfaces so they can be stored
+// as plan JSON without casts.
+export type WeeklySchedule = Record<DayOfWeek, string | null>;
+
+export type CustomPlanWorkout = {
+  id: string;
+  date: string;
+  templateId: string | null;
+  label: string;
+};
+
+// Dates with no training, e.g. holidays; sessions that fall inside are dropped
+export type PlanBlackout = {
+  start_date: string;
+  end_date: string;
+  label: string | null;
+};
+
+// Training runs in mesocycles of `mesocycle_weeks`; the last `deload_weeks` of
+// each one are deloads
+export type PlanPeriodization = {
+  mesocycle_weeks: number;
+  deload_weeks: number;
+};
+
+export type PlanScheduleData = {
+  version: 2;
+  // Week layouts used in turn: one for a weekly plan, one per week of the
+  // rotation for a monthly plan
+  weeks: WeeklySchedule[];
+  custom: CustomPlanWorkout[];
+  periodization: PlanPeriodization | null;
+  blackouts: PlanBlackout[];
+};
+
 export interface PlanSession {
   id: string;
   plan_id: string;
@@ -73,6 +125,7 @@ export interface PlanSession {
   scheduled_time?: string | null;
   day_of_week?: string;
   week_number?: number;
+  is_deload?: boolean;
   status: 'scheduled' | 'completed' | 'skipped' | 'cancelled';
   notes?: string;
   created_at: string;
@@ -132,12 +185,58 @@ export interface WorkoutSession {
     exercise_id: string;
     sets: (WorkoutSet & { completed?: boolean; id?: string })[];
     notes?: string;
+    form_rating?: number;
   }[];
   notes?: string;
   completed: boolean;
   synced: boolean;
 }
 
+export interface WorkoutLog {
+  id: string;
+  session_id: string;
+  exercise_id: string;
+  order_index: number;
+  sets_performed: (WorkoutSet & { completed?: boolean; id?: string })[];
+  total_volume_kg?: number;
+  total_reps?: number;
+  total_time_seconds?: number;
+  rest_time_seconds?: number;
+  notes?: string;
+  form_rating?: number;
+  completed: boolean;
+  created_at: string;
+}
+
+export interface ExerciseHistoryEntry {
+  session_id: string;
+  performed_on: string;
+  sets_count: number;
+  total_reps: number;
+  total_volume_kg: number;
+  top_set_weight_kg: number | null;
+  best_estimated_1rm_kg: number | null;
+}
+
+export interface OneRepMaxPoint {
+  performed_on: string;
+  estimated_1rm_kg: number;
+}
+
+export interface PersonalRecord {
+  exercise_id: string;
+  exercise_name: string;
+  max_weight_kg: number | null;
+  max_weight_reps: number | null;
+  max_weight_on: string | null;
+  max_reps: number | null;
+  max_reps_on: string | null;
+  best_estimated_1rm_kg: number | null;
+  best_estimated_1rm_on: string | null;
+  best_session_volume_kg: number | null;
+  best_session_volume_on: string | null;
+}
+
 export interface Client {
   id: string;
   name: string;
@@ -164,7 +263,7 @@ export interface ClientProgress {
   updated_at: string;
 }
 
-export interface ClientGoal {
+export interface ClientGoal extends Omit<GoalSourceFields, 'target_value' | 'current_value'> {
   id: string;
   client_id: string;
   trainer_id?: string;
@@ -177,6 +276,7 @@ export interface ClientGoal {
   target_date?: string;
   priority: 'low' | 'medium' | 'high';
   status: 'active' | 'completed' | 'paused' | 'cancelled';
+  progress_percentage?: number;
   created_at: string;
   updated_at: string;
 }
@@ -188,6 +288,7 @@ export interface ActiveSet {
   weight?: number;
   duration?: number;
   rest_time?: number; // Consistent with DB schema
+  rpe?: number;
   completed: boolean;
   notes?: string;
 }
@@ -198,5 +299,6 @@ export interface ActiveExercise {
   sets: ActiveSet[];
   currentSetIndex: number;
   notes: string;
+  progressionNote?: string; // why the prefilled load differs from the template
 }
 
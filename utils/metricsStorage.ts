@@ -1,167 +1,139 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { MetricData, Metric, MetricType, MetricEntry } from '@/types/metrics';
-
-const METRICS_STORAGE_KEY = 'user_metrics';
-
-// Default metrics configuration
-const defaultMetrics: MetricData = {
-  weight: {
-    id: 'weight',
-    name: 'Weight',
-    unit: 'kg',
-    icon: '⚖️',
-    entries: [],
-  },
-  body_fat: {
-    id: 'body_fat',
-    name: 'Body Fat',
-    unit: '%',
-    icon: '📊',
-    entries: [],
-  },
-  muscle_mass: {
-    id: 'muscle_mass',
-    name: 'Muscle Mass',
-    unit: 'kg',
-    icon: '💪',
-    entries: [],
-  },
-  chest: {
-    id: 'chest',
-    name: 'Chest',
-    unit: 'cm',
-    icon: '📏',
-    entries: [],
-  },
-  waist: {
-    id: 'waist',
-    name: 'Waist',
-    unit: 'cm',
-    icon: '📐',
-    entries: [],
-  },
-  hips: {
-    id: 'hips',
-    name: 'Hips',
-    unit: 'cm',
-    icon: '📏',
-    entries: [],
-  },
-  biceps: {
-    id: 'biceps',
-    name: 'Biceps',
-    unit: 'cm',
-    icon: '💪',
-    entries: [],
-  },
-  thighs: {
-    id: 'thighs',
-    name: 'Thighs',
-    unit: 'cm',
-    icon: '🦵',
-    entries: [],
-  },
-  height: {
-    id: 'height',
-    name: 'Height',
-    unit: 'cm',
-    icon: '📏',
-    entries: [],
-  },
-  blood_pressure: {
-    id: 'blood_pressure',
-    name: 'Blood Pressure',
-    unit: 'mmHg',
-    icon: '❤️',
-    entries: [],
-  },
-  heart_rate: {
-    id: 'heart_rate',
-    name: 'Heart Rate',
-    unit: 'bpm',
-    icon: '💓',
-    entries: [],
-  },
-  steps: {
-    id: 'steps',
-    name: 'Steps',
-    unit: 'steps',
-    icon: '👟',
-    entries: [],
-  },
-  sleep_hours: {
-    id: 'sleep_hours',
-    name: 'Sleep',
-    unit: 'hours',
-    icon: '😴',
-    entries: [],
-  },
-  water_intake: {
-    id: 'water_intake',
-    name: 'Water Intake',
-    unit: 'L',
-    icon: '💧',
-    entries: [],
-  },
+import { MetricData, Metric, MetricDefinition, MetricType, MetricEntry } from '@/types/metrics';
+import { getCurrentUserProfile } from '@/lib/database';
+import {
+  MeasurementEntry,
+  deleteMeasurement,
+  getMeasurementEntries,
+  insertMeasurement,
+} from '@/lib/metricsRepository';
+import { METRIC_DEFINITIONS, getMetricDefinition, validateMetricValue } from '@/lib/metricRegistry';
+import { emitDataChange } from '@/lib/dataEvents';
+import { toLocalDateString } from '@/lib/stepIngestion';
+
+// Last metrics fetched per client, shown when Supabase can't be reached
+const METRICS_CACHE_KEY = '@metrics_cache';
+
+const emptyMetric = (definition: MetricDefinition): Metric => ({
+  id: definition.id,
+  name: definition.name,
+  unit: definition.unit,
+  icon: definition.icon,
+  color: definition.color,
+  entries: [],
+});
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+// Screens pass a YYYY-MM-DD date and an optional "9:30 AM" time; importers pass full ISO timestamps
+const toMeasuredAt = (date: string, time?: string): Date => {
+  if (date.includes('T')) return new Date(date);
+
+  const measuredAt = new Date(`${date}T00:00:00`);
+  const match = time?.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (match) {
+    const hour = parseInt(match[1], 10);
+    const meridiem = match[3]?.toUpperCase();
+    measuredAt.setHours(meridiem ? (hour % 12) + (meridiem === 'PM' ? 12 : 0) : hour, parseInt(match[2], 10));
+  } else if (date === toLocalDateString(new Date())) {
+    return new Date();
+  }
+  return measuredAt;
+};
+
+const buildMetrics = (entries: MeasurementEntry[]): MetricData => {
+  const metrics: MetricData = {};
+  METRIC_DEFINITIONS.forEach(definition => {
+    metrics[definition.id] = emptyMetric(definition);
+  });
+
+  entries.forEach(entry => {
+    const metric = metrics[entry.metricKey];
+    if (!metric) return;
+    const measuredAt = new Date(entry.measuredAt);
+    metric.entries.push({
+      id: entry.id,
+      value: entry.value,
+      unit: metric.unit,
+      date: measuredAt.toISOString(),
+      time: formatTime(measuredAt),
+    });
+  });
+
+  Object.values(metrics).forEach(metric => {
+    metric.entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const latest = metric.entries[metric.entries.length - 1];
+    metric.currentValue = latest?.value;
+    metric.lastUpdated = latest?.date;
+  });
+
+  return metrics;
 };
 
-export const getMetrics = async (): Promise<MetricData> => {
+const getCachedMetrics = async (clientId: string): Promise<MetricData | null> => {
   try {
-    const stored = await AsyncStorage.getItem(METRICS_STORAGE_KEY);
-    if (stored) {
-      const parsedMetrics = JSON.parse(stored);
-      // Merge with defaults to ensure all metrics exist
-      return { ...defaultMetrics, ...parsedMetrics };
-    }
-    
-    // Initialize with default metrics
-    await AsyncStorage.setItem(METRICS_STORAGE_KEY, JSON.stringify(defaultMetrics));
-    return defaultMetrics;
+    const stored = await AsyncStorage.getItem(`${METRICS_CACHE_KEY}:${clientId}`);
+    return stored ? JSON.parse(stored) : null;
   } catch (error) {
-    console.error('Error loading metrics:', error);
-    return defaultMetrics;
+    console.error('Error reading cached metrics:', error);
+    return null;
   }
 };
 
-export const getMetric = async (metricType: MetricType): Promise<Metric> => {
-  const metrics = await getMetrics();
-  return metrics[metricType] || defaultMetrics[metricType];
-};
-
-export const saveMetric = async (metricType: MetricType, metric: Metric): Promise<void> => {
+// Metrics for `clientId`, or for the signed-in user. Trainers can read their
+// assigned clients' metrics; the table's policies decide.
+export const getMetrics = async (clientId?: string): Promise<MetricData> => {
   try {
-    const metrics = await getMetrics();
-    metrics[metricType] = metric;
-    await AsyncStorage.setItem(METRICS_STORAGE_KEY, JSON.stringify(metrics));
+    const profileId = clientId || (await getCurrentUserProfile())?.id;
+    if (!profileId) return buildMetrics([]);
+
+    const entries = await getMeasurementEntries(profileId);
+    if (!entries) {
+      return { ...buildMetrics([]), ...(await getCachedMetrics(profileId)) };
+    }
+
+    const metrics = buildMetrics(entries);
+    await AsyncStorage.setItem(`${METRICS_CACHE_KEY}:${profileId}`, JSON.stringify(metrics));
+    return metrics;
   } catch (error) {
-    console.error('Error saving metric:', error);
-    throw error;
+    console.error('Error loading metrics:', error);
+    return buildMetrics([]);
   }
 };
 
+export const getMetric = async (metricType: MetricType, clientId?: string): Promise<Metric> => {
+  const metrics = await getMetrics(clientId);
+  return metrics[metricType];
+};
+
 export const addMetricEntry = async (
   metricType: MetricType,
   value: number,
   date: string = new Date().toISOString(),
-  notes?: string
-): Promise<void> => {
+  time?: string
+): Promise<MetricEntry> => {
   try {
-    const metric = await getMetric(metricType);
-    
-    const newEntry: MetricEntry = {
-      id: Date.now().toString(),
-      value,
-      date,
-      notes,
-      created_at: new Date().toISOString(),
+    const invalid = validateMetricValue(metricType, value);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+
+    const profile = await getCurrentUserProfile();
+    if (!profile) {
+      throw new Error('Not signed in');
+    }
+
+    const entry = await insertMeasurement(profile.id, metricType, value, toMeasuredAt(date, time));
+    emitDataChange('metric');
+    const measuredAt = new Date(entry.measuredAt);
+    return {
+      id: entry.id,
+      value: entry.value,
+      unit: getMetricDefinition(metricType)?.unit || '',
+      date: measuredAt.toISOString(),
+      time: formatTime(measuredAt),
     };
-    
-    metric.entries.push(newEntry);
-    metric.entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    metric.currentValue = value;
-    metric.lastUpdated = new Date().toISOString();
-    
-    await saveMetric(metricType, metric);
   } catch (error) {
     console.error('Error adding metric entry:', error);
     throw error;
@@ -173,22 +145,8 @@ export const deleteMetricEntry = async (
   entryId: string
 ): Promise<void> => {
   try {
-    const metric = await getMetric(metricType);
-    metric.entries = metric.entries.filter(entry => entry.id !== entryId);
-    
-    // Update current value to the latest entry
-    if (metric.entries.length > 0) {
-      const sortedEntries = metric.entries.sort(
-        (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-      );
-      metric.currentValue = sortedEntries[0].value;
-      metric.lastUpdated = sortedEntries[0].date;
-    } else {
-      metric.currentValue = undefined;
-      metric.lastUpdated = undefined;
-    }
-    
-    await saveMetric(metricType, metric);
+    await deleteMeasurement(entryId, metricType);
+    emitDataChange('metric');
   } catch (error) {
     console.error('Error deleting metric entry:', error);
     throw error;
@@ -197,9 +155,10 @@ export const deleteMetricEntry = async (
 
 export const clearAllMetrics = async (): Promise<void> => {
   try {
-    await AsyncStorage.removeItem(METRICS_STORAGE_KEY);
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(METRICS_CACHE_KEY)));
   } catch (error) {
     console.error('Error clearing metrics:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
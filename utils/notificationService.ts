@@ -15,7 +15,7 @@ export interface NotificationData {
   goalId: string;
   goalTitle: string;
   goalEmoji: string;
-  type: 'finish' | 'oneDayBefore' | 'oneWeekBefore';
+  type: 'finish' | 'oneDayBefore' | 'oneWeekBefore' | 'completed';
 }
 
 export interface ScheduledNotification {
@@ -45,14 +45,10 @@ export const requestNotificationPermissions = async (): Promise<boolean> => {
     }
 
     if (finalStatus !== 'granted') {
-      console.log('Failed to get push token for push notification!');
+      console.log('Notification permission not granted');
       return false;
     }
 
-    // Get the token that uniquely identifies this device
-    const token = await Notifications.getExpoPushTokenAsync();
-    console.log('Push token:', token.data);
-
     return true;
   } catch (error) {
     console.error('Error requesting notification permissions:', error);
@@ -268,6 +264,37 @@ export const scheduleGoalNotifications = async (
   }
 };
 
+// Show a goal completion right away, e.g. when logged data finishes it
+export const presentGoalCompletedNotification = async (
+  goalId: string,
+  goalTitle: string,
+  goalEmoji: string
+): Promise<string | null> => {
+  if (Platform.OS === 'web') {
+    return null;
+  }
+
+  try {
+    return await Notifications.scheduleNotificationAsync({
+      content: {
+        title: `${goalEmoji} Goal Achieved!`,
+        body: `You completed "${goalTitle}". Great work!`,
+        data: {
+          goalId,
+          goalTitle,
+          goalEmoji,
+          type: 'completed',
+        },
+        sound: 'default',
+      },
+      trigger: null,
+    });
+  } catch (error) {
+    console.error('Error presenting goal completed notification:', error);
+    return null;
+  }
+};
+
 // Cancel all notifications for a specific goal
 export const cancelGoalNotifications = async (goalId: string): Promise<void> => {
   if (Platform.OS === 'web') {
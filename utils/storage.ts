@@ -1,10 +1,10 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { WorkoutTemplate, WorkoutPlan, WorkoutSession, Client, Exercise } from '../types/workout';
+import { WorkoutTemplate, WorkoutSession, TrainingSession, Client, Exercise } from '../types/workout';
 
 const STORAGE_KEYS = {
   TEMPLATES: '@workout_templates',
-  PLANS: '@workout_plans',
   SESSIONS: '@workout_sessions',
+  TRAINING_SESSIONS: '@training_sessions',
   CLIENTS: '@clients',
   EXERCISES: '@exercises',
   PENDING_SYNC: '@pending_sync',
@@ -70,36 +70,32 @@ export const deleteTemplate = async (id: string): Promise<void> => {
   await addToPendingSync('template', id, 'delete');
 };
 
-// Plan functions
-export const savePlan = async (plan: WorkoutPlan): Promise<void> => {
-  const plans = await getPlans();
-  const updatedPlans = plans.filter(p => p.id !== plan.id);
-  updatedPlans.push(plan);
-  await storeData(STORAGE_KEYS.PLANS, updatedPlans);
-  await addToPendingSync('plan', plan.id, 'create');
-};
-
-export const getPlans = async (): Promise<WorkoutPlan[]> => {
-  return await getData<WorkoutPlan[]>(STORAGE_KEYS.PLANS) || [];
-};
-
-export const getPlan = async (id: string): Promise<WorkoutPlan | null> => {
-  const plans = await getPlans();
-  return plans.find(p => p.id === id) || null;
-};
-
-export const getClientPlans = async (clientId: string): Promise<WorkoutPlan[]> => {
-  const plans = await getPlans();
-  return plans.filter(p => p.clientId === clientId);
-};
-
 // Session functions
 export const saveSession = async (session: WorkoutSession): Promise<void> => {
   const sessions = await getSessions();
   const updatedSessions = sessions.filter(s => s.id !== session.id);
   updatedSessions.push(session);
   await storeData(STORAGE_KEYS.SESSIONS, updatedSessions);
-  await addToPendingSync('session', session.id, 'create');
+  if (!session.synced) {
+    await addToPendingSync('session', session.id, sessions.length === updatedSessions.length ? 'update' : 'create');
+  }
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const sessions = await getSessions();
+  await storeData(STORAGE_KEYS.SESSIONS, sessions.filter(s => s.id !== id));
+  await addToPendingSync('session', id, 'delete');
+};
+
+// Give a locally created session its server id, carrying any queued change along
+export const renameSession = async (oldId: string, newId: string): Promise<void> => {
+  const sessions = await getSessions();
+  await storeData(STORAGE_KEYS.SESSIONS, sessions.map(s => (s.id === oldId ? { ...s, id: newId } : s)));
+
+  const pendingSync = await getPendingSync();
+  await storeData(STORAGE_KEYS.PENDING_SYNC, pendingSync.map(item =>
+    item.type === 'session' && item.id === oldId ? { ...item, id: newId } : item
+  ));
 };
 
 export const getSessions = async (): Promise<WorkoutSession[]> => {
@@ -116,6 +112,23 @@ export const getClientSessions = async (clientId: string): Promise<WorkoutSessio
   return sessions.filter(s => s.clientId === clientId);
 };
 
+// Training session cache, so a session opened once can be resumed without signal
+export const cacheTrainingSession = async (session: TrainingSession): Promise<void> => {
+  const sessions = await getCachedTrainingSessions();
+  const updatedSessions = sessions.filter(s => s.id !== session.id);
+  updatedSessions.push(session);
+  await storeData(STORAGE_KEYS.TRAINING_SESSIONS, updatedSessions);
+};
+
+export const getCachedTrainingSessions = async (): Promise<TrainingSession[]> => {
+  return await getData<TrainingSession[]>(STORAGE_KEYS.TRAINING_SESSIONS) || [];
+};
+
+export const getCachedTrainingSession = async (id: string): Promise<TrainingSession | null> => {
+  const sessions = await getCachedTrainingSessions();
+  return sessions.find(s => s.id === id) || null;
+};
+
 // Client functions
 export const saveClient = async (client: Client): Promise<void> => {
   const clients = await getClients();
@@ -144,14 +157,43 @@ export const saveExercises = async (exercises: Exercise[]): Promise<void> => {
 };
 
 // Sync functions
-export const addToPendingSync = async (type: string, id: string, action: 'create' | 'update' | 'delete'): Promise<void> => {
-  const pendingSync = await getData<any[]>(STORAGE_KEYS.PENDING_SYNC) || [];
-  const syncItem = {
+export type SyncAction = 'create' | 'update' | 'delete';
+
+export interface PendingSyncItem {
+  type: string;
+  id: string;
+  action: SyncAction;
+  timestamp: string;
+  payload?: Record<string, any>;
+  attempts?: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+}
+
+// An update to a record whose create hasn't reached the server yet is still a create
+const mergeSyncAction = (previous: SyncAction | undefined, next: SyncAction): SyncAction => {
+  if (next === 'update' && previous === 'create') return 'create';
+  return next;
+};
+
+export const addToPendingSync = async (
+  type: string,
+  id: string,
+  action: SyncAction,
+  payload?: Record<string, any>
+): Promise<void> => {
+  const pendingSync = await getPendingSync();
+  const existing = pendingSync.find(item => item.type === type && item.id === id);
+  const syncItem: PendingSyncItem = {
     type,
     id,
-    action,
+    action: mergeSyncAction(existing?.action, action),
     timestamp: new Date().toISOString(),
   };
+
+  if (action !== 'delete' && (existing?.payload || payload)) {
+    syncItem.payload = { ...existing?.payload, ...payload };
+  }
   
   // Remove existing sync item for the same type and id
   const updatedSync = pendingSync.filter(item => !(item.type === type && item.id === id));
@@ -160,17 +202,32 @@ export const addToPendingSync = async (type: string, id: string, action: 'create
   await storeData(STORAGE_KEYS.PENDING_SYNC, updatedSync);
 };
 
-export const getPendingSync = async (): Promise<any[]> => {
-  return await getData<any[]>(STORAGE_KEYS.PENDING_SYNC) || [];
+export const getPendingSync = async (): Promise<PendingSyncItem[]> => {
+  return await getData<PendingSyncItem[]>(STORAGE_KEYS.PENDING_SYNC) || [];
 };
 
 export const clearPendingSync = async (): Promise<void> => {
   await storeData(STORAGE_KEYS.PENDING_SYNC, []);
 };
 
-export const removeSyncItem = async (type: string, id: string): Promise<void> => {
+export const removeSyncItem = async (type: string, id: string, timestamp?: string): Promise<void> => {
   const pendingSync = await getPendingSync();
-  const updatedSync = pendingSync.filter(item => !(item.type === type && item.id === id));
+  // With a timestamp, leave the item alone if it was re-queued while being synced
+  const updatedSync = pendingSync.filter(item =>
+    !(item.type === type && item.id === id && (!timestamp || item.timestamp === timestamp))
+  );
+  await storeData(STORAGE_KEYS.PENDING_SYNC, updatedSync);
+};
+
+export const updateSyncItem = async (
+  type: string,
+  id: string,
+  changes: Partial<Omit<PendingSyncItem, 'type' | 'id'>>
+): Promise<void> => {
+  const pendingSync = await getPendingSync();
+  const updatedSync = pendingSync.map(item =>
+    item.type === type && item.id === id ? { ...item, ...changes } : item
+  );
   await storeData(STORAGE_KEYS.PENDING_SYNC, updatedSync);
 };
 
@@ -0,0 +1,32 @@
+import { Alert } from 'react-native';
+import { applyTargetRecalculation, getTargetRecalculation } from '@/lib/nutritionTargets';
+
+// After a weight is logged, offer to update nutrition targets that were
+// calculated from an older weight. Resolves once the user has answered, or
+// right away when there's nothing to offer.
+export const offerTargetRecalculation = async (weightKg: number): Promise<void> => {
+  const recalculation = await getTargetRecalculation(weightKg);
+  if (!recalculation) return;
+
+  const { goals, targets } = recalculation;
+  return new Promise(resolve => {
+    Alert.alert(
+      'Update Nutrition Targets?',
+      `Your targets were calculated from an earlier weight. At your new weight they would be ` +
+        `${targets.daily_calories} kcal (now ${goals.daily_calories}), ${targets.daily_protein_g}g protein, ` +
+        `${targets.daily_carbs_g}g carbs and ${targets.daily_fat_g}g fat.`,
+      [
+        { text: 'Not Now', style: 'cancel', onPress: () => resolve() },
+        {
+          text: 'Update',
+          onPress: async () => {
+            const saved = await applyTargetRecalculation(recalculation);
+            if (!saved) Alert.alert('Error', 'Failed to update nutrition targets');
+            resolve();
+          },
+        },
+      ],
+      { cancelable: false }
+    );
+  });
+};
@@ -29,27 +29,6 @@ export const calculateSessionVolume = (session: WorkoutSession): number => {
   }, 0);
 };
 
-export const getPersonalRecord = (sessions: WorkoutSession[], exerciseId: string): { weight: number; reps: number } | null => {
-  let maxWeight = 0;
-  let maxReps = 0;
-
-  sessions.forEach(session => {
-    const exercise = session.exercises.find(ex => ex.exercise_id === exerciseId);
-    if (exercise) {
-      exercise.sets.forEach(set => {
-        if (set.weight && set.weight > maxWeight) {
-          maxWeight = set.weight;
-        }
-        if (set.reps && set.reps > maxReps) {
-          maxReps = set.reps;
-        }
-      });
-    }
-  });
-
-  return maxWeight > 0 || maxReps > 0 ? { weight: maxWeight, reps: maxReps } : null;
-};
-
 export const getDayOfWeek = (date: Date): DayOfWeek => {
   const days: DayOfWeek[] = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
   return days[date.getDay()] as DayOfWeek;